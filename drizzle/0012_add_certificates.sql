@@ -0,0 +1,22 @@
+-- Attestati emessi per le iscrizioni completate
+-- Il numero progressivo è univoco per cliente; payload conserva i dati stampati
+-- così che la ristampa produca una copia identica all'originale
+
+CREATE TABLE IF NOT EXISTS certificates (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  clientId INTEGER NOT NULL,
+  registrationId INTEGER NOT NULL,
+  progressive INTEGER NOT NULL,
+  certificateNumber TEXT NOT NULL,
+  issueDate TEXT NOT NULL,
+  expiryDate TEXT,
+  payload TEXT NOT NULL,
+  createdAt TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updatedAt TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  FOREIGN KEY (clientId) REFERENCES clients(id) ON DELETE CASCADE,
+  FOREIGN KEY (registrationId) REFERENCES registrations(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS certificate_clientId_idx ON certificates(clientId);
+CREATE UNIQUE INDEX IF NOT EXISTS certificates_registrationId_unique ON certificates(registrationId);
+CREATE UNIQUE INDEX IF NOT EXISTS certificates_clientId_progressive_unique ON certificates(clientId, progressive);
@@ -0,0 +1,11 @@
+-- Verifica pubblica degli attestati tramite QR code
+-- verificationToken è la parte casuale del codice firmato stampato nel QR;
+-- revokedAt invalida il codice quando l'iscrizione esce dallo stato 'completed'
+
+ALTER TABLE certificates ADD COLUMN verificationToken TEXT;
+ALTER TABLE certificates ADD COLUMN revokedAt TEXT;
+
+-- Token per gli attestati già emessi
+UPDATE certificates SET verificationToken = lower(hex(randomblob(16))) WHERE verificationToken IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS certificates_verificationToken_unique ON certificates(verificationToken);
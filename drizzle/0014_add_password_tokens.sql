@@ -0,0 +1,18 @@
+-- Link monouso per l'invito degli utenti e il reset della password
+-- Si salva solo l'hash SHA-256 del token; usedAt impedisce il riutilizzo del link
+
+CREATE TABLE IF NOT EXISTS passwordTokens (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  clientId INTEGER NOT NULL,
+  userId INTEGER NOT NULL,
+  tokenHash TEXT NOT NULL,
+  purpose TEXT NOT NULL,
+  expiresAt TEXT NOT NULL,
+  usedAt TEXT,
+  createdAt TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  FOREIGN KEY (clientId) REFERENCES clients(id) ON DELETE CASCADE,
+  FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS passwordToken_userId_idx ON passwordTokens(userId);
+CREATE UNIQUE INDEX IF NOT EXISTS passwordTokens_tokenHash_unique ON passwordTokens(tokenHash);
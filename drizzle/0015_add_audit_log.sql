@@ -0,0 +1,25 @@
+-- Storico delle modifiche ai dati (D.Lgs. 81/08: prova di chi ha modificato cosa e quando)
+-- changes contiene il diff JSON { campo: { from, to } } della singola operazione.
+-- studentId/companyId/editionId non hanno FK: il log deve sopravvivere alle cancellazioni
+
+CREATE TABLE IF NOT EXISTS auditLog (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  clientId INTEGER NOT NULL,
+  userId INTEGER NOT NULL,
+  userEmail TEXT NOT NULL,
+  entityType TEXT NOT NULL,
+  entityId INTEGER NOT NULL,
+  action TEXT NOT NULL,
+  changes TEXT NOT NULL,
+  studentId INTEGER,
+  companyId INTEGER,
+  editionId INTEGER,
+  ipAddress TEXT,
+  createdAt TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  FOREIGN KEY (clientId) REFERENCES clients(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS auditLog_entity_idx ON auditLog(clientId, entityType, entityId);
+CREATE INDEX IF NOT EXISTS auditLog_studentId_idx ON auditLog(studentId);
+CREATE INDEX IF NOT EXISTS auditLog_companyId_idx ON auditLog(companyId);
+CREATE INDEX IF NOT EXISTS auditLog_editionId_idx ON auditLog(editionId);
@@ -0,0 +1,30 @@
+-- Coda di invio email: ogni messaggio viene salvato prima dell'invio e
+-- ritentato con backoff fino a maxAttempts. rawMessage è valorizzato solo
+-- dal trasporto "file" (sviluppo e test) con il messaggio .eml completo.
+
+CREATE TABLE IF NOT EXISTS emailOutbox (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  clientId INTEGER NOT NULL,
+  kind TEXT NOT NULL,
+  toEmail TEXT NOT NULL,
+  fromEmail TEXT,
+  fromName TEXT,
+  subject TEXT NOT NULL,
+  html TEXT NOT NULL,
+  attachments TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  maxAttempts INTEGER NOT NULL DEFAULT 5,
+  lastError TEXT,
+  transport TEXT,
+  messageId TEXT,
+  rawMessage TEXT,
+  nextAttemptAt TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  sentAt TEXT,
+  createdAt TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updatedAt TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  FOREIGN KEY (clientId) REFERENCES clients(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS emailOutbox_client_status_idx ON emailOutbox(clientId, status);
+CREATE INDEX IF NOT EXISTS emailOutbox_due_idx ON emailOutbox(status, nextAttemptAt);
@@ -0,0 +1,35 @@
+-- Promemoria automatici delle scadenze degli attestati (cron giornaliero)
+-- reminderSettings: soglie in giorni e destinatari, una riga per cliente
+-- (senza riga valgono i default: attivo, soglie 90/60/30/0, tutti i destinatari).
+-- certificateReminders registra ogni promemoria accodato: il vincolo UNIQUE
+-- garantisce un solo invio per iscrizione, destinatario, soglia e data di scadenza.
+
+CREATE TABLE IF NOT EXISTS reminderSettings (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  clientId INTEGER NOT NULL UNIQUE,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  thresholds TEXT NOT NULL DEFAULT '90,60,30,0',
+  notifyStudents INTEGER NOT NULL DEFAULT 1,
+  notifyCompanies INTEGER NOT NULL DEFAULT 1,
+  notifyAgents INTEGER NOT NULL DEFAULT 1,
+  updatedAt TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  FOREIGN KEY (clientId) REFERENCES clients(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS certificateReminders (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  clientId INTEGER NOT NULL,
+  registrationId INTEGER NOT NULL,
+  threshold INTEGER NOT NULL,
+  recipientType TEXT NOT NULL,
+  recipientEmail TEXT NOT NULL,
+  expiryDate TEXT NOT NULL,
+  outboxId INTEGER,
+  createdAt TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  FOREIGN KEY (clientId) REFERENCES clients(id) ON DELETE CASCADE,
+  FOREIGN KEY (registrationId) REFERENCES registrations(id) ON DELETE CASCADE,
+  FOREIGN KEY (outboxId) REFERENCES emailOutbox(id) ON DELETE SET NULL,
+  UNIQUE (registrationId, recipientType, threshold, expiryDate)
+);
+
+CREATE INDEX IF NOT EXISTS certificateReminders_clientId_idx ON certificateReminders(clientId);
@@ -0,0 +1,13 @@
+-- Template email personalizzati per cliente (oggetto + corpo HTML con segnaposto {{gruppo.campo}})
+-- Una riga per template modificato: i template mai salvati usano quelli predefiniti del codice
+
+CREATE TABLE IF NOT EXISTS emailTemplates (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  clientId INTEGER NOT NULL,
+  templateKey TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  html TEXT NOT NULL,
+  updatedAt TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  FOREIGN KEY (clientId) REFERENCES clients(id) ON DELETE CASCADE,
+  UNIQUE (clientId, templateKey)
+);
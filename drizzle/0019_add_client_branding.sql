@@ -0,0 +1,24 @@
+-- Carta intestata del cliente: ragione sociale, dati fiscali, indirizzo, accreditamenti,
+-- logo e colori usati su registri, esportazioni, attestati ed email.
+-- Una riga per cliente; senza riga si usano il nome del cliente e i colori predefiniti.
+
+CREATE TABLE IF NOT EXISTS clientBranding (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  clientId INTEGER NOT NULL UNIQUE,
+  legalName TEXT,
+  vatNumber TEXT,
+  fiscalCode TEXT,
+  address TEXT,
+  city TEXT,
+  province TEXT,
+  zipCode TEXT,
+  phone TEXT,
+  email TEXT,
+  website TEXT,
+  accreditationNumbers TEXT,
+  logo TEXT,
+  primaryColor TEXT NOT NULL DEFAULT '#2980b9',
+  secondaryColor TEXT NOT NULL DEFAULT '#1f2937',
+  updatedAt TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  FOREIGN KEY (clientId) REFERENCES clients(id) ON DELETE CASCADE
+);
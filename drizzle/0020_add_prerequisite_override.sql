@@ -0,0 +1,10 @@
+-- Prerequisiti dei corsi: l'iscrizione richiede un attestato valido del corso prerequisito
+-- (e dell'intera catena). L'admin può forzare l'iscrizione indicando una motivazione,
+-- che resta registrata sull'iscrizione insieme all'utente e alla data della deroga.
+-- L'admin del cliente accede con userId 0, che non esiste in users: per lui
+-- prerequisiteOverrideBy resta NULL e conta l'email salvata accanto.
+
+ALTER TABLE registrations ADD COLUMN prerequisiteOverrideReason TEXT;
+ALTER TABLE registrations ADD COLUMN prerequisiteOverrideBy INTEGER REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE registrations ADD COLUMN prerequisiteOverrideByEmail TEXT;
+ALTER TABLE registrations ADD COLUMN prerequisiteOverrideAt TEXT;
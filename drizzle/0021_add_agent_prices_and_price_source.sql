@@ -0,0 +1,39 @@
+-- Listini per agente nelle edizioni e regola di prezzo applicata alle iscrizioni.
+-- La tabella edition_agent_prices viene ricreata con le colonne di drizzle/schema.ts
+-- (clientId, createdAt, updatedAt) e un solo prezzo per agente ed edizione.
+
+CREATE TABLE IF NOT EXISTS edition_agent_prices (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  course_edition_id INTEGER NOT NULL REFERENCES courseEditions(id) ON DELETE CASCADE,
+  agent_id INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  price INTEGER NOT NULL DEFAULT 0,
+  client_id INTEGER NOT NULL,
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE edition_agent_prices_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  course_edition_id INTEGER NOT NULL REFERENCES courseEditions(id) ON DELETE CASCADE,
+  agent_id INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  price INTEGER NOT NULL DEFAULT 0, -- Centesimi
+  clientId INTEGER NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  createdAt TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updatedAt TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+-- Nessun handler scriveva la tabella: si conserva comunque l'ultimo prezzo inserito a mano
+INSERT INTO edition_agent_prices_new (course_edition_id, agent_id, price, clientId)
+SELECT course_edition_id, agent_id, price, client_id
+FROM edition_agent_prices
+WHERE id IN (SELECT MAX(id) FROM edition_agent_prices GROUP BY course_edition_id, agent_id);
+
+DROP TABLE edition_agent_prices;
+
+ALTER TABLE edition_agent_prices_new RENAME TO edition_agent_prices;
+
+CREATE UNIQUE INDEX IF NOT EXISTS edition_agent_prices_course_edition_id_agent_id_unique ON edition_agent_prices(course_edition_id, agent_id);
+CREATE INDEX IF NOT EXISTS edition_agent_price_clientId_idx ON edition_agent_prices(clientId);
+
+-- manual | company | agent | edition_custom | edition | course (NULL per le iscrizioni precedenti)
+ALTER TABLE registrations ADD COLUMN priceSource TEXT;
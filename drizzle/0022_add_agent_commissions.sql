@@ -0,0 +1,54 @@
+-- Provvigioni agenti: regole per agente (percentuale o fisso a iscrizione, per tipologia
+-- di corso e periodo di validità) ed estratti conto mensili con stato di liquidazione.
+-- Ogni iscrizione compare al massimo in un estratto conto.
+
+CREATE TABLE agentCommissionRules (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  clientId INTEGER NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  agentId INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  courseType TEXT, -- NULL = tutte le tipologie
+  commissionType TEXT NOT NULL DEFAULT 'percentage', -- percentage | fixed
+  value INTEGER NOT NULL, -- Centesimi di punto (percentage) o centesimi di euro (fixed)
+  accrueOn TEXT NOT NULL DEFAULT 'registration', -- registration | invoiced | paid
+  validFrom TEXT NOT NULL,
+  validTo TEXT,
+  notes TEXT,
+  createdAt TEXT NOT NULL,
+  updatedAt TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS agentCommissionRules_agent_idx ON agentCommissionRules(clientId, agentId);
+
+CREATE TABLE agentCommissionStatements (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  clientId INTEGER NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  agentId INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  period TEXT NOT NULL, -- YYYY-MM
+  status TEXT NOT NULL DEFAULT 'draft', -- draft | liquidated
+  totalAmount INTEGER NOT NULL DEFAULT 0,
+  liquidatedAt TEXT,
+  liquidatedBy INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  createdAt TEXT NOT NULL,
+  updatedAt TEXT NOT NULL,
+  UNIQUE (agentId, period)
+);
+
+CREATE INDEX IF NOT EXISTS agentCommissionStatements_clientId_idx ON agentCommissionStatements(clientId);
+
+CREATE TABLE agentCommissionLines (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  clientId INTEGER NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  statementId INTEGER NOT NULL REFERENCES agentCommissionStatements(id) ON DELETE CASCADE,
+  registrationId INTEGER NOT NULL REFERENCES registrations(id) ON DELETE CASCADE,
+  ruleId INTEGER REFERENCES agentCommissionRules(id) ON DELETE SET NULL,
+  -- Snapshot dei dati al momento dell'estratto conto
+  studentName TEXT NOT NULL,
+  courseTitle TEXT NOT NULL,
+  registrationDate TEXT NOT NULL,
+  priceApplied INTEGER NOT NULL,
+  invoiceStatus TEXT,
+  commissionAmount INTEGER NOT NULL,
+  UNIQUE (registrationId)
+);
+
+CREATE INDEX IF NOT EXISTS agentCommissionLines_statement_idx ON agentCommissionLines(statementId);
@@ -0,0 +1,42 @@
+-- Fatturazione: bozze di fattura generate dalle iscrizioni completate, una per azienda
+-- (o per azienda ed edizione). La fattura è creata presso il provider configurato
+-- (INVOICING_PROVIDER) e ne resta una copia locale con le righe.
+-- registrations.invoiceId contiene l'id della fattura locale.
+
+CREATE TABLE invoices (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  clientId INTEGER NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  companyId INTEGER REFERENCES companies(id) ON DELETE SET NULL, -- NULL = privato (studente senza azienda)
+  courseEditionId INTEGER REFERENCES courseEditions(id) ON DELETE SET NULL, -- Solo se raggruppata per edizione
+  provider TEXT NOT NULL, -- local | fattureincloud | custom
+  externalId TEXT, -- Id del documento presso il provider
+  number TEXT NOT NULL,
+  date TEXT NOT NULL,
+  dueDate TEXT,
+  status TEXT NOT NULL DEFAULT 'draft', -- draft | sent | paid | partial | cancelled
+  customerName TEXT NOT NULL,
+  netAmount INTEGER NOT NULL DEFAULT 0,
+  vatAmount INTEGER NOT NULL DEFAULT 0,
+  totalAmount INTEGER NOT NULL DEFAULT 0,
+  pdfUrl TEXT,
+  createdBy INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  createdAt TEXT NOT NULL,
+  updatedAt TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS invoices_clientId_idx ON invoices(clientId);
+CREATE INDEX IF NOT EXISTS invoices_company_idx ON invoices(clientId, companyId);
+
+CREATE TABLE invoiceLines (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  clientId INTEGER NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  invoiceId INTEGER NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  registrationId INTEGER REFERENCES registrations(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  quantity INTEGER NOT NULL DEFAULT 1,
+  unitPrice INTEGER NOT NULL, -- Centesimi
+  vatRate INTEGER NOT NULL DEFAULT 22
+);
+
+CREATE INDEX IF NOT EXISTS invoiceLines_invoice_idx ON invoiceLines(invoiceId);
+CREATE INDEX IF NOT EXISTS invoiceLines_registration_idx ON invoiceLines(registrationId);
@@ -0,0 +1,22 @@
+-- Incassi: pagamenti registrati su una fattura o su un'iscrizione non ancora fatturata.
+-- Gli incassi parziali di una fattura si ripartiscono sulle righe in ordine, così
+-- invoiceStatus di ogni iscrizione passa a 'partial' o 'paid'.
+-- Importi in centesimi.
+
+CREATE TABLE payments (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  clientId INTEGER NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  invoiceId INTEGER REFERENCES invoices(id) ON DELETE CASCADE,
+  registrationId INTEGER REFERENCES registrations(id) ON DELETE CASCADE, -- Solo se non fatturata
+  amount INTEGER NOT NULL,
+  paymentDate TEXT NOT NULL,
+  method TEXT NOT NULL DEFAULT 'bank_transfer', -- bank_transfer | cash | card | check | other
+  reference TEXT, -- CRO, numero assegno...
+  notes TEXT,
+  createdBy INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  createdAt TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS payments_clientId_idx ON payments(clientId);
+CREATE INDEX IF NOT EXISTS payments_invoice_idx ON payments(invoiceId);
+CREATE INDEX IF NOT EXISTS payments_registration_idx ON payments(registrationId);
@@ -0,0 +1,39 @@
+-- Preventivi alle aziende: corsi, numero di lavoratori e prezzi concordati.
+-- Il preventivo accettato si converte in iscrizioni sulle edizioni scelte con il prezzo
+-- del preventivo (priceSource 'quote'); registrations.quoteLineId ne conserva l'origine.
+-- Stati: draft | sent | accepted | rejected | expired (scaduto oltre validUntil senza risposta).
+
+CREATE TABLE quotes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  clientId INTEGER NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  companyId INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  number TEXT NOT NULL,
+  date TEXT NOT NULL,
+  validUntil TEXT,
+  status TEXT NOT NULL DEFAULT 'draft',
+  notes TEXT,
+  totalAmount INTEGER NOT NULL DEFAULT 0, -- Centesimi, IVA esclusa
+  sentAt TEXT,
+  respondedAt TEXT, -- Accettazione o rifiuto
+  createdBy INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  createdAt TEXT NOT NULL,
+  updatedAt TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS quotes_clientId_idx ON quotes(clientId);
+CREATE INDEX IF NOT EXISTS quotes_company_idx ON quotes(clientId, companyId);
+
+CREATE TABLE quoteLines (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  clientId INTEGER NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  quoteId INTEGER NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+  courseId INTEGER NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  courseEditionId INTEGER REFERENCES courseEditions(id) ON DELETE SET NULL, -- Edizione proposta (facoltativa)
+  description TEXT,
+  workers INTEGER NOT NULL DEFAULT 1,
+  unitPrice INTEGER NOT NULL -- Centesimi per lavoratore
+);
+
+CREATE INDEX IF NOT EXISTS quoteLines_quote_idx ON quoteLines(quoteId);
+
+ALTER TABLE registrations ADD COLUMN quoteLineId INTEGER REFERENCES quoteLines(id) ON DELETE SET NULL;
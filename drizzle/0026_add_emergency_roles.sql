@@ -0,0 +1,5 @@
+-- Fabbisogno formativo: gli addetti alle emergenze designati dal datore di lavoro
+-- devono seguire anche i corsi antincendio e primo soccorso del livello di rischio.
+
+ALTER TABLE students ADD COLUMN fireWarden INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE students ADD COLUMN firstAider INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,10781 @@
+-- Codici catastali (Belfiore) per la decodifica del codice fiscale: comuni italiani,
+-- compresi quelli soppressi, e stati esteri (codici Z). Tabella globale, non per cliente.
+-- Uno stesso codice può avere più righe se il comune ha cambiato nome o provincia:
+-- vale quella in vigore alla data di nascita (validFrom/validTo, NULL = senza limite).
+-- Elenco completo generato dalle fonti ufficiali: archivio comuni ANPR (Ministero dell'Interno,
+-- CC BY 4.0) con le date di validità, stati esteri ISTAT (CC BY 3.0) e, per i comuni soppressi
+-- assenti da ANPR, elenco Agenzia delle Entrate (CC BY 4.0) senza date.
+-- Gli aggiornamenti successivi si caricano con POST /api/admin/belfiore-codes.
+
+CREATE TABLE belfioreCodes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  code TEXT NOT NULL,
+  name TEXT NOT NULL,
+  province TEXT, -- Sigla provincia, NULL per gli stati esteri
+  kind TEXT NOT NULL DEFAULT 'comune', -- comune | estero
+  validFrom TEXT,
+  validTo TEXT,
+  updatedAt TEXT NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS belfioreCodes_code_validFrom_idx ON belfioreCodes(code, validFrom);
+CREATE INDEX IF NOT EXISTS belfioreCodes_name_idx ON belfioreCodes(name);
+
+-- Insert a blocchi per restare sotto il limite di lunghezza delle query D1
+INSERT INTO belfioreCodes (code, name, province, kind, validFrom, validTo, updatedAt) VALUES
+  ('A001', 'ABANO TERME', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A002', 'ABBADIA SOPRA ADDA', 'CO', 'comune', '1863-02-23', '1928-03-07', datetime('now')),
+  ('A003', 'ABBADIA ALPINA', 'TO', 'comune', '1864-04-01', '1928-12-06', datetime('now')),
+  ('A004', 'ABBADIA CERRETO', 'LO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A005', 'ABBADIA LARIANA', 'LC', 'comune', '1928-03-06', NULL, datetime('now')),
+  ('A006', 'ABBADIA SAN SALVATORE', 'SI', 'comune', '1867-07-22', NULL, datetime('now')),
+  ('A007', 'ABBASANTA', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('A008', 'ABBATEGGIO', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A009', 'ABBAZIA', 'FU', 'comune', '1931-12-22', '1947-09-16', datetime('now')),
+  ('A010', 'ABBIATEGRASSO', 'MI', 'comune', '1869-04-05', NULL, datetime('now')),
+  ('A011', 'ABBIATEGUAZZONE', 'VA', 'comune', '1861-03-17', '1928-06-19', datetime('now')),
+  ('A012', 'ABETONE', 'PT', 'comune', '1936-07-26', '2017-01-01', datetime('now')),
+  ('A013', 'ABRIOLA', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A014', 'ACATE', 'RG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A015', 'ACCADIA', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A016', 'ACCEGLIO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A017', 'ACCETTURA', 'MT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A018', 'ACCIANO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A019', 'ACCUMOLI', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A020', 'ACERENZA', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A021', 'ACERETO', 'BZ', 'comune', '1920-10-16', '1929-02-09', datetime('now')),
+  ('A022', 'CERMES', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('A023', 'ACERNO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A024', 'ACERRA', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A025', 'ACI BONACCORSI', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A026', 'ACI CASTELLO', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A027', 'ACI CATENA', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A028', 'ACIREALE', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A029', 'ACI SANT''ANTONIO', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A030', 'ACQUA', 'SO', 'comune', NULL, NULL, datetime('now')),
+  ('A031', 'ACQUACANINA', 'MC', 'comune', '1861-03-17', '2017-01-01', datetime('now')),
+  ('A032', 'ACQUAFONDATA', 'FR', 'comune', '1902-07-23', NULL, datetime('now')),
+  ('A033', 'ACQUAFORMOSA', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A034', 'ACQUAFREDDA', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A035', 'ACQUALAGNA', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A036', 'ACQUALUNGA', 'BS', 'comune', '1861-03-17', '1928-01-01', datetime('now')),
+  ('A037', 'ACQUALUNGA BADONA', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('A038', 'ACQUANEGRA SUL CHIESE', 'MN', 'comune', '1868-07-01', NULL, datetime('now')),
+  ('A039', 'ACQUANEGRA CREMONESE', 'CR', 'comune', '1868-01-01', NULL, datetime('now')),
+  ('A040', 'ACQUAPENDENTE', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('A041', 'ACQUAPPESA', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A042', 'ACQUARICA DEL CAPO', 'LE', 'comune', '1861-03-17', '2019-05-15', datetime('now')),
+  ('A043', 'ACQUARO', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A044', 'ACQUASANTA TERME', 'AP', 'comune', '1865-12-25', NULL, datetime('now')),
+  ('A045', 'ACQUASPARTA', 'TR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A046', 'ACQUATE', 'CO', 'comune', '1861-03-17', '1924-01-12', datetime('now')),
+  ('A047', 'ACQUAVIVA PICENA', 'AP', 'comune', '1862-11-24', NULL, datetime('now')),
+  ('A048', 'ACQUAVIVA DELLE FONTI', 'BA', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('A049', 'ACQUAVIVA PLATANI', 'CL', 'comune', '1862-10-31', NULL, datetime('now')),
+  ('A050', 'ACQUAVIVA COLLECROCE', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A051', 'ACQUAVIVA D''ISERNIA', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('A052', 'ACQUI TERME', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A053', 'ACRI', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A054', 'ACUTO', 'FR', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('A055', 'ADELFIA', 'BA', 'comune', '1927-11-08', NULL, datetime('now')),
+  ('A056', 'ADRANO', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A057', 'ADRARA SAN MARTINO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A058', 'ADRARA SAN ROCCO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A059', 'ADRIA', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A060', 'ADRO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A061', 'AFFI', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A062', 'AFFILE', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('A063', 'AFFORI', 'MI', 'comune', '1884-08-23', '1923-10-14', datetime('now')),
+  ('A064', 'AFRAGOLA', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A065', 'AFRICO', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A066', 'AGARO', 'NO', 'comune', '1861-03-17', '1928-10-17', datetime('now')),
+  ('A067', 'AGAZZANO', 'PC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A068', 'AGEROLA', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A069', 'AGGIUS', 'OT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A070', 'AGIRA', 'EN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A071', 'AGLIANA', 'PT', 'comune', '1913-11-09', NULL, datetime('now')),
+  ('A072', 'AGLIANO TERME', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A073', 'AGLIATE', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('A074', 'AGLIÈ', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A075', 'AGNA', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A076', 'AGNADELLO', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A077', 'AGNANA CALABRA', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A078', 'AGNELLENGO', 'NO', 'comune', '1861-03-17', '1928-06-14', datetime('now')),
+  ('A079', 'AGNONA', 'VC', 'comune', '1861-03-17', '1928-09-06', datetime('now')),
+  ('A080', 'AGNONE', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('A081', 'VILLA LATINA', 'FR', 'comune', '1862-11-24', NULL, datetime('now')),
+  ('A082', 'AGNOSINE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A083', 'AGORDO', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A084', 'AGOSTA', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('A085', 'AGRA', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A086', 'AGRANO', 'NO', 'comune', '1861-03-17', '1928-03-25', datetime('now')),
+  ('A087', 'AGRATE BRIANZA', 'MB', 'comune', '1869-02-04', NULL, datetime('now')),
+  ('A088', 'AGRATE CONTURBIA', 'NO', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('A089', 'AGRIGENTO', 'AG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A090', 'AGRONE', 'TN', 'comune', '1920-10-16', '1928-03-07', datetime('now')),
+  ('A091', 'AGROPOLI', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A092', 'AGUGLIANO', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A093', 'AGUGLIARO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A094', 'AYAS', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A095', 'AIBA', 'GO', 'comune', '1921-01-05', '1928-03-13', datetime('now')),
+  ('A096', 'AICURZIO', 'MB', 'comune', '1909-07-04', NULL, datetime('now')),
+  ('A097', 'AIDOMAGGIORE', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('A098', 'AIDONE', 'EN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A099', 'AIDUSSINA', 'GO', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('A100', 'AIELLI', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A101', 'AIELLO DEL SABATO', 'AV', 'comune', '1864-01-16', NULL, datetime('now')),
+  ('A102', 'AIELLO CALABRO', 'CS', 'comune', '1928-05-19', NULL, datetime('now')),
+  ('A103', 'AIELLO DEL FRIULI', 'UD', 'comune', '1921-01-05', NULL, datetime('now')),
+  ('A104', 'AIELLO IN CALABRIA', 'CS', 'comune', '1864-04-01', '1928-05-19', datetime('now')),
+  ('A105', 'AIETA', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A106', 'AILANO', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A107', 'AILOCHE', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A108', 'AYMAVILLES', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A109', 'AIRASCA', 'TO', 'comune', '1893-05-26', NULL, datetime('now')),
+  ('A110', 'AIROLA', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A111', 'AIROLE', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A112', 'AIRUNO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A113', 'AISONE', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A114', 'AIZURRO', 'CO', 'comune', '1861-03-17', '1927-11-09', datetime('now')),
+  ('A115', 'ALÀ DEI SARDI', 'OT', 'comune', '1864-01-14', NULL, datetime('now')),
+  ('A116', 'ALA', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('A117', 'ALA DI STURA', 'TO', 'comune', '1864-03-11', NULL, datetime('now')),
+  ('A118', 'ALAGNA', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A119', 'ALAGNA VALSESIA', 'VC', 'comune', '1864-11-07', NULL, datetime('now')),
+  ('A120', 'ALANNO', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A121', 'ALANO DI PIAVE', 'BL', 'comune', '1867-04-12', '2024-01-22', datetime('now')),
+  ('A122', 'ALASSIO', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A123', 'ALATRI', 'FR', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('A124', 'ALBA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A125', 'ALBA ADRIATICA', 'TE', 'comune', '1956-07-29', NULL, datetime('now')),
+  ('A126', 'ALBAGIARA', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('A127', 'ALBAIRATE', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A128', 'ALBANELLA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A129', 'ALBANO SANT''ALESSANDRO', 'BG', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('A130', 'ALBANO VERCELLESE', 'VC', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('A131', 'ALBANO DI LUCANIA', 'PZ', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('A132', 'ALBANO LAZIALE', 'RM', 'comune', '1872-10-02', NULL, datetime('now')),
+  ('A133', 'ALBANOVA', 'CE', 'comune', '1928-05-23', '1946-03-26', datetime('now')),
+  ('A134', 'ALBAREDO ARNABOLDI', 'PV', 'comune', '1863-03-30', '2023-11-18', datetime('now')),
+  ('A135', 'ALBAREDO PER SAN MARCO', 'SO', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('A136', 'SANT''ANDREA DI CAVASAGRA', 'TV', 'comune', NULL, NULL, datetime('now')),
+  ('A137', 'ALBAREDO D''ADIGE', 'VR', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('A138', 'ALBARETO', 'PR', 'comune', '1862-10-20', NULL, datetime('now')),
+  ('A139', 'ALBARETTO DELLA TORRE', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('A140', 'ALBARETTO VALLE DI MACRA', 'CN', 'comune', '1863-03-30', '1928-05-31', datetime('now')),
+  ('A141', 'ALBARO VESCOVA', 'TS', 'comune', NULL, NULL, datetime('now')),
+  ('A142', 'ALBATE', 'CO', 'comune', '1861-03-17', '1943-08-13', datetime('now')),
+  ('A143', 'ALBAVILLA', 'CO', 'comune', '1928-07-29', NULL, datetime('now')),
+  ('A144', 'ALBEGNO', 'BG', 'comune', '1861-03-17', '1928-12-14', datetime('now')),
+  ('A145', 'ALBENGA', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A146', 'ALBERA LIGURE', 'AL', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('A147', 'TRIBURGO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('A148', 'ALBER DI SESANA', 'TS', 'comune', '1921-01-05', '1927-10-22', datetime('now')),
+  ('A149', 'ALBEROBELLO', 'BA', 'comune', '1895-01-28', NULL, datetime('now')),
+  ('A150', 'ALBERONA', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A151', 'ALBES', 'BZ', 'comune', '1920-10-16', '1928-09-09', datetime('now')),
+  ('A152', 'ALBESE', 'CO', 'comune', '1861-03-17', '1928-09-23', datetime('now')),
+  ('A153', 'ALBESE CON CASSANO', 'CO', 'comune', '1928-09-23', NULL, datetime('now')),
+  ('A154', 'ALBETTONE', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A155', 'ALBI', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A156', 'ALBIANO MAGRA', 'MS', 'comune', NULL, NULL, datetime('now')),
+  ('A157', 'ALBIANO D''IVREA', 'AO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('A158', 'ALBIANO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('A159', 'ALBIATE', 'MB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A160', 'ALBIDONA', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A161', 'ALBIGNASEGO', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A162', 'ALBINEA', 'RE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A163', 'ALBINO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A164', 'ALBIOLO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A165', 'ALBISSOLA MARINA', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A166', 'ALBISOLA SUPERIORE', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A167', 'ALBIZZATE', 'VA', 'comune', '1869-03-11', NULL, datetime('now')),
+  ('A168', 'ALBOGASIO', 'CO', 'comune', '1861-03-17', '1927-06-10', datetime('now')),
+  ('A169', 'ALBOGNO', 'NO', 'comune', '1861-03-17', '1928-06-29', datetime('now')),
+  ('A170', 'ALBONA', 'PL', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('A171', 'ALBONESE', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A172', 'ALBOSAGGIA', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A173', 'ALBUGNANO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A174', 'ALBUSCIAGO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('A175', 'ALBUZZANO', 'PV', 'comune', '1872-11-01', NULL, datetime('now')),
+  ('A176', 'ALCAMO', 'TP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A177', 'ALCARA LI FUSI', 'ME', 'comune', '1868-01-01', NULL, datetime('now')),
+  ('A178', 'ALDENO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('A179', 'ALDINO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('A180', 'ALES', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('A181', 'ALESSANDRIA DELLA ROCCA', 'AG', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('A182', 'ALESSANDRIA', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A183', 'ALESSANDRIA DEL CARRETTO', 'CS', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('A184', 'ALESSANO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A185', 'ALEZIO', 'LE', 'comune', '1873-07-16', NULL, datetime('now')),
+  ('A186', 'ALFANO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A187', 'ALFEDENA', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A188', 'ALFIANELLO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A189', 'ALFIANO NATTA', 'AL', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('A190', 'ALFIANO ED UNITI', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('A191', 'ALFONSINE', 'RA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A192', 'ALGHERO', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A193', 'ALGUA', 'BG', 'comune', '1927-11-20', NULL, datetime('now')),
+  ('A194', 'ALÌ', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A195', 'ALIA', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A196', 'ALIANO', 'MT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A197', 'ALICE BEL COLLE', 'AL', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('A198', 'ALICE CASTELLO', 'VC', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('A199', 'ALICE SUPERIORE', 'AO', 'comune', '1861-03-17', '2019-01-01', datetime('now')),
+  ('A200', 'ALIFE', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A201', 'ALÌ TERME', 'ME', 'comune', '1910-07-26', NULL, datetime('now')),
+  ('A202', 'ALIMENA', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A203', 'ALIMINUSA', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A204', 'ALLAI', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('A205', 'ALLEIN', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A206', 'ALLEGHE', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A207', 'ALLERONA', 'TR', 'comune', '1887-07-22', NULL, datetime('now')),
+  ('A208', 'ALLISTE', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A209', 'ALLIZ', 'BZ', 'comune', '1920-10-16', '1929-05-15', datetime('now')),
+  ('A210', 'ALLUMIERE', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('A211', 'ALLUVIONI CAMBIÒ', 'AL', 'comune', '1861-03-17', '2018-01-01', datetime('now')),
+  ('A212', 'ALMA', 'CN', 'comune', '1861-03-17', '1928-05-31', datetime('now')),
+  ('A213', 'ALMAZZAGO', 'TN', 'comune', '1920-10-16', '1928-10-07', datetime('now')),
+  ('A214', 'ALMÈ', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A215', 'VILLA D''ALMÈ', 'BG', 'comune', '1885-01-15', NULL, datetime('now')),
+  ('A216', 'ALMENNO SAN BARTOLOMEO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A217', 'ALMENNO SAN SALVATORE', 'BG', 'comune', '1885-01-15', NULL, datetime('now')),
+  ('A218', 'ALMESE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A219', 'ALONE', 'BS', 'comune', '1861-03-17', '1928-04-03', datetime('now')),
+  ('A220', 'ALONTE', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A221', 'ALPETTE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A222', 'ALPIGNANO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A223', 'ALSENO', 'PC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A224', 'ALSERIO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A225', 'ALTAMURA', 'BA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A226', 'ALTARE', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A227', 'ALTAVILLA MONFERRATO', 'AL', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('A228', 'ALTAVILLA IRPINA', 'AV', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('A229', 'ALTAVILLA MILICIA', 'PA', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('A230', 'ALTAVILLA SILENTINA', 'SA', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('A231', 'ALTAVILLA VICENTINA', 'VI', 'comune', '1867-09-02', NULL, datetime('now')),
+  ('A232', 'ALTETA', 'AP', 'comune', NULL, NULL, datetime('now')),
+  ('A233', 'ALTIDONA', 'FM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A234', 'ALTILIA', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A235', 'ALTINO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A236', 'ALTISSIMO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A237', 'ALTIVOLE', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A238', 'ALTO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A239', 'ALTOFONTE', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A240', 'ALTOMONTE', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A241', 'ALTOPASCIO', 'LU', 'comune', '1881-04-22', NULL, datetime('now')),
+  ('A242', 'ALVIANO', 'TR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A243', 'ALVIGNANO', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A244', 'ALVITO', 'FR', 'comune', '1868-12-31', NULL, datetime('now')),
+  ('A245', 'ALZANO SCRIVIA', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A246', 'ALZANO LOMBARDO', 'BG', 'comune', '1927-06-07', NULL, datetime('now')),
+  ('A247', 'ALZANO MAGGIORE', 'BG', 'comune', '1861-03-17', '1927-06-07', datetime('now')),
+  ('A248', 'ALZANO SOPRA', 'BG', 'comune', '1861-03-17', '1927-06-07', datetime('now')),
+  ('A249', 'ALZATE BRIANZA', 'CO', 'comune', '1864-03-11', NULL, datetime('now')),
+  ('A250', 'ALZATE CON LINDUNO', 'NO', 'comune', '1863-04-23', '1928-06-14', datetime('now')),
+  ('A251', 'AMALFI', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A252', 'AMANDOLA', 'FM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A253', 'AMANTEA', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A254', 'AMARO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A255', 'AMARONI', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A256', 'AMASENO', 'FR', 'comune', '1872-07-08', NULL, datetime('now')),
+  ('A257', 'AMATO', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A258', 'AMATRICE', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A259', 'AMBIVERE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A260', 'AMBLAR', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('A261', 'AMEGLIA', 'SP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A262', 'AMELIA', 'TR', 'comune', '1876-06-30', NULL, datetime('now')),
+  ('A263', 'AMENDOLARA', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A264', 'AMENO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A265', 'AMOROSI', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A266', 'CORTINA D''AMPEZZO', 'BL', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('A267', 'AMPEZZO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A268', 'ANACAPRI', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A269', 'ANAGNI', 'FR', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('A270', 'ANCARANO', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A271', 'ANCONA', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A272', 'ANDALI', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A273', 'ANDALO VALTELLINO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A274', 'ANDALO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('A275', 'ANDEZENO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A276', 'ANDOGNO', 'TN', 'comune', '1920-10-16', '1928-01-26', datetime('now')),
+  ('A277', 'ANDONNO', 'CN', 'comune', '1861-03-17', '1929-01-01', datetime('now')),
+  ('A278', 'ANDORA', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A279', 'ANDORNO CACCIORNA', 'VC', 'comune', '1861-03-17', '1929-05-22', datetime('now')),
+  ('A280', 'ANDORNO MICCA', 'BI', 'comune', '1929-05-21', NULL, datetime('now')),
+  ('A281', 'ANDRANO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A282', 'ANDRATE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A283', 'ANDREIS', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('A284', 'ANDRETTA', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A285', 'ANDRIA', 'BT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A286', 'ANDRIANO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('A287', 'ANELA', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A288', 'ANFO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A289', 'ANFURRO', 'BS', 'comune', '1861-03-17', '1928-05-13', datetime('now')),
+  ('A290', 'ANGERA', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A291', 'ANGHIARI', 'AR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A292', 'ANGIARI', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A293', 'ANGOLO TERME', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A294', 'ANGRI', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A295', 'ANGROGNA', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A296', 'ANGUILLARA VENETA', 'PD', 'comune', '1883-12-21', NULL, datetime('now')),
+  ('A297', 'ANGUILLARA SABAZIA', 'RM', 'comune', '1872-10-21', NULL, datetime('now')),
+  ('A298', 'ANICOVA CORADA', 'GO', 'comune', '1921-01-05', '1928-05-12', datetime('now')),
+  ('A299', 'ANNICCO', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A300', 'CASTELLO DI ANNONE', 'AT', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('A301', 'ANNONE DI BRIANZA', 'LC', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('A302', 'ANNONE VENETO', 'VE', 'comune', '1867-08-05', NULL, datetime('now')),
+  ('A303', 'ANOIA', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A304', 'ANTEGNATE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A305', 'ANTEY-SAINT-ANDRÉ', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A306', 'ANTERIVO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('A307', 'ANTERSELVA', 'BZ', 'comune', '1920-10-16', '1928-10-18', datetime('now')),
+  ('A308', 'LA MAGDELEINE', 'AO', 'comune', '1883-08-14', NULL, datetime('now')),
+  ('A309', 'ANTICOLI CORRADO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('A310', 'FIUGGI', 'FR', 'comune', '1872-10-18', NULL, datetime('now')),
+  ('A311', 'ANTIGNANA', 'PL', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('A312', 'ANTIGNANO', 'AT', 'comune', '1880-10-08', NULL, datetime('now')),
+  ('A313', 'ANTILLO', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A314', 'ANTONIMINA', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A315', 'ANTRODOCO', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A316', 'ANTRONAPIANA', 'NO', 'comune', '1861-03-17', '1928-06-01', datetime('now')),
+  ('A317', 'ANTRONA SCHIERANCO', 'VB', 'comune', '1928-05-31', NULL, datetime('now')),
+  ('A318', 'ANVERSA DEGLI ABRUZZI', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A319', 'ANZANO DEL PARCO', 'CO', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('A320', 'ANZANO DI PUGLIA', 'FG', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('A321', 'ANZI', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A322', 'ANZINO', 'NO', 'comune', '1861-03-17', '1928-08-08', datetime('now')),
+  ('A323', 'ANZIO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('A324', 'ANZOLA DELL''EMILIA', 'BO', 'comune', '1864-06-23', NULL, datetime('now')),
+  ('A325', 'ANZOLA D''OSSOLA', 'VB', 'comune', '1864-03-11', NULL, datetime('now')),
+  ('A326', 'AOSTA', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A327', 'APECCHIO', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A328', 'APICE', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A329', 'APIRO', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A330', 'APOLLOSA', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A331', 'APPARIZIONE', 'GE', 'comune', '1861-03-17', '1926-02-06', datetime('now')),
+  ('A332', 'APPIANO SULLA STRADA DEL VINO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('A333', 'APPIANO GENTILE', 'CO', 'comune', '1867-04-19', NULL, datetime('now')),
+  ('A334', 'APPIGNANO', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A335', 'APPIGNANO DEL TRONTO', 'AP', 'comune', '1879-03-28', NULL, datetime('now')),
+  ('A336', 'APRIANO', 'FU', 'comune', '1921-01-05', '1931-12-22', datetime('now')),
+  ('A337', 'APRICA', 'SO', 'comune', '1924-01-04', NULL, datetime('now')),
+  ('A338', 'APRICALE', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A339', 'APRICENA', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A340', 'APRIGLIANO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A341', 'APRILIA', 'LT', 'comune', '1936-04-25', NULL, datetime('now')),
+  ('A342', 'APUANIA', 'MS', 'comune', '1938-12-18', '1946-03-05', datetime('now')),
+  ('A343', 'AQUARA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A344', 'AQUILA D''ARROSCIA', 'IM', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('A345', 'L''AQUILA', 'AQ', 'comune', '1863-05-06', NULL, datetime('now')),
+  ('A346', 'AQUILEIA', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A347', 'AQUILONIA', 'AV', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('A348', 'AQUINO', 'FR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A349', 'ARA', 'NO', 'comune', '1861-03-17', '1928-01-22', datetime('now')),
+  ('A350', 'ARADEO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A351', 'ARAGONA', 'AG', 'comune', '1892-07-18', NULL, datetime('now')),
+  ('A352', 'ARAMENGO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A353', 'ARANCO', 'VC', 'comune', '1861-03-17', '1928-09-06', datetime('now')),
+  ('A354', 'ARBA', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('A355', 'TORTOLÌ', 'OG', 'comune', '1928-05-12', NULL, datetime('now')),
+  ('A356', 'ARBIZZO', 'VA', 'comune', '1861-03-17', '1928-08-16', datetime('now')),
+  ('A357', 'ARBOREA', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('A358', 'ARBORIO', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A359', 'ARBUS', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A360', 'ARCADE', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A361', 'ARCAGNA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('A362', 'ARCAGNANO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('A363', 'ARCE', 'FR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A364', 'ARCELLASCO', 'CO', 'comune', '1861-03-17', '1928-12-14', datetime('now')),
+  ('A365', 'ARCENE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A366', 'ARCEVIA', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A367', 'ARCHI', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A368', 'SAN NICOLÒ D''ARCIDANO', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('A369', 'ARCIDOSSO', 'GR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A370', 'ARCINAZZO ROMANO', 'RM', 'comune', '1891-06-13', NULL, datetime('now')),
+  ('A371', 'ARCISATE', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A372', 'ARCO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('A373', 'ARCOLA', 'SP', 'comune', '1870-04-07', NULL, datetime('now')),
+  ('A374', 'ARCOLE', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A375', 'ARCONATE', 'MI', 'comune', '1869-07-22', NULL, datetime('now')),
+  ('A376', 'ARCORE', 'MB', 'comune', '1869-10-11', NULL, datetime('now')),
+  ('A377', 'ARCUGNANO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A378', 'ARCUMEGGIA', 'VA', 'comune', '1861-03-17', '1928-01-18', datetime('now')),
+  ('A379', 'ARDARA', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A380', 'ARDAULI', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('A381', 'ARDENA', 'VA', 'comune', '1861-03-17', '1928-09-06', datetime('now')),
+  ('A382', 'ARDENNO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A383', 'ARDESIO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A384', 'ARDOLE SAN MARINO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('A385', 'ARDORE', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A386', 'ARENA', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A387', 'ARENA PO', 'PV', 'comune', '1863-08-10', NULL, datetime('now')),
+  ('A388', 'ARENZANO', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A389', 'ARESE', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A390', 'AREZZO', 'AR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A391', 'ARGEGNO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A392', 'ARGELATO', 'BO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A393', 'ARGENTA', 'FE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A394', 'ARGENTERA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A395', 'BRESSANA', 'PV', 'comune', '1873-08-08', '1928-10-07', datetime('now')),
+  ('A396', 'ARGUELLO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A397', 'ARGUSTO', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A398', 'ARI', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A399', 'ARIANO IRPINO', 'AV', 'comune', '1868-12-31', NULL, datetime('now')),
+  ('A400', 'ARIANO NEL POLESINE', 'RO', 'comune', '1867-07-22', NULL, datetime('now')),
+  ('A401', 'ARICCIA', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('A402', 'ARIELLI', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A403', 'ARIENZO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A404', 'ARIENZO SAN FELICE', 'CE', 'comune', '1928-09-25', '1946-12-22', datetime('now')),
+  ('A405', 'ARIGNANO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A406', 'ARISCHIA', 'AQ', 'comune', '1861-03-17', '1927-09-21', datetime('now')),
+  ('A407', 'ARITZO', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A408', 'ARIXI', 'CA', 'comune', '1861-03-17', '1927-04-25', datetime('now')),
+  ('A409', 'ARIZZANO', 'VB', 'comune', '1928-01-07', NULL, datetime('now')),
+  ('A410', 'ARIZZANO INFERIORE', 'NO', 'comune', '1911-07-04', '1927-12-04', datetime('now')),
+  ('A411', 'ARIZZANO SUPERIORE', 'NO', 'comune', '1911-07-04', '1928-01-08', datetime('now')),
+  ('A412', 'ARLENA DI CASTRO', 'VT', 'comune', '1876-09-23', NULL, datetime('now')),
+  ('A413', 'ARLUNO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A414', 'ARMENO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A415', 'ARMENTO', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A416', 'ARMIO', 'VA', 'comune', '1861-03-17', '1928-08-07', datetime('now')),
+  ('A417', 'ARMO', 'TN', 'comune', '1920-10-16', '1929-03-01', datetime('now')),
+  ('A418', 'ARMO', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A419', 'ARMUNGIA', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A420', 'ARNAGO', 'TN', 'comune', '1920-10-16', '1928-09-06', datetime('now')),
+  ('A421', 'ARNARA', 'FR', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('A422', 'ARNASCO', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A423', 'ARNATE', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('A424', 'ARNAD', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A425', 'ARNESANO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A426', 'BONDO BREGUZZO', 'TN', 'comune', '1928-02-24', '1947-01-08', datetime('now')),
+  ('A427', 'AROLA', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A428', 'AROLO', 'VA', 'comune', '1861-03-17', '1928-01-08', datetime('now')),
+  ('A429', 'ARONA', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A430', 'AROSIO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A431', 'ARPAIA', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A432', 'ARPAISE', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A433', 'ARPINO', 'FR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A434', 'ARQUÀ PETRARCA', 'PD', 'comune', '1868-02-14', NULL, datetime('now')),
+  ('A435', 'ARQUÀ POLESINE', 'RO', 'comune', '1868-07-13', NULL, datetime('now')),
+  ('A436', 'ARQUATA SCRIVIA', 'AL', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('A437', 'ARQUATA DEL TRONTO', 'AP', 'comune', '1862-11-24', NULL, datetime('now')),
+  ('A438', 'ARRE', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A439', 'ARRONE', 'TR', 'comune', '1875-03-22', NULL, datetime('now')),
+  ('A440', 'ARZAGO D''ADDA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A441', 'ARSAGO SEPRIO', 'VA', 'comune', '1872-06-10', NULL, datetime('now')),
+  ('A442', 'ARSIA', 'PL', 'comune', '1937-11-06', '1947-09-16', datetime('now')),
+  ('A443', 'ARSIÈ', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A444', 'ARSIERO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A445', 'ARSITA', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A446', 'ARSOLI', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('A447', 'ARTA TERME', 'UD', 'comune', '1923-02-08', NULL, datetime('now')),
+  ('A448', 'ARTEGNA', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A449', 'ARTENA', 'RM', 'comune', '1873-03-06', NULL, datetime('now')),
+  ('A450', 'ARTÒ', 'NO', 'comune', '1861-03-17', '1928-03-08', datetime('now')),
+  ('A451', 'ARTOGNE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A452', 'ARVIER', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A453', 'ARZACHENA', 'OT', 'comune', '1920-10-19', NULL, datetime('now')),
+  ('A454', 'ARZANA', 'OG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A455', 'ARZANO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A456', 'ARZENE', 'PN', 'comune', '1968-04-06', '2015-01-01', datetime('now')),
+  ('A457', 'ARZENO D''ONEGLIA', 'IM', 'comune', '1889-01-28', '1929-03-17', datetime('now')),
+  ('A458', 'ARZERGRANDE', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A459', 'ARZIGNANO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A460', 'ASCEA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A461', 'ASCIANO', 'SI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A462', 'ASCOLI PICENO', 'AP', 'comune', '1867-01-17', NULL, datetime('now')),
+  ('A463', 'ASCOLI SATRIANO', 'FG', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('A464', 'ASCREA', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A465', 'ASIAGO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A466', 'ASIGLIANO VERCELLESE', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A467', 'ASIGLIANO VENETO', 'VI', 'comune', '1909-01-23', NULL, datetime('now')),
+  ('A468', 'SINALUNGA', 'SI', 'comune', '1864-11-07', NULL, datetime('now')),
+  ('A469', 'ASNAGO', 'CO', 'comune', '1861-03-17', '1928-12-03', datetime('now')),
+  ('A470', 'ASOLA', 'MN', 'comune', '1868-07-01', NULL, datetime('now')),
+  ('A471', 'ASOLO', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A472', 'CASPERIA', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A473', 'ASSAGO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A474', 'ASSEMINI', 'CA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A475', 'ASSISI', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A476', 'ASSO', 'CO', 'comune', '1880-07-12', NULL, datetime('now')),
+  ('A477', 'ASSOLO', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('A478', 'ASSORO', 'EN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A479', 'ASTI', 'AT', 'comune', '1876-11-04', NULL, datetime('now')),
+  ('A480', 'ASUNI', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('A481', 'ATELETA', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A482', 'ATELLA', 'PZ', 'comune', '1882-07-10', NULL, datetime('now')),
+  ('A483', 'ATELLA DI NAPOLI', 'CE', 'comune', '1928-05-29', '1946-04-27', datetime('now')),
+  ('A484', 'ATENA LUCANA', 'SA', 'comune', '1880-05-24', NULL, datetime('now')),
+  ('A485', 'ATESSA', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A486', 'ATINA', 'FR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A487', 'ATRANI', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A488', 'ATRI', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A489', 'ATRIPALDA', 'AV', 'comune', '1869-04-26', NULL, datetime('now')),
+  ('A490', 'ATTIGLIANO', 'TR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A491', 'ATTIMIS', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A492', 'ATZARA', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A493', 'AUDITORE', 'PU', 'comune', '1861-03-17', '2019-01-01', datetime('now')),
+  ('A494', 'AUGUSTA', 'SR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A495', 'AULETTA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A496', 'AULLA', 'MS', 'comune', '1881-04-22', NULL, datetime('now')),
+  ('A497', 'AURANO', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A498', 'AUREMO DI SOPRA', 'TS', 'comune', '1921-01-05', '1927-06-02', datetime('now')),
+  ('A499', 'AURIGO', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A500', 'AURISINA', 'TS', 'comune', '1921-01-05', '1928-09-09', datetime('now'));
+
+INSERT INTO belfioreCodes (code, name, province, kind, validFrom, validTo, updatedAt) VALUES
+  ('A501', 'AURONZO DI CADORE', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A502', 'AUSONIA', 'FR', 'comune', '1862-10-06', NULL, datetime('now')),
+  ('A503', 'AUSTIS', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A504', 'AUZATE', 'NO', 'comune', '1861-03-17', '1928-02-23', datetime('now')),
+  ('A505', 'AUZZA', 'GO', 'comune', '1921-01-05', '1928-03-13', datetime('now')),
+  ('A506', 'AVEGNO', 'GE', 'comune', '1877-11-03', NULL, datetime('now')),
+  ('A507', 'AVELENGO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('A508', 'AVELLA', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A509', 'AVELLINO', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A510', 'AVENONE', 'BS', 'comune', '1861-03-17', '1928-12-01', datetime('now')),
+  ('A511', 'AVERARA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A512', 'AVERSA', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A513', 'AVESA', 'VR', 'comune', '1866-11-19', '1927-02-16', datetime('now')),
+  ('A514', 'AVETRANA', 'TA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A515', 'AVEZZANO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A516', 'AVIANO', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('A517', 'AVIATICO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A518', 'AVIGLIANA', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A519', 'AVIGLIANO', 'PZ', 'comune', '1882-07-10', NULL, datetime('now')),
+  ('A520', 'AVIO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('A521', 'AVISE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A522', 'AVOLA', 'SR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A523', 'AVOLASCA', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A524', 'AVUGLIONE E VERNONE', 'TO', 'comune', '1861-03-17', '1928-01-18', datetime('now')),
+  ('A525', 'AZEGLIO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A526', 'AZZANELLO', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A527', 'AZZANO D''ASTI', 'AT', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('A528', 'AZZANO SAN PAOLO', 'BG', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('A529', 'AZZANO MELLA', 'BS', 'comune', '1862-10-20', NULL, datetime('now')),
+  ('A530', 'AZZANO DECIMO', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('A531', 'AZZATE', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A532', 'AZZIO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A533', 'AZZONE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A534', 'BACENO', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A535', 'BACOLI', 'NA', 'comune', '1919-02-03', NULL, datetime('now')),
+  ('A536', 'BADALUCCO', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A537', 'BADIA', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('A538', 'BADIA PAVESE', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A539', 'BADIA POLESINE', 'RO', 'comune', '1867-07-22', NULL, datetime('now')),
+  ('A540', 'BADIA CALAVENA', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A541', 'BADIA TEDALDA', 'AR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A542', 'BADOLATO', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A543', 'BAGAGGERA', 'CO', 'comune', '1861-03-17', '1928-01-30', datetime('now')),
+  ('A544', 'BAGALADI', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A545', 'BAGGIO', 'MI', 'comune', '1869-03-22', '1923-10-14', datetime('now')),
+  ('A546', 'BAGHERIA', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A547', 'BAGNACAVALLO', 'RA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A548', 'BAGNAJA', 'VT', 'comune', '1871-01-15', '1928-05-19', datetime('now')),
+  ('A549', 'BAGNARA DI BENEVENTO', 'BN', 'comune', NULL, NULL, datetime('now')),
+  ('A550', 'BAGNARIA', 'PV', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('A551', 'BAGNARA DI ROMAGNA', 'RA', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('A552', 'BAGNARA CALABRA', 'RC', 'comune', '1864-06-23', NULL, datetime('now')),
+  ('A553', 'BAGNARIA ARSA', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A554', 'BAGNAROLO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('A555', 'BAGNASCO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A556', 'BAGNASCO D''ASTI', 'AL', 'comune', '1861-03-17', '1928-06-15', datetime('now')),
+  ('A557', 'BAGNATICA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A558', 'PORRETTA TERME', 'BO', 'comune', '1882-12-08', '2016-01-01', datetime('now')),
+  ('A559', 'CASCIANA TERME', 'PI', 'comune', '1927-12-04', '2014-01-01', datetime('now')),
+  ('A560', 'BAGNI DI LUCCA', 'LU', 'comune', '1898-07-01', NULL, datetime('now')),
+  ('A561', 'MONTECATINI-TERME', 'PT', 'comune', '1905-07-30', NULL, datetime('now')),
+  ('A562', 'SAN GIULIANO TERME', 'PI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A563', 'BAGNO', 'AQ', 'comune', '1861-03-17', '1927-09-21', datetime('now')),
+  ('A564', 'BAGNO A RIPOLI', 'FI', 'comune', '1869-12-10', NULL, datetime('now')),
+  ('A565', 'BAGNO DI ROMAGNA', 'FC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A566', 'BAGNOLI IRPINO', 'AV', 'comune', '1862-11-24', NULL, datetime('now')),
+  ('A567', 'BAGNOLI DEL TRIGNO', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('A568', 'BAGNOLI DI SOPRA', 'PD', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('A569', 'BAGNOLO MELLA', 'BS', 'comune', '1862-09-08', NULL, datetime('now')),
+  ('A570', 'BAGNOLO CREMASCO', 'CR', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('A571', 'BAGNOLO PIEMONTE', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('A572', 'BAGNOLO DEL SALENTO', 'LE', 'comune', '1862-11-28', NULL, datetime('now')),
+  ('A573', 'BAGNOLO IN PIANO', 'RE', 'comune', '1862-10-20', NULL, datetime('now')),
+  ('A574', 'BAGNOLO DI PO', 'RO', 'comune', '1867-07-22', NULL, datetime('now')),
+  ('A575', 'BAGNOLO SAN VITO', 'MN', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A576', 'BAGNONE', 'MS', 'comune', '1894-03-09', NULL, datetime('now')),
+  ('A577', 'BAGNOREGIO', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('A578', 'BAGOLINO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A579', 'BAIA E LATINA', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A580', 'BAIANO', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A581', 'BAJARDO', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A582', 'BAIEDO', 'CO', 'comune', '1861-03-17', '1928-01-19', datetime('now')),
+  ('A583', 'BAIO DORA', 'AO', 'comune', '1861-03-17', '1929-03-03', datetime('now')),
+  ('A584', 'BAIRO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A585', 'BAIRO TORRE', 'TO', 'comune', '1929-01-15', '1955-04-30', datetime('now')),
+  ('A586', 'BAISO', 'RE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A587', 'BALANGERO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A588', 'BALDICHIERI D''ASTI', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A589', 'BALDISSERO D''ALBA', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('A590', 'BALDISSERO CANAVESE', 'AO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('A591', 'BALDISSERO TORINESE', 'TO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('A592', 'BALESTRATE', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A593', 'BALESTRINO', 'SV', 'comune', '1869-07-22', NULL, datetime('now')),
+  ('A594', 'BALLABIO', 'LC', 'comune', '1927-09-11', NULL, datetime('now')),
+  ('A595', 'BALLABIO INFERIORE', 'CO', 'comune', '1861-03-17', '1927-09-12', datetime('now')),
+  ('A596', 'BALLABIO SUPERIORE', 'CO', 'comune', '1861-03-17', '1927-09-12', datetime('now')),
+  ('A597', 'BALLAO', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A598', 'BALLARATE', 'VA', 'comune', '1879-01-24', '1928-01-08', datetime('now')),
+  ('A599', 'BALME', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A600', 'BALMUCCIA', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A601', 'BALOCCO', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A602', 'BALSAMO', 'MI', 'comune', '1861-03-17', '1928-11-03', datetime('now')),
+  ('A603', 'BALSORANO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A604', 'BALVANO', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A605', 'BALZOLA', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A606', 'BANARI', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A607', 'BANCHETTE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A608', 'BANCO', 'TN', 'comune', '1920-10-16', '1968-08-28', datetime('now')),
+  ('A609', 'VILLA VERDE', 'OR', 'comune', '1868-12-31', NULL, datetime('now')),
+  ('A610', 'BANNIO ANZINO', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A611', 'BANTINE', 'SS', 'comune', NULL, NULL, datetime('now')),
+  ('A612', 'BANZI', 'MT', 'comune', '1901-07-16', NULL, datetime('now')),
+  ('A613', 'BAONE', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A614', 'BARADILI', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('A615', 'BARAGIANO', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A616', 'BARANELLO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A617', 'BARANO D''ISCHIA', 'NA', 'comune', '1873-06-23', NULL, datetime('now')),
+  ('A618', 'BARANZATE', 'MI', 'comune', '2001-12-12', NULL, datetime('now')),
+  ('A619', 'BARASSO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A620', 'BARATE', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('A621', 'BARATILI SAN PIETRO', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('A622', 'BARATONIA', 'TO', 'comune', NULL, NULL, datetime('now')),
+  ('A623', 'BARBAIANA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('A624', 'BARBANA D''ISTRIA', 'PL', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('A625', 'BARBANIA', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A626', 'BARBARA', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A627', 'BARBARANO VICENTINO', 'VI', 'comune', '1866-11-19', '2018-02-17', datetime('now')),
+  ('A628', 'BARBARANO ROMANO', 'VT', 'comune', '1872-09-16', NULL, datetime('now')),
+  ('A629', 'BARBARESCO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A630', 'BARBARIGA', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A631', 'BARBATA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A632', 'BARBERINO DI MUGELLO', 'FI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A633', 'BARBERINO VAL D''ELSA', 'FI', 'comune', '1893-01-02', '2019-01-01', datetime('now')),
+  ('A634', 'BARBIANELLO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A635', 'BARBIANO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('A636', 'BARBISELLE', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('A637', 'BARBONA', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A638', 'BARCELLONA POZZO DI GOTTO', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A639', 'BARCHI', 'PU', 'comune', '1861-03-17', '2017-01-01', datetime('now')),
+  ('A640', 'BARCIS', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('A641', 'BARCO', 'BS', 'comune', '1861-03-17', '1927-12-24', datetime('now')),
+  ('A642', 'BARCONE', 'CO', 'comune', '1861-03-17', '1927-12-25', datetime('now')),
+  ('A643', 'BARD', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A644', 'BARDASSANO', 'TO', 'comune', '1861-03-17', '1928-07-30', datetime('now')),
+  ('A645', 'BARDELLO', 'VA', 'comune', '1861-03-17', '2023-01-01', datetime('now')),
+  ('A646', 'BARDI', 'PR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A647', 'BARDINETO', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A648', 'BARDINO NUOVO', 'SV', 'comune', '1861-03-17', '1929-01-24', datetime('now')),
+  ('A649', 'BARDINO VECCHIO', 'SV', 'comune', '1861-03-17', '1929-01-24', datetime('now')),
+  ('A650', 'BARDOLINO', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A651', 'BARDONECCHIA', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A652', 'BAREGGIO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A653', 'BARENGO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A654', 'BARESI', 'BG', 'comune', '1861-03-17', '1927-11-24', datetime('now')),
+  ('A655', 'BARESSA', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('A656', 'BARETE', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A657', 'BARGA', 'LU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A658', 'BARGAGLI', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A659', 'BARGANO', 'MI', 'comune', '1861-03-17', '1878-06-21', datetime('now')),
+  ('A660', 'BARGE', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A661', 'BARGHE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A662', 'BARI', 'BA', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('A663', 'BARI SARDO', 'OG', 'comune', '1862-09-29', NULL, datetime('now')),
+  ('A664', 'BARIANO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A665', 'BARICELLA', 'BO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A666', 'BARILE', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A667', 'BARISCIANO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A668', 'BARLASSINA', 'MB', 'comune', '1901-07-22', NULL, datetime('now')),
+  ('A669', 'BARLETTA', 'BT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A670', 'BARNI', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A671', 'BAROLO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A672', 'BARONA', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('A673', 'BARONE CANAVESE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A674', 'BARONISSI', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A675', 'BARRA', 'NA', 'comune', '1861-03-17', '1925-11-30', datetime('now')),
+  ('A676', 'BARRAFRANCA', 'EN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A677', 'BARRALI', 'SU', 'comune', '1931-02-20', NULL, datetime('now')),
+  ('A678', 'BARREA', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A679', 'BARSIZZA', 'BG', 'comune', '1861-03-17', '1927-12-27', datetime('now')),
+  ('A680', 'BARTESATE', 'CO', 'comune', '1861-03-17', '1928-02-10', datetime('now')),
+  ('A681', 'BARUMINI', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A682', 'BARZA', 'VA', 'comune', '1861-03-17', '1928-06-15', datetime('now')),
+  ('A683', 'BARZAGO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A684', 'BARZANA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A685', 'BARZANIGA', 'CR', 'comune', '1868-01-22', '1928-06-28', datetime('now')),
+  ('A686', 'BARZANÒ', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A687', 'BARZIO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A688', 'BARZOLA', 'VA', 'comune', '1861-03-17', '1928-05-31', datetime('now')),
+  ('A689', 'BASALUZZO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A690', 'BASCAPÈ', 'PV', 'comune', '1872-11-01', NULL, datetime('now')),
+  ('A691', 'BASCHI', 'TR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A692', 'BASCIANO', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A693', 'BASELGA DI VEZZANO', 'TN', 'comune', '1920-10-16', '1968-07-03', datetime('now')),
+  ('A694', 'BASELGA DI PINÈ', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('A695', 'BASELICA BOLOGNA', 'PV', 'comune', '1861-03-17', '1929-02-08', datetime('now')),
+  ('A696', 'BASELICE', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A697', 'BASIANO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A698', 'BASICÒ', 'ME', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('A699', 'BASIGLIO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A700', 'BASILIANO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A701', 'VASANELLO', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('A702', 'BASSANO BRESCIANO', 'BS', 'comune', '1867-11-25', NULL, datetime('now')),
+  ('A703', 'BASSANO DEL GRAPPA', 'VI', 'comune', '1878-07-09', NULL, datetime('now')),
+  ('A704', 'BASSANO ROMANO', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('A705', 'TRONZANO LAGO MAGGIORE', 'VA', 'comune', '1863-12-14', NULL, datetime('now')),
+  ('A706', 'BASSANO IN TEVERINA', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('A707', 'BASSIANO', 'LT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('A708', 'BASSIGNANA', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A709', 'BASTIA MONDOVÌ', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('A710', 'BASTIA UMBRA', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A711', 'BASTIDA DE'' DOSSI', 'PV', 'comune', '1861-03-17', '2014-02-04', datetime('now')),
+  ('A712', 'BASTIDA PANCARANA', 'PV', 'comune', '1885-04-17', NULL, datetime('now')),
+  ('A713', 'BASTIGLIA', 'MO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A714', 'BATTAGLIA TERME', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A715', 'BATTAGLIA DELLA BAINSIZZA', 'GO', 'comune', '1921-01-05', '1928-08-16', datetime('now')),
+  ('A716', 'BATTIFOLLO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A717', 'BATTIPAGLIA', 'SA', 'comune', '1929-05-21', NULL, datetime('now')),
+  ('A718', 'BATTUDA', 'PV', 'comune', '1872-10-30', NULL, datetime('now')),
+  ('A719', 'BAUCINA', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A720', 'BOVILLE ERNICA', 'FR', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('A721', 'BAULADU', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('A722', 'BAUNEI', 'OG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A723', 'BAUSO', 'ME', 'comune', '1861-03-17', '1929-06-02', datetime('now')),
+  ('A724', 'BAVARI', 'GE', 'comune', '1861-03-17', '1926-02-06', datetime('now')),
+  ('A725', 'BAVENO', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A726', 'BAZZANO', 'BO', 'comune', '1861-03-17', '2014-01-01', datetime('now')),
+  ('A727', 'BEAULARD', 'TO', 'comune', '1861-03-17', '1928-05-04', datetime('now')),
+  ('A728', 'BEDERO VALCUVIA', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A729', 'BEDIZZOLE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A730', 'BEDOLLO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('A731', 'BEDONIA', 'PR', 'comune', '1881-02-14', NULL, datetime('now')),
+  ('A732', 'BEDULITA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A733', 'BEE', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A734', 'BEINASCO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A735', 'BEINETTE', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A736', 'BELCASTRO', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A737', 'BELFIORE', 'VR', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('A738', 'BELFORTE MONFERRATO', 'AL', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('A739', 'BELFORTE DEL CHIENTI', 'MC', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('A740', 'BELFORTE ALL''ISAURO', 'PU', 'comune', '1862-11-07', NULL, datetime('now')),
+  ('A741', 'BELGIOIOSO', 'PV', 'comune', '1872-11-01', NULL, datetime('now')),
+  ('A742', 'BELGIRATE', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A743', 'BELLA', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A744', 'BELLAGIO', 'CO', 'comune', '1861-03-17', '2014-02-04', datetime('now')),
+  ('A745', 'BELLANO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A746', 'BELLANTE', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A747', 'BELLARIA-IGEA MARINA', 'RN', 'comune', '1956-03-04', NULL, datetime('now')),
+  ('A748', 'BELLEDO', 'CO', 'comune', NULL, NULL, datetime('now')),
+  ('A749', 'BELLEGRA', 'RM', 'comune', '1880-12-17', NULL, datetime('now')),
+  ('A750', 'BELLINO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A751', 'BELLINZAGO LOMBARDO', 'MI', 'comune', '1862-11-03', NULL, datetime('now')),
+  ('A752', 'BELLINZAGO NOVARESE', 'NO', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('A753', 'BELLIZZI IRPINO', 'AV', 'comune', '1861-03-17', '1938-09-01', datetime('now')),
+  ('A754', 'BELLOMBRA', 'RO', 'comune', '1924-01-14', '1929-01-14', datetime('now')),
+  ('A755', 'BELLONA', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A756', 'BELLOSGUARDO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A757', 'BELLUNO', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A758', 'BELLUNO VERONESE', 'VR', 'comune', '1866-11-19', '1928-10-17', datetime('now')),
+  ('A759', 'BELLUSCO', 'MB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A760', 'BELMONTE PICENO', 'FM', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('A761', 'BELMONTE DEL SANNIO', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('A762', 'BELMONTE CALABRO', 'CS', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('A763', 'BELMONTE CASTELLO', 'FR', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('A764', 'BELMONTE MEZZAGNO', 'PA', 'comune', '1864-03-11', NULL, datetime('now')),
+  ('A765', 'BELMONTE IN SABINA', 'RI', 'comune', '1872-09-02', NULL, datetime('now')),
+  ('A766', 'BELPASSO', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A767', 'BEL PRATO', 'BS', 'comune', '1863-01-26', '1928-11-27', datetime('now')),
+  ('A768', 'BELSITO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A769', 'BELVEDERE OSTRENSE', 'AN', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('A770', 'BELVEGLIO', 'AT', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('A771', 'LIZZANO IN BELVEDERE', 'BO', 'comune', '1862-10-31', NULL, datetime('now')),
+  ('A772', 'BELVEDERE DI SPINELLO', 'KR', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('A773', 'BELVEDERE MARITTIMO', 'CS', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('A774', 'BELVEDERE LANGHE', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('A775', 'BELVEDERE AL PO', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('A776', 'BELVÌ', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A777', 'BEMA', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A778', 'BENE LARIO', 'CO', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('A779', 'BENE VAGIENNA', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('A780', 'BENESTARE', 'RC', 'comune', '1895-04-05', NULL, datetime('now')),
+  ('A781', 'BENETUTTI', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A782', 'BENEVELLO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A783', 'BENEVENTO', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A784', 'BENNA', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A785', 'BENTIVOGLIO', 'BO', 'comune', '1885-12-25', NULL, datetime('now')),
+  ('A786', 'BERBENNO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A787', 'BERBENNO DI VALTELLINA', 'SO', 'comune', '1864-04-01', NULL, datetime('now')),
+  ('A788', 'BERCETO', 'PR', 'comune', '1891-11-13', NULL, datetime('now')),
+  ('A789', 'BERCHIDDA', 'OT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A790', 'BERDO SAN GIOVANNI', 'FU', 'comune', '1921-01-05', '1924-10-31', datetime('now')),
+  ('A791', 'BEREGAZZO CON FIGLIARO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A792', 'BEREGUARDO', 'PV', 'comune', '1872-10-15', NULL, datetime('now')),
+  ('A793', 'BERGAMASCO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A794', 'BERGAMO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A795', 'BERGANTINO', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A796', 'BERGEGGI', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A797', 'BERGOGNA', 'GO', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('A798', 'BERGOLO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A799', 'BERLINGO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A800', 'BERNAGA', 'CO', 'comune', NULL, NULL, datetime('now')),
+  ('A801', 'BERNALDA', 'MT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A802', 'BERNAREGGIO', 'MB', 'comune', '1869-02-11', NULL, datetime('now')),
+  ('A803', 'BERNATE ROSALES', 'CO', 'comune', '1862-12-29', '1937-10-10', datetime('now')),
+  ('A804', 'BERNATE TICINO', 'MI', 'comune', '1862-12-01', NULL, datetime('now')),
+  ('A805', 'BERNEZZO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A806', 'BERRA', 'FE', 'comune', '1909-01-23', '2019-01-01', datetime('now')),
+  ('A807', 'BERSEZIO', 'CN', 'comune', '1861-03-17', '1928-03-13', datetime('now')),
+  ('A808', 'BERSONE', 'TN', 'comune', '1920-10-16', '2015-01-01', datetime('now')),
+  ('A809', 'BERTINORO', 'FC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A810', 'BERTIOLO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A811', 'BERTONICO', 'LO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A812', 'BERZANO DI SAN PIETRO', 'AT', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('A813', 'BERZANO DI TORTONA', 'AL', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('A815', 'BERZO SAN FERMO', 'BG', 'comune', '1863-08-10', NULL, datetime('now')),
+  ('A816', 'BERZO DEMO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A817', 'BERZO INFERIORE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A818', 'BESANA IN BRIANZA', 'MB', 'comune', '1869-02-24', NULL, datetime('now')),
+  ('A819', 'BESANO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A820', 'BESATE', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A821', 'BESENELLO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('A822', 'BESENO', 'TN', 'comune', '1929-03-26', '1947-07-10', datetime('now')),
+  ('A823', 'BESENZONE', 'PC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A824', 'BERSEZIO DEL QUARNARO', 'FU', 'comune', '1922-02-02', '1929-05-22', datetime('now')),
+  ('A825', 'BESNATE', 'VA', 'comune', '1907-07-01', NULL, datetime('now')),
+  ('A826', 'BESOZZO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A827', 'BESSUDE', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A828', 'BESTAGNO', 'IM', 'comune', '1861-03-17', '1928-02-21', datetime('now')),
+  ('A829', 'BESTAZZO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('A830', 'BETTENESCO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('A831', 'BETTOLA', 'PC', 'comune', '1885-04-27', NULL, datetime('now')),
+  ('A832', 'BETTONA', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A833', 'BEURA', 'NO', 'comune', '1861-03-17', '1928-10-17', datetime('now')),
+  ('A834', 'BEURA-CARDEZZA', 'VB', 'comune', '1928-10-16', NULL, datetime('now')),
+  ('A835', 'BEVAGNA', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A836', 'BEVERINO', 'SP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A837', 'BEVILACQUA', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A838', 'BEVILACQUA-BOSCHI', 'VR', 'comune', '1928-04-15', '1947-10-01', datetime('now')),
+  ('A839', 'BEZZECCA', 'TN', 'comune', '1920-10-16', '2010-01-01', datetime('now')),
+  ('A840', 'BIACESA', 'TN', 'comune', '1920-10-16', '1928-04-04', datetime('now')),
+  ('A841', 'BIANCAVILLA', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A842', 'BIANCHI', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A843', 'BIANCO', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A844', 'BIANDRATE', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A845', 'BIANDRONNO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A846', 'BIANZANO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A847', 'BIANZÈ', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A848', 'BIANZONE', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A849', 'BIASSONO', 'MB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A850', 'BIBBIANO', 'RE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A851', 'BIBBIENA', 'AR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A852', 'BIBBONA', 'LI', 'comune', '1906-04-18', NULL, datetime('now')),
+  ('A853', 'BIBIANA', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A854', 'BICCARI', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A855', 'BICINICCO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A856', 'BIDONÌ', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('A857', 'BLERA', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('A858', 'BIEGNO', 'VA', 'comune', '1861-03-17', '1928-08-07', datetime('now')),
+  ('A859', 'BIELLA', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A860', 'BIENATE', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('A861', 'BIENNO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A862', 'BIENO', 'NO', 'comune', '1880-06-25', '1928-10-29', datetime('now')),
+  ('A863', 'BIENO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('A864', 'BIENTINA', 'PI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A865', 'BIESTRO', 'SV', 'comune', '1861-03-17', '1928-07-28', datetime('now')),
+  ('A866', 'BIGARELLO', 'MN', 'comune', '1866-11-19', '2019-01-01', datetime('now')),
+  ('A867', 'BIGLIA', 'GO', 'comune', '1921-01-05', '1928-04-15', datetime('now')),
+  ('A868', 'BIGLIANA', 'GO', 'comune', '1921-01-05', '1928-05-12', datetime('now')),
+  ('A869', 'BIGLIO', 'CO', 'comune', '1861-03-17', '1927-10-10', datetime('now')),
+  ('A870', 'BINAGO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A871', 'BINANUOVA', 'CR', 'comune', '1861-03-17', '1928-04-07', datetime('now')),
+  ('A872', 'BINASCO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A873', 'BINDO', 'CO', 'comune', '1861-03-17', '1927-08-07', datetime('now')),
+  ('A874', 'BINETTO', 'BA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A875', 'BINZAGO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('A876', 'BIOGLIO', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A877', 'BIONAZ', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A878', 'BIONE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A879', 'BIRAGO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('A880', 'BIRORI', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A881', 'BISACCIA', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A882', 'BISACQUINO', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A883', 'BISCEGLIE', 'BT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A884', 'BISEGNA', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A885', 'BISENTI', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A886', 'BISENTRATE', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('A887', 'BISIGNANO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A888', 'BISIO', 'AL', 'comune', '1861-03-17', '1873-04-09', datetime('now')),
+  ('A889', 'BISTAGNO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A890', 'BISTERZA', 'FU', 'comune', '1921-01-05', '1927-12-16', datetime('now')),
+  ('A891', 'BISUSCHIO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A892', 'BITETTO', 'BA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A893', 'BITONTO', 'BA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A894', 'BITRITTO', 'BA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A895', 'BITTI', 'NU', 'comune', '1874-04-22', NULL, datetime('now')),
+  ('A896', 'BIVONA', 'AG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A897', 'BIVONGI', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A898', 'BIZZARONE', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A899', 'BIZZOZERO', 'VA', 'comune', '1861-03-17', '1927-12-29', datetime('now')),
+  ('A900', 'BLEGGIO', 'TN', 'comune', '1928-06-27', '1947-01-11', datetime('now')),
+  ('A901', 'BLEGGIO INFERIORE', 'TN', 'comune', '1920-10-16', '2010-01-01', datetime('now')),
+  ('A902', 'BLEGGIO SUPERIORE', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('A903', 'BLELLO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A904', 'BLESSAGNO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A905', 'BLEVIO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A906', 'BOARA PISANI', 'PD', 'comune', '1868-02-14', NULL, datetime('now')),
+  ('A907', 'BOARA POLESINE', 'RO', 'comune', '1868-07-13', '1927-09-04', datetime('now')),
+  ('A908', 'BOBBIATE', 'VA', 'comune', '1861-03-17', '1927-12-29', datetime('now')),
+  ('A909', 'BOBBIO', 'PC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A910', 'BOBBIO PELLICE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A911', 'BOCA', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A912', 'BOCCHIGLIERO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A913', 'BOCCHIGNANO', 'PG', 'comune', NULL, NULL, datetime('now')),
+  ('A914', 'BOCCIOLETO', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A915', 'BOCCOLO DE'' TASSI', 'PR', 'comune', '1861-03-17', '1927-01-28', datetime('now')),
+  ('A916', 'BOCENAGO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('A917', 'BODIO', 'VA', 'comune', '1861-03-17', '1928-01-13', datetime('now')),
+  ('A918', 'BODIO LOMNAGO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A919', 'BOFFALORA D''ADDA', 'LO', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('A920', 'BOFFALORA SOPRA TICINO', 'MI', 'comune', '1862-12-01', NULL, datetime('now')),
+  ('A921', 'BOFFETTO', 'SO', 'comune', NULL, NULL, datetime('now')),
+  ('A922', 'BOGLIASCO', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A923', 'BOGLIASCO PIEVE', 'GE', 'comune', '1928-02-24', '1946-12-20', datetime('now')),
+  ('A924', 'BOGLIUNO', 'PL', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('A925', 'BOGNANCO', 'VB', 'comune', '1928-01-07', NULL, datetime('now')),
+  ('A926', 'BOGNANCO DENTRO', 'NO', 'comune', '1861-03-17', '1928-01-08', datetime('now')),
+  ('A927', 'BOGNANCO FUORI', 'NO', 'comune', '1861-03-17', '1928-01-08', datetime('now')),
+  ('A928', 'BOGNO', 'VA', 'comune', '1861-03-17', '1928-01-22', datetime('now')),
+  ('A929', 'BOGOGNO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A930', 'BOJANO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A931', 'BOISSANO', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A932', 'BOLANO', 'SP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A933', 'BOLBENO', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('A934', 'BOLDINASCO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('A935', 'BOLENTINA', 'TN', 'comune', '1920-10-16', '1928-09-06', datetime('now')),
+  ('A936', 'BOLETO', 'NO', 'comune', '1861-03-17', '1928-03-08', datetime('now')),
+  ('A937', 'BOLGARE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A938', 'BOLGIANO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('A939', 'BOLLADELLO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('A940', 'BOLLATE', 'MI', 'comune', '1869-04-01', NULL, datetime('now')),
+  ('A941', 'BOLLENGO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A942', 'NOVA SIRI', 'MT', 'comune', '1872-03-21', NULL, datetime('now')),
+  ('A943', 'BOLLONE', 'TN', 'comune', '1920-10-16', '1929-03-01', datetime('now')),
+  ('A944', 'BOLOGNA', 'BO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A945', 'BOLOGNANO', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A946', 'BOLOGNETTA', 'PA', 'comune', '1883-01-14', NULL, datetime('now')),
+  ('A947', 'BOLOGNOLA', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A948', 'BOLOTANA', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A949', 'BOLSENA', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('A950', 'BOLTIERE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A951', 'BOLZANETO', 'GE', 'comune', '1878-06-21', '1926-02-06', datetime('now')),
+  ('A952', 'BOLZANO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('A953', 'BOLZANO NOVARESE', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A954', 'BOLZANO VICENTINO', 'VI', 'comune', '1867-09-02', NULL, datetime('now')),
+  ('A955', 'BOMARZO', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('A956', 'BOMBA', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A957', 'BOMPENSIERE', 'CL', 'comune', '1911-04-18', NULL, datetime('now')),
+  ('A958', 'BOMPIETRO', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A959', 'BOMPORTO', 'MO', 'comune', '1867-01-01', NULL, datetime('now')),
+  ('A960', 'BONARCADO', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('A961', 'BONASSOLA', 'SP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A962', 'BONATE SOTTO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A963', 'BONATE SOPRA', 'BG', 'comune', '1890-04-28', NULL, datetime('now')),
+  ('A964', 'BONAVIGO', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A965', 'BONDENO', 'FE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A966', 'BONDIONE', 'BG', 'comune', '1861-03-17', '1927-10-11', datetime('now')),
+  ('A967', 'BONDO', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('A968', 'BONDONE', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('A969', 'BONDO PETELLO', 'BG', 'comune', '1861-03-17', '1928-02-16', datetime('now')),
+  ('A970', 'BONEA', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A971', 'BONEFRO', 'CB', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('A972', 'BONEMERSE', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A973', 'BONIFATI', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A974', 'BONIROLA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('A975', 'BONITO', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A976', 'BONNANARO', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A977', 'BONO', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A978', 'BONORVA', 'SS', 'comune', '1875-06-22', NULL, datetime('now')),
+  ('A979', 'BONVICINO', 'CN', 'comune', '1887-06-06', NULL, datetime('now')),
+  ('A980', 'BONZO', 'TO', 'comune', '1861-03-17', '1928-01-07', datetime('now')),
+  ('A981', 'BORBONA', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A982', 'BORCA DI CADORE', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('A983', 'BORDANO', 'UD', 'comune', '1867-09-02', NULL, datetime('now')),
+  ('A984', 'BORDIGHERA', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A985', 'BORDOGNA', 'BG', 'comune', '1861-03-17', '1927-11-24', datetime('now')),
+  ('A986', 'BORDOLANO', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A987', 'BORE', 'PR', 'comune', '1919-09-01', NULL, datetime('now')),
+  ('A988', 'BORETTO', 'RE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A989', 'BORGARELLO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A990', 'BORGARO TORINESE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A991', 'BORGETTO', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A992', 'BORGHETTO DI VARA', 'SP', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('A993', 'BORGHETTO D''ARROSCIA', 'IM', 'comune', '1877-01-07', NULL, datetime('now')),
+  ('A994', 'BORGHETTO SAN NICOLÒ', 'IM', 'comune', '1863-01-26', '1928-04-04', datetime('now')),
+  ('A995', 'BORGHETTO LODIGIANO', 'LO', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('A996', 'BORGO VELINO', 'RI', 'comune', '1863-05-06', NULL, datetime('now')),
+  ('A997', 'BORGHETTO', 'TN', 'comune', '1920-10-16', '1928-04-17', datetime('now')),
+  ('A998', 'BORGHETTO DI BORBERA', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('A999', 'BORGHETTO SANTO SPIRITO', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B001', 'BORGHI', 'FC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B002', 'BORGIA', 'CZ', 'comune', '1861-03-17', NULL, datetime('now'));
+
+INSERT INTO belfioreCodes (code, name, province, kind, validFrom, validTo, updatedAt) VALUES
+  ('B003', 'BORGIALLO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B004', 'BORGIO', 'SV', 'comune', '1861-03-17', '1933-05-24', datetime('now')),
+  ('B005', 'BORGIO VEREZZI', 'SV', 'comune', '1933-05-24', NULL, datetime('now')),
+  ('B006', 'BORGO VALSUGANA', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('B007', 'BORGO A MOZZANO', 'LU', 'comune', '1898-07-01', NULL, datetime('now')),
+  ('B008', 'BORGOROSE', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B009', 'BORGO D''ALE', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B010', 'BORGO DI TERZO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B011', 'BORGOFORTE', 'MN', 'comune', '1872-01-01', '2014-02-04', datetime('now')),
+  ('B012', 'MOTTEGGIANA', 'MN', 'comune', '1868-02-14', NULL, datetime('now')),
+  ('B013', 'BORGOFRANCO SUL PO', 'MN', 'comune', '1867-06-24', '2019-01-01', datetime('now')),
+  ('B014', 'SUARDI', 'PV', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('B015', 'BORGOFRANCO D''IVREA', 'AO', 'comune', '1894-02-02', NULL, datetime('now')),
+  ('B016', 'BORGOLAVEZZARO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B017', 'BORGO SAN GIOVANNI', 'LO', 'comune', '1866-01-14', NULL, datetime('now')),
+  ('B018', 'BORGOMALE', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B019', 'BORGOMANERO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B020', 'BORGOMARO', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B021', 'BORGOMASINO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B022', 'BORGONATO', 'BS', 'comune', '1867-08-19', '1928-07-29', datetime('now')),
+  ('B023', 'BORGONE D''OSSOLA', 'NO', 'comune', NULL, NULL, datetime('now')),
+  ('B024', 'BORGONE SUSA', 'TO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('B025', 'BORGONOVO VAL TIDONE', 'PC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B026', 'BORGO PACE', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B027', 'BORGO PANIGALE', 'BO', 'comune', '1861-03-17', '1937-12-06', datetime('now')),
+  ('B028', 'BORGO PRIOLO', 'PV', 'comune', '1928-11-29', NULL, datetime('now')),
+  ('B029', 'BORGORATTO ALESSANDRINO', 'AL', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('B030', 'BORGORATTO MORMOROLO', 'PV', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('B031', 'BORGORICCO', 'PD', 'comune', '1869-05-17', NULL, datetime('now')),
+  ('B032', 'BORGO SAN BERNARDINO', 'PC', 'comune', NULL, NULL, datetime('now')),
+  ('B033', 'BORGO SAN DALMAZZO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B034', 'FIDENZA', 'PR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B035', 'BORGO SAN GIACOMO', 'BS', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('B036', 'BORGO SAN LORENZO', 'FI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B037', 'BORGO SAN MARTINO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B038', 'BORGO SAN SIRO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B039', 'BORGO SANT''AGATA', 'IM', 'comune', '1861-03-17', '1923-11-29', datetime('now')),
+  ('B040', 'BORGOSATOLLO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B041', 'BORGOSESIA', 'VC', 'comune', '1867-02-23', NULL, datetime('now')),
+  ('B042', 'BORGO VAL DI TARO', 'PR', 'comune', '1884-04-25', NULL, datetime('now')),
+  ('B043', 'BORGO TICINO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B044', 'BORGO TOSSIGNANO', 'BO', 'comune', '1884-06-18', NULL, datetime('now')),
+  ('B045', 'BORGOUNITO', 'BG', 'comune', '1928-06-30', '1947-11-05', datetime('now')),
+  ('B046', 'BORGO VERCELLI', 'VC', 'comune', '1869-04-26', NULL, datetime('now')),
+  ('B047', 'BORIANO', 'GO', 'comune', '1921-01-05', '1928-08-24', datetime('now')),
+  ('B048', 'BORMIDA', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B049', 'BORMIO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B050', 'BORNAGO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('B051', 'BORNASCO', 'PV', 'comune', '1872-11-01', NULL, datetime('now')),
+  ('B052', 'BORNATE', 'VC', 'comune', '1861-03-17', '1927-10-09', datetime('now')),
+  ('B053', 'BORNATO', 'BS', 'comune', '1861-03-17', '1927-11-02', datetime('now')),
+  ('B054', 'BORNO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B055', 'BORONEDDU', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('B056', 'BORORE', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B057', 'BORRELLO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B058', 'BORRIANA', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B059', 'BORSANO', 'VA', 'comune', '1913-01-03', '1928-05-22', datetime('now')),
+  ('B060', 'BORSEA', 'RO', 'comune', '1866-11-19', '1927-09-04', datetime('now')),
+  ('B061', 'BORSO DEL GRAPPA', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B062', 'BORTIGALI', 'NU', 'comune', '1866-01-14', NULL, datetime('now')),
+  ('B063', 'BORTIGIADAS', 'OT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B064', 'BORUTTA', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B065', 'BORZAGO', 'TN', 'comune', '1920-10-16', '1928-10-30', datetime('now')),
+  ('B066', 'BORZOLI', 'GE', 'comune', '1861-03-17', '1926-02-06', datetime('now')),
+  ('B067', 'BORZONASCA', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B068', 'BOSA', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B069', 'BOSARO', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B070', 'BOSCHI SANT''ANNA', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B071', 'BOSCO MARENGO', 'AL', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('B072', 'BOSCO VALTRAVAGLIA', 'VA', 'comune', '1863-02-23', '1928-01-22', datetime('now')),
+  ('B073', 'BOSCO CHIESANUOVA', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B074', 'BOSCOMARE', 'IM', 'comune', '1861-03-17', '1928-11-01', datetime('now')),
+  ('B075', 'BOSCONERO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B076', 'BOSCOREALE', 'NA', 'comune', '1877-03-09', NULL, datetime('now')),
+  ('B077', 'BOSCOTRECASE', 'NA', 'comune', '1877-03-09', NULL, datetime('now')),
+  ('B078', 'BOSENTINO', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('B079', 'BOSIA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B080', 'BOSIO', 'AL', 'comune', '1948-04-07', NULL, datetime('now')),
+  ('B081', 'BOSISIO PARINI', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B082', 'BOSNASCO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B083', 'BOSSICO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B084', 'BOSSOLASCO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B085', 'BOTRICELLO', 'CZ', 'comune', '1957-01-17', NULL, datetime('now')),
+  ('B086', 'BOTRUGNO', 'LE', 'comune', '1958-05-28', NULL, datetime('now')),
+  ('B087', 'BOTTAIANO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('B088', 'BOTTANUCO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B089', 'BOTTARONE', 'PV', 'comune', '1895-07-29', '1928-10-07', datetime('now')),
+  ('B090', 'BOTTEDO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('B091', 'BOTTICINO', 'BS', 'comune', '1928-03-29', NULL, datetime('now')),
+  ('B092', 'BOTTICINO MATTINA', 'BS', 'comune', '1861-03-17', '1928-03-29', datetime('now')),
+  ('B093', 'BOTTICINO SERA', 'BS', 'comune', '1861-03-17', '1928-03-29', datetime('now')),
+  ('B094', 'BOTTIDDA', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B095', 'BOTTRIGHE', 'RO', 'comune', '1866-11-19', '1929-01-13', datetime('now')),
+  ('B096', 'BOUSSON', 'TO', 'comune', '1882-06-09', '1928-12-14', datetime('now')),
+  ('B097', 'BOVA', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B098', 'BOVALINO', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B099', 'BOVA MARINA', 'RC', 'comune', '1908-04-24', NULL, datetime('now')),
+  ('B100', 'BOVEGNO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B101', 'BOVES', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B102', 'BOVEZZO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B103', 'BOVILE', 'TO', 'comune', '1861-03-17', '1928-05-01', datetime('now')),
+  ('B104', 'BOVINO', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B105', 'BOVISIO-MASCIAGO', 'MB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B106', 'BOVOLENTA', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B107', 'BOVOLONE', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B108', 'BOZZANA', 'TN', 'comune', '1920-10-16', '1929-01-01', datetime('now')),
+  ('B109', 'BOZZOLE', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B110', 'BOZZOLO', 'MN', 'comune', '1868-07-01', NULL, datetime('now')),
+  ('B111', 'BRA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B112', 'BRACCA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B113', 'BRACCA DI COSTA SERINA', 'BG', 'comune', NULL, NULL, datetime('now')),
+  ('B114', 'BRACCIANO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('B115', 'BRACIGLIANO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B116', 'BRAIES', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('B117', 'BRALLO DI PREGOLA', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B118', 'BRANCALEONE', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B119', 'BRANCERE', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('B120', 'BRANDICO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B121', 'BRANDIZZO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B122', 'BRANDUZZO', 'PV', 'comune', '1861-03-17', '1928-12-09', datetime('now')),
+  ('B123', 'BRANZI', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B124', 'BRAONE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B125', 'BRAZZANO', 'GO', 'comune', '1921-01-05', '1928-09-09', datetime('now')),
+  ('B126', 'BREBBIA', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B127', 'BRECCIA', 'CO', 'comune', '1861-03-17', '1943-08-13', datetime('now')),
+  ('B128', 'BREDA DI PIAVE', 'TV', 'comune', '1868-02-14', NULL, datetime('now')),
+  ('B129', 'CASTELVERDE', 'CR', 'comune', '1868-08-19', NULL, datetime('now')),
+  ('B130', 'BREDA GUAZZONE', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('B131', 'BREGANO', 'VA', 'comune', '1861-03-17', '2023-01-01', datetime('now')),
+  ('B132', 'BREGANZE', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B133', 'BREGLIA', 'CO', 'comune', '1861-03-17', '1928-07-18', datetime('now')),
+  ('B134', 'BREGNANO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B135', 'BREGUZZO', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('B136', 'BREIA', 'VC', 'comune', '1861-03-17', '2018-01-01', datetime('now')),
+  ('B137', 'BREMBATE', 'BG', 'comune', '1928-08-15', NULL, datetime('now')),
+  ('B138', 'BREMBATE DI SOPRA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B139', 'BREMBATE DI SOTTO', 'BG', 'comune', '1861-03-17', '1928-08-15', datetime('now')),
+  ('B140', 'BREMBILLA', 'BG', 'comune', '1861-03-17', '2014-02-04', datetime('now')),
+  ('B141', 'BREMBIO', 'LO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B142', 'BREME', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B143', 'BRENDOLA', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B144', 'BRENNA', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B145', 'BRENNERO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('B146', 'BRENNO USERIA', 'VA', 'comune', '1863-02-23', '1928-10-17', datetime('now')),
+  ('B147', 'BRENNO DELLA TORRE', 'CO', 'comune', NULL, NULL, datetime('now')),
+  ('B148', 'SOMBRENO', 'BG', 'comune', '1864-06-23', '1929-05-17', datetime('now')),
+  ('B149', 'BRENO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B150', 'BRENTA', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B151', 'BRENTINO', 'VR', 'comune', '1866-11-19', '1928-10-17', datetime('now')),
+  ('B152', 'BRENTINO BELLUNO', 'VR', 'comune', '1928-10-17', NULL, datetime('now')),
+  ('B153', 'BRENTONICO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('B154', 'BRENZONE SUL GARDA', 'VR', 'comune', '1870-10-17', NULL, datetime('now')),
+  ('B155', 'BREONIO', 'VR', 'comune', '1866-11-19', '1929-01-25', datetime('now')),
+  ('B156', 'BRESCELLO', 'RE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B157', 'BRESCIA', 'BS', 'comune', '1880-06-25', NULL, datetime('now')),
+  ('B158', 'BRESIMO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('B159', 'BRESSANA BOTTARONE', 'PV', 'comune', '1928-10-07', NULL, datetime('now')),
+  ('B160', 'BRESSANONE', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('B161', 'BRESSANVIDO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B162', 'BRESSO', 'MI', 'comune', '1884-08-23', NULL, datetime('now')),
+  ('B163', 'BRESTOVIZZA IN VALLE', 'GO', 'comune', '1921-01-05', '1928-08-24', datetime('now')),
+  ('B164', 'BRETTO', 'GO', 'comune', '1921-01-05', '1928-05-04', datetime('now')),
+  ('B165', 'BREZ', 'TN', 'comune', '1920-10-16', '2020-01-01', datetime('now')),
+  ('B166', 'BREZZO DI BEDERO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B167', 'BRIAGLIA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B168', 'BRIANZOLA', 'CO', 'comune', '1861-03-17', '1928-02-11', datetime('now')),
+  ('B169', 'BRIATICO', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B170', 'BRIAVACCA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('B171', 'BRICHERASIO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B172', 'BRIENNO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B173', 'BRIENZA', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B174', 'BRIGA MARITTIMA', 'CN', 'comune', '1862-12-19', '1947-09-16', datetime('now')),
+  ('B175', 'BRIGA ALTA', 'CN', 'comune', '1947-10-07', NULL, datetime('now')),
+  ('B176', 'BRIGA NOVARESE', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B177', 'BRIGNANO DEL CURONE', 'AL', 'comune', '1863-02-23', '1928-06-19', datetime('now')),
+  ('B178', 'BRIGNANO GERA D''ADDA', 'BG', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('B179', 'BRIGNANO-FRASCATA', 'AL', 'comune', '1928-06-19', NULL, datetime('now')),
+  ('B180', 'BRINDISI', 'BR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B181', 'BRINDISI MONTAGNA', 'PZ', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('B182', 'BRINZIO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B183', 'BRIONA', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B184', 'BRIONE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B185', 'BRIONE', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('B186', 'BRIONI MAGGIORE', 'PL', 'comune', '1934-01-26', '1947-09-16', datetime('now')),
+  ('B187', 'BRIOSCO', 'MB', 'comune', '1869-02-13', NULL, datetime('now')),
+  ('B188', 'BRISIGHELLA', 'RA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B189', 'BRISINO', 'NO', 'comune', '1861-03-17', '1927-03-02', datetime('now')),
+  ('B190', 'BRISSAGO', 'VA', 'comune', '1861-03-17', '1928-01-07', datetime('now')),
+  ('B191', 'BRISSAGO-VALTRAVAGLIA', 'VA', 'comune', '1928-01-07', NULL, datetime('now')),
+  ('B192', 'BRISSOGNE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B193', 'BRITTOLI', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B194', 'BRIVIO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B195', 'BROCCOSTELLA', 'FR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B196', 'BROGLIANO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B197', 'BROGNATURO', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B198', 'BROLO', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B199', 'BROLPASINO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('B200', 'BRONDELLO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B201', 'BRONI', 'PV', 'comune', '1869-02-01', NULL, datetime('now')),
+  ('B202', 'BRONTE', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B203', 'BRONZOLO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('B204', 'BROSSASCO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B205', 'BROSSO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B206', 'BROVELLO', 'NO', 'comune', '1861-03-17', '1928-09-26', datetime('now')),
+  ('B207', 'BROVELLO-CARPUGNINO', 'VB', 'comune', '1928-09-25', NULL, datetime('now')),
+  ('B208', 'BROVIDA', 'SV', 'comune', '1861-03-17', '1929-04-13', datetime('now')),
+  ('B209', 'BROZOLO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B210', 'BROZZI', 'FI', 'comune', '1861-03-17', '1928-12-17', datetime('now')),
+  ('B211', 'BROZZO', 'BS', 'comune', '1861-03-17', '1927-12-24', datetime('now')),
+  ('B212', 'BRUGHERIO', 'MB', 'comune', '1867-01-14', NULL, datetime('now')),
+  ('B213', 'BRUGINE', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B214', 'BRUGNATO', 'SP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B215', 'BRUGNERA', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('B216', 'BRUINO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B217', 'BRUMANO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B218', 'BRUNATE', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B219', 'BRUNELLO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B220', 'BRUNICO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('B221', 'BRUNO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B222', 'BRUNTINO', 'BG', 'comune', '1861-03-17', '1927-08-01', datetime('now')),
+  ('B223', 'BRUSAPORTO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B224', 'BRUSASCHETTO', 'AL', 'comune', '1861-03-17', '1929-05-23', datetime('now')),
+  ('B225', 'BRUSASCO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B226', 'BRUSASCO CAVAGNOLO', 'TO', 'comune', NULL, NULL, datetime('now')),
+  ('B227', 'BRUSCIANO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B228', 'BRUSIMPIANO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B229', 'BRUSNENGO', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B230', 'BRUSSON', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B231', 'BRUSUGLIO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('B232', 'BRUZOLO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B233', 'BRUZZANO DEI DUE BORGHI', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('B234', 'BRUZZANO ZEFFIRIO', 'RC', 'comune', '1885-01-15', NULL, datetime('now')),
+  ('B235', 'BUBBIANO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B236', 'BUBBIO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B237', 'BUCCHERI', 'SR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B238', 'BUCCHIANICO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B239', 'BUCCIANO', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B240', 'BUCCINASCO', 'MI', 'comune', '1870-08-02', NULL, datetime('now')),
+  ('B241', 'BUCCINIGO', 'CO', 'comune', '1861-03-17', '1928-01-26', datetime('now')),
+  ('B242', 'BUCCINO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B243', 'BUCINE', 'AR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B244', 'BUCUIE', 'TS', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('B245', 'BUDAGNE', 'GO', 'comune', '1921-01-05', '1928-04-29', datetime('now')),
+  ('B246', 'BUDDUSÒ', 'OT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B247', 'BUDOIA', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('B248', 'BUDONI', 'SS', 'comune', '1959-05-01', NULL, datetime('now')),
+  ('B249', 'BUDRIO', 'BO', 'comune', '1869-01-30', NULL, datetime('now')),
+  ('B250', 'BUGGERRU', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B251', 'BUGGIANO', 'PT', 'comune', '1883-05-21', NULL, datetime('now')),
+  ('B252', 'BUGGIOLO', 'CO', 'comune', '1861-03-17', '1928-07-01', datetime('now')),
+  ('B253', 'BUGIALLO', 'CO', 'comune', '1861-03-17', '1928-05-12', datetime('now')),
+  ('B254', 'MONTEBUGLIO', 'NO', 'comune', NULL, NULL, datetime('now')),
+  ('B255', 'BUGLIO IN MONTE', 'SO', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('B256', 'BUGNARA', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B257', 'BUGNATE', 'NO', 'comune', '1861-03-17', '1928-02-23', datetime('now')),
+  ('B258', 'BUGUGGIATE', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B259', 'BUJA', 'UD', 'comune', '1867-09-02', NULL, datetime('now')),
+  ('B260', 'BUIE D''ISTRIA', 'PL', 'comune', '1921-01-05', '1977-04-04', datetime('now')),
+  ('B261', 'BULCIAGO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B262', 'BULGAROGRASSO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B263', 'BULGORELLO', 'CO', 'comune', '1861-03-17', '1928-06-14', datetime('now')),
+  ('B264', 'BULTEI', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B265', 'BULZI', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B266', 'BUONABITACOLO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B267', 'BUONALBERGO', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B268', 'MONTEBELLO SUL SANGRO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B269', 'BUONCONVENTO', 'SI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B270', 'BUONVICINO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B271', 'BURAGO RIVIERA', 'BS', 'comune', NULL, NULL, datetime('now')),
+  ('B272', 'BURAGO DI MOLGORA', 'MB', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('B273', 'BURANO', 'VE', 'comune', '1866-11-19', '1924-01-14', datetime('now')),
+  ('B274', 'BURCEI', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B275', 'BURGIO', 'AG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B276', 'BURGOS', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B277', 'BURGUSIO', 'BZ', 'comune', '1920-10-16', '1928-01-27', datetime('now')),
+  ('B278', 'BURIASCO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B279', 'BUROLO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B280', 'BURONZO', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B281', 'BUSACHI', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('B282', 'BUSALLA', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B283', 'BUSANA', 'RE', 'comune', '1861-03-17', '2016-01-01', datetime('now')),
+  ('B284', 'BUSANO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B285', 'BUSCA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B286', 'BUSCATE', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B287', 'BUSCEMI', 'SR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B288', 'BUSETO PALIZZOLO', 'TP', 'comune', '1950-08-01', NULL, datetime('now')),
+  ('B289', 'BUSNAGO', 'MB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B290', 'BUSO SARZANO', 'RO', 'comune', '1867-07-22', '1927-09-04', datetime('now')),
+  ('B291', 'BUSSANA', 'IM', 'comune', '1861-03-17', '1928-04-04', datetime('now')),
+  ('B292', 'BUSSERO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B293', 'BUSSETO', 'PR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B294', 'BUSSI SUL TIRINO', 'PE', 'comune', '1889-11-09', NULL, datetime('now')),
+  ('B295', 'BUSSO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B296', 'BUSSOLENGO', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B297', 'BUSSOLENO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B298', 'BUSSOLINO GASSINESE', 'TO', 'comune', '1864-11-07', '1928-07-30', datetime('now')),
+  ('B299', 'BUSTIGHERA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('B300', 'BUSTO ARSIZIO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B301', 'BUSTO GAROLFO', 'MI', 'comune', '1869-07-22', NULL, datetime('now')),
+  ('B302', 'BUTERA', 'CL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B303', 'BUTI', 'PI', 'comune', '1867-06-24', NULL, datetime('now')),
+  ('B304', 'BUTTAPIETRA', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B305', 'BUTTIGLIERA ALTA', 'TO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('B306', 'BUTTIGLIERA D''ASTI', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B307', 'BUTTIRAGO', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('B308', 'BUTTOGNO', 'NO', 'comune', '1861-03-17', '1928-06-29', datetime('now')),
+  ('B309', 'BUTTRIO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B310', 'SAN PAOLO D''ARGON', 'BG', 'comune', '1887-07-22', NULL, datetime('now')),
+  ('B311', 'CABELLA LIGURE', 'AL', 'comune', '1895-01-21', NULL, datetime('now')),
+  ('B312', 'CASTELLO CABIAGLIO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B313', 'CABIATE', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B314', 'CABRAS', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('B315', 'CACCAMO', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B316', 'CAMPOVERDE', 'BS', 'comune', '1861-03-17', '1927-06-09', datetime('now')),
+  ('B317', 'POGGIO SANNITA', 'IS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B318', 'CACCIA', 'TS', 'comune', '1921-12-31', '1925-08-23', datetime('now')),
+  ('B319', 'CACCURI', 'KR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B320', 'CA'' D''ANDREA', 'CR', 'comune', '1869-01-28', '2019-01-01', datetime('now')),
+  ('B321', 'CADDO', 'NO', 'comune', '1861-03-17', '1928-03-08', datetime('now')),
+  ('B322', 'CA'' DE'' BONAVOGLI', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('B323', 'CA'' DE'' CAGGI', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('B324', 'CA'' DE'' CORTI', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('B325', 'CADEGLIANO', 'VA', 'comune', '1908-07-22', '1928-08-16', datetime('now')),
+  ('B326', 'CADEGLIANO-VICONAGO', 'VA', 'comune', '1928-08-16', NULL, datetime('now')),
+  ('B327', 'CA'' DEI BOLLI', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('B328', 'CADELBOSCO DI SOPRA', 'RE', 'comune', '1866-01-01', NULL, datetime('now')),
+  ('B329', 'CA'' DELL''ACQUA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('B330', 'CA'' DELLA TERRA', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('B331', 'CA'' DE'' MAZZI', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('B332', 'CADEO', 'PC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B333', 'CA'' DE'' QUINZANI', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('B334', 'CADERO CON GRAGLIO', 'VA', 'comune', '1877-11-08', '1928-08-07', datetime('now')),
+  ('B335', 'CADERZONE TERME', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('B336', 'CA'' DE'' SFONDRATI', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('B337', 'CA'' DE'' SORESINI', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('B338', 'CA'' DE'' STAOLI', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('B339', 'CA'' DE'' STEFANI', 'CR', 'comune', '1868-08-22', '1927-11-24', datetime('now')),
+  ('B340', 'CA'' DE'' TEDIOLI', 'PV', 'comune', '1861-03-17', '1871-03-01', datetime('now')),
+  ('B341', 'CA'' DE'' ZECCHI', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('B342', 'CA'' DI DAVID', 'VR', 'comune', '1866-11-19', '1927-05-12', datetime('now')),
+  ('B343', 'CADIGNANO', 'BS', 'comune', '1861-03-17', '1928-01-26', datetime('now')),
+  ('B344', 'CADINE', 'TN', 'comune', '1920-10-16', '1926-10-01', datetime('now')),
+  ('B345', 'CADONEGHE', 'PD', 'comune', '1880-01-16', NULL, datetime('now')),
+  ('B346', 'CADORAGO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B347', 'CADREZZATE', 'VA', 'comune', '1861-03-17', '2019-02-15', datetime('now')),
+  ('B348', 'CA'' EMO', 'RO', 'comune', '1882-06-12', '1929-01-14', datetime('now')),
+  ('B349', 'CAERANO DI SAN MARCO', 'TV', 'comune', '1872-03-06', NULL, datetime('now')),
+  ('B350', 'CAFASSE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B351', 'CAGGIANO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B352', 'CAGLI', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B353', 'CAGLIANO', 'CO', 'comune', '1861-03-17', '1928-02-06', datetime('now')),
+  ('B354', 'CAGLIARI', 'CA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B355', 'CAGLIO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B356', 'CAGNA', 'GE', 'comune', NULL, NULL, datetime('now')),
+  ('B357', 'CAGNANO VARANO', 'FG', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('B358', 'CAGNANO AMITERNO', 'AQ', 'comune', '1864-06-23', NULL, datetime('now')),
+  ('B359', 'CAGNO', 'CO', 'comune', '1861-03-17', '2019-01-01', datetime('now')),
+  ('B360', 'CAGNÒ', 'TN', 'comune', '1920-10-16', '2020-01-01', datetime('now')),
+  ('B361', 'CAIANELLO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B362', 'CAIAZZO', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B363', 'CAIDATE', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('B364', 'CAINES', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('B365', 'CAINO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B366', 'CAIOLO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B367', 'CAIRANO', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B368', 'CAIRATE', 'VA', 'comune', '1869-03-11', NULL, datetime('now')),
+  ('B369', 'CAIRO MONTENOTTE', 'SV', 'comune', '1880-06-25', NULL, datetime('now')),
+  ('B370', 'CAIRO LOMELLINO', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('B371', 'CAIVANO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B372', 'CAJELLO', 'MI', 'comune', '1861-03-17', '1924-01-15', datetime('now')),
+  ('B373', 'CAJONVICO', 'BS', 'comune', '1861-03-17', '1928-03-29', datetime('now')),
+  ('B374', 'CALABRITTO', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B375', 'CALALZO DI CADORE', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B376', 'CALAMANDRANA', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B377', 'CALAMONACI', 'AG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B378', 'CALANGIANUS', 'OT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B379', 'CALANNA', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B380', 'CALASCA-CASTIGLIONE', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B381', 'CALASCIBETTA', 'EN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B382', 'CALASCIO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B383', 'CALASETTA', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B384', 'CALATABIANO', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B385', 'CALATAFIMI-SEGESTA', 'TP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B386', 'CALAVINO', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('B387', 'LUNGAVILLA', 'PV', 'comune', '1895-01-07', NULL, datetime('now')),
+  ('B388', 'CALCATA', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('B389', 'CALCERANICA AL LAGO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('B390', 'CALCI', 'PI', 'comune', '1884-09-16', NULL, datetime('now')),
+  ('B391', 'CALCIANO', 'MT', 'comune', '1913-07-13', NULL, datetime('now')),
+  ('B392', 'CALCINAIA', 'PI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B393', 'CALCINATE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B394', 'CALCINATO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B395', 'CALCIO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B396', 'CALCO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B397', 'CALDARO SULLA STRADA DEL VINO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('B398', 'CALDAROLA', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B399', 'CALDERARA DI RENO', 'BO', 'comune', '1862-10-31', NULL, datetime('now')),
+  ('B400', 'CALDES', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('B401', 'CAL DI CANALE', 'GO', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('B402', 'CALDIERO', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B403', 'CALDOGNO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B404', 'CALDONAZZO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('B405', 'CALENDASCO', 'PC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B406', 'CALENZANO', 'FI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B407', 'CALEPIO', 'BG', 'comune', '1861-03-17', '1927-08-05', datetime('now')),
+  ('B408', 'CALESTANO', 'PR', 'comune', '1891-11-13', NULL, datetime('now')),
+  ('B409', 'CALICE LIGURE', 'SV', 'comune', '1877-05-18', NULL, datetime('now')),
+  ('B410', 'CALICE AL CORNOVIGLIO', 'SP', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('B411', 'CALIGNANO', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('B412', 'CALIMERA', 'LE', 'comune', NULL, NULL, datetime('now')),
+  ('B413', 'CALIMERA', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B414', 'CALINO', 'BS', 'comune', '1861-03-17', '1927-11-02', datetime('now')),
+  ('B415', 'CALITRI', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B416', 'CALIZZANO', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B417', 'CALLABIANA', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B418', 'CALLIANO MONFERRATO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B419', 'CALLIANO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('B420', 'CALO''', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('B421', 'CALOGNA', 'NO', 'comune', '1861-03-17', '1928-04-16', datetime('now')),
+  ('B422', 'CALOLZIO', 'BG', 'comune', '1892-07-22', '1927-04-03', datetime('now')),
+  ('B423', 'CALOLZIOCORTE', 'LC', 'comune', '1927-04-02', NULL, datetime('now')),
+  ('B424', 'CALOPEZZATI', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B425', 'CALOSSO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B426', 'CALOVETO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B427', 'CALTABELLOTTA', 'AG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B428', 'CALTAGIRONE', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B429', 'CALTANISSETTA', 'CL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B430', 'CALTAVUTURO', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B431', 'CALTIGNAGA', 'NO', 'comune', '1866-07-02', NULL, datetime('now')),
+  ('B432', 'CALTO', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B433', 'CALTRANO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B434', 'CALUSCO D''ADDA', 'BG', 'comune', '1883-12-17', NULL, datetime('now')),
+  ('B435', 'CALUSO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B436', 'CALVAGESE DELLA RIVIERA', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B437', 'CALVANICO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B438', 'CALVARUSO', 'ME', 'comune', '1866-01-14', '1929-06-02', datetime('now')),
+  ('B439', 'CALVATONE', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B440', 'CALVELLO', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B441', 'CALVENE', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B442', 'CALVENZANO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B443', 'CALVERA', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B444', 'CALVI', 'BN', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('B445', 'CALVI RISORTA', 'NA', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('B446', 'CALVI DELL''UMBRIA', 'TR', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('B447', 'CALVIGNANO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B448', 'CALVIGNASCO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B449', 'SAN NAZZARO CALVI', 'BN', 'comune', NULL, NULL, datetime('now')),
+  ('B450', 'CALVISANO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B451', 'CALVISIO', 'GE', 'comune', NULL, NULL, datetime('now')),
+  ('B452', 'CALVIZZANO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B453', 'CAMAGNA MONFERRATO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B454', 'CAMAGNA DI TORINO', 'TO', 'comune', '1863-01-05', '1927-10-21', datetime('now')),
+  ('B455', 'CAMAIORE', 'LU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B456', 'CAMAIRAGO', 'LO', 'comune', '1861-03-17', '2018-01-01', datetime('now')),
+  ('B457', 'CAMANDONA', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B458', 'CAMARDA', 'AQ', 'comune', '1861-03-17', '1927-09-21', datetime('now')),
+  ('B459', 'CAMASCO', 'VC', 'comune', '1861-03-17', '1929-03-02', datetime('now')),
+  ('B460', 'CAMASTRA', 'AG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B461', 'CAMBIAGO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B462', 'CAMBIANO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B463', 'CAMBIASCA', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B464', 'CAMBIO''', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('B465', 'CAMBURZANO', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B466', 'SANT''ELENA SANNITA', 'IS', 'comune', '1896-11-22', NULL, datetime('now')),
+  ('B467', 'CAMERANA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B468', 'CAMERANO', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B469', 'CAMERANO CASASCO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B470', 'CAMERATA PICENA', 'AN', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('B471', 'CAMERATA CORNELLO', 'BG', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('B472', 'CAMERATA NUOVA', 'RM', 'comune', '1872-12-27', NULL, datetime('now')),
+  ('B473', 'CAMERI', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B474', 'CAMERINO', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B475', 'CAMERLATA', 'CO', 'comune', NULL, NULL, datetime('now')),
+  ('B476', 'CAMEROTA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B477', 'CAMIGLIANO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B478', 'CAMIGNONE', 'BS', 'comune', '1861-03-17', '1928-09-25', datetime('now')),
+  ('B479', 'CAMINATA', 'PC', 'comune', '1861-03-17', '2018-01-01', datetime('now')),
+  ('B480', 'CAMINATA IN TURES', 'BZ', 'comune', '1920-10-16', '1929-02-09', datetime('now')),
+  ('B481', 'CAMINI', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B482', 'CAMINO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B483', 'CAMINO AL TAGLIAMENTO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B484', 'CAMISANO', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B485', 'CAMISANO VICENTINO', 'VI', 'comune', '1867-09-02', NULL, datetime('now')),
+  ('B486', 'CAMMARATA', 'AG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B487', 'CAMNAGO VOLTA', 'CO', 'comune', '1863-05-06', '1943-08-13', datetime('now')),
+  ('B488', 'CAMNAGO FALOPPIA', 'CO', 'comune', '1893-02-17', '1928-05-12', datetime('now')),
+  ('B489', 'CAMO', 'CN', 'comune', '1861-03-17', '2019-01-01', datetime('now')),
+  ('B490', 'CAMOGLI', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B491', 'CHAMOIS', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B492', 'CAMPAGNA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B493', 'CAMPAGNA LUPIA', 'VE', 'comune', '1867-08-05', NULL, datetime('now')),
+  ('B494', 'CASTEL CAMPAGNANO', 'BN', 'comune', '1862-11-24', NULL, datetime('now')),
+  ('B495', 'CAMPAGNANO VEDASCA', 'VA', 'comune', '1863-02-23', '1928-01-08', datetime('now')),
+  ('B496', 'CAMPAGNANO DI ROMA', 'RM', 'comune', '1872-09-16', NULL, datetime('now')),
+  ('B497', 'CAMPAGNATICO', 'GR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B498', 'CAMPAGNOLA CREMASCA', 'CR', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('B499', 'CAMPAGNOLA EMILIA', 'RE', 'comune', '1862-10-20', NULL, datetime('now')),
+  ('B500', 'CAMPANA', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B501', 'CAMPARADA', 'MB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B502', 'CAMPEGINE', 'RE', 'comune', '1861-03-17', NULL, datetime('now'));
+
+INSERT INTO belfioreCodes (code, name, province, kind, validFrom, validTo, updatedAt) VALUES
+  ('B503', 'CAMPELLO MONTI', 'VC', 'comune', '1862-12-29', '1929-04-14', datetime('now')),
+  ('B504', 'CAMPELLO SUL CLITUNNO', 'PG', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('B505', 'CAMPERTOGNO', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B506', 'CAMPI SALENTINA', 'LE', 'comune', '1864-06-23', NULL, datetime('now')),
+  ('B507', 'CAMPI BISENZIO', 'FI', 'comune', '1864-06-23', NULL, datetime('now')),
+  ('B508', 'CAMPIGLIA CERVO', 'BI', 'comune', '1863-04-23', '2016-01-01', datetime('now')),
+  ('B509', 'CAMPIGLIA MARITTIMA', 'LI', 'comune', '1862-10-20', NULL, datetime('now')),
+  ('B510', 'VALPRATO SOANA', 'TO', 'comune', '1929-01-22', NULL, datetime('now')),
+  ('B511', 'CAMPIGLIA DEI BERICI', 'VI', 'comune', '1867-09-02', NULL, datetime('now')),
+  ('B512', 'CAMPIGLIONE FENILE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B513', 'CAMPIONE D''ITALIA', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B514', 'CAMPITELLO DI FASSA', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('B515', 'CAMPLI', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B516', 'CAMPO CALABRO', 'RC', 'comune', '1864-06-23', NULL, datetime('now')),
+  ('B517', 'CAMPO CANAVESE', 'AO', 'comune', '1863-01-05', '1929-05-04', datetime('now')),
+  ('B518', 'CAMPO', 'TN', 'comune', '1920-10-16', '1928-04-03', datetime('now')),
+  ('B519', 'CAMPOBASSO', 'CB', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('B520', 'CAMPOBELLO DI LICATA', 'AG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B521', 'CAMPOBELLO DI MAZARA', 'TP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B522', 'CAMPOCHIARO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B523', 'CAMPOCHIESA', 'SV', 'comune', '1861-03-17', '1929-05-28', datetime('now')),
+  ('B524', 'CAMPODARSEGO', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B525', 'CAMPODENNO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('B526', 'CAMPO DI GIOVE', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B527', 'CAMPODIMELE', 'LT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B528', 'CAMPODIPIETRA', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B529', 'CAMPO DI TRENS', 'BZ', 'comune', '1928-12-09', NULL, datetime('now')),
+  ('B530', 'CAMPODOLCINO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B531', 'CAMPODORO', 'PD', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('B532', 'CAMPOFELICE DI ROCCELLA', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B533', 'CAMPOFELICE DI FITALIA', 'PA', 'comune', '1951-03-04', NULL, datetime('now')),
+  ('B534', 'CAMPOFILONE', 'FM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B535', 'CAMPOFIORITO', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B536', 'CAMPOFORMIDO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B537', 'CAMPOFRANCO', 'CL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B538', 'CAMPO LIGURE', 'GE', 'comune', '1884-04-21', NULL, datetime('now')),
+  ('B539', 'CAMPOGALLIANO', 'MO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B540', 'CHAMPORCHER', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B541', 'CAMPOLATTARO', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B542', 'CAMPOLI DEL MONTE TABURNO', 'BN', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('B543', 'CAMPOLI APPENNINO', 'FR', 'comune', '1863-08-10', NULL, datetime('now')),
+  ('B544', 'CAMPOLIETO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B545', 'CAMPOLONGO', 'UD', 'comune', '1866-11-19', '2009-01-01', datetime('now')),
+  ('B546', 'CAMPOLONGO MAGGIORE', 'VE', 'comune', '1867-08-05', NULL, datetime('now')),
+  ('B547', 'CAMPOLONGO SUL BRENTA', 'VI', 'comune', '1878-07-09', '2019-01-30', datetime('now')),
+  ('B548', 'CAMPOLUNGO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('B549', 'CAMPOMAGGIORE', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B550', 'CAMPOMARINO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B551', 'CAMPOMORONE', 'GE', 'comune', '1871-03-30', NULL, datetime('now')),
+  ('B552', 'CAMPOMORTO', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('B553', 'CAMPO NELL''ELBA', 'LI', 'comune', '1894-08-03', NULL, datetime('now')),
+  ('B554', 'CAMPONOGARA', 'VE', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B555', 'CAMPORA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B556', 'CAMPOREALE', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B557', 'CAMPORGIANO', 'LU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B558', 'CAMPO RINALDO', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('B559', 'CAMPOROSSO', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B560', 'CAMPOROSSO IN VALCANALE', 'UD', 'comune', '1921-01-05', '1928-06-16', datetime('now')),
+  ('B561', 'CAMPOROTONDO ETNEO', 'CT', 'comune', '1863-05-06', NULL, datetime('now')),
+  ('B562', 'CAMPOROTONDO DI FIASTRONE', 'MC', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('B563', 'CAMPOSAMPIERO', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B564', 'CAMPO SAN MARTINO', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B565', 'CAMPOSANO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B566', 'CAMPOSANTO', 'MO', 'comune', '1867-01-01', NULL, datetime('now')),
+  ('B567', 'CAMPOSPINOSO ALBAREDO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B568', 'CAMPOSPINOSO ALBAREDO', 'PV', 'comune', '1928-11-10', '1948-01-21', datetime('now')),
+  ('B569', 'CAMPOTOSTO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B570', 'CAMPO TURES', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('B571', 'CAMPOVICO', 'SO', 'comune', '1861-03-17', '1938-07-09', datetime('now')),
+  ('B572', 'CAMUGNANO', 'BO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B573', 'CANALE', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B574', 'CANALE D''AGORDO', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B575', 'CANALE D''ISONZO', 'GO', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('B576', 'CANALE MONTERANO', 'RM', 'comune', '1873-01-28', NULL, datetime('now')),
+  ('B577', 'CANAL SAN BOVO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('B578', 'CANARO', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B579', 'CANAZEI', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('B580', 'CANCELLARA', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B581', 'CANCELLO ED ARNONE', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B582', 'CANDA', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B583', 'CANDEASCO', 'IM', 'comune', '1861-03-17', '1926-01-22', datetime('now')),
+  ('B584', 'CANDELA', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B585', 'CANDELARA', 'PS', 'comune', '1861-03-17', '1929-04-11', datetime('now')),
+  ('B586', 'CANDELO', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B587', 'CANDIA LOMELLINA', 'PV', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('B588', 'CANDIA CANAVESE', 'AO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('B589', 'CANDIANA', 'PD', 'comune', '1878-06-14', NULL, datetime('now')),
+  ('B590', 'CANDIDA', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B591', 'CANDIDONI', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B592', 'CANDIOLO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B593', 'CANEGRATE', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B594', 'CANELLI', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B595', 'ORVINIO', 'RI', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('B596', 'CANEPA', 'GE', 'comune', '1861-03-17', '1928-09-09', datetime('now')),
+  ('B597', 'CANEPINA', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('B598', 'CANEVA', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('B599', 'CANEVINO', 'PV', 'comune', '1861-03-17', '2019-01-01', datetime('now')),
+  ('B600', 'CANEZZA', 'TN', 'comune', '1920-10-16', '1929-01-25', datetime('now')),
+  ('B601', 'CANFANARO', 'PL', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('B602', 'CANICATTÌ', 'AG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B603', 'CANICATTINI BAGNI', 'SR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B604', 'CANINO', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('B605', 'CANISCHIO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B606', 'CANISTRO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B607', 'CANNA', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B608', 'CANNALONGA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B609', 'CANNARA', 'PG', 'comune', '1869-05-17', NULL, datetime('now')),
+  ('B610', 'CANNERO RIVIERA', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B611', 'CANNETO DI BARI', 'BA', 'comune', '1863-01-19', '1927-11-08', datetime('now')),
+  ('B612', 'CANNETO SULL''OGLIO', 'MN', 'comune', '1868-07-01', NULL, datetime('now')),
+  ('B613', 'CANNETO PAVESE', 'PV', 'comune', '1886-01-04', NULL, datetime('now')),
+  ('B614', 'CANNITELLO', 'RC', 'comune', '1861-03-17', '1927-08-03', datetime('now')),
+  ('B615', 'CANNOBIO', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B616', 'CANNOLE', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B617', 'CANOLO', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B618', 'CANONICA D''ADDA', 'BG', 'comune', '1889-04-26', NULL, datetime('now')),
+  ('B619', 'CANOSA DI PUGLIA', 'BT', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('B620', 'CANOSA SANNITA', 'CH', 'comune', '1864-11-07', NULL, datetime('now')),
+  ('B621', 'CANOSIO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B622', 'CANOVA DEL MORBASCO', 'CR', 'comune', '1861-03-17', '1867-12-31', datetime('now')),
+  ('B623', 'CANOVA OLZANO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('B624', 'CANSANO', 'AQ', 'comune', '1904-06-06', NULL, datetime('now')),
+  ('B625', 'CANSERO', 'CR', 'comune', '1861-03-17', '1867-12-31', datetime('now')),
+  ('B626', 'CANTAGALLO', 'PO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B627', 'CANTALICE', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B628', 'CANTALUPA', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B629', 'CANTALUPO LIGURE', 'AL', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('B630', 'CANTALUPO NEL SANNIO', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('B631', 'CANTALUPO IN SABINA', 'RI', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('B632', 'MANDELA', 'RM', 'comune', '1872-12-27', NULL, datetime('now')),
+  ('B633', 'CANTARANA', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B634', 'CANTELLO', 'VA', 'comune', '1895-08-02', NULL, datetime('now')),
+  ('B635', 'CANTERANO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('B636', 'CANTIANO', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B637', 'CANTOIRA', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B638', 'CANTONALE', 'PV', 'comune', '1861-03-17', '1936-06-05', datetime('now')),
+  ('B639', 'CANTÙ', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B640', 'CANZANO', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B641', 'CANZO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B642', 'CAORLE', 'VE', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B643', 'CAORSO', 'PC', 'comune', '1876-12-28', NULL, datetime('now')),
+  ('B644', 'CAPACCIO PAESTUM', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B645', 'CAPACI', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B646', 'CAPALBIO', 'GR', 'comune', '1960-09-29', NULL, datetime('now')),
+  ('B647', 'CAPANNOLI', 'PI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B648', 'CAPANNORI', 'LU', 'comune', '1884-07-07', NULL, datetime('now')),
+  ('B649', 'CAPENA', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('B650', 'CAPERGNANICA', 'CR', 'comune', '1869-05-17', NULL, datetime('now')),
+  ('B651', 'CAPESTRANO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B652', 'CAPIAGO', 'CO', 'comune', '1861-03-17', '1928-12-16', datetime('now')),
+  ('B653', 'CAPIAGO INTIMIANO', 'CO', 'comune', '1928-12-15', NULL, datetime('now')),
+  ('B654', 'CAPIATE', 'CO', 'comune', '1861-03-17', '1928-08-16', datetime('now')),
+  ('B655', 'CAPISTRANO', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B656', 'CAPISTRELLO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B657', 'CAPITELLO', 'SA', 'comune', '1928-04-01', '1946-03-01', datetime('now')),
+  ('B658', 'CAPITIGNANO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B659', 'CAPITONE', 'PG', 'comune', NULL, NULL, datetime('now')),
+  ('B660', 'CAPIZZI', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B661', 'CAPIZZONE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B662', 'PONTE NELLE ALPI', 'BL', 'comune', '1867-07-22', NULL, datetime('now')),
+  ('B663', 'CAPODIMONTE', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('B664', 'CAPO DI PONTE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B665', 'CAPODISTRIA', 'PL', 'comune', '1921-01-05', '1977-04-04', datetime('now')),
+  ('B666', 'CAPO D''ORLANDO', 'ME', 'comune', '1925-07-10', NULL, datetime('now')),
+  ('B667', 'CAPODRISE', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B668', 'CAPOLAGO', 'VA', 'comune', '1861-03-17', '1927-12-29', datetime('now')),
+  ('B669', 'CAPOLIVERI', 'LI', 'comune', '1906-04-18', NULL, datetime('now')),
+  ('B670', 'CAPOLONA', 'AR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B671', 'CAPONAGO', 'MB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B672', 'CAPORCIANO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B673', 'CAPORETTO', 'GO', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('B674', 'CAPOSELE', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B675', 'CAPOTERRA', 'CA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B676', 'CAPOVALLE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B677', 'CAPPADOCIA', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B678', 'CAPPELLA MAGGIORE', 'TV', 'comune', '1867-11-25', NULL, datetime('now')),
+  ('B679', 'CAPPELLA CANTONE', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B680', 'CAPPELLA DE'' PICENARDI', 'CR', 'comune', '1868-01-01', NULL, datetime('now')),
+  ('B681', 'CAPPELLE SUL TAVO', 'PE', 'comune', '1904-07-26', NULL, datetime('now')),
+  ('B682', 'CAPRACOTTA', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('B683', 'CAPRADOSSO', 'AP', 'comune', NULL, NULL, datetime('now')),
+  ('B684', 'CAPRAIA E LIMITE', 'FI', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('B685', 'CAPRAIA ISOLA', 'LI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B686', 'CAPRALBA', 'CR', 'comune', '1868-08-14', NULL, datetime('now')),
+  ('B687', 'CAPRANICA PRENESTINA', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('B688', 'CAPRANICA', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('B689', 'MARZABOTTO', 'BO', 'comune', '1882-07-17', NULL, datetime('now')),
+  ('B690', 'CAPRARICA DI LECCE', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B691', 'CAPRAROLA', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('B692', 'CAPRAUNA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B693', 'CAPRESE MICHELANGELO', 'AR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B694', 'CAPREZZO', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B695', 'CAPRI LEONE', 'ME', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('B696', 'CAPRI', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B697', 'CAPRIANA', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('B698', 'CAPRIANO DEL COLLE', 'BS', 'comune', '1862-10-20', NULL, datetime('now')),
+  ('B699', 'CAPRIANO DI BRIANZA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('B700', 'CAPRIANO-AZZANO', 'BS', 'comune', NULL, NULL, datetime('now')),
+  ('B701', 'CAPRIATA D''ORBA', 'AL', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('B702', 'CAPRIATE D''ADDA', 'BG', 'comune', '1889-04-26', '1928-02-23', datetime('now')),
+  ('B703', 'CAPRIATE SAN GERVASIO', 'BG', 'comune', '1928-02-23', NULL, datetime('now')),
+  ('B704', 'CAPRIATI A VOLTURNO', 'CB', 'comune', '1862-10-27', NULL, datetime('now')),
+  ('B705', 'CAPRIE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B706', 'CAPRIGLIA IRPINA', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B707', 'CAPRIGLIO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B708', 'CAPRILE', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B709', 'CAPRINO VERONESE', 'VR', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('B710', 'CAPRINO BERGAMASCO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B711', 'CAPRIOLO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B712', 'CAPRIVA DEL FRIULI', 'GO', 'comune', '1921-01-05', NULL, datetime('now')),
+  ('B713', 'CAPRIVA NEL CARSO', 'TS', 'comune', '1921-01-05', '1927-08-20', datetime('now')),
+  ('B714', 'CAPRONNO', 'VA', 'comune', '1861-03-17', '1928-05-31', datetime('now')),
+  ('B715', 'CAPUA', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B716', 'CAPURSO', 'BA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B717', 'CARAFFA DI CATANZARO', 'CZ', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('B718', 'CARAFFA DEL BIANCO', 'RC', 'comune', '1864-06-23', NULL, datetime('now')),
+  ('B719', 'CARAGLIO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B720', 'CARAMAGNA PIEMONTE', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('B721', 'CARAMAGNA LIGURE', 'IM', 'comune', '1862-11-10', '1923-11-29', datetime('now')),
+  ('B722', 'CARAMANICO TERME', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B723', 'CARANO', 'TN', 'comune', '1920-10-16', '2020-01-01', datetime('now')),
+  ('B724', 'CARAPELLE', 'FG', 'comune', '1958-01-14', NULL, datetime('now')),
+  ('B725', 'CARAPELLE CALVISIO', 'AQ', 'comune', '1874-06-08', NULL, datetime('now')),
+  ('B726', 'CARASCO', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B727', 'CARASSAI', 'AP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B728', 'CARATE LARIO', 'CO', 'comune', '1862-12-29', '1927-12-24', datetime('now')),
+  ('B729', 'CARATE BRIANZA', 'MB', 'comune', '1869-02-24', NULL, datetime('now')),
+  ('B730', 'CARATE URIO', 'CO', 'comune', '1927-12-24', NULL, datetime('now')),
+  ('B731', 'CARAVAGGIO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B732', 'CARAVATE', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B733', 'MASINO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B734', 'CARAVONICA', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B735', 'CARBOGNANO', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('B736', 'CARBONARA SCRIVIA', 'AL', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('B737', 'CARBONARA DI BARI', 'BA', 'comune', '1863-01-19', '1928-03-25', datetime('now')),
+  ('B738', 'VILLASIMIUS', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B739', 'CARBONARA DI PO', 'MN', 'comune', '1867-06-24', '2019-01-01', datetime('now')),
+  ('B740', 'CARBONARA DI NOLA', 'NA', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('B741', 'CARBONARA AL TICINO', 'PV', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('B742', 'CARBONATE', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B743', 'CARBONE', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B744', 'CARBONERA', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B745', 'CARBONIA', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B746', 'CARCACI', 'CT', 'comune', NULL, NULL, datetime('now')),
+  ('B747', 'CARCANO', 'CO', 'comune', '1861-03-17', '1928-07-29', datetime('now')),
+  ('B748', 'CARCARE', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B749', 'CARCERI', 'PD', 'comune', '1866-11-19', '2024-01-22', datetime('now')),
+  ('B750', 'CARCIATO', 'TN', 'comune', '1920-10-16', '1928-09-06', datetime('now')),
+  ('B751', 'CARCINA', 'BS', 'comune', '1861-03-17', '1928-02-05', datetime('now')),
+  ('B752', 'CARCOFORO', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B753', 'CARDANA', 'VA', 'comune', '1861-03-17', '1928-01-22', datetime('now')),
+  ('B754', 'CARDANO AL CAMPO', 'VA', 'comune', '1864-04-01', NULL, datetime('now')),
+  ('B755', 'CARDÈ', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B756', 'CARDETO', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B757', 'CARDEZZA', 'NO', 'comune', '1861-03-17', '1928-10-17', datetime('now')),
+  ('B758', 'CARDINALE', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B759', 'CARDITO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B760', 'CAREGGINE', 'LU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B761', 'CARELLA CON MARIAGA', 'CO', 'comune', '1861-03-17', '1927-07-15', datetime('now')),
+  ('B762', 'CAREMA', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B763', 'CARENNO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B764', 'CARENO', 'CO', 'comune', '1861-03-17', '1928-07-18', datetime('now')),
+  ('B765', 'CARENTINO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B766', 'CARERI', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B767', 'CARESANA', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B768', 'CARESANABLOT', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B769', 'CAREZZANO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B770', 'CAREZZANO SUPERIORE', 'AL', 'comune', '1861-03-17', '1928-03-07', datetime('now')),
+  ('B771', 'CARFIZZI', 'KR', 'comune', '1904-06-06', NULL, datetime('now')),
+  ('B772', 'CARGEGHE', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B773', 'CARGIAGO', 'NO', 'comune', '1861-03-17', '1928-10-17', datetime('now')),
+  ('B774', 'CARIATI', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B775', 'CARIDÀ', 'RC', 'comune', '1861-03-17', '1928-05-04', datetime('now')),
+  ('B776', 'CARIFE', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B777', 'CARIGNANO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B778', 'CARIMATE', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B779', 'CARINARO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B780', 'CARINI', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B781', 'CARINOLA', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B782', 'CARISIO', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B783', 'CARISOLO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('B784', 'CARLANTINO', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B785', 'CARLAZZO', 'CO', 'comune', '1928-05-12', NULL, datetime('now')),
+  ('B786', 'CARLAZZO VALSOLDA', 'CO', 'comune', '1861-03-17', '1928-05-12', datetime('now')),
+  ('B787', 'CARLENTINI', 'SR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B788', 'CARLINO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B789', 'CARLOFORTE', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B790', 'CARLOPOLI', 'CZ', 'comune', '1871-01-01', NULL, datetime('now')),
+  ('B791', 'CARMAGNOLA', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B792', 'CARMIANO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B793', 'CAMIGNA', 'GO', 'comune', '1921-01-05', '1928-01-22', datetime('now')),
+  ('B794', 'CARMIGNANO', 'PO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B795', 'CARMIGNANO DI BRENTA', 'PD', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('B796', 'CARNAGO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B797', 'CARNAIOLA', 'PG', 'comune', NULL, NULL, datetime('now')),
+  ('B798', 'CARNATE', 'MB', 'comune', '1909-07-04', NULL, datetime('now')),
+  ('B799', 'CORNEDO ALL''ISARCO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('B800', 'CAROBBIO', 'BG', 'comune', '1861-03-17', '1928-02-21', datetime('now')),
+  ('B801', 'CAROBBIO DEGLI ANGELI', 'BG', 'comune', '1928-02-21', NULL, datetime('now')),
+  ('B802', 'CAROLEI', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B803', 'CARONA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B804', 'CARONIA', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B805', 'CARONNO PERTUSELLA', 'VA', 'comune', '1869-03-11', NULL, datetime('now')),
+  ('B806', 'CARONNO CORBELLARO', 'VA', 'comune', '1861-03-17', '1928-01-12', datetime('now')),
+  ('B807', 'CARONNO VARESINO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B808', 'CAROSINO', 'TA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B809', 'CAROVIGNO', 'BR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B810', 'CAROVILLI', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('B811', 'CARPANETA CON DOSIMO', 'CR', 'comune', '1868-01-01', '1928-12-15', datetime('now')),
+  ('B812', 'CARPANETO PIACENTINO', 'PC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B813', 'CARPANZANO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B814', 'CARPASIO', 'IM', 'comune', '1861-03-17', '2018-01-01', datetime('now')),
+  ('B815', 'CARPE', 'GE', 'comune', NULL, NULL, datetime('now')),
+  ('B816', 'CARPEGNA', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B817', 'CARPENEDOLO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B818', 'CARPENETO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B819', 'CARPI', 'MO', 'comune', '1868-03-25', NULL, datetime('now')),
+  ('B820', 'CARPIANO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B821', 'CARPIGNAGO', 'PV', 'comune', '1872-11-01', '1929-02-08', datetime('now')),
+  ('B822', 'CARPIGNANO SALENTINO', 'LE', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('B823', 'CARPIGNANO SESIA', 'NO', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('B824', 'CURA CARPIGNANO', 'PV', 'comune', '1872-11-01', NULL, datetime('now')),
+  ('B825', 'CARPINETI', 'RE', 'comune', '1884-06-20', NULL, datetime('now')),
+  ('B826', 'CARPINETO SINELLO', 'CH', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('B827', 'CARPINETO DELLA NORA', 'PE', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('B828', 'CARPINETO ROMANO', 'RM', 'comune', '1873-01-14', NULL, datetime('now')),
+  ('B829', 'CARPINO', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B830', 'CARPINONE', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('B831', 'CARPUGNINO', 'NO', 'comune', '1861-03-17', '1928-09-26', datetime('now')),
+  ('B832', 'CARRARA', 'MS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B833', 'CARRARA SAN GIORGIO', 'PD', 'comune', '1866-11-19', '1995-04-08', datetime('now')),
+  ('B834', 'CARRARA SANTO STEFANO', 'PD', 'comune', '1866-11-19', '1995-04-08', datetime('now')),
+  ('B835', 'CARRÈ', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B836', 'CARREGA LIGURE', 'AL', 'comune', '1895-01-21', NULL, datetime('now')),
+  ('B837', 'CARRETTO', 'GE', 'comune', NULL, NULL, datetime('now')),
+  ('B838', 'CARRO', 'SP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B839', 'CARRODANO', 'SP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B840', 'CARROSIO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B841', 'CARRÙ', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B842', 'CARSOLI', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B843', 'CARTARI E CALDERARA', 'IM', 'comune', '1861-03-17', '1929-03-17', datetime('now')),
+  ('B844', 'CARTIGLIANO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B845', 'CARTIGNANO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B846', 'CARTOCETO', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B847', 'CARTOSIO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B848', 'CARTURA', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B849', 'CARUBERTO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('B850', 'CARUGATE', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B851', 'CARUGO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B852', 'CARUGO AROSIO', 'CO', 'comune', '1929-05-16', '1950-04-06', datetime('now')),
+  ('B853', 'CARUNCHIO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B854', 'CARVICO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B855', 'CARZAGO DELLA RIVIERA', 'BS', 'comune', '1861-03-17', '1928-02-16', datetime('now')),
+  ('B856', 'CARZANO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('B857', 'CASABONA', 'KR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B858', 'CASACALENDA', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B859', 'CASACANDITELLA', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B860', 'CASAGIOVE', 'NA', 'comune', '1872-03-03', NULL, datetime('now')),
+  ('B861', 'CASALANGUIDA', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B862', 'CASALATTICO', 'FR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B863', 'CASALBA', 'CE', 'comune', '1928-12-14', '1946-04-27', datetime('now')),
+  ('B864', 'CASALBELTRAME', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B865', 'CASALBORDINO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B866', 'CASALBORE', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B867', 'CASALBORGONE', 'TO', 'comune', '1895-12-09', NULL, datetime('now')),
+  ('B868', 'CASALBUONO', 'SA', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('B869', 'CASALBUTTANO ED UNITI', 'CR', 'comune', '1867-09-06', NULL, datetime('now')),
+  ('B870', 'CASAL CERMELLI', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B871', 'CASALCIPRANO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B872', 'CASAL DI PRINCIPE', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B873', 'CASALDUNI', 'BN', 'comune', '1892-03-28', NULL, datetime('now')),
+  ('B874', 'CASALE CREMASCO', 'CR', 'comune', '1862-12-19', '1934-03-07', datetime('now')),
+  ('B875', 'CASALE LITTA', 'VA', 'comune', '1869-03-11', NULL, datetime('now')),
+  ('B876', 'CASALE CORTE CERRO', 'VB', 'comune', '1869-01-02', NULL, datetime('now')),
+  ('B877', 'CASALE DI SCODOSIA', 'PD', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('B878', 'CASALE MARITTIMO', 'PI', 'comune', '1899-07-26', NULL, datetime('now')),
+  ('B879', 'CASALE SUL SILE', 'TV', 'comune', '1868-02-14', NULL, datetime('now')),
+  ('B880', 'CASALECCHIO DI RENO', 'BO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B881', 'CASALE CREMASCO-VIDOLASCO', 'CR', 'comune', '1934-03-07', NULL, datetime('now')),
+  ('B882', 'CASALEGGIO BOIRO', 'AL', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('B883', 'CASALEGGIO NOVARA', 'NO', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('B884', 'CASALEGGIO CASTELLAZZO', 'NO', 'comune', '1928-05-23', '1948-01-16', datetime('now')),
+  ('B885', 'CASALE MONFERRATO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B886', 'CASALEONE', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B887', 'CASALETTO LODIGIANO', 'LO', 'comune', '1870-08-02', NULL, datetime('now')),
+  ('B888', 'CASALETTO SPARTANO', 'SA', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('B889', 'CASALETTO CEREDANO', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B890', 'CASALETTO DI SOPRA', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B891', 'CASALETTO VAPRIO', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B892', 'CASALFIUMANESE', 'BO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B893', 'CASALGRANDE', 'RE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B894', 'CASALGRASSO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B895', 'CASAL VELINO', 'SA', 'comune', '1893-06-02', NULL, datetime('now')),
+  ('B896', 'CASALINCONTRADA', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B897', 'CASALINO', 'NO', 'comune', '1869-04-26', NULL, datetime('now')),
+  ('B898', 'CASALMAGGIORE', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B899', 'CASALMAIOCCO', 'LO', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('B900', 'CASALMORANO', 'CR', 'comune', '1867-09-07', NULL, datetime('now')),
+  ('B901', 'CASALMORO', 'MN', 'comune', '1868-07-01', NULL, datetime('now')),
+  ('B902', 'CASALNOCETO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B903', 'VILLAPIANA', 'CS', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('B904', 'CASALNUOVO MONTEROTARO', 'FG', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('B905', 'CASALNUOVO DI NAPOLI', 'NA', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('B906', 'SAN PAOLO ALBANESE', 'PZ', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('B907', 'CASALOLDO', 'MN', 'comune', '1868-07-01', NULL, datetime('now')),
+  ('B908', 'CASALORZO GEROLDI', 'CR', 'comune', '1861-03-17', '1868-06-13', datetime('now')),
+  ('B909', 'CASALPOGLIO', 'MN', 'comune', '1861-03-17', '1873-10-17', datetime('now')),
+  ('B910', 'CASALPUSTERLENGO', 'LO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B911', 'CASALROMANO', 'MN', 'comune', '1868-07-01', NULL, datetime('now')),
+  ('B912', 'CASALSERUGO', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B913', 'CASALSIGONE', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('B914', 'POZZAGLIO ED UNITI', 'CR', 'comune', '1888-03-12', NULL, datetime('now')),
+  ('B915', 'TRINITAPOLI', 'BT', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('B916', 'CASALUCE', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B917', 'CASALVECCHIO DI PUGLIA', 'FG', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('B918', 'CASALVECCHIO SICULO', 'ME', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('B919', 'CASALVIERI', 'FR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B920', 'CASALVOLONE', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B921', 'CASALZUIGNO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B922', 'CASAMARCIANO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B923', 'CASAMASSIMA', 'BA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B924', 'CASAMICCIOLA TERME', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B925', 'CASANDRINO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B926', 'CASANOVA LANZA', 'CO', 'comune', '1864-03-11', '1928-05-04', datetime('now')),
+  ('B927', 'CASANOVA LERRONE', 'SV', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('B928', 'CASANOVA ELVO', 'VC', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('B929', 'CASANOVA LONATI', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B930', 'CA'' SANTO SPIRITO DELLA BAINSIZZA', 'GO', 'comune', NULL, NULL, datetime('now')),
+  ('B931', 'CASANUOVA OFFREDI', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('B932', 'CASAPE', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('B933', 'CASAPINTA', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B934', 'CASAPROTA', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B935', 'CASAPULLA', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B936', 'CASARANO', 'LE', 'comune', '1885-01-15', NULL, datetime('now')),
+  ('B937', 'CASARGO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B938', 'CASARILE', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B939', 'CASARZA LIGURE', 'GE', 'comune', '1878-06-10', NULL, datetime('now')),
+  ('B940', 'CASARSA DELLA DELIZIA', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('B941', 'CASASCO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B942', 'CASASCO D''INTELVI', 'CO', 'comune', '1863-02-23', '2018-01-01', datetime('now')),
+  ('B943', 'CASATENOVO', 'LC', 'comune', '1874-11-17', NULL, datetime('now')),
+  ('B944', 'CASATICO', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('B945', 'CASATISMA', 'PV', 'comune', '1877-03-09', NULL, datetime('now')),
+  ('B946', 'CASAVATORE', 'NA', 'comune', '1946-07-30', NULL, datetime('now')),
+  ('B947', 'CASAZZA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B948', 'CASCIA', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B949', 'CASCIAGO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B950', 'CASCINA', 'PI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B951', 'CASCINE DI STRA', 'VC', 'comune', NULL, NULL, datetime('now')),
+  ('B952', 'SAN GIACOMO VERCELLESE', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B953', 'CASCINETTE D''IVREA', 'AO', 'comune', '1925-07-10', NULL, datetime('now')),
+  ('B954', 'CASEI GEROLA', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B955', 'CASELETTE', 'TO', 'comune', '1871-08-01', NULL, datetime('now')),
+  ('B956', 'CASELLA', 'GE', 'comune', '1893-08-30', NULL, datetime('now')),
+  ('B957', 'CASELLE D''OZERO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('B958', 'CASELLE LURANI', 'LO', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('B959', 'CASELLE IN PITTARI', 'SA', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('B960', 'CASELLE TORINESE', 'TO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('B961', 'CASELLE LANDI', 'LO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B962', 'SCANDICCI', 'FI', 'comune', '1865-08-13', NULL, datetime('now')),
+  ('B963', 'CASERTA', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B964', 'CASEZ', 'TN', 'comune', '1920-10-16', '1968-08-28', datetime('now')),
+  ('B965', 'CASIER', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('B966', 'CASIGNANA', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B967', 'CASINA', 'RE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B968', 'CASTELSILANO', 'KR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B969', 'CASTEL DI CASIO', 'BO', 'comune', '1896-07-03', NULL, datetime('now')),
+  ('B970', 'CASIRAGO', 'CO', 'comune', '1861-03-17', '1880-03-15', datetime('now')),
+  ('B971', 'CASIRATE D''ADDA', 'BG', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('B972', 'CASIRATE OLONA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('B973', 'CASLETTO', 'CO', 'comune', '1861-03-17', '1928-05-05', datetime('now')),
+  ('B974', 'CASLINO D''ERBA', 'CO', 'comune', '1882-08-02', NULL, datetime('now')),
+  ('B975', 'CASLINO AL PIANO', 'CO', 'comune', '1863-02-23', '1928-06-14', datetime('now')),
+  ('B976', 'CASNATE', 'CO', 'comune', '1861-03-17', '1937-10-10', datetime('now')),
+  ('B977', 'CASNATE CON BERNATE', 'CO', 'comune', '1937-10-10', NULL, datetime('now')),
+  ('B978', 'CASNIGO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B979', 'CASOLA IN LUNIGIANA', 'MS', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('B980', 'CASOLA DI NAPOLI', 'NA', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('B981', 'CASOLATE', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('B982', 'CASOLA VALSENIO', 'RA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B983', 'CASOLE BRUZIO', 'CS', 'comune', '1864-11-07', '2017-05-05', datetime('now')),
+  ('B984', 'CASOLE D''ELSA', 'SI', 'comune', '1862-10-06', NULL, datetime('now')),
+  ('B985', 'CASOLI', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B986', 'MENEDRAGO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('B987', 'CASORATE SEMPIONE', 'VA', 'comune', '1902-01-17', NULL, datetime('now')),
+  ('B988', 'CASORATE PRIMO', 'PV', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('B989', 'CASOREZZO', 'MI', 'comune', '1869-03-11', NULL, datetime('now')),
+  ('B990', 'CASORIA', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B991', 'CASORZO MONFERRATO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B992', 'CASOTTO', 'VI', 'comune', '1920-10-16', '1940-09-13', datetime('now')),
+  ('B993', 'CASPOGGIO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('B994', 'CASSACCO', 'UD', 'comune', '1871-01-01', NULL, datetime('now')),
+  ('B995', 'CASSAGO', 'CO', 'comune', '1861-03-17', '1927-06-08', datetime('now')),
+  ('B996', 'CASSAGO BRIANZA', 'LC', 'comune', '1927-06-07', NULL, datetime('now')),
+  ('B997', 'CASSANO IRPINO', 'AV', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('B998', 'CASSANO DELLE MURGE', 'BA', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('B999', 'CASSANO VALCUVIA', 'VA', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('C001', 'CASSANO ALBESE', 'CO', 'comune', '1862-12-29', '1928-09-23', datetime('now')),
+  ('C002', 'CASSANO ALL''IONIO', 'CS', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('C003', 'CASSANO D''ADDA', 'MI', 'comune', '1869-03-11', NULL, datetime('now'));
+
+INSERT INTO belfioreCodes (code, name, province, kind, validFrom, validTo, updatedAt) VALUES
+  ('C004', 'CASSANO MAGNAGO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C005', 'CASSANO SPINOLA', 'AL', 'comune', '1861-03-17', '2018-01-01', datetime('now')),
+  ('C006', 'CASSARO', 'SR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C007', 'CASSIGLIO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C008', 'CASSINA ALIPRANDI', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C009', 'CASSINA AMATA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C010', 'CASSINA BARAGGIA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C011', 'CASSINA DE'' BRACCHI', 'CO', 'comune', NULL, NULL, datetime('now')),
+  ('C012', 'CASSINA DE'' GATTI', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C013', 'PERO', 'MI', 'comune', '1895-01-07', NULL, datetime('now')),
+  ('C014', 'CASSINA DE'' PECCHI', 'MI', 'comune', '1870-08-02', NULL, datetime('now')),
+  ('C015', 'CASSINA FERRARA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C016', 'CASSINA MARIAGA', 'CO', 'comune', '1861-03-17', '1928-01-26', datetime('now')),
+  ('C017', 'CASSINA NUOVA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C018', 'CASSINA PERTUSELLA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C019', 'CASSINA POBBIA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C020', 'CASSINA RIZZARDI', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C021', 'CASSINA SAVINA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C022', 'CASSINASCO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C023', 'CASSINA TRIULZA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C024', 'CASSINA VALSASSINA', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C025', 'CASSINA VERGHERA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C026', 'CASCINE', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('C027', 'CASSINE', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C028', 'CASSINE CALDERARI', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('C029', 'CASSINE GANDINE', 'CR', 'comune', '1861-03-17', '1929-05-04', datetime('now')),
+  ('C030', 'CASSINELLE', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C031', 'CASSINE SIRIGARI', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('C032', 'CASSINE TOLENTINE', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('C033', 'CASSINETTA DI LUGAGNANO', 'MI', 'comune', '1862-12-01', NULL, datetime('now')),
+  ('C034', 'CASSINO', 'FR', 'comune', '1863-08-10', NULL, datetime('now')),
+  ('C035', 'CASSINO PO', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('C036', 'CASSINO D''ALBERI', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C037', 'CASSOLA', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C038', 'CASSOLNOVO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C039', 'CASTAGNA', 'CZ', 'comune', NULL, NULL, datetime('now')),
+  ('C040', 'CASTEL CASTAGNA', 'TE', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('C041', 'CASTAGNARO', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C042', 'CASTAGNATE OLONA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C043', 'CASTAGNÈ', 'TN', 'comune', '1920-10-16', '1929-01-25', datetime('now')),
+  ('C044', 'CASTAGNETO CARDUCCI', 'LI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C045', 'CASTAGNETO PO', 'TO', 'comune', '1895-12-09', NULL, datetime('now')),
+  ('C046', 'CASTAGNITO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C047', 'CASTAGNOLE MONFERRATO', 'AT', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('C048', 'CASTAGNOLE PIEMONTE', 'TO', 'comune', '1864-04-01', NULL, datetime('now')),
+  ('C049', 'CASTAGNOLE DELLE LANZE', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C050', 'CASTANA', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C051', 'CASTELL''UMBERTO', 'ME', 'comune', '1865-06-23', NULL, datetime('now')),
+  ('C052', 'CASTANO PRIMO', 'MI', 'comune', '1864-03-11', NULL, datetime('now')),
+  ('C053', 'CASTEGGIO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C054', 'CASTEGNATE OLONA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C055', 'CASTEGNATO', 'BS', 'comune', '1879-01-24', NULL, datetime('now')),
+  ('C056', 'CASTEGNERO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C057', 'CASTELBALDO', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C058', 'CASTEL BARONIA', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C059', 'CASTELBELFORTE', 'MN', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C060', 'CASTELBELLINO', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C061', 'CASTELBELLO', 'BZ', 'comune', '1920-10-16', '1929-02-15', datetime('now')),
+  ('C062', 'CASTELBELLO-CIARDES', 'BZ', 'comune', '1929-02-14', NULL, datetime('now')),
+  ('C063', 'CASTELBIANCO', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C064', 'CASTEL BOGLIONE', 'AT', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('C065', 'CASTEL BOLOGNESE', 'RA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C066', 'CASTELBOTTACCIO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C067', 'CASTELBUONO', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C068', 'CASTEL CELLESI', 'VT', 'comune', '1871-01-15', '1927-12-31', datetime('now')),
+  ('C069', 'CASTELCIVITA', 'SA', 'comune', '1864-02-02', NULL, datetime('now')),
+  ('C070', 'SERVIGLIANO', 'FM', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('C071', 'CASTEL COLONNA', 'AN', 'comune', '1861-03-17', '2014-01-01', datetime('now')),
+  ('C072', 'CASTELCOVATI', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C073', 'CASTELCUCCO', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C074', 'CASTELDACCIA', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C075', 'CASTEL D''AIANO', 'BO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C076', 'CASTEL D''ARIO', 'MN', 'comune', '1867-06-24', NULL, datetime('now')),
+  ('C077', 'CASTELDARNE', 'BZ', 'comune', '1920-10-16', '1929-03-25', datetime('now')),
+  ('C078', 'CASTEL D''AZZANO', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C079', 'CASTELLI CALEPIO', 'BG', 'comune', '1927-08-05', NULL, datetime('now')),
+  ('C080', 'CASTELDELCI', 'RN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C081', 'CASTELDELFINO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C082', 'CASTEL DEL GIUDICE', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('C083', 'CASTEL DEL MONTE', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C084', 'CASTEL DEL MONTE UDINESE', 'UD', 'comune', '1866-11-19', '1878-11-22', datetime('now')),
+  ('C085', 'CASTEL DEL PIANO', 'GR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C086', 'CASTEL DEL RIO', 'BO', 'comune', '1884-06-18', NULL, datetime('now')),
+  ('C087', 'CASTEL DE'' RATTI', 'AL', 'comune', '1861-03-17', '1928-06-28', datetime('now')),
+  ('C088', 'CASTEL DI CROCE', 'AP', 'comune', NULL, NULL, datetime('now')),
+  ('C089', 'CASTELDIDONE', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C090', 'CASTEL DI IERI', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C091', 'CASTEL DI IUDICA', 'CT', 'comune', '1934-03-07', NULL, datetime('now')),
+  ('C092', 'CASTEL DI LAGO', 'PG', 'comune', NULL, NULL, datetime('now')),
+  ('C093', 'CASTEL DI LAMA', 'AP', 'comune', '1862-11-24', NULL, datetime('now')),
+  ('C094', 'CASTEL DI LUCIO', 'ME', 'comune', '1863-05-06', NULL, datetime('now')),
+  ('C095', 'CASTELDIMEZZO', 'PU', 'comune', NULL, NULL, datetime('now')),
+  ('C096', 'CASTEL DI SANGRO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C097', 'CASTEL DI SASSO', 'NA', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('C098', 'CASTEL DI TORA', 'RI', 'comune', '1864-03-11', NULL, datetime('now')),
+  ('C099', 'CASTEL DOBRA', 'GO', 'comune', '1928-05-12', '1947-09-16', datetime('now')),
+  ('C100', 'CASTELFIDARDO', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C101', 'CASTELFIORENTINO', 'FI', 'comune', '1876-03-20', NULL, datetime('now')),
+  ('C102', 'CASTEL FOCOGNANO', 'AR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C103', 'CASTELFONDO', 'TN', 'comune', '1920-10-16', '2020-01-01', datetime('now')),
+  ('C104', 'CASTELFORTE', 'LT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C105', 'CASTELFRANCI', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C106', 'CASTELFRANCO IN MISCANO', 'BN', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('C107', 'CASTELFRANCO EMILIA', 'MO', 'comune', '1862-10-31', NULL, datetime('now')),
+  ('C108', 'CASTROLIBERO', 'CS', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('C109', 'CASTELFRANCO D''OGLIO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('C110', 'CASTEL VITTORIO', 'IM', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('C111', 'CASTELFRANCO VENETO', 'TV', 'comune', '1867-11-25', NULL, datetime('now')),
+  ('C112', 'CASTELFRANCO DI SOPRA', 'AR', 'comune', '1861-03-17', '2014-01-01', datetime('now')),
+  ('C113', 'CASTELFRANCO DI SOTTO', 'PI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C114', 'CASTEL FRENTANO', 'CH', 'comune', '1864-02-10', NULL, datetime('now')),
+  ('C115', 'CASTEL GABBIANO', 'CR', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('C116', 'CASTEL GANDOLFO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('C117', 'CASTEL GIORGIO', 'TR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C118', 'CASTEL GOFFREDO', 'MN', 'comune', '1873-10-18', NULL, datetime('now')),
+  ('C119', 'CASTELGOMBERTO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C120', 'CASTELGRANDE', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C121', 'CASTEL GUELFO DI BOLOGNA', 'BO', 'comune', '1876-11-10', NULL, datetime('now')),
+  ('C122', 'CASTELGUGLIELMO', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C123', 'CASTELGUIDONE', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C124', 'CASTEL IABLANIZZA', 'FU', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('C125', 'CASTELLABATE', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C126', 'CASTELLAFIUME', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C127', 'CASTELL''ALFERO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C128', 'CASTELLALTO', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C129', 'CASTELLAMMARE DI STABIA', 'NA', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('C130', 'CASTELLAMMARE DEL GOLFO', 'TP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C131', 'CASTEL LAMBRO', 'PV', 'comune', '1861-03-17', '1872-10-31', datetime('now')),
+  ('C132', 'CASTELLAMMARE ADRIATICO', 'PE', 'comune', '1861-03-17', '1927-01-13', datetime('now')),
+  ('C133', 'CASTELLAMONTE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C134', 'CASTELLANA GROTTE', 'BA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C135', 'CASTELLANA SICULA', 'PA', 'comune', '1947-07-10', NULL, datetime('now')),
+  ('C136', 'CASTELLANETA', 'TA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C137', 'CASTELLANIA COPPI', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C138', 'CASTELLANO', 'TN', 'comune', '1920-10-16', '1929-02-21', datetime('now')),
+  ('C139', 'CASTELLANZA', 'VA', 'comune', '1869-03-11', NULL, datetime('now')),
+  ('C140', 'CASTELLAR', 'CN', 'comune', '1861-03-17', '2019-01-01', datetime('now')),
+  ('C141', 'CASTELLARANO', 'RE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C142', 'CASTELLAR GUIDOBONO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C143', 'CASTELLARO', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C144', 'CASTELLARO DE'' GIORGI', 'PV', 'comune', '1861-03-17', '1928-07-28', datetime('now')),
+  ('C145', 'CASTELL''ARQUATO', 'PC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C146', 'CASTELLAVAZZO', 'BL', 'comune', '1866-11-19', '2014-02-22', datetime('now')),
+  ('C147', 'CASTELL''AZZARA', 'GR', 'comune', '1915-04-05', NULL, datetime('now')),
+  ('C148', 'CASTELLAZZO BORMIDA', 'AL', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('C149', 'CASTELLAZZO NOVARESE', 'NO', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('C150', 'CASTELLAZZO DE'' BARZI', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C151', 'CASTELLENGO', 'VC', 'comune', '1861-03-17', '1930-04-07', datetime('now')),
+  ('C152', 'CASTELLEONE DI SUASA', 'AN', 'comune', '1864-11-07', NULL, datetime('now')),
+  ('C153', 'CASTELLEONE', 'CR', 'comune', '1868-01-01', NULL, datetime('now')),
+  ('C154', 'CASTELLERO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C155', 'CASTELLETTO CERVO', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C156', 'CASTELLETTO D''ERRO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C157', 'CASTELLETTO DI BRANDUZZO', 'PV', 'comune', '1928-12-09', NULL, datetime('now')),
+  ('C158', 'CASTELLETTO D''ORBA', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C159', 'CASTELLETTO MENDOSIO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C160', 'CASTELLETTO MERLI', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C161', 'CASTELLETTO MOLINA', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C162', 'CASTELLETTO MONFERRATO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C163', 'CASTELLETTO MONFORTE', 'CN', 'comune', '1861-03-17', '1931-01-01', datetime('now')),
+  ('C164', 'CASTELLETTO PO', 'PV', 'comune', '1871-08-03', '1928-12-09', datetime('now')),
+  ('C165', 'CASTELLETTO STURA', 'CN', 'comune', '1871-07-10', NULL, datetime('now')),
+  ('C166', 'CASTELLETTO SOPRA TICINO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C167', 'CASTELLETTO UZZONE', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C168', 'CASTELLETTO VILLA', 'VC', 'comune', '1861-03-17', '1929-06-04', datetime('now')),
+  ('C169', 'CASTELLI', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C171', 'CASTELLI CUSIANI', 'NO', 'comune', NULL, NULL, datetime('now')),
+  ('C172', 'CASTELLINA IN CHIANTI', 'SI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C173', 'CASTELLINALDO D''ALBA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C174', 'CASTELLINA MARITTIMA', 'PI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C175', 'CASTELLINO DEL BIFERNO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C176', 'CASTELLINO TANARO', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('C177', 'CASTELLIRI', 'FR', 'comune', '1878-08-13', NULL, datetime('now')),
+  ('C178', 'CASTELLO D''ALIFE', 'BN', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('C179', 'CASTELLO VALSOLDA', 'CO', 'comune', '1862-12-29', '1927-06-10', datetime('now')),
+  ('C180', 'CASTELLO SOPRA LECCO', 'CO', 'comune', '1869-10-25', '1924-01-12', datetime('now')),
+  ('C181', 'CASTELVECCANA', 'VA', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('C182', 'CASTELLO', 'TN', 'comune', '1920-10-16', '1928-09-09', datetime('now')),
+  ('C183', 'CASTEL CONDINO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('C184', 'CASTELLO D''AGOGNA', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C185', 'CASTELLO D''ARGILE', 'BO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C186', 'CASTELLO DELL''ACQUA', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C187', 'CASTELLO DI BRIANZA', 'LC', 'comune', '1928-02-10', NULL, datetime('now')),
+  ('C188', 'CASTELLO DI CISTERNA', 'NA', 'comune', '1862-10-06', NULL, datetime('now')),
+  ('C189', 'CASTELLO-MOLINA DI FIEMME', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('C190', 'CASTELLO DI GODEGO', 'TV', 'comune', '1887-07-22', NULL, datetime('now')),
+  ('C191', 'CASTELLO DI SERRAVALLE', 'BO', 'comune', '1862-12-19', '2014-01-01', datetime('now')),
+  ('C192', 'CASTELLONE AL VOLTURNO', 'CB', 'comune', '1861-03-17', '1928-04-18', datetime('now')),
+  ('C193', 'CASTELLONORATO', 'RM', 'comune', '1861-03-17', '1928-06-15', datetime('now')),
+  ('C194', 'CASTELLO TESINO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('C195', 'CASTELLUCCHIO', 'MN', 'comune', '1872-01-01', NULL, datetime('now')),
+  ('C196', 'CASTELLUCCIO', 'PZ', 'comune', '1928-05-12', '1935-06-17', datetime('now')),
+  ('C197', 'CASTELMAURO', 'CB', 'comune', '1864-03-11', NULL, datetime('now')),
+  ('C198', 'CASTELLUCCIO DEI SAURI', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C199', 'CASTELLUCCIO INFERIORE', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C200', 'CASTELVERRINO', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('C201', 'CASTELLUCCIO SUPERIORE', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C202', 'CASTELLUCCIO VALMAGGIORE', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C203', 'CASTEL MADAMA', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('C204', 'CASTEL MAGGIORE', 'BO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C205', 'CASTELMAGNO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C206', 'CASTELMARTE', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C207', 'CASTELMASSA', 'RO', 'comune', '1928-08-14', NULL, datetime('now')),
+  ('C208', 'CASTEL MELLA', 'BS', 'comune', '1864-06-23', NULL, datetime('now')),
+  ('C209', 'CASTELMEZZANO', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C210', 'CASTELMOLA', 'ME', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('C211', 'CASTEL MORRONE', 'NA', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('C212', 'CASTELNOVATE', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C213', 'CASTELNOVETTO', 'PV', 'comune', '1890-06-15', NULL, datetime('now')),
+  ('C214', 'CASTELNUOVO DI CEVA', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('C215', 'CASTELNOVO BARIANO', 'RO', 'comune', '1867-07-22', NULL, datetime('now')),
+  ('C216', 'CASTELNUOVO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('C217', 'CASTELNOVO DEL FRIULI', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('C218', 'CASTELNOVO DI SOTTO', 'RE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C219', 'CASTELNOVO NE'' MONTI', 'RE', 'comune', '1871-05-01', NULL, datetime('now')),
+  ('C220', 'CASTELNUOVO BOZZENTE', 'CO', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('C221', 'CASTELNUOVO CREMASCO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('C222', 'CASTELNUOVO DELLA DAUNIA', 'FG', 'comune', '1864-02-14', NULL, datetime('now')),
+  ('C223', 'CASTELNUOVO PARANO', 'FR', 'comune', '1862-09-29', NULL, datetime('now')),
+  ('C224', 'CASTELNUOVO DI FARFA', 'RI', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('C225', 'CASTELNUOVO DEL GARDA', 'VR', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('C226', 'CASTELNUOVO BELBO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C227', 'CASTELNUOVO BERARDENGA', 'SI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C228', 'CASTELNUOVO BOCCA D''ADDA', 'LO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C229', 'CASTELNUOVO BORMIDA', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C230', 'CASTELNUOVO CALCEA', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C231', 'CASTELNUOVO CILENTO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C232', 'CASTELNUOVO DON BOSCO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C233', 'CASTELNUOVO DEL VESCOVO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('C234', 'CASTELNUOVO DEL ZAPPA', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('C235', 'CASTELNUOVO DI CONZA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C236', 'CASTELNUOVO DI GARFAGNANA', 'LU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C237', 'CASTELNUOVO DI PORTO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('C238', 'CASTELNUOVO D''ISTRIA', 'FU', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('C239', 'CASTELNUOVO GHERARDI', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('C240', 'CASTELNUOVO MAGRA', 'SP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C241', 'CASTELNUOVO NIGRA', 'TO', 'comune', '1928-12-19', NULL, datetime('now')),
+  ('C242', 'CASTELNUOVO RANGONE', 'MO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C243', 'CASTELNUOVO SCRIVIA', 'AL', 'comune', '1891-05-11', NULL, datetime('now')),
+  ('C244', 'CASTELNUOVO DI VAL DI CECINA', 'PI', 'comune', '1870-06-24', NULL, datetime('now')),
+  ('C245', 'CASTELPAGANO', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C246', 'CASTELPETROSO', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('C247', 'CASTELPIZZUTO', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('C248', 'CASTELPLANIO', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C249', 'CASTELPONZONE', 'CR', 'comune', '1861-03-17', '1934-11-20', datetime('now')),
+  ('C250', 'CASTELPOTO', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C251', 'CASTELRAIMONDO', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C252', 'CASTEL RITALDI', 'PG', 'comune', '1875-06-24', NULL, datetime('now')),
+  ('C253', 'CASTEL ROCCHERO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C254', 'CASTELROTTO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('C255', 'CASTEL ROZZONE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C256', 'CASTELRUGGIERO', 'SA', 'comune', '1861-03-17', '1929-04-12', datetime('now')),
+  ('C257', 'SAN BENEDETTO', 'PG', 'comune', NULL, NULL, datetime('now')),
+  ('C258', 'CASTEL SAN FELICE', 'PG', 'comune', NULL, NULL, datetime('now')),
+  ('C259', 'CASTEL SAN GIORGIO', 'SA', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('C260', 'CASTEL SAN GIOVANNI DI SPOLETO', 'PG', 'comune', NULL, NULL, datetime('now')),
+  ('C261', 'CASTEL SAN GIOVANNI', 'PC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C262', 'CASTEL SAN LORENZO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C263', 'CASTEL SAN NICCOLÒ', 'AR', 'comune', '1868-04-01', NULL, datetime('now')),
+  ('C264', 'CASTEL SAN PIETRO MONFERRATO', 'AL', 'comune', '1863-02-16', '1929-05-23', datetime('now')),
+  ('C265', 'CASTEL SAN PIETRO TERME', 'BO', 'comune', '1862-10-31', NULL, datetime('now')),
+  ('C266', 'CASTEL SAN PIETRO ROMANO', 'RM', 'comune', '1872-11-24', NULL, datetime('now')),
+  ('C267', 'CASTELSANTANGELO SUL NERA', 'MC', 'comune', '1913-01-01', NULL, datetime('now')),
+  ('C268', 'CASTEL SANT''ANGELO', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C269', 'CASTEL SANT''ELIA', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('C270', 'CASTEL SAN VINCENZO', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('C271', 'CASTELSARACENO', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C272', 'CASTELSARDO', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C273', 'CASTELSEPRIO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C274', 'CASTELSPINA', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C275', 'CASTELTERMINI', 'AG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C276', 'CASTELVECCHIO DI ROCCA BARBENA', 'SV', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('C277', 'CASTELVECCHIO DI SANTA MARIA MAGGIORE', 'IM', 'comune', '1862-11-10', '1923-11-29', datetime('now')),
+  ('C278', 'CASTELVECCHIO CALVISIO', 'AQ', 'comune', '1906-08-12', NULL, datetime('now')),
+  ('C279', 'CASTELVECCHIO SUBEQUO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C280', 'CASTELVENERE', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C281', 'CASTELVERO D''ASTI', 'AL', 'comune', '1863-02-16', '1928-08-08', datetime('now')),
+  ('C282', 'VERRÈS', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C283', 'CASTELVETERE SUL CALORE', 'AV', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('C284', 'CASTELVETERE IN VAL FORTORE', 'BN', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('C285', 'CAULONIA', 'RC', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('C286', 'CASTELVETRANO', 'TP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C287', 'CASTELVETRO DI MODENA', 'MO', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('C288', 'CASTELVETRO PIACENTINO', 'PC', 'comune', '1862-11-28', NULL, datetime('now')),
+  ('C289', 'CASTEL VISCARDO', 'TR', 'comune', '1879-08-29', NULL, datetime('now')),
+  ('C290', 'CASTELVISCONTI', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C291', 'CASTEL VOLTURNO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C292', 'CASTENASO', 'BO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C293', 'CASTENEDOLO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C294', 'CHÃ¢TILLON', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C295', 'CASTIGLIONE D''ASTI', 'AL', 'comune', '1863-02-16', '1929-06-05', datetime('now')),
+  ('C296', 'CASTIGLIONE DEI PEPOLI', 'BO', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('C297', 'CASTIGLIONE DI SICILIA', 'CT', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('C298', 'CASTIGLIONE MESSER MARINO', 'CH', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('C299', 'CASTIGLIONE D''INTELVI', 'CO', 'comune', '1863-07-13', '2018-01-01', datetime('now')),
+  ('C300', 'CASTIGLIONE OLONA', 'VA', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('C301', 'CASTIGLIONE COSENTINO', 'CS', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('C302', 'CASTIGLIONE CHIAVARESE', 'GE', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('C303', 'CASTIGLIONE DI GARFAGNANA', 'LU', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('C304', 'CASTIGLIONE D''ADDA', 'LO', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('C305', 'CASTIGLIONE D''OSSOLA', 'NO', 'comune', '1862-12-29', '1928-09-07', datetime('now')),
+  ('C306', 'CASTIGLIONE DEL GENOVESI', 'SA', 'comune', '1862-11-07', NULL, datetime('now')),
+  ('C307', 'CASTIGLIONE TORINESE', 'TO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('C308', 'CASTIGLIONE A CASAURIA', 'PE', 'comune', '1863-08-10', NULL, datetime('now')),
+  ('C309', 'CASTIGLIONE DEL LAGO', 'PG', 'comune', '1875-05-11', NULL, datetime('now')),
+  ('C310', 'CASTIGLIONE DELLA PESCAIA', 'GR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C311', 'COLLEDARA', 'TE', 'comune', '1870-01-02', NULL, datetime('now')),
+  ('C312', 'CASTIGLIONE DELLE STIVIERE', 'MN', 'comune', '1868-07-01', NULL, datetime('now')),
+  ('C313', 'CASTIGLIONE D''ORCIA', 'SI', 'comune', '1867-07-22', NULL, datetime('now')),
+  ('C314', 'CASTIGLIONE FALLETTO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C315', 'CASTIGLIONE IN TEVERINA', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('C316', 'CASTIGLIONE MESSER RAIMONDO', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C317', 'CASTIGLIONE TINELLA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C318', 'CASTIGLION FIBOCCHI', 'AR', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('C319', 'CASTIGLION FIORENTINO', 'AR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C320', 'CASTIGLION UBERTINI', 'AR', 'comune', NULL, NULL, datetime('now')),
+  ('C321', 'CASTIGNANO', 'AP', 'comune', '1865-12-25', NULL, datetime('now')),
+  ('C322', 'CASTILENTI', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C323', 'CASTINO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C324', 'CASTIONE DELLA PRESOLANA', 'BG', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('C325', 'CASTIONE ANDEVENNO', 'SO', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('C326', 'CASTIONE VERONESE', 'VR', 'comune', '1868-12-31', '1928-05-22', datetime('now')),
+  ('C327', 'CASTIONS DI STRADA', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C328', 'CASTIRAGA DA REGGIO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C329', 'CASTIRAGA VIDARDO', 'LO', 'comune', '1902-07-01', NULL, datetime('now')),
+  ('C330', 'CASTO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C331', 'CASTORANO', 'AP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C332', 'CASTREZZATO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C333', 'CASTREZZONE', 'BS', 'comune', '1861-03-17', '1928-07-28', datetime('now')),
+  ('C334', 'CASTRI DI LECCE', 'LE', 'comune', '1892-01-08', NULL, datetime('now')),
+  ('C335', 'CASTRIGNANO DE'' GRECI', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C336', 'CASTRIGNANO DEL CAPO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C337', 'CASTRO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C338', 'CASTRO DEI VOLSCI', 'FR', 'comune', '1872-10-18', NULL, datetime('now')),
+  ('C339', 'CASTROCARO TERME E TERRA DEL SOLE', 'FC', 'comune', '1871-12-07', NULL, datetime('now')),
+  ('C340', 'CASTROCIELO', 'FR', 'comune', '1882-08-31', NULL, datetime('now')),
+  ('C341', 'CASTROFILIPPO', 'AG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C342', 'ENNA', 'EN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C343', 'CASTRONNO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C344', 'CASTRONOVO DI SICILIA', 'PA', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('C345', 'CASTRONUOVO DI SANT''ANDREA', 'PZ', 'comune', '1863-05-06', NULL, datetime('now')),
+  ('C346', 'CASTROPIGNANO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C347', 'CASTROREALE', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C348', 'CASTROREGIO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C349', 'CASTROVILLARI', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C350', 'CATAFORIO', 'RC', 'comune', '1873-12-01', '1927-08-03', datetime('now')),
+  ('C351', 'CATANIA', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C352', 'CATANZARO', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C353', 'CATENANUOVA', 'EN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C354', 'CATIGNANO', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C355', 'CATONA', 'RC', 'comune', '1867-01-25', '1927-08-03', datetime('now')),
+  ('C356', 'CATTOLICA ERACLEA', 'AG', 'comune', '1874-06-15', NULL, datetime('now')),
+  ('C357', 'CATTOLICA', 'RN', 'comune', '1895-12-20', NULL, datetime('now')),
+  ('C358', 'CAURIA', 'TN', 'comune', '1920-10-16', '1927-01-14', datetime('now')),
+  ('C359', 'CAUTANO', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C360', 'CAVA MANARA', 'PV', 'comune', '1872-10-15', NULL, datetime('now')),
+  ('C361', 'CAVA DE'' TIRRENI', 'SA', 'comune', '1862-11-07', NULL, datetime('now')),
+  ('C362', 'CAVACURTA', 'LO', 'comune', '1861-03-17', '2018-01-01', datetime('now')),
+  ('C363', 'CAVAGLIÀ', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C364', 'CAVAGLIETTO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C365', 'CAVAGLIO D''AGOGNA', 'NO', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('C366', 'CAVAGLIO SAN DONNINO', 'NO', 'comune', '1862-12-29', '1928-01-01', datetime('now')),
+  ('C367', 'CAVAGLIO-SPOCCIA', 'VB', 'comune', '1927-12-31', '2019-01-01', datetime('now')),
+  ('C368', 'CAVAGNERA', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('C369', 'CAVAGNOLO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C370', 'CAVAION VERONESE', 'VR', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('C371', 'CAVAIONE', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C372', 'CAVALESE', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('C373', 'CAVALLARA', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('C374', 'CAVALLASCA', 'CO', 'comune', '1861-03-17', '2017-01-01', datetime('now')),
+  ('C375', 'CAVALLERLEONE', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C376', 'CAVALLERMAGGIORE', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C377', 'CAVALLINO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C378', 'CAVALLIRIO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C379', 'CAVANDONE', 'NO', 'comune', '1861-03-17', '1927-11-02', datetime('now')),
+  ('C380', 'CAVARENO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('C381', 'CAVARGNA', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C382', 'CAVARIA CON PREMEZZO', 'VA', 'comune', '1892-04-04', NULL, datetime('now')),
+  ('C383', 'CAVARZERE', 'VE', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C384', 'CAVASO DEL TOMBA', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C385', 'CAVASSO NUOVO', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('C386', 'CAVA TIGOZZI', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('C387', 'CAVATORE', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C388', 'JESOLO', 'VE', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C389', 'CAVAZZO CARNICO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C390', 'CAVE', 'RM', 'comune', '1890-05-02', NULL, datetime('now')),
+  ('C391', 'CAVE AUREMIANE', 'TS', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('C392', 'CAVEDAGO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('C393', 'CAVEDINE', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('C394', 'CAVENAGO D''ADDA', 'LO', 'comune', '1869-02-01', NULL, datetime('now')),
+  ('C395', 'CAVENAGO DI BRIANZA', 'MB', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('C396', 'CAVERNAGO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C397', 'CAVERSACCIO', 'CO', 'comune', '1861-03-17', '1928-05-04', datetime('now')),
+  ('C398', 'CAVEZZO', 'MO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C399', 'CAVIAGA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C400', 'CAVIZZANA', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('C401', 'COVELANO', 'BZ', 'comune', '1920-10-16', '1928-05-13', datetime('now')),
+  ('C402', 'CAVONA', 'VA', 'comune', '1861-03-17', '1928-02-16', datetime('now')),
+  ('C403', 'CAVORETTO', 'TO', 'comune', NULL, NULL, datetime('now')),
+  ('C404', 'CAVOUR', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C405', 'CAVRIAGO', 'RE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C406', 'CAVRIANA', 'MN', 'comune', '1868-07-01', NULL, datetime('now')),
+  ('C407', 'CAVRIGLIA', 'AR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C408', 'CAZZAGO SAN MARTINO', 'BS', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('C409', 'CAZZAGO BRABBIA', 'VA', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('C410', 'CAZZANO SANT''ANDREA', 'BG', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('C411', 'CAZZANO BESANA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C412', 'CAZZANO DI TRAMIGNA', 'VR', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('C413', 'CECCANO', 'FR', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('C414', 'CECIMA', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C415', 'CECINA', 'LI', 'comune', '1892-06-20', NULL, datetime('now')),
+  ('C416', 'CECONICO', 'GO', 'comune', '1921-01-05', '1928-08-24', datetime('now')),
+  ('C417', 'CEDEGOLO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C418', 'CEDRASCO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C419', 'CEDRATE', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C420', 'CEFALÀ DIANA', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C421', 'CEFALÙ', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C422', 'CEGGIA', 'VE', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C423', 'CEGLIE DEL CAMPO', 'BA', 'comune', '1863-08-10', '1928-03-25', datetime('now')),
+  ('C424', 'CEGLIE MESSAPICA', 'BR', 'comune', '1864-03-31', NULL, datetime('now')),
+  ('C425', 'CEGLIE', 'FU', 'comune', '1921-01-05', '1924-10-31', datetime('now')),
+  ('C426', 'CELANO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C427', 'CELENTINO', 'TN', 'comune', '1920-10-16', '1928-08-12', datetime('now')),
+  ('C428', 'CELENZA SUL TRIGNO', 'CH', 'comune', '1864-02-10', NULL, datetime('now')),
+  ('C429', 'CELENZA VALFORTORE', 'FG', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('C430', 'CELICO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C431', 'CELLINA', 'VA', 'comune', '1861-03-17', '1928-01-08', datetime('now')),
+  ('C432', 'CELLA MONTE', 'AL', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('C433', 'CELLA', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('C434', 'CELLA DI BOBBIO', 'PV', 'comune', '1864-02-14', '1929-05-29', datetime('now')),
+  ('C435', 'CELLA DATI', 'CR', 'comune', '1869-03-15', NULL, datetime('now')),
+  ('C436', 'CELLAMARE', 'BA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C437', 'CELLARA', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C438', 'CELLARENGO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C439', 'CELLATICA', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C440', 'CELLE ENOMONDO', 'AT', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('C441', 'CELLE DI MACRA', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('C442', 'CELLE DI SAN VITO', 'FG', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('C443', 'CELLE LIGURE', 'SV', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('C444', 'CELLE DI BULGHERIA', 'SA', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('C445', 'CELLEDIZZO', 'TN', 'comune', '1920-10-16', '1928-08-12', datetime('now')),
+  ('C446', 'CELLENO', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('C447', 'CELLERE', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('C448', 'CELLINO SAN MARCO', 'BR', 'comune', '1862-11-28', NULL, datetime('now')),
+  ('C449', 'CELLINO ATTANASIO', 'TE', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('C450', 'CELLIO', 'VC', 'comune', '1865-12-14', '2018-01-01', datetime('now')),
+  ('C451', 'CELPENCHIO', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('C452', 'CEMBRA', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('C453', 'CENADI', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C454', 'CENATE', 'BG', 'comune', '1927-12-01', '1929-05-18', datetime('now')),
+  ('C455', 'CENATE D''ARGON', 'BG', 'comune', '1929-05-18', '1947-06-24', datetime('now')),
+  ('C456', 'CENATE SOPRA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C457', 'CENATE SOTTO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C458', 'CENCENIGHE AGORDINO', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C459', 'CENE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C460', 'CENEDA', 'TV', 'comune', NULL, NULL, datetime('now')),
+  ('C461', 'CENESELLI', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C462', 'CENESI', 'SV', 'comune', '1861-03-17', '1929-06-04', datetime('now')),
+  ('C463', 'CENGIO', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C464', 'CENGLES', 'BZ', 'comune', '1920-10-16', '1929-05-15', datetime('now')),
+  ('C465', 'CENOVA', 'IM', 'comune', '1861-03-17', '1928-04-15', datetime('now')),
+  ('C466', 'CENTALLO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C467', 'CENTA SAN NICOLÒ', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('C468', 'CENTEMERO', 'CO', 'comune', NULL, NULL, datetime('now')),
+  ('C469', 'CENTO', 'FE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C470', 'CENTOLA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C471', 'CENTURIPE', 'EN', 'comune', '1875-12-13', NULL, datetime('now')),
+  ('C472', 'CENTRACHE', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C473', 'CENTRISOLA', 'BG', 'comune', '1928-01-18', '1948-03-31', datetime('now')),
+  ('C474', 'CEPAGATTI', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C475', 'CEPINO', 'BG', 'comune', '1861-03-17', '1927-08-04', datetime('now')),
+  ('C476', 'CEPPALONI', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C477', 'CEPPEDA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C478', 'CEPPO MORELLI', 'VB', 'comune', '1866-01-14', NULL, datetime('now')),
+  ('C479', 'CEPRANO', 'FR', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('C480', 'CERAMI', 'EN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C481', 'CERANESI', 'GE', 'comune', '1889-06-17', NULL, datetime('now')),
+  ('C482', 'CERANO D''INTELVI', 'CO', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('C483', 'CERANO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C484', 'CERANOVA', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C485', 'CERASO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C486', 'CERCEMAGGIORE', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C487', 'CERCENASCO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C488', 'CERCEPICCOLA', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C489', 'CERCHIARA DI CALABRIA', 'CS', 'comune', '1864-04-01', NULL, datetime('now')),
+  ('C490', 'CERCHIARA DI SABINA', 'RI', 'comune', NULL, NULL, datetime('now')),
+  ('C491', 'CERCHIATE', 'MI', 'comune', '1861-03-17', '1928-06-27', datetime('now')),
+  ('C492', 'CERCHIO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C493', 'CERCINO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C494', 'CERCIVENTO', 'UD', 'comune', '1870-01-02', NULL, datetime('now')),
+  ('C495', 'CERCOLA', 'NA', 'comune', '1877-07-16', NULL, datetime('now')),
+  ('C496', 'CERDA', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C497', 'CERES', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C498', 'CEREA', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C499', 'CEREDA', 'CO', 'comune', NULL, NULL, datetime('now')),
+  ('C500', 'CEREGNANO', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C501', 'CERENZIA', 'KR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C502', 'CERESARA', 'MN', 'comune', '1868-07-01', NULL, datetime('now')),
+  ('C503', 'CERESETO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C504', 'CERESOLE ALBA', 'CN', 'comune', '1871-06-01', NULL, datetime('now'));
+
+INSERT INTO belfioreCodes (code, name, province, kind, validFrom, validTo, updatedAt) VALUES
+  ('C505', 'CERESOLE REALE', 'AO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('C506', 'CERETE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C507', 'CERRETO GRUE', 'AL', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('C508', 'CERETTO LOMELLINA', 'PV', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('C509', 'CERGNAGO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C510', 'CERIALE', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C511', 'CERIANA', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C512', 'CERIANO LAGHETTO', 'MB', 'comune', '1869-02-24', NULL, datetime('now')),
+  ('C513', 'CERIGNALE', 'PC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C514', 'CERIGNOLA', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C515', 'CERISANO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C516', 'CERMENATE', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C517', 'CERMIGNANO', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C518', 'CERRETO LAZIALE', 'RM', 'comune', '1886-07-19', NULL, datetime('now')),
+  ('C519', 'CERNIZZA GORIZIANA', 'GO', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('C520', 'CERNOBBIO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C521', 'CERNUSCO LOMBARDONE', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C522', 'CERNUSCO MONTEVECCHIA', 'CO', 'comune', '1928-05-22', '1966-09-23', datetime('now')),
+  ('C523', 'CERNUSCO SUL NAVIGLIO', 'MI', 'comune', '1867-01-14', NULL, datetime('now')),
+  ('C524', 'CERRETO D''ESI', 'AN', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('C525', 'CERRETO SANNITA', 'BN', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('C526', 'CERRETO CASTELLO', 'BI', 'comune', '1863-04-23', '2019-01-01', datetime('now')),
+  ('C527', 'CERRETO DI SPOLETO', 'PG', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('C528', 'CERRETO D''ASTI', 'AT', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('C529', 'CERRETO GUIDI', 'FI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C530', 'CERRETTO LANGHE', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('C531', 'CERRINA MONFERRATO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C532', 'CERRIONE', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C533', 'CERRO TANARO', 'AT', 'comune', '1864-02-02', NULL, datetime('now')),
+  ('C534', 'CERRO AL VOLTURNO', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('C535', 'CERRO LAGO MAGGIORE', 'VA', 'comune', '1863-07-13', '1928-01-28', datetime('now')),
+  ('C536', 'CERRO AL LAMBRO', 'MI', 'comune', '1878-12-31', NULL, datetime('now')),
+  ('C537', 'CERRO MAGGIORE', 'MI', 'comune', '1862-11-07', NULL, datetime('now')),
+  ('C538', 'CERRO VERONESE', 'VR', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('C539', 'CERSOSIMO', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C540', 'CERTALDO', 'FI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C541', 'CERTOSA DI PAVIA', 'PV', 'comune', '1929-03-21', NULL, datetime('now')),
+  ('C542', 'CERVA', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C543', 'CERVARA DI ROMA', 'RM', 'comune', '1881-06-24', NULL, datetime('now')),
+  ('C544', 'CERVARESE SANTA CROCE', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C545', 'CERVARO', 'FR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C546', 'CERVAROLO', 'VC', 'comune', '1861-03-17', '1929-03-02', datetime('now')),
+  ('C547', 'CERVASCA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C548', 'CERVATTO', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C549', 'CERVENO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C550', 'CERVERE', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C551', 'CERVESINA', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C552', 'CERVETERI', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('C553', 'CERVIA', 'RA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C554', 'CERVICATI', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C555', 'CERVIGNANO D''ADDA', 'LO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C556', 'CERVIGNANO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C557', 'CERVINARA', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C558', 'CERVINO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C559', 'CERVO', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C560', 'CERZETO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C561', 'CESA', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C562', 'LENTIAI', 'BL', 'comune', '1867-04-12', '2019-01-30', datetime('now')),
+  ('C563', 'CESANA BRIANZA', 'LC', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('C564', 'CESANA TORINESE', 'TO', 'comune', '1870-07-01', NULL, datetime('now')),
+  ('C565', 'CESANO BOSCONE', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C566', 'CESANO MADERNO', 'MB', 'comune', '1869-02-24', NULL, datetime('now')),
+  ('C567', 'CESARA', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C568', 'CESARÒ', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C569', 'CESATE', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C570', 'CESCLANS', 'UD', 'comune', NULL, NULL, datetime('now')),
+  ('C571', 'CESELLI', 'PG', 'comune', NULL, NULL, datetime('now')),
+  ('C572', 'CESELLO BRIANZA', 'CO', 'comune', '1927-11-08', '1955-08-20', datetime('now')),
+  ('C573', 'CESENA', 'FC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C574', 'CESENATICO', 'FC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C575', 'CESI', 'TR', 'comune', '1875-09-07', '1927-01-13', datetime('now')),
+  ('C576', 'CESINALI', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C577', 'CESIOMAGGIORE', 'BL', 'comune', '1867-04-12', NULL, datetime('now')),
+  ('C578', 'CESIO', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C579', 'CESNOLA', 'AO', 'comune', '1861-03-17', '1929-05-05', datetime('now')),
+  ('C580', 'CESSALTO', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C581', 'CESSANITI', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C582', 'CESSAPALOMBO', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C583', 'CESSOLE', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C584', 'CETARA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C585', 'CETO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C586', 'CETO-CERVENO', 'BS', 'comune', '1927-12-04', '1947-06-19', datetime('now')),
+  ('C587', 'CETONA', 'SI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C588', 'CETRARO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C589', 'CEVA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C590', 'CEVES', 'BZ', 'comune', '1920-10-16', '1931-12-07', datetime('now')),
+  ('C591', 'CEVO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C592', 'CHALLANT SAINT ANSELME ET CHALLANT SAINT VICTOR', 'AO', 'comune', '1928-06-15', '1946-09-28', datetime('now')),
+  ('C593', 'CHALLAND-SAINT-ANSELME', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C594', 'CHALLAND-SAINT-VICTOR', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C595', 'CHAMBAVE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C596', 'CHAMPDEPRAZ', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C597', 'CHAMPLAS-DU-COL', 'TO', 'comune', '1861-03-17', '1928-12-14', datetime('now')),
+  ('C598', 'CHARVENSOD', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C599', 'CHERASCO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C600', 'CHEREMULE', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C601', 'CHERSO', 'PL', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('C602', 'CHIABRANO', 'TO', 'comune', '1861-03-17', '1928-05-01', datetime('now')),
+  ('C603', 'CHIAIANO ED UNITI', 'NA', 'comune', '1863-02-06', '1926-07-04', datetime('now')),
+  ('C604', 'CHIALAMBERTO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C605', 'CHIAMPO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C606', 'CHIANCHE', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C607', 'CHIANCHETELLE', 'AV', 'comune', '1861-03-17', '1928-01-28', datetime('now')),
+  ('C608', 'CHIANCIANO TERME', 'SI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C609', 'CHIANNI', 'PI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C610', 'CHIANOCCO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C611', 'CHIAPOVANO', 'GO', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('C612', 'CHIARAMONTE GULFI', 'RG', 'comune', '1881-08-23', NULL, datetime('now')),
+  ('C613', 'CHIARAMONTI', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C614', 'CHIARANO', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C615', 'CHIARAVALLE', 'AN', 'comune', '1865-12-11', NULL, datetime('now')),
+  ('C616', 'CHIARAVALLE CENTRALE', 'CZ', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('C617', 'CHIARAVALLE MILANESE', 'MI', 'comune', '1870-08-02', '1923-10-14', datetime('now')),
+  ('C618', 'CHIARI', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C619', 'CHIAROMONTE', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C620', 'CHIAUCI', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('C621', 'CHIAVARI', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C622', 'CHIAVAZZA', 'VC', 'comune', '1880-12-13', '1940-08-03', datetime('now')),
+  ('C623', 'CHIAVENNA', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C624', 'CHIAVERANO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C625', 'CHIENES', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('C626', 'CHIENIS', 'TN', 'comune', '1920-10-16', '1924-01-15', datetime('now')),
+  ('C627', 'CHIERI', 'TO', 'comune', '1878-08-02', NULL, datetime('now')),
+  ('C628', 'CHIESA IN VALMALENCO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C629', 'CHIESANUOVA', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C630', 'CHIES D''ALPAGO', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C631', 'CHIESINA UZZANESE', 'PT', 'comune', '1963-04-09', NULL, datetime('now')),
+  ('C632', 'CHIETI', 'CH', 'comune', '1880-02-13', NULL, datetime('now')),
+  ('C633', 'CHIEUTI', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C634', 'CHIEVE', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C635', 'CHIGNOLO D''ISOLA', 'BG', 'comune', '1864-06-23', NULL, datetime('now')),
+  ('C636', 'CHIGNOLO VERBANO', 'NO', 'comune', '1862-12-29', '1927-03-02', datetime('now')),
+  ('C637', 'CHIGNOLO PO', 'PV', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('C638', 'CHIOGGIA', 'VE', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C639', 'CHIOMONTE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C640', 'CHIONS', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('C641', 'CHIOPRIS-VISCONE', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C642', 'CHIOSI D''ADDA VIGADORE', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C643', 'CHIOSI DI PORTA D''ADDA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C644', 'CHIOSI PORTA CREMONESE', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C645', 'CHIOSI PORTA REGALE', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C646', 'CHIOSI UNITI CON BOTTEDO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C647', 'CHIRIGNAGO', 'VE', 'comune', '1866-11-19', '1926-08-24', datetime('now')),
+  ('C648', 'CHITIGNANO', 'AR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C649', 'CHIUDUNO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C650', 'CHIUPPANO', 'VI', 'comune', '1911-04-18', NULL, datetime('now')),
+  ('C651', 'CHIURO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C652', 'CHIUSA', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('C653', 'CHIUSA DI PESIO', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('C654', 'CHIUSA SCLAFANI', 'PA', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('C655', 'CHIUSA DI SAN MICHELE', 'TO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('C656', 'CHIUSAFORTE', 'UD', 'comune', '1923-02-08', NULL, datetime('now')),
+  ('C657', 'CHIUSANICO', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C658', 'CHIUSANO D''ASTI', 'AT', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('C659', 'CHIUSANO DI SAN DOMENICO', 'AV', 'comune', '1862-11-24', NULL, datetime('now')),
+  ('C660', 'CHIUSAVECCHIA', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C661', 'CHIUSDINO', 'SI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C662', 'CHIUSI', 'SI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C663', 'CHIUSI DELLA VERNA', 'AR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C664', 'CHIUSO', 'CO', 'comune', NULL, NULL, datetime('now')),
+  ('C665', 'CHIVASSO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C666', 'CHIZZOLA', 'TN', 'comune', '1920-10-16', '1928-09-06', datetime('now')),
+  ('C667', 'CIAGO', 'TN', 'comune', '1920-10-16', '1928-04-19', datetime('now')),
+  ('C668', 'CIANCIANA', 'AG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C669', 'CANOSSA', 'RE', 'comune', '1873-12-26', NULL, datetime('now')),
+  ('C670', 'CROCETTA DEL MONTELLO', 'TV', 'comune', '1902-06-01', NULL, datetime('now')),
+  ('C671', 'CIARDES', 'BZ', 'comune', '1920-10-16', '1929-02-15', datetime('now')),
+  ('C672', 'CIBIANA DI CADORE', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C673', 'CICAGNA', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C674', 'CICALA', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C675', 'CICCIANO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C676', 'CICERALE', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C677', 'CICILIANO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('C678', 'CICOGNOLO', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C679', 'CICONIO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C680', 'CIGLIANO', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C681', 'CIGLIÈ', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C682', 'CIGNANO', 'BS', 'comune', '1861-03-17', '1928-02-16', datetime('now')),
+  ('C683', 'CIGNONE', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('C684', 'CIGOGNOLA', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C685', 'CIGOLE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C686', 'CILAVEGNA', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C687', 'CILIVERGHE', 'BS', 'comune', '1861-03-17', '1928-04-17', datetime('now')),
+  ('C688', 'CIMA', 'CO', 'comune', '1861-03-17', '1928-03-07', datetime('now')),
+  ('C689', 'CIMADOLMO', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C690', 'CIMAMULERA', 'NO', 'comune', '1861-03-17', '1928-07-30', datetime('now')),
+  ('C691', 'CIMBERGO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C692', 'CIMBERGO-PASPARDO', 'BS', 'comune', '1927-12-24', '1947-12-23', datetime('now')),
+  ('C693', 'CIMBRO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C694', 'CIMEGO', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('C695', 'CIMINÀ', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C696', 'CIMINNA', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C697', 'CIMITILE', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C698', 'TAVERNOLE SUL MELLA', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C699', 'CIMOLAIS', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('C700', 'CIMONE', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('C701', 'CINAGLIO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C702', 'CINETO ROMANO', 'RM', 'comune', '1884-05-09', NULL, datetime('now')),
+  ('C703', 'CINGIA DE'' BOTTI', 'CR', 'comune', '1868-06-28', NULL, datetime('now')),
+  ('C704', 'CINGOLI', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C705', 'CINIGIANO', 'GR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C706', 'CINISELLO', 'MI', 'comune', '1861-03-17', '1928-11-03', datetime('now')),
+  ('C707', 'CINISELLO BALSAMO', 'MI', 'comune', '1928-11-03', NULL, datetime('now')),
+  ('C708', 'CINISI', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C709', 'CINO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C710', 'CINQUEFRONDI', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C711', 'CINTANO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C712', 'CINTE TESINO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('C713', 'CINTO EUGANEO', 'PD', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('C714', 'CINTO CAOMAGGIORE', 'VE', 'comune', '1867-08-05', NULL, datetime('now')),
+  ('C715', 'CINZANO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C716', 'CIORLANO', 'CB', 'comune', '1898-04-15', NULL, datetime('now')),
+  ('C717', 'SANTA MARIA DEL CEDRO', 'CS', 'comune', '1948-04-30', NULL, datetime('now')),
+  ('C718', 'CIPRESSA', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C719', 'CIRCELLO', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C720', 'CIRCHINA', 'GO', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('C721', 'CIREGGIO', 'NO', 'comune', '1861-03-17', '1928-03-25', datetime('now')),
+  ('C722', 'CIRIÈ', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C723', 'CIRIGLIANO', 'MT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C724', 'CIRIMIDO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C725', 'CIRÒ', 'KR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C726', 'CIRÒ MARINA', 'KR', 'comune', '1952-04-24', NULL, datetime('now')),
+  ('C727', 'CIS', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('C728', 'CISANO BERGAMASCO', 'BG', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('C729', 'CISANO SUL NEVA', 'SV', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('C730', 'CISERANO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C731', 'CISERIIS', 'UD', 'comune', '1866-11-19', '1928-04-30', datetime('now')),
+  ('C732', 'CISLAGO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C733', 'CISLIANO', 'MI', 'comune', '1870-08-02', NULL, datetime('now')),
+  ('C734', 'CISMON DEL GRAPPA', 'VI', 'comune', '1866-11-19', '2019-01-30', datetime('now')),
+  ('C735', 'CISON DI VALMARINO', 'TV', 'comune', '1867-11-25', NULL, datetime('now')),
+  ('C736', 'CISORE', 'NO', 'comune', NULL, NULL, datetime('now')),
+  ('C737', 'ISSENGO', 'BZ', 'comune', '1920-10-16', '1928-03-08', datetime('now')),
+  ('C738', 'CISSONE', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C739', 'CISTERNA D''ASTI', 'AT', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('C740', 'CISTERNA DI LATINA', 'LT', 'comune', '1873-01-14', NULL, datetime('now')),
+  ('C741', 'CISTERNINO', 'BR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C742', 'CITERNA', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C743', 'CITTADELLA', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C744', 'CITTÃ  DELLA PIEVE', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C745', 'CITTÀ DI CASTELLO', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C746', 'CITTADUCALE', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C747', 'CITTANOVA', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C748', 'CITTANOVA D''ISTRIA', 'PL', 'comune', '1921-01-05', '1977-04-04', datetime('now')),
+  ('C749', 'CITTAREALE', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C750', 'CITTÀ SANT''ANGELO', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C751', 'CITTIGLIO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C752', 'CIVATE', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C753', 'CIVELLO', 'CO', 'comune', '1861-03-17', '1928-05-31', datetime('now')),
+  ('C754', 'CIVENNA', 'CO', 'comune', '1861-03-17', '2014-02-04', datetime('now')),
+  ('C755', 'CIVEZZA', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C756', 'CIVEZZANO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('C757', 'CIVIASCO', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C758', 'CIVIDALE DEL FRIULI', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C759', 'CIVIDATE AL PIANO', 'BG', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('C760', 'CIVIDATE CAMUNO', 'BS', 'comune', '1887-02-14', NULL, datetime('now')),
+  ('C761', 'CIVIDATE MALEGNO', 'BS', 'comune', '1928-05-22', '1947-11-05', datetime('now')),
+  ('C762', 'CIVIGLIO', 'CO', 'comune', '1861-03-17', '1943-08-13', datetime('now')),
+  ('C763', 'CIVITA', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C764', 'CIVITACAMPOMARANO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C765', 'CIVITA CASTELLANA', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('C766', 'CIVITA D''ANTINO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C767', 'LANUVIO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('C768', 'CIVITALUPARELLA', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C769', 'CIVITANOVA DEL SANNIO', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('C770', 'CIVITANOVA MARCHE', 'MC', 'comune', '1864-03-11', NULL, datetime('now')),
+  ('C771', 'CIVITAQUANA', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C772', 'DURONIA', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C773', 'CIVITAVECCHIA', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('C774', 'CIVITELLA IN VAL DI CHIANA', 'AR', 'comune', '1862-11-28', NULL, datetime('now')),
+  ('C775', 'CIVITELLA LICINIO', 'BN', 'comune', NULL, NULL, datetime('now')),
+  ('C776', 'CIVITELLA MESSER RAIMONDO', 'CH', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('C777', 'CIVITELLA DI ROMAGNA', 'FC', 'comune', '1862-09-08', NULL, datetime('now')),
+  ('C778', 'CIVITELLA ALFEDENA', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C779', 'CIVITELLA CASANOVA', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C780', 'CIVITELLA D''AGLIANO', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('C781', 'CIVITELLA DEL TRONTO', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C782', 'CIVITELLA PAGANICO', 'GR', 'comune', '1920-10-19', NULL, datetime('now')),
+  ('C783', 'CIVITELLA ROVETO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C784', 'CIVITELLA SAN PAOLO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('C785', 'CIVO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C786', 'CIZZAGO', 'BS', 'comune', '1861-03-17', '1927-12-04', datetime('now')),
+  ('C787', 'CLAINO CON OSTENO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C788', 'CLANA', 'FU', 'comune', '1925-09-26', '1947-09-16', datetime('now')),
+  ('C789', 'UBIALE CLANEZZO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C790', 'CLAUT', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('C791', 'CLAUZETTO', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('C792', 'CLAVESANA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C793', 'CLAVIERE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C794', 'CLES', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('C795', 'CLETO', 'CS', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('C796', 'CLIVIO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C797', 'CLOZ', 'TN', 'comune', '1920-10-16', '2020-01-01', datetime('now')),
+  ('C798', 'CLUSANE SUL LAGO', 'BS', 'comune', '1873-08-25', '1927-12-29', datetime('now')),
+  ('C799', 'CLUSIO', 'BZ', 'comune', '1920-10-16', '1928-01-27', datetime('now')),
+  ('C800', 'CLUSONE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C801', 'COASSOLO TORINESE', 'TO', 'comune', '1863-08-10', NULL, datetime('now')),
+  ('C802', 'COAZZANO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C803', 'COAZZE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C804', 'COAZZOLO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C805', 'COBBIA', 'GO', 'comune', '1921-01-05', '1928-03-13', datetime('now')),
+  ('C806', 'COCCAGLIO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C807', 'COCCONATO', 'AT', 'comune', '1875-06-04', NULL, datetime('now')),
+  ('C808', 'COCCONITO', 'AL', 'comune', NULL, NULL, datetime('now')),
+  ('C809', 'COCQUIO', 'VA', 'comune', '1861-03-17', '1927-05-27', datetime('now')),
+  ('C810', 'COCQUIO-TREVISAGO', 'VA', 'comune', '1927-05-27', NULL, datetime('now')),
+  ('C811', 'COCULLO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C812', 'CODEVIGO', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C813', 'CODEVILLA', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C814', 'CODIGORO', 'FE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C815', 'CODOGNÈ', 'TV', 'comune', '1869-08-11', NULL, datetime('now')),
+  ('C816', 'CODOGNO', 'LO', 'comune', '1869-02-01', NULL, datetime('now')),
+  ('C817', 'CODROIPO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C818', 'CODRONGIANOS', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C819', 'COGGIOLA', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C820', 'COGLIATE', 'MB', 'comune', '1919-08-04', NULL, datetime('now')),
+  ('C821', 'COGNE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C822', 'COGNOLA', 'TN', 'comune', '1920-10-16', '1926-10-01', datetime('now')),
+  ('C823', 'COGOLETO', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C824', 'COGOLLO DEL CENGIO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C825', 'COGOLO', 'TN', 'comune', '1920-10-16', '1928-08-12', datetime('now')),
+  ('C826', 'COGORNO', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C827', 'COIMO', 'NO', 'comune', '1861-03-17', '1928-06-29', datetime('now')),
+  ('C828', 'COIROMONTE', 'NO', 'comune', '1868-12-31', '1928-11-27', datetime('now')),
+  ('C829', 'COLAZZA', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C830', 'COLBORDOLO', 'PU', 'comune', '1869-04-26', '2014-01-01', datetime('now')),
+  ('C831', 'COLCAVAGNO', 'AT', 'comune', '1861-03-17', '1998-09-01', datetime('now')),
+  ('C832', 'COLCIAGO', 'CO', 'comune', '1861-03-17', '1883-09-25', datetime('now')),
+  ('C833', 'COLDRANO', 'BZ', 'comune', '1920-10-16', '1928-12-10', datetime('now')),
+  ('C834', 'COL DI RODI', 'IM', 'comune', '1882-06-23', '1928-04-04', datetime('now')),
+  ('C835', 'COLERE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C836', 'COLFELICE', 'FR', 'comune', '1923-12-21', NULL, datetime('now')),
+  ('C837', 'COLFOSCO', 'TN', 'comune', '1920-10-16', '1925-09-16', datetime('now')),
+  ('C838', 'COLI', 'PC', 'comune', '1868-01-01', NULL, datetime('now')),
+  ('C839', 'COLICO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C840', 'COLLAGNA', 'RE', 'comune', '1872-03-11', '2016-01-01', datetime('now')),
+  ('C841', 'COLLALTO SABINO', 'RI', 'comune', '1893-05-26', NULL, datetime('now')),
+  ('C842', 'SEGNACCO', 'UD', 'comune', '1878-08-13', '1928-04-30', datetime('now')),
+  ('C844', 'COLLARMELE', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C845', 'COLLAZZONE', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C846', 'COLLE SANNITA', 'BN', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('C847', 'COLLE DI VAL D''ELSA', 'SI', 'comune', '1862-10-06', NULL, datetime('now')),
+  ('C848', 'COLLE UMBERTO', 'TV', 'comune', '1867-11-25', NULL, datetime('now')),
+  ('C849', 'COLLEBACCARO', 'PG', 'comune', NULL, NULL, datetime('now')),
+  ('C850', 'COLLEBEATO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C851', 'COLLE BRIANZA', 'LC', 'comune', '1928-02-05', NULL, datetime('now')),
+  ('C852', 'COLLECCHIO', 'PR', 'comune', '1893-12-05', NULL, datetime('now')),
+  ('C853', 'COLLECORVINO', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C854', 'COLLE D''ANCHISE', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C855', 'COLLEDIMACINE', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C856', 'COLLEDIMEZZO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C857', 'COLLE DI TORA', 'RI', 'comune', '1948-03-21', NULL, datetime('now')),
+  ('C858', 'COLLEFERRO', 'RM', 'comune', '1935-07-23', NULL, datetime('now')),
+  ('C859', 'COLLEGIOVE', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C860', 'COLLEGNO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C861', 'COLLE IN CASIES', 'BZ', 'comune', '1920-10-16', '1929-05-16', datetime('now')),
+  ('C862', 'COLLELONGO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C863', 'COLLEMANCIO', 'PG', 'comune', NULL, NULL, datetime('now')),
+  ('C864', 'COLLEPARDO', 'FR', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('C865', 'COLLEPASSO', 'LE', 'comune', '1907-07-02', NULL, datetime('now')),
+  ('C866', 'COLLEPIETRO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C867', 'COLLERETTO CASTELNUOVO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C868', 'COLLERETTO PARELLA', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C869', 'COLLESALVETTI', 'LI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C870', 'COLLE SAN MAGNO', 'FR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C871', 'COLLESANO', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C872', 'COLLE SANTA LUCIA', 'BL', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('C873', 'COLLESCIPOLI', 'TR', 'comune', '1861-03-17', '1927-01-13', datetime('now')),
+  ('C874', 'COLLESTATTE', 'TR', 'comune', '1861-03-17', '1927-01-13', datetime('now')),
+  ('C875', 'COLLETORTO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C876', 'COLLEVECCHIO', 'RI', 'comune', '1871-03-01', NULL, datetime('now')),
+  ('C877', 'COLLI DEL TRONTO', 'AP', 'comune', '1862-11-24', NULL, datetime('now')),
+  ('C878', 'COLLI A VOLTURNO', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('C879', 'COLLIANO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C880', 'COLLI SUL VELINO', 'RI', 'comune', '1957-04-07', NULL, datetime('now')),
+  ('C881', 'COLLI IN PUSTERIA', 'BZ', 'comune', '1920-10-16', '1929-03-27', datetime('now')),
+  ('C882', 'COLLINAS', 'SU', 'comune', '1864-11-07', NULL, datetime('now')),
+  ('C883', 'COLLIO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C884', 'COLLOBIANO', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C885', 'COLLOREDO DI MONTE ALBANO', 'UD', 'comune', '1867-09-02', NULL, datetime('now')),
+  ('C886', 'COLMURANO', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C887', 'COLNAGO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C888', 'COLOBRARO', 'MT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C889', 'COLOGNA', 'CO', 'comune', '1861-03-17', '1928-02-11', datetime('now')),
+  ('C890', 'COLOGNA VENETA', 'VR', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('C891', 'COLOGNA-GAVAZZO', 'TN', 'comune', '1920-10-16', '1929-04-12', datetime('now')),
+  ('C892', 'COLOGNA IN GIUDICARIE', 'TN', 'comune', '1920-10-16', '1928-03-07', datetime('now')),
+  ('C893', 'COLOGNE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C894', 'COLOGNO AL SERIO', 'BG', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('C895', 'COLOGNO MONZESE', 'MI', 'comune', '1867-01-14', NULL, datetime('now')),
+  ('C896', 'COLOGNOLA DEL PIANO', 'BG', 'comune', '1863-07-13', '1927-03-12', datetime('now')),
+  ('C897', 'COLOGNOLA AI COLLI', 'VR', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('C898', 'COLOMBARO', 'BS', 'comune', '1861-03-17', '1928-07-29', datetime('now')),
+  ('C899', 'COLOMBAROLO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('C900', 'COLONNA', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('C901', 'COLONNELLA', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C902', 'COLONNO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C903', 'COLORINA', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C904', 'COLORNO', 'PR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C905', 'COLOSIMI', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C906', 'COL SAN GIOVANNI', 'TO', 'comune', '1861-03-17', '1927-10-19', datetime('now')),
+  ('C907', 'COLSANO', 'BZ', 'comune', '1920-10-16', '1929-02-15', datetime('now')),
+  ('C908', 'COLTURANO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C909', 'COLZANO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C910', 'COLZATE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C911', 'COMABBIO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C912', 'COMACCHIO', 'FE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C913', 'COMAIRANO', 'PV', 'comune', '1861-03-17', '1871-06-01', datetime('now')),
+  ('C914', 'COMANO', 'MS', 'comune', '1919-08-22', NULL, datetime('now')),
+  ('C915', 'COMANO', 'TN', 'comune', '1920-10-16', '1928-04-03', datetime('now')),
+  ('C916', 'COMASINE', 'TN', 'comune', '1920-10-16', '1928-08-12', datetime('now')),
+  ('C917', 'COMAZZO', 'LO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C918', 'COMEGLIANS', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C919', 'SANTO STEFANO DI CADORE', 'BL', 'comune', '1894-12-31', NULL, datetime('now')),
+  ('C920', 'COMELICO SUPERIORE', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C921', 'COMENO', 'GO', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('C922', 'COMERIO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C923', 'COMERO', 'BS', 'comune', '1861-03-17', '1928-04-03', datetime('now')),
+  ('C924', 'COMEZZANO', 'BS', 'comune', '1861-03-17', '1927-12-04', datetime('now')),
+  ('C925', 'COMEZZANO-CIZZAGO', 'BS', 'comune', '1927-12-04', NULL, datetime('now')),
+  ('C926', 'COMIGNAGO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C927', 'COMISO', 'RG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C928', 'COMITINI', 'AG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C929', 'COMIZIANO', 'NA', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('C930', 'COMMESSAGGIO', 'MN', 'comune', '1868-07-01', NULL, datetime('now')),
+  ('C931', 'COMMEZZADURA', 'TN', 'comune', '1928-10-07', NULL, datetime('now')),
+  ('C932', 'COMNAGO', 'NO', 'comune', '1861-03-17', '1928-04-16', datetime('now')),
+  ('C933', 'COMO', 'CO', 'comune', '1884-12-22', NULL, datetime('now')),
+  ('C934', 'COMPIANO', 'PR', 'comune', '1893-08-11', NULL, datetime('now')),
+  ('C935', 'COMUNANZA', 'AP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C936', 'VALSOLDA', 'CO', 'comune', '1927-06-09', NULL, datetime('now')),
+  ('C937', 'COMUN NUOVO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C938', 'CONA', 'VE', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C939', 'CONCA DELLA CAMPANIA', 'NA', 'comune', '1862-11-24', NULL, datetime('now')),
+  ('C940', 'CONCA DEI MARINI', 'SA', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('C941', 'CONCA CASALE', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('C942', 'CONCADIRAME', 'RO', 'comune', '1866-11-19', '1927-09-04', datetime('now')),
+  ('C943', 'CONCAMARISE', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C944', 'CONCEI', 'TN', 'comune', '1952-09-20', '2010-01-01', datetime('now')),
+  ('C945', 'CONCENEDO', 'CO', 'comune', '1861-03-17', '1929-01-23', datetime('now')),
+  ('C946', 'CONCERVIANO', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C947', 'CONCESA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C948', 'CONCESIO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C949', 'CONCO', 'VI', 'comune', '1866-11-19', '2019-02-20', datetime('now')),
+  ('C950', 'CONCORDIA SAGITTARIA', 'VE', 'comune', '1868-12-31', NULL, datetime('now')),
+  ('C951', 'CONCORDIA SULLA SECCHIA', 'MO', 'comune', '1866-07-14', NULL, datetime('now')),
+  ('C952', 'CONCOREZZO', 'MB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C953', 'CONDINO', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('C954', 'CONDOFURI', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C955', 'CONDOVE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C956', 'CONDRÒ', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C957', 'CONEGLIANO', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C958', 'CONFIENZA', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C959', 'CONFIGNI', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C960', 'CONFLENTI', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C961', 'CONIO', 'IM', 'comune', '1861-03-17', '1928-12-08', datetime('now')),
+  ('C962', 'CONIOLO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C963', 'CONSELICE', 'RA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C964', 'CONSELVE', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C965', 'CONSIGLIO DI RUMO', 'CO', 'comune', '1861-03-17', '2011-02-11', datetime('now')),
+  ('C966', 'CONSONNO', 'CO', 'comune', '1861-03-17', '1928-08-16', datetime('now')),
+  ('C967', 'CONTARINA', 'RO', 'comune', '1873-04-10', '1995-01-01', datetime('now')),
+  ('C968', 'CONTESSA ENTELLINA', 'PA', 'comune', '1875-07-14', NULL, datetime('now')),
+  ('C969', 'CONTIGLIANO', 'RI', 'comune', '1880-04-05', NULL, datetime('now')),
+  ('C970', 'CONTRA', 'CO', 'comune', '1861-03-17', '1928-05-13', datetime('now')),
+  ('C971', 'CONTRADA', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C972', 'CONTROGUERRA', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C973', 'CONTRONE', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C974', 'CONTURSI TERME', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C975', 'CONVERSANO', 'BA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C976', 'CONZA DELLA CAMPANIA', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C977', 'CONZANO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C978', 'COPERTINO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C979', 'COPIANO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C980', 'COPPARO', 'FE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C981', 'COPRENO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('C982', 'CORANA', 'PV', 'comune', '1869-01-31', NULL, datetime('now')),
+  ('C983', 'CORATO', 'BA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C984', 'CORBARA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C985', 'CORBESATE', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('C986', 'CORBETTA', 'MI', 'comune', '1880-03-26', NULL, datetime('now')),
+  ('C987', 'CORBOLA', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C988', 'CORCHIANO', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('C989', 'CORCIAGO', 'NO', 'comune', '1861-03-17', '1928-05-03', datetime('now')),
+  ('C990', 'CORCIANO', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('C991', 'CORDENONS', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('C992', 'CORDIGNANO', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('C993', 'CORDOVADO', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('C994', 'COREDO', 'TN', 'comune', '1920-10-16', '2015-01-01', datetime('now')),
+  ('C995', 'COREGLIA LIGURE', 'GE', 'comune', '1888-02-03', NULL, datetime('now')),
+  ('C996', 'COREGLIA ANTELMINELLI', 'LU', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('C997', 'CORENNO PLINIO', 'CO', 'comune', '1864-03-11', '1928-01-27', datetime('now')),
+  ('C998', 'CORENO AUSONIO', 'FR', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('C999', 'CORFINIO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D001', 'CORGENO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('D002', 'CORGNALE', 'TS', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('D003', 'CORI', 'LT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('D004', 'CORIANO', 'RN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D005', 'CORIGLIANO CALABRO', 'CS', 'comune', '1863-02-06', '2018-03-31', datetime('now')),
+  ('D006', 'CORIGLIANO D''OTRANTO', 'LE', 'comune', '1862-11-28', NULL, datetime('now'));
+
+INSERT INTO belfioreCodes (code, name, province, kind, validFrom, validTo, updatedAt) VALUES
+  ('D007', 'CORINALDO', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D008', 'CORIO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D009', 'CORLEONE', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D010', 'CORLETO PERTICARA', 'PZ', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('D011', 'CORLETO MONFORTE', 'SA', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('D012', 'COURMAYEUR', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D013', 'CORMANO', 'MI', 'comune', '1871-05-01', NULL, datetime('now')),
+  ('D014', 'CORMONS', 'GO', 'comune', '1921-01-05', NULL, datetime('now')),
+  ('D015', 'CORNA IMAGNA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D016', 'CORNALBA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D017', 'CORNALE', 'PV', 'comune', '1861-03-17', '2014-02-04', datetime('now')),
+  ('D018', 'CORNAREDO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D019', 'CORNATE D''ADDA', 'MB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D020', 'CORNEDO VICENTINO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D021', 'CORNEGLIANO LAUDENSE', 'LO', 'comune', '1879-05-26', NULL, datetime('now')),
+  ('D022', 'CORNELIANO D''ALBA', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('D023', 'CORNELIANO BERTARIO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('D024', 'TARQUINIA', 'VT', 'comune', '1872-09-25', NULL, datetime('now')),
+  ('D025', 'CORNIGLIANO LIGURE', 'GE', 'comune', '1880-05-24', '1926-02-06', datetime('now')),
+  ('D026', 'CORNIGLIO', 'PR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D027', 'CORNO DI ROSAZZO', 'UD', 'comune', '1867-09-02', NULL, datetime('now')),
+  ('D028', 'CORNO GIOVINE', 'LO', 'comune', '1869-02-08', NULL, datetime('now')),
+  ('D029', 'CORNOVECCHIO', 'LO', 'comune', '1866-08-16', NULL, datetime('now')),
+  ('D030', 'CORNUDA', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D031', 'CORONA', 'GO', 'comune', '1921-01-05', '1928-09-09', datetime('now')),
+  ('D032', 'CURON', 'BZ', 'comune', '1920-10-16', '1928-06-16', datetime('now')),
+  ('D033', 'MORIMONDO', 'MI', 'comune', '1871-04-20', NULL, datetime('now')),
+  ('D034', 'CORPI SANTI DI CREMONA', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('D035', 'CORPI SANTI DI MILANO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('D036', 'CORPI SANTI DI PAVIA', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('D037', 'CORREGGIO', 'RE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D038', 'CORREZZANA', 'MB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D039', 'CORREZZO', 'VR', 'comune', '1866-11-19', '1928-06-15', datetime('now')),
+  ('D040', 'CORREZZOLA', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D041', 'CORRIDO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D042', 'CORRIDONIA', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D043', 'CORROPOLI', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D044', 'CORSANO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D045', 'CORSICO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D046', 'CORSIONE', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D047', 'CORTABBIO', 'CO', 'comune', '1861-03-17', '1927-12-25', datetime('now')),
+  ('D048', 'CORTACCIA SULLA STRADA DEL VINO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('D049', 'CORTALE', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D050', 'CORTANDONE', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D051', 'CORTANZE', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D052', 'CORTAZZONE', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D053', 'CORTE', 'BG', 'comune', '1892-07-22', '1927-04-03', datetime('now')),
+  ('D054', 'CORTE BRUGNATELLA', 'PC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D055', 'CORTE DE'' CORTESI', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('D056', 'CORTE DE'' CORTESI CON CIGNONE', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D057', 'CORTE DE'' FRATI', 'CR', 'comune', '1868-03-05', NULL, datetime('now')),
+  ('D058', 'CORTE FRANCA', 'BS', 'comune', '1928-07-29', NULL, datetime('now')),
+  ('D059', 'CORTI IN PUSTERIA', 'BZ', 'comune', '1920-10-16', '1929-03-25', datetime('now')),
+  ('D060', 'CORTE MADAMA', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('D061', 'CORTEMAGGIORE', 'PC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D062', 'CORTEMILIA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D063', 'CORTENEDOLO', 'BS', 'comune', '1861-03-17', '1927-08-13', datetime('now')),
+  ('D064', 'CORTENO GOLGI', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D065', 'CORTENOVA', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D066', 'CORTENUOVA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D067', 'CORTEOLONA', 'PV', 'comune', '1861-03-17', '2016-01-01', datetime('now')),
+  ('D068', 'CORTE PALASIO', 'LO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D069', 'CORTERANZO', 'AL', 'comune', '1861-03-17', '1928-12-01', datetime('now')),
+  ('D070', 'CORTE SANT''ANDREA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('D071', 'CORTETANO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('D072', 'CORTIGLIONE', 'AT', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('D073', 'CORTICELLE PIEVE', 'BS', 'comune', '1862-09-22', '1928-07-28', datetime('now')),
+  ('D074', 'CORTILE SAN MARTINO', 'PR', 'comune', '1861-03-17', '1943-05-29', datetime('now')),
+  ('D075', 'CORTINA SULLA STRADA DEL VINO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('D076', 'CORTINO', 'TE', 'comune', '1869-01-28', NULL, datetime('now')),
+  ('D077', 'CORTONA', 'AR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D078', 'CORVARA', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D079', 'CORVARA IN BADIA', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('D080', 'CORVARA IN PASSIRIA', 'BZ', 'comune', '1920-10-16', '1928-06-16', datetime('now')),
+  ('D081', 'CORVINO SAN QUIRICO', 'PV', 'comune', '1877-03-09', NULL, datetime('now')),
+  ('D082', 'CORZANO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D083', 'CORZES', 'BZ', 'comune', '1920-10-16', '1928-05-13', datetime('now')),
+  ('D084', 'COSBANA DEL COLLIO', 'GO', 'comune', '1921-01-05', '1928-03-07', datetime('now')),
+  ('D085', 'COSEANO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D086', 'COSENZA', 'CS', 'comune', '1893-10-26', NULL, datetime('now')),
+  ('D087', 'COSIO D''ARROSCIA', 'IM', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('D088', 'COSIO VALTELLINO', 'SO', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('D089', 'COSOLETO', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D090', 'COSSANA', 'TS', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('D091', 'DUE COSSANI', 'VA', 'comune', '1863-02-23', '1928-05-22', datetime('now')),
+  ('D092', 'COSSANO CANAVESE', 'AO', 'comune', '1864-04-01', NULL, datetime('now')),
+  ('D093', 'COSSANO BELBO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D094', 'COSSATO', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D095', 'COSSERIA', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D096', 'COSSIGNANO', 'AP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D097', 'COSSILA', 'VC', 'comune', '1861-03-17', '1940-08-03', datetime('now')),
+  ('D098', 'COSSIRANO', 'BS', 'comune', '1861-03-17', '1929-01-24', datetime('now')),
+  ('D099', 'COSSOGNO', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D100', 'COSSOINE', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D101', 'COSSOMBRATO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D102', 'COSTA VESCOVATO', 'AL', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('D103', 'COSTA VALLE IMAGNA', 'BG', 'comune', '1864-11-07', NULL, datetime('now')),
+  ('D104', 'COSTA D''ONEGLIA', 'IM', 'comune', '1862-11-10', '1923-11-29', datetime('now')),
+  ('D105', 'COSTA DI ROVIGO', 'RO', 'comune', '1867-07-22', NULL, datetime('now')),
+  ('D106', 'COSTA LOMBARDA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('D107', 'COSTABISSARA', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D108', 'COSTACCIARO', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D109', 'COSTA DE'' NOBILI', 'PV', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('D110', 'COSTA DI MEZZATE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D111', 'COSTA SERINA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D112', 'COSTA MASNAGA', 'LC', 'comune', '1870-03-01', NULL, datetime('now')),
+  ('D113', 'COSTANZANA', 'VC', 'comune', '1870-09-01', NULL, datetime('now')),
+  ('D114', 'COSTARAINERA', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D115', 'COSTA SANT''ABRAMO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('D116', 'COSTASAVINA', 'TN', 'comune', '1920-10-16', '1929-01-25', datetime('now')),
+  ('D117', 'COSTA VOLPINO', 'BG', 'comune', '1884-09-05', NULL, datetime('now')),
+  ('D118', 'COSTERMANO SUL GARDA', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D119', 'COSTIGLIOLE D''ASTI', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D120', 'COSTIGLIOLE SALUZZO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D121', 'COTIGNOLA', 'RA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D122', 'CROTONE', 'KR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D123', 'COTRONEI', 'KR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D124', 'COTTANELLO', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D125', 'COVELO', 'TN', 'comune', '1920-10-16', '1928-05-22', datetime('now')),
+  ('D126', 'COVO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D127', 'COZZO', 'PV', 'comune', '1890-06-15', NULL, datetime('now')),
+  ('D128', 'CRACO', 'MT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D129', 'CRANA', 'NO', 'comune', NULL, NULL, datetime('now')),
+  ('D130', 'CRANA GATTUGNO', 'NO', 'comune', '1861-03-17', '1928-03-25', datetime('now')),
+  ('D131', 'CRANDOLA VALSASSINA', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D132', 'CRAVAGLIANA', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D133', 'CRAVANZANA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D134', 'CRAVEGGIA', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D135', 'CRAVEGNA', 'NO', 'comune', '1861-03-17', '1928-11-11', datetime('now')),
+  ('D136', 'CREAZZO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D137', 'CRECCHIO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D138', 'CREDA', 'GO', 'comune', '1921-01-05', '1928-05-02', datetime('now')),
+  ('D139', 'CREDARO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D140', 'CREDERA', 'CR', 'comune', '1868-07-13', '1928-07-29', datetime('now')),
+  ('D141', 'CREDERA RUBBIANO', 'CR', 'comune', '1928-07-29', NULL, datetime('now')),
+  ('D142', 'CREMA', 'CR', 'comune', '1875-04-01', NULL, datetime('now')),
+  ('D143', 'CREMELLA', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D144', 'CREMENAGA', 'VA', 'comune', '1893-12-05', NULL, datetime('now')),
+  ('D145', 'CREMENO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D146', 'CREMEZZANO', 'BS', 'comune', '1861-03-17', '1927-12-28', datetime('now')),
+  ('D147', 'CREMIA', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D148', 'CREMNAGO', 'CO', 'comune', '1861-03-17', '1929-05-16', datetime('now')),
+  ('D149', 'CREMOLINO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D150', 'CREMONA', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D151', 'CREMOSANO', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D152', 'CRENNA', 'MI', 'comune', '1861-03-17', '1924-01-15', datetime('now')),
+  ('D153', 'CRENOVIZZA', 'TS', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('D154', 'CRESCENTINO', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D155', 'CRESCENZAGO', 'MI', 'comune', '1861-03-17', '1923-10-14', datetime('now')),
+  ('D156', 'CRESPADORO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D157', 'CRESPANO DEL GRAPPA', 'TV', 'comune', '1867-11-25', '2019-01-30', datetime('now')),
+  ('D158', 'CRESPELLANO', 'BO', 'comune', '1861-03-17', '2014-01-01', datetime('now')),
+  ('D159', 'CRESPIATICA', 'LO', 'comune', '1879-06-27', NULL, datetime('now')),
+  ('D160', 'CRESPINA', 'PI', 'comune', '1902-08-22', '2014-01-01', datetime('now')),
+  ('D161', 'CRESPINO', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D162', 'CRESSA', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D163', 'CRESSOGNO', 'CO', 'comune', '1861-03-17', '1927-06-10', datetime('now')),
+  ('D164', 'CRETO', 'TN', 'comune', '1920-10-16', '1928-03-07', datetime('now')),
+  ('D165', 'CREVACUORE', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D166', 'CREVALCORE', 'BO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D167', 'CREVENNA', 'CO', 'comune', '1861-03-17', '1928-01-26', datetime('now')),
+  ('D168', 'CREVOLADOSSOLA', 'VB', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('D169', 'CREVOLA SESIA', 'VC', 'comune', '1862-12-29', '1929-03-02', datetime('now')),
+  ('D170', 'CRISPANO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D171', 'CRISPIANO', 'TA', 'comune', '1919-11-29', NULL, datetime('now')),
+  ('D172', 'CRISSOLO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D173', 'CROCE', 'CO', 'comune', '1861-03-17', '1928-06-26', datetime('now')),
+  ('D174', 'CROCE DI MOSSO', 'VC', 'comune', '1861-03-17', '1929-06-16', datetime('now')),
+  ('D175', 'CROCEFIESCHI', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D176', 'CROCETTA', 'RO', 'comune', '1866-11-19', '1928-04-08', datetime('now')),
+  ('D177', 'CRODO', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D178', 'CROGNALETO', 'TE', 'comune', NULL, NULL, datetime('now')),
+  ('D179', 'CROGNALETO', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D180', 'CROPALATI', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D181', 'CROPANI', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D182', 'CROSA', 'BI', 'comune', '1861-03-17', '2016-01-01', datetime('now')),
+  ('D183', 'CROSARA', 'VI', 'comune', '1866-11-19', '1938-12-22', datetime('now')),
+  ('D184', 'CROSIA', 'CS', 'comune', '1902-07-19', NULL, datetime('now')),
+  ('D185', 'CROSIO DELLA VALLE', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D186', 'CROTTA D''ADDA', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D187', 'CROVA', 'VC', 'comune', '1891-03-06', NULL, datetime('now')),
+  ('D188', 'CROVIANA', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('D189', 'CRUCOLI', 'KR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D190', 'CRUGNOLA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('D191', 'CRUSINALLO', 'NO', 'comune', '1861-03-17', '1928-03-25', datetime('now')),
+  ('D192', 'CUASSO AL MONTE', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D193', 'VERONELLA', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D194', 'CUCCARO MONFERRATO', 'AL', 'comune', '1863-02-16', '2019-02-01', datetime('now')),
+  ('D195', 'CUCCARO VETERE', 'SA', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('D196', 'CUCCIAGO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D197', 'CUCEGLIO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D198', 'CUGGIONO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D199', 'CUGLIATE-FABIASCO', 'VA', 'comune', '1928-10-07', NULL, datetime('now')),
+  ('D200', 'CUGLIERI', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D201', 'CUGNOLI', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D202', 'CUMIANA', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D203', 'CUMIGNANO SUL NAVIGLIO', 'CR', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('D204', 'CUNARDO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D205', 'CUNEO', 'CN', 'comune', '1871-07-10', NULL, datetime('now')),
+  ('D206', 'CUNEVO', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('D207', 'CUNICO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D208', 'CUORGNÈ', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D209', 'CUPELLO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D210', 'CUPRA MARITTIMA', 'AP', 'comune', '1862-11-24', NULL, datetime('now')),
+  ('D211', 'CUPRAMONTANA', 'AN', 'comune', '1862-05-06', NULL, datetime('now')),
+  ('D212', 'CUQUELLO', 'AL', 'comune', '1861-03-17', '1928-12-15', datetime('now')),
+  ('D213', 'QUARAZZE', 'TN', 'comune', '1920-10-16', '1923-11-09', datetime('now')),
+  ('D214', 'CURCURIS', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D215', 'CURDOMO', 'BG', 'comune', '1927-10-13', '1947-10-21', datetime('now')),
+  ('D216', 'CUREGGIO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D217', 'CURIGLIA CON MONTEVIASCO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D218', 'CURINGA', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D219', 'CURINO', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D220', 'CURNASCO', 'BG', 'comune', '1861-03-17', '1928-12-14', datetime('now')),
+  ('D221', 'CURNO', 'BG', 'comune', '1890-04-28', NULL, datetime('now')),
+  ('D222', 'CURON VENOSTA', 'BZ', 'comune', '1928-06-15', NULL, datetime('now')),
+  ('D223', 'CURSI', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D224', 'CURSOLO', 'NO', 'comune', '1861-03-17', '1928-01-27', datetime('now')),
+  ('D225', 'CURSOLO-ORASSO', 'VB', 'comune', '1928-01-26', '2019-01-01', datetime('now')),
+  ('D226', 'CURTAROLO', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D227', 'CURTATONE', 'MN', 'comune', '1872-01-01', NULL, datetime('now')),
+  ('D228', 'CURTI', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D229', 'CUSAGO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D230', 'CUSANO MUTRI', 'BN', 'comune', '1867-03-19', NULL, datetime('now')),
+  ('D231', 'CUSANO MILANINO', 'MI', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('D232', 'CUSINO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D233', 'CUSIO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D234', 'CUSTONACI', 'TP', 'comune', '1948-12-25', NULL, datetime('now')),
+  ('D235', 'CUTIGLIANO', 'PT', 'comune', '1861-03-17', '2017-01-01', datetime('now')),
+  ('D236', 'CUTRO', 'KR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D237', 'CUTROFIANO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D238', 'CUVEGLIO', 'VA', 'comune', '1956-11-29', NULL, datetime('now')),
+  ('D239', 'CUVIO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D240', 'CUVIRONE', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('D241', 'CUZZAGO', 'NO', 'comune', '1861-03-17', '1928-07-29', datetime('now')),
+  ('D242', 'DAGNENTE', 'NO', 'comune', '1861-03-17', '1928-02-26', datetime('now')),
+  ('D243', 'DAIANO', 'TN', 'comune', '1920-10-16', '2020-01-01', datetime('now')),
+  ('D244', 'DAIRAGO', 'MI', 'comune', '1958-01-22', NULL, datetime('now')),
+  ('D245', 'DALMINE', 'BG', 'comune', '1927-08-20', NULL, datetime('now')),
+  ('D246', 'DAMBEL', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('D247', 'DANTA DI CADORE', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D248', 'DAONE', 'TN', 'comune', '1920-10-16', '2015-01-01', datetime('now')),
+  ('D249', 'DARDINE', 'TN', 'comune', '1920-10-16', '1929-01-24', datetime('now')),
+  ('D250', 'DARÈ', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('D251', 'DARFO BOARIO TERME', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D252', 'DARZO', 'TN', 'comune', '1920-10-16', '1928-04-17', datetime('now')),
+  ('D253', 'DASÀ', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D254', 'DASIO', 'CO', 'comune', '1861-03-17', '1927-06-10', datetime('now')),
+  ('D255', 'DAVAGNA', 'GE', 'comune', '1891-04-10', NULL, datetime('now')),
+  ('D256', 'DAVERIO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D257', 'DAVOLI', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D258', 'DAZIO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D259', 'DECIMOMANNU', 'CA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D260', 'DECIMOPUTZU', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D261', 'DECOLLATURA', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D262', 'DEGAGNA', 'BS', 'comune', '1861-03-17', '1928-06-14', datetime('now')),
+  ('D263', 'DEGGIANO', 'TN', 'comune', '1920-10-16', '1928-10-07', datetime('now')),
+  ('D264', 'DEGO', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D265', 'DEIVA MARINA', 'SP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D266', 'DELEBIO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D267', 'DELIA', 'CL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D268', 'DELIANUOVA', 'RC', 'comune', '1878-02-11', NULL, datetime('now')),
+  ('D269', 'DELICETO', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D270', 'DELLO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D271', 'DEMONTE', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D272', 'DENICE', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D273', 'DENNO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('D274', 'DERCOLO', 'TN', 'comune', '1920-10-16', '1928-10-30', datetime('now')),
+  ('D275', 'DERGANO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('D276', 'DERMULO', 'TN', 'comune', '1920-10-16', '1929-01-24', datetime('now')),
+  ('D277', 'DERNICE', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D278', 'DEROVERE', 'CR', 'comune', '1868-06-14', NULL, datetime('now')),
+  ('D279', 'DERUTA', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D280', 'DERVIO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D281', 'DESANA', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D282', 'DESCLA', 'GO', 'comune', '1921-01-05', '1928-05-12', datetime('now')),
+  ('D283', 'DESENZANO AL SERIO', 'BG', 'comune', '1863-07-13', '1928-02-16', datetime('now')),
+  ('D284', 'DESENZANO DEL GARDA', 'BS', 'comune', '1862-09-22', NULL, datetime('now')),
+  ('D285', 'DESÉRTES', 'TO', 'comune', '1861-03-17', '1928-12-14', datetime('now')),
+  ('D286', 'DESIO', 'MB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D287', 'DESULO', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D288', 'DEZZO DI SCALVE', 'BG', 'comune', '1928-02-23', '1947-05-23', datetime('now')),
+  ('D289', 'DIAMANTE', 'CS', 'comune', '1876-07-15', NULL, datetime('now')),
+  ('D290', 'SCIGLIANO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D291', 'DIANO D''ALBA', 'CN', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('D292', 'TEGGIANO', 'SA', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('D293', 'DIANO ARENTINO', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D294', 'DIANO BORELLO', 'IM', 'comune', '1861-03-17', '1924-02-04', datetime('now')),
+  ('D295', 'DIANO CALDERINA', 'IM', 'comune', '1861-03-17', '1924-02-04', datetime('now')),
+  ('D296', 'DIANO CASTELLO', 'IM', 'comune', '1871-05-01', NULL, datetime('now')),
+  ('D297', 'DIANO MARINA', 'IM', 'comune', '1871-05-01', NULL, datetime('now')),
+  ('D298', 'DIANO SAN PIETRO', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D299', 'DICOMANO', 'FI', 'comune', '1893-04-10', NULL, datetime('now')),
+  ('D300', 'DIGNANO', 'UD', 'comune', '1867-09-02', NULL, datetime('now')),
+  ('D301', 'DIGNANO D''ISTRIA', 'PL', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('D302', 'DIMARO', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('D303', 'DINAMI', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D304', 'DIPIGNANO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D305', 'DISO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D306', 'DISSIMO', 'NO', 'comune', '1861-03-17', '1928-07-01', datetime('now')),
+  ('D307', 'DIVACCIA GROTTE DEL TIMAVO', 'TS', 'comune', '1923-02-08', '1947-09-16', datetime('now')),
+  ('D308', 'DIVACCIA SAN CANZIANO', 'TS', 'comune', NULL, NULL, datetime('now')),
+  ('D309', 'DIVIGNANO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D310', 'DIZZASCO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D311', 'DOBBIACO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('D312', 'DOBERDÒ DEL LAGO', 'GO', 'comune', '1921-01-05', NULL, datetime('now')),
+  ('D313', 'DOCCIO', 'VC', 'comune', '1861-03-17', '1928-09-06', datetime('now')),
+  ('D314', 'DOGLIANI', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D315', 'DOGLIOLA', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D316', 'DOGNA', 'UD', 'comune', '1871-08-03', NULL, datetime('now')),
+  ('D317', 'DOLCÈ', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D318', 'DOLCEACQUA', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D319', 'DOLCEDO', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D320', 'DOLE', 'GO', 'comune', '1921-01-05', '1928-08-24', datetime('now')),
+  ('D321', 'DOLEGNA DEL COLLIO', 'GO', 'comune', '1921-01-05', NULL, datetime('now')),
+  ('D322', 'DOL GRANDE', 'GO', 'comune', '1921-01-05', '1928-08-24', datetime('now')),
+  ('D323', 'DOLIANOVA', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D324', 'SAN DORLIGO DELLA VALLE', 'TS', 'comune', '1921-01-05', NULL, datetime('now')),
+  ('D325', 'DOLO', 'VE', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D326', 'DOL-OTTELZA', 'GO', 'comune', '1921-01-05', '1928-07-28', datetime('now')),
+  ('D327', 'DOLZAGO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D328', 'DOMANICO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D329', 'DOMASO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D330', 'DOMEGGE DI CADORE', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D331', 'DOMICELLA', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D332', 'DOMODOSSOLA', 'VB', 'comune', '1884-07-04', NULL, datetime('now')),
+  ('D333', 'DOMUS DE MARIA', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D334', 'DOMUSNOVAS', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D335', 'DOMUSNOVAS CANALES', 'CA', 'comune', '1861-03-17', '1927-07-28', datetime('now')),
+  ('D336', 'DON', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('D337', 'DONADA', 'RO', 'comune', '1866-11-19', '1995-01-01', datetime('now')),
+  ('D338', 'DONNAS', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D339', 'DONATO', 'BI', 'comune', '1870-01-11', NULL, datetime('now')),
+  ('D340', 'DONELASCO', 'PV', 'comune', '1861-03-17', '1929-05-30', datetime('now')),
+  ('D341', 'DONGO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D342', 'DONIGALA FENUGHEDU', 'CA', 'comune', '1862-09-29', '1927-11-09', datetime('now')),
+  ('D343', 'DONIGALA SIURGUS', 'CA', 'comune', '1862-09-29', '1927-09-16', datetime('now')),
+  ('D344', 'DONORI', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D345', 'DORGALI', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D346', 'DORIO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D347', 'DORMELLETTO', 'NO', 'comune', '1902-01-24', NULL, datetime('now')),
+  ('D348', 'DORNO', 'PV', 'comune', '1866-01-21', NULL, datetime('now')),
+  ('D349', 'DORSINO', 'TN', 'comune', '1920-10-16', '2015-01-01', datetime('now')),
+  ('D350', 'DORZANO', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D351', 'DOSOLO', 'MN', 'comune', '1868-07-01', NULL, datetime('now')),
+  ('D352', 'DOSSENA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D353', 'DOSSO BAROARDO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('D354', 'DOSSO DE'' FRATI', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('D355', 'DOSSO DEL LIRO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D356', 'DOUES', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D357', 'DOVADOLA', 'FC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D358', 'DOVERA', 'CR', 'comune', '1868-08-18', NULL, datetime('now')),
+  ('D359', 'DOZIO', 'CO', 'comune', '1861-03-17', '1927-10-10', datetime('now')),
+  ('D360', 'DOZZA', 'BO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D361', 'DRAGONI', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D362', 'DRAGUCCIO', 'PL', 'comune', '1922-02-02', '1928-12-01', datetime('now')),
+  ('D363', 'DRANO', 'CO', 'comune', '1861-03-17', '1927-06-10', datetime('now')),
+  ('D364', 'DRAPIA', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D365', 'DRENA', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('D366', 'DRENCHIA', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D367', 'DRESANO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D368', 'DRESENZA', 'GO', 'comune', '1921-01-05', '1928-05-02', datetime('now')),
+  ('D369', 'DREZZO', 'CO', 'comune', '1861-03-17', '2014-02-04', datetime('now')),
+  ('D370', 'DRIZZONA', 'CR', 'comune', '1868-01-01', '2019-01-01', datetime('now')),
+  ('D371', 'DRO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('D372', 'DRONERO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D373', 'DRUENTO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D374', 'DRUOGNO', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D375', 'DRUSACCO', 'AO', 'comune', '1861-03-17', '1929-05-29', datetime('now')),
+  ('D376', 'DUALCHI', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D377', 'DUBINO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D378', 'DUEMIGLIA', 'CR', 'comune', '1868-01-01', '1920-02-28', datetime('now')),
+  ('D379', 'DUEVILLE', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D380', 'DUGENTA', 'BN', 'comune', '1957-01-11', NULL, datetime('now')),
+  ('D381', 'DUGNANO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('D382', 'DUINO', 'TS', 'comune', '1921-01-05', '1928-09-09', datetime('now')),
+  ('D383', 'DUINO AURISINA', 'TS', 'comune', '1928-09-09', NULL, datetime('now')),
+  ('D384', 'DUMENZA', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D385', 'DUNO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D386', 'DURAZZANO', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D387', 'DUSINO', 'AL', 'comune', '1861-03-17', '1928-02-22', datetime('now')),
+  ('D388', 'DUSINO SAN MICHELE', 'AT', 'comune', '1928-02-21', NULL, datetime('now')),
+  ('D389', 'DUTTOGLIANO', 'TS', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('D390', 'EBOLI', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D391', 'EDOLO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D392', 'EGNA', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('D393', 'ELENA', 'RM', 'comune', '1897-04-01', '1927-03-17', datetime('now')),
+  ('D394', 'ELICE', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D395', 'ELINI', 'OG', 'comune', '1958-08-15', NULL, datetime('now')),
+  ('D396', 'ELLE', 'BZ', 'comune', '1920-10-16', '1928-12-15', datetime('now')),
+  ('D397', 'ELLERA', 'SV', 'comune', '1861-03-17', '1929-04-12', datetime('now')),
+  ('D398', 'ELLO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D399', 'ELMAS', 'CA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D400', 'ELSANE', 'FU', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('D401', 'ELVA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D402', 'EMARÈSE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D403', 'EMPOLI', 'FI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D404', 'ENDENNA', 'BG', 'comune', '1861-03-17', '1928-03-27', datetime('now')),
+  ('D405', 'ENDINE', 'BG', 'comune', '1861-03-17', '1928-07-29', datetime('now')),
+  ('D406', 'ENDINE GAIANO', 'BG', 'comune', '1928-07-29', NULL, datetime('now')),
+  ('D407', 'ENEGO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D408', 'ENEMONZO', 'UD', 'comune', '1923-02-08', NULL, datetime('now')),
+  ('D409', 'ENGUISO', 'TN', 'comune', '1920-10-16', '1928-02-09', datetime('now')),
+  ('D410', 'ENTRACQUE', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D411', 'ENTRATICO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D412', 'ENVIE', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D413', 'EORES', 'BZ', 'comune', '1920-10-16', '1929-01-23', datetime('now')),
+  ('D414', 'EPISCOPIA', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D415', 'ERACLEA', 'VE', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D416', 'ERBA', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D417', 'ERBA INCINO', 'CO', 'comune', '1906-11-13', '1928-01-26', datetime('now')),
+  ('D418', 'ERBANNO', 'BS', 'comune', '1861-03-17', '1929-05-04', datetime('now')),
+  ('D419', 'ERBÈ', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D420', 'ERBEZZO', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D421', 'ERBUSCO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D422', 'ERCHIE', 'BR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D423', 'ERICE', 'TP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D424', 'ERLI', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D425', 'ERPELLE-COSINA', 'PL', 'comune', '1923-02-08', '1947-09-16', datetime('now')),
+  ('D426', 'ERTO E CASSO', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('D427', 'ERSEL IN MONTE', 'GO', 'comune', '1921-01-05', '1928-04-29', datetime('now')),
+  ('D428', 'ERVE', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D429', 'ESANATOGLIA', 'MC', 'comune', '1862-09-29', NULL, datetime('now')),
+  ('D430', 'ESCALAPLANO', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D431', 'ESCOLCA', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D432', 'ESCOVEDU', 'CA', 'comune', '1861-03-17', '1927-10-10', datetime('now')),
+  ('D433', 'EXILLES', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D434', 'ESINE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D435', 'ESINO INFERIORE', 'CO', 'comune', '1861-03-17', '1927-10-10', datetime('now')),
+  ('D436', 'ESINO LARIO', 'LC', 'comune', '1927-10-09', NULL, datetime('now')),
+  ('D437', 'ESINO SUPERIORE', 'CO', 'comune', '1861-03-17', '1927-10-10', datetime('now')),
+  ('D438', 'ESIO', 'NO', 'comune', '1861-03-17', '1928-01-27', datetime('now')),
+  ('D439', 'ESMATE', 'BG', 'comune', '1861-03-17', '1928-03-07', datetime('now')),
+  ('D440', 'ESPERIA', 'FR', 'comune', '1868-01-01', NULL, datetime('now')),
+  ('D441', 'ESPORLATU', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D442', 'ESTE', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D443', 'ESTERZILI', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D444', 'ETROUBLES', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D445', 'EUPILIO', 'CO', 'comune', '1927-07-15', NULL, datetime('now')),
+  ('D446', 'FABIASCO', 'VA', 'comune', '1861-03-17', '1928-10-08', datetime('now')),
+  ('D447', 'FABBRICA CURONE', 'AL', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('D448', 'FABBRICA DURINI', 'CO', 'comune', '1863-02-23', '1928-09-25', datetime('now')),
+  ('D449', 'FABBRICHE DI VALLICO', 'LU', 'comune', '1861-03-17', '2014-01-01', datetime('now')),
+  ('D450', 'FABBRICO', 'RE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D451', 'FABRIANO', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D452', 'FABRICA DI ROMA', 'VT', 'comune', '1873-01-28', NULL, datetime('now')),
+  ('D453', 'FABRIZIA', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D454', 'FABRO', 'TR', 'comune', '1869-05-24', NULL, datetime('now')),
+  ('D455', 'FAEDIS', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D456', 'FAEDO VALTELLINO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D457', 'FAEDO', 'TN', 'comune', '1920-10-16', '2020-01-01', datetime('now')),
+  ('D458', 'FAENZA', 'RA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D459', 'FAETO', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D460', 'FAETTO', 'TO', 'comune', '1861-03-17', '1928-05-01', datetime('now')),
+  ('D461', 'FAGAGNA', 'UD', 'comune', '1923-02-08', NULL, datetime('now')),
+  ('D462', 'FAGGETO LARIO', 'CO', 'comune', '1928-05-12', NULL, datetime('now')),
+  ('D463', 'FAGGIANO', 'TA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D464', 'FAGNANO CASTELLO', 'CS', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('D465', 'FAGNANO ALTO', 'AQ', 'comune', '1863-05-06', NULL, datetime('now')),
+  ('D466', 'FAGNANO SUL NAVIGLIO', 'MI', 'comune', '1861-03-17', '1869-03-21', datetime('now')),
+  ('D467', 'FAGNANO OLONA', 'VA', 'comune', '1893-01-27', NULL, datetime('now')),
+  ('D468', 'FAI DELLA PAGANELLA', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('D469', 'FAICCHIO', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D470', 'FALCADE', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D471', 'FALCIANO DEL MASSICO', 'CE', 'comune', '1964-09-01', NULL, datetime('now')),
+  ('D472', 'FALCONARA MARITTIMA', 'AN', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('D473', 'FALCONARA ALBANESE', 'CS', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('D474', 'FALCONE', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D475', 'FALERIA', 'VT', 'comune', '1874-03-16', NULL, datetime('now')),
+  ('D476', 'FALERNA', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D477', 'FALERONE', 'FM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D478', 'FALESINA', 'TN', 'comune', '1920-10-16', '1929-01-25', datetime('now')),
+  ('D479', 'FALLASCOSO', 'CH', 'comune', '1861-03-17', '1928-07-18', datetime('now')),
+  ('D480', 'FALLO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D481', 'FALMENTA', 'VB', 'comune', '1861-03-17', '2019-01-01', datetime('now')),
+  ('D482', 'FALOPPIO', 'CO', 'comune', '1928-05-12', NULL, datetime('now')),
+  ('D483', 'FALVATERRA', 'FR', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('D484', 'FALZES', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('D485', 'FAMIE', 'TS', 'comune', '1921-01-05', '1927-06-02', datetime('now')),
+  ('D486', 'FANANO', 'MO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D487', 'FANNA', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('D488', 'FANO', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D489', 'FANO ADRIANO', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D490', 'FARA GERA D''ADDA', 'BG', 'comune', '1871-08-01', NULL, datetime('now')),
+  ('D491', 'FARA OLIVANA CON SOLA', 'BG', 'comune', '1864-06-23', NULL, datetime('now')),
+  ('D492', 'FARA NOVARESE', 'NO', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('D493', 'FARA IN SABINA', 'RI', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('D494', 'FARA FILIORUM PETRI', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D495', 'FARA SAN MARTINO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D496', 'FARA VICENTINO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D497', 'FARDELLA', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D498', 'FARFENGO', 'BS', 'comune', '1861-03-17', '1928-01-01', datetime('now')),
+  ('D499', 'FARIGLIANO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D500', 'FARINATE', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('D501', 'FARINDOLA', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D502', 'FARINI', 'PC', 'comune', '1868-01-01', NULL, datetime('now')),
+  ('D503', 'FARNESE', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('D504', 'FARRA D''ISONZO', 'GO', 'comune', '1921-01-05', NULL, datetime('now')),
+  ('D505', 'FARRA DI SOLIGO', 'TV', 'comune', '1867-11-25', NULL, datetime('now')),
+  ('D506', 'FARRA D''ALPAGO', 'BL', 'comune', '1866-11-19', '2016-02-23', datetime('now'));
+
+INSERT INTO belfioreCodes (code, name, province, kind, validFrom, validTo, updatedAt) VALUES
+  ('D507', 'FASANA', 'PL', 'comune', NULL, NULL, datetime('now')),
+  ('D508', 'FASANO', 'BR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D509', 'FASCIA', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D510', 'FAUGLIA', 'PI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D511', 'FAULE', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D512', 'FAVALE DI MALVARO', 'GE', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('D513', 'VALSINNI', 'MT', 'comune', '1873-09-29', NULL, datetime('now')),
+  ('D514', 'FAVARA', 'AG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D515', 'FAVARO VENETO', 'VE', 'comune', '1873-12-29', '1926-08-24', datetime('now')),
+  ('D516', 'FAVER', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('D517', 'FAVERZANO', 'BS', 'comune', '1861-03-17', '1928-02-16', datetime('now')),
+  ('D518', 'FAVIGNANA', 'TP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D519', 'FAVOGNA DI SOTTO', 'BZ', 'comune', '1920-10-16', '1928-06-28', datetime('now')),
+  ('D520', 'FAVRIA', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D521', 'FAVRIA-OGLIANICO', 'TO', 'comune', '1927-11-02', '1946-07-19', datetime('now')),
+  ('D522', 'ORCO FEGLINO', 'SV', 'comune', '1869-10-11', NULL, datetime('now')),
+  ('D523', 'FEISOGLIO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D524', 'FELETTO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D525', 'FELETTO UMBERTO', 'UD', 'comune', '1867-09-02', '1928-05-14', datetime('now')),
+  ('D526', 'FELINO', 'PR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D527', 'FELITTO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D528', 'FELIZZANO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D529', 'FELONICA', 'MN', 'comune', '1866-11-19', '2017-03-01', datetime('now')),
+  ('D530', 'FELTRE', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D531', 'FENEGRÒ', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D532', 'FENESTRELLE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D533', 'FENGO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('D534', 'FENIGLI', 'PU', 'comune', NULL, NULL, datetime('now')),
+  ('D535', 'FENILE', 'TO', 'comune', '1861-03-17', '1927-10-22', datetime('now')),
+  ('D536', 'FENILS', 'TO', 'comune', '1861-03-17', '1928-12-14', datetime('now')),
+  ('D537', 'FÉNIS', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D538', 'FERENTILLO', 'TR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D539', 'FERENTINO', 'FR', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('D540', 'FERLA', 'SR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D541', 'FERMIGNANO', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D542', 'FERMO', 'FM', 'comune', '1877-12-03', NULL, datetime('now')),
+  ('D543', 'FERNO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D544', 'FEROLETO ANTICO', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D545', 'FEROLETO DELLA CHIESA', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D546', 'PIANOPOLI', 'CZ', 'comune', '1872-04-26', NULL, datetime('now')),
+  ('D547', 'FERRANDINA', 'MT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D548', 'FERRARA', 'FE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D549', 'FERRARA DI MONTE BALDO', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D550', 'FERRAZZANO', 'CB', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('D551', 'FERRERA DI VARESE', 'VA', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('D552', 'FERRERA ERBOGNONE', 'PV', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('D553', 'MONCENISIO', 'TO', 'comune', '1864-03-11', NULL, datetime('now')),
+  ('D554', 'FERRERE', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D555', 'FERRIERE', 'PC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D556', 'FERRUTA', 'VC', 'comune', NULL, NULL, datetime('now')),
+  ('D557', 'FERRUZZANO', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D558', 'FERTILIA', 'CE', 'comune', '1929-04-23', '1946-12-22', datetime('now')),
+  ('D559', 'FRACONALTO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D560', 'FIAMIGNANO', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D561', 'FIANO ROMANO', 'RM', 'comune', '1872-09-02', NULL, datetime('now')),
+  ('D562', 'FIANO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D563', 'FIANONA', 'PL', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('D564', 'FIASTRA', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D565', 'FIAVÈ', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('D566', 'POGGIO SAN VICINO', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D567', 'FICARAZZI', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D568', 'FICAROLO', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D569', 'FICARRA', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D570', 'FICULLE', 'TR', 'comune', '1887-07-22', NULL, datetime('now')),
+  ('D571', 'FIÈ ALLO SCILIAR', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('D572', 'FIERA DI PRIMIERO', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('D573', 'FIEROZZO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('D574', 'FIESCO', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D575', 'FIESOLE', 'FI', 'comune', '1865-08-13', NULL, datetime('now')),
+  ('D576', 'FIESSE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D577', 'FIESSO UMBERTIANO', 'RO', 'comune', '1867-07-22', NULL, datetime('now')),
+  ('D578', 'FIESSO D''ARTICO', 'VE', 'comune', '1867-08-05', NULL, datetime('now')),
+  ('D579', 'FIGINO SERENZA', 'CO', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('D580', 'FIGINO DI MILANO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('D581', 'MIRABELLO COMASCO', 'CO', 'comune', '1928-02-21', '1948-03-22', datetime('now')),
+  ('D582', 'FIGLINE VEGLIATURO', 'CS', 'comune', '1864-01-29', NULL, datetime('now')),
+  ('D583', 'FIGLINE VALDARNO', 'FI', 'comune', '1864-01-29', '2014-01-01', datetime('now')),
+  ('D584', 'FIGU', 'CA', 'comune', '1861-03-17', '1928-06-01', datetime('now')),
+  ('D585', 'GONNOSNÒ', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('D586', 'FILACCIANO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('D587', 'FILADELFIA', 'VV', 'comune', '1867-07-19', NULL, datetime('now')),
+  ('D588', 'FILAGO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D589', 'FILANDARI', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D590', 'FILATTIERA', 'MS', 'comune', '1865-12-25', NULL, datetime('now')),
+  ('D591', 'FILETTINO', 'FR', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('D592', 'FILETTO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D593', 'FILIANO', 'PZ', 'comune', '1952-01-01', NULL, datetime('now')),
+  ('D594', 'FILIGHERA', 'PV', 'comune', '1871-06-01', NULL, datetime('now')),
+  ('D595', 'FILIGNANO', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('D596', 'FILOGASO', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D597', 'FILOTTRANO', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D598', 'FINALBORGO', 'SV', 'comune', '1877-05-18', '1927-01-13', datetime('now')),
+  ('D599', 'FINALE EMILIA', 'MO', 'comune', '1863-08-10', NULL, datetime('now')),
+  ('D600', 'FINALE LIGURE', 'SV', 'comune', '1927-01-12', NULL, datetime('now')),
+  ('D601', 'FINALE MARINA', 'SV', 'comune', '1861-03-17', '1927-01-13', datetime('now')),
+  ('D602', 'FINALE PIA', 'SV', 'comune', '1869-07-31', '1927-01-13', datetime('now')),
+  ('D603', 'FINERO', 'NO', 'comune', '1861-03-17', '1928-07-01', datetime('now')),
+  ('D604', 'FINO DEL MONTE', 'BG', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('D605', 'FINO MORNASCO', 'CO', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('D606', 'FIORANO AL SERIO', 'BG', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('D607', 'FIORANO MODENESE', 'MO', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('D608', 'FIORANO CANAVESE', 'AO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('D609', 'FIORDIMONTE', 'MC', 'comune', '1861-03-17', '2017-01-01', datetime('now')),
+  ('D610', 'FIORENZUOLA DI FOCARA', 'PS', 'comune', '1888-10-07', '1929-04-11', datetime('now')),
+  ('D611', 'FIORENZUOLA D''ARDA', 'PC', 'comune', '1866-03-03', NULL, datetime('now')),
+  ('D612', 'FIRENZE', 'FI', 'comune', '1869-12-10', NULL, datetime('now')),
+  ('D613', 'FIRENZUOLA', 'FI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D614', 'FIRMO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D615', 'FISCIANO', 'SA', 'comune', '1869-08-24', NULL, datetime('now')),
+  ('D616', 'FISTO', 'TN', 'comune', '1920-10-16', '1928-10-30', datetime('now')),
+  ('D617', 'FIUMALBO', 'MO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D618', 'FIUMANA', 'FO', 'comune', '1861-03-17', '1925-11-02', datetime('now')),
+  ('D619', 'FIUMARA', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D620', 'FIUME', 'FU', 'comune', '1924-03-09', '1947-09-16', datetime('now')),
+  ('D621', 'FIUME VENETO', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('D622', 'FIUMEDINISI', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D623', 'FIUMEFREDDO DI SICILIA', 'CT', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('D624', 'FIUMEFREDDO BRUZIO', 'CS', 'comune', '1862-12-12', NULL, datetime('now')),
+  ('D625', 'FIUMENERO', 'BG', 'comune', '1861-03-17', '1927-10-11', datetime('now')),
+  ('D626', 'FIUMICELLO URAGO', 'BS', 'comune', NULL, NULL, datetime('now')),
+  ('D627', 'FIUMICELLO', 'UD', 'comune', '1867-09-02', '2018-02-01', datetime('now')),
+  ('D628', 'FIUMINATA', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D629', 'FIVIZZANO', 'MS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D630', 'FLAIBANO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D631', 'FLAVON', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('D632', 'FLECCHIA', 'VC', 'comune', '1861-03-17', '1928-03-14', datetime('now')),
+  ('D633', 'FLERES', 'BZ', 'comune', '1920-10-16', '1929-02-15', datetime('now')),
+  ('D634', 'FLERO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D635', 'FLORESTA', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D636', 'FLORIDIA', 'SR', 'comune', '1868-09-15', NULL, datetime('now')),
+  ('D637', 'FLORINAS', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D638', 'FLUMERI', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D639', 'FLUMINIMAGGIORE', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D640', 'FLUSSIO', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D641', 'FOBELLO', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D642', 'FOCE', 'GE', 'comune', '1861-03-17', '1873-11-09', datetime('now')),
+  ('D643', 'FOGGIA', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D644', 'FOGLIANISE', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D645', 'FOGLIANO REDIPUGLIA', 'GO', 'comune', '1921-01-05', NULL, datetime('now')),
+  ('D646', 'FOGLIZZO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D647', 'FOGNA', 'SA', 'comune', NULL, NULL, datetime('now')),
+  ('D648', 'FOIANA', 'BZ', 'comune', '1920-10-16', '1929-05-19', datetime('now')),
+  ('D649', 'FOIANO DELLA CHIANA', 'AR', 'comune', '1862-11-28', NULL, datetime('now')),
+  ('D650', 'FOIANO DI VAL FORTORE', 'BN', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('D651', 'FOLGARIA', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('D652', 'FOLIGNANO', 'AP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D653', 'FOLIGNO', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D654', 'FOLLINA', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D655', 'FOLLO', 'SP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D656', 'FOLLONICA', 'GR', 'comune', '1920-10-19', NULL, datetime('now')),
+  ('D657', 'FOLSOGNO', 'NO', 'comune', '1861-03-17', '1928-07-01', datetime('now')),
+  ('D658', 'FOLZANO', 'BS', 'comune', NULL, NULL, datetime('now')),
+  ('D659', 'FOMARCO', 'NO', 'comune', '1861-03-17', '1928-07-30', datetime('now')),
+  ('D660', 'FOMBIO', 'LO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D661', 'FONDACHELLI-FANTINA', 'ME', 'comune', '1950-07-15', NULL, datetime('now')),
+  ('D662', 'FONDI', 'LT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D663', 'FONDO', 'TN', 'comune', '1920-10-16', '2020-01-01', datetime('now')),
+  ('D664', 'FONDRA', 'BG', 'comune', '1861-03-17', '1928-08-15', datetime('now')),
+  ('D665', 'FONNI', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D666', 'FONTAINEMORE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D667', 'FONTANA LIRI', 'FR', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('D668', 'FONTANELICE', 'BO', 'comune', '1884-06-18', NULL, datetime('now')),
+  ('D669', 'FONTANA DEL CONTE', 'FU', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('D670', 'FONTANAFREDDA', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('D671', 'FONTANAROSA', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D672', 'FONTANELLA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D673', 'FONTANELLATO', 'PR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D674', 'FONTANELLE', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D675', 'FONTANETO D''AGOGNA', 'NO', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('D676', 'FONTANETTO PO', 'VC', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('D677', 'FONTANIGORDA', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D678', 'FONTANILE', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D679', 'FONTANIVA', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D680', 'FONTE', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D681', 'FONTECCHIO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D682', 'FONTECHIARI', 'FR', 'comune', '1862-10-27', NULL, datetime('now')),
+  ('D683', 'FONTEGRECA', 'CB', 'comune', '1862-09-08', NULL, datetime('now')),
+  ('D684', 'FONTENO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D685', 'FONTEVIVO', 'PR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D686', 'FONZASO', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D687', 'FOPPA', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('D688', 'FOPPOLO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D689', 'FORANO', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D690', 'SAN GIOVANNI TEATINO', 'CH', 'comune', '1895-01-07', NULL, datetime('now')),
+  ('D691', 'FORCE', 'AP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D692', 'FORCELLO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('D693', 'FORCHIA', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D694', 'FORCOLA', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D695', 'FORDONGIANUS', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('D696', 'FORENZA', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D697', 'FORESTO SPARSO', 'BG', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('D698', 'FORESTO SESIA', 'VC', 'comune', '1862-12-29', '1928-09-06', datetime('now')),
+  ('D699', 'FORESTO DI SUSA', 'TO', 'comune', '1864-03-11', '1928-11-10', datetime('now')),
+  ('D700', 'FORGARIA NEL FRIULI', 'PN', 'comune', '1872-01-01', NULL, datetime('now')),
+  ('D701', 'FORINO', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D702', 'FORIO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D703', 'FORLÌ DEL SANNIO', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('D704', 'FORLÌ', 'FC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D705', 'FORLIMPOPOLI', 'FC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D706', 'FORMAZZA', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D707', 'FORMELLO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('D708', 'FORMIA', 'LT', 'comune', '1862-03-28', NULL, datetime('now')),
+  ('D709', 'FORMICOLA', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D710', 'FORMIGARA', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D711', 'FORMIGINE', 'MO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D712', 'FORMIGLIANA', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D713', 'FORMIGNANA', 'FE', 'comune', '1909-01-23', '2019-01-01', datetime('now')),
+  ('D714', 'FORNACE', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('D715', 'FORNELLI', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('D716', 'FORNERO', 'NO', 'comune', '1884-08-05', '1928-01-27', datetime('now')),
+  ('D717', 'TONEZZA DEL CIMONE', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D718', 'FORNI AVOLTRI', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D719', 'FORNI DI SOPRA', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D720', 'FORNI DI SOTTO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D721', 'FORNI DI VAL D''ASTICO', 'VI', 'comune', '1926-03-06', '1940-09-13', datetime('now')),
+  ('D722', 'FORNO', 'NO', 'comune', '1861-03-17', '1928-01-27', datetime('now')),
+  ('D723', 'FORNO', 'TN', 'comune', '1920-10-16', '1928-10-07', datetime('now')),
+  ('D724', 'FORNO ALPI GRAJE', 'TO', 'comune', '1873-04-25', '1928-01-07', datetime('now')),
+  ('D725', 'FORNO CANAVESE', 'TO', 'comune', '1896-05-11', NULL, datetime('now')),
+  ('D726', 'FORNO DI ZOLDO', 'BL', 'comune', '1866-11-19', '2016-02-23', datetime('now')),
+  ('D727', 'FORNOVO SAN GIOVANNI', 'BG', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('D728', 'FORNOVO DI TARO', 'PR', 'comune', '1893-12-05', NULL, datetime('now')),
+  ('D729', 'FOROTONDO', 'AL', 'comune', '1861-03-17', '1928-09-25', datetime('now')),
+  ('D730', 'FORTE DEI MARMI', 'LU', 'comune', '1913-05-11', NULL, datetime('now')),
+  ('D731', 'FORTEZZA', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('D732', 'FORTUNAGO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D733', 'FORZA D''AGRÒ', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D734', 'FOSCIANDORA', 'LU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D735', 'FOSDINOVO', 'MS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D736', 'FOSSA', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D737', 'FOSSALTO', 'CB', 'comune', '1885-02-06', NULL, datetime('now')),
+  ('D738', 'FOSSACESIA', 'CH', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('D739', 'FOSSA GUAZZONA', 'CR', 'comune', '1861-03-17', '1868-01-01', datetime('now')),
+  ('D740', 'FOSSALTA DI PIAVE', 'VE', 'comune', '1867-08-05', NULL, datetime('now')),
+  ('D741', 'FOSSALTA DI PORTOGRUARO', 'VE', 'comune', '1867-08-05', NULL, datetime('now')),
+  ('D742', 'FOSSANO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D743', 'FOSSARMATO', 'PV', 'comune', '1883-06-21', '1939-07-14', datetime('now')),
+  ('D744', 'FOSSATO SERRALTA', 'CZ', 'comune', '1864-01-29', NULL, datetime('now')),
+  ('D745', 'FOSSATO DI VICO', 'PG', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('D746', 'MONTEBELLO JONICO', 'RC', 'comune', '1890-04-22', NULL, datetime('now')),
+  ('D747', 'FOSSENO', 'NO', 'comune', '1861-03-17', '1928-05-03', datetime('now')),
+  ('D748', 'FOSSÒ', 'VE', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D749', 'FOSSOMBRONE', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D750', 'FOZA', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D751', 'FRABOSA SOPRANA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D752', 'FRABOSA SOTTANA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D753', 'FRACCHIA', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('D754', 'FRAGAGNANO', 'TA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D755', 'FRAGNETO L''ABATE', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D756', 'FRAGNETO MONFORTE', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D757', 'FRAINE', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D758', 'FRAMURA', 'SP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D759', 'FRANCAVILLA BISIO', 'AL', 'comune', '1873-04-10', NULL, datetime('now')),
+  ('D760', 'FRANCAVILLA D''ETE', 'FM', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('D761', 'FRANCAVILLA FONTANA', 'BR', 'comune', '1864-04-01', NULL, datetime('now')),
+  ('D762', 'FRANCAVILLA ANGITOLA', 'VV', 'comune', '1867-07-19', NULL, datetime('now')),
+  ('D763', 'FRANCAVILLA AL MARE', 'CH', 'comune', '1879-05-12', NULL, datetime('now')),
+  ('D764', 'FRANCAVILLA MARITTIMA', 'CS', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('D765', 'FRANCAVILLA DI SICILIA', 'ME', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('D766', 'FRANCAVILLA IN SINNI', 'PZ', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('D767', 'FRANCICA', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D768', 'FRANCOFONTE', 'SR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D769', 'FRANCOLISE', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D770', 'FRASCARO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D771', 'FRASCAROLO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D772', 'FRASCATA', 'AL', 'comune', '1861-03-17', '1928-06-19', datetime('now')),
+  ('D773', 'FRASCATI', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('D774', 'FRASCINETO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D775', 'FRASSILONGO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('D776', 'FRASSINELLE POLESINE', 'RO', 'comune', '1878-12-23', NULL, datetime('now')),
+  ('D777', 'FRASSINELLO MONFERRATO', 'AL', 'comune', '1863-08-10', NULL, datetime('now')),
+  ('D778', 'FRASSINELLO-OLIVOLA', 'AL', 'comune', NULL, NULL, datetime('now')),
+  ('D779', 'FRASSINERE', 'TO', 'comune', '1861-03-17', '1936-07-08', datetime('now')),
+  ('D780', 'FRASSINETO PO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D781', 'FRASSINETTO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D782', 'FRASSINO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D783', 'FRASSINORO', 'MO', 'comune', '1870-10-01', NULL, datetime('now')),
+  ('D784', 'FRASSO TELESINO', 'BN', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('D785', 'FRASSO SABINO', 'RI', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('D786', 'UMBERTIDE', 'PG', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('D787', 'FRATTA TODINA', 'PG', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('D788', 'FRATTA POLESINE', 'RO', 'comune', '1867-07-22', NULL, datetime('now')),
+  ('D789', 'FRATTAMAGGIORE', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D790', 'FRATTAMINORE', 'NA', 'comune', '1886-02-12', NULL, datetime('now')),
+  ('D791', 'FRATTE ROSA', 'PU', 'comune', '1869-04-26', NULL, datetime('now')),
+  ('D792', 'FRAVEGGIO', 'TN', 'comune', '1920-10-16', '1928-04-19', datetime('now')),
+  ('D793', 'FRAZZANÒ', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D794', 'FREGONA', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D795', 'FREROLA', 'BG', 'comune', '1861-03-17', '1927-11-21', datetime('now')),
+  ('D796', 'FRESAGRANDINARIA', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D797', 'FRESONARA', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D798', 'FRIGENTO', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D799', 'FRIGNANO', 'CE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D800', 'FRIGNANO MAGGIORE', 'NA', 'comune', '1927-01-12', '1929-04-13', datetime('now')),
+  ('D801', 'FRIGNANO PICCOLO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D802', 'FRINCO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D803', 'FRISA', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D804', 'FRISANCO', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('D805', 'FRONT', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D806', 'FRONTIGNANO', 'BS', 'comune', '1861-03-17', '1927-12-24', datetime('now')),
+  ('D807', 'FRONTINO', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D808', 'FRONTONE', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D809', 'FRONTONE-SERRA', 'PS', 'comune', '1928-09-25', '1946-02-06', datetime('now')),
+  ('D810', 'FROSINONE', 'FR', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('D811', 'FROSOLONE', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('D812', 'FROSSASCO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D813', 'FRUGAROLO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D814', 'FUBINE MONFERRATO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D815', 'FUCECCHIO', 'FI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D816', 'FUIPIANO AL BREMBO', 'BG', 'comune', '1864-06-23', '1928-04-18', datetime('now')),
+  ('D817', 'FUIPIANO VALLE IMAGNA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D818', 'FUMANE', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D819', 'FUMONE', 'FR', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('D820', 'FUNDRES', 'BZ', 'comune', '1920-10-16', '1929-03-25', datetime('now')),
+  ('D821', 'FUNES', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('D822', 'FURATO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('D823', 'FURCI', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D824', 'FURCI SICULO', 'ME', 'comune', '1919-08-04', NULL, datetime('now')),
+  ('D825', 'FURNARI', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D826', 'FURORE', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D827', 'FURTEI', 'SU', 'comune', '1960-03-12', NULL, datetime('now')),
+  ('D828', 'FUSCALDO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D829', 'FUSIGNANO', 'RA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D830', 'FUSINE', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D831', 'FUSINE IN VALROMANA', 'UD', 'comune', '1921-01-05', '1928-06-16', datetime('now')),
+  ('D832', 'FUTANI', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D833', 'GABBIONETA', 'CR', 'comune', '1861-03-17', '1928-04-07', datetime('now')),
+  ('D834', 'GABBIONETA-BINANUOVA', 'CR', 'comune', '1928-04-07', NULL, datetime('now')),
+  ('D835', 'GABIANO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D836', 'GABICCE MARE', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D837', 'GABRIA', 'GO', 'comune', '1921-01-05', '1928-03-13', datetime('now')),
+  ('D838', 'GABROVIZZA', 'GO', 'comune', '1921-01-05', '1928-08-24', datetime('now')),
+  ('D839', 'GABY', 'AO', 'comune', '1952-04-19', NULL, datetime('now')),
+  ('D840', 'GADESCO', 'CR', 'comune', '1866-01-14', '1928-05-19', datetime('now')),
+  ('D841', 'GADESCO-PIEVE DELMONA', 'CR', 'comune', '1928-05-19', NULL, datetime('now')),
+  ('D842', 'GADONI', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D843', 'GAETA', 'LT', 'comune', '1897-04-01', NULL, datetime('now')),
+  ('D844', 'GAGGI', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D845', 'GAGGIANO', 'MI', 'comune', '1869-03-22', NULL, datetime('now')),
+  ('D846', 'GAGGINO', 'CO', 'comune', '1861-03-17', '1928-05-12', datetime('now')),
+  ('D847', 'GAGGIO MONTANO', 'BO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D848', 'GAGLIANICO', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D849', 'GAGLIANO CASTELFERRATO', 'EN', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('D850', 'GAGLIANO ATERNO', 'AQ', 'comune', '1864-06-23', NULL, datetime('now')),
+  ('D851', 'GAGLIANO DEL CAPO', 'LE', 'comune', '1862-11-28', NULL, datetime('now')),
+  ('D852', 'GAGLIATO', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D853', 'GAGLIOLE', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D854', 'GAIARINE', 'TV', 'comune', '1869-08-11', NULL, datetime('now')),
+  ('D855', 'GAIBA', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D856', 'GAIOLA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D857', 'GAIOLA MOIOLA', 'CN', 'comune', '1928-06-14', '1946-07-04', datetime('now')),
+  ('D858', 'GAIOLE IN CHIANTI', 'SI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D859', 'GAIRO', 'OG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D860', 'GAIS', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('D861', 'GALATI MAMERTINO', 'ME', 'comune', '1863-05-06', NULL, datetime('now')),
+  ('D862', 'GALATINA', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D863', 'GALATONE', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D864', 'GALATRO', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D865', 'GALBIATE', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D866', 'GALDO', 'SA', 'comune', '1861-03-17', '1929-02-08', datetime('now')),
+  ('D867', 'GALEATA', 'FC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D868', 'GALGAGNANO', 'LO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D869', 'GALLARATE', 'VA', 'comune', '1869-03-11', NULL, datetime('now')),
+  ('D870', 'GALLESE', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('D871', 'GALLIATE LOMBARDO', 'VA', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('D872', 'GALLIATE', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D873', 'GALLIAVOLA', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D874', 'GALLICANO', 'LU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D875', 'GALLICANO NEL LAZIO', 'RM', 'comune', '1872-10-18', NULL, datetime('now')),
+  ('D876', 'GALLICCHIO', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D877', 'GALLICO', 'RC', 'comune', '1861-03-17', '1927-08-03', datetime('now')),
+  ('D878', 'GALLIERA', 'BO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D879', 'GALLIERA VENETA', 'PD', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('D880', 'GALLINA', 'RC', 'comune', '1873-12-01', '1927-08-03', datetime('now')),
+  ('D881', 'GALLINARO', 'FR', 'comune', '1948-05-06', NULL, datetime('now')),
+  ('D882', 'GALLIO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D883', 'GALLIPOLI', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D884', 'GALLO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D885', 'GALLODORO', 'ME', 'comune', '1952-12-14', NULL, datetime('now')),
+  ('D886', 'GALLUCCIO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D887', 'GALLUZZO', 'FI', 'comune', '1865-08-13', '1928-12-17', datetime('now')),
+  ('D888', 'GALTELLÌ', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D889', 'GALZIGNANO TERME', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D890', 'GAMALERO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D891', 'GAMBARA', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D892', 'GAMBARANA', 'PV', 'comune', '1867-06-10', NULL, datetime('now')),
+  ('D893', 'GAMBARARE', 'VE', 'comune', NULL, NULL, datetime('now')),
+  ('D894', 'GAMBASCA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D895', 'GAMBASSI TERME', 'FI', 'comune', '1917-06-11', NULL, datetime('now')),
+  ('D896', 'GAMBATESA', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D897', 'GAMBELLARA', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D898', 'GAMBERALE', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D899', 'GAMBETTOLA', 'FC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D900', 'GAMBINA BARCHETTI', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('D901', 'GAMBOLÒ', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D902', 'GAMBUGLIANO', 'VI', 'comune', '1866-11-19', '2024-01-22', datetime('now')),
+  ('D903', 'GANDELLINO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D904', 'GANDINI', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('D905', 'GANDINO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D906', 'GANDOSSO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D907', 'GANGI', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D908', 'GARABIOLO', 'VA', 'comune', '1861-03-17', '1928-01-08', datetime('now')),
+  ('D909', 'GARAGUSO', 'MT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D910', 'GARBAGNA', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D911', 'GARBAGNA NOVARESE', 'NO', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('D912', 'GARBAGNATE MILANESE', 'MI', 'comune', '1864-04-01', NULL, datetime('now')),
+  ('D913', 'GARBAGNATE MONASTERO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D914', 'GARBATOLA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('D915', 'GARDA', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D916', 'GARDOLO AL PIANO', 'TN', 'comune', '1920-10-16', '1926-10-01', datetime('now')),
+  ('D917', 'GARDONE RIVIERA', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D918', 'GARDONE VAL TROMPIA', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D919', 'GAREGNANO', 'MI', 'comune', '1861-03-17', '1869-01-31', datetime('now')),
+  ('D920', 'GARESSIO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D921', 'GARGALLO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D922', 'GARGARO', 'GO', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('D923', 'GARGAZZONE', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('D924', 'GARGNANO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D925', 'GARLASCO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D926', 'GARLATE', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D927', 'GARLENDA', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D928', 'GARNIGA TERME', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('D929', 'GAROFAI', 'SS', 'comune', NULL, NULL, datetime('now')),
+  ('D930', 'GARZENO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D931', 'GARZIGLIANA', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D932', 'GASPERINA', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D933', 'GASSINO TORINESE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D934', 'GATTATICO', 'RE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D935', 'GATTEO', 'FC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D936', 'GATTERA MAIOCCA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('D937', 'GATTICO', 'NO', 'comune', '1877-10-31', '2019-01-01', datetime('now')),
+  ('D938', 'GATTINARA', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D939', 'GAUNA', 'AO', 'comune', '1861-03-17', '1929-05-15', datetime('now')),
+  ('D940', 'GAVARDO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D941', 'GAVAZZANA', 'AL', 'comune', '1861-03-17', '2018-01-01', datetime('now')),
+  ('D942', 'GAVELLO', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D943', 'GAVERINA TERME', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D944', 'GAVI', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D945', 'GAVIGNANO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('D946', 'GAVIRATE', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D947', 'GAVOI', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D948', 'GAVORRANO', 'GR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D949', 'GAZOLDO DEGLI IPPOLITI', 'MN', 'comune', '1879-08-04', NULL, datetime('now')),
+  ('D950', 'GAZZADA', 'VA', 'comune', '1861-03-17', '1927-07-01', datetime('now')),
+  ('D951', 'GAZZADA SCHIANNO', 'VA', 'comune', '1927-07-01', NULL, datetime('now')),
+  ('D952', 'GAZZANIGA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D953', 'GAZZANO', 'RE', 'comune', NULL, NULL, datetime('now')),
+  ('D954', 'GAZZELLI', 'IM', 'comune', '1861-03-17', '1928-04-17', datetime('now')),
+  ('D955', 'GAZZO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('D956', 'GAZZO', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D957', 'GAZZO VERONESE', 'VR', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('D958', 'GAZZOLA', 'PC', 'comune', '1888-05-20', NULL, datetime('now')),
+  ('D959', 'GAZZUOLO', 'MN', 'comune', '1868-07-01', NULL, datetime('now')),
+  ('D960', 'GELA', 'CL', 'comune', '1862-10-31', NULL, datetime('now')),
+  ('D961', 'GEMMANO', 'RN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D962', 'GEMONA DEL FRIULI', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('D963', 'GEMONIO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D964', 'GENAZZANO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('D965', 'GENGA', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D966', 'GENIVOLTA', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D967', 'GENOLA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D968', 'GENONI', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D969', 'GENOVA', 'GE', 'comune', '1873-11-10', NULL, datetime('now')),
+  ('D970', 'GENURI', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D971', 'GENZANO DI LUCANIA', 'MT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D972', 'GENZANO DI ROMA', 'RM', 'comune', '1873-01-20', NULL, datetime('now')),
+  ('D973', 'GENZONE', 'PV', 'comune', '1861-03-17', '2016-01-01', datetime('now')),
+  ('D974', 'GERA LARIO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D975', 'GERACE', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D976', 'LOCRI', 'RC', 'comune', '1905-08-08', NULL, datetime('now')),
+  ('D977', 'GERACI SICULO', 'PA', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('D978', 'GERANO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('D979', 'GERE DEL PESCE', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('D980', 'GERENZAGO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D981', 'GERENZANO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D982', 'GERGEI', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D983', 'GERMAGNANO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D984', 'GERMAGNO', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D985', 'GERMANEDO', 'CO', 'comune', '1861-03-17', '1924-01-12', datetime('now')),
+  ('D986', 'GERMASINO', 'CO', 'comune', '1861-03-17', '2011-02-11', datetime('now')),
+  ('D987', 'GERMIGNAGA', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D988', 'GEROCARNE', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D989', 'GEROLANUOVA', 'BS', 'comune', '1863-02-23', '1929-01-01', datetime('now')),
+  ('D990', 'GEROLA ALTA', 'SO', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('D991', 'GEROSA', 'BG', 'comune', '1861-03-17', '2014-02-04', datetime('now')),
+  ('D992', 'GERRE CHIOZZO', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('D993', 'GERRE DE'' CAPRIOLI', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D994', 'GESICO', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D995', 'GESSATE', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D996', 'GESSOPALENA', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D997', 'GESTURI', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D998', 'GESUALDO', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('D999', 'GHEDI', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E001', 'GHEMME', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E002', 'GHEVIO', 'NO', 'comune', '1861-03-17', '1928-05-03', datetime('now')),
+  ('E003', 'GHIFFA', 'VB', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('E004', 'GHILARZA', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('E005', 'GHILARZA-ABBASANTA', 'CA', 'comune', NULL, NULL, datetime('now')),
+  ('E006', 'GHISALBA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E007', 'GHISLARENGO', 'VC', 'comune', '1861-03-17', NULL, datetime('now'));
+
+INSERT INTO belfioreCodes (code, name, province, kind, validFrom, validTo, updatedAt) VALUES
+  ('E008', 'GIACCIANO CON BARUCHELLA', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E009', 'GIAGLIONE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E010', 'GIANICO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E011', 'GIANO VETUSTO', 'NA', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('E012', 'GIANO DELL''UMBRIA', 'PG', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('E013', 'GIARDINELLO', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E014', 'GIARDINI-NAXOS', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E015', 'GIAROLE', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E016', 'GIARRATANA', 'RG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E017', 'GIARRE', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E018', 'IONIA', 'CT', 'comune', '1939-12-28', '1945-10-26', datetime('now')),
+  ('E019', 'GIAVE', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E020', 'GIAVENO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E021', 'GIAVERA DEL MONTELLO', 'TV', 'comune', '1960-02-21', NULL, datetime('now')),
+  ('E022', 'GIBA', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E023', 'GIBELLINA', 'TP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E024', 'GIFFLENGA', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E025', 'GIFFONE', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E026', 'GIFFONI SEI CASALI', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E027', 'GIFFONI VALLE PIANA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E028', 'GIGNESE', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E029', 'GIGNOD', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E030', 'GILDONE', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E031', 'GIMIGLIANO', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E032', 'GIMINO', 'PL', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('E033', 'GINESTRA', 'PZ', 'comune', '1965-08-04', NULL, datetime('now')),
+  ('E034', 'GINESTRA DEGLI SCHIAVONI', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E035', 'GINESTRETO', 'PS', 'comune', '1861-03-17', '1929-04-11', datetime('now')),
+  ('E036', 'GINOSA', 'TA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E037', 'GIOI', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E038', 'GIOIA DEL COLLE', 'BA', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('E039', 'GIOIA SANNITICA', 'BN', 'comune', '1862-10-27', NULL, datetime('now')),
+  ('E040', 'GIOIA DEI MARSI', 'AQ', 'comune', '1863-05-06', NULL, datetime('now')),
+  ('E041', 'GIOIA TAURO', 'RC', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('E042', 'GOIACI', 'GO', 'comune', '1921-01-05', '1928-01-22', datetime('now')),
+  ('E043', 'GIOIOSA MAREA', 'ME', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('E044', 'GIOIOSA IONICA', 'RC', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('E045', 'GIOVE', 'TR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E046', 'GIOVENZANO', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('E047', 'GIOVINAZZO', 'BA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E048', 'GIOVO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('E049', 'GIRASOLE', 'OG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E050', 'GIRIFALCO', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E051', 'GIRONICO', 'CO', 'comune', '1861-03-17', '2014-02-04', datetime('now')),
+  ('E052', 'GISSI', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E053', 'GIUGGIANELLO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E054', 'GIUGLIANO IN CAMPANIA', 'NA', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('E055', 'GIULIANA', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E056', 'GIULIANO TEATINO', 'CH', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('E057', 'GIULIANO DI ROMA', 'FR', 'comune', '1872-10-18', NULL, datetime('now')),
+  ('E058', 'GIULIANOVA', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E059', 'GIUNCUGNANO', 'LU', 'comune', '1861-03-17', '2015-01-01', datetime('now')),
+  ('E060', 'GIUNGANO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E061', 'GIURDIGNANO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E062', 'GIUSSAGO', 'PV', 'comune', '1872-11-01', NULL, datetime('now')),
+  ('E063', 'GIUSSANO', 'MB', 'comune', '1871-01-01', NULL, datetime('now')),
+  ('E064', 'GIUSTENICE', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E065', 'GIUSTINO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('E066', 'GIUSVALLA', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E067', 'GIVOLETTO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E068', 'GIZZERIA', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E069', 'GLORENZA', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('E070', 'SESTA GODANO', 'SP', 'comune', '1875-11-10', NULL, datetime('now')),
+  ('E071', 'GODEGA DI SANT''URBANO', 'TV', 'comune', '1867-11-25', NULL, datetime('now')),
+  ('E072', 'GODIASCO SALICE TERME', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E073', 'GODOVICI', 'GO', 'comune', '1921-01-05', '1928-01-26', datetime('now')),
+  ('E074', 'GODRANO', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E075', 'GOGLIONE SOPRA', 'BS', 'comune', '1861-03-17', '1928-08-15', datetime('now')),
+  ('E076', 'GOGLIONE SOTTO', 'BS', 'comune', '1861-03-17', '1928-08-15', datetime('now')),
+  ('E077', 'GOIDO', 'PV', 'comune', '1861-03-17', '1928-09-06', datetime('now')),
+  ('E078', 'GOITO', 'MN', 'comune', '1872-01-01', NULL, datetime('now')),
+  ('E079', 'GOLASECCA', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E080', 'GOLESE', 'PR', 'comune', '1861-03-17', '1943-05-29', datetime('now')),
+  ('E081', 'GOLFERENZO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E082', 'GOMBITO', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E083', 'GONARS', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E084', 'GONI', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E085', 'GONNOSFANADIGA', 'SU', 'comune', '1938-01-08', NULL, datetime('now')),
+  ('E086', 'GONNESA', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E087', 'GONNOSCODINA', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('E088', 'GONNOSTRAMATZA', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('E089', 'GONZAGA', 'MN', 'comune', '1876-11-20', NULL, datetime('now')),
+  ('E090', 'GORDONA', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E091', 'GORGA', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('E092', 'GORGO AL MONTICANO', 'TV', 'comune', '1886-03-01', NULL, datetime('now')),
+  ('E093', 'GORGOGLIONE', 'MT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E094', 'GORGONZOLA', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E095', 'GORIANO', 'GO', 'comune', '1921-01-05', '1928-08-24', datetime('now')),
+  ('E096', 'GORIANO SICOLI', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E097', 'GORIANO VALLI', 'AQ', 'comune', NULL, NULL, datetime('now')),
+  ('E098', 'GORIZIA', 'GO', 'comune', '1921-01-05', NULL, datetime('now')),
+  ('E099', 'GORLAPRECOTTO', 'MI', 'comune', '1864-03-11', '1923-10-14', datetime('now')),
+  ('E100', 'GORLAGO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E101', 'GORLA MAGGIORE', 'VA', 'comune', '1916-05-01', NULL, datetime('now')),
+  ('E102', 'GORLA MINORE', 'VA', 'comune', '1870-08-02', NULL, datetime('now')),
+  ('E103', 'GORLE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E104', 'GORNATE OLONA', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E105', 'GORNATE-SUPERIORE', 'VA', 'comune', '1861-03-17', '1928-01-12', datetime('now')),
+  ('E106', 'GORNO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E107', 'GORO', 'FE', 'comune', '1962-10-10', NULL, datetime('now')),
+  ('E108', 'GORRA', 'GE', 'comune', NULL, NULL, datetime('now')),
+  ('E109', 'GORRETO', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E110', 'GORRINO', 'CN', 'comune', '1861-03-17', '1928-04-07', datetime('now')),
+  ('E111', 'GORZEGNO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E112', 'GORZONE', 'BS', 'comune', '1861-03-17', '1929-05-04', datetime('now')),
+  ('E113', 'GOSALDO', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E114', 'GOSSOLENGO', 'PC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E115', 'GOTTASECCA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E116', 'GOTTOLENGO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E117', 'GOTTRO', 'CO', 'comune', '1861-03-17', '1928-05-12', datetime('now')),
+  ('E118', 'GOVONE', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E119', 'GOZZA', 'GO', 'comune', '1921-01-05', '1928-04-29', datetime('now')),
+  ('E120', 'GOZZANO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E121', 'GRACOVA SERRAVALLE', 'GO', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('E122', 'GRADARA', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E123', 'GRADELLA', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('E124', 'GRADISCA D''ISONZO', 'GO', 'comune', '1921-01-05', NULL, datetime('now')),
+  ('E125', 'GRADO', 'GO', 'comune', '1921-01-05', NULL, datetime('now')),
+  ('E126', 'GRADOLI', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('E127', 'GRAFFIGNANA', 'LO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E128', 'GRAFFIGNANO', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('E129', 'GRAGLIA PIANA', 'NO', 'comune', '1862-12-29', '1928-09-26', datetime('now')),
+  ('E130', 'GRAGLIA', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E131', 'GRAGNANO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E132', 'GRAGNANO TREBBIENSE', 'PC', 'comune', '1862-11-28', NULL, datetime('now')),
+  ('E133', 'GRAMMICHELE', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E134', 'GRANA MONFERRATO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E135', 'GRANAGLIONE', 'BO', 'comune', '1861-03-17', '2016-01-01', datetime('now')),
+  ('E136', 'GRANAROLO DELL''EMILIA', 'BO', 'comune', '1875-10-26', NULL, datetime('now')),
+  ('E137', 'GRANCINO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('E138', 'GRANCONA', 'VI', 'comune', '1866-11-19', '2017-02-17', datetime('now')),
+  ('E139', 'GRANDATE', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E140', 'GRANDOLA', 'CO', 'comune', '1861-03-17', '1927-10-13', datetime('now')),
+  ('E141', 'GRANDOLA ED UNITI', 'CO', 'comune', '1927-10-13', NULL, datetime('now')),
+  ('E142', 'GRANITI', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E143', 'GRANOZZO CON MONTICELLO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E144', 'GRANTOLA', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E145', 'GRANTORTO', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E146', 'GRANZE', 'PD', 'comune', '1913-06-14', NULL, datetime('now')),
+  ('E147', 'GRASSANO', 'MT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E148', 'GRASSOBBIO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E149', 'GRATTERI', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E150', 'GRAUNO', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('E151', 'GRAVEDONA', 'CO', 'comune', '1861-03-17', '2011-02-11', datetime('now')),
+  ('E152', 'GRAVELLONA LOMELLINA', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E153', 'GRAVELLONA TOCE', 'VB', 'comune', '1913-01-03', NULL, datetime('now')),
+  ('E154', 'GRAVERE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E155', 'GRAVINA IN PUGLIA', 'BA', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('E156', 'GRAVINA DI CATANIA', 'CT', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('E157', 'GRAZZANELLO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('E158', 'GRAZZANISE', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E159', 'GRAZZANO BADOGLIO', 'AT', 'comune', '1868-12-31', NULL, datetime('now')),
+  ('E160', 'GRECCIO', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E161', 'GRECI', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E162', 'GRECO MILANESE', 'MI', 'comune', '1863-02-23', '1923-10-14', datetime('now')),
+  ('E163', 'GREGGIO', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E164', 'GREMIASCO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E165', 'GRESSAN', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E166', 'GRESSONEY', 'AO', 'comune', '1928-06-30', '1946-05-16', datetime('now')),
+  ('E167', 'GRESSONEY-LA-TRINITÉ', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E168', 'GRESSONEY-SAINT-JEAN', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E169', 'GREVE IN CHIANTI', 'FI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E170', 'GREZZAGO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E171', 'GREZZANA', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E172', 'GRIANTE', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E173', 'GRICIGNANO DI AVERSA', 'NA', 'comune', '1872-01-01', NULL, datetime('now')),
+  ('E174', 'GRIES', 'TN', 'comune', '1920-10-16', '1925-01-18', datetime('now')),
+  ('E175', 'GRIGNANO', 'BG', 'comune', '1861-03-17', '1928-08-15', datetime('now')),
+  ('E176', 'GRIGNANO DI POLESINE', 'RO', 'comune', '1867-07-22', '1927-09-04', datetime('now')),
+  ('E177', 'GRIGNASCO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E178', 'GRIGNO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('E179', 'GRIMACCO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E180', 'GRIMALDI', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E181', 'GRIMALDO', 'BZ', 'comune', '1920-10-16', '1928-03-08', datetime('now')),
+  ('E182', 'GRINZANE CAVOUR', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E183', 'GRISIGNANA', 'PL', 'comune', '1921-01-05', '1977-04-04', datetime('now')),
+  ('E184', 'GRISIGNANO DI ZOCCO', 'VI', 'comune', '1867-09-02', NULL, datetime('now')),
+  ('E185', 'GRISOLIA', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E186', 'GRISOLIA CIPOLLINA', 'CS', 'comune', NULL, NULL, datetime('now')),
+  ('E187', 'GRIZZANA MORANDI', 'BO', 'comune', '1882-12-25', NULL, datetime('now')),
+  ('E188', 'GROGNARDO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E189', 'GROMO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E190', 'GRONA', 'CO', 'comune', '1861-03-17', '1927-10-13', datetime('now')),
+  ('E191', 'GRONDONA', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E192', 'GRONE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E193', 'GRONTARDO', 'CR', 'comune', '1868-07-02', NULL, datetime('now')),
+  ('E194', 'GRONTORTO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('E195', 'GROPELLO CAIROLI', 'PV', 'comune', '1888-03-12', NULL, datetime('now')),
+  ('E196', 'GROPPARELLO', 'PC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E197', 'GROPPELLO D''ADDA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('E198', 'GROPPO', 'AL', 'comune', '1861-03-17', '1928-09-23', datetime('now')),
+  ('E199', 'GROSCAVALLO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E200', 'GROSIO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E201', 'GROSOTTO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E202', 'GROSSETO', 'GR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E203', 'GROSSO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E204', 'GROTTAFERRATA', 'RM', 'comune', '1884-09-11', NULL, datetime('now')),
+  ('E205', 'GROTTAGLIE', 'TA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E206', 'GROTTAMINARDA', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E207', 'GROTTAMMARE', 'AP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E208', 'GROTTAZZOLINA', 'FM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E209', 'GROTTE', 'AG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E210', 'GROTTE DI CASTRO', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('E211', 'GROTTE SANTO STEFANO', 'VT', 'comune', '1871-01-15', '1928-05-20', datetime('now')),
+  ('E212', 'GROTTERIA', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E213', 'GROTTOLE', 'MT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E214', 'GROTTOLELLA', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E215', 'GRUARO', 'VE', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E216', 'GRUGLIASCO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E217', 'GRUMELLO CREMONESE ED UNITI', 'CR', 'comune', '1868-01-01', NULL, datetime('now')),
+  ('E218', 'GRUMELLO DE'' ZANCHI', 'BG', 'comune', '1861-03-17', '1928-03-27', datetime('now')),
+  ('E219', 'GRUMELLO DEL MONTE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E220', 'GRUMELLO DEL PIANO', 'BG', 'comune', '1861-03-17', '1927-03-12', datetime('now')),
+  ('E221', 'GRUMENTO NOVA', 'PZ', 'comune', '1863-05-06', NULL, datetime('now')),
+  ('E222', 'GRUMES', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('E223', 'GRUMO APPULA', 'BA', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('E224', 'GRUMO NEVANO', 'NA', 'comune', '1864-02-02', NULL, datetime('now')),
+  ('E225', 'GRUMO', 'TN', 'comune', '1920-10-16', '1928-05-22', datetime('now')),
+  ('E226', 'GRUMOLO DELLE ABBADESSE', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E227', 'GUAGNANO', 'BR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E228', 'GUALDO', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E229', 'GUALDO CATTANEO', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E230', 'GUALDO TADINO', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E231', 'GUALDRASCO', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('E232', 'GUALTIERI', 'RE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E233', 'GUALTIERI SICAMINÒ', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E234', 'GUAMAGGIORE', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E235', 'GUANZATE', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E236', 'GUARCINO', 'FR', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('E237', 'GUARDABOSONE', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E238', 'GUARDAMIGLIO', 'LO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E239', 'GUARDAVALLE', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E240', 'GUARDA VENETA', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E241', 'GUARDEA', 'TR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E242', 'GUARDIA PIEMONTESE', 'CS', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('E243', 'GUARDIAGRELE', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E244', 'GUARDIALFIERA', 'CB', 'comune', '1928-04-17', NULL, datetime('now')),
+  ('E245', 'GUARDIA LOMBARDI', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E246', 'GUARDIA PERTICARA', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E247', 'GUARDIA PIEMONTESE TERME', 'CS', 'comune', '1928-01-26', '1945-02-23', datetime('now')),
+  ('E248', 'GUARDIAREGIA', 'CB', 'comune', '1893-11-13', NULL, datetime('now')),
+  ('E249', 'GUARDIA SANFRAMONDI', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E250', 'GUARDISTALLO', 'PI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E251', 'GUARENE', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E252', 'GUASILA', 'SU', 'comune', '1863-12-28', NULL, datetime('now')),
+  ('E253', 'GUASTALLA', 'RE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E254', 'GUAZZINA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('E255', 'GUAZZORA', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E256', 'GUBBIO', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E257', 'GUDON', 'BZ', 'comune', '1920-10-16', '1929-06-05', datetime('now')),
+  ('E258', 'GUDO VISCONTI', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E259', 'GUGLIONESI', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E260', 'GUGNANO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('E261', 'GUIDIZZOLO', 'MN', 'comune', '1868-07-01', NULL, datetime('now')),
+  ('E262', 'GUIDOMANDRI', 'ME', 'comune', '1861-03-17', '1928-09-26', datetime('now')),
+  ('E263', 'GUIDONIA MONTECELIO', 'RM', 'comune', '1937-11-03', NULL, datetime('now')),
+  ('E264', 'GUIGLIA', 'MO', 'comune', '1880-05-21', NULL, datetime('now')),
+  ('E265', 'SIZIANO', 'PV', 'comune', '1871-06-01', NULL, datetime('now')),
+  ('E266', 'GUILMI', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E267', 'GUINZANO', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('E268', 'GURONE', 'VA', 'comune', '1861-03-17', '1928-01-18', datetime('now')),
+  ('E269', 'GURRO', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E270', 'GUSPINI', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E271', 'GUSSAGO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E272', 'GUSSOLA', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E273', 'HÔNE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E274', 'JACURSO', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E275', 'IATRINOLI', 'RC', 'comune', '1861-03-17', '1928-03-27', datetime('now')),
+  ('E276', 'IAVRÈ', 'TN', 'comune', '1920-10-16', '1928-06-28', datetime('now')),
+  ('E277', 'IDRESCA D''ISONZO', 'GO', 'comune', '1921-01-05', '1928-05-02', datetime('now')),
+  ('E278', 'IDRIA', 'GO', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('E279', 'IDRIA DI SOTTO', 'GO', 'comune', '1921-01-05', '1928-08-24', datetime('now')),
+  ('E280', 'IDRO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E281', 'IGLESIAS', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E282', 'IGLIANO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E283', 'ILBONO', 'OG', 'comune', '1878-11-23', NULL, datetime('now')),
+  ('E284', 'ILLASI', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E285', 'ILLORAI', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E286', 'IMBERIDO', 'CO', 'comune', '1861-03-17', '1928-10-31', datetime('now')),
+  ('E287', 'IMBERSAGO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E288', 'IMER', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('E289', 'IMOLA', 'BO', 'comune', '1865-12-25', NULL, datetime('now')),
+  ('E290', 'IMPERIA', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E291', 'IMPRUNETA', 'FI', 'comune', '1928-12-16', NULL, datetime('now')),
+  ('E292', 'INARZO', 'VA', 'comune', '1958-05-28', NULL, datetime('now')),
+  ('E293', 'INCINO', 'CO', 'comune', '1861-03-17', '1906-11-13', datetime('now')),
+  ('E294', 'INCIRANO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('E295', 'INCISA SCAPACCINO', 'AT', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('E296', 'INCISA IN VAL D''ARNO', 'FI', 'comune', '1863-04-13', '2014-01-01', datetime('now')),
+  ('E297', 'INCUDINE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E298', 'INDOVERO', 'CO', 'comune', '1879-02-10', '1928-05-26', datetime('now')),
+  ('E299', 'INDUNO OLONA', 'VA', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('E300', 'INDUNO TICINO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('E301', 'INGRIA', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E302', 'INTIMIANO', 'CO', 'comune', '1861-03-17', '1928-12-16', datetime('now')),
+  ('E303', 'INTRA', 'NO', 'comune', '1861-03-17', '1939-06-05', datetime('now')),
+  ('E304', 'INTRAGNA', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E305', 'INTROBIO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E306', 'INTROD', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E307', 'INTRODACQUA', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E308', 'INTROZZO', 'LC', 'comune', '1861-03-17', '2018-01-01', datetime('now')),
+  ('E309', 'INVERIGO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E310', 'INVERNO E MONTELEONE', 'PV', 'comune', '1872-10-15', NULL, datetime('now')),
+  ('E311', 'INVERSO PINASCA', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E312', 'INVERSO PORTE', 'TO', 'comune', '1861-03-17', '1928-05-31', datetime('now')),
+  ('E313', 'INVERUNO', 'MI', 'comune', '1870-08-02', NULL, datetime('now')),
+  ('E314', 'INVORIO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E315', 'INVORIO INFERIORE', 'NO', 'comune', NULL, NULL, datetime('now')),
+  ('E316', 'INVORIO SUPERIORE', 'NO', 'comune', '1861-03-17', '1928-04-03', datetime('now')),
+  ('E317', 'INZAGO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E318', 'INZINO', 'BS', 'comune', '1861-03-17', '1927-12-04', datetime('now')),
+  ('E319', 'IOANNIS', 'UD', 'comune', '1921-01-05', '1931-07-02', datetime('now')),
+  ('E320', 'JOLANDA DI SAVOIA', 'FE', 'comune', '1909-01-23', NULL, datetime('now')),
+  ('E321', 'IONADI', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E322', 'IPPLIS', 'UD', 'comune', '1866-11-19', '1928-04-16', datetime('now')),
+  ('E323', 'IRGOLI', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E324', 'IRGOLI DI GALTELLI', 'NU', 'comune', '1928-02-02', '1946-03-09', datetime('now')),
+  ('E325', 'IRMA', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E326', 'IRSINA', 'MT', 'comune', '1895-04-12', NULL, datetime('now')),
+  ('E327', 'ISASCA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E328', 'ISCA SULLO IONIO', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E329', 'ISCHIA', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E330', 'ISCHIA DI CASTRO', 'VT', 'comune', '1872-09-02', NULL, datetime('now')),
+  ('E331', 'ISCHIA', 'TN', 'comune', '1920-10-16', '1929-01-25', datetime('now')),
+  ('E332', 'ISCHITELLA', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E333', 'ISEO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E334', 'ISERA', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('E335', 'ISERNIA', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('E336', 'ISILI', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E337', 'ISNELLO', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E338', 'ISOLA D''ASTI', 'AT', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('E339', 'ISOLA DI CAPO RIZZUTO', 'KR', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('E340', 'ISOLA DEL LIRI', 'FR', 'comune', '1869-07-06', NULL, datetime('now')),
+  ('E341', 'ISOLA DEL CANTONE', 'GE', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('E342', 'MADESIMO', 'SO', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('E343', 'ISOLA DEL GRAN SASSO D''ITALIA', 'TE', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('E344', 'ISOLA BALBA', 'MI', 'comune', '1861-03-17', '1869-02-11', datetime('now')),
+  ('E345', 'ISOLABELLA', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E346', 'ISOLABONA', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E347', 'ISOLA COMACINA', 'CO', 'comune', '1928-11-03', '1950-04-06', datetime('now')),
+  ('E348', 'ISOLA DEL GIGLIO', 'GR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E349', 'ISOLA DELLA SCALA', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E350', 'ISOLA DELLE FEMMINE', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E351', 'ISOLA DEL PIANO', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E352', 'ISOLA DI FANO', 'PU', 'comune', NULL, NULL, datetime('now')),
+  ('E353', 'ISOLA DI FONDRA', 'BG', 'comune', '1928-08-15', NULL, datetime('now')),
+  ('E354', 'ISOLA VICENTINA', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E355', 'ISOLA D''ISTRIA', 'PL', 'comune', '1921-01-05', '1977-04-04', datetime('now')),
+  ('E356', 'ISOLA DOVARESE', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E357', 'ISOLA PESCAROLI', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('E358', 'ISOLA RIZZA', 'VR', 'comune', '1872-07-08', NULL, datetime('now')),
+  ('E359', 'ISOLA SAN GIULIO', 'NO', 'comune', '1861-03-17', '1928-12-14', datetime('now')),
+  ('E360', 'ISOLA SANT''ANTONIO', 'AL', 'comune', '1877-05-25', NULL, datetime('now')),
+  ('E361', 'ISOLELLA', 'VC', 'comune', '1861-03-17', '1928-09-06', datetime('now')),
+  ('E362', 'ISOLELLO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('E363', 'ISOLE TREMITI', 'FG', 'comune', '1932-02-12', NULL, datetime('now')),
+  ('E364', 'ISORELLA', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E365', 'ISPANI', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E366', 'ISPICA', 'RG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E367', 'ISPRA', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E368', 'ISSIGLIO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E369', 'ISSIME', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E370', 'ISSO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E371', 'ISSOGNE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E372', 'VASTO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E373', 'ISTRANA', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E374', 'ITALA', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E375', 'ITRI', 'LT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E376', 'ITTIREDDU', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E377', 'ITTIRI', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E378', 'IVANO-FRACENA', 'TN', 'comune', '1920-10-16', '2016-07-02', datetime('now')),
+  ('E379', 'IVREA', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E380', 'IZANO', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E381', 'JELSI', 'CB', 'comune', '1927-01-12', NULL, datetime('now')),
+  ('E382', 'JENNE', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('E383', 'JERAGO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('E384', 'JERAGO CON BESNATE', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('E385', 'JERAGO CON BESNATE ED ORAGO', 'MI', 'comune', '1892-04-04', '1907-07-02', datetime('now')),
+  ('E386', 'JERAGO CON ORAGO', 'VA', 'comune', '1907-07-01', NULL, datetime('now')),
+  ('E387', 'JERZU', 'OG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E388', 'JESI', 'AN', 'comune', '1865-12-11', NULL, datetime('now')),
+  ('E389', 'JOPPOLO', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E390', 'JOPPOLO GIANCAXIO', 'AG', 'comune', '1923-11-28', NULL, datetime('now')),
+  ('E391', 'JOVENÇAN', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E392', 'LABICO', 'RM', 'comune', '1880-02-06', NULL, datetime('now')),
+  ('E393', 'LABRO', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E394', 'LA CASSA', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E395', 'LACCHIARELLA', 'MI', 'comune', '1869-03-22', NULL, datetime('now')),
+  ('E396', 'LACCO AMENO', 'NA', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('E397', 'LACEDONIA', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E398', 'LACES', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('E399', 'LACINIGO', 'BZ', 'comune', '1920-10-16', '1929-02-15', datetime('now')),
+  ('E400', 'LACONI', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E401', 'LAERRU', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E402', 'LAGANADI', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E403', 'LAGHI', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E404', 'LAGLESIE SAN LEOPOLDO', 'UD', 'comune', '1921-01-05', '1928-05-20', datetime('now')),
+  ('E405', 'LAGLIO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E406', 'LAGNASCO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E407', 'LAGO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E408', 'SAN GIORGIO DI LAGO', 'TV', 'comune', '1866-11-19', '1868-07-27', datetime('now')),
+  ('E409', 'LAGONEGRO', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E410', 'LAGOSANTO', 'FE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E411', 'LAGOSTA', 'ZA', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('E412', 'LAGUNDO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('E413', 'LAJATICO', 'PI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E414', 'LAIGUEGLIA', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E415', 'LAINATE', 'MI', 'comune', '1870-08-02', NULL, datetime('now')),
+  ('E416', 'LAINO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E417', 'LAINO BORGO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E418', 'LAINO BRUZIO', 'CS', 'comune', '1928-04-17', '1947-11-26', datetime('now')),
+  ('E419', 'LAINO CASTELLO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E420', 'LAION', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('E421', 'LAIVES', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('E422', 'LALLIO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E423', 'LA LOGGIA', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E424', 'LAMA DEI PELIGNI', 'CH', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('E425', 'LA MADDALENA', 'OT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E426', 'LAMA MOCOGNO', 'MO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E427', 'LAMBRATE', 'MI', 'comune', '1861-03-17', '1923-10-14', datetime('now')),
+  ('E428', 'LAMBRUGO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E429', 'LAMON', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E430', 'LA MORRA', 'CN', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('E431', 'LAMPEDUSA E LINOSA', 'AG', 'comune', '1875-08-09', NULL, datetime('now')),
+  ('E432', 'LAMPORECCHIO', 'PT', 'comune', '1897-07-01', NULL, datetime('now')),
+  ('E433', 'LAMPORO', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E434', 'LANA', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('E435', 'LANCIANO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E436', 'LANDIONA', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E437', 'LANDRIANO', 'PV', 'comune', '1872-11-01', NULL, datetime('now')),
+  ('E438', 'LANGHIRANO', 'PR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E439', 'LANGOSCO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E440', 'LANISCHIE', 'PL', 'comune', '1923-02-08', '1947-09-16', datetime('now')),
+  ('E441', 'LANUSEI', 'OG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E442', 'LANZA', 'ME', 'comune', '1928-09-09', '1947-03-16', datetime('now')),
+  ('E443', 'LANZADA', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E444', 'LANZO D''INTELVI', 'CO', 'comune', '1862-12-29', '2017-01-01', datetime('now')),
+  ('E445', 'LANZO TORINESE', 'TO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('E446', 'LAORCA', 'CO', 'comune', '1861-03-17', '1924-01-12', datetime('now')),
+  ('E447', 'LAPEDONA', 'FM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E448', 'LAPIO', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E449', 'LAPPAGO', 'BZ', 'comune', '1920-10-16', '1928-06-20', datetime('now')),
+  ('E450', 'LAPPANO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E451', 'LARCIANO', 'PT', 'comune', '1897-07-01', NULL, datetime('now')),
+  ('E452', 'LARDARO', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('E453', 'LARDERA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('E454', 'LARDIRAGO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E455', 'LARI', 'PI', 'comune', '1861-03-17', '2014-01-01', datetime('now')),
+  ('E456', 'LARINO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E457', 'LASA', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('E458', 'LA SALLE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E459', 'LASCARI', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E460', 'LASE', 'TS', 'comune', '1921-01-05', '1926-10-29', datetime('now')),
+  ('E461', 'LASINO', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('E462', 'LASNIGO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E463', 'LA SPEZIA', 'SP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E464', 'LAS PLASSAS', 'SU', 'comune', '1905-07-10', NULL, datetime('now')),
+  ('E465', 'LASTEBASSE', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E466', 'LASTRA A SIGNA', 'FI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E467', 'LATERA', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('E468', 'LATERINA', 'AR', 'comune', '1861-03-17', '2018-01-01', datetime('now')),
+  ('E469', 'LATERZA', 'TA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E470', 'LA THUILE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E471', 'LATIANO', 'BR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E472', 'LATINA', 'LT', 'comune', '1932-11-06', NULL, datetime('now')),
+  ('E473', 'LATISANA', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E474', 'LATRONICO', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E475', 'LATTARICO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E476', 'LAUCO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E477', 'LAUDES', 'BZ', 'comune', '1920-10-16', '1928-01-27', datetime('now')),
+  ('E478', 'LAURANA', 'FU', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('E479', 'LAUREANA DI BORRELLO', 'RC', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('E480', 'LAUREANA CILENTO', 'SA', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('E481', 'LAUREGNO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('E482', 'LAURENZANA', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E483', 'LAURIA', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E484', 'LAURIANO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E485', 'LAURINO', 'SA', 'comune', '1875-09-07', NULL, datetime('now')),
+  ('E486', 'LAURITO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E487', 'LAURO', 'AV', 'comune', '1871-08-01', NULL, datetime('now')),
+  ('E488', 'LAVAGNA', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E489', 'LAVAGNO', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E490', 'LA VALLE AGORDINA', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E491', 'LA VALLE', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('E492', 'LAVARONE', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('E493', 'LAVELLO', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E494', 'LAVENA PONTE TRESA', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E495', 'LAVENO', 'VA', 'comune', '1861-03-17', '1928-01-28', datetime('now')),
+  ('E496', 'LAVENO-MOMBELLO', 'VA', 'comune', '1928-01-28', NULL, datetime('now')),
+  ('E497', 'LAVENONE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E498', 'LAVIANO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E499', 'LAVINA', 'IM', 'comune', '1861-03-17', '1928-04-15', datetime('now')),
+  ('E500', 'LAVIS', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('E501', 'LAZFONS', 'BZ', 'comune', '1920-10-16', '1929-06-05', datetime('now')),
+  ('E502', 'LAZISE', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E503', 'VILLABELLA', 'AL', 'comune', '1861-03-17', '1938-06-19', datetime('now')),
+  ('E504', 'LAZZATE', 'MB', 'comune', '1905-06-23', NULL, datetime('now')),
+  ('E505', 'LECCE NEI MARSI', 'AQ', 'comune', '1863-05-06', NULL, datetime('now')),
+  ('E506', 'LECCE', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E507', 'LECCO', 'LC', 'comune', '1861-03-17', NULL, datetime('now'));
+
+INSERT INTO belfioreCodes (code, name, province, kind, validFrom, validTo, updatedAt) VALUES
+  ('E508', 'LEDINE', 'GO', 'comune', '1921-12-31', '1928-08-24', datetime('now')),
+  ('E509', 'LEFFE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E510', 'LEGGIUNO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E511', 'LEGGIUNO-SANGIANO', 'VA', 'comune', NULL, NULL, datetime('now')),
+  ('E512', 'LEGNAGO', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E513', 'LEGNAIA', 'FI', 'comune', NULL, NULL, datetime('now')),
+  ('E514', 'LEGNANO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E515', 'LEGNARO', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E516', 'LEGOS', 'TN', 'comune', '1920-10-16', '1928-04-04', datetime('now')),
+  ('E517', 'LEI', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E518', 'LEINI', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E519', 'LEIVI', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E520', 'LEMIE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E521', 'LEMNA', 'CO', 'comune', '1861-03-17', '1928-05-12', datetime('now')),
+  ('E522', 'LENDINARA', 'RO', 'comune', '1868-06-06', NULL, datetime('now')),
+  ('E523', 'LENI', 'ME', 'comune', '1910-01-10', NULL, datetime('now')),
+  ('E524', 'LENNA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E525', 'LENNO', 'CO', 'comune', '1861-03-17', '2014-02-04', datetime('now')),
+  ('E526', 'LENO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E527', 'LENOLA', 'LT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E528', 'LENTA', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E529', 'OSMATE', 'VA', 'comune', '1892-06-24', '2019-02-15', datetime('now')),
+  ('E530', 'LENTATE SUL SEVESO', 'MB', 'comune', '1869-02-24', NULL, datetime('now')),
+  ('E531', 'LENTELLA', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E532', 'LENTINI', 'SR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E533', 'LENZIMA', 'TN', 'comune', '1920-10-16', '1929-02-14', datetime('now')),
+  ('E534', 'LENZUMO', 'TN', 'comune', '1920-10-16', '1928-02-09', datetime('now')),
+  ('E535', 'LEONESSA', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E536', 'LEONFORTE', 'EN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E537', 'LEPORANO', 'TA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E538', 'LEQUILE', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E539', 'LEQUIO TANARO', 'CN', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('E540', 'LEQUIO BERRIA', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('E541', 'LERCARA FRIDDI', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E542', 'LERICI', 'SP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E543', 'LERMA', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E544', 'LESA', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E545', 'LESA-BELGIRATE', 'NO', 'comune', NULL, NULL, datetime('now')),
+  ('E546', 'LESEGNO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E547', 'LESIGNANO DE'' BAGNI', 'PR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E548', 'TERENZO', 'PR', 'comune', '1897-01-01', NULL, datetime('now')),
+  ('E549', 'LESINA', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E550', 'LESMO', 'MB', 'comune', '1871-07-01', NULL, datetime('now')),
+  ('E551', 'LESSOLO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E552', 'LESSONA', 'BI', 'comune', '1861-03-17', '2016-01-01', datetime('now')),
+  ('E553', 'LESTIZZA', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E554', 'LETINO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E555', 'LETOJANNI', 'ME', 'comune', '1880-02-22', NULL, datetime('now')),
+  ('E556', 'LETOJANNI GALLODORO', 'ME', 'comune', NULL, NULL, datetime('now')),
+  ('E557', 'LETTERE', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E558', 'LETTOMANOPPELLO', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E559', 'LETTOPALENA', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E560', 'LEVANTO', 'SP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E561', 'LEVATA', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('E562', 'LEVATE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E563', 'LEVERANO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E564', 'LEVICE', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E565', 'LEVICO TERME', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('E566', 'LEVONE', 'TO', 'comune', '1896-05-11', NULL, datetime('now')),
+  ('E567', 'LEVRANGE', 'BS', 'comune', '1861-03-17', '1928-12-01', datetime('now')),
+  ('E568', 'LEZZA', 'CO', 'comune', '1861-03-17', '1928-05-26', datetime('now')),
+  ('E569', 'LEZZENO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E570', 'LIBERI', 'NA', 'comune', '1862-09-08', NULL, datetime('now')),
+  ('E571', 'LIBRIZZI', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E572', 'LIBUSSINA', 'GO', 'comune', '1921-01-05', '1928-05-02', datetime('now')),
+  ('E573', 'LICATA', 'AG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E574', 'LICCIANA NARDI', 'MS', 'comune', '1869-04-01', NULL, datetime('now')),
+  ('E575', 'LICENGO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('E576', 'LICENZA', 'RM', 'comune', '1899-07-26', NULL, datetime('now')),
+  ('E577', 'LICIGNANO DI NAPOLI', 'NA', 'comune', '1886-02-12', '1929-04-13', datetime('now')),
+  ('E578', 'LICODIA EUBEA', 'CT', 'comune', '1873-01-28', NULL, datetime('now')),
+  ('E579', 'LICONASCO', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('E580', 'LICUSATI', 'SA', 'comune', '1861-03-17', '1928-10-07', datetime('now')),
+  ('E581', 'LIERNA', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E582', 'LIETO COLLE', 'CO', 'comune', '1928-06-14', '1956-11-11', datetime('now')),
+  ('E583', 'LIGNANA', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E584', 'LIGNANO SABBIADORO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E585', 'LIGONCHIO', 'RE', 'comune', '1861-03-17', '2016-01-01', datetime('now')),
+  ('E586', 'LIGOSULLO', 'UD', 'comune', '1866-11-19', '2018-02-01', datetime('now')),
+  ('E587', 'LILLIANES', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E588', 'LIMANA', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E589', 'LIMATOLA', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E590', 'LIMBADI', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E591', 'LIMBIATE', 'MB', 'comune', '1869-04-26', NULL, datetime('now')),
+  ('E592', 'LIMENA', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E593', 'LIMIDO COMASCO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E594', 'LIMINA', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E595', 'LIMITO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('E596', 'LIMONE SUL GARDA', 'BS', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('E597', 'LIMONE PIEMONTE', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('E598', 'LIMONTA', 'CO', 'comune', '1861-03-17', '1927-12-30', datetime('now')),
+  ('E599', 'LIMOSANO', 'CB', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('E600', 'LINAROLO', 'PV', 'comune', '1872-11-01', NULL, datetime('now')),
+  ('E601', 'LINATE AL LAMBRO', 'MI', 'comune', '1861-03-17', '1934-03-17', datetime('now')),
+  ('E602', 'LINGUAGLOSSA', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E603', 'LINGUEGLIETTA', 'IM', 'comune', '1861-03-17', '1928-03-06', datetime('now')),
+  ('E604', 'LINZANICO', 'CO', 'comune', '1861-03-17', '1928-03-07', datetime('now')),
+  ('E605', 'LIONI', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E606', 'LIPARI', 'ME', 'comune', '1867-03-15', NULL, datetime('now')),
+  ('E607', 'LIPOMO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E608', 'LIRIO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E609', 'LISANZA', 'VA', 'comune', '1861-03-17', '1928-04-03', datetime('now')),
+  ('E610', 'LISCATE', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E611', 'LISCIA', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E612', 'LISCIANO DEL TRONTO', 'AP', 'comune', NULL, NULL, datetime('now')),
+  ('E613', 'LISCIANO NICCONE', 'PG', 'comune', '1864-11-07', NULL, datetime('now')),
+  ('E614', 'LISIGNAGO', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('E615', 'LISIO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E616', 'LISSAGO', 'VA', 'comune', '1861-03-17', '1927-12-29', datetime('now')),
+  ('E617', 'LISSONE', 'MB', 'comune', '1869-04-16', NULL, datetime('now')),
+  ('E618', 'MILENA', 'CL', 'comune', '1924-01-14', NULL, datetime('now')),
+  ('E619', 'LIVEMMO', 'BS', 'comune', '1861-03-17', '1928-11-27', datetime('now')),
+  ('E620', 'LIVERI', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E621', 'LIVIGNO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E622', 'LIVINALLONGO DEL COL DI LANA', 'BL', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('E623', 'LIVO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E624', 'LIVO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('E625', 'LIVORNO', 'LI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E626', 'LIVORNO FERRARIS', 'VC', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('E627', 'LIVRAGA', 'LO', 'comune', '1869-02-08', NULL, datetime('now')),
+  ('E628', 'LIZZANA', 'TN', 'comune', '1920-10-16', '1927-07-15', datetime('now')),
+  ('E629', 'LIZZANELLO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E630', 'LIZZANO', 'TA', 'comune', '1870-01-02', NULL, datetime('now')),
+  ('E631', 'LIZZOLA', 'BG', 'comune', '1861-03-17', '1927-06-02', datetime('now')),
+  ('E632', 'LOANO', 'SV', 'comune', '1878-08-28', NULL, datetime('now')),
+  ('E633', 'LOAZZOLO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E634', 'LOCADI', 'ME', 'comune', '1861-03-17', '1928-12-30', datetime('now')),
+  ('E635', 'LOCANA', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E636', 'LOCARNO', 'VC', 'comune', '1861-03-17', '1929-03-02', datetime('now')),
+  ('E637', 'LOCATE BERGAMASCO', 'BG', 'comune', '1863-07-13', '1928-01-07', datetime('now')),
+  ('E638', 'LOCATE VARESINO', 'CO', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('E639', 'LOCATE DI TRIULZI', 'MI', 'comune', '1862-11-03', NULL, datetime('now')),
+  ('E640', 'LOCATELLO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E641', 'LOCAVIZZA DI AIDUSSINA', 'GO', 'comune', '1921-01-05', '1928-07-28', datetime('now')),
+  ('E642', 'LOCAVIZZA DI CANALE', 'GO', 'comune', '1921-01-05', '1928-01-26', datetime('now')),
+  ('E643', 'LOCCA', 'TN', 'comune', '1920-10-16', '1928-02-09', datetime('now')),
+  ('E644', 'LOCERI', 'OG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E645', 'LOCOROTONDO', 'BA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E646', 'LOCULI', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E647', 'LODÈ', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E648', 'LODI', 'LO', 'comune', '1877-02-02', NULL, datetime('now')),
+  ('E649', 'LODINE', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E650', 'LODISIO', 'GE', 'comune', NULL, NULL, datetime('now')),
+  ('E651', 'LODI VECCHIO', 'LO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E652', 'LODRINO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E653', 'LODRONE', 'TN', 'comune', '1920-10-16', '1928-04-17', datetime('now')),
+  ('E654', 'LOGRATO', 'BS', 'comune', '1884-11-06', NULL, datetime('now')),
+  ('E655', 'LOIANO', 'BO', 'comune', '1866-01-01', NULL, datetime('now')),
+  ('E656', 'LOMAGNA', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E657', 'LOMANIGA', 'CO', 'comune', '1861-03-17', '1928-05-13', datetime('now')),
+  ('E658', 'LOMASO', 'TN', 'comune', '1928-04-03', '2010-01-01', datetime('now')),
+  ('E659', 'LOMAZZO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E660', 'LOMBARDORE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E661', 'LOMBRIASCO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E662', 'LOMELLO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E663', 'LON', 'TN', 'comune', '1920-10-16', '1928-04-19', datetime('now')),
+  ('E664', 'LONA-LASES', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('E665', 'LONATE CEPPINO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E666', 'LONATE POZZOLO', 'VA', 'comune', '1869-03-22', NULL, datetime('now')),
+  ('E667', 'LONATO', 'BS', 'comune', NULL, NULL, datetime('now')),
+  ('E668', 'LONDA', 'FI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E669', 'LONGANO', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('E670', 'LONGARDORE', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('E671', 'LONGARE', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E672', 'LONGARONE', 'BL', 'comune', '1866-11-19', '2014-02-22', datetime('now')),
+  ('E673', 'LONGHENA', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E674', 'LONGI', 'ME', 'comune', '1868-01-01', NULL, datetime('now')),
+  ('E675', 'LONGIANO', 'FC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E676', 'LONGIARÙ', 'BZ', 'comune', '1920-10-16', '1928-06-16', datetime('now')),
+  ('E677', 'LONGOBARDI', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E678', 'LONGOBUCCO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E679', 'LONGONE AL SEGRINO', 'CO', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('E680', 'PORTO AZZURRO', 'LI', 'comune', '1873-06-23', NULL, datetime('now')),
+  ('E681', 'LONGONE SABINO', 'RI', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('E682', 'LONIGO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E683', 'LORANZÈ', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E684', 'LOREGGIA', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E685', 'LOREGLIA', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E686', 'LORENTINO', 'BG', 'comune', '1861-03-17', '1928-12-14', datetime('now')),
+  ('E687', 'LORENZAGO DI CADORE', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E688', 'LORENZANA', 'PI', 'comune', '1861-03-17', '2014-01-01', datetime('now')),
+  ('E689', 'LOREO', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E690', 'LORETO', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E691', 'LORETO APRUTINO', 'PE', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('E692', 'LORIA', 'TV', 'comune', '1887-07-22', NULL, datetime('now')),
+  ('E693', 'LORO CIUFFENNA', 'AR', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('E694', 'LORO PICENO', 'MC', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('E695', 'LORSICA', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E696', 'LOSE', 'GO', 'comune', '1921-01-05', '1928-04-29', datetime('now')),
+  ('E697', 'LOSETO', 'BA', 'comune', '1861-03-17', '1937-04-02', datetime('now')),
+  ('E698', 'LOSINE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E699', 'LOTTULO', 'CN', 'comune', '1861-03-17', '1929-01-22', datetime('now')),
+  ('E700', 'LOTZORAI', 'OG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E701', 'LOVENO GRUMELLO', 'BS', 'comune', '1863-02-23', '1928-11-10', datetime('now')),
+  ('E702', 'LOVENO SOPRA MENAGGIO', 'CO', 'comune', '1862-12-29', '1929-05-14', datetime('now')),
+  ('E703', 'LOVER', 'TN', 'comune', '1920-10-16', '1928-10-30', datetime('now')),
+  ('E704', 'LOVERE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E705', 'LOVERO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E706', 'LOZIO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E707', 'LOZZA', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E708', 'LOZZO DI CADORE', 'BL', 'comune', '1868-02-14', NULL, datetime('now')),
+  ('E709', 'LOZZO ATESTINO', 'PD', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('E710', 'LOZZO', 'VA', 'comune', '1861-03-17', '1928-08-08', datetime('now')),
+  ('E711', 'LOZZOLO', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E712', 'LU', 'AL', 'comune', '1861-03-17', '2019-02-01', datetime('now')),
+  ('E713', 'LUBRIANO', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('E714', 'LUCCA SICULA', 'AG', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('E715', 'LUCCA', 'LU', 'comune', '1884-07-07', NULL, datetime('now')),
+  ('E716', 'LUCERA', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E717', 'LUCERNATE', 'MI', 'comune', '1861-03-17', '1928-06-27', datetime('now')),
+  ('E718', 'LUCIGNANO', 'AR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E719', 'LUCINASCO', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E720', 'LUCINICO', 'GO', 'comune', '1921-01-05', '1927-01-13', datetime('now')),
+  ('E721', 'LUCINO', 'CO', 'comune', '1861-03-17', '1928-06-15', datetime('now')),
+  ('E722', 'LUCITO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E723', 'LUCO DEI MARSI', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E724', 'LUCOLI', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E725', 'LUDRIANO', 'BS', 'comune', '1861-03-17', '1927-11-08', datetime('now')),
+  ('E726', 'LUGAGNANO VAL D''ARDA', 'PC', 'comune', '1870-06-01', NULL, datetime('now')),
+  ('E727', 'LUGNACCO', 'AO', 'comune', '1861-03-17', '2019-01-01', datetime('now')),
+  ('E728', 'VAZIA', 'RI', 'comune', '1863-05-06', '1928-02-21', datetime('now')),
+  ('E729', 'LUGNANO IN TEVERINA', 'TR', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('E730', 'LUGO', 'RA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E731', 'LUGO DI VICENZA', 'VI', 'comune', '1868-02-14', NULL, datetime('now')),
+  ('E732', 'LUICO', 'GO', 'comune', '1921-01-05', '1928-05-02', datetime('now')),
+  ('E733', 'LUIGNANO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('E734', 'LUINO', 'VA', 'comune', '1889-02-11', NULL, datetime('now')),
+  ('E735', 'LUISAGO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E736', 'LULA', 'NU', 'comune', '1895-10-10', NULL, datetime('now')),
+  ('E737', 'LUMARZO', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E738', 'LUMEZZANE', 'BS', 'comune', '1928-01-07', NULL, datetime('now')),
+  ('E739', 'LUMEZZANE PIEVE', 'BS', 'comune', '1861-03-17', '1928-01-07', datetime('now')),
+  ('E740', 'LUMEZZANE SAN SEBASTIANO', 'BS', 'comune', '1921-04-29', '1928-01-07', datetime('now')),
+  ('E741', 'LUMEZZANE SANT''APOLLONIO', 'BS', 'comune', '1861-03-17', '1928-01-07', datetime('now')),
+  ('E742', 'LUNAMATRONA', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E743', 'LUNANO', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E744', 'LUNDO', 'TN', 'comune', '1920-10-16', '1928-04-03', datetime('now')),
+  ('E745', 'LUNGRO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E746', 'LUOGOSANO', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E747', 'LUOGOSANTO', 'OT', 'comune', '1947-10-26', NULL, datetime('now')),
+  ('E748', 'LUPARA', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E749', 'LURAGO D''ERBA', 'CO', 'comune', '1883-09-26', NULL, datetime('now')),
+  ('E750', 'LURAGO MARINONE', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E751', 'LURANO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E752', 'LURAS', 'OT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E753', 'LURATE CACCIVIO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E754', 'LUSCIANO', 'CE', 'comune', '1946-07-03', NULL, datetime('now')),
+  ('E755', 'LUSCIANO E DUCENTA', 'NA', 'comune', '1861-03-17', '1929-04-13', datetime('now')),
+  ('E756', 'LUSERNA', 'TO', 'comune', NULL, NULL, datetime('now')),
+  ('E757', 'LUSERNA', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('E758', 'LUSERNA SAN GIOVANNI', 'TO', 'comune', '1878-02-18', NULL, datetime('now')),
+  ('E759', 'LUSERNETTA', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E760', 'LUSEVERA', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E761', 'LUSIA', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E762', 'LUSIANA', 'VI', 'comune', '1866-11-19', '2019-02-20', datetime('now')),
+  ('E763', 'LUSIGLIÈ', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E764', 'LUSON', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('E765', 'LUSSINGRANDE', 'PL', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('E766', 'LUSSINPICCOLO', 'PL', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('E767', 'LUSTRA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E768', 'LUTAGO', 'BZ', 'comune', '1920-10-16', '1929-02-22', datetime('now')),
+  ('E769', 'LUVINATE', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E770', 'LUZZANA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E771', 'LUZZANO', 'BN', 'comune', NULL, NULL, datetime('now')),
+  ('E772', 'LUZZARA', 'RE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E773', 'LUZZI', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E774', 'LUZZOGNO', 'NO', 'comune', '1861-03-17', '1928-01-27', datetime('now')),
+  ('E775', 'MACCAGNO', 'VA', 'comune', '1861-03-17', '2014-02-04', datetime('now')),
+  ('E776', 'MACCAGNO INFERIORE', 'VA', 'comune', '1861-03-17', '1928-01-08', datetime('now')),
+  ('E777', 'MACCASTORNA', 'LO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E778', 'MACCHIA D''ISERNIA', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('E779', 'MACCHIAGODENA', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('E780', 'MACCHIA VALFORTORE', 'CB', 'comune', '1864-03-11', NULL, datetime('now')),
+  ('E781', 'MACCIO', 'CO', 'comune', '1861-03-17', '1928-05-31', datetime('now')),
+  ('E782', 'MACELLO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E783', 'MACERATA', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E784', 'MACERATA CAMPANIA', 'NA', 'comune', '1862-10-27', NULL, datetime('now')),
+  ('E785', 'MACERATA FELTRIA', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E786', 'MACHERIO', 'MB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E787', 'MACLODIO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E788', 'MACOMER', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E789', 'MACRA', 'CN', 'comune', '1928-05-31', NULL, datetime('now')),
+  ('E790', 'MACUGNAGA', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E791', 'MADDALONI', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E792', 'MADERNO', 'BS', 'comune', '1861-03-17', '1928-07-29', datetime('now')),
+  ('E793', 'MADIGNANO', 'CR', 'comune', '1868-07-05', NULL, datetime('now')),
+  ('E794', 'MADONE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E795', 'MADONNA DEL SASSO', 'VB', 'comune', '1928-03-07', NULL, datetime('now')),
+  ('E796', 'MADRANO', 'TN', 'comune', '1920-10-16', '1929-01-25', datetime('now')),
+  ('E797', 'MADRUZZO', 'TN', 'comune', '1928-07-29', '1953-09-13', datetime('now')),
+  ('E798', 'MAENZA', 'LT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('E799', 'MAFALDA', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E800', 'MAGASA', 'BS', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('E801', 'MAGENTA', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E802', 'MAGGIANICO', 'CO', 'comune', '1869-02-08', '1928-07-19', datetime('now')),
+  ('E803', 'MAGGIORA', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E804', 'MAGHERNO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E805', 'MAGIONE', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E806', 'MAGISANO', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E807', 'MAGLIANO DI TENNA', 'FM', 'comune', '1862-11-24', NULL, datetime('now')),
+  ('E808', 'MAGLIANO ALPI', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('E809', 'MAGLIANO ALFIERI', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('E810', 'MAGLIANO IN TOSCANA', 'GR', 'comune', '1862-11-07', NULL, datetime('now')),
+  ('E811', 'MAGLIANO DE'' MARSI', 'AQ', 'comune', '1869-01-08', NULL, datetime('now')),
+  ('E812', 'MAGLIANO SABINA', 'RI', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('E813', 'MAGLIANO ROMANO', 'RM', 'comune', '1958-03-29', NULL, datetime('now')),
+  ('E814', 'MAGLIANO VETERE', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E815', 'MAGLIE', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E816', 'MAGLIOLO', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E817', 'MAGLIONE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E818', 'MAGNACAVALLO', 'MN', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E819', 'MAGNAGO', 'MI', 'comune', '1869-03-25', NULL, datetime('now')),
+  ('E820', 'MAGNANO IN RIVIERA', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E821', 'MAGNANO', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E822', 'PORTIO', 'GE', 'comune', NULL, NULL, datetime('now')),
+  ('E823', 'MAGNO SOPRA INZINO', 'BS', 'comune', '1861-03-17', '1927-12-04', datetime('now')),
+  ('E824', 'MAGOGNINO', 'NO', 'comune', '1861-03-17', '1928-05-30', datetime('now')),
+  ('E825', 'MAGOMADAS', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E826', 'MAGRAS', 'TN', 'comune', '1920-10-16', '1928-09-06', datetime('now')),
+  ('E827', 'MAGRÈ', 'BZ', 'comune', '1920-10-16', '1928-06-28', datetime('now')),
+  ('E828', 'MAGRÈ VICENTINO', 'VI', 'comune', '1866-11-19', '1928-05-19', datetime('now')),
+  ('E829', 'MAGRÃ¨ SULLA STRADA DEL VINO', 'BZ', 'comune', '1928-06-27', NULL, datetime('now')),
+  ('E830', 'MAGREGLIO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E831', 'MAIA ALTA', 'TN', 'comune', '1920-10-16', '1923-11-09', datetime('now')),
+  ('E832', 'MAIA BASSA', 'TN', 'comune', '1920-10-16', '1923-11-09', datetime('now')),
+  ('E833', 'MAJANO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E834', 'MAIDA', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E835', 'MAIERÀ', 'CS', 'comune', '1876-07-15', NULL, datetime('now')),
+  ('E836', 'MAIERATO', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E837', 'MAIOLATI SPONTINI', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E838', 'MAIOLO', 'RN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E839', 'MAIORI', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E840', 'MAIRAGO', 'LO', 'comune', '1869-02-13', NULL, datetime('now')),
+  ('E841', 'MAIRANO', 'BS', 'comune', '1884-11-06', NULL, datetime('now')),
+  ('E842', 'MAISSANA', 'SP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E843', 'MALAGNINO', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E844', 'MALALBERGO', 'BO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E845', 'MALAMOCCO', 'VE', 'comune', NULL, NULL, datetime('now')),
+  ('E846', 'MALBORGHETTO', 'UD', 'comune', '1921-01-05', '1928-08-08', datetime('now')),
+  ('E847', 'MALBORGHETTO VALBRUNA', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E848', 'MALCESINE', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E849', 'MALCHINA', 'TS', 'comune', '1921-01-05', '1928-09-09', datetime('now')),
+  ('E850', 'MALÉ', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('E851', 'MALEGNO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E852', 'MALEO', 'LO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E853', 'MALESCO', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E854', 'MALETTO', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E855', 'MALFA', 'ME', 'comune', '1910-01-10', NULL, datetime('now')),
+  ('E856', 'MALGESSO', 'VA', 'comune', '1861-03-17', '2023-01-01', datetime('now')),
+  ('E857', 'MALGOLO', 'TN', 'comune', '1920-10-16', '1928-11-27', datetime('now')),
+  ('E858', 'MALGRATE', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E859', 'MALITO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E860', 'MALLARE', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E861', 'MALLAS', 'BZ', 'comune', '1920-10-16', '1928-01-27', datetime('now')),
+  ('E862', 'MALLES VENOSTA', 'BZ', 'comune', '1928-01-26', NULL, datetime('now')),
+  ('E863', 'MALNATE', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E864', 'MALO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E865', 'MALONNO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E866', 'MALOSCO', 'TN', 'comune', '1920-10-16', '2020-01-01', datetime('now')),
+  ('E867', 'MALPOTREMO', 'CN', 'comune', '1861-03-17', '1928-05-12', datetime('now')),
+  ('E868', 'MALTIGNANO', 'AP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E869', 'MALVAGNA', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E870', 'MALVICINO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E871', 'MALVINO', 'AL', 'comune', '1861-03-17', '1928-12-15', datetime('now')),
+  ('E872', 'MALVITO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E873', 'MAMMOLA', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E874', 'MAMOIADA', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E875', 'MANCIANO', 'GR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E876', 'MANDANICI', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E877', 'MANDAS', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E878', 'MANDATORICCIO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E879', 'MANDELLO DEL LARIO', 'LC', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('E880', 'MANDELLO VITTA', 'NO', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('E881', 'MANDRINO', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('E882', 'MANDURIA', 'TA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E883', 'MANERBA DEL GARDA', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E884', 'MANERBIO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E885', 'MANFREDONIA', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E886', 'MANGIALUPO', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('E887', 'MANGO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E888', 'MANGONE', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E889', 'MANIAGO', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('E890', 'MANIGLIA', 'TO', 'comune', '1861-03-17', '1928-05-01', datetime('now')),
+  ('E891', 'MANOCALZATI', 'AV', 'comune', '1869-04-19', NULL, datetime('now')),
+  ('E892', 'MANOPPELLO', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E893', 'MANSUÈ', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E894', 'MANTA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E895', 'MANTANA', 'BZ', 'comune', '1920-10-16', '1928-12-15', datetime('now')),
+  ('E896', 'MANTELLO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E897', 'MANTOVA', 'MN', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E898', 'MANZANO', 'TN', 'comune', '1920-10-16', '1924-01-15', datetime('now')),
+  ('E899', 'MANZANO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E900', 'MANZIANA', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('E901', 'MAPELLO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E902', 'MARA', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E903', 'MARACALAGONIS', 'CA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E904', 'MARANELLO', 'MO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E905', 'MARANO SUL PANARO', 'MO', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('E906', 'MARANO DI NAPOLI', 'NA', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('E907', 'MARANO TICINO', 'NO', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('E908', 'MARANO EQUO', 'RM', 'comune', '1872-12-30', NULL, datetime('now')),
+  ('E909', 'MARANO', 'TN', 'comune', '1920-10-16', '1929-02-14', datetime('now')),
+  ('E910', 'MARANO LAGUNARE', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E911', 'MARANO DI VALPOLICELLA', 'VR', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('E912', 'MARANO VICENTINO', 'VI', 'comune', '1867-09-02', NULL, datetime('now')),
+  ('E913', 'MARANOLA', 'RM', 'comune', '1861-03-17', '1928-06-15', datetime('now')),
+  ('E914', 'MARANO MARCHESATO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E915', 'MARANO PRINCIPATO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E916', 'MARANZA', 'BZ', 'comune', '1920-10-16', '1929-05-31', datetime('now')),
+  ('E917', 'MARANZANA', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E918', 'MARASSI', 'GE', 'comune', '1861-03-17', '1873-11-09', datetime('now')),
+  ('E919', 'MARATEA', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E920', 'MARCALLO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('E921', 'MARCALLO CON CASONE', 'MI', 'comune', '1870-08-02', NULL, datetime('now')),
+  ('E922', 'MARCARIA', 'MN', 'comune', '1872-01-01', NULL, datetime('now')),
+  ('E923', 'MARCEDUSA', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E924', 'MARCELLINA', 'RM', 'comune', '1910-02-17', NULL, datetime('now')),
+  ('E925', 'MARCELLINARA', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E926', 'MARCELLISE', 'VR', 'comune', '1866-11-19', '1928-01-28', datetime('now')),
+  ('E927', 'MARCETELLI', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E928', 'MARCHENO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E929', 'MARCHIROLO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E930', 'MARCIANA', 'LI', 'comune', '1884-04-07', NULL, datetime('now')),
+  ('E931', 'MARCIANA MARINA', 'LI', 'comune', '1894-08-03', NULL, datetime('now')),
+  ('E932', 'MARCIANISE', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E933', 'MARCIANO DELLA CHIANA', 'AR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E934', 'MARCIGNAGO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E935', 'MARCO', 'TN', 'comune', '1920-10-16', '1927-07-15', datetime('now')),
+  ('E936', 'MARCON', 'VE', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E937', 'MARCORENGO', 'TO', 'comune', '1861-03-17', '1928-04-04', datetime('now')),
+  ('E938', 'MAREBBE', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('E939', 'MARENE', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E940', 'MARENO DI PIAVE', 'TV', 'comune', '1867-11-25', NULL, datetime('now')),
+  ('E941', 'MARENTINO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E942', 'MARESEGO', 'PL', 'comune', '1921-01-05', '1977-04-04', datetime('now')),
+  ('E943', 'MARETA', 'BZ', 'comune', '1920-10-16', '1928-04-13', datetime('now')),
+  ('E944', 'MARETTO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E945', 'MARGARITA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E946', 'MARGHERITA DI SAVOIA', 'BT', 'comune', '1879-01-24', NULL, datetime('now')),
+  ('E947', 'MARGNO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E948', 'MARGONE', 'TN', 'comune', '1920-10-16', '1928-04-19', datetime('now')),
+  ('E949', 'MARIANA MANTOVANA', 'MN', 'comune', '1868-07-01', NULL, datetime('now')),
+  ('E950', 'MARIANO AL BREMBO', 'BG', 'comune', '1863-07-13', '1927-08-20', datetime('now')),
+  ('E951', 'MARIANO COMENSE', 'CO', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('E952', 'MARIANO DEL FRIULI', 'GO', 'comune', '1921-01-05', NULL, datetime('now')),
+  ('E953', 'MARIANOPOLI', 'CL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E954', 'MARIGLIANELLA', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E955', 'MARIGLIANO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E956', 'MARINA DI GIOIOSA IONICA', 'RC', 'comune', '1948-07-22', NULL, datetime('now')),
+  ('E957', 'MARINEO', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E958', 'MARINO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('E959', 'MARLENGO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('E960', 'MARLIANA', 'PT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E961', 'MARMENTINO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E962', 'MARMIROLO', 'MN', 'comune', '1872-01-01', NULL, datetime('now')),
+  ('E963', 'MARMORA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E964', 'MARMORITO', 'AL', 'comune', '1861-03-17', '1929-04-14', datetime('now')),
+  ('E965', 'MARNATE', 'VA', 'comune', '1866-01-21', NULL, datetime('now')),
+  ('E966', 'MARO CASTELLO', 'IM', 'comune', '1861-03-17', '1926-01-22', datetime('now')),
+  ('E967', 'MARONE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E968', 'MAROPATI', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E969', 'MARORE', 'PR', 'comune', NULL, NULL, datetime('now')),
+  ('E970', 'MAROSTICA', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E971', 'MARRADI', 'FI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E972', 'MARRUBIU', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('E973', 'MARSAGLIA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E974', 'MARSALA', 'TP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E975', 'MARSCIANO', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E976', 'MARSICO NUOVO', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E977', 'MARSICOVETERE', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E978', 'MARTA', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('E979', 'MARTANO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E980', 'MARTELLAGO', 'VE', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E981', 'MARTELLO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('E982', 'MARTIGNACCO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('E983', 'MARTIGNANA DI PO', 'CR', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('E984', 'MARTIGNANO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E985', 'MARTINA OLBA', 'SV', 'comune', '1863-04-23', '1929-06-13', datetime('now')),
+  ('E986', 'MARTINA FRANCA', 'TA', 'comune', '1864-04-01', NULL, datetime('now')),
+  ('E987', 'MARTINENGO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E988', 'MARTINIANA PO', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('E989', 'MARTINSICURO', 'TE', 'comune', '1963-04-28', NULL, datetime('now')),
+  ('E990', 'MARTIRANO', 'CZ', 'comune', '1957-01-18', NULL, datetime('now')),
+  ('E991', 'MARTIRANO LOMBARDO', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E992', 'MARTIS', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E993', 'MARTONE', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E994', 'MARUDO', 'LO', 'comune', '1869-02-08', NULL, datetime('now')),
+  ('E995', 'MARUGGIO', 'TA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('E996', 'MARZALENGO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('E997', 'MARZANO DI NOLA', 'AV', 'comune', '1862-11-07', NULL, datetime('now')),
+  ('E998', 'MARZANO APPIO', 'NA', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('E999', 'MARZANO', 'PV', 'comune', '1872-11-01', NULL, datetime('now')),
+  ('F001', 'MARZI', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F002', 'MARZIO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F003', 'MASATE', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F004', 'MASCALI', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F005', 'MASCALUCIA', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F006', 'MASCHITO', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F007', 'MASCIAGO PRIMO', 'VA', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('F008', 'MASCIAGO MILANESE', 'MI', 'comune', '1862-07-28', '1929-03-03', datetime('now'));
+
+INSERT INTO belfioreCodes (code, name, province, kind, validFrom, validTo, updatedAt) VALUES
+  ('F009', 'MASER', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F010', 'MASERA', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F011', 'MASERÀ DI PADOVA', 'PD', 'comune', '1868-02-14', NULL, datetime('now')),
+  ('F012', 'MASERADA SUL PIAVE', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F013', 'MASI', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F014', 'MASI DI VIGO', 'TN', 'comune', '1920-10-16', '1928-12-22', datetime('now')),
+  ('F015', 'MASIO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F016', 'MASI TORELLO', 'FE', 'comune', '1959-10-09', NULL, datetime('now')),
+  ('F017', 'MASLIANICO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F018', 'MASNAGO', 'VA', 'comune', '1861-03-17', '1927-12-29', datetime('now')),
+  ('F019', 'MASON VICENTINO', 'VI', 'comune', '1869-06-07', '2019-02-20', datetime('now')),
+  ('F020', 'MASONE', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F021', 'MASSA FERMANA', 'FM', 'comune', '1862-11-24', NULL, datetime('now')),
+  ('F022', 'MASSA D''ALBE', 'AQ', 'comune', '1863-05-06', NULL, datetime('now')),
+  ('F023', 'MASSA', 'MS', 'comune', '1868-10-10', NULL, datetime('now')),
+  ('F024', 'MASSA MARTANA', 'PG', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('F025', 'MASSA E COZZILE', 'PT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F026', 'MASSA FISCAGLIA', 'FE', 'comune', '1861-03-17', '2014-01-01', datetime('now')),
+  ('F027', 'MASSAFRA', 'TA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F028', 'MASSALENGO', 'LO', 'comune', '1879-06-09', NULL, datetime('now')),
+  ('F029', 'MASSA LOMBARDA', 'RA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F030', 'MASSA LUBRENSE', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F031', 'MASSAMA', 'CA', 'comune', '1861-03-17', '1927-11-09', datetime('now')),
+  ('F032', 'MASSA MARITTIMA', 'GR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F033', 'MASSANZAGO', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F034', 'MASSARI-MELZI', 'BG', 'comune', NULL, NULL, datetime('now')),
+  ('F035', 'MASSAROSA', 'LU', 'comune', '1870-01-02', NULL, datetime('now')),
+  ('F036', 'MASSA SUPERIORE', 'RO', 'comune', '1866-11-19', '1928-08-14', datetime('now')),
+  ('F037', 'MASSAZZA', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F038', 'MASSE DI CITTA''', 'SI', 'comune', NULL, NULL, datetime('now')),
+  ('F039', 'MASSE DI SAN MARTINO', 'SI', 'comune', '1861-03-17', '1869-04-01', datetime('now')),
+  ('F040', 'MASSE DI SIENA', 'SI', 'comune', '1876-12-28', '1904-05-23', datetime('now')),
+  ('F041', 'MASSELLO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F042', 'MASSERANO', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F043', 'SAN MARCO EVANGELISTA', 'NA', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('F044', 'MASSIGNANO', 'AP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F045', 'MASSIMENO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('F046', 'MASSIMINO', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F047', 'MASSINO VISCONTI', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F048', 'MASSIOLA', 'VB', 'comune', '1884-08-05', NULL, datetime('now')),
+  ('F049', 'MASTELLINA', 'TN', 'comune', '1920-10-16', '1928-10-07', datetime('now')),
+  ('F050', 'MASULLAS', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('F051', 'MATELICA', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F052', 'MATERA', 'MT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F053', 'MATHI', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F054', 'MATINO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F055', 'MATRICE', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F056', 'MATTARELLO', 'TN', 'comune', '1920-10-16', '1926-10-01', datetime('now')),
+  ('F057', 'MATTERIA', 'FU', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('F058', 'MATTIE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F059', 'MATTINATA', 'FG', 'comune', '1955-08-19', NULL, datetime('now')),
+  ('F060', 'MATTUGLIE', 'FU', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('F061', 'MAZARA DEL VALLO', 'TP', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('F062', 'MAZIA', 'BZ', 'comune', '1920-10-16', '1928-01-27', datetime('now')),
+  ('F063', 'MAZZANO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F064', 'MAZZANO ROMANO', 'RM', 'comune', '1872-08-26', NULL, datetime('now')),
+  ('F065', 'MAZZARINO', 'CL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F066', 'MAZZARRÀ SANT''ANDREA', 'ME', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('F067', 'MAZZÈ', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F068', 'MAZZIN', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('F069', 'MAZZO MILANESE', 'MI', 'comune', '1862-11-03', '1928-06-27', datetime('now')),
+  ('F070', 'MAZZO DI VALTELLINA', 'SO', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('F071', 'MAZZOLENI E FALGHERA', 'BG', 'comune', '1861-03-17', '1927-08-04', datetime('now')),
+  ('F072', 'MAZZUNNO', 'BS', 'comune', '1861-03-17', '1928-05-13', datetime('now')),
+  ('F073', 'MEANA SARDO', 'NU', 'comune', '1862-09-29', NULL, datetime('now')),
+  ('F074', 'MEANA DI SUSA', 'TO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('F075', 'MEANO', 'TO', 'comune', '1861-03-17', '1928-05-31', datetime('now')),
+  ('F076', 'MEANO', 'TN', 'comune', '1920-10-16', '1926-10-01', datetime('now')),
+  ('F077', 'MECHEL', 'TN', 'comune', '1920-10-16', '1928-09-09', datetime('now')),
+  ('F078', 'MEDA', 'MB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F079', 'MEDANA', 'GO', 'comune', '1921-01-05', '1928-05-12', datetime('now')),
+  ('F080', 'MEDE', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F081', 'MEDEA', 'GO', 'comune', '1921-01-05', NULL, datetime('now')),
+  ('F082', 'MEDESANO', 'PR', 'comune', '1873-11-03', NULL, datetime('now')),
+  ('F083', 'MEDICINA', 'BO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F084', 'MEDIGLIA', 'MI', 'comune', '1869-01-22', NULL, datetime('now')),
+  ('F085', 'MEDOLAGO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F086', 'MEDOLE', 'MN', 'comune', '1868-07-01', NULL, datetime('now')),
+  ('F087', 'MEDOLLA', 'MO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F088', 'MEDUNA DI LIVENZA', 'TV', 'comune', '1884-08-23', NULL, datetime('now')),
+  ('F089', 'MEDUNO', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('F090', 'PIEDIPATERNO SUL NERA', 'PG', 'comune', NULL, NULL, datetime('now')),
+  ('F091', 'MEGLIADINO SAN FIDENZIO', 'PD', 'comune', '1866-11-19', '2018-02-17', datetime('now')),
+  ('F092', 'MEGLIADINO SAN VITALE', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F093', 'MEINA', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F094', 'MEL', 'BL', 'comune', '1866-11-19', '2019-01-30', datetime('now')),
+  ('F095', 'MELARA', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F096', 'MELAZZO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F097', 'MELDOLA', 'FC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F098', 'MELE', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F099', 'MELEGNANELLO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('F100', 'MELEGNANO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F101', 'MELENDUGNO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F102', 'MELETI', 'LO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F103', 'MELEZET', 'TO', 'comune', '1861-03-17', '1927-07-27', datetime('now')),
+  ('F104', 'MELFI', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F105', 'MELICUCCÀ', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F106', 'MELICUCCO', 'RC', 'comune', '1936-07-15', NULL, datetime('now')),
+  ('F107', 'MELILLI', 'SR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F108', 'MELISSA', 'KR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F109', 'MELISSANO', 'LE', 'comune', '1921-05-12', NULL, datetime('now')),
+  ('F110', 'MELITO IRPINO', 'AV', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('F111', 'MELITO DI NAPOLI', 'NA', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('F112', 'MELITO DI PORTO SALVO', 'RC', 'comune', '1864-06-23', NULL, datetime('now')),
+  ('F113', 'MELIZZANO', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F114', 'MELLE', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F115', 'MELLO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F116', 'SILEA', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F117', 'MELPIGNANO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F118', 'MELTINA', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('F119', 'MELZO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F120', 'MENAGGIO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F121', 'MENAROLA', 'SO', 'comune', '1861-03-17', '2015-11-25', datetime('now')),
+  ('F122', 'MENCONICO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F123', 'MENDATICA', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F124', 'MENDATICA MONTEGROSSO', 'IM', 'comune', '1928-07-18', '1950-02-18', datetime('now')),
+  ('F125', 'MENDICINO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F126', 'MENFI', 'AG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F127', 'MENTANA', 'RM', 'comune', '1895-11-27', NULL, datetime('now')),
+  ('F128', 'MENTOULLES', 'TO', 'comune', '1861-03-17', '1927-11-06', datetime('now')),
+  ('F129', 'MENZAGO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('F130', 'MEOLO', 'VE', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F131', 'MERANA', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F132', 'MERANO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('F133', 'MERATE', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F134', 'MERCALLO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F135', 'MERCATELLO SUL METAURO', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F136', 'MERCATINO CONCA', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F137', 'NOVAFELTRIA', 'RN', 'comune', '1907-04-20', NULL, datetime('now')),
+  ('F138', 'MERCATO SAN SEVERINO', 'SA', 'comune', '1869-08-24', NULL, datetime('now')),
+  ('F139', 'MERCATO SARACENO', 'FC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F140', 'MERCENASCO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F141', 'MERCOGLIANO', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F142', 'MERCUGNANO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('F143', 'MERCURAGO', 'NO', 'comune', '1861-03-17', '1928-02-26', datetime('now')),
+  ('F144', 'MERETO DI TOMBA', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F145', 'MERGO', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F146', 'MERGOZZO', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F147', 'MERÌ', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F148', 'MERLARA', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F149', 'MERLINO', 'LO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F150', 'MERNA', 'GO', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('F151', 'MERONE', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F152', 'MESAGNE', 'BR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F153', 'MESE', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F154', 'MESENZANA', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F155', 'MESERO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F156', 'MESOLA', 'FE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F157', 'MESORACA', 'KR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F158', 'MESSINA', 'ME', 'comune', '1866-01-14', NULL, datetime('now')),
+  ('F159', 'MESTRE', 'VE', 'comune', '1866-11-19', '1926-08-24', datetime('now')),
+  ('F160', 'MESTRIAGO', 'TN', 'comune', '1920-10-16', '1928-10-07', datetime('now')),
+  ('F161', 'MESTRINO', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F162', 'META', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F163', 'METTONE', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('F164', 'MEUGLIANO', 'AO', 'comune', '1861-03-17', '2019-01-01', datetime('now')),
+  ('F165', 'MEZZAGO', 'MB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F166', 'MEZZANA CASATI', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('F167', 'MEZZANA MORTIGLIENGO', 'BI', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('F168', 'MEZZANA', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('F169', 'MEZZANA SUPERIORE', 'VA', 'comune', '1902-01-17', '1927-12-04', datetime('now')),
+  ('F170', 'MEZZANA BIGLI', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F171', 'MEZZANA RABATTONE', 'PV', 'comune', '1873-05-10', NULL, datetime('now')),
+  ('F172', 'MEZZANE DI SOTTO', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F173', 'MEZZANEGO', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F174', 'MEZZANI', 'PR', 'comune', '1861-03-17', '2019-01-01', datetime('now')),
+  ('F175', 'MEZZANINO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F176', 'MEZZANO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('F177', 'MEZZANO IMER', 'TN', 'comune', '1928-01-28', '1947-03-31', datetime('now')),
+  ('F178', 'MEZZANO PARPANESE', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('F179', 'MEZZANO PASSONE', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('F180', 'MEZZANO SICCOMARIO', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('F181', 'MEZZEGRA', 'CO', 'comune', '1861-03-17', '2014-02-04', datetime('now')),
+  ('F182', 'MEZZENILE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F183', 'MEZZOCORONA', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('F184', 'MEZZOJUSO', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F185', 'MEZZOLAGO', 'TN', 'comune', '1920-10-16', '1928-04-04', datetime('now')),
+  ('F186', 'MEZZOLDO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F187', 'MEZZOLOMBARDO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('F188', 'MEZZOMERICO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F189', 'MIAGLIANO', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F190', 'MIANE', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F191', 'MIASINO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F192', 'MIAZZINA', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F193', 'MICIGLIANO', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F194', 'MIGGIANO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F195', 'MIGIANDONE', 'NO', 'comune', '1861-03-17', '1928-07-30', datetime('now')),
+  ('F196', 'MIGLIANICO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F197', 'MIGLIANO', 'AV', 'comune', NULL, NULL, datetime('now')),
+  ('F198', 'MIGLIARINO', 'FE', 'comune', '1883-12-17', '2014-01-01', datetime('now')),
+  ('F199', 'MIGLIARO', 'FE', 'comune', '1963-07-31', '2014-01-01', datetime('now')),
+  ('F200', 'MIGLIERINA', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F201', 'MIGLIONICO', 'MT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F202', 'MIGNANEGO', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F203', 'MIGNANO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F204', 'MIGNETTE', 'MI', 'comune', '1861-03-17', '1869-02-13', datetime('now')),
+  ('F205', 'MILANO', 'MI', 'comune', '1873-06-23', NULL, datetime('now')),
+  ('F206', 'MILAZZO', 'ME', 'comune', '1879-08-29', NULL, datetime('now')),
+  ('F207', 'MILETO', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F208', 'MILIS', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('F209', 'MILITELLO IN VAL DI CATANIA', 'CT', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('F210', 'MILITELLO ROSMARINO', 'ME', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('F211', 'MILLAN-SARNES', 'BZ', 'comune', '1920-10-16', '1928-09-09', datetime('now')),
+  ('F212', 'MILLAURES', 'TO', 'comune', '1861-03-17', '1927-07-27', datetime('now')),
+  ('F213', 'MILLESIMO', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F214', 'MILO', 'CT', 'comune', '1955-02-15', NULL, datetime('now')),
+  ('F215', 'MILZANELLO', 'BS', 'comune', '1861-03-17', '1927-12-09', datetime('now')),
+  ('F216', 'MILZANO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F217', 'MINEO', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F218', 'MINERBE', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F219', 'MINERBIO', 'BO', 'comune', '1869-01-30', NULL, datetime('now')),
+  ('F220', 'MINERVINO MURGE', 'BT', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('F221', 'MINERVINO DI LECCE', 'LE', 'comune', '1864-04-01', NULL, datetime('now')),
+  ('F222', 'MINOPRIO', 'CO', 'comune', '1861-03-17', '1929-05-30', datetime('now')),
+  ('F223', 'MINORI', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F224', 'MINTURNO', 'LT', 'comune', '1879-07-28', NULL, datetime('now')),
+  ('F225', 'MINUCCIANO', 'LU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F226', 'MIOGLIA', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F227', 'MIOLA', 'TN', 'comune', '1920-10-16', '1928-09-09', datetime('now')),
+  ('F228', 'MIONE', 'UD', 'comune', '1866-11-19', '1871-12-31', datetime('now')),
+  ('F229', 'MIRA', 'VE', 'comune', '1868-01-01', NULL, datetime('now')),
+  ('F230', 'MIRABELLA ECLANO', 'AV', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('F231', 'MIRABELLA IMBACCARI', 'CT', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('F232', 'MIRABELLO MONFERRATO', 'AL', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('F233', 'MIRABELLO SANNITICO', 'CB', 'comune', '1863-08-10', NULL, datetime('now')),
+  ('F234', 'MIRABELLO CIRIA', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('F235', 'MIRABELLO', 'FE', 'comune', '1959-10-03', '2017-01-01', datetime('now')),
+  ('F236', 'MIRABELLO SAN BERNARDINO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('F237', 'MIRABELLO ED UNITI DI PAVIA', 'PV', 'comune', '1883-06-21', '1939-07-14', datetime('now')),
+  ('F238', 'MIRADOLO TERME', 'PV', 'comune', '1872-11-01', NULL, datetime('now')),
+  ('F239', 'MIRANDA', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('F240', 'MIRANDOLA', 'MO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F241', 'MIRANO', 'VE', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F242', 'MIRTO', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F243', 'MISANO DI GERA D''ADDA', 'BG', 'comune', '1863-08-10', NULL, datetime('now')),
+  ('F244', 'MISANO ADRIATICO', 'RN', 'comune', '1870-01-02', NULL, datetime('now')),
+  ('F245', 'MISANO OLONA', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('F246', 'MISILMERI', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F247', 'MISINTO', 'MB', 'comune', '1882-01-09', NULL, datetime('now')),
+  ('F248', 'MISSAGLIA', 'LC', 'comune', '1882-06-19', NULL, datetime('now')),
+  ('F249', 'MISSANELLO', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F250', 'MISTERBIANCO', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F251', 'MISTRETTA', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F252', 'MIZZOLE', 'VR', 'comune', '1866-11-19', '1933-09-02', datetime('now')),
+  ('F253', 'MOANO', 'IM', 'comune', '1861-03-17', '1928-09-06', datetime('now')),
+  ('F254', 'MOASCA', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F255', 'MOCCHIE', 'TO', 'comune', '1861-03-17', '1936-07-08', datetime('now')),
+  ('F256', 'MOCONESI', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F257', 'MODENA', 'MO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F258', 'MODICA', 'RG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F259', 'MODIGLIANA', 'FC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F260', 'TAVAZZANO CON VILLAVESCO', 'LO', 'comune', '1879-06-09', NULL, datetime('now')),
+  ('F261', 'MODOLO', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F262', 'MODUGNO', 'BA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F263', 'MOENA', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('F264', 'MOERNA', 'TN', 'comune', '1920-10-16', '1929-03-01', datetime('now')),
+  ('F265', 'MOGGIO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F266', 'MOGGIO UDINESE', 'UD', 'comune', '1923-02-08', NULL, datetime('now')),
+  ('F267', 'MOGLIA', 'MN', 'comune', '1876-11-20', NULL, datetime('now')),
+  ('F268', 'MOGLIANO', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F269', 'MOGLIANO VENETO', 'TV', 'comune', '1868-02-14', NULL, datetime('now')),
+  ('F270', 'MOGORELLA', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('F271', 'RUINAS', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('F272', 'MOGORO', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('F273', 'MOIANA', 'CO', 'comune', '1861-03-17', '1928-12-16', datetime('now')),
+  ('F274', 'MOIANO', 'BN', 'comune', '1867-03-15', NULL, datetime('now')),
+  ('F275', 'MOIMACCO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F276', 'MOIO DE'' CALVI', 'BG', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('F277', 'MOIO ALCANTARA', 'ME', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('F278', 'MOIO DELLA CIVITELLA', 'SA', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('F279', 'MOIOLA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F280', 'MOLA DI BARI', 'BA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F281', 'MOLARE', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F282', 'MOLASSANA', 'GE', 'comune', '1861-03-17', '1926-02-06', datetime('now')),
+  ('F283', 'MOLAZZANA', 'LU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F284', 'MOLFETTA', 'BA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F285', 'MOLINA', 'CO', 'comune', '1861-03-17', '1928-05-12', datetime('now')),
+  ('F286', 'MOLINA DI LEDRO', 'TN', 'comune', '1920-10-16', '2010-01-01', datetime('now')),
+  ('F287', 'MOLINARA', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F288', 'MOLINELLA', 'BO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F289', 'MOLINI DI COLOGNOLA', 'BG', 'comune', '1861-03-17', '1927-02-18', datetime('now')),
+  ('F290', 'MOLINI DI TRIORA', 'IM', 'comune', '1904-01-22', NULL, datetime('now')),
+  ('F291', 'MOLINI DI TURES', 'BZ', 'comune', '1920-10-16', '1929-02-09', datetime('now')),
+  ('F292', 'MOLINO ALZANO', 'AL', 'comune', '1928-06-19', '1946-07-19', datetime('now')),
+  ('F293', 'MOLINO DEI TORTI', 'AL', 'comune', '1891-05-11', NULL, datetime('now')),
+  ('F294', 'MOLISE', 'CB', 'comune', '1911-07-28', NULL, datetime('now')),
+  ('F295', 'MOLITERNO', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F296', 'MOLLARO', 'TN', 'comune', '1920-10-16', '1929-01-24', datetime('now')),
+  ('F297', 'MOLLIA', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F298', 'MOLLIÃ¨RES', 'TO', 'comune', '1861-03-17', '1928-12-14', datetime('now')),
+  ('F299', 'PORTO EMPEDOCLE', 'AG', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('F300', 'MOLO DI BORBERA', 'AL', 'comune', '1863-01-26', '1928-06-28', datetime('now')),
+  ('F301', 'MOLOCHIO', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F302', 'MONTEGRAZIE', 'IM', 'comune', '1872-07-16', '1928-12-15', datetime('now')),
+  ('F303', 'MOLTEDO SUPERIORE', 'IM', 'comune', '1871-08-03', '1928-12-15', datetime('now')),
+  ('F304', 'MOLTENO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F305', 'MOLTRASIO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F306', 'MOLVENA', 'VI', 'comune', '1889-07-15', '2019-02-20', datetime('now')),
+  ('F307', 'MOLVENO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('F308', 'MOMBALDONE', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F309', 'MOMBARCARO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F310', 'MOMBAROCCIO', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F311', 'MOMBARUZZO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F312', 'MOMBASIGLIO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F313', 'MOMBELLO MONFERRATO', 'AL', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('F314', 'MOMBELLO LAGO MAGGIORE', 'VA', 'comune', '1863-07-13', '1928-01-28', datetime('now')),
+  ('F315', 'MOMBELLO DI TORINO', 'TO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('F316', 'MOMBERCELLI', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F317', 'MOMO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F318', 'MOMPANTERO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F319', 'MOMPEO', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F320', 'MOMPERONE', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F321', 'MOMPIANO', 'BS', 'comune', NULL, NULL, datetime('now')),
+  ('F322', 'MONACILIONI', 'CB', 'comune', '1875-10-26', NULL, datetime('now')),
+  ('F323', 'MONALE', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F324', 'MONASTERACE', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F325', 'MONASTERO BORMIDA', 'AT', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('F326', 'MONASTERO DI VASCO', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('F327', 'MONASTERO DI LANZO', 'TO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('F328', 'MONASTEROLO DEL CASTELLO', 'BG', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('F329', 'MONASTEROLO CASOTTO', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('F330', 'MONASTEROLO DI SAVIGLIANO', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('F331', 'MONASTEROLO TORINESE', 'TO', 'comune', '1863-01-05', '1928-04-15', datetime('now')),
+  ('F332', 'MONASTIER DI TREVISO', 'TV', 'comune', '1868-02-14', NULL, datetime('now')),
+  ('F333', 'MONASTIR', 'SU', 'comune', '1947-10-17', NULL, datetime('now')),
+  ('F334', 'MONATE', 'VA', 'comune', '1861-03-17', '1927-09-04', datetime('now')),
+  ('F335', 'MONCALIERI', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F336', 'MONCALVO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F337', 'MONCESTINO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F338', 'MONCHIERO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F339', 'NOVELLO MONCHIERO', 'CN', 'comune', '1928-04-15', '1947-03-16', datetime('now')),
+  ('F340', 'MONCHIO DELLE CORTI', 'PR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F341', 'MONCLASSICO', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('F342', 'MONCRIVELLO', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F343', 'MONCUCCO TORINESE', 'AT', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('F344', 'MONCUCCO VECCHIO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('F345', 'MONCUCCO DI MONZA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('F346', 'MONDAINO', 'RN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F347', 'MONDAVIO', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F348', 'MONDOLFO', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F349', 'MONDONICO', 'CO', 'comune', '1861-03-17', '1927-06-18', datetime('now')),
+  ('F350', 'MONDONIO', 'AL', 'comune', '1861-03-17', '1929-04-06', datetime('now')),
+  ('F351', 'MONDOVÌ', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F352', 'MONDRAGONE', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F353', 'MONDRONE', 'TO', 'comune', '1861-03-17', '1928-05-12', datetime('now')),
+  ('F354', 'MONEGLIA', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F355', 'MONESIGLIO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F356', 'MONFALCONE', 'GO', 'comune', '1921-01-05', NULL, datetime('now')),
+  ('F357', 'SERRAMAZZONI', 'MO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F358', 'MONFORTE D''ALBA', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('F359', 'MONFORTE SAN GIORGIO', 'ME', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('F360', 'MONFUMO', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F361', 'MONGARDINO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F362', 'MONGHEZZO DI FUORI', 'BZ', 'comune', '1920-10-16', '1929-03-25', datetime('now')),
+  ('F363', 'MONGHIDORO', 'BO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F364', 'MONGIANA', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F365', 'MONGIARDINO LIGURE', 'AL', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('F366', 'MONGIARDINO SILLARO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('F367', 'MONTJOVET', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F368', 'MONGIUFFI MELIA', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F369', 'MONGRANDO', 'BI', 'comune', '1870-01-11', NULL, datetime('now')),
+  ('F370', 'MONGRASSANO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F371', 'MONGUELFO-TESIDO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('F372', 'MONGUZZO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F373', 'MONIGA DEL GARDA', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F374', 'MONLEALE', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F375', 'MONNO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F376', 'MONOPOLI', 'BA', 'comune', '1895-01-28', NULL, datetime('now')),
+  ('F377', 'MONREALE', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F378', 'MONRUPINO', 'TS', 'comune', '1921-01-05', NULL, datetime('now')),
+  ('F379', 'MONSAMPIETRO MORICO', 'FM', 'comune', '1893-03-03', NULL, datetime('now')),
+  ('F380', 'MONSAMPOLO DEL TRONTO', 'AP', 'comune', '1862-11-24', NULL, datetime('now')),
+  ('F381', 'MONSANO', 'AN', 'comune', '1864-02-02', NULL, datetime('now')),
+  ('F382', 'MONSELICE', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F383', 'MONSERRATO', 'CA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F384', 'MONSUMMANO TERME', 'PT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F385', 'MONTÀ', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F386', 'MONTABONE', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F387', 'MONTACUTO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F388', 'MONTACUTO', 'AP', 'comune', NULL, NULL, datetime('now')),
+  ('F389', 'MONTADAMO', 'AP', 'comune', NULL, NULL, datetime('now')),
+  ('F390', 'MONTAFIA', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F391', 'MONTAGANO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F392', 'MONTAGNA SULLA STRADA DEL VINO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('F393', 'MONTAGNA IN VALTELLINA', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F394', 'MONTAGNANA', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F395', 'MONTAGNAREALE', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F396', 'MONTAGNE', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('F397', 'MONTAGUTO', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F398', 'MONTAIONE', 'FI', 'comune', '1876-03-20', NULL, datetime('now')),
+  ('F399', 'MONTALBANO JONICO', 'MT', 'comune', '1871-03-01', NULL, datetime('now')),
+  ('F400', 'MONTALBANO ELICONA', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F401', 'OSTRA', 'AN', 'comune', '1881-05-27', NULL, datetime('now')),
+  ('F402', 'MONTALCINO', 'SI', 'comune', '1861-03-17', '2017-01-01', datetime('now')),
+  ('F403', 'MONTALDEO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F404', 'MONTALDO BORMIDA', 'AL', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('F405', 'MONTALDO DI MONDOVÌ', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('F406', 'MONTALTO LIGURE', 'IM', 'comune', '1864-02-21', '2018-01-01', datetime('now')),
+  ('F407', 'MONTALDO TORINESE', 'TO', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('F408', 'MONTALDO ROERO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F409', 'MONTALDO SCARAMPI', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F410', 'MONTALE', 'PT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F411', 'MONTALENGHE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F412', 'MONTALERO', 'AL', 'comune', '1861-03-17', '1928-08-14', datetime('now')),
+  ('F413', 'MONTALFOGLIO', 'PU', 'comune', NULL, NULL, datetime('now')),
+  ('F414', 'MONTALLEGRO', 'AG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F415', 'MONTALTO DELLE MARCHE', 'AP', 'comune', '1867-01-31', NULL, datetime('now')),
+  ('F416', 'MONTALTO UFFUGO', 'CS', 'comune', '1864-01-16', NULL, datetime('now')),
+  ('F417', 'MONTALTO PAVESE', 'PV', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('F418', 'MONTALTO TARUGO', 'PU', 'comune', NULL, NULL, datetime('now')),
+  ('F419', 'MONTALTO DI CASTRO', 'VT', 'comune', '1872-11-06', NULL, datetime('now')),
+  ('F420', 'MONTALTO DORA', 'AO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('F421', 'MONTANARA', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('F422', 'MONTANARO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F423', 'MONTANASO LOMBARDO', 'LO', 'comune', '1870-08-02', NULL, datetime('now')),
+  ('F424', 'MONTANERA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F425', 'MONTANO COMASCO', 'CO', 'comune', '1863-07-13', '1928-06-15', datetime('now')),
+  ('F426', 'MONTANO ANTILIA', 'SA', 'comune', '1864-02-02', NULL, datetime('now')),
+  ('F427', 'MONTANO LUCINO', 'CO', 'comune', '1928-06-15', NULL, datetime('now')),
+  ('F428', 'MONTAPPONE', 'FM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F429', 'MONTAQUILA', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('F430', 'MONTASOLA', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F431', 'MONTASSILONE', 'BZ', 'comune', '1920-10-16', '1928-05-30', datetime('now')),
+  ('F432', 'MONTAURO', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F433', 'MONTAZZOLI', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F434', 'MONTE CREMASCO', 'CR', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('F435', 'MONTESIRO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('F436', 'MONTE DI MEZZODÃ¬', 'BZ', 'comune', '1920-10-16', '1928-05-13', datetime('now')),
+  ('F437', 'MONTE ARGENTARIO', 'GR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F438', 'MONTE DI TRAMONTANA', 'BZ', 'comune', '1920-10-16', '1928-05-13', datetime('now')),
+  ('F439', 'MONTEBELLO METAURENSE', 'PU', 'comune', NULL, NULL, datetime('now')),
+  ('F440', 'MONTEBELLO DELLA BATTAGLIA', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F441', 'MONTEBELLO DI BERTONA', 'PE', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('F442', 'MONTEBELLO VICENTINO', 'VI', 'comune', '1867-09-02', NULL, datetime('now')),
+  ('F443', 'MONTEBELLUNA', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F444', 'MONTE BOLOGNOLA', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('F445', 'MONTEBRUNO', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F446', 'MONTEBUONO', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F447', 'MONTECALVO DEL CASTELLANO', 'AP', 'comune', NULL, NULL, datetime('now')),
+  ('F448', 'MONTECALVO IRPINO', 'AV', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('F449', 'MONTECALVO VERSIGGIA', 'PV', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('F450', 'MONTECALVO IN FOGLIA', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F451', 'MONTECALVOLI', 'FI', 'comune', NULL, NULL, datetime('now')),
+  ('F452', 'MONTECARLO', 'LU', 'comune', '1881-04-22', NULL, datetime('now')),
+  ('F453', 'MONTECAROTTO', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F454', 'MONTECASSIANO', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F455', 'MONTECASTELLO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F456', 'MONTE CASTELLO DI VIBIO', 'PG', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('F457', 'MONTECASTRILLI', 'TR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F458', 'MONTECATINI VAL DI CECINA', 'PI', 'comune', '1869-06-11', NULL, datetime('now')),
+  ('F459', 'MONTECATINI DI VAL DI NIEVOLE', 'PT', 'comune', '1861-03-17', '1940-10-08', datetime('now')),
+  ('F460', 'MONTE CAVALLO', 'MC', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('F461', 'MONTECCHIA DI CROSARA', 'VR', 'comune', '1880-01-16', NULL, datetime('now')),
+  ('F462', 'MONTECCHIO', 'TR', 'comune', '1948-04-30', NULL, datetime('now')),
+  ('F463', 'MONTECCHIO EMILIA', 'RE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F464', 'MONTECCHIO MAGGIORE', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F465', 'MONTECCHIO PRECALCINO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F466', 'MONTECELIO', 'RM', 'comune', '1872-09-16', '1937-11-04', datetime('now')),
+  ('F467', 'MONTE CERIGNONE', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F468', 'MONTECHIARO D''ASTI', 'AT', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('F469', 'MONTECHIARO D''ACQUI', 'AL', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('F470', 'MONTECHIARO', 'BZ', 'comune', '1920-10-16', '1929-05-15', datetime('now')),
+  ('F471', 'MONTICHIARI', 'BS', 'comune', '1877-12-21', NULL, datetime('now')),
+  ('F472', 'MONTECHIARO DENICE', 'AL', 'comune', '1929-06-02', '1946-07-04', datetime('now')),
+  ('F473', 'MONTECHIARUGOLO', 'PR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F474', 'MONTECICCARDO', 'PU', 'comune', '1861-03-17', '2020-07-01', datetime('now')),
+  ('F475', 'MONTECILFONE', 'CB', 'comune', '1884-04-18', NULL, datetime('now')),
+  ('F476', 'MONTE COLOMBO', 'RN', 'comune', '1861-03-17', '2016-01-01', datetime('now')),
+  ('F477', 'MONTE COMPATRI', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('F478', 'MONTECOPIOLO', 'RN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F479', 'MONTECORICE', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F480', 'MONTECORVINO PUGLIANO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F481', 'MONTECORVINO ROVELLA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F482', 'MONTECOSARO', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F483', 'MONTECRESTESE', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F484', 'MONTECRETO', 'MO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F485', 'MONTE DI CAPODISTRIA', 'PL', 'comune', '1921-01-05', '1977-04-04', datetime('now')),
+  ('F486', 'MONTE DI MALO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F487', 'MONTEDINOVE', 'AP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F488', 'MONTE DI PROCIDA', 'NA', 'comune', '1907-02-11', NULL, datetime('now')),
+  ('F489', 'MONTEDORO', 'CL', 'comune', '1868-03-27', NULL, datetime('now')),
+  ('F490', 'MONTEFABBRI', 'PU', 'comune', NULL, NULL, datetime('now')),
+  ('F491', 'MONTEFALCIONE', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F492', 'MONTEFALCO', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F493', 'MONTEFALCONE APPENNINO', 'FM', 'comune', '1870-09-30', NULL, datetime('now')),
+  ('F494', 'MONTEFALCONE DI VAL FORTORE', 'BN', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('F495', 'MONTEFALCONE NEL SANNIO', 'CB', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('F496', 'MONTEFANO', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F497', 'MONTEFELCINO', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F498', 'MONTEFERRANTE', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F499', 'MONTEFIASCONE', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('F500', 'MONTEFINO', 'TE', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('F501', 'MONTEFIORE DELL''ASO', 'AP', 'comune', '1862-11-24', NULL, datetime('now')),
+  ('F502', 'MONTEFIORE CONCA', 'RN', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('F503', 'MONTEFIORINO', 'MO', 'comune', '1869-04-26', NULL, datetime('now')),
+  ('F504', 'MONTEFLAVIO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('F505', 'MONTEFONTANA', 'BZ', 'comune', '1920-10-16', '1929-02-15', datetime('now')),
+  ('F506', 'MONTEFORTE IRPINO', 'AV', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('F507', 'MONTEFORTE CILENTO', 'SA', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('F508', 'MONTEFORTE D''ALPONE', 'VR', 'comune', '1867-08-26', NULL, datetime('now'));
+
+INSERT INTO belfioreCodes (code, name, province, kind, validFrom, validTo, updatedAt) VALUES
+  ('F509', 'MONTEFORTINO', 'FM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F510', 'MONTEFRANCO', 'TR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F511', 'MONTEFREDANE', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F512', 'MONTEFUSCO', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F513', 'MONTEGABBIONE', 'TR', 'comune', '1869-07-12', NULL, datetime('now')),
+  ('F514', 'MONTEGALDA', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F515', 'MONTEGALDELLA', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F516', 'MONTEGALLO', 'AP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F517', 'MONTE GIBERTO', 'FM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F518', 'MONTEGIOCO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F519', 'MONTEGIORDANO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F520', 'MONTEGIORGIO', 'FM', 'comune', '1898-08-13', NULL, datetime('now')),
+  ('F521', 'MONTEGIOVE', 'PG', 'comune', NULL, NULL, datetime('now')),
+  ('F522', 'MONTEGRANARO', 'FM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F523', 'MONTEGRIDOLFO', 'RN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F524', 'MONTE GRIMANO TERME', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F525', 'MONTEGRINO', 'VA', 'comune', '1861-03-17', '1928-01-22', datetime('now')),
+  ('F526', 'MONTEGRINO VALTRAVAGLIA', 'VA', 'comune', '1928-01-22', NULL, datetime('now')),
+  ('F527', 'MONTEGROSSO D''ASTI', 'AT', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('F528', 'MONTEGROSSO PIAN LATTE', 'IM', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('F529', 'MONTEGROTTO TERME', 'PD', 'comune', '1919-04-07', NULL, datetime('now')),
+  ('F530', 'MONTEGUIDUCCIO', 'PU', 'comune', NULL, NULL, datetime('now')),
+  ('F531', 'MONTEIASI', 'TA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F532', 'MONTE ISOLA', 'BS', 'comune', '1928-02-16', NULL, datetime('now')),
+  ('F533', 'MONTELABBATE', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F534', 'MONTELANICO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('F535', 'MONTELAPIANO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F536', 'MONTELEONE DI FERMO', 'FM', 'comune', '1893-03-03', NULL, datetime('now')),
+  ('F537', 'VIBO VALENTIA', 'VV', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('F538', 'MONTELEONE DI PUGLIA', 'FG', 'comune', '1862-10-24', NULL, datetime('now')),
+  ('F539', 'MONTELEONE SUI COLLI PAVESI', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('F540', 'MONTELEONE DI SPOLETO', 'PG', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('F541', 'MONTELEONE SABINO', 'RI', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('F542', 'MONTELEONE ROCCA DORIA', 'SS', 'comune', '1862-09-22', NULL, datetime('now')),
+  ('F543', 'MONTELEONE D''ORVIETO', 'TR', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('F544', 'MONTELEPRE', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F545', 'MONTELIBRETTI', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('F546', 'MONTELLA', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F547', 'MONTELLO', 'BG', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('F548', 'MONTELONGO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F549', 'MONTELPARO', 'FM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F550', 'MONTELUPO ALBESE', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('F551', 'MONTELUPO FIORENTINO', 'FI', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('F552', 'MONTELUPONE', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F553', 'MONTEMAGGIORE BELSITO', 'PA', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('F554', 'MONTEMAGGIORE', 'PU', 'comune', NULL, NULL, datetime('now')),
+  ('F555', 'MONTEMAGGIORE AL METAURO', 'PU', 'comune', '1862-11-07', '2017-01-01', datetime('now')),
+  ('F556', 'MONTEMAGNO MONFERRATO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F557', 'SANT''ARCANGELO TRIMONTE', 'BN', 'comune', '1864-11-07', NULL, datetime('now')),
+  ('F558', 'MONTEMALE DI CUNEO', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('F559', 'MONTEMARANO', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F560', 'MONTEMARCIANO', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F561', 'MONTE MARENZO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F562', 'MONTEMARZINO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F563', 'MONTEMESOLA', 'TA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F564', 'MONTEMEZZO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F565', 'MONTEMIGNAIO', 'AR', 'comune', '1868-04-01', NULL, datetime('now')),
+  ('F566', 'MONTEMILETTO', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F567', 'POLLENZA', 'MC', 'comune', '1862-10-24', NULL, datetime('now')),
+  ('F568', 'MONTEMILONE', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F569', 'MONTEMITRO', 'CB', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('F570', 'MONTEMONACO', 'AP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F571', 'MONTE MONTANARO', 'PU', 'comune', NULL, NULL, datetime('now')),
+  ('F572', 'MONTEMURLO', 'PO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F573', 'MONTEMURRO', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F574', 'MONTENARS', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F575', 'MONTENATE', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('F576', 'MONTENERO DI BISACCIA', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F577', 'MONTENERO D''IDRIA', 'GO', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('F578', 'MONTENERODOMO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F579', 'MONTENERO SABINO', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F580', 'MONTENERO VAL COCCHIARA', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('F581', 'OSTRA VETERE', 'AN', 'comune', '1882-04-03', NULL, datetime('now')),
+  ('F582', 'MONTEODORISIO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F583', 'MONTE OLIMPINO', 'CO', 'comune', NULL, NULL, datetime('now')),
+  ('F584', 'MONTE OSSOLANO', 'NO', 'comune', '1861-03-17', '1928-01-08', datetime('now')),
+  ('F585', 'ROSETO DEGLI ABRUZZI', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F586', 'MONTEPAONE', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F587', 'MONTEPARANO', 'TA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F588', 'MONTEPONENTE', 'BZ', 'comune', '1920-10-16', '1928-09-09', datetime('now')),
+  ('F589', 'MONTE PORZIO', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F590', 'MONTE PORZIO CATONE', 'RM', 'comune', '1873-01-14', NULL, datetime('now')),
+  ('F591', 'MONTEPRANDONE', 'AP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F592', 'MONTEPULCIANO', 'SI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F593', 'MONTERADO', 'AN', 'comune', '1861-03-17', '2014-01-01', datetime('now')),
+  ('F594', 'MONTERCHI', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F595', 'MONTEREALE', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F596', 'MONTEREALE VALCELLINA', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('F597', 'MONTERENZIO', 'BO', 'comune', '1866-01-01', NULL, datetime('now')),
+  ('F598', 'MONTERIGGIONI', 'SI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F599', 'MONTE RINALDO', 'FM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F600', 'MONTE ROBERTO', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F601', 'MONTERODUNI', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('F602', 'MONTEROLO', 'PU', 'comune', NULL, NULL, datetime('now')),
+  ('F603', 'MONTE ROMANO', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('F604', 'MONTERONI DI LECCE', 'LE', 'comune', '1864-04-01', NULL, datetime('now')),
+  ('F605', 'MONTERONI D''ARBIA', 'SI', 'comune', '1862-10-06', NULL, datetime('now')),
+  ('F606', 'MONTEROSI', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('F607', 'MONTEROSSO CALABRO', 'VV', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('F608', 'MONTEROSSO GRANA', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('F609', 'MONTEROSSO AL MARE', 'SP', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('F610', 'MONTEROSSO ALMO', 'RG', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('F611', 'MONTEROTONDO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('F612', 'MONTEROTONDO MARITTIMO', 'GR', 'comune', '1961-01-26', NULL, datetime('now')),
+  ('F613', 'MONTERUBBIAGLIO', 'PG', 'comune', NULL, NULL, datetime('now')),
+  ('F614', 'MONTERUBBIANO', 'FM', 'comune', '1868-08-27', NULL, datetime('now')),
+  ('F615', 'MONTES', 'TN', 'comune', '1920-10-16', '1928-09-06', datetime('now')),
+  ('F616', 'MONTE SAN BIAGIO', 'LT', 'comune', '1863-02-02', NULL, datetime('now')),
+  ('F617', 'MONTE SAN CANDIDO', 'BZ', 'comune', '1920-10-16', '1928-12-10', datetime('now')),
+  ('F618', 'MONTE SAN GIACOMO', 'SA', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('F619', 'MONTE SAN GIOVANNI IN SABINA', 'RI', 'comune', '1882-05-12', NULL, datetime('now')),
+  ('F620', 'MONTE SAN GIOVANNI CAMPANO', 'FR', 'comune', '1872-10-18', NULL, datetime('now')),
+  ('F621', 'MONTE SAN GIUSTO', 'MC', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('F622', 'MONTE SAN MARTINO', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F623', 'MONTESANO SALENTINO', 'LE', 'comune', '1864-01-29', NULL, datetime('now')),
+  ('F624', 'MONTESANO AL PIANO', 'PV', 'comune', '1863-03-30', '1871-05-31', datetime('now')),
+  ('F625', 'MONTESANO SULLA MARCELLANA', 'SA', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('F626', 'MONTE SAN PIETRANGELI', 'FM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F627', 'MONTE SAN PIETRO', 'BO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F628', 'MONTE SAN SAVINO', 'AR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F629', 'MONTE SANTA MARIA TIBERINA', 'PG', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('F630', 'MONTE SANTA MARIA IN SABINA', 'PG', 'comune', NULL, NULL, datetime('now')),
+  ('F631', 'MONTE SANT''ANGELO', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F632', 'POTENZA PICENA', 'MC', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('F633', 'MONTESANTO VIGI', 'PG', 'comune', '1861-03-17', '1879-08-28', datetime('now')),
+  ('F634', 'MONTE SAN VITO', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F635', 'MONTE SAN VITO', 'GO', 'comune', '1921-01-05', '1928-05-13', datetime('now')),
+  ('F636', 'MONTESARCHIO', 'BN', 'comune', '1867-02-24', NULL, datetime('now')),
+  ('F637', 'MONTESCAGLIOSO', 'MT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F638', 'MONTESCANO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F639', 'MONTESCHENO', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F640', 'MONTESCUDAIO', 'PI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F641', 'MONTESCUDO', 'RN', 'comune', '1862-08-15', '2016-01-01', datetime('now')),
+  ('F642', 'MONTESE', 'MO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F643', 'MONTESECCO ANTICO', 'PU', 'comune', NULL, NULL, datetime('now')),
+  ('F644', 'MONTESEGALE', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F645', 'MONTESICURO', 'AN', 'comune', '1861-03-17', '1928-05-22', datetime('now')),
+  ('F646', 'MONTESILVANO', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F647', 'MONTESILVANO MARINA', 'PE', 'comune', '1922-07-09', '1928-11-27', datetime('now')),
+  ('F648', 'MONTESPERTOLI', 'FI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F649', 'MONTESPINO', 'GO', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('F650', 'MONTESTRUTTO', 'AO', 'comune', '1861-03-17', '1929-05-05', datetime('now')),
+  ('F651', 'MONTEU DA PO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F652', 'MONTE URABICE', 'GO', 'comune', '1921-01-05', '1928-01-22', datetime('now')),
+  ('F653', 'MONTE URANO', 'FM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F654', 'MONTEU ROERO', 'CN', 'comune', '1870-09-01', NULL, datetime('now')),
+  ('F655', 'MONTEVAGO', 'AG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F656', 'MONTEVARCHI', 'AR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F657', 'MONTEVECCHIA', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F658', 'MONTEVECCHIO', 'PU', 'comune', NULL, NULL, datetime('now')),
+  ('F659', 'MONTEVEGLIO', 'BO', 'comune', '1861-03-17', '2014-01-01', datetime('now')),
+  ('F660', 'MONTEVERDE', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F661', 'MONTEVERDI MARITTIMO', 'PI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F662', 'MONTEVIALE', 'VI', 'comune', '1906-05-07', NULL, datetime('now')),
+  ('F663', 'MONTEVIASCO', 'VA', 'comune', '1861-03-17', '1928-08-07', datetime('now')),
+  ('F664', 'MONTE VIDON COMBATTE', 'FM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F665', 'MONTE VIDON CORRADO', 'FM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F666', 'MONTEZEMOLO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F667', 'MONTI', 'OT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F668', 'MONTIANO', 'FC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F669', 'MONTICELLO D''ALBA', 'CN', 'comune', '1878-06-28', NULL, datetime('now')),
+  ('F670', 'MONTICELLI PAVESE', 'PV', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('F671', 'MONTICELLI D''ONGINA', 'PC', 'comune', '1876-12-28', NULL, datetime('now')),
+  ('F672', 'MONTICELLI BRUSATI', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F673', 'MONTICELLI RIPA D''OGLIO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('F674', 'MONTICELLO BRIANZA', 'LC', 'comune', '1882-06-19', NULL, datetime('now')),
+  ('F675', 'MONTICELLO CONTE OTTO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F676', 'MONTICIANO', 'SI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F677', 'MONTIERI', 'GR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F678', 'MONTIGLIO', 'AT', 'comune', '1861-03-17', '1998-09-01', datetime('now')),
+  ('F679', 'MONTIGNOSO', 'MS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F680', 'MONTIRONE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F681', 'MONTODINE', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F682', 'MONTOGGIO', 'GE', 'comune', '1893-08-30', NULL, datetime('now')),
+  ('F683', 'MONTONA', 'PL', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('F684', 'MONTONATE', 'VA', 'comune', NULL, NULL, datetime('now')),
+  ('F685', 'MONTONE', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F686', 'MONTOPOLI IN VAL D''ARNO', 'PI', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('F687', 'MONTOPOLI DI SABINA', 'RI', 'comune', '1880-05-24', NULL, datetime('now')),
+  ('F688', 'MONTORFANO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F689', 'MONTORIO NEI FRENTANI', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F690', 'MONTORIO AL VOMANO', 'TE', 'comune', '1894-03-05', NULL, datetime('now')),
+  ('F691', 'MONTORIO VERONESE', 'VR', 'comune', '1867-08-26', '1927-02-16', datetime('now')),
+  ('F692', 'MONTORIO ROMANO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('F693', 'MONTORO INFERIORE', 'AV', 'comune', '1861-03-17', '2013-12-03', datetime('now')),
+  ('F694', 'MONTORO SUPERIORE', 'AV', 'comune', '1861-03-17', '2013-12-03', datetime('now')),
+  ('F695', 'MONTORSO', 'BN', 'comune', NULL, NULL, datetime('now')),
+  ('F696', 'MONTORSO VICENTINO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F697', 'MONTOTTONE', 'FM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F698', 'MONTRESTA', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F699', 'MONTRIGIASCO', 'NO', 'comune', '1861-03-17', '1928-02-23', datetime('now')),
+  ('F700', 'MONTRONE', 'BA', 'comune', '1861-03-17', '1927-11-08', datetime('now')),
+  ('F701', 'MONTÙ BECCARIA', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F702', 'MONTÙ BERCHIELLI', 'PV', 'comune', '1861-03-17', '1939-02-06', datetime('now')),
+  ('F703', 'MONVALLE', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F704', 'MONZA', 'MB', 'comune', '1867-01-14', NULL, datetime('now')),
+  ('F705', 'MONZAMBANO', 'MN', 'comune', '1872-01-01', NULL, datetime('now')),
+  ('F706', 'MONZUNO', 'BO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F707', 'MORANO SUL PO', 'AL', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('F708', 'MORANO CALABRO', 'CS', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('F709', 'MORANSENGO', 'AT', 'comune', '1861-03-17', '2023-01-01', datetime('now')),
+  ('F710', 'MORARO', 'GO', 'comune', '1921-01-05', NULL, datetime('now')),
+  ('F711', 'MORAZZONE', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F712', 'MORBEGNO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F713', 'MORBELLO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F714', 'MORCA', 'VC', 'comune', '1861-03-17', '1929-03-02', datetime('now')),
+  ('F715', 'MORCIANO DI ROMAGNA', 'RN', 'comune', '1869-12-10', NULL, datetime('now')),
+  ('F716', 'MORCIANO DI LEUCA', 'LE', 'comune', '1865-02-27', NULL, datetime('now')),
+  ('F717', 'MORCONE', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F718', 'MORDANO', 'BO', 'comune', '1865-12-25', NULL, datetime('now')),
+  ('F719', 'MOREGNANO', 'AP', 'comune', '1861-03-17', '1869-03-04', datetime('now')),
+  ('F720', 'MORENGO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F721', 'MORES', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F722', 'MORESCO', 'FM', 'comune', '1910-07-26', NULL, datetime('now')),
+  ('F723', 'MORETTA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F724', 'MORFASSO', 'PC', 'comune', '1870-06-01', NULL, datetime('now')),
+  ('F725', 'MORGANO', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F726', 'MORGEX', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F727', 'MORGONGIORI', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('F728', 'MORI', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('F729', 'MORIAGO DELLA BATTAGLIA', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F730', 'MORICONE', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('F731', 'MORIGERATI', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F732', 'MORINO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F733', 'MORIONDO TORINESE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F734', 'MORLUPO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('F735', 'MORMANNO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F736', 'MORNAGO', 'VA', 'comune', '1871-08-03', NULL, datetime('now')),
+  ('F737', 'MORNESE', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F738', 'MORNICO AL SERIO', 'BG', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('F739', 'MORNICO LOSANA', 'PV', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('F740', 'MOROLO', 'FR', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('F741', 'MORONDO', 'VC', 'comune', '1861-03-17', '1929-03-02', datetime('now')),
+  ('F742', 'MOROSOLO', 'VA', 'comune', '1861-03-17', '1929-06-19', datetime('now')),
+  ('F743', 'MOROZZO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F744', 'MORRA DE SANCTIS', 'AV', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('F745', 'MORRO D''ALBA', 'AN', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('F746', 'MORRO REATINO', 'RI', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('F747', 'MORRO D''ORO', 'TE', 'comune', '1864-01-29', NULL, datetime('now')),
+  ('F748', 'MORRONE DEL SANNIO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F749', 'MORROVALLE', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F750', 'MORSANO AL TAGLIAMENTO', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('F751', 'MORSASCO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F752', 'MORSENCHIO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('F753', 'MORTANO', 'FO', 'comune', '1861-03-17', '1924-01-14', datetime('now')),
+  ('F754', 'MORTARA', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F755', 'MORTASO', 'TN', 'comune', '1920-10-16', '1928-10-30', datetime('now')),
+  ('F756', 'MORTEGLIANO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F757', 'MORTER', 'BZ', 'comune', '1920-10-16', '1928-12-10', datetime('now')),
+  ('F758', 'MORTERONE', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F759', 'MORTIZZA', 'PC', 'comune', '1861-03-17', '1923-07-23', datetime('now')),
+  ('F760', 'MORUZZO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F761', 'MOSCAZZANO', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F762', 'MOSCHIANO', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F763', 'MOSCHIENA', 'PL', 'comune', '1921-01-05', '1924-03-09', datetime('now')),
+  ('F764', 'MOSCIANO SANT''ANGELO', 'TE', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('F765', 'MOSCUFO', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F766', 'MOSO IN PASSIRIA', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('F767', 'MOSSA', 'GO', 'comune', '1921-01-05', NULL, datetime('now')),
+  ('F768', 'MOSSANO', 'VI', 'comune', '1866-11-19', '2018-02-17', datetime('now')),
+  ('F769', 'MOSSO SANTA MARIA', 'BI', 'comune', '1861-03-17', '1999-01-01', datetime('now')),
+  ('F770', 'MOTTA DI LIVENZA', 'TV', 'comune', '1868-02-14', NULL, datetime('now')),
+  ('F771', 'MOTTA BALUFFI', 'CR', 'comune', '1868-07-13', NULL, datetime('now')),
+  ('F772', 'MOTTA CAMASTRA', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F773', 'MOTTA D''AFFERMO', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F774', 'MOTTA DE'' CONTI', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F775', 'MOTTAFOLLONE', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F776', 'MOTTALCIATA', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F777', 'MOTTA MONTECORVINO', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F778', 'MOTTA SAN DAMIANO', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('F779', 'MOTTA SAN GIOVANNI', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F780', 'MOTTA SANTA LUCIA', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F781', 'MOTTA SANT''ANASTASIA', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F782', 'MOTTA VIGANA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('F783', 'MOTTA VISCONTI', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F784', 'MOTTOLA', 'TA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F785', 'MOZZAGROGNA', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F786', 'MOZZANICA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F787', 'MOZZANO', 'AP', 'comune', NULL, NULL, datetime('now')),
+  ('F788', 'MOZZATE', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F789', 'MOZZECANE', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F790', 'MOZZIO', 'NO', 'comune', '1861-03-17', '1928-11-11', datetime('now')),
+  ('F791', 'MOZZO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F792', 'MU', 'BS', 'comune', '1861-03-17', '1927-08-13', datetime('now')),
+  ('F793', 'MUCCIA', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F794', 'MUCENO', 'VA', 'comune', '1861-03-17', '1928-08-16', datetime('now')),
+  ('F795', 'MUGGIA', 'TS', 'comune', '1921-01-05', NULL, datetime('now')),
+  ('F796', 'MUGGIANO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('F797', 'MUGGIÒ', 'MB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F798', 'MUGNANO DEL CARDINALE', 'AV', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('F799', 'MUGNANO DI NAPOLI', 'NA', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('F800', 'MULARGIA', 'CA', 'comune', NULL, NULL, datetime('now')),
+  ('F801', 'MULAZZANO', 'LO', 'comune', '1869-02-11', NULL, datetime('now')),
+  ('F802', 'MULAZZO', 'MS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F803', 'MULES', 'BZ', 'comune', '1920-10-16', '1928-12-10', datetime('now')),
+  ('F804', 'VILLA POMA', 'MN', 'comune', '1869-02-08', '2018-01-01', datetime('now')),
+  ('F805', 'MULTEDO', 'GE', 'comune', NULL, NULL, datetime('now')),
+  ('F806', 'MURA', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F807', 'MURANO', 'VE', 'comune', '1866-11-19', '1924-01-14', datetime('now')),
+  ('F808', 'MURAVERA', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F809', 'MURAZZANO', 'CN', 'comune', '1887-06-06', NULL, datetime('now')),
+  ('F810', 'SALCEDO', 'VI', 'comune', '1889-07-15', NULL, datetime('now')),
+  ('F811', 'MURELLO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F812', 'MURIAGLIO', 'AO', 'comune', '1861-03-17', '1929-05-04', datetime('now')),
+  ('F813', 'MURIALDO', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F814', 'MURISENGO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F815', 'MURLO', 'SI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F816', 'MURO LECCESE', 'LE', 'comune', '1862-11-28', NULL, datetime('now')),
+  ('F817', 'MURO LUCANO', 'PZ', 'comune', '1863-05-06', NULL, datetime('now')),
+  ('F818', 'MUROS', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F819', 'MUSADINO', 'VA', 'comune', '1861-03-17', '1928-08-16', datetime('now')),
+  ('F820', 'MUSCOLINE', 'BS', 'comune', '1866-01-14', NULL, datetime('now')),
+  ('F821', 'MUSCOLI STRASSOLDO', 'UD', 'comune', '1921-01-05', '1928-05-03', datetime('now')),
+  ('F822', 'MUSEI', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F823', 'MUSELLARO', 'PE', 'comune', '1861-03-17', '1928-09-25', datetime('now')),
+  ('F824', 'MUSIANO', 'BO', 'comune', NULL, NULL, datetime('now')),
+  ('F825', 'MUSIGNANO', 'VA', 'comune', '1861-03-17', '1928-01-08', datetime('now')),
+  ('F826', 'MUSILE DI PIAVE', 'VE', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F827', 'MUSOCCO', 'MI', 'comune', '1869-02-01', '1923-10-14', datetime('now')),
+  ('F828', 'MUSSO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F829', 'MUSSOLENTE', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F830', 'MUSSOMELI', 'CL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F831', 'PINETO', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F832', 'MUZZANA DEL TURGNANO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F833', 'MUZZANO', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F834', 'NACLA SAN MAURIZIO', 'TS', 'comune', '1921-01-05', '1923-02-08', datetime('now')),
+  ('F835', 'NAGO-TORBOLE', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('F836', 'NALLES', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('F837', 'NANNO', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('F838', 'NANTO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F839', 'NAPOLI', 'NA', 'comune', '1865-12-14', NULL, datetime('now')),
+  ('F840', 'NARBOLIA', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('F841', 'NARCAO', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F842', 'NARDÒ', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F843', 'NARDODIPACE', 'VV', 'comune', '1902-01-22', NULL, datetime('now')),
+  ('F844', 'NARNI', 'TR', 'comune', '1875-09-07', NULL, datetime('now')),
+  ('F845', 'NARO', 'AG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F846', 'NARZOLE', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F847', 'NASINO', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F848', 'NASO', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F849', 'NATURNO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('F850', 'NAVA', 'CO', 'comune', '1861-03-17', '1928-02-06', datetime('now')),
+  ('F851', 'NAVE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F852', 'NAVELLI', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F853', 'NAVE SAN ROCCO', 'TN', 'comune', '1920-10-16', '2019-01-01', datetime('now')),
+  ('F854', 'NAVONO', 'BS', 'comune', '1861-03-17', '1928-11-27', datetime('now')),
+  ('F855', 'NAZ', 'BZ', 'comune', '1920-10-16', '1929-02-15', datetime('now')),
+  ('F856', 'NAZ-SCIAVES', 'BZ', 'comune', '1929-02-14', NULL, datetime('now')),
+  ('F857', 'NAZZANO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('F858', 'NE', 'GE', 'comune', '1876-10-18', NULL, datetime('now')),
+  ('F859', 'NEBBIUNO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F860', 'NEGARINE', 'VR', 'comune', '1866-11-19', '1929-01-25', datetime('now')),
+  ('F861', 'NEGRAR DI VALPOLICELLA', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F862', 'NEIRONE', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F863', 'NEIVE', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F864', 'NEMBRO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F865', 'NEMI', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('F866', 'NEMOLI', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F867', 'NEONELI', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('F868', 'NEPI', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('F869', 'NERESINE', 'PL', 'comune', '1924-02-07', '1947-09-16', datetime('now')),
+  ('F870', 'NERETO', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F871', 'NEROLA', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('F872', 'NERVESA DELLA BATTAGLIA', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F873', 'NERVI', 'GE', 'comune', '1861-03-17', '1926-02-06', datetime('now')),
+  ('F874', 'NERVIANO', 'MI', 'comune', '1869-04-26', NULL, datetime('now')),
+  ('F875', 'NESE', 'BG', 'comune', '1861-03-17', '1939-09-20', datetime('now')),
+  ('F876', 'NESPOLO', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F877', 'NESSO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F878', 'NETRO', 'BI', 'comune', '1870-01-11', NULL, datetime('now')),
+  ('F879', 'NETTUNIA', 'RM', 'comune', '1939-12-12', '1945-06-06', datetime('now')),
+  ('F880', 'NETTUNO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('F881', 'NEVIANO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F882', 'NEVIANO DEGLI ARDUINI', 'PR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F883', 'NEVIGLIE', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F884', 'NIARDO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F885', 'NIBBIANO', 'PC', 'comune', '1861-03-17', '2018-01-01', datetime('now')),
+  ('F886', 'NIBBIOLA', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F887', 'NIBIONNO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F888', 'NICASTRO', 'CZ', 'comune', '1861-03-17', '1968-11-28', datetime('now')),
+  ('F889', 'NICHELINO', 'TO', 'comune', '1868-09-09', NULL, datetime('now')),
+  ('F890', 'NICOLOSI', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F891', 'NICORVO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F892', 'NICOSIA', 'EN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F893', 'NICOTERA', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F894', 'NIELLA BELBO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F895', 'NIELLA TANARO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F896', 'NIGOLINE', 'BS', 'comune', '1861-03-17', '1928-07-29', datetime('now')),
+  ('F897', 'NIGUARDA', 'MI', 'comune', '1861-03-17', '1923-10-14', datetime('now')),
+  ('F898', 'NIMIS', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F899', 'NISCEMI', 'CL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F900', 'NISSORIA', 'EN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F901', 'NIZZA DI SICILIA', 'ME', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('F902', 'NIZZA MONFERRATO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F903', 'NIZZOLINA', 'VA', 'comune', NULL, NULL, datetime('now')),
+  ('F904', 'NOALE', 'VE', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F905', 'NOARNA', 'TN', 'comune', '1920-10-16', '1929-02-21', datetime('now')),
+  ('F906', 'NOASCA', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F907', 'NOCARA', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F908', 'NOCCIANO', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F909', 'NOCCO', 'NO', 'comune', '1861-03-17', '1928-08-13', datetime('now')),
+  ('F910', 'NOCERA TERINESE', 'CZ', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('F911', 'NOCERA UMBRA', 'PG', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('F912', 'NOCERA INFERIORE', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F913', 'NOCERA SUPERIORE', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F914', 'NOCETO', 'PR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F915', 'NOCI', 'BA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F916', 'NOCIGLIA', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F917', 'NOEPOLI', 'PZ', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('F918', 'NOGARA', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F919', 'NOGARÈ', 'TN', 'comune', '1920-10-16', '1929-01-25', datetime('now')),
+  ('F920', 'NOGAREDO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('F921', 'NOGAROLE ROCCA', 'VR', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('F922', 'NOGAROLE VICENTINO', 'VI', 'comune', '1867-09-02', NULL, datetime('now')),
+  ('F923', 'NOICATTARO', 'BA', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('F924', 'NOLA', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F925', 'NOLE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F926', 'NOLI', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F927', 'NOMAGLIO', 'AO', 'comune', '1894-02-02', NULL, datetime('now')),
+  ('F928', 'NOMESINO', 'TN', 'comune', '1920-10-16', '1924-01-15', datetime('now')),
+  ('F929', 'NOMI', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('F930', 'NONANTOLA', 'MO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F931', 'NONE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F932', 'NONIO', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F933', 'NORAGUGUME', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F934', 'NORBELLO', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('F935', 'NORCIA', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F936', 'NORIGLIO', 'TN', 'comune', '1920-10-16', '1927-07-15', datetime('now')),
+  ('F937', 'NORMA', 'LT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('F938', 'NOSADELLO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('F939', 'NOSATE', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F940', 'NOSEDO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('F941', 'PONTE NOSSA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F942', 'NOTARESCO', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F943', 'NOTO', 'SR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F944', 'NOVA MILANESE', 'MB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F945', 'NOVACELLA', 'BZ', 'comune', '1920-10-16', '1929-05-08', datetime('now')),
+  ('F946', 'NOVALE', 'VI', 'comune', '1866-11-19', '1928-08-24', datetime('now')),
+  ('F947', 'NOVALEDO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('F948', 'NOVALESA', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F949', 'NOVA LEVANTE', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('F950', 'NOVA PONENTE', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('F951', 'NOVARA DI SICILIA', 'ME', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('F952', 'NOVARA', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F953', 'NOVAREGLIA', 'AO', 'comune', '1861-03-17', '1929-05-29', datetime('now')),
+  ('F954', 'NOVATE BRIANZA', 'CO', 'comune', '1863-02-23', '1927-06-10', datetime('now')),
+  ('F955', 'NOVATE MILANESE', 'MI', 'comune', '1862-11-28', NULL, datetime('now')),
+  ('F956', 'NOVATE MEZZOLA', 'SO', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('F957', 'NOVE', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F958', 'NOVEDRATE', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F959', 'NOVEGRO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('F960', 'NOVELLARA', 'RE', 'comune', '1866-01-01', NULL, datetime('now')),
+  ('F961', 'NOVELLO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F962', 'NOVENTA PADOVANA', 'PD', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('F963', 'NOVENTA DI PIAVE', 'VE', 'comune', '1867-08-05', NULL, datetime('now')),
+  ('F964', 'NOVENTA VICENTINA', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F965', 'NOVI LIGURE', 'AL', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('F966', 'NOVI DI MODENA', 'MO', 'comune', '1866-07-14', NULL, datetime('now')),
+  ('F967', 'NOVI VELIA', 'SA', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('F968', 'NOVIGLIO', 'MI', 'comune', '1870-08-02', NULL, datetime('now')),
+  ('F969', 'NOVILARA', 'PS', 'comune', '1861-03-17', '1929-04-11', datetime('now')),
+  ('F970', 'NOVOLI', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F971', 'NOZZA', 'BS', 'comune', '1861-03-17', '1928-09-25', datetime('now')),
+  ('F972', 'NUCETTO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F973', 'NUCHIS', 'SS', 'comune', '1861-03-17', '1939-01-27', datetime('now')),
+  ('F974', 'NUGHEDU SANTA VITTORIA', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('F975', 'NUGHEDU SAN NICOLÒ', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F976', 'NULE', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F977', 'NULVI', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F978', 'NUMANA', 'AN', 'comune', '1870-01-02', NULL, datetime('now')),
+  ('F979', 'NUORO', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F980', 'NURACHI', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('F981', 'NURAGUS', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F982', 'NURALLAO', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F983', 'NURAMINIS', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F984', 'NURAXINIEDDU', 'CA', 'comune', '1861-03-17', '1927-11-09', datetime('now')),
+  ('F985', 'NURECI', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('F986', 'NURRI', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F987', 'NUS', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F988', 'NUSCO', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F989', 'NUVOLENTO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F990', 'NUVOLERA', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F991', 'NUXIS', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F992', 'OCCHIEPPO INFERIORE', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F993', 'OCCHIEPPO SUPERIORE', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F994', 'OCCHIOBELLO', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('F995', 'OCCIMIANO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F996', 'OCRE', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F997', 'ODALENGO GRANDE', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F998', 'ODALENGO PICCOLO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('F999', 'ODERZO', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G001', 'ODOLO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G002', 'OFENA', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G003', 'OFFAGNA', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G004', 'OFFANENGO', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G005', 'OFFIDA', 'AP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G006', 'OFFLAGA', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G007', 'OGGEBBIO', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G008', 'OGGIONA CON SANTO STEFANO', 'VA', 'comune', '1864-04-01', NULL, datetime('now')),
+  ('G009', 'OGGIONO', 'LC', 'comune', '1861-03-17', NULL, datetime('now'));
+
+INSERT INTO belfioreCodes (code, name, province, kind, validFrom, validTo, updatedAt) VALUES
+  ('G010', 'OGLIANICO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G011', 'OGLIASTRO CILENTO', 'SA', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('G012', 'OYACE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G013', 'OLATE', 'CO', 'comune', NULL, NULL, datetime('now')),
+  ('G014', 'OLBA', 'SV', 'comune', '1861-03-17', '1929-06-13', datetime('now')),
+  ('G015', 'OLBIA', 'OT', 'comune', '1862-09-22', NULL, datetime('now')),
+  ('G016', 'OLCENENGO', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G017', 'OLCIO', 'CO', 'comune', '1861-03-17', '1928-01-27', datetime('now')),
+  ('G018', 'OLDENICO', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G019', 'OLEGGIO', 'NO', 'comune', '1870-05-16', NULL, datetime('now')),
+  ('G020', 'OLEGGIO CASTELLO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G021', 'OLEVANO DI LOMELLINA', 'PV', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('G022', 'OLEVANO ROMANO', 'RM', 'comune', '1872-11-16', NULL, datetime('now')),
+  ('G023', 'OLEVANO SUL TUSCIANO', 'SA', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('G024', 'OLGIA', 'NO', 'comune', '1861-03-17', '1928-07-01', datetime('now')),
+  ('G025', 'OLGIATE COMASCO', 'CO', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('G026', 'OLGIATE MOLGORA', 'LC', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('G027', 'OLGIATE CALCO', 'CO', 'comune', NULL, NULL, datetime('now')),
+  ('G028', 'OLGIATE OLONA', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G029', 'OLGINASIO', 'VA', 'comune', '1861-03-17', '1928-01-22', datetime('now')),
+  ('G030', 'OLGINATE', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G031', 'OLIENA', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G032', 'OLIVA GESSI', 'PV', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('G033', 'TAVERNETTE', 'TO', 'comune', '1863-01-26', '1928-05-23', datetime('now')),
+  ('G034', 'OLIVADI', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G035', 'OLIVASTRI', 'IM', 'comune', '1861-03-17', '1924-02-04', datetime('now')),
+  ('G036', 'OLIVERI', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G037', 'OLIVETO LUCANO', 'MT', 'comune', '1863-05-06', NULL, datetime('now')),
+  ('G038', 'OLIVETO IN SABINA', 'PG', 'comune', NULL, NULL, datetime('now')),
+  ('G039', 'OLIVETO CITRA', 'SA', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('G040', 'OLIVETO LARIO', 'LC', 'comune', '1927-12-29', NULL, datetime('now')),
+  ('G041', 'OLIVETTA SAN MICHELE', 'IM', 'comune', '1890-05-31', NULL, datetime('now')),
+  ('G042', 'OLIVOLA', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G043', 'OLLASTRA', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('G044', 'OLLOLAI', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G045', 'OLLOMONT', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G046', 'OLMEDO', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G047', 'OLMENETA', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G048', 'OLMO GENTILE', 'AT', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('G049', 'OLMO AL BREMBO', 'BG', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('G050', 'OLTRE IL COLLE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G051', 'OLTREPOVO', 'BG', 'comune', '1861-03-17', '1927-07-15', datetime('now')),
+  ('G052', 'OLTRESARCA', 'TN', 'comune', '1920-10-16', '1929-02-14', datetime('now')),
+  ('G053', 'OLTRESONZIA', 'GO', 'comune', '1921-01-05', '1928-05-04', datetime('now')),
+  ('G054', 'OLTRESSENDA ALTA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G055', 'OLTRESSENDA BASSA', 'BG', 'comune', '1861-03-17', '1929-05-14', datetime('now')),
+  ('G056', 'OLTRONA DI SAN MAMETTE', 'CO', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('G057', 'OLTRONA AL LAGO', 'VA', 'comune', '1864-03-11', '1928-01-12', datetime('now')),
+  ('G058', 'OLZAI', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G059', 'OMATE', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('G060', 'OMBRIANO', 'CR', 'comune', '1875-04-01', '1928-05-29', datetime('now')),
+  ('G061', 'OME', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G062', 'OMEGNA', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G063', 'OMIGNANO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G064', 'ONANÌ', 'NU', 'comune', '1895-10-10', NULL, datetime('now')),
+  ('G065', 'ONANO', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('G066', 'ONCINO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G067', 'ONEGLIA', 'IM', 'comune', '1861-03-17', '1923-11-29', datetime('now')),
+  ('G068', 'ONETA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G069', 'ONIES', 'BZ', 'comune', '1920-10-16', '1928-12-15', datetime('now')),
+  ('G070', 'ONIFAI', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G071', 'ONIFERI', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G072', 'ONNO', 'CO', 'comune', '1861-03-17', '1927-12-30', datetime('now')),
+  ('G073', 'ONO DEGNO', 'BS', 'comune', '1862-11-28', '1928-12-01', datetime('now')),
+  ('G074', 'ONO SAN PIETRO', 'BS', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('G075', 'ONORE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G076', 'ONZO', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G077', 'OPACCHIASELLA', 'GO', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('G078', 'OPERA', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G079', 'OPI', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G080', 'OPPEANO', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G081', 'OPPIDO LUCANO', 'PZ', 'comune', '1863-05-06', NULL, datetime('now')),
+  ('G082', 'OPPIDO MAMERTINA', 'RC', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('G083', 'ORA', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('G084', 'ORANI', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G085', 'ORASSO', 'NO', 'comune', '1861-03-17', '1928-01-27', datetime('now')),
+  ('G086', 'ORATINO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G087', 'ORBASSANO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G088', 'ORBETELLO', 'GR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G089', 'ORCIANO DI PESARO', 'PU', 'comune', '1861-03-17', '2017-01-01', datetime('now')),
+  ('G090', 'ORCIANO PISANO', 'PI', 'comune', '1862-10-20', NULL, datetime('now')),
+  ('G091', 'ORCO', 'GE', 'comune', NULL, NULL, datetime('now')),
+  ('G092', 'ORENO', 'MI', 'comune', '1861-03-17', '1929-05-29', datetime('now')),
+  ('G093', 'ORERO', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G094', 'OREZZO', 'BG', 'comune', '1861-03-17', '1927-06-02', datetime('now')),
+  ('G095', 'ORGIANO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G096', 'PIEVE FISSIRAGA', 'LO', 'comune', '1879-05-26', NULL, datetime('now')),
+  ('G097', 'ORGOSOLO', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G098', 'ORIA', 'BR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G099', 'ORIANO', 'BS', 'comune', '1861-03-17', '1927-12-28', datetime('now')),
+  ('G100', 'ORIANO DI BRIANZA', 'CO', 'comune', '1863-02-23', '1927-06-08', datetime('now')),
+  ('G101', 'ORIANO SOPRA TICINO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('G102', 'ORICOLA', 'AQ', 'comune', '1908-01-22', NULL, datetime('now')),
+  ('G103', 'ORIGGIO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G104', 'ORIGIOSO', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('G105', 'ORINO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G106', 'ORINO-AZZIO', 'VA', 'comune', '1927-08-19', '1956-01-25', datetime('now')),
+  ('G107', 'ORIO LITTA', 'LO', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('G108', 'ORIO AL SERIO', 'BG', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('G109', 'ORIO CANAVESE', 'AO', 'comune', '1864-04-01', NULL, datetime('now')),
+  ('G110', 'ORIOLO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G111', 'ORIOLO ROMANO', 'VT', 'comune', '1872-10-21', NULL, datetime('now')),
+  ('G112', 'ORIS', 'BZ', 'comune', '1920-10-16', '1929-05-15', datetime('now')),
+  ('G113', 'ORISTANO', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('G114', 'ORMEA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G115', 'ORMELLE', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G116', 'ORNAGO', 'MB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G117', 'ORNAVASSO', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G118', 'ORNICA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G119', 'OROSEI', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G120', 'OROTELLI', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G121', 'ORRIA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G122', 'ORROLI', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G123', 'ORSAGO', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G124', 'ORSARA BORMIDA', 'AL', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('G125', 'ORSARA DI PUGLIA', 'FG', 'comune', '1884-08-23', NULL, datetime('now')),
+  ('G126', 'ORSENIGO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G127', 'ORSERA', 'PL', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('G128', 'ORSOGNA', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G129', 'ORSOMARSO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G130', 'ORTA DI ATELLA', 'NA', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('G131', 'ORTA NOVA', 'FG', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('G132', 'ORTA NOVARESE', 'NO', 'comune', '1863-04-23', '1928-12-14', datetime('now')),
+  ('G133', 'ORTACESUS', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G134', 'ORTA SAN GIULIO', 'NO', 'comune', '1928-12-14', NULL, datetime('now')),
+  ('G135', 'ORTE', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('G136', 'ORTELLE', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G137', 'ORTEZZANO', 'FM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G138', 'ORTI', 'RC', 'comune', '1861-03-17', '1865-12-24', datetime('now')),
+  ('G139', 'ORTIGNANO RAGGIOLO', 'AR', 'comune', '1875-10-26', NULL, datetime('now')),
+  ('G140', 'ORTISEI', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('G141', 'ORTONA', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G142', 'ORTONA DEI MARSI', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G143', 'LUNI', 'SP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G144', 'ORTOVERO', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G145', 'ORTUCCHIO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G146', 'ORTUERI', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G147', 'ORUNE', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G148', 'ORVIETO', 'TR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G149', 'ORZINUOVI', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G150', 'ORZIVECCHI', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G151', 'OSASCO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G152', 'OSASIO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G153', 'OSCHIRI', 'OT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G154', 'OSIDDA', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G155', 'OSIGLIA', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G156', 'OSILO', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G157', 'OSIMO', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G158', 'OSINI', 'OG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G159', 'OSIO SOPRA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G160', 'OSIO SOTTO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G161', 'OSNAGO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G162', 'OSOLI', 'AP', 'comune', NULL, NULL, datetime('now')),
+  ('G163', 'OSOPPO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G164', 'OSPEDALETTI', 'IM', 'comune', '1924-02-04', NULL, datetime('now')),
+  ('G165', 'OSPEDALETTO D''ALPINOLO', 'AV', 'comune', '1863-05-06', NULL, datetime('now')),
+  ('G166', 'OSPEDALETTO LODIGIANO', 'LO', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('G167', 'OSPEDALETTO EUGANEO', 'PD', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('G168', 'OSPEDALETTO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('G169', 'OSPITALE DI CADORE', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G170', 'OSPITALETTO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G171', 'OSSAGO LODIGIANO', 'LO', 'comune', '1867-01-02', NULL, datetime('now')),
+  ('G172', 'OSSALENGO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('G173', 'OSSANA', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('G174', 'OSSANESGA', 'BG', 'comune', '1861-03-17', '1928-05-19', datetime('now')),
+  ('G175', 'OSSECCA VITTUGLIE', 'GO', 'comune', '1921-01-05', '1928-01-07', datetime('now')),
+  ('G176', 'OSSEGLIANO SAN MICHELE', 'GO', 'comune', '1921-01-05', '1928-01-07', datetime('now')),
+  ('G177', 'OSSERO', 'PL', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('G178', 'OSSI', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G179', 'OSSIMO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G180', 'OSSOLARO', 'CR', 'comune', '1861-03-17', '1929-01-25', datetime('now')),
+  ('G181', 'OSSONA', 'MI', 'comune', '1909-10-01', NULL, datetime('now')),
+  ('G182', 'OSSUCCIO', 'CO', 'comune', '1861-03-17', '2014-02-04', datetime('now')),
+  ('G183', 'OSTANA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G184', 'OSTELLATO', 'FE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G185', 'OSTIANO', 'CR', 'comune', '1868-07-01', NULL, datetime('now')),
+  ('G186', 'OSTIGLIA', 'MN', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G187', 'OSTUNI', 'BR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G188', 'OTRANTO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G189', 'OTRICOLI', 'TR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G190', 'OTTAVIANO', 'NA', 'comune', '1893-03-06', NULL, datetime('now')),
+  ('G191', 'OTTANA', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G192', 'OTTATI', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G193', 'OTTIGLIO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G194', 'OTTOBIANO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G195', 'OTTONE', 'PC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G196', 'OULX', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G197', 'OVADA', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G198', 'OVARO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G199', 'OVIGLIO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G200', 'OVINDOLI', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G201', 'OVODDA', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G202', 'OZEGNA', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G203', 'OZIERI', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G204', 'OZZANO MONFERRATO', 'AL', 'comune', '1863-08-10', NULL, datetime('now')),
+  ('G205', 'OZZANO DELL''EMILIA', 'BO', 'comune', '1862-10-31', NULL, datetime('now')),
+  ('G206', 'OZZERO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G207', 'PABILLONIS', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G208', 'PACECO', 'TP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G209', 'PACE DEL MELA', 'ME', 'comune', '1921-05-12', NULL, datetime('now')),
+  ('G210', 'PACENTRO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G211', 'PACHINO', 'SR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G212', 'PACIANO', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G213', 'PADENGHE SUL GARDA', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G214', 'PADERGNONE', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('G215', 'PADERNA', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G216', 'PADERNELLO', 'BS', 'comune', '1861-03-17', '1928-01-01', datetime('now')),
+  ('G217', 'PADERNO FRANCIACORTA', 'BS', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('G218', 'PADERNO D''ADDA', 'LC', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('G219', 'PADERNO CREMONESE', 'CR', 'comune', '1878-12-05', '1929-01-25', datetime('now')),
+  ('G220', 'PADERNO DUGNANO', 'MI', 'comune', '1886-01-22', NULL, datetime('now')),
+  ('G221', 'PADERNO DEL GRAPPA', 'TV', 'comune', '1867-11-25', '2019-01-30', datetime('now')),
+  ('G222', 'PADERNO PONCHIELLI', 'CR', 'comune', '1929-01-24', NULL, datetime('now')),
+  ('G223', 'ROBBIATE', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G224', 'PADOVA', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G225', 'PADRIA', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G226', 'PADULA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G227', 'PADULI', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G228', 'PAESANA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G229', 'PAESE', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G230', 'PAGANI', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G231', 'PAGANICA', 'AQ', 'comune', '1861-03-17', '1927-09-21', datetime('now')),
+  ('G232', 'PAGANICO SABINO', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G233', 'PAGAZZANO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G234', 'PAGLIARA', 'ME', 'comune', '1914-07-20', NULL, datetime('now')),
+  ('G235', 'PAGLIARE', 'AP', 'comune', NULL, NULL, datetime('now')),
+  ('G236', 'PAGLIERES', 'CN', 'comune', '1861-03-17', '1929-01-22', datetime('now')),
+  ('G237', 'PAGLIETA', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G238', 'PAGNACCO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G239', 'PAGNANO VALSASSINA', 'CO', 'comune', NULL, NULL, datetime('now')),
+  ('G240', 'PAGNO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G241', 'PAGNONA', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G242', 'PAGO DEL VALLO DI LAURO', 'AV', 'comune', '1862-11-24', NULL, datetime('now')),
+  ('G243', 'PAGO VEIANO', 'BN', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('G244', 'PAINA', 'MI', 'comune', '1861-03-17', '1869-02-28', datetime('now')),
+  ('G245', 'PAIRANA', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('G246', 'PAISCO', 'BS', 'comune', '1861-03-17', '1928-11-10', datetime('now')),
+  ('G247', 'PAISCO LOVENO', 'BS', 'comune', '1928-11-10', NULL, datetime('now')),
+  ('G248', 'PAITONE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G249', 'PALADINA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G250', 'PALAGANO', 'MO', 'comune', '1958-01-25', NULL, datetime('now')),
+  ('G251', 'PALAGIANELLO', 'TA', 'comune', '1907-07-02', NULL, datetime('now')),
+  ('G252', 'PALAGIANO', 'TA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G253', 'PALAGONIA', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G254', 'PALAIA', 'PI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G255', 'PALANZANO', 'PR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G256', 'PALANZO', 'CO', 'comune', '1861-03-17', '1928-05-12', datetime('now')),
+  ('G257', 'PALATA', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G258', 'PALAU', 'OT', 'comune', '1959-04-08', NULL, datetime('now')),
+  ('G259', 'PALAZZAGO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G260', 'PALAZZO PIGNANO', 'CR', 'comune', '1863-03-27', NULL, datetime('now')),
+  ('G261', 'PALAZZO SAN GERVASIO', 'MT', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('G262', 'PALAZZO CANAVESE', 'AO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('G263', 'PALAZZO ADRIANO', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G264', 'PALAZZOLO SULL''OGLIO', 'BS', 'comune', '1862-09-08', NULL, datetime('now')),
+  ('G265', 'PALAZZOLO MILANESE', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('G266', 'PALAZZOLO VERCELLESE', 'VC', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('G267', 'PALAZZOLO ACREIDE', 'SR', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('G268', 'PALAZZOLO DELLO STELLA', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G269', 'PALAZZO PIVERONE', 'TO', 'comune', '1929-05-25', '1946-12-27', datetime('now')),
+  ('G270', 'PALAZZUOLO SUL SENIO', 'FI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G271', 'PALENA', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G272', 'PALERMITI', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G273', 'PALERMO', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G274', 'PALESTRINA', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('G275', 'PALESTRO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G276', 'PALIANO', 'FR', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('G277', 'PALIZZI', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G278', 'PALLAGORIO', 'KR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G279', 'PALLANZA', 'NO', 'comune', '1880-06-25', '1939-06-05', datetime('now')),
+  ('G280', 'PALLANZENO', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G281', 'PALLARE', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G282', 'PALMA DI MONTECHIARO', 'AG', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('G283', 'PALMA CAMPANIA', 'NA', 'comune', '1863-08-10', NULL, datetime('now')),
+  ('G284', 'PALMANOVA', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G285', 'PALMARIGGI', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G286', 'PALMAS ARBOREA', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('G287', 'SAN GIOVANNI SUERGIU', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G288', 'PALMI', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G289', 'PALMIANO', 'AP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G290', 'PALMOLI', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G291', 'PALO DEL COLLE', 'BA', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('G292', 'PALOMONTE', 'SA', 'comune', '1862-11-07', NULL, datetime('now')),
+  ('G293', 'PALOMBARA SABINA', 'RM', 'comune', '1895-11-27', NULL, datetime('now')),
+  ('G294', 'PALOMBARO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G295', 'PALOSCO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G296', 'PALÙ DEL FERSINA', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('G297', 'PALÙ', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G298', 'PALUDI', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G299', 'PLAUS', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('G300', 'PALUZZA', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G301', 'PALVARETO', 'CR', 'comune', '1928-05-04', '1947-10-01', datetime('now')),
+  ('G302', 'PAMPARATO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G303', 'PANCALIERI', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G304', 'PANCARANA', 'PV', 'comune', '1873-05-10', NULL, datetime('now')),
+  ('G305', 'PANCHIÀ', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('G306', 'PANDINO', 'CR', 'comune', '1868-07-29', NULL, datetime('now')),
+  ('G307', 'PANETTIERI', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G308', 'PANICALE', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G309', 'VILLARICCA', 'NA', 'comune', '1871-06-20', NULL, datetime('now')),
+  ('G310', 'PANIQUA', 'GO', 'comune', '1921-01-05', '1928-05-13', datetime('now')),
+  ('G311', 'PANNARANO', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G312', 'PANNI', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G313', 'PANNONE', 'TN', 'comune', '1920-10-16', '1923-02-14', datetime('now')),
+  ('G314', 'PANTASINA', 'IM', 'comune', '1861-03-17', '1928-04-17', datetime('now')),
+  ('G315', 'PANTELLERIA', 'TP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G316', 'PANTIGLIATE', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G317', 'PAOLA', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G318', 'PAOLISI', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G319', 'VALDERICE', 'TP', 'comune', '1955-02-15', NULL, datetime('now')),
+  ('G320', 'PAPASIDERO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G321', 'PAPIAGO', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('G322', 'PAPIGNO', 'TR', 'comune', '1861-03-17', '1927-01-13', datetime('now')),
+  ('G323', 'PAPOZZE', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G324', 'PARABIAGO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G325', 'PARABITA', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G326', 'PARACORIO', 'RC', 'comune', NULL, NULL, datetime('now')),
+  ('G327', 'PARATICO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G328', 'PARCINES', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('G329', 'PARÈ', 'CO', 'comune', '1861-03-17', '2014-02-04', datetime('now')),
+  ('G330', 'PARELLA', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G331', 'PARENTI', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G332', 'PARENZO', 'PL', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('G333', 'PARETE', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G334', 'PARETO', 'AL', 'comune', '1880-01-26', NULL, datetime('now')),
+  ('G335', 'PARGHELIA', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G336', 'PARLASCO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G337', 'PARMA', 'PR', 'comune', '1866-01-21', NULL, datetime('now')),
+  ('G338', 'PARODI LIGURE', 'AL', 'comune', '1873-08-08', NULL, datetime('now')),
+  ('G339', 'PAROLDO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G340', 'PAROLISE', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G341', 'PARONA DI VALPOLICELLA', 'VR', 'comune', '1867-08-26', '1927-05-12', datetime('now')),
+  ('G342', 'PARONA', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G343', 'PARONE', 'VC', 'comune', '1861-03-17', '1929-03-02', datetime('now')),
+  ('G344', 'PARRANO', 'TR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G345', 'PARRAVICINO', 'CO', 'comune', '1861-03-17', '1928-12-14', datetime('now')),
+  ('G346', 'PARRE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G347', 'PARTANNA', 'TP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G348', 'PARTINICO', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G349', 'PARUZZARO', 'NO', 'comune', '1877-10-31', NULL, datetime('now')),
+  ('G350', 'PARZANICA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G351', 'PASCELUPO', 'PG', 'comune', NULL, NULL, datetime('now')),
+  ('G352', 'PASIAN DI PRATO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G353', 'PASIANO DI PORDENONE', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('G354', 'PASPARDO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G355', 'PASSARERA', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('G356', 'RIVOLTO', 'UD', 'comune', '1867-09-02', '1928-06-16', datetime('now')),
+  ('G357', 'PASSERANO', 'AL', 'comune', '1861-03-17', '1929-04-14', datetime('now')),
+  ('G358', 'PASSERANO MARMORITO', 'AT', 'comune', '1929-04-13', NULL, datetime('now')),
+  ('G359', 'PASSIGNANO SUL TRASIMENO', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G360', 'PASSIRANA MILANESE', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('G361', 'PASSIRANO', 'BS', 'comune', '1867-08-19', NULL, datetime('now')),
+  ('G362', 'PASTENA', 'FR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G363', 'PASTENE', 'BN', 'comune', NULL, NULL, datetime('now')),
+  ('G364', 'PASTORANO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G365', 'PASTRENGO', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G366', 'PASTURAGO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('G367', 'PASTURANA', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G368', 'PASTURO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G369', 'PATERNO D''ANCONA', 'AN', 'comune', '1863-02-23', '1928-05-22', datetime('now')),
+  ('G370', 'PATERNOPOLI', 'AV', 'comune', '1864-01-29', NULL, datetime('now')),
+  ('G371', 'PATERNÒ', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G372', 'PATERNO CALABRO', 'CS', 'comune', '1863-05-06', NULL, datetime('now')),
+  ('G373', 'PATONE', 'TN', 'comune', '1920-10-16', '1929-02-14', datetime('now')),
+  ('G374', 'PATRICA', 'FR', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('G375', 'PATRIGNONE', 'AP', 'comune', '1861-03-17', '1867-01-30', datetime('now')),
+  ('G376', 'PATTADA', 'SS', 'comune', '1876-01-10', NULL, datetime('now')),
+  ('G377', 'PATTI', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G378', 'PATÙ', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G379', 'PAU', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('G380', 'PAUGNANO', 'TS', 'comune', NULL, NULL, datetime('now')),
+  ('G381', 'PAULARO', 'UD', 'comune', '1959-08-18', NULL, datetime('now')),
+  ('G382', 'PAULI ARBAREI', 'SU', 'comune', '1866-06-10', NULL, datetime('now')),
+  ('G383', 'SAN NICOLÒ GERREI', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G384', 'PAULILATINO', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('G385', 'PAULLO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G386', 'PAUPISI', 'BN', 'comune', '1892-03-28', NULL, datetime('now')),
+  ('G387', 'PAVAROLO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G388', 'PAVIA', 'PV', 'comune', '1883-06-21', NULL, datetime('now')),
+  ('G389', 'PAVIA DI UDINE', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G390', 'PAVONE D''ALESSANDRIA', 'AL', 'comune', '1863-02-16', '1928-10-13', datetime('now')),
+  ('G391', 'PAVONE DEL MELLA', 'BS', 'comune', '1862-11-07', NULL, datetime('now')),
+  ('G392', 'PAVONE CANAVESE', 'AO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('G393', 'PAVULLO NEL FRIGNANO', 'MO', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('G394', 'PAZZANO', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G395', 'PECCIOLI', 'PI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G396', 'PECCO', 'AO', 'comune', '1861-03-17', '2019-01-01', datetime('now')),
+  ('G397', 'PECETTO DI VALENZA', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G398', 'PECETTO TORINESE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G399', 'PECORARA', 'PC', 'comune', '1861-03-17', '2018-01-01', datetime('now')),
+  ('G400', 'PEDACE', 'CS', 'comune', '1861-03-17', '2017-05-05', datetime('now')),
+  ('G401', 'PEDANEA', 'TO', 'comune', '1929-04-12', '1947-10-12', datetime('now')),
+  ('G402', 'PEDARA', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G403', 'PEDASO', 'FM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G404', 'PEDAVENA', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G405', 'PEDAVOLI', 'RC', 'comune', NULL, NULL, datetime('now')),
+  ('G406', 'PEDEMONTE', 'VI', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('G407', 'SAN PAOLO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G408', 'PEDEROBBA', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G409', 'PEDERSANO', 'TN', 'comune', '1920-10-16', '1929-02-21', datetime('now')),
+  ('G410', 'PEDESINA', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G411', 'PEDIVIGLIANO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G412', 'PEDRENGO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G413', 'PEDRIANO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('G414', 'PEGLI', 'GE', 'comune', '1874-10-26', '1926-02-06', datetime('now')),
+  ('G415', 'PEGLIO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G416', 'PEGLIO', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G417', 'PEGOGNAGA', 'MN', 'comune', '1876-11-20', NULL, datetime('now')),
+  ('G418', 'PEIA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G419', 'PEIO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('G420', 'PELAGO', 'FI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G421', 'PELLA', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G422', 'PELLARO', 'RC', 'comune', '1861-03-17', '1927-08-03', datetime('now')),
+  ('G423', 'PELLEGRINO DA CAREGGI', 'FI', 'comune', NULL, NULL, datetime('now')),
+  ('G424', 'PELLEGRINO PARMENSE', 'PR', 'comune', '1870-07-01', NULL, datetime('now')),
+  ('G425', 'PELLESTRINA', 'VE', 'comune', '1866-11-19', '1923-06-11', datetime('now')),
+  ('G426', 'PELLEZZANO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G427', 'PELLIO INTELVI', 'CO', 'comune', '1861-03-17', '2017-01-01', datetime('now')),
+  ('G428', 'PELLIZZANO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('G429', 'PELUGO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('G430', 'PENANGO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G431', 'POGGIRIDENTI', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G432', 'PENNA IN TEVERINA', 'TR', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('G433', 'PENNABILLI', 'RN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G434', 'PENNADOMO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G435', 'PENNAPIEDIMONTE', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G436', 'PENNA SAN GIOVANNI', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G437', 'PENNA SANT''ANDREA', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G438', 'PENNE', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G439', 'PENTONE', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G440', 'PENZANO', 'CO', 'comune', '1861-03-17', '1927-07-15', datetime('now')),
+  ('G441', 'PERANO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G442', 'PERAROLO DI CADORE', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G443', 'PERCA', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('G444', 'PERCILE', 'RM', 'comune', '1899-07-26', NULL, datetime('now')),
+  ('G445', 'PERDASDEFOGU', 'OG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G446', 'PERDAXIUS', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G447', 'PERDIFUMO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G448', 'PEREGO', 'LC', 'comune', '1870-07-01', '2015-01-30', datetime('now')),
+  ('G449', 'PERETO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G450', 'PERFUGAS', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G451', 'PERGINE VALDARNO', 'AR', 'comune', '1869-08-20', '2018-01-01', datetime('now')),
+  ('G452', 'PERGINE VALSUGANA', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('G453', 'PERGOLA', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G454', 'PERINALDO', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G455', 'PERITO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G456', 'PERLEDO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G457', 'PERLETTO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G458', 'PERLO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G459', 'PERLOZ', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G460', 'PERNO', 'CN', 'comune', '1861-03-17', '1931-01-01', datetime('now')),
+  ('G461', 'PERNUMIA', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G462', 'PEROSA CANAVESE', 'AO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('G463', 'PEROSA ARGENTINA', 'TO', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('G464', 'PERRA', 'TN', 'comune', '1920-10-16', '1926-07-22', datetime('now')),
+  ('G465', 'PERRERO', 'TO', 'comune', '1895-03-04', NULL, datetime('now')),
+  ('G466', 'PERRILLO', 'BN', 'comune', NULL, NULL, datetime('now')),
+  ('G467', 'SAN GIOVANNI IN PERSICETO', 'BO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G468', 'PERSICO', 'CR', 'comune', '1868-01-01', '1928-12-15', datetime('now')),
+  ('G469', 'PERSICO DOSIMO', 'CR', 'comune', '1928-12-15', NULL, datetime('now')),
+  ('G470', 'PERSONE', 'TN', 'comune', '1920-10-16', '1929-03-01', datetime('now')),
+  ('G471', 'PERTENGO', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G472', 'PERTEOLE', 'UD', 'comune', '1921-01-05', '1928-04-16', datetime('now')),
+  ('G473', 'PERTI', 'GE', 'comune', NULL, NULL, datetime('now')),
+  ('G474', 'PERTICA ALTA', 'BS', 'comune', '1928-11-27', NULL, datetime('now')),
+  ('G475', 'PERTICA BASSA', 'BS', 'comune', '1928-12-01', NULL, datetime('now')),
+  ('G476', 'PERTOSA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G477', 'PERTUSIO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G478', 'PERUGIA', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G479', 'PESARO', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G480', 'PESCAGLIA', 'LU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G481', 'PESCANTINA', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G482', 'PESCARA', 'PE', 'comune', '1879-05-12', NULL, datetime('now')),
+  ('G483', 'PESCAROLO ED UNITI', 'CR', 'comune', '1868-01-01', NULL, datetime('now')),
+  ('G484', 'PESCASSEROLI', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G485', 'PESCATE', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G486', 'PESCHE', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('G487', 'PESCHICI', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G488', 'PESCHIERA BORROMEO', 'MI', 'comune', '1863-05-06', NULL, datetime('now')),
+  ('G489', 'PESCHIERA DEL GARDA', 'VR', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('G490', 'PESCHIERA MARAGLIO', 'BS', 'comune', '1863-07-13', '1928-02-16', datetime('now')),
+  ('G491', 'PESCIA', 'PT', 'comune', '1895-05-10', NULL, datetime('now')),
+  ('G492', 'PESCINA', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G493', 'PESCOCOSTANZO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G494', 'PESCO SANNITA', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G495', 'PESCOLANCIANO', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('G496', 'PESCOPAGANO', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G497', 'PESCOPENNATARO', 'IS', 'comune', '1970-03-03', NULL, datetime('now')),
+  ('G498', 'PESCOROCCHIANO', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G499', 'PESCOSANSONESCO', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G500', 'PESCOSOLIDO', 'FR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G501', 'PESSANO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('G502', 'PESSANO CON BORNAGO', 'MI', 'comune', '1870-08-02', NULL, datetime('now')),
+  ('G503', 'PESSINA VALSASSINA', 'CO', 'comune', '1863-02-23', '1927-12-25', datetime('now')),
+  ('G504', 'PESSINA CREMONESE', 'CR', 'comune', '1868-06-12', NULL, datetime('now')),
+  ('G505', 'PESSINETTO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G506', 'PETACCIATO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G507', 'TURANIA', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G508', 'PETILIA POLICASTRO', 'KR', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('G509', 'PETINA', 'SA', 'comune', '1861-03-17', NULL, datetime('now'));
+
+INSERT INTO belfioreCodes (code, name, province, kind, validFrom, validTo, updatedAt) VALUES
+  ('G510', 'PETRALIA SOPRANA', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G511', 'PETRALIA SOTTANA', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G512', 'PETRELLA TIFERNINA', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G513', 'PETRELLA SALTO', 'RI', 'comune', '1863-05-06', NULL, datetime('now')),
+  ('G514', 'PETRIANO', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G515', 'PETRIOLO', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G516', 'PETRITOLI', 'FM', 'comune', '1869-03-04', NULL, datetime('now')),
+  ('G517', 'PETRIZZI', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G518', 'PETRONÀ', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G519', 'PETRURO IRPINO', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G520', 'PETTENASCO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G521', 'PETTINENGO', 'BI', 'comune', '1880-12-13', NULL, datetime('now')),
+  ('G522', 'PETTINEO', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G523', 'PETTORANELLO DEL MOLISE', 'IS', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('G524', 'PETTORANO SUL GIZIO', 'AQ', 'comune', '1863-05-06', NULL, datetime('now')),
+  ('G525', 'PETTORAZZA GRIMANI', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G526', 'PEVERAGNO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G527', 'PEVERANZA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('G528', 'PEZZANA', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G529', 'PEZZAZE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G530', 'PEZZOLO DE'' CODAZZI', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('G531', 'PEZZOLO DI TAVAZZANO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('G532', 'PEZZOLO VALLE UZZONE', 'CN', 'comune', '1928-04-07', NULL, datetime('now')),
+  ('G533', 'PEZZORO', 'BS', 'comune', '1861-03-17', '1927-12-31', datetime('now')),
+  ('G534', 'PIACENZA D''ADIGE', 'PD', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('G535', 'PIACENZA', 'PC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G536', 'PIADENA', 'CR', 'comune', '1861-03-17', '2019-01-01', datetime('now')),
+  ('G537', 'PIAGGE', 'PU', 'comune', '1861-03-17', '2017-01-01', datetime('now')),
+  ('G538', 'PIAGGINE', 'SA', 'comune', '1929-02-10', NULL, datetime('now')),
+  ('G539', 'PIAGGINE SOPRANE', 'SA', 'comune', '1861-03-17', '1929-02-10', datetime('now')),
+  ('G540', 'VALLE DELL''ANGELO', 'SA', 'comune', '1873-01-28', NULL, datetime('now')),
+  ('G541', 'PIANA DI CAIAZZO', 'BN', 'comune', '1862-11-24', NULL, datetime('now')),
+  ('G542', 'PIANA CRIXIA', 'SV', 'comune', '1880-06-25', NULL, datetime('now')),
+  ('G543', 'PIANA DEGLI ALBANESI', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G544', 'PIANAVIA', 'IM', 'comune', '1861-03-17', '1928-04-17', datetime('now')),
+  ('G545', 'PONTBOSET', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G546', 'PIAN CAMUNO', 'BS', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('G547', 'PIANCASTAGNAIO', 'SI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G548', 'PIANCERI', 'VC', 'comune', '1861-03-17', '1928-03-14', datetime('now')),
+  ('G549', 'PIANCOGNO', 'BS', 'comune', '1963-02-13', NULL, datetime('now')),
+  ('G550', 'PIAN D''ARTOGNE', 'BS', 'comune', NULL, NULL, datetime('now')),
+  ('G551', 'PIANDIMELETO', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G552', 'PIAN DI SCO', 'AR', 'comune', '1861-03-17', '2014-01-01', datetime('now')),
+  ('G553', 'PIANE CRATI', 'CS', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('G554', 'PIANE SESIA', 'VC', 'comune', '1863-04-23', '1927-10-09', datetime('now')),
+  ('G555', 'PIANELLA', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G556', 'PIANELLO DEL LARIO', 'CO', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('G557', 'PIANELLO VAL TIDONE', 'PC', 'comune', '1862-11-28', NULL, datetime('now')),
+  ('G558', 'PIANENGO', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G559', 'PIANEZZA', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G560', 'PIANEZZE', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G561', 'PIANFEI', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G562', 'PIAN GAIANO', 'BG', 'comune', '1861-03-17', '1928-07-29', datetime('now')),
+  ('G563', 'PIANI', 'IM', 'comune', '1861-03-17', '1923-11-29', datetime('now')),
+  ('G564', 'PIANICO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G565', 'PIANIGA', 'VE', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G566', 'SAN BENEDETTO VAL DI SAMBRO', 'BO', 'comune', '1862-10-31', NULL, datetime('now')),
+  ('G567', 'PIANO PORLEZZA', 'CO', 'comune', '1863-07-13', '1928-05-12', datetime('now')),
+  ('G568', 'PIANO DI SORRENTO', 'NA', 'comune', '1865-10-25', NULL, datetime('now')),
+  ('G569', 'PIANO', 'TN', 'comune', '1920-10-16', '1928-10-07', datetime('now')),
+  ('G570', 'PIANORO', 'BO', 'comune', '1866-01-01', NULL, datetime('now')),
+  ('G571', 'PIANSANO', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('G572', 'PIANTEDO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G573', 'PIANURA', 'NA', 'comune', '1861-03-17', '1926-07-04', datetime('now')),
+  ('G574', 'PIARIO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G575', 'PIASCO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G576', 'PIATEDA', 'SO', 'comune', '1867-01-06', NULL, datetime('now')),
+  ('G577', 'PIATTO', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G578', 'PIAVON', 'TV', 'comune', '1866-11-19', '1929-04-12', datetime('now')),
+  ('G579', 'PIAZZA BREMBANA', 'BG', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('G580', 'PIAZZA ARMERINA', 'EN', 'comune', '1862-10-31', NULL, datetime('now')),
+  ('G581', 'PIAZZA SANTO STEFANO', 'CO', 'comune', '1863-02-23', '1929-05-03', datetime('now')),
+  ('G582', 'PIAZZA AL SERCHIO', 'LU', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('G583', 'PIAZZATORRE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G584', 'PIAZZO', 'TO', 'comune', '1861-03-17', '1928-05-01', datetime('now')),
+  ('G585', 'PIAZZO ALTO', 'BG', 'comune', '1861-03-17', '1927-02-20', datetime('now')),
+  ('G586', 'PIAZZO BASSO', 'BG', 'comune', '1861-03-17', '1916-03-04', datetime('now')),
+  ('G587', 'PIAZZOLA SUL BRENTA', 'PD', 'comune', '1882-07-20', NULL, datetime('now')),
+  ('G588', 'PIAZZOLO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G589', 'PICCIANO', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G590', 'PICERNO', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G591', 'PICINISCO', 'FR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G592', 'PICO', 'FR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G593', 'PIEA', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G594', 'PIEDICAVALLO', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G595', 'PIEDILUCO', 'TR', 'comune', '1861-03-17', '1927-01-13', datetime('now')),
+  ('G596', 'PIEDIMONTE D''ALIFE', 'BN', 'comune', '1862-09-29', NULL, datetime('now')),
+  ('G597', 'PIEDIMONTE ETNEO', 'CT', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('G598', 'PIEDIMONTE SAN GERMANO', 'FR', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('G599', 'PIEDIMONTE DEL CALVARIO', 'GO', 'comune', '1921-01-05', '1927-01-13', datetime('now')),
+  ('G600', 'PIEDIMULERA', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G601', 'PIEGARO', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G602', 'PIENZA', 'SI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G603', 'PIERANICA', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G604', 'PIETRAMONTECORVINO', 'FG', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('G605', 'PIETRA LIGURE', 'SV', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('G606', 'PIETRABBONDANTE', 'IS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G607', 'PIETRABRUNA', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G608', 'PIETRACAMELA', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G609', 'PIETRACATELLA', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G610', 'PIETRACUPA', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G611', 'PIETRADEFUSI', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G612', 'PIETRA DE'' GIORGI', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G613', 'PIETRAFERRAZZANA', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G614', 'SATRIANO DI LUCANIA', 'PZ', 'comune', '1887-01-07', NULL, datetime('now')),
+  ('G615', 'PIETRAFITTA', 'CS', 'comune', '1893-10-26', NULL, datetime('now')),
+  ('G616', 'PIETRAGALLA', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G617', 'PIETRA GAVINA', 'PV', 'comune', '1861-03-17', '1872-12-15', datetime('now')),
+  ('G618', 'PIETRALUNGA', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G619', 'PIETRA MARAZZI', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G620', 'PIETRAMELARA', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G621', 'PIETRANICO', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G622', 'PIETRAPAOLA', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G623', 'PIETRAPERTOSA', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G624', 'PIETRAPERZIA', 'EN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G625', 'PIETRAPORZIO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G626', 'PIETRAROJA', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G627', 'PIETRARUBBIA', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G628', 'PIETRASANTA', 'LU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G629', 'PIETRASTORNINA', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G630', 'PIETRAVAIRANO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G631', 'PIETRELCINA', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G632', 'PIEVE DI TECO', 'IM', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('G633', 'PIEVE DI CORIANO', 'MN', 'comune', '1867-06-24', '2018-01-01', datetime('now')),
+  ('G634', 'PIEVE EMANUELE', 'MI', 'comune', '1862-11-03', NULL, datetime('now')),
+  ('G635', 'PIEVE ALBIGNOLA', 'PV', 'comune', '1869-01-31', NULL, datetime('now')),
+  ('G636', 'PIEVE A NIEVOLE', 'PT', 'comune', '1905-07-30', NULL, datetime('now')),
+  ('G637', 'PIEVEBOVIGLIANA', 'MC', 'comune', '1861-03-17', '2017-01-01', datetime('now')),
+  ('G638', 'PIEVE D''ALPAGO', 'BL', 'comune', '1866-11-19', '2016-02-23', datetime('now')),
+  ('G639', 'PIEVE DEL CAIRO', 'PV', 'comune', '1890-11-28', NULL, datetime('now')),
+  ('G640', 'PIEVE DELMONA', 'CR', 'comune', '1869-05-22', '1928-05-19', datetime('now')),
+  ('G641', 'PIEVE DI BONO', 'TN', 'comune', '1928-03-07', '2016-01-01', datetime('now')),
+  ('G642', 'PIEVE DI CADORE', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G643', 'PIEVE DI CENTO', 'BO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G644', 'PIEVE DI LEDRO', 'TN', 'comune', '1920-10-16', '2010-01-01', datetime('now')),
+  ('G645', 'PIEVE DI SOLIGO', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G646', 'PIEVE LIGURE', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G647', 'PIEVE D''OLMI', 'CR', 'comune', '1867-08-30', NULL, datetime('now')),
+  ('G648', 'PIEVE FOSCIANA', 'LU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G649', 'PIEVEPELAGO', 'MO', 'comune', '1870-10-01', NULL, datetime('now')),
+  ('G650', 'PIEVE PORTO MORONE', 'PV', 'comune', '1867-02-12', NULL, datetime('now')),
+  ('G651', 'PIEVE SAN GIACOMO', 'CR', 'comune', '1868-07-12', NULL, datetime('now')),
+  ('G652', 'PIEVE SAN MAURIZIO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('G653', 'PIEVE SANTO STEFANO', 'AR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G654', 'RAMISETO', 'RE', 'comune', '1873-01-20', '2016-01-01', datetime('now')),
+  ('G655', 'PIEVE TERZAGNI', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('G656', 'PIEVE TESINO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('G657', 'PIEVE TORINA', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G658', 'PIEVE VERGONTE', 'VB', 'comune', '1928-07-29', NULL, datetime('now')),
+  ('G659', 'PIGLIO', 'FR', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('G660', 'PIGNA', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G661', 'PIGNATARO MAGGIORE', 'NA', 'comune', '1862-09-29', NULL, datetime('now')),
+  ('G662', 'PIGNATARO INTERAMNA', 'FR', 'comune', '1862-11-24', NULL, datetime('now')),
+  ('G663', 'PIGNOLA', 'PZ', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('G664', 'PIGNONE', 'SP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G665', 'PIGRA', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G666', 'PILA', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G667', 'PILCANTE', 'TN', 'comune', '1920-10-16', '1928-09-06', datetime('now')),
+  ('G668', 'PILZONE', 'BS', 'comune', '1861-03-17', '1927-12-29', datetime('now')),
+  ('G669', 'PIMENTEL', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G670', 'PIMONTE', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G671', 'PINAROLO PO', 'PV', 'comune', '1871-06-04', NULL, datetime('now')),
+  ('G672', 'PINASCA', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G673', 'PINCARA', 'RO', 'comune', '1878-12-23', NULL, datetime('now')),
+  ('G674', 'PINEROLO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G675', 'PINGUENTE', 'PL', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('G676', 'PINO D''ASTI', 'AT', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('G677', 'PINO SULLA SPONDA DEL LAGO MAGGIORE', 'VA', 'comune', '1863-02-23', '2014-02-04', datetime('now')),
+  ('G678', 'PINO TORINESE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G679', 'PINZANO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('G680', 'PINZANO AL TAGLIAMENTO', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('G681', 'PINZOLO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('G682', 'PIOBBICO', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G683', 'PIOBESI D''ALBA', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('G684', 'PIOBESI TORINESE', 'TO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('G685', 'PIODE', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G686', 'PIOLTELLO', 'MI', 'comune', '1869-07-06', NULL, datetime('now')),
+  ('G687', 'PIOMBINO', 'LI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G688', 'PIOMBINO DESE', 'PD', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('G689', 'PIONE', 'PR', 'comune', '1927-01-27', '1927-05-27', datetime('now')),
+  ('G690', 'PIORACO', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G691', 'PIOSSASCO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G692', 'PIOVÀ MASSAIA', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G693', 'PIOVE DI SACCO', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G694', 'PIOVENE ROCCHETTE', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G695', 'PIOVERA', 'AL', 'comune', '1861-03-17', '2018-01-01', datetime('now')),
+  ('G696', 'PIOZZANO', 'PC', 'comune', '1877-04-16', NULL, datetime('now')),
+  ('G697', 'PIOZZO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G698', 'PRIVERNO', 'LT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('G699', 'PIRAINO', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G700', 'PIRANO', 'PL', 'comune', '1921-01-05', '1977-04-04', datetime('now')),
+  ('G701', 'PIRRI', 'CA', 'comune', '1861-03-17', '1928-05-12', datetime('now')),
+  ('G702', 'PISA', 'PI', 'comune', '1867-08-05', NULL, datetime('now')),
+  ('G703', 'PISANO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G704', 'PISONIANO', 'RM', 'comune', '1871-10-29', NULL, datetime('now')),
+  ('G705', 'PISCINA', 'TO', 'comune', '1893-05-26', NULL, datetime('now')),
+  ('G706', 'PISCINOLA', 'NA', 'comune', '1861-03-17', '1865-12-13', datetime('now')),
+  ('G707', 'PISCIOTTA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G708', 'PISCOPIO', 'CZ', 'comune', '1861-03-17', '1937-05-29', datetime('now')),
+  ('G709', 'PISINO', 'PL', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('G710', 'PISOGNE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G711', 'PISSARELLO', 'PV', 'comune', '1861-03-17', '1872-10-14', datetime('now')),
+  ('G712', 'PISTICCI', 'MT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G713', 'PISTOIA', 'PT', 'comune', '1877-12-28', NULL, datetime('now')),
+  ('G714', 'PISTOLESA', 'BI', 'comune', '1861-03-17', '1999-01-01', datetime('now')),
+  ('G715', 'PITEGLIO', 'PT', 'comune', '1861-03-17', '2017-01-01', datetime('now')),
+  ('G716', 'PITIGLIANO', 'GR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G717', 'PIUBEGA', 'MN', 'comune', '1868-07-01', NULL, datetime('now')),
+  ('G718', 'PIURO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G719', 'PIVERONE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G720', 'PIZZALE', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G721', 'PIZZIGHETTONE', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G722', 'PIZZO', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G723', 'PIZZOCORNO', 'PV', 'comune', '1861-03-17', '1928-08-07', datetime('now')),
+  ('G724', 'PIZZOFERRATO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G725', 'PIZZOLANO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('G726', 'PIZZOLI', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G727', 'PIZZONE', 'IS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G728', 'PIZZONI', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G729', 'PLACANICA', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G730', 'PLANOL', 'BZ', 'comune', '1920-10-16', '1928-01-27', datetime('now')),
+  ('G731', 'PLANINA', 'GO', 'comune', '1921-01-05', '1928-07-28', datetime('now')),
+  ('G732', 'PLATA', 'BZ', 'comune', '1920-10-16', '1928-06-16', datetime('now')),
+  ('G733', 'PLATACI', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G734', 'PLATANIA', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G735', 'PLATÌ', 'RC', 'comune', '1895-04-05', NULL, datetime('now')),
+  ('G736', 'TAIPANA', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G737', 'PLESIO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G738', 'PLEZZO', 'GO', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('G739', 'PLISCOVIZZA DELLA MADONNA', 'GO', 'comune', '1921-01-05', '1928-08-24', datetime('now')),
+  ('G740', 'PLOAGHE', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G741', 'PLODIO', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G742', 'POCAPAGLIA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G743', 'POCENIA', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G744', 'POCRAI DEL PIRO', 'GO', 'comune', '1921-01-05', '1928-01-26', datetime('now')),
+  ('G745', 'PODARGONI', 'RC', 'comune', '1861-03-17', '1927-08-03', datetime('now')),
+  ('G746', 'PODENZANA', 'MS', 'comune', '1881-04-22', NULL, datetime('now')),
+  ('G747', 'PODENZANO', 'PC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G748', 'PODRAGA', 'GO', 'comune', '1921-01-05', '1928-01-22', datetime('now')),
+  ('G749', 'POFI', 'FR', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('G750', 'POGGI', 'IM', 'comune', '1861-03-17', '1923-11-29', datetime('now')),
+  ('G751', 'POGGIARDO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G752', 'POGGIBONSI', 'SI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G753', 'POGGIO RUSCO', 'MN', 'comune', '1867-06-24', NULL, datetime('now')),
+  ('G754', 'POGGIO A CAIANO', 'PO', 'comune', '1962-09-23', NULL, datetime('now')),
+  ('G755', 'POGGIO BERNI', 'RN', 'comune', '1861-03-17', '2014-01-01', datetime('now')),
+  ('G756', 'POGGIO BUSTONE', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G757', 'POGGIO CATINO', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G758', 'POGGIODOMO', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G759', 'POGGIO FIDONI', 'RI', 'comune', '1875-09-07', '1928-02-21', datetime('now')),
+  ('G760', 'POGGIOFIORITO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G761', 'POGGIO IMPERIALE', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G762', 'POGGIOMARINO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G763', 'POGGIO MIRTETO', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G764', 'POGGIO MOIANO', 'RI', 'comune', '1875-08-30', NULL, datetime('now')),
+  ('G765', 'POGGIO NATIVO', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G766', 'POGGIO PICENZE', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G767', 'POGGIOREALE', 'TP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G768', 'POGGIO RENATICO', 'FE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G769', 'POGGIORSINI', 'BA', 'comune', '1957-05-15', NULL, datetime('now')),
+  ('G770', 'POGGIO SAN LORENZO', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G771', 'POGGIO SAN MARCELLO', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G772', 'POGLIANO MILANESE', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G773', 'POGNANA LARIO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G774', 'POGNANO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G775', 'POGNO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G776', 'POJANA MAGGIORE', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G777', 'POIRINO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G778', 'POLA', 'PL', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('G779', 'POLAVENO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G780', 'POLCENIGO', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('G781', 'POLENGO', 'CR', 'comune', '1861-03-17', '1867-09-05', datetime('now')),
+  ('G782', 'POLESELLA', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G783', 'POLESINE PARMENSE', 'PR', 'comune', '1869-02-08', '2016-01-01', datetime('now')),
+  ('G784', 'POLI', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('G785', 'POLIA', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G786', 'POLICORO', 'MT', 'comune', '1959-04-25', NULL, datetime('now')),
+  ('G787', 'POLIGNANO A MARE', 'BA', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('G788', 'SAN PIETRO IN CERRO', 'PC', 'comune', '1882-05-29', NULL, datetime('now')),
+  ('G789', 'POLINAGO', 'MO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G790', 'POLINO', 'TR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G791', 'POLISTENA', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G792', 'POLIZZI GENEROSA', 'PA', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('G793', 'POLLA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G794', 'POLLEIN', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G795', 'POLLENA TROCCHIA', 'NA', 'comune', '1877-04-09', NULL, datetime('now')),
+  ('G796', 'POLLICA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G797', 'POLLINA', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G798', 'POLLONE', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G799', 'POLLUTRI', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G800', 'POLONGHERA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G801', 'POLPENAZZE DEL GARDA', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G802', 'POLVERARA', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G803', 'POLVERIGI', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G804', 'POMARANCE', 'PI', 'comune', '1870-07-30', NULL, datetime('now')),
+  ('G805', 'POMARETTO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G806', 'POMARICO', 'MT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G807', 'POMARO MONFERRATO', 'AL', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('G808', 'POMAROLO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('G809', 'POMBIA', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G810', 'POMETO', 'PV', 'comune', '1936-10-22', '1947-11-27', datetime('now')),
+  ('G811', 'POMEZIA', 'RM', 'comune', '1938-07-27', NULL, datetime('now')),
+  ('G812', 'POMIGLIANO D''ARCO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G813', 'POMPEI', 'NA', 'comune', '1928-04-28', NULL, datetime('now')),
+  ('G814', 'POMPEIANA', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G815', 'POMPIANO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G816', 'POMPONESCO', 'MN', 'comune', '1868-07-01', NULL, datetime('now')),
+  ('G817', 'POMPU', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G818', 'PONCARALE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G819', 'PONCARALE FLERO', 'BS', 'comune', '1927-12-27', '1956-10-08', datetime('now')),
+  ('G820', 'PONDERANO', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G821', 'PONNA', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G822', 'PONSACCO', 'PI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G823', 'PONSO', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G824', 'PONTAGNA', 'BS', 'comune', '1861-03-17', '1927-12-04', datetime('now')),
+  ('G825', 'PONTASSIEVE', 'FI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G826', 'PONT CANAVESE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G827', 'PONTE', 'BN', 'comune', '1913-01-01', NULL, datetime('now')),
+  ('G828', 'PONTE LAMBRO', 'CO', 'comune', '1862-12-29', '1928-05-26', datetime('now')),
+  ('G829', 'PONTE IN VALTELLINA', 'SO', 'comune', '1864-04-01', NULL, datetime('now')),
+  ('G830', 'PONTE GARDENA', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('G831', 'PONTEBBA', 'UD', 'comune', '1867-09-02', NULL, datetime('now')),
+  ('G832', 'PONTEBBA NOVA', 'UD', 'comune', '1921-01-05', '1924-08-31', datetime('now')),
+  ('G833', 'PONTE BUGGIANESE', 'PT', 'comune', '1883-05-21', NULL, datetime('now')),
+  ('G834', 'PONTECAGNANO FAIANO', 'SA', 'comune', '1911-07-27', NULL, datetime('now')),
+  ('G835', 'PONTE CARATE', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('G836', 'PONTECCHIO POLESINE', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G837', 'PONTECHIANALE', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G838', 'PONTECORVO', 'FR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G839', 'PONTECURONE', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G840', 'PONTEDASSIO', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G841', 'PONTEDECIMO', 'GE', 'comune', '1889-06-17', '1926-02-06', datetime('now')),
+  ('G842', 'PONTE DELL''OLIO', 'PC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G843', 'PONTEDERA', 'PI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G844', 'PONTE DI LEGNO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G845', 'PONTE DI NOSSA', 'BG', 'comune', NULL, NULL, datetime('now')),
+  ('G846', 'PONTE DI PIAVE', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G847', 'PONTE LAMBRO', 'CO', 'comune', '1928-05-25', NULL, datetime('now')),
+  ('G848', 'PONTELANDOLFO', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G849', 'PONTELATONE', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G850', 'PONTELONGO', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G851', 'PONTE NIZZA', 'PV', 'comune', '1928-08-07', NULL, datetime('now')),
+  ('G852', 'PONTENURE', 'PC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G853', 'PONTERANICA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G854', 'PONT-SAINT-MARTIN', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G855', 'PONTE SAN NICOLÒ', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G856', 'PONTE SAN PIETRO', 'BG', 'comune', '1879-06-02', NULL, datetime('now')),
+  ('G857', 'PONTESESTO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('G858', 'PONTESTURA', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G859', 'PONTEVICO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G860', 'PONTEY', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G861', 'PONTI', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G862', 'PONTI SUL MINCIO', 'MN', 'comune', '1872-01-01', NULL, datetime('now')),
+  ('G863', 'PONTICELLI', 'NA', 'comune', '1861-03-17', '1925-11-30', datetime('now')),
+  ('G864', 'PONTIDA', 'BG', 'comune', '1882-09-03', NULL, datetime('now')),
+  ('G865', 'PONTINIA', 'LT', 'comune', '1935-07-18', NULL, datetime('now')),
+  ('G866', 'PONTINVREA', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G867', 'PONTIROLO NUOVO', 'BG', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('G868', 'PONTIROLO CAPREDONI', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('G869', 'PONTOGLIO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G870', 'PONTREMOLI', 'MS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G871', 'PONZA', 'LT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G872', 'PONZANO MONFERRATO', 'AL', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('G873', 'PONZANO DI FERMO', 'FM', 'comune', '1862-11-24', NULL, datetime('now')),
+  ('G874', 'PONZANO ROMANO', 'RM', 'comune', '1872-08-02', NULL, datetime('now')),
+  ('G875', 'PONZANO VENETO', 'TV', 'comune', '1868-02-14', NULL, datetime('now')),
+  ('G876', 'PONZATE', 'CO', 'comune', '1861-03-17', '1928-09-23', datetime('now')),
+  ('G877', 'PONZONE', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G878', 'POPOLI TERME', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G879', 'POPPI', 'AR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G880', 'POR', 'TN', 'comune', '1920-10-16', '1928-03-07', datetime('now')),
+  ('G881', 'PORANO', 'TR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G882', 'PORCARI', 'LU', 'comune', '1913-07-13', NULL, datetime('now')),
+  ('G883', 'PORCHIA', 'AP', 'comune', NULL, NULL, datetime('now')),
+  ('G884', 'PORCHIANO DEL MONTE', 'TR', 'comune', NULL, NULL, datetime('now')),
+  ('G885', 'PORCHIANO DELL''ASCENSIONE', 'AP', 'comune', NULL, NULL, datetime('now')),
+  ('G886', 'PORCIA', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('G887', 'STELLA CILENTO', 'SA', 'comune', '1871-10-16', NULL, datetime('now')),
+  ('G888', 'PORDENONE', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('G889', 'PORLEZZA', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G890', 'PORNASSIO', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G891', 'PORPETTO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G892', 'PORTA AL BORGO', 'FI', 'comune', NULL, NULL, datetime('now')),
+  ('G893', 'PORTA CARRATICA', 'FI', 'comune', NULL, NULL, datetime('now')),
+  ('G894', 'PORTACOMARO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G895', 'PORTALBERA', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G896', 'PORTA LUCCHESE', 'FI', 'comune', NULL, NULL, datetime('now')),
+  ('G897', 'PORTA OMBRIANO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('G898', 'PORTARIA', 'PG', 'comune', NULL, NULL, datetime('now')),
+  ('G899', 'PORTA SAN MARCO', 'FI', 'comune', NULL, NULL, datetime('now')),
+  ('G900', 'PORTE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G901', 'PORTESE', 'BS', 'comune', '1861-03-17', '1928-06-30', datetime('now')),
+  ('G902', 'PORTICI', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G903', 'PORTICO DI CASERTA', 'NA', 'comune', '1862-09-08', NULL, datetime('now')),
+  ('G904', 'PORTICO E SAN BENEDETTO', 'FC', 'comune', '1884-06-14', NULL, datetime('now')),
+  ('G905', 'PORTIGLIOLA', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G906', 'PORTO CERESIO', 'VA', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('G907', 'PORTO VALTRAVAGLIA', 'VA', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('G908', 'PORTO D''ADDA', 'MI', 'comune', '1861-03-17', '1870-08-02', datetime('now')),
+  ('G909', 'PORTOBUFFOLÈ', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G910', 'PORTOCANNONE', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G911', 'PORTO CIVITANOVA', 'MC', 'comune', '1913-06-27', '1938-09-14', datetime('now')),
+  ('G912', 'PORTOFERRAIO', 'LI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G913', 'PORTOFINO', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G914', 'PORTOGRUARO', 'VE', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G915', 'PORTOLE', 'PL', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('G916', 'PORTOMAGGIORE', 'FE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G917', 'PORTO MANTOVANO', 'MN', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G918', 'PORTO MAURIZIO', 'IM', 'comune', NULL, NULL, datetime('now')),
+  ('G919', 'PORTO RECANATI', 'MC', 'comune', '1893-01-30', NULL, datetime('now')),
+  ('G920', 'PORTO SAN GIORGIO', 'FM', 'comune', '1877-12-03', NULL, datetime('now')),
+  ('G921', 'PORTO SANT''ELPIDIO', 'FM', 'comune', '1952-01-01', NULL, datetime('now')),
+  ('G922', 'PORTOSCUSO', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G923', 'PORTO TOLLE', 'RO', 'comune', '1873-04-10', NULL, datetime('now')),
+  ('G924', 'PORTO TORRES', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G925', 'PORTOVENERE', 'SP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G926', 'PORTO VIRO', 'RO', 'comune', '1929-01-13', NULL, datetime('now')),
+  ('G927', 'PORTULA', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G928', 'PORZANO', 'BS', 'comune', '1861-03-17', '1927-12-09', datetime('now')),
+  ('G929', 'POSADA', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G930', 'POSCANTE', 'BG', 'comune', '1861-03-17', '1928-03-28', datetime('now')),
+  ('G931', 'POSINA', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G932', 'POSITANO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G933', 'POSSAGNO', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G934', 'POSTA', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G935', 'POSTA FIBRENO', 'FR', 'comune', '1957-04-07', NULL, datetime('now')),
+  ('G936', 'POSTAL', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('G937', 'POSTALESIO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G938', 'POSTICCIOLA', 'PG', 'comune', NULL, NULL, datetime('now')),
+  ('G939', 'POSTIGLIONE', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G940', 'POSTUA', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G941', 'POSTUMIA GROTTE', 'TS', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('G942', 'POTENZA', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G943', 'POVE DEL GRAPPA', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G944', 'POVEGLIANO', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G945', 'POVEGLIANO VERONESE', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G946', 'POVERIO', 'TS', 'comune', '1921-01-05', '1927-06-09', datetime('now')),
+  ('G947', 'POVIGLIO', 'RE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G948', 'POVO', 'TN', 'comune', '1920-10-16', '1926-10-01', datetime('now')),
+  ('G949', 'POVOLETTO', 'UD', 'comune', '1928-08-07', NULL, datetime('now')),
+  ('G950', 'POZZA DI FASSA', 'TN', 'comune', '1920-10-16', '2018-01-01', datetime('now')),
+  ('G951', 'POZZAGLIA SABINA', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G952', 'POZZAGLIO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('G953', 'POZZALLO', 'RG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G954', 'POZZILLI', 'IS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G955', 'POZZO D''ADDA', 'MI', 'comune', '1862-11-03', NULL, datetime('now')),
+  ('G956', 'POZZO ALTO', 'PS', 'comune', '1862-11-07', '1929-04-11', datetime('now')),
+  ('G957', 'POZZOLEONE', 'VI', 'comune', '1867-09-02', NULL, datetime('now')),
+  ('G958', 'POZZO BARONZIO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('G959', 'POZZOLENGO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G960', 'POZZOL GROPPO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G961', 'POZZOLO FORMIGARO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G962', 'POZZOMAGGIORE', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G963', 'POZZONOVO', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G964', 'POZZUOLI', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G965', 'POZZUOLO MARTESANA', 'MI', 'comune', '1869-01-22', NULL, datetime('now')),
+  ('G966', 'POZZUOLO DEL FRIULI', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G967', 'PRA', 'GE', 'comune', '1861-03-17', '1926-02-06', datetime('now')),
+  ('G968', 'PRADALUNGA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G969', 'PRADAMANO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G970', 'PRADLEVES', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G971', 'PRADO', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('G972', 'SASSO MARCONI', 'BO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G973', 'PRAGELATO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G974', 'PRAY', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G975', 'PRAIA A MARE', 'CS', 'comune', '1928-05-12', NULL, datetime('now')),
+  ('G976', 'PRAIANO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G977', 'PRALBOINO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G978', 'PRALI', 'TO', 'comune', '1895-03-04', NULL, datetime('now')),
+  ('G979', 'PRALORMO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G980', 'PRALUNGO', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G981', 'PRAMAGGIORE', 'VE', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('G982', 'PRAMOLLO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G983', 'PRANDAGLIO', 'BS', 'comune', '1861-03-17', '1928-09-25', datetime('now')),
+  ('G984', 'PRANZO', 'TN', 'comune', '1920-10-16', '1929-04-12', datetime('now')),
+  ('G985', 'PRAROLO', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G986', 'PRAROSTINO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G987', 'PRASCO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G988', 'PRASCORSANO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G989', 'PRASO', 'TN', 'comune', '1920-10-16', '2015-01-01', datetime('now')),
+  ('G990', 'PRATA DI PRINCIPATO ULTRA', 'AV', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('G991', 'PRATA SANNITA', 'CB', 'comune', '1898-04-15', NULL, datetime('now')),
+  ('G992', 'PRATA D''ANSIDONIA', 'AQ', 'comune', '1863-05-06', NULL, datetime('now')),
+  ('G993', 'PRATA CAMPORTACCIO', 'SO', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('G994', 'PRATA DI PORDENONE', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('G995', 'PRATELLA', 'CB', 'comune', '1907-03-08', NULL, datetime('now')),
+  ('G996', 'PRATI', 'BZ', 'comune', '1920-10-16', '1931-12-07', datetime('now')),
+  ('G997', 'PRATIGLIONE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('G998', 'PRATO MUZIO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('G999', 'PRATO', 'PO', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('H001', 'PRATO SESIA', 'NO', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('H002', 'PRATO CARNICO', 'UD', 'comune', '1893-07-03', NULL, datetime('now')),
+  ('H003', 'PRATO ALLA DRAVA', 'BZ', 'comune', '1920-10-16', '1928-12-10', datetime('now')),
+  ('H004', 'PRATO ALLO STELVIO', 'BZ', 'comune', '1929-05-14', NULL, datetime('now')),
+  ('H006', 'PRATOLA SERRA', 'AV', 'comune', '1862-10-24', NULL, datetime('now')),
+  ('H007', 'PRATOLA PELIGNA', 'AQ', 'comune', '1863-05-06', NULL, datetime('now')),
+  ('H008', 'PRATOVECCHIO', 'AR', 'comune', '1861-03-17', '2014-01-01', datetime('now')),
+  ('H009', 'PRATOVECCHIO STIA', 'AR', 'comune', '1929-03-12', '1934-09-28', datetime('now')),
+  ('H010', 'PRAVISDOMINI', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('H011', 'PRAZZO', 'CN', 'comune', '1861-03-17', NULL, datetime('now'));
+
+INSERT INTO belfioreCodes (code, name, province, kind, validFrom, validTo, updatedAt) VALUES
+  ('H012', 'PRÈ', 'TN', 'comune', '1920-10-16', '1928-04-04', datetime('now')),
+  ('H013', 'SAMO', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H014', 'PRECENICCO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H015', 'PRECI', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H016', 'PRECOTTO', 'MI', 'comune', '1861-03-17', '1920-07-16', datetime('now')),
+  ('H017', 'PREDAPPIO', 'FC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H018', 'PREDAZZO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('H019', 'PREDOI', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('H020', 'PREDORE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H021', 'PREDOSA', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H022', 'PREGANZIOL', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H023', 'PREGASINA', 'TN', 'comune', '1920-10-16', '1925-09-15', datetime('now')),
+  ('H024', 'PREGHENA', 'TN', 'comune', '1920-10-16', '1928-10-30', datetime('now')),
+  ('H025', 'PREGLIA', 'NO', 'comune', '1861-03-17', '1928-03-08', datetime('now')),
+  ('H026', 'PREGNANA MILANESE', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H027', 'PRELÀ', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H028', 'PREMANA', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H029', 'PREMARIACCO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H030', 'PREMENO', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H031', 'PREMENUGO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('H032', 'PREMEZZO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('H033', 'PREMIA', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H034', 'PREMILCUORE', 'FC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H035', 'PREMIONE', 'TN', 'comune', '1920-10-16', '1928-03-13', datetime('now')),
+  ('H036', 'PREMOLO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H037', 'PREMOSELLO-CHIOVENDA', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H038', 'PREONE', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H039', 'PREORE', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('H040', 'PREPOTTO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H041', 'PREQUARTERA', 'NO', 'comune', NULL, NULL, datetime('now')),
+  ('H042', 'PRÉ-SAINT-DIDIER', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H043', 'PRESEGLIE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H044', 'PRESEGNO', 'BS', 'comune', '1861-03-17', '1928-11-10', datetime('now')),
+  ('H045', 'PRESENZANO', 'NA', 'comune', '1878-08-02', NULL, datetime('now')),
+  ('H046', 'PRESEZZO', 'BG', 'comune', '1879-06-02', NULL, datetime('now')),
+  ('H047', 'PRESICCE', 'LE', 'comune', '1861-03-17', '2019-05-15', datetime('now')),
+  ('H048', 'PRESSANA', 'VR', 'comune', '1879-04-11', NULL, datetime('now')),
+  ('H049', 'PRESSON', 'TN', 'comune', '1920-10-16', '1928-09-06', datetime('now')),
+  ('H050', 'PRESTINE', 'BS', 'comune', '1861-03-17', '2016-04-24', datetime('now')),
+  ('H051', 'PRESTINONE', 'NO', 'comune', NULL, NULL, datetime('now')),
+  ('H052', 'PRETORO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H053', 'PRETURO', 'AQ', 'comune', '1861-03-17', '1927-09-21', datetime('now')),
+  ('H054', 'PREVACINA', 'GO', 'comune', '1921-01-05', '1928-04-17', datetime('now')),
+  ('H055', 'PREVALLE', 'BS', 'comune', '1928-08-15', NULL, datetime('now')),
+  ('H056', 'PREZZA', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H057', 'PREZZO', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('H058', 'PRIACCO', 'AO', 'comune', '1861-03-17', '1928-09-26', datetime('now')),
+  ('H059', 'PRIERO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H060', 'PRIERO MONTEZEMOLO', 'CN', 'comune', '1929-03-26', '1947-03-31', datetime('now')),
+  ('H061', 'PRIGNANO SULLA SECCHIA', 'MO', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('H062', 'PRIGNANO CILENTO', 'SA', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('H063', 'PRIMALUNA', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H064', 'PRIMANO', 'FU', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('H065', 'PRIMEGLIO SCHIERANO', 'AL', 'comune', '1861-03-17', '1929-04-14', datetime('now')),
+  ('H066', 'PRIMIERO', 'TN', 'comune', '1927-11-24', '1947-01-25', datetime('now')),
+  ('H067', 'PRIÒ', 'TN', 'comune', '1920-10-16', '1928-12-14', datetime('now')),
+  ('H068', 'PRIOCCA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H069', 'PRIOLA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H070', 'PRIZZI', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H071', 'PROCENO', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('H072', 'PROCIDA', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H073', 'PROPATA', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H074', 'PROSERPIO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H075', 'PROSPIANO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('H076', 'PROSSEDI', 'LT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('H077', 'PROVAGLIO VAL SABBIA', 'BS', 'comune', '1928-06-14', NULL, datetime('now')),
+  ('H078', 'PROVAGLIO D''ISEO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H079', 'PROVAGLIO SOPRA', 'BS', 'comune', '1861-03-17', '1928-06-15', datetime('now')),
+  ('H080', 'PROVAGLIO SOTTO', 'BS', 'comune', '1861-03-17', '1928-06-15', datetime('now')),
+  ('H081', 'PROVES', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('H082', 'PROVEZZE', 'BS', 'comune', '1861-03-17', '1928-08-14', datetime('now')),
+  ('H083', 'PROVVIDENTI', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H084', 'PRUN', 'VR', 'comune', '1866-11-19', '1929-01-25', datetime('now')),
+  ('H085', 'PRUNETTO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H086', 'PUEGNAGO DEL GARDA', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H087', 'PUGLIANELLO', 'BN', 'comune', '1948-07-11', NULL, datetime('now')),
+  ('H088', 'PULA', 'CA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H089', 'PULFERO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H090', 'PULSANO', 'TA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H091', 'PUMENENGO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H092', 'PUOS D''ALPAGO', 'BL', 'comune', '1866-11-19', '2016-02-23', datetime('now')),
+  ('H093', 'PURIA', 'CO', 'comune', '1861-03-17', '1927-06-10', datetime('now')),
+  ('H094', 'PUSIANO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H095', 'PUTIFIGARI', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H096', 'PUTIGNANO', 'BA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H097', 'QUADRELLE', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H098', 'QUADRI', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H099', 'QUAGLIETTA', 'AV', 'comune', '1861-03-17', '1928-04-15', datetime('now')),
+  ('H100', 'QUAGLIUZZO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H101', 'QUALIANO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H102', 'QUARANTI', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H103', 'QUAREGNA', 'BI', 'comune', '1861-03-17', '2019-01-01', datetime('now')),
+  ('H104', 'QUARGNENTO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H105', 'QUARNA', 'NO', 'comune', '1928-03-07', '1947-10-02', datetime('now')),
+  ('H106', 'QUARNA SOPRA', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H107', 'QUARNA SOTTO', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H108', 'QUARONA', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H109', 'QUARRATA', 'PT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H110', 'QUART', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H111', 'QUARTI', 'AL', 'comune', '1861-03-17', '1928-06-27', datetime('now')),
+  ('H112', 'QUARTIANO', 'MI', 'comune', '1861-03-17', '1869-02-11', datetime('now')),
+  ('H113', 'QUARTO ASTESE', 'AL', 'comune', NULL, NULL, datetime('now')),
+  ('H114', 'QUARTO', 'NA', 'comune', '1948-03-11', NULL, datetime('now')),
+  ('H115', 'QUARTO DEI MILLE', 'GE', 'comune', '1861-03-17', '1926-02-06', datetime('now')),
+  ('H116', 'QUARTO CAGNINO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('H117', 'QUARTO D''ALTINO', 'VE', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H118', 'QUARTU SANT''ELENA', 'CA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H119', 'QUARTUCCIU', 'CA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H120', 'QUASSOLO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H121', 'QUATTORDIO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H122', 'QUATTRO CASTELLA', 'RE', 'comune', '1872-03-03', NULL, datetime('now')),
+  ('H123', 'VIRGILIO', 'MN', 'comune', '1883-03-30', '2014-02-04', datetime('now')),
+  ('H124', 'QUERO', 'BL', 'comune', '1866-11-19', '2013-12-28', datetime('now')),
+  ('H125', 'QUETTA', 'TN', 'comune', '1920-10-16', '1928-10-30', datetime('now')),
+  ('H126', 'QUILIANO', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H127', 'QUINCINETTO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H128', 'QUINDICI', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H129', 'QUINGENTOLE', 'MN', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H130', 'QUINTANO', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H131', 'QUINTO DI TREVISO', 'TV', 'comune', '1868-02-14', NULL, datetime('now')),
+  ('H132', 'QUINTO VERCELLESE', 'VC', 'comune', '1864-11-07', NULL, datetime('now')),
+  ('H133', 'QUINTO DI VALPANTENA', 'VR', 'comune', '1867-08-26', '1927-05-12', datetime('now')),
+  ('H134', 'QUINTO VICENTINO', 'VI', 'comune', '1867-09-02', NULL, datetime('now')),
+  ('H135', 'QUINTO AL MARE', 'GE', 'comune', '1861-03-17', '1926-02-06', datetime('now')),
+  ('H136', 'QUINTODECIMO', 'AP', 'comune', NULL, NULL, datetime('now')),
+  ('H137', 'QUINTO ROMANO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('H138', 'QUINTOSOLE', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('H139', 'QUINZANELLO', 'BS', 'comune', '1861-03-17', '1928-07-28', datetime('now')),
+  ('H140', 'QUINZANO D''OGLIO', 'BS', 'comune', '1862-11-07', NULL, datetime('now')),
+  ('H141', 'QUINZANO SAN PIETRO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('H142', 'QUINZANO VERONESE', 'VR', 'comune', '1867-08-26', '1927-02-16', datetime('now')),
+  ('H143', 'QUISTELLO', 'MN', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H144', 'QUISTRO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('H145', 'QUITTENGO', 'BI', 'comune', '1861-03-17', '2016-01-01', datetime('now')),
+  ('H146', 'RABBI', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('H147', 'RACALE', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H148', 'RACALMUTO', 'AG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H149', 'RACCOLANA', 'UD', 'comune', '1866-11-19', '1928-05-02', datetime('now')),
+  ('H150', 'RACCONIGI', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H151', 'RACCUJA', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H152', 'RACINES', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('H153', 'RADDA IN CHIANTI', 'SI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H154', 'RADDUSA', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H155', 'RADICENA', 'RC', 'comune', '1861-03-17', '1928-03-27', datetime('now')),
+  ('H156', 'RADICOFANI', 'SI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H157', 'RADICONDOLI', 'SI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H158', 'RAFFA', 'BS', 'comune', '1861-03-17', '1928-09-26', datetime('now')),
+  ('H159', 'RAFFADALI', 'AG', 'comune', '1892-07-18', NULL, datetime('now')),
+  ('H160', 'RAGGIOLO', 'AR', 'comune', NULL, NULL, datetime('now')),
+  ('H161', 'RAGOGNA', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H162', 'RAGOLI', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('H163', 'RAGUSA', 'RG', 'comune', '1865-12-25', NULL, datetime('now')),
+  ('H164', 'RAGUSA IBLA', 'RG', 'comune', '1865-12-25', '1927-01-13', datetime('now')),
+  ('H165', 'RUVIANO', 'BN', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('H166', 'RAIANO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H167', 'RISCONE', 'BZ', 'comune', '1920-10-16', '1928-04-05', datetime('now')),
+  ('H168', 'RAMACCA', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H169', 'RAMO DI PALO', 'RO', 'comune', '1866-11-19', '1927-07-27', datetime('now')),
+  ('H170', 'RAMPONIO', 'CO', 'comune', '1861-03-17', '1928-02-23', datetime('now')),
+  ('H171', 'RAMPONIO VERNA', 'CO', 'comune', '1928-02-23', '2017-01-01', datetime('now')),
+  ('H172', 'RANCIO DI LECCO', 'CO', 'comune', '1863-02-23', '1924-01-12', datetime('now')),
+  ('H173', 'RANCIO VALCUVIA', 'VA', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('H174', 'RANCO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H175', 'RANDAZZO', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H176', 'RANICA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H177', 'RANZANICO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H178', 'RANZIANO', 'GO', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('H179', 'RANZI PIETRA', 'SV', 'comune', '1861-03-17', '1929-01-25', datetime('now')),
+  ('H180', 'RANZO', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H181', 'RANZO', 'TN', 'comune', '1920-10-16', '1928-04-19', datetime('now')),
+  ('H182', 'RAPAGNANO', 'FM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H183', 'RAPALLO', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H184', 'RAPINO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H185', 'RAPOLANO TERME', 'SI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H186', 'RAPOLLA', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H187', 'RAPONE', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H188', 'RASSA', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H189', 'RASUN-ANTERSELVA', 'BZ', 'comune', '1955-03-02', NULL, datetime('now')),
+  ('H190', 'RASUN DI SOPRA', 'BZ', 'comune', '1920-10-16', '1928-10-18', datetime('now')),
+  ('H191', 'RASUN DI SOTTO', 'BZ', 'comune', '1920-10-16', '1928-10-18', datetime('now')),
+  ('H192', 'RASURA', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H193', 'RETACEVO IN MONTE', 'FU', 'comune', '1921-01-05', '1924-10-31', datetime('now')),
+  ('H194', 'RAVANUSA', 'AG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H195', 'RAVARINO', 'MO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H196', 'RAVASCLETTO', 'UD', 'comune', '1867-11-25', NULL, datetime('now')),
+  ('H197', 'RAVELLINO', 'CO', 'comune', '1864-01-29', '1928-02-06', datetime('now')),
+  ('H198', 'RAVELLO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H199', 'RAVENNA', 'RA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H200', 'RAVEO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H201', 'RAVINA', 'TN', 'comune', '1920-10-16', '1926-10-01', datetime('now')),
+  ('H202', 'RAVISCANINA', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H203', 'RE', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H204', 'REA', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H205', 'REALMONTE', 'AG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H206', 'REANA DEL ROJALE', 'UD', 'comune', '1892-06-06', NULL, datetime('now')),
+  ('H207', 'REANO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H208', 'REBBIO', 'CO', 'comune', '1861-03-17', '1937-05-18', datetime('now')),
+  ('H209', 'REBECCU', 'SS', 'comune', NULL, NULL, datetime('now')),
+  ('H210', 'RECALE', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H211', 'RECANATI', 'MC', 'comune', '1893-01-30', NULL, datetime('now')),
+  ('H212', 'RECCO', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H213', 'RECETTO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H214', 'RECOARO TERME', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H215', 'RECORFANO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('H216', 'REDAVALLE', 'PV', 'comune', '1866-07-02', NULL, datetime('now')),
+  ('H217', 'REDONA', 'BG', 'comune', '1861-03-17', '1927-03-12', datetime('now')),
+  ('H218', 'REDONDESCO', 'MN', 'comune', '1868-07-01', NULL, datetime('now')),
+  ('H219', 'REFRANCORE', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H220', 'REFRONTOLO', 'TV', 'comune', '1889-08-16', NULL, datetime('now')),
+  ('H221', 'REGALBUTO', 'EN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H222', 'REGGELLO', 'FI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H223', 'REGGIO NELL''EMILIA', 'RE', 'comune', '1862-10-20', NULL, datetime('now')),
+  ('H224', 'REGGIO DI CALABRIA', 'RC', 'comune', '1865-12-25', NULL, datetime('now')),
+  ('H225', 'REGGIOLO', 'RE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H226', 'REGINA FITTAREZZA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('H227', 'REINO', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H228', 'REITANO', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H229', 'REMANZACCO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H230', 'REMEDELLO', 'BS', 'comune', '1928-01-22', NULL, datetime('now')),
+  ('H231', 'REMEDELLO SOPRA', 'BS', 'comune', '1861-03-17', '1928-01-22', datetime('now')),
+  ('H232', 'REMEDELLO SOTTO', 'BS', 'comune', '1861-03-17', '1928-01-22', datetime('now')),
+  ('H233', 'RENATE', 'MB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H234', 'RENATE VEDUGGIO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('H235', 'RENDE', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H236', 'RENON', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('H237', 'RUPINGRANDE', 'TS', 'comune', NULL, NULL, datetime('now')),
+  ('H238', 'RESANA', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H239', 'RESCALDA', 'MI', 'comune', '1861-03-17', '1869-03-10', datetime('now')),
+  ('H240', 'RESCALDINA', 'MI', 'comune', '1869-03-11', NULL, datetime('now')),
+  ('H241', 'RESIA', 'BZ', 'comune', '1920-10-16', '1928-06-16', datetime('now')),
+  ('H242', 'RESIA', 'UD', 'comune', '1867-09-02', NULL, datetime('now')),
+  ('H243', 'ERCOLANO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H244', 'RESIUTTA', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H245', 'RESUTTANO', 'CL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H246', 'RETORBIDO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H247', 'REVELLO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H248', 'REVERE', 'MN', 'comune', '1866-11-19', '2018-01-01', datetime('now')),
+  ('H249', 'REVIANO FOLAS', 'TN', 'comune', '1920-10-16', '1929-02-14', datetime('now')),
+  ('H250', 'REVIGLIASCO D''ASTI', 'AT', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('H251', 'REVIGLIASCO TORINESE', 'TO', 'comune', '1863-01-05', '1928-12-30', datetime('now')),
+  ('H252', 'REVINE', 'TV', 'comune', NULL, NULL, datetime('now')),
+  ('H253', 'REVINE LAGO', 'TV', 'comune', '1868-07-28', NULL, datetime('now')),
+  ('H254', 'REVÒ', 'TN', 'comune', '1920-10-16', '2020-01-01', datetime('now')),
+  ('H255', 'REZZAGO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H256', 'REZZATO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H257', 'REZZO', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H258', 'REZZOAGLIO', 'GE', 'comune', '1918-05-13', NULL, datetime('now')),
+  ('H259', 'VAL REZZO', 'CO', 'comune', '1928-06-30', NULL, datetime('now')),
+  ('H260', 'REZZONICO', 'CO', 'comune', '1861-03-17', '1928-08-12', datetime('now')),
+  ('H261', 'RHEMES', 'AO', 'comune', '1928-05-12', '1946-03-10', datetime('now')),
+  ('H262', 'RHÊMES-NOTRE-DAME', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H263', 'RHÊMES-SAINT-GEORGES', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H264', 'RHO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H265', 'RIACE', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H266', 'RIALTO', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H267', 'RIANO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('H268', 'RIARDO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H269', 'RIBERA', 'AG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H270', 'RIBORDONE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H271', 'RICADI', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H272', 'RICALDONE', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H273', 'RICCIA', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H274', 'RICCIONE', 'RN', 'comune', '1922-12-02', NULL, datetime('now')),
+  ('H275', 'RICCÃ² DEL GOLFO DI SPEZIA', 'SP', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('H276', 'RICENGO', 'CR', 'comune', '1869-05-17', NULL, datetime('now')),
+  ('H277', 'RICIGLIANO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H278', 'RICLARETTO', 'TO', 'comune', '1861-03-17', '1928-05-01', datetime('now')),
+  ('H279', 'RIDANNA', 'BZ', 'comune', '1920-10-16', '1928-04-13', datetime('now')),
+  ('H280', 'RIESE PIO X', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H281', 'RIESI', 'CL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H282', 'RIETI', 'RI', 'comune', '1875-03-05', NULL, datetime('now')),
+  ('H283', 'RIFEMBERGO', 'GO', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('H284', 'RIFIANO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('H285', 'RIFREDDO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H286', 'RIGNANO SULL''ARNO', 'FI', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('H287', 'RIGNANO GARGANICO', 'FG', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('H288', 'RIGNANO FLAMINIO', 'RM', 'comune', '1873-02-17', NULL, datetime('now')),
+  ('H289', 'RIGOLATO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H290', 'RIGOSA', 'BG', 'comune', '1861-03-17', '1927-11-21', datetime('now')),
+  ('H291', 'RIMA SAN GIUSEPPE', 'VC', 'comune', '1861-03-17', '2018-01-01', datetime('now')),
+  ('H292', 'RIMASCO', 'VC', 'comune', '1861-03-17', '2018-01-01', datetime('now')),
+  ('H293', 'RIMELLA', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H294', 'RIMINI', 'RN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H295', 'RINA', 'BZ', 'comune', '1920-10-16', '1929-02-15', datetime('now')),
+  ('H296', 'RINCO', 'AL', 'comune', '1861-03-17', '1928-12-01', datetime('now')),
+  ('H297', 'RIO NELL''ELBA', 'LI', 'comune', '1882-06-05', '2018-01-01', datetime('now')),
+  ('H298', 'RIO SALICETO', 'RE', 'comune', '1864-03-11', NULL, datetime('now')),
+  ('H299', 'RIO DI PUSTERIA', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('H300', 'RIOFREDDO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('H301', 'RIOLA SARDO', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('H302', 'RIOLO TERME', 'RA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H303', 'RIOLUNATO', 'MO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H304', 'RIOMAGGIORE', 'SP', 'comune', '1871-06-01', NULL, datetime('now')),
+  ('H305', 'RIO MARINA', 'LI', 'comune', '1882-06-05', '2018-01-01', datetime('now')),
+  ('H306', 'RIOMOLINO', 'BZ', 'comune', '1920-10-16', '1928-05-30', datetime('now')),
+  ('H307', 'RIONERO IN VULTURE', 'PZ', 'comune', '1884-08-23', NULL, datetime('now')),
+  ('H308', 'RIONERO SANNITICO', 'IS', 'comune', '1864-03-11', NULL, datetime('now')),
+  ('H309', 'RIOZZO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('H310', 'RIPABERARDA', 'AP', 'comune', NULL, NULL, datetime('now')),
+  ('H311', 'RIPABOTTONI', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H312', 'RIPACANDIDA', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H313', 'RIPALIMOSANI', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H314', 'RIPALTA ARPINA', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H315', 'RIPALTA CREMASCA', 'CR', 'comune', '1928-05-29', NULL, datetime('now')),
+  ('H316', 'RIPALTA GUERINA', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H317', 'RIPALTA NUOVA', 'CR', 'comune', '1875-04-01', '1928-05-30', datetime('now')),
+  ('H318', 'RIPALTA VECCHIA', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('H319', 'RIPARBELLA', 'PI', 'comune', '1892-06-20', NULL, datetime('now')),
+  ('H320', 'RIPA TEATINA', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H321', 'RIPATRANSONE', 'AP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H322', 'RIPE', 'AN', 'comune', '1861-03-17', '2014-01-01', datetime('now')),
+  ('H323', 'RIPE SAN GINESIO', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H324', 'RIPI', 'FR', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('H325', 'RIPOSTO', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H326', 'RITTANA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H327', 'RIVAMONTE AGORDINO', 'BL', 'comune', '1867-05-18', NULL, datetime('now')),
+  ('H328', 'RIVA LIGURE', 'IM', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('H329', 'RIVA VALDOBBIA', 'VC', 'comune', '1862-12-29', '2019-01-01', datetime('now')),
+  ('H330', 'RIVA DEL GARDA', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('H331', 'RIVA DI SOLTO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H332', 'RIVA DI TURES', 'BZ', 'comune', '1920-10-16', '1929-02-09', datetime('now')),
+  ('H333', 'RIVALBA', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H334', 'RIVALTA BORMIDA', 'AL', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('H335', 'RIVALTA DI TORINO', 'TO', 'comune', '1890-10-07', NULL, datetime('now')),
+  ('H336', 'RIVANAZZANO TERME', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H337', 'RIVA PRESSO CHIERI', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H338', 'RIVARA', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H339', 'RIVAROLO LIGURE', 'GE', 'comune', '1869-10-11', '1926-02-06', datetime('now')),
+  ('H340', 'RIVAROLO CANAVESE', 'TO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('H341', 'RIVAROLO DEL RE ED UNITI', 'CR', 'comune', '1915-04-16', NULL, datetime('now')),
+  ('H342', 'RIVAROLO MANTOVANO', 'MN', 'comune', '1868-07-01', NULL, datetime('now')),
+  ('H343', 'RIVARONE', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H344', 'RIVAROSSA', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H345', 'RIVA SANTO STEFANO', 'IM', 'comune', '1928-03-07', '1954-09-19', datetime('now')),
+  ('H346', 'RIVE', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H347', 'RIVE D''ARCANO', 'UD', 'comune', '1872-01-01', NULL, datetime('now')),
+  ('H348', 'RIVELLO', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H349', 'RIVERA', 'TO', 'comune', '1861-03-17', '1928-03-06', datetime('now')),
+  ('H350', 'RIVERGARO', 'PC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H351', 'RIVIERA D''ADDA', 'BG', 'comune', '1928-04-03', '1970-03-18', datetime('now')),
+  ('H352', 'RIVIGNANO', 'UD', 'comune', '1866-11-19', '2014-01-01', datetime('now')),
+  ('H353', 'RIVISONDOLI', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H354', 'RIVODUTRI', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H355', 'RIVOLI', 'TO', 'comune', '1871-08-01', NULL, datetime('now')),
+  ('H356', 'RIVOLI VERONESE', 'VR', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('H357', 'RIVOLTA D''ADDA', 'CR', 'comune', '1863-08-10', NULL, datetime('now')),
+  ('H358', 'RIVOLTELLA', 'BS', 'comune', '1861-03-17', '1926-09-17', datetime('now')),
+  ('H359', 'RIZZICONI', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H360', 'RO', 'FE', 'comune', '1909-01-23', '2019-01-01', datetime('now')),
+  ('H361', 'ROANA', 'VI', 'comune', '1869-05-11', NULL, datetime('now')),
+  ('H362', 'ROASCHIA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H363', 'ROASCIO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H364', 'ROVASENDA', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H365', 'ROASIO', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H366', 'ROATTO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H367', 'ROBASSOMERO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H368', 'ROBBIANO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('H369', 'ROBBIO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H370', 'ROBECCHETTO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('H371', 'ROBECCHETTO CON INDUNO', 'MI', 'comune', '1870-08-02', NULL, datetime('now')),
+  ('H372', 'ROBECCO D''OGLIO', 'CR', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('H373', 'ROBECCO SUL NAVIGLIO', 'MI', 'comune', '1870-08-02', NULL, datetime('now')),
+  ('H374', 'ROBECCO LODIGIANO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('H375', 'ROBECCO PAVESE', 'PV', 'comune', '1877-03-09', NULL, datetime('now')),
+  ('H376', 'ROBELLA', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H377', 'ROBILANTE', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H378', 'ROBURENT', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H379', 'ROCCA PIETORE', 'BL', 'comune', '1877-12-21', NULL, datetime('now')),
+  ('H380', 'ROCCAVALDINA', 'ME', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('H381', 'ROCCA PIETRA', 'VC', 'comune', '1862-12-29', '1929-03-02', datetime('now')),
+  ('H382', 'ROCCABASCERANA', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H383', 'ROCCABERNARDA', 'KR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H384', 'ROCCABIANCA', 'PR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H385', 'ROCCABRUNA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H386', 'ROCCA CANAVESE', 'TO', 'comune', '1884-05-02', NULL, datetime('now')),
+  ('H387', 'ROCCA CANTERANO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('H388', 'ROCCACARAMANICO', 'PE', 'comune', '1861-03-17', '1929-03-24', datetime('now')),
+  ('H389', 'ROCCACASALE', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H390', 'ROCCAFLUVIONE', 'AP', 'comune', '1882-03-17', NULL, datetime('now')),
+  ('H391', 'ROCCA CIGLIÈ', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H392', 'ROCCA D''ARAZZO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H393', 'ROCCA D''ARCE', 'FR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H394', 'ROCCADASPIDE', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H395', 'ROCCA DE'' BALDI', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H396', 'ROCCA DE'' GIORGI', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H397', 'ROCCA DEL COLLE', 'BG', 'comune', '1927-11-13', '1956-05-21', datetime('now')),
+  ('H398', 'ROCCA D''EVANDRO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H399', 'ROCCA DI BOTTE', 'AQ', 'comune', '1908-01-22', NULL, datetime('now')),
+  ('H400', 'ROCCA DI CAMBIO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H401', 'ROCCA DI CAVE', 'RM', 'comune', '1909-07-22', NULL, datetime('now')),
+  ('H402', 'ROCCA DI MEZZO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H403', 'ROCCA DI NETO', 'KR', 'comune', '1863-05-06', NULL, datetime('now')),
+  ('H404', 'ROCCA DI PAPA', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('H405', 'ROCCAFIORITA', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H406', 'ROCCAFORTE LIGURE', 'AL', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('H407', 'ROCCAFORTE MONDOVÌ', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('H408', 'ROCCAFORTE DEL GRECO', 'RC', 'comune', '1864-06-23', NULL, datetime('now')),
+  ('H409', 'ROCCAFORZATA', 'TA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H410', 'ROCCAFRANCA', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H411', 'ROCCAGIOVINE', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('H412', 'ROCCAGLORIOSA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H413', 'ROCCAGORGA', 'LT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('H414', 'ROCCA GRIMALDA', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H415', 'ROCCAGUGLIELMA', 'CE', 'comune', '1861-03-17', '1868-01-01', datetime('now')),
+  ('H416', 'ROCCA IMPERIALE', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H417', 'ROCCALBEGNA', 'GR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H418', 'ROCCALUMERA', 'ME', 'comune', '1880-04-26', NULL, datetime('now')),
+  ('H419', 'ROCCALVECCE', 'VT', 'comune', '1871-01-15', '1928-05-20', datetime('now')),
+  ('H420', 'ROCCAMANDOLFI', 'IS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H421', 'ROCCA MASSIMA', 'LT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('H422', 'ROCCAMENA', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H423', 'ROCCAMONFINA', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H424', 'ROCCAMONTEPIANO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H425', 'ROCCAMORICE', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H426', 'ROCCANOVA', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H427', 'ROCCANTICA', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H428', 'ROCCAPALUMBA', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H429', 'ROCCA PIA', 'AQ', 'comune', '1865-12-25', NULL, datetime('now')),
+  ('H430', 'ROCCAPIATTA', 'TO', 'comune', '1861-03-17', '1928-05-31', datetime('now')),
+  ('H431', 'ROCCAPIEMONTE', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H432', 'ROCCA PRIORA', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('H433', 'ROCCARAINOLA', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H434', 'ROCCARASO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H435', 'ROCCAREONILE', 'AP', 'comune', NULL, NULL, datetime('now')),
+  ('H436', 'ROCCAROMANA', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H437', 'ROCCA SAN CASCIANO', 'FC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H438', 'ROCCA SAN FELICE', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H439', 'ROCCA SAN GIOVANNI', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H440', 'ROCCA SANTA MARIA', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H441', 'ROCCA SANTO STEFANO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('H442', 'ROCCASCALEGNA', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H443', 'ROCCASECCA', 'FR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H444', 'ROCCASECCA DEI VOLSCI', 'LT', 'comune', '1872-10-18', NULL, datetime('now')),
+  ('H445', 'ROCCASICURA', 'IS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H446', 'ROCCA SINIBALDA', 'RI', 'comune', '1876-02-25', NULL, datetime('now')),
+  ('H447', 'ROCCASPARVERA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H448', 'ROCCASPINALVETI', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H449', 'ROCCASTRADA', 'GR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H450', 'ROCCA SUSELLA', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H451', 'ROCCAVERANO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H452', 'ROCCAVIGNALE', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H453', 'ROCCAVIONE', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H454', 'ROCCAVIVARA', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H455', 'ROCCELLA VALDEMONE', 'ME', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('H456', 'ROCCELLA IONICA', 'RC', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('H457', 'ROCHEMOLLES', 'TO', 'comune', '1861-03-17', '1927-07-27', datetime('now')),
+  ('H458', 'ROCCHETTA A VOLTURNO', 'IS', 'comune', '1884-04-18', NULL, datetime('now')),
+  ('H459', 'ROCCHETTA E CROCE', 'NA', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('H460', 'ROCCHETTA NERVINA', 'IM', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('H461', 'ROCCHETTA DI VARA', 'SP', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('H462', 'ROCCHETTA BELBO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H463', 'ROCCHETTA CAIRO', 'GE', 'comune', NULL, NULL, datetime('now')),
+  ('H464', 'ROCCHETTA CENGIO', 'SV', 'comune', '1861-03-17', '1928-07-18', datetime('now')),
+  ('H465', 'ROCCHETTA LIGURE', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H466', 'ROCCHETTA PALAFEA', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H467', 'ROCCHETTA SANT''ANTONIO', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H468', 'ROCCHETTA TANARO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H469', 'ROCCHETTE IN SABINA', 'PG', 'comune', NULL, NULL, datetime('now')),
+  ('H470', 'RODANO', 'MI', 'comune', '1869-07-06', NULL, datetime('now')),
+  ('H471', 'RODDA', 'UD', 'comune', '1866-11-19', '1929-01-25', datetime('now')),
+  ('H472', 'RODDI', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H473', 'RODDINO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H474', 'RODELLO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H475', 'RODENGO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('H476', 'RODENGO', 'BS', 'comune', '1869-06-07', '1927-11-24', datetime('now')),
+  ('H477', 'RODENGO SAIANO', 'BS', 'comune', '1927-11-24', NULL, datetime('now')),
+  ('H478', 'RODERO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H479', 'RODÌ MILICI', 'ME', 'comune', '1923-11-28', NULL, datetime('now')),
+  ('H480', 'RODI GARGANICO', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H481', 'RODIGO', 'MN', 'comune', '1868-07-01', NULL, datetime('now')),
+  ('H482', 'RODITTI', 'TS', 'comune', '1921-01-05', '1927-01-13', datetime('now')),
+  ('H483', 'RODORETTO', 'TO', 'comune', NULL, NULL, datetime('now')),
+  ('H484', 'ROÈ VOLCIANO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H485', 'ROFRANO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H486', 'ROGENO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H487', 'ROGGIANO VALTRAVAGLIA', 'VA', 'comune', '1864-03-11', '1928-01-07', datetime('now')),
+  ('H488', 'ROGGIANO GRAVINA', 'CS', 'comune', '1864-06-23', NULL, datetime('now')),
+  ('H489', 'ROGHUDI', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H490', 'ROGLIANO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H491', 'ROGNANO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H492', 'ROGNO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H493', 'ROGOLO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H494', 'ROIATE', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('H495', 'ROIO DEL SANGRO', 'CH', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('H496', 'ROIO PIANO', 'AQ', 'comune', '1863-05-06', '1927-09-21', datetime('now')),
+  ('H497', 'ROISAN', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H498', 'ROLETTO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H499', 'ROLLIERES', 'TO', 'comune', NULL, NULL, datetime('now')),
+  ('H500', 'ROLO', 'RE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H501', 'ROMA', 'RM', 'comune', '1884-09-11', NULL, datetime('now')),
+  ('H502', 'ROMAGNANO SESIA', 'NO', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('H503', 'ROMAGNANO AL MONTE', 'SA', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('H504', 'ROMAGNANO', 'TN', 'comune', '1920-10-16', '1926-10-01', datetime('now')),
+  ('H505', 'ROMAGNESE', 'PC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H506', 'ROMALLO', 'TN', 'comune', '1920-10-16', '2020-01-01', datetime('now')),
+  ('H507', 'ROMANA', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H508', 'ROMANENGO', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H509', 'ROMANO DI LOMBARDIA', 'BG', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('H510', 'ROMANÒ BRIANZA', 'CO', 'comune', '1862-12-29', '1929-05-16', datetime('now')),
+  ('H511', 'ROMANO CANAVESE', 'AO', 'comune', '1863-01-05', NULL, datetime('now'));
+
+INSERT INTO belfioreCodes (code, name, province, kind, validFrom, validTo, updatedAt) VALUES
+  ('H512', 'ROMANO D''EZZELINO', 'VI', 'comune', '1868-02-14', NULL, datetime('now')),
+  ('H513', 'ROMANS', 'GO', 'comune', '1921-01-05', '1928-05-02', datetime('now')),
+  ('H514', 'ROMANS D''ISONZO', 'GO', 'comune', '1928-05-02', NULL, datetime('now')),
+  ('H515', 'ROMARZOLO', 'TN', 'comune', '1920-10-16', '1929-02-14', datetime('now')),
+  ('H516', 'ROMBIOLO', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H517', 'ROMENO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('H518', 'ROMENTINO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H519', 'ROMETTA', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H520', 'ROMPREZZAGNO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('H521', 'RONAGO', 'CO', 'comune', '1861-03-17', '2024-01-01', datetime('now')),
+  ('H522', 'RONCÀ', 'VR', 'comune', '1880-01-16', NULL, datetime('now')),
+  ('H523', 'RONCADE', 'TV', 'comune', '1877-02-15', NULL, datetime('now')),
+  ('H524', 'RONCA DE'' GOLFERANI', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('H525', 'RONCADELLE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H526', 'RONCADELLO D''ADDA', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('H527', 'RONCARO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H528', 'RONCEGNO TERME', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('H529', 'RONCELLO', 'MB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H530', 'RONCHETTO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('H531', 'RONCHI DEI LEGIONARI', 'GO', 'comune', '1921-01-05', NULL, datetime('now')),
+  ('H532', 'RONCHI VALSUGANA', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('H533', 'RONCHIS', 'UD', 'comune', '1867-09-02', NULL, datetime('now')),
+  ('H534', 'RONCIGLIONE', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('H535', 'RONCOBELLO', 'BG', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('H536', 'RONCO SCRIVIA', 'GE', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('H537', 'RONCO BRIANTINO', 'MB', 'comune', '1909-07-04', NULL, datetime('now')),
+  ('H538', 'RONCO BIELLESE', 'BI', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('H539', 'RONCO CANAVESE', 'AO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('H540', 'RONCO ALL''ADIGE', 'VR', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('H541', 'RONCOFERRARO', 'MN', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H542', 'RONCOFREDDO', 'FC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H543', 'RONCOGNO', 'TN', 'comune', '1920-10-16', '1929-01-25', datetime('now')),
+  ('H544', 'RONCOLA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H545', 'RONCONE', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('H546', 'RONDANINA', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H547', 'RONDISSONE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H548', 'RONGIO', 'CO', 'comune', '1861-03-17', '1927-07-09', datetime('now')),
+  ('H549', 'RONSECCO', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H550', 'RONZINA', 'GO', 'comune', '1921-01-05', '1928-03-13', datetime('now')),
+  ('H551', 'RONZO', 'TN', 'comune', '1920-10-16', '1924-01-15', datetime('now')),
+  ('H552', 'RONZONE', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('H553', 'ROPPOLO', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H554', 'RORÀ', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H555', 'ROURE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H556', 'ROSÀ', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H557', 'ROSALÌ', 'RC', 'comune', '1861-03-17', '1927-08-03', datetime('now')),
+  ('H558', 'ROSARNO', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H559', 'ROSASCO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H560', 'ROSATE', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H561', 'ROSAZZA', 'BI', 'comune', '1906-08-26', NULL, datetime('now')),
+  ('H562', 'ROSCIANO', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H563', 'ROSCIATE', 'BG', 'comune', '1861-03-17', '1927-08-19', datetime('now')),
+  ('H564', 'ROSCIGNO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H565', 'ROSE', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H566', 'ROSELLO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H567', 'ROSERIO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('H568', 'ROSETO VALFORTORE', 'FG', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('H569', 'ROSIGNANO MONFERRATO', 'AL', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('H570', 'ROSIGNANO MARITTIMO', 'LI', 'comune', '1862-10-20', NULL, datetime('now')),
+  ('H571', 'ROSINGO', 'AL', 'comune', '1861-03-17', '1928-08-14', datetime('now')),
+  ('H572', 'ROSETO CAPO SPULICO', 'CS', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('H573', 'ROSOLINA', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H574', 'ROSOLINI', 'SR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H575', 'ROSORA', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H576', 'ROSORA MERGO', 'AN', 'comune', '1928-07-28', '1946-03-09', datetime('now')),
+  ('H577', 'ROSSA', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H578', 'ROSSANA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H579', 'ROSSANO', 'CS', 'comune', '1861-03-17', '2018-03-31', datetime('now')),
+  ('H580', 'ROSSANO VENETO', 'VI', 'comune', '1867-09-02', NULL, datetime('now')),
+  ('H581', 'ROSSIGLIONE', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H582', 'ROSSINO', 'BG', 'comune', '1861-03-17', '1928-12-14', datetime('now')),
+  ('H583', 'ROSTA', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H584', 'ROTA D''IMAGNA', 'BG', 'comune', '1927-06-02', NULL, datetime('now')),
+  ('H585', 'ROTA GRECA', 'CS', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('H586', 'ROTA DENTRO', 'BG', 'comune', '1861-03-17', '1927-06-03', datetime('now')),
+  ('H587', 'ROTA FUORI', 'BG', 'comune', '1861-03-17', '1927-06-03', datetime('now')),
+  ('H588', 'ROTELLA', 'AP', 'comune', '1869-04-26', NULL, datetime('now')),
+  ('H589', 'ROTELLO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H590', 'ROTONDA', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H591', 'ROTONDELLA', 'MT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H592', 'ROTONDI', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H593', 'ROTTOFRENO', 'PC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H594', 'ROTZO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H595', 'ROVAGNASCO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('H596', 'ROVAGNATE', 'LC', 'comune', '1861-03-17', '2015-01-30', datetime('now')),
+  ('H597', 'ROVATE', 'VA', 'comune', '1861-03-17', '1928-06-15', datetime('now')),
+  ('H598', 'ROVATO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H599', 'ROVEGNO', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H600', 'ROVEGRO', 'NO', 'comune', '1861-03-17', '1928-10-29', datetime('now')),
+  ('H601', 'ROVELLASCA', 'CO', 'comune', '1882-01-09', NULL, datetime('now')),
+  ('H602', 'ROVELLO PORRO', 'CO', 'comune', '1877-06-30', NULL, datetime('now')),
+  ('H603', 'ROVENNA', 'CO', 'comune', '1861-03-17', '1929-05-03', datetime('now')),
+  ('H604', 'ROVERBELLA', 'MN', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H605', 'ROVER CARBONARE', 'TN', 'comune', '1920-10-16', '1925-09-26', datetime('now')),
+  ('H606', 'ROVERCHIARA', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H607', 'ROVERÃ¨ DELLA LUNA', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('H608', 'ROVERÈ VERONESE', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H609', 'ROVEREDO IN PIANO', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('H610', 'ROVEREDO DI GUÀ', 'VR', 'comune', '1879-04-11', NULL, datetime('now')),
+  ('H611', 'ROVERETO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('H612', 'ROVERETO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('H613', 'ROVERSANO', 'FO', 'comune', '1861-03-17', '1925-11-08', datetime('now')),
+  ('H614', 'ROVESCALA', 'PV', 'comune', '1878-06-14', NULL, datetime('now')),
+  ('H615', 'ROVETTA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H616', 'ROVETTA CON FINO', 'BG', 'comune', '1929-05-14', '1947-05-23', datetime('now')),
+  ('H617', 'ROVEZZANO', 'FI', 'comune', NULL, NULL, datetime('now')),
+  ('H618', 'ROVIANO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('H619', 'ROVIGNO D''ISTRIA', 'PL', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('H620', 'ROVIGO', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H621', 'ROVITO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H622', 'ROVOLON', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H623', 'ROZZANO', 'MI', 'comune', '1870-10-01', NULL, datetime('now')),
+  ('H624', 'ROZZO', 'PL', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('H625', 'RUBANO', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H626', 'RUBBIANO', 'CR', 'comune', '1861-03-17', '1928-07-29', datetime('now')),
+  ('H627', 'RUBIANA', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H628', 'RUBIERA', 'RE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H629', 'RUDA', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H630', 'RUDIANO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H631', 'RUEGLIO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H632', 'RUFFANO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H633', 'RUFFIA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H634', 'RUFFRÈ-MENDOLA', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('H635', 'RUFINA', 'FI', 'comune', '1915-12-17', NULL, datetime('now')),
+  ('H636', 'RUGINELLO', 'MI', 'comune', '1861-03-17', '1929-05-29', datetime('now')),
+  ('H637', 'RUINO', 'PC', 'comune', '1861-03-17', '2019-01-01', datetime('now')),
+  ('H638', 'RUMIANCA', 'NO', 'comune', '1861-03-17', '1928-07-30', datetime('now')),
+  ('H639', 'RUMO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('H640', 'RUNO', 'VA', 'comune', '1861-03-17', '1928-05-22', datetime('now')),
+  ('H641', 'RUOTI', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H642', 'RUSSI', 'RA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H643', 'RUTIGLIANO', 'BA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H644', 'RUTINO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H645', 'RUVO DI PUGLIA', 'BA', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('H646', 'RUVO DEL MONTE', 'PZ', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('H647', 'SABAUDIA', 'LT', 'comune', '1933-09-13', NULL, datetime('now')),
+  ('H648', 'SABBIA', 'VC', 'comune', '1861-03-17', '2018-01-01', datetime('now')),
+  ('H649', 'SABBIO BERGAMASCO', 'BG', 'comune', '1864-02-02', '1927-08-20', datetime('now')),
+  ('H650', 'SABBIO CHIESE', 'BS', 'comune', '1864-01-29', NULL, datetime('now')),
+  ('H651', 'SABBIONCELLO', 'CO', 'comune', '1861-03-17', '1928-02-24', datetime('now')),
+  ('H652', 'SABBIONETA', 'MN', 'comune', '1868-07-01', NULL, datetime('now')),
+  ('H653', 'SABLE GRANDE', 'GO', 'comune', '1921-01-05', '1928-03-13', datetime('now')),
+  ('H654', 'SACCO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H655', 'SACCOLONGO', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H656', 'SACCONAGO', 'VA', 'comune', '1869-03-15', '1928-05-22', datetime('now')),
+  ('H657', 'SACILE', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('H658', 'SACROFANO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('H659', 'SADALI', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H660', 'SAGA', 'GO', 'comune', '1921-01-05', '1928-05-04', datetime('now')),
+  ('H661', 'SAGAMA', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H662', 'SAGLIANO MICCA', 'BI', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('H663', 'SAGLIANO DI CRENNA', 'PV', 'comune', '1891-06-09', '1929-05-28', datetime('now')),
+  ('H664', 'SAGORIA SAN MARTINO', 'FU', 'comune', '1921-01-05', '1927-10-22', datetime('now')),
+  ('H665', 'SAGRADO', 'GO', 'comune', '1921-01-05', NULL, datetime('now')),
+  ('H666', 'SAGRON MIS', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('H667', 'SAGUEDO', 'RO', 'comune', NULL, NULL, datetime('now')),
+  ('H668', 'SAIANO', 'BS', 'comune', '1861-03-17', '1927-11-24', datetime('now')),
+  ('H669', 'SAINT-CHRISTOPHE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H670', 'SAINT-DENIS', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H671', 'SAINT-MARCEL', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H672', 'SAINT-NICOLAS', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H673', 'SAINT-OYEN', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H674', 'SAINT-PIERRE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H675', 'SAINT-RHÉMY-EN-BOSSES', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H676', 'SAINT-VINCENT', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H677', 'SALA MONFERRATO', 'AL', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('H678', 'SALA BOLOGNESE', 'BO', 'comune', '1862-10-31', NULL, datetime('now')),
+  ('H679', 'SALA COMACINA', 'CO', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('H680', 'SALA AL BARRO', 'CO', 'comune', '1863-02-23', '1928-02-10', datetime('now')),
+  ('H681', 'SALA BIELLESE', 'BI', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('H682', 'SALA BAGANZA', 'PR', 'comune', '1869-03-11', NULL, datetime('now')),
+  ('H683', 'SALA CONSILINA', 'SA', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('H684', 'SALBERTRAND', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H685', 'SALABUE', 'AL', 'comune', '1861-03-17', '1928-07-29', datetime('now')),
+  ('H686', 'SALENTO', 'SA', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('H687', 'SALANDRA', 'MT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H688', 'SALAPARUTA', 'TP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H689', 'SALARA', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H690', 'SALASCO', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H691', 'SALASSA', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H692', 'SALCANO', 'GO', 'comune', '1921-01-05', '1927-01-13', datetime('now')),
+  ('H693', 'SALCITO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H694', 'SALE', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H695', 'SALE DELLE LANGHE', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('H696', 'SALE CANISCHIO', 'TO', 'comune', NULL, NULL, datetime('now')),
+  ('H697', 'SALE CASTELNUOVO', 'AO', 'comune', '1861-03-17', '1928-12-20', datetime('now')),
+  ('H698', 'SALECCHIO', 'NO', 'comune', '1861-03-17', '1928-10-17', datetime('now')),
+  ('H699', 'SALE MARASINO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H700', 'SALEMI', 'TP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H701', 'SALERANO SUL LAMBRO', 'LO', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('H702', 'SALERANO CANAVESE', 'AO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('H703', 'SALERNO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H704', 'SALE SAN GIOVANNI', 'CN', 'comune', '1948-04-28', NULL, datetime('now')),
+  ('H705', 'SALETTO', 'PD', 'comune', '1866-11-19', '2018-02-17', datetime('now')),
+  ('H706', 'SALGAREDA', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H707', 'SALI VERCELLESE', 'VC', 'comune', '1864-01-29', NULL, datetime('now')),
+  ('H708', 'SALICE SALENTINO', 'BR', 'comune', '1864-04-01', NULL, datetime('now')),
+  ('H709', 'SALICE CALABRO', 'RC', 'comune', '1864-06-23', '1927-08-03', datetime('now')),
+  ('H710', 'SALICETO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H711', 'SALINA', 'ME', 'comune', '1867-03-15', '1910-01-11', datetime('now')),
+  ('H712', 'SAN MAURO DI SALINE', 'VR', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('H713', 'SALISANO', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H714', 'SALIZZOLE', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H715', 'SALLE', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H716', 'SALMOUR', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H717', 'SALÒ', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H718', 'SALONA D''ISONZO', 'GO', 'comune', '1928-05-12', '1947-09-16', datetime('now')),
+  ('H719', 'SALORNO SULLA STRADA DEL VINO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('H720', 'SALSOMAGGIORE TERME', 'PR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H721', 'SALTARA', 'PU', 'comune', '1861-03-17', '2017-01-01', datetime('now')),
+  ('H722', 'SALTO', 'AO', 'comune', '1861-03-17', '1928-09-26', datetime('now')),
+  ('H723', 'SALTRIO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H724', 'SALUDECIO', 'RN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H725', 'SALUGGIA', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H726', 'SALUSSOLA', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H727', 'SALUZZO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H728', 'SALVATERRA', 'RO', 'comune', '1866-11-19', '1928-04-07', datetime('now')),
+  ('H729', 'SALVE', 'LE', 'comune', '1894-04-20', NULL, datetime('now')),
+  ('H730', 'SAVOIA DI LUCANIA', 'PZ', 'comune', '1879-07-18', NULL, datetime('now')),
+  ('H731', 'SALVIROLA', 'CR', 'comune', '1868-08-01', NULL, datetime('now')),
+  ('H732', 'SALVITELLE', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H733', 'SALZA IRPINA', 'AV', 'comune', '1862-10-24', NULL, datetime('now')),
+  ('H734', 'SALZA DI PINEROLO', 'TO', 'comune', '1892-04-29', NULL, datetime('now')),
+  ('H735', 'SALZANO', 'VE', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H736', 'SAMARATE', 'VA', 'comune', '1869-03-22', NULL, datetime('now')),
+  ('H737', 'SAMARIA', 'GO', 'comune', '1921-01-05', '1928-01-26', datetime('now')),
+  ('H738', 'SAMASSI', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H739', 'SAMATZAI', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H740', 'SAMBASSO', 'GO', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('H741', 'SAMBATELLO', 'RC', 'comune', '1861-03-17', '1927-08-03', datetime('now')),
+  ('H742', 'SAMBIASE', 'CZ', 'comune', '1861-03-17', '1968-11-28', datetime('now')),
+  ('H743', 'SAMBUCA DI SICILIA', 'AG', 'comune', '1864-01-16', NULL, datetime('now')),
+  ('H744', 'SAMBUCA PISTOIESE', 'PT', 'comune', '1864-04-01', NULL, datetime('now')),
+  ('H745', 'SAMBUCI', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('H746', 'SAMBUCO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H747', 'SAMBUCO PIETRAPORZIO', 'CN', 'comune', '1928-07-29', '1947-01-11', datetime('now')),
+  ('H748', 'SAMBUGHETTO', 'NO', 'comune', '1861-03-17', '1928-01-27', datetime('now')),
+  ('H749', 'SAMMICHELE DI BARI', 'BA', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('H750', 'SAMOCLEVO', 'TN', 'comune', '1920-10-16', '1929-01-01', datetime('now')),
+  ('H751', 'SAMO DI CALABRIA', 'RC', 'comune', '1928-07-28', '1946-03-10', datetime('now')),
+  ('H752', 'SAMOLACO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H753', 'SAMONE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H754', 'SAMONE', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('H755', 'SAMPEYRE', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H756', 'SAMUGHEO', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('H757', 'SANARICA', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H758', 'SAN BARBATO', 'AV', 'comune', NULL, NULL, datetime('now')),
+  ('H759', 'SAN BARTOLOMEO', 'BS', 'comune', NULL, NULL, datetime('now')),
+  ('H760', 'SAN BARTOLOMEO VAL CAVARGNA', 'CO', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('H761', 'SAN BARTOLOMEO AL BOSCO', 'CO', 'comune', NULL, NULL, datetime('now')),
+  ('H762', 'SAN BARTOLOMEO VALMARA', 'NO', 'comune', '1864-03-11', '1928-02-10', datetime('now')),
+  ('H763', 'SAN BARTOLOMEO AL MARE', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H764', 'SAN BARTOLOMEO IN GALDO', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H765', 'SAN BASILE', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H766', 'SAN BASILIO', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H767', 'SAN BASSANO', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H768', 'SAN BELLINO', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H769', 'SAN BENEDETTO DEL TRONTO', 'AP', 'comune', '1862-11-24', NULL, datetime('now')),
+  ('H770', 'SAN BENEDETTO BELBO', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('H771', 'SAN BENEDETTO PO', 'MN', 'comune', '1867-06-24', NULL, datetime('now')),
+  ('H772', 'SAN BENEDETTO DEI MARSI', 'AQ', 'comune', '1945-10-25', NULL, datetime('now')),
+  ('H773', 'SAN BENEDETTO IN PERILLIS', 'AQ', 'comune', '1947-01-25', NULL, datetime('now')),
+  ('H774', 'SAN BENEDETTO ULLANO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H775', 'SAN BENIGNO CANAVESE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H776', 'SAN BERNARDINO', 'CR', 'comune', '1875-04-01', '1928-05-29', datetime('now')),
+  ('H777', 'SAN BERNARDINO VERBANO', 'VB', 'comune', '1928-10-28', NULL, datetime('now')),
+  ('H778', 'SAN BIAGIO PLATANI', 'AG', 'comune', '1864-06-23', NULL, datetime('now')),
+  ('H779', 'SAN BIAGIO SARACINISCO', 'FR', 'comune', '1864-11-07', NULL, datetime('now')),
+  ('H780', 'SAN BIAGIO DELLA CIMA', 'IM', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('H781', 'SAN BIAGIO DI CALLALTA', 'TV', 'comune', '1877-02-15', NULL, datetime('now')),
+  ('H782', 'SAN BIASE', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H783', 'SAN BONIFACIO', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H784', 'SAN BUONO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H785', 'SAN CALOGERO', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H786', 'SAN CANDIDO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('H787', 'SAN CANZIAN D''ISONZO', 'GO', 'comune', '1921-01-05', NULL, datetime('now')),
+  ('H788', 'SAN CARLO D''OSSOLA', 'NO', 'comune', NULL, NULL, datetime('now')),
+  ('H789', 'SAN CARLO CANAVESE', 'TO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('H790', 'SAN CASCIANO DEI BAGNI', 'SI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H791', 'SAN CASCIANO IN VAL DI PESA', 'FI', 'comune', '1865-08-13', NULL, datetime('now')),
+  ('H792', 'SAN CATALDO', 'CL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H793', 'SAN CESARIO DI LECCE', 'LE', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('H794', 'SAN CESARIO SUL PANARO', 'MO', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('H795', 'SAN CHIRICO NUOVO', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H796', 'SAN CHIRICO RAPARO', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H797', 'SAN CIPIRELLO', 'PA', 'comune', '1864-12-26', NULL, datetime('now')),
+  ('H798', 'SAN CIPRIANO D''AVERSA', 'NA', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('H799', 'SAN CIPRIANO PO', 'PV', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('H800', 'SAN CIPRIANO PICENTINO', 'SA', 'comune', '1862-11-07', NULL, datetime('now')),
+  ('H801', 'SAN CLEMENTE', 'RN', 'comune', '1869-12-10', NULL, datetime('now')),
+  ('H802', 'SAN COLOMBANO CERTENOLI', 'GE', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('H803', 'SAN COLOMBANO AL LAMBRO', 'MI', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('H804', 'SAN COLOMBANO BELMONTE', 'AO', 'comune', '1870-07-10', NULL, datetime('now')),
+  ('H805', 'SAN CONO', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H806', 'SAN COSMO ALBANESE', 'CS', 'comune', '1897-02-13', NULL, datetime('now')),
+  ('H807', 'SAN COSTANTINO CALABRO', 'VV', 'comune', '1864-01-29', NULL, datetime('now')),
+  ('H808', 'SAN COSTANTINO ALBANESE', 'PZ', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('H809', 'SAN COSTANZO', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H810', 'SAN CRISTOFORO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H811', 'SAN DAMIANO D''ASTI', 'AT', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('H812', 'SAN DAMIANO MACRA', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('H813', 'SAN DAMIANO DI MONZA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('H814', 'SAN DAMIANO AL COLLE', 'PV', 'comune', '1878-06-14', NULL, datetime('now')),
+  ('H815', 'SAN DANIELE PO', 'CR', 'comune', '1868-01-01', NULL, datetime('now')),
+  ('H816', 'SAN DANIELE DEL FRIULI', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H817', 'SAN DANIELE DEL CARSO', 'GO', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('H818', 'SAN DEMETRIO CORONE', 'CS', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('H819', 'SAN DEMETRIO NE'' VESTINI', 'AQ', 'comune', '1863-05-06', NULL, datetime('now')),
+  ('H820', 'SAN DIDERO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H821', 'SANDIGLIANO', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H822', 'SAN DONACI', 'BR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H823', 'SAN DONÀ DI PIAVE', 'VE', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H824', 'SAN DONATO VAL DI COMINO', 'FR', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('H825', 'SAN DONATO DI NINEA', 'CS', 'comune', '1864-04-01', NULL, datetime('now')),
+  ('H826', 'SAN DONATO DI LECCE', 'LE', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('H827', 'SAN DONATO MILANESE', 'MI', 'comune', '1870-08-02', NULL, datetime('now')),
+  ('H828', 'SAN DONATO D''ENZA', 'PR', 'comune', NULL, NULL, datetime('now')),
+  ('H829', 'SANDRIGO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H830', 'SAN FEDELE INTELVI', 'CO', 'comune', '1861-03-17', '2018-01-01', datetime('now')),
+  ('H831', 'SAN FELE', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H832', 'SAN FELICE DI SCOVOLO', 'BS', 'comune', '1863-01-26', '1928-06-30', datetime('now')),
+  ('H833', 'SAN FELICE DEL MOLISE', 'CB', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('H834', 'SAN FELICE A CANCELLO', 'NA', 'comune', '1862-09-08', NULL, datetime('now')),
+  ('H835', 'SAN FELICE SUL PANARO', 'MO', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('H836', 'SAN FELICE CIRCEO', 'LT', 'comune', '1872-12-16', NULL, datetime('now')),
+  ('H837', 'SAN FELICE', 'BZ', 'comune', '1920-10-16', '1974-09-18', datetime('now')),
+  ('H838', 'SAN FELICE DEL BENACO', 'BS', 'comune', '1928-06-30', NULL, datetime('now')),
+  ('H839', 'SAN FERDINANDO DI PUGLIA', 'BT', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('H840', 'SAN FERMO DELLA BATTAGLIA', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H841', 'SAN FILI', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H842', 'SAN FILIPPO DEL MELA', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H843', 'SAN FIOR', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H844', 'SAN FIORANO', 'LO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H845', 'SAN FLORIANO DEL COLLIO', 'GO', 'comune', '1921-01-05', NULL, datetime('now')),
+  ('H846', 'SAN FLORO', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H847', 'SAN FRANCESCO AL CAMPO', 'TO', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('H848', 'AGLIENTU', 'OT', 'comune', '1959-04-09', NULL, datetime('now')),
+  ('H849', 'SAN FRANCESCO D''ALBARO', 'GE', 'comune', '1861-03-17', '1873-11-09', datetime('now')),
+  ('H850', 'SAN FRATELLO', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H851', 'SANFRÈ', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H852', 'SANFRONT', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H853', 'SAN FRUTTUOSO', 'GE', 'comune', NULL, NULL, datetime('now')),
+  ('H854', 'SAN GALLO', 'BG', 'comune', '1861-03-17', '1928-04-18', datetime('now')),
+  ('H855', 'SANGANO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H856', 'SAN GAVINO MONREALE', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H857', 'SAN GEMINI', 'TR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H858', 'SAN GENESIO ATESINO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('H859', 'SAN GENESIO ED UNITI', 'PV', 'comune', '1871-06-01', NULL, datetime('now')),
+  ('H860', 'SAN GENNARO VESUVIANO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H861', 'SAN GERMANO VERCELLESE', 'VC', 'comune', '1891-03-06', NULL, datetime('now')),
+  ('H862', 'SAN GERMANO CHISONE', 'TO', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('H863', 'SAN GERMANO DEI BERICI', 'VI', 'comune', '1867-08-26', '2017-02-17', datetime('now')),
+  ('H864', 'SAN GERVASIO D''ADDA', 'BG', 'comune', '1863-07-13', '1928-02-23', datetime('now')),
+  ('H865', 'SAN GERVASIO BRESCIANO', 'BS', 'comune', '1862-11-24', NULL, datetime('now')),
+  ('H866', 'SAN GIACOMO', 'BZ', 'comune', '1920-10-16', '1929-02-22', datetime('now')),
+  ('H867', 'SAN GIACOMO DEGLI SCHIAVONI', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H868', 'SAN GIACOMO FILIPPO', 'SO', 'comune', '1864-04-01', NULL, datetime('now')),
+  ('H869', 'SAN GIACOMO', 'TN', 'comune', '1920-10-16', '1929-01-01', datetime('now')),
+  ('H870', 'SAN GIACOMO DELLE SEGNATE', 'MN', 'comune', '1922-09-19', NULL, datetime('now')),
+  ('H871', 'SAN GIACOMO IN COLLE', 'TS', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('H872', 'SANGIANO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H873', 'SAN GILLIO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H874', 'SAN GILLIO TORINESE', 'TO', 'comune', '1928-04-03', '1947-01-22', datetime('now')),
+  ('H875', 'SAN GIMIGNANO', 'SI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H876', 'SAN GINESIO', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H877', 'SANGINETO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H878', 'SAN GIORGIO MONFERRATO', 'AL', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('H879', 'SAN GIORGIO', 'BZ', 'comune', '1920-10-16', '1928-04-05', datetime('now')),
+  ('H880', 'SAN GIORGIO A LIRI', 'FR', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('H881', 'SAN GIORGIO ALBANESE', 'CS', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('H882', 'SAN GIORGIO IONICO', 'TA', 'comune', '1862-11-28', NULL, datetime('now')),
+  ('H883', 'SAN GIORGIO BIGARELLO', 'MN', 'comune', '1867-06-24', NULL, datetime('now')),
+  ('H884', 'SAN GIORGIO SU LEGNANO', 'MI', 'comune', '1862-11-07', NULL, datetime('now')),
+  ('H885', 'SAN GIORGIO DI LOMELLINA', 'PV', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('H886', 'SAN GIORGIO DI PESARO', 'PU', 'comune', '1861-03-17', '2017-01-01', datetime('now')),
+  ('H887', 'SAN GIORGIO PIACENTINO', 'PC', 'comune', '1862-11-28', NULL, datetime('now')),
+  ('H888', 'SAN GIORGIO LUCANO', 'MT', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('H889', 'SAN GIORGIO MORGETO', 'RC', 'comune', '1864-06-23', NULL, datetime('now')),
+  ('H890', 'SAN GIORGIO CANAVESE', 'AO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('H891', 'SAN GIORGIO DELLA RICHINVELDA', 'PN', 'comune', '1968-04-06', NULL, datetime('now')),
+  ('H892', 'SAN GIORGIO A CREMANO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H893', 'SAN GIORGIO DELLE PERTICHE', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H894', 'SAN GIORGIO DEL SANNIO', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H895', 'SAN GIORGIO DI NOGARO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H896', 'SAN GIORGIO DI PIANO', 'BO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H897', 'SAN GIORGIO IN BOSCO', 'PD', 'comune', '1882-07-20', NULL, datetime('now')),
+  ('H898', 'SAN GIORGIO LA MOLARA', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H899', 'SAN GIORGIO SCARAMPI', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H900', 'SAN GIORIO DI SUSA', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H901', 'SAN GIOVANNI VALDARNO', 'AR', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('H902', 'SAN GIOVANNI', 'BZ', 'comune', '1920-10-16', '1929-02-22', datetime('now')),
+  ('H903', 'SAN GIOVANNI DI GERACE', 'RC', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('H904', 'SAN GIOVANNI PELLICE', 'TO', 'comune', NULL, NULL, datetime('now')),
+  ('H905', 'SAN GIOVANNI ALLA CASTAGNA', 'CO', 'comune', '1861-03-17', '1924-01-12', datetime('now')),
+  ('H906', 'SAN GIOVANNI AL NATISONE', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H907', 'SAN GIOVANNI A PIRO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H908', 'SAN GIOVANNI A TEDUCCIO', 'NA', 'comune', '1861-03-17', '1925-11-30', datetime('now')),
+  ('H909', 'SAN GIOVANNI BATTISTA', 'GE', 'comune', '1861-03-17', '1923-11-29', datetime('now')),
+  ('H910', 'SAN GIOVANNI BIANCO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H911', 'SAN GIOVANNI D''ASSO', 'SI', 'comune', '1877-07-16', '2017-01-01', datetime('now')),
+  ('H912', 'SAN GIOVANNI DEL DOSSO', 'MN', 'comune', '1922-09-19', NULL, datetime('now')),
+  ('H913', 'VILLA SAN GIOVANNI IN TUSCIA', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('H914', 'SAN GIOVANNI GEMINI', 'AG', 'comune', '1879-03-28', NULL, datetime('now')),
+  ('H915', 'SAN GIOVANNI DI GALERMO', 'CT', 'comune', '1861-03-17', '1926-03-18', datetime('now')),
+  ('H916', 'SAN GIOVANNI ILARIONE', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H917', 'SAN GIOVANNI INCARICO', 'FR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H918', 'SAN GIOVANNI IN CROCE', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H919', 'SAN GIOVANNI IN FIORE', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H920', 'SAN GIOVANNI IN GALDO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H921', 'SAN GIOVANNI IN MARIGNANO', 'RN', 'comune', '1895-12-20', NULL, datetime('now')),
+  ('H922', 'SAN GIOVANNI LA PUNTA', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H923', 'SAN GIOVANNI LIPIONI', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H924', 'SAN GIOVANNI LUPATOTO', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H925', 'SAN GIOVANNI REATINO', 'PG', 'comune', '1861-03-17', '1875-03-05', datetime('now')),
+  ('H926', 'SAN GIOVANNI ROTONDO', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H927', 'SAN GIULIANO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('H928', 'SAN GIULIANO DEL SANNIO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H929', 'SAN GIULIANO DI PUGLIA', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H930', 'SAN GIULIANO MILANESE', 'MI', 'comune', '1893-04-30', NULL, datetime('now')),
+  ('H931', 'SAN GIUSEPPE VESUVIANO', 'NA', 'comune', '1895-01-07', NULL, datetime('now')),
+  ('H932', 'SAN GIUSEPPE DI CASTO', 'VC', 'comune', '1863-04-23', '1929-05-22', datetime('now')),
+  ('H933', 'SAN GIUSEPPE JATO', 'PA', 'comune', '1864-12-26', NULL, datetime('now')),
+  ('H934', 'VILLA SAN GIUSEPPE', 'RC', 'comune', '1864-06-23', '1927-08-03', datetime('now')),
+  ('H935', 'SAN GIUSTINO', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H936', 'SAN GIUSTO CANAVESE', 'AO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('H937', 'SAN GODENZO', 'FI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H938', 'SAN GREGORIO NELLE ALPI', 'BL', 'comune', '1867-04-12', NULL, datetime('now')),
+  ('H939', 'SAN GREGORIO', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H940', 'SAN GREGORIO DI CATANIA', 'CT', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('H941', 'SAN GREGORIO D''IPPONA', 'VV', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('H942', 'SAN GREGORIO DA SASSOLA', 'RM', 'comune', '1872-09-16', NULL, datetime('now')),
+  ('H943', 'SAN GREGORIO MAGNO', 'SA', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('H944', 'SANGUINETTO', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H945', 'SAN LAZZARO DI SAVENA', 'BO', 'comune', '1862-10-31', NULL, datetime('now')),
+  ('H946', 'SAN LAZZARO REALE', 'IM', 'comune', '1862-11-10', '1928-12-08', datetime('now')),
+  ('H947', 'SAN LAZZARO ALBERONI', 'PC', 'comune', '1862-11-28', '1923-07-23', datetime('now')),
+  ('H948', 'SAN LAZZARO PARMENSE', 'PR', 'comune', '1870-07-01', '1943-05-29', datetime('now')),
+  ('H949', 'SAN LEO', 'RN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H950', 'SAN LEONARDO', 'BZ', 'comune', '1920-10-16', '1928-04-08', datetime('now')),
+  ('H951', 'SAN LEONARDO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('H952', 'SAN LEONARDO IN PASSIRIA', 'BZ', 'comune', '1928-04-07', NULL, datetime('now')),
+  ('H953', 'SAN LEUCIO DEL SANNIO', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H954', 'SAN LEUCIO', 'NA', 'comune', '1866-07-12', '1928-06-28', datetime('now')),
+  ('H955', 'SAN LORENZELLO', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H956', 'SAN LORENZO DI SEBATO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('H957', 'SAN LORENZO AL MARE', 'IM', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('H958', 'SAN LORENZO IN CAMPO', 'PU', 'comune', '1869-06-11', NULL, datetime('now')),
+  ('H959', 'SAN LORENZO', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H960', 'SAN LORENZO AROLDO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('H961', 'SAN LORENZO BELLIZZI', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H962', 'SAN LORENZO DEL VALLO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H963', 'SAN LORENZO DE'' PICENARDI', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('H964', 'SAN LORENZO ISONTINO', 'GO', 'comune', '1921-01-05', NULL, datetime('now')),
+  ('H965', 'SAN LORENZO GUAZZONE', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('H966', 'SAN LORENZO IN BANALE', 'TN', 'comune', '1920-10-16', '2015-01-01', datetime('now')),
+  ('H967', 'SAN LORENZO MAGGIORE', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H968', 'SAN LORENZO MONDINARI', 'CR', 'comune', '1861-03-17', '1868-07-04', datetime('now')),
+  ('H969', 'SAN LORENZO NUOVO', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('H970', 'SAN LUCA', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H971', 'SAN LUCIDO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H972', 'SAN LUGANO', 'TN', 'comune', '1920-10-16', '1926-03-03', datetime('now')),
+  ('H973', 'SAN LUPO', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H974', 'SANLURI', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H975', 'SAN MANGO SUL CALORE', 'AV', 'comune', '1863-05-06', NULL, datetime('now')),
+  ('H976', 'SAN MANGO D''AQUINO', 'CZ', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('H977', 'SAN MANGO PIEMONTE', 'SA', 'comune', '1862-11-07', NULL, datetime('now')),
+  ('H978', 'SAN MARCELLINO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H979', 'SAN MARCELLO', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H980', 'SAN MARCELLO PISTOIESE', 'PT', 'comune', '1863-04-13', '2017-01-01', datetime('now')),
+  ('H981', 'SAN MARCO ARGENTANO', 'CS', 'comune', '1862-12-12', NULL, datetime('now')),
+  ('H982', 'SAN MARCO D''ALUNZIO', 'ME', 'comune', '1867-11-25', NULL, datetime('now')),
+  ('H983', 'SAN MARCO A MONTI', 'BN', 'comune', NULL, NULL, datetime('now')),
+  ('H984', 'SAN MARCO DEI CAVOTI', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H985', 'SAN MARCO IN LAMIS', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H986', 'SAN MARCO LA CATOLA', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H987', 'SAN MARTINO ALFIERI', 'AT', 'comune', '1898-04-25', NULL, datetime('now')),
+  ('H988', 'SAN MARTINO IN BADIA', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('H989', 'SAN MARTINO IN PASSIRIA', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('H990', 'SAN MARTINO IN PENSILIS', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('H991', 'SAN MARTINO SULLA MARRUCINA', 'CH', 'comune', '1864-02-14', NULL, datetime('now')),
+  ('H992', 'SAN MARTINO DI FINITA', 'CS', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('H993', 'SAN MARTINO IN VALLE', 'PL', 'comune', NULL, NULL, datetime('now')),
+  ('H994', 'SAN MARTINO D''AGRI', 'PZ', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('H995', 'SAN MARTINO AL CIMINO', 'VT', 'comune', '1872-10-02', '1928-05-19', datetime('now')),
+  ('H996', 'SAN MARTINO DI VENEZZE', 'RO', 'comune', '1867-07-22', NULL, datetime('now')),
+  ('H997', 'SAN MARTINO CANAVESE', 'AO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('H998', 'SAN MARTINO DI PERRERO', 'TO', 'comune', '1863-01-26', '1928-05-01', datetime('now')),
+  ('H999', 'SAN MARTINO AL TAGLIAMENTO', 'PN', 'comune', '1867-09-02', NULL, datetime('now')),
+  ('I001', 'SAN MARTINO AL MONTE', 'BZ', 'comune', '1920-10-16', '1928-12-10', datetime('now')),
+  ('I002', 'SAN MARTINO SANNITA', 'BN', 'comune', '1873-01-14', NULL, datetime('now')),
+  ('I003', 'SAN MARTINO BUON ALBERGO', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I004', 'SAN MARTINO D''ALBARO', 'GE', 'comune', NULL, NULL, datetime('now')),
+  ('I005', 'SAN MARTINO DALL''ARGINE', 'MN', 'comune', '1868-07-01', NULL, datetime('now')),
+  ('I006', 'SAN MARTINO DE'' CALVI', 'BG', 'comune', '1927-09-14', '1956-08-27', datetime('now')),
+  ('I007', 'SAN MARTINO DEL LAGO', 'CR', 'comune', '1868-01-01', NULL, datetime('now')),
+  ('I008', 'SAN MARTINO DI LUPARI', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I009', 'SAN MARTINO IN BELISETO', 'CR', 'comune', '1868-08-19', '1928-06-27', datetime('now')),
+  ('I010', 'SAN MARTINO IN CASIES', 'BZ', 'comune', '1920-10-16', '1929-05-16', datetime('now')),
+  ('I011', 'SAN MARTINO IN RIO', 'RE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I012', 'SAN MARTINO IN STRADA', 'LO', 'comune', '1869-02-11', NULL, datetime('now'));
+
+INSERT INTO belfioreCodes (code, name, province, kind, validFrom, validTo, updatedAt) VALUES
+  ('I013', 'SAN MARTINO QUISCA', 'GO', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('I014', 'SAN MARTINO SICCOMARIO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I015', 'SAN MARTINO SINZANO', 'PR', 'comune', NULL, NULL, datetime('now')),
+  ('I016', 'SAN MARTINO VALLE CAUDINA', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I017', 'SAN MARZANO OLIVETO', 'AT', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('I018', 'SAN MARZANO DI SAN GIUSEPPE', 'TA', 'comune', '1864-04-01', NULL, datetime('now')),
+  ('I019', 'SAN MARZANO SUL SARNO', 'SA', 'comune', '1862-11-07', NULL, datetime('now')),
+  ('I020', 'SAN MARZANO MOASCA', 'AT', 'comune', '1929-04-20', '1947-06-24', datetime('now')),
+  ('I021', 'SAN MARZANOTTO', 'AL', 'comune', '1861-03-17', '1929-06-05', datetime('now')),
+  ('I022', 'SAN MASSIMO ALL''ADIGE', 'VR', 'comune', '1867-08-26', '1927-02-16', datetime('now')),
+  ('I023', 'SAN MASSIMO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I024', 'SAN MAURIZIO CANAVESE', 'TO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('I025', 'SAN MAURIZIO D''OPAGLIO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I026', 'SAN MAURO MARCHESATO', 'KR', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('I027', 'SAN MAURO PASCOLI', 'FC', 'comune', '1863-01-15', NULL, datetime('now')),
+  ('I028', 'SAN MAURO CASTELVERDE', 'PA', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('I029', 'SAN MAURO FORTE', 'MT', 'comune', '1864-02-02', NULL, datetime('now')),
+  ('I030', 'SAN MAURO TORINESE', 'TO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('I031', 'SAN MAURO CILENTO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I032', 'SAN MAURO LA BRUCA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I033', 'SAN MICHELE D''ASTI', 'AL', 'comune', '1863-02-16', '1928-02-22', datetime('now')),
+  ('I034', 'SAN MICHELE DI SERINO', 'AV', 'comune', '1863-05-06', NULL, datetime('now')),
+  ('I035', 'SAN MICHELE DI GANZARIA', 'CT', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('I036', 'SAN MICHELE CREMASCO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('I037', 'SAN MICHELE MONDOVÌ', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('I038', 'SAN MICHELE PRAZZO', 'CN', 'comune', '1862-12-19', '1928-05-12', datetime('now')),
+  ('I039', 'SAN MICHELE IN TEVERINA', 'VT', 'comune', '1873-03-03', '1927-11-02', datetime('now')),
+  ('I040', 'SAN MICHELE AL TAGLIAMENTO', 'VE', 'comune', '1867-08-05', NULL, datetime('now')),
+  ('I041', 'SAN MICHELE EXTRA', 'VR', 'comune', '1867-08-26', '1927-02-16', datetime('now')),
+  ('I042', 'SAN MICHELE ALL''ADIGE', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('I043', 'SAN MICHELE DELLE BADESSE', 'PD', 'comune', NULL, NULL, datetime('now')),
+  ('I044', 'SAN MICHELE DI POSTUMIA', 'TS', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('I045', 'SAN MICHELE SALENTINO', 'BR', 'comune', '1928-12-13', NULL, datetime('now')),
+  ('I046', 'SAN MINIATO', 'PI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I047', 'SAN NAZARIO', 'VI', 'comune', '1866-11-19', '2019-01-30', datetime('now')),
+  ('I048', 'SANNAZZARO DE'' BURGONDI', 'PV', 'comune', '1863-08-10', NULL, datetime('now')),
+  ('I049', 'SAN NAZZARO', 'BN', 'comune', '1958-05-28', NULL, datetime('now')),
+  ('I050', 'SAN NAZZARO MELLA', 'BS', 'comune', NULL, NULL, datetime('now')),
+  ('I051', 'SAN NAZZARO VAL CAVARGNA', 'CO', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('I052', 'SAN NAZZARO SESIA', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I053', 'SANNICANDRO DI BARI', 'BA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I054', 'SAN NICANDRO GARGANICO', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I055', 'SAN NICANDRO D''AQUILA', 'AQ', 'comune', NULL, NULL, datetime('now')),
+  ('I056', 'SAN NICOLA LA STRADA', 'NA', 'comune', '1862-09-08', NULL, datetime('now')),
+  ('I057', 'SAN NICOLA DELL''ALTO', 'KR', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('I058', 'SAN NICOLA DA CRISSA', 'VV', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('I059', 'SANNICOLA', 'LE', 'comune', '1908-04-30', NULL, datetime('now')),
+  ('I060', 'SAN NICOLA ARCELLA', 'CS', 'comune', '1912-01-01', NULL, datetime('now')),
+  ('I061', 'SAN NICOLA BARONIA', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I062', 'SAN NICOLA MANFREDI', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I063', 'SAN NICOLÒ DI COMELICO', 'BL', 'comune', '1868-02-14', NULL, datetime('now')),
+  ('I064', 'SAN NOVO', 'MI', 'comune', '1861-03-17', '1870-08-01', datetime('now')),
+  ('I065', 'SAN PANCRAZIO', 'BZ', 'comune', '1960-04-27', NULL, datetime('now')),
+  ('I066', 'SAN PANCRAZIO SALENTINO', 'BR', 'comune', '1862-11-28', NULL, datetime('now')),
+  ('I067', 'SAN PANCRAZIO AL COLLE', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('I068', 'SAN PANCRAZIO PARMENSE', 'PR', 'comune', '1866-01-21', '1943-05-29', datetime('now')),
+  ('I069', 'SAN PANTALEO', 'CA', 'comune', '1861-03-17', '1905-07-11', datetime('now')),
+  ('I070', 'SAN PAOLO DELLA VALLE', 'AL', 'comune', '1863-02-16', '1928-02-22', datetime('now')),
+  ('I071', 'SAN PAOLO DI JESI', 'AN', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('I072', 'SAN PAOLO DI CIVITATE', 'FG', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('I073', 'SAN PAOLO BEL SITO', 'NA', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('I074', 'SAN PAOLO CERVO', 'BI', 'comune', '1863-04-23', '2016-01-01', datetime('now')),
+  ('I075', 'SAN PAOLO RIPA D''OGLIO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('I076', 'SAN PAOLO SOLBRITO', 'AT', 'comune', '1928-02-21', NULL, datetime('now')),
+  ('I077', 'SAN PEDRINO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('I078', 'SAN PELAGIO', 'TS', 'comune', '1921-01-05', '1928-09-09', datetime('now')),
+  ('I079', 'SAN PELLEGRINO TERME', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I080', 'SAN PERONE', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('I081', 'SAN PIER D''ARENA', 'GE', 'comune', '1861-03-17', '1926-02-06', datetime('now')),
+  ('I082', 'SAN PIER D''ISONZO', 'GO', 'comune', '1921-01-05', NULL, datetime('now')),
+  ('I083', 'SAN PIER FEDELE', 'RC', 'comune', '1863-04-10', '1928-05-04', datetime('now')),
+  ('I084', 'SAN PIER NICETO', 'ME', 'comune', '1873-01-20', NULL, datetime('now')),
+  ('I085', 'SAN PIERO A SIEVE', 'FI', 'comune', '1861-03-17', '2014-01-01', datetime('now')),
+  ('I086', 'SAN PIERO PATTI', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I087', 'SAN PIETRO', 'BZ', 'comune', '1920-10-16', '1929-02-22', datetime('now')),
+  ('I088', 'SAN PIETRO DI CADORE', 'BL', 'comune', '1868-02-14', NULL, datetime('now')),
+  ('I089', 'SAN PIETRO AL TANAGRO', 'SA', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('I090', 'SAN PIETRO VAL LEMINA', 'TO', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('I091', 'SAN PIETRO DI GORIZIA', 'GO', 'comune', '1921-01-05', '1927-01-13', datetime('now')),
+  ('I092', 'SAN PIETRO AL NATISONE', 'UD', 'comune', '1867-09-02', NULL, datetime('now')),
+  ('I093', 'SAN PIETRO A MAIDA', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I094', 'SAN PIETRO A PATIERNO', 'NA', 'comune', '1861-03-17', '1925-11-30', datetime('now')),
+  ('I095', 'SAN PIETRO APOSTOLO', 'CZ', 'comune', '1863-08-10', NULL, datetime('now')),
+  ('I096', 'SAN PIETRO AVELLANA', 'IS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I097', 'SAN PIETRO BESTAZZO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('I098', 'SAN PIETRO CLARENZA', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I099', 'SAN PIETRO CUSICO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('I100', 'SAN PIETRO DEL CARSO', 'TS', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('I101', 'SAN PIETRO DI BARBOZZA', 'TV', 'comune', '1866-11-19', '1929-02-21', datetime('now')),
+  ('I102', 'SAN PIETRO DI CARIDÀ', 'RC', 'comune', '1928-05-04', NULL, datetime('now')),
+  ('I103', 'SAN PIETRO DI FELETTO', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I104', 'SAN PIETRO DI MONTEROSSO', 'CN', 'comune', '1861-03-17', '1929-04-20', datetime('now')),
+  ('I105', 'SAN PIETRO DI MORUBIO', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I106', 'SAN PIETRO D''ORZIO', 'BG', 'comune', '1861-03-17', '1928-04-17', datetime('now')),
+  ('I107', 'SAN PIETRO IN GU', 'PD', 'comune', '1884-09-16', NULL, datetime('now')),
+  ('I108', 'SAN PIETRO IN AMANTEA', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I109', 'SAN PIETRO IN CARIANO', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I110', 'SAN PIETRO IN CASALE', 'BO', 'comune', '1872-01-01', NULL, datetime('now')),
+  ('I111', 'SAN PIETRO IN CUROLIS', 'CE', 'comune', NULL, NULL, datetime('now')),
+  ('I112', 'SAN PIETRO IRPINO', 'AV', 'comune', '1861-03-17', '1928-01-28', datetime('now')),
+  ('I113', 'SAN PIETRO INFINE', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I114', 'SAN PIETRO IN GUARANO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I115', 'SAN PIETRO IN LAMA', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I116', 'SAN PIETRO MOSEZZO', 'NO', 'comune', '1869-02-11', NULL, datetime('now')),
+  ('I117', 'SAN PIETRO MUSSOLINO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I118', 'VILLA SAN PIETRO', 'CA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I119', 'SAN PIETRO VERNOTICO', 'BR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I120', 'SAN PIETRO VIMINARIO', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I121', 'SAN PIO DELLE CAMERE', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I122', 'SAN POLOMATESE', 'CB', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('I123', 'SAN POLO D''ENZA', 'RE', 'comune', '1862-10-20', NULL, datetime('now')),
+  ('I124', 'SAN POLO DI PIAVE', 'TV', 'comune', '1867-11-25', NULL, datetime('now')),
+  ('I125', 'SAN POLO DEI CAVALIERI', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('I126', 'SAN PONSO CANAVESE', 'AO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('I127', 'SAN PONZO SEMOLA', 'PV', 'comune', '1863-03-30', '1928-08-07', datetime('now')),
+  ('I128', 'SAN POSSIDONIO', 'MO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I129', 'SAN POTITO ULTRA', 'AV', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('I130', 'SAN POTITO SANNITICO', 'BN', 'comune', '1862-11-24', NULL, datetime('now')),
+  ('I131', 'SAN PRISCO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I132', 'SAN PROCOPIO', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I133', 'SAN PROSPERO', 'MO', 'comune', '1868-03-25', NULL, datetime('now')),
+  ('I134', 'SAN QUIRICO IN VAL POLCEVERA', 'GE', 'comune', '1863-04-23', '1926-02-06', datetime('now')),
+  ('I135', 'SAN QUIRICO D''ORCIA', 'SI', 'comune', '1862-10-06', NULL, datetime('now')),
+  ('I136', 'SAN QUIRINO', 'PN', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I137', 'SAN RAFFAELE CIMENA', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I138', 'SANREMO', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I139', 'SAN ROBERTO', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I140', 'SAN ROCCO AL PORTO', 'LO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I142', 'SAN ROMANO IN GARFAGNANA', 'LU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I143', 'SAN RUFO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I144', 'SAN SALVATORE MONFERRATO', 'AL', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('I145', 'SAN SALVATORE TELESINO', 'BN', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('I146', 'SAN SALVATORE', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('I147', 'SAN SALVATORE DI FITALIA', 'ME', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('I148', 'SAN SALVO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I149', 'SAN SAVINO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('I150', 'SAN SEBASTIANO CURONE', 'AL', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('I151', 'SAN SEBASTIANO AL VESUVIO', 'NA', 'comune', '1877-04-09', NULL, datetime('now')),
+  ('I152', 'SAN SEBASTIANO DA PO', 'TO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('I153', 'SAN SECONDO PARMENSE', 'PR', 'comune', '1862-10-20', NULL, datetime('now')),
+  ('I154', 'SAN SECONDO DI PINEROLO', 'TO', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('I155', 'SANSEPOLCRO', 'AR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I156', 'SAN SEVERINO MARCHE', 'MC', 'comune', '1863-08-10', NULL, datetime('now')),
+  ('I157', 'SAN SEVERINO LUCANO', 'PZ', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('I158', 'SAN SEVERO', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I159', 'SAN SIGISMONDO', 'BZ', 'comune', '1920-10-16', '1929-03-25', datetime('now')),
+  ('I160', 'SAN SILLO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('I161', 'SAN SILVESTRO', 'CH', 'comune', '1861-03-17', '1879-05-12', datetime('now')),
+  ('I162', 'SAN SIRO', 'CO', 'comune', '2003-01-01', NULL, datetime('now')),
+  ('I163', 'SAN SOSSIO BARONIA', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I164', 'SAN SOSTENE', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I165', 'SAN SOSTI', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I166', 'SAN SPERATE', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I167', 'SANT''ABBONDIO', 'CO', 'comune', '1861-03-17', '2003-01-01', datetime('now')),
+  ('I168', 'SANTA BRIGIDA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I169', 'SANTA CATERINA VILLARMOSA', 'CL', 'comune', '1862-10-31', NULL, datetime('now')),
+  ('I170', 'SANTA CATERINA DELLO IONIO', 'CZ', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('I171', 'SANTA CATERINA ALBANESE', 'CS', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('I172', 'SANTA CESAREA TERME', 'LE', 'comune', '1913-07-10', NULL, datetime('now')),
+  ('I173', 'SANTA CRISTINA VALGARDENA', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('I174', 'SANTA CRISTINA GELA', 'PA', 'comune', '1864-03-11', NULL, datetime('now')),
+  ('I175', 'SANTA CRISTINA E BISSONE', 'PV', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('I176', 'SANTA CRISTINA D''ASPROMONTE', 'RC', 'comune', '1864-06-23', NULL, datetime('now')),
+  ('I177', 'SANTA CROCE SULL''ARNO', 'PI', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('I178', 'SANTA CROCE CAMERINA', 'RG', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('I179', 'SANTA CROCE DEL SANNIO', 'BN', 'comune', '1883-02-23', NULL, datetime('now')),
+  ('I180', 'SANTA CROCE DI AIDUSSINA', 'GO', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('I181', 'SANTA CROCE DI MAGLIANO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I182', 'SANTADI', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I183', 'SANTA DOMENICA TALAO', 'CS', 'comune', '1864-04-01', NULL, datetime('now')),
+  ('I184', 'SANTA DOMENICA VITTORIA', 'ME', 'comune', '1864-11-07', NULL, datetime('now')),
+  ('I185', 'SANTA ELISABETTA', 'AG', 'comune', '1955-02-15', NULL, datetime('now')),
+  ('I186', 'SANT''EUFEMIA DELLA FONTE', 'BS', 'comune', '1862-09-22', '1928-11-27', datetime('now')),
+  ('I187', 'SANTA FIORA', 'GR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I188', 'SANTA FLAVIA', 'PA', 'comune', '1880-03-19', NULL, datetime('now')),
+  ('I189', 'SANT''AGAPITO', 'IS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I190', 'SANT''AGATA FOSSILI', 'AL', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('I191', 'SANT''AGATA BOLOGNESE', 'BO', 'comune', '1862-10-31', NULL, datetime('now')),
+  ('I192', 'SANT''AGATA DI ESARO', 'CS', 'comune', '1862-12-12', NULL, datetime('now')),
+  ('I193', 'SANT''AGATA DI PUGLIA', 'FG', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('I194', 'SANT''AGATA MARTESANA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('I195', 'SANT''AGATA SOPRA CANNOBIO', 'NO', 'comune', '1862-12-29', '1928-02-10', datetime('now')),
+  ('I196', 'SANT''AGATA SUL SANTERNO', 'RA', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('I197', 'SANT''AGATA DE'' GOTI', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I198', 'SANT''AGATA DEL BIANCO', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I199', 'SANT''AGATA DI MILITELLO', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I200', 'SANT''AGATA IRPINA', 'AV', 'comune', '1861-03-17', '1927-10-19', datetime('now')),
+  ('I201', 'SANT''AGATA FELTRIA', 'RN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I202', 'SANT''AGATA LI BATTIATI', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I203', 'SANTA GIULETTA', 'PV', 'comune', '1866-07-02', NULL, datetime('now')),
+  ('I204', 'SANTA GIULIA', 'SV', 'comune', '1880-06-25', '1929-04-13', datetime('now')),
+  ('I205', 'SANTA GIUSTA', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('I206', 'SANTA GIUSTINA', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I207', 'SANTA GIUSTINA IN COLLE', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I208', 'SANT''AGNELLO', 'NA', 'comune', '1865-10-25', NULL, datetime('now')),
+  ('I209', 'SANT''AGOSTINO', 'FE', 'comune', '1861-03-17', '2017-01-01', datetime('now')),
+  ('I210', 'SANT''ALBANO STURA', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('I211', 'SANT''ALBANO DI BOBBIO', 'PV', 'comune', '1863-03-30', '1929-06-15', datetime('now')),
+  ('I212', 'SANT''ALESSANDRO', 'BS', 'comune', NULL, NULL, datetime('now')),
+  ('I213', 'SANT''ALESSIO CON VIALONE', 'PV', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('I214', 'SANT''ALESSIO IN ASPROMONTE', 'RC', 'comune', '1864-06-23', NULL, datetime('now')),
+  ('I215', 'SANT''ALESSIO SICULO', 'ME', 'comune', '1948-06-26', NULL, datetime('now')),
+  ('I216', 'SANT''ALFIO', 'CT', 'comune', '1924-01-04', NULL, datetime('now')),
+  ('I217', 'SANTA LUCE', 'PI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I218', 'SANTA LUCE ORCIANO', 'PI', 'comune', '1927-01-12', '1957-07-22', datetime('now')),
+  ('I219', 'SANTA LUCIA DI SERINO', 'AV', 'comune', '1864-09-12', NULL, datetime('now')),
+  ('I220', 'SANTA LUCIA DEL MELA', 'ME', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('I221', 'SANTA LUCIA DI PIAVE', 'TV', 'comune', '1867-11-25', NULL, datetime('now')),
+  ('I222', 'SANTA LUCIA D''ISONZO', 'GO', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('I223', 'SANTA MADDALENA IN CASIES', 'BZ', 'comune', '1920-10-16', '1929-05-16', datetime('now')),
+  ('I224', 'SANTA MARGHERITA DI BELICE', 'AG', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('I225', 'SANTA MARGHERITA LIGURE', 'GE', 'comune', '1864-02-02', NULL, datetime('now')),
+  ('I226', 'SANTA MARGHERITA D''ADIGE', 'PD', 'comune', '1867-08-26', '2018-02-17', datetime('now')),
+  ('I227', 'SANTA MARGHERITA DI BOBBIO', 'PV', 'comune', '1864-02-14', '1929-05-28', datetime('now')),
+  ('I228', 'SANTA MARGHERITA PO', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('I229', 'SANTA MARGHERITA', 'TN', 'comune', '1920-10-16', '1928-09-06', datetime('now')),
+  ('I230', 'SANTA MARGHERITA DI STAFFORA', 'PV', 'comune', '1929-05-28', NULL, datetime('now')),
+  ('I231', 'SANTA MARIA DEL TRONTO', 'AP', 'comune', NULL, NULL, datetime('now')),
+  ('I232', 'SANTA MARIA A MONTE', 'PI', 'comune', '1869-01-30', NULL, datetime('now')),
+  ('I233', 'SANTA MARIA A VICO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I234', 'SANTA MARIA CAPUA VETERE', 'NA', 'comune', '1862-09-08', NULL, datetime('now')),
+  ('I235', 'SANTA MARIA DELLA CROCE', 'CR', 'comune', '1875-04-01', '1928-05-29', datetime('now')),
+  ('I236', 'TRAVACÒ SICCOMARIO', 'PV', 'comune', '1872-11-01', NULL, datetime('now')),
+  ('I237', 'SANTA MARIA DELLA VERSA', 'PV', 'comune', '1893-09-17', NULL, datetime('now')),
+  ('I238', 'SANTA MARIA DEL MOLISE', 'IS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I239', 'SANTA MARIA DEL MONTE', 'VA', 'comune', '1861-03-17', '1927-12-29', datetime('now')),
+  ('I240', 'SANTA MARIA DI LICODIA', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I241', 'SANTA MARIA DI ROVAGNATE', 'CO', 'comune', '1928-12-12', '1953-09-14', datetime('now')),
+  ('I242', 'SANTA MARIA DI SALA', 'VE', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I243', 'SANTA MARIA HOÈ', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I244', 'SANTA MARIA IMBARO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I245', 'SANTA MARIA IN PRATO', 'MI', 'comune', '1861-03-17', '1870-08-01', datetime('now')),
+  ('I246', 'SANTA MARIA IN STELLE', 'VR', 'comune', '1866-11-19', '1927-05-12', datetime('now')),
+  ('I247', 'SANTA MARIA LA FOSSA', 'NA', 'comune', '1907-07-01', NULL, datetime('now')),
+  ('I248', 'SANTA MARIA LA LONGA', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I249', 'SANTA MARIA MAGGIORE', 'VB', 'comune', '1928-06-28', NULL, datetime('now')),
+  ('I250', 'SANTA MARIA MAGGIORE E CRANA', 'NO', 'comune', '1861-03-17', '1928-06-29', datetime('now')),
+  ('I251', 'SANTA MARIA NUOVA', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I252', 'SANTA MARIA REZZONICO', 'CO', 'comune', '1928-08-12', '2003-01-01', datetime('now')),
+  ('I253', 'SANTA MARINA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I254', 'SANTA MARINA SALINA', 'ME', 'comune', '1910-01-10', NULL, datetime('now')),
+  ('I255', 'SANTA MARINELLA', 'RM', 'comune', '1949-10-16', NULL, datetime('now')),
+  ('I256', 'SANT''AMBROGIO SUL GARIGLIANO', 'FR', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('I257', 'SANT''AMBROGIO OLONA', 'VA', 'comune', '1863-02-23', '1927-12-29', datetime('now')),
+  ('I258', 'SANT''AMBROGIO DI TORINO', 'TO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('I259', 'SANT''AMBROGIO DI VALPOLICELLA', 'VR', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('I260', 'SANTOMENNA', 'SA', 'comune', '1881-03-28', NULL, datetime('now')),
+  ('I261', 'SAN TAMMARO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I262', 'SANT''ANASTASIA', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I263', 'SANT''ANATOLIA DI NARCO', 'PG', 'comune', '1895-04-26', NULL, datetime('now')),
+  ('I264', 'SANT''ANDREA DI CONZA', 'AV', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('I265', 'SANT''ANDREA DEL GARIGLIANO', 'FR', 'comune', '1907-06-21', NULL, datetime('now')),
+  ('I266', 'SANT''ANDREA APOSTOLO DELLO IONIO', 'CZ', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('I268', 'SANT''ANDREA DI SUASA', 'PU', 'comune', NULL, NULL, datetime('now')),
+  ('I269', 'SANT''ANDREA DI GORIZIA', 'GO', 'comune', '1921-01-05', '1927-01-13', datetime('now')),
+  ('I270', 'SANT''ANDREA DI VALLEFREDDA', 'CE', 'comune', '1862-12-29', '1907-06-22', datetime('now')),
+  ('I271', 'SANT''ANDREA FRIUS', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I272', 'SANT''ANDREA IN MONTE', 'BZ', 'comune', '1920-10-16', '1941-01-08', datetime('now')),
+  ('I273', 'SANT''ANGELO D''ALIFE', 'BN', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('I274', 'SANT''ANGELO LODIGIANO', 'LO', 'comune', '1864-03-11', NULL, datetime('now')),
+  ('I275', 'SANT''ANGELO DI PIOVE DI SACCO', 'PD', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('I276', 'SANT''ANGELO LOMELLINA', 'PV', 'comune', '1864-02-02', NULL, datetime('now')),
+  ('I277', 'SANT''ANGELO A CUPOLO', 'BN', 'comune', '1865-12-25', NULL, datetime('now')),
+  ('I278', 'SANT''ANGELO A FASANELLA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I279', 'SANT''ANGELO ALL''ESCA', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I280', 'SANT''ANGELO A SCALA', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I281', 'SANT''ANGELO DEI LOMBARDI', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I282', 'SANT''ANGELO DEL PESCO', 'IS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I283', 'SANT''ANGELO DI BROLO', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I284', 'SANT''ANGELO ROMANO', 'RM', 'comune', '1885-06-12', NULL, datetime('now')),
+  ('I285', 'SANT''ANGELO IN LIZZOLA', 'PU', 'comune', '1861-03-17', '2014-01-01', datetime('now')),
+  ('I286', 'SANT''ANGELO IN PONTANO', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I287', 'SANT''ANGELO IN VADO', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I288', 'SANT''ANGELO LE FRATTE', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I289', 'SANT''ANGELO LIMOSANO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I290', 'SANT''ANGELO MUXARO', 'AG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I291', 'SANTA NINFA', 'TP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I292', 'SANT''ANNA D''ALFAEDO', 'VR', 'comune', '1929-01-24', NULL, datetime('now')),
+  ('I293', 'SANT''ANTIMO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I294', 'SANT''ANTIOCO', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I295', 'SANT''ANTONINO TICINO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('I296', 'SANT''ANTONINO DI SUSA', 'TO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('I297', 'SANT''ANTONIO D''ADDA', 'BG', 'comune', '1863-07-13', '1927-09-08', datetime('now')),
+  ('I298', 'VILLA SANT''ANTONIO', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('I299', 'SANT''ANTONIO A TREBBIA', 'PC', 'comune', '1862-11-28', '1923-07-23', datetime('now')),
+  ('I300', 'SANT''ANTONIO ABATE', 'NA', 'comune', '1925-07-10', NULL, datetime('now')),
+  ('I301', 'SANTA PAOLINA', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I302', 'SANT''APOLLINARE', 'FR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I303', 'SANT''APOLLINARE CON SELVA', 'RO', 'comune', '1867-07-22', '1927-09-04', datetime('now')),
+  ('I304', 'SANTARCANGELO DI ROMAGNA', 'RN', 'comune', '1864-02-02', NULL, datetime('now')),
+  ('I305', 'SANT''ARCANGELO', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I306', 'SANT''ARPINO', 'CE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I307', 'SANT''ARSENIO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I308', 'SANTA SEVERINA', 'KR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I309', 'SANTA SOFIA D''EPIRO', 'CS', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('I310', 'SANTA SOFIA', 'FC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I311', 'SANTA TERESA DI RIVA', 'ME', 'comune', '1864-04-01', NULL, datetime('now')),
+  ('I312', 'SANTA TERESA GALLURA', 'OT', 'comune', '1862-09-22', NULL, datetime('now')),
+  ('I313', 'SANTA VALERIA', 'CO', 'comune', '1928-04-03', '1947-10-02', datetime('now')),
+  ('I314', 'SANTA VENERINA', 'CT', 'comune', '1934-04-07', NULL, datetime('now')),
+  ('I315', 'SANTA VITTORIA IN MATENANO', 'FM', 'comune', '1862-11-24', NULL, datetime('now')),
+  ('I316', 'SANTA VITTORIA D''ALBA', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('I317', 'SANT''EGIDIO DEL MONTE ALBINO', 'SA', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('I318', 'SANT''EGIDIO ALLA VIBRATA', 'TE', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('I319', 'SANT''ELENA', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I320', 'SANT''ELIA A PIANISI', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I321', 'SANT''ELIA FIUMERAPIDO', 'FR', 'comune', '1862-09-29', NULL, datetime('now')),
+  ('I322', 'VALLEFIORITA', 'CZ', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('I323', 'SANT''ELIA REATINO', 'PG', 'comune', NULL, NULL, datetime('now')),
+  ('I324', 'SANT''ELPIDIO A MARE', 'FM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I325', 'SANT''ELPIDIO MORICO', 'AP', 'comune', NULL, NULL, datetime('now')),
+  ('I326', 'SANTE MARIE', 'AQ', 'comune', '1869-01-08', NULL, datetime('now')),
+  ('I327', 'SANTENA', 'TO', 'comune', '1878-08-02', NULL, datetime('now')),
+  ('I328', 'SAN TEODORO', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I329', 'SAN TEODORO', 'SS', 'comune', '1959-05-03', NULL, datetime('now')),
+  ('I330', 'SANTERAMO IN COLLE', 'BA', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('I331', 'SANTERAMO', 'NA', 'comune', NULL, NULL, datetime('now')),
+  ('I332', 'SANT''EUFEMIA A MAIELLA', 'PE', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('I333', 'SANT''EUFEMIA D''ASPROMONTE', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I334', 'SANT''EUFEMIA LAMEZIA', 'CZ', 'comune', '1935-06-06', '1968-11-28', datetime('now')),
+  ('I335', 'SANT''EUSANIO DEL SANGRO', 'CH', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('I336', 'SANT''EUSANIO FORCONESE', 'AQ', 'comune', '1863-05-06', NULL, datetime('now')),
+  ('I337', 'SANTHIÀ', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I338', 'SANTICOLO', 'BS', 'comune', '1861-03-17', '1927-09-16', datetime('now')),
+  ('I339', 'SANTI COSMA E DAMIANO', 'LT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I340', 'SANT''ILARIO LIGURE', 'GE', 'comune', '1863-04-23', '1926-02-06', datetime('now')),
+  ('I341', 'SANT''ILARIO DELLO IONIO', 'RC', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('I342', 'SANT''ILARIO D''ENZA', 'RE', 'comune', '1862-10-20', NULL, datetime('now')),
+  ('I343', 'SANTINO', 'NO', 'comune', '1861-03-17', '1928-10-29', datetime('now')),
+  ('I344', 'SANT''IPPOLITO', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I345', 'ZOLDO ALTO', 'BL', 'comune', '1890-03-31', '2016-02-23', datetime('now')),
+  ('I346', 'SANT''OLCESE', 'GE', 'comune', '1878-06-21', NULL, datetime('now')),
+  ('I347', 'SAN TOMASO AGORDINO', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I348', 'SANT''OMERO', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I349', 'SANT''OMOBONO TERME', 'BG', 'comune', '1927-08-03', '2014-02-04', datetime('now')),
+  ('I350', 'SANT''ONOFRIO', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I351', 'SANTOPADRE', 'FR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I352', 'SANT''ORESTE', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('I353', 'SANTORSO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I354', 'SANT''ORSOLA TERME', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('I355', 'SANTO SPIRITO DELLA BAINSIZZA', 'GO', 'comune', '1921-01-05', '1928-08-16', datetime('now')),
+  ('I356', 'SANTO STEFANO QUISQUINA', 'AG', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('I357', 'SANTO STEFANO DEL SOLE', 'AV', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('I358', 'SANTO STEFANO DEL MONTE DEGLI ANGELI', 'BG', 'comune', '1863-07-13', '1928-02-21', datetime('now')),
+  ('I359', 'SANTO STEFANO DI ROGLIANO', 'CS', 'comune', '1864-02-14', NULL, datetime('now')),
+  ('I360', 'SANTO STEFANO DI SESSANIO', 'AQ', 'comune', '1863-05-06', NULL, datetime('now')),
+  ('I361', 'SANTO STEFANO TICINO', 'MI', 'comune', '1862-12-01', NULL, datetime('now')),
+  ('I362', 'SANTO STEFANO LODIGIANO', 'LO', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('I363', 'SANTO STEFANO DI MAGRA', 'SP', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('I364', 'VILLA SANTO STEFANO', 'FR', 'comune', '1872-10-18', NULL, datetime('now')),
+  ('I365', 'SANTO STEFANO AL MARE', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I366', 'SANTO STEFANO AL MARE CON CASTELLARO', 'IM', 'comune', NULL, NULL, datetime('now')),
+  ('I367', 'SANTO STEFANO BELBO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I368', 'SANTO STEFANO D''AVETO', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I369', 'SANTO STEFANO DI BRIGA', 'ME', 'comune', '1861-03-17', '1928-04-17', datetime('now')),
+  ('I370', 'SANTO STEFANO DI CAMASTRA', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I371', 'SANTO STEFANO IN ASPROMONTE', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I372', 'SANTO STEFANO ROERO', 'CN', 'comune', '1871-06-01', NULL, datetime('now')),
+  ('I373', 'SAN STINO DI LIVENZA', 'VE', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I374', 'SANTU LUSSURGIU', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('I375', 'SANT''URBANO', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I376', 'SAN VALENTINO IN ABRUZZO CITERIORE', 'PE', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('I377', 'SAN VALENTINO TORIO', 'SA', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('I378', 'SAN VALENTINO AL BRENNERO', 'BZ', 'comune', '1920-10-16', '1929-02-15', datetime('now')),
+  ('I379', 'SAN VALENTINO ALLA MUTTA', 'BZ', 'comune', '1920-10-16', '1928-06-16', datetime('now')),
+  ('I380', 'SAN VARESE', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('I381', 'SAN VENANZO', 'TR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I382', 'SAN VENDEMIANO', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I383', 'SAN VERO CONGIUS', 'CA', 'comune', '1861-03-17', '1928-03-14', datetime('now')),
+  ('I384', 'SAN VERO MILIS', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('I385', 'SAN VIGILIO', 'BS', 'comune', '1861-03-17', '1928-02-05', datetime('now')),
+  ('I386', 'SANVINCENTI', 'PL', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('I387', 'SAN VINCENZO AL VOLTURNO', 'CB', 'comune', '1863-02-06', '1928-04-18', datetime('now')),
+  ('I388', 'SAN VINCENZO LA COSTA', 'CS', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('I389', 'SAN VINCENZO VALLE ROVETO', 'AQ', 'comune', '1864-06-23', NULL, datetime('now')),
+  ('I390', 'SAN VINCENZO', 'LI', 'comune', '1949-08-04', NULL, datetime('now')),
+  ('I391', 'SAN VITALIANO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I392', 'SAN VITO DI CADORE', 'BL', 'comune', '1867-06-02', NULL, datetime('now')),
+  ('I393', 'SAN VITO SULLO IONIO', 'CZ', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('I394', 'SAN VITO CHIETINO', 'CH', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('I395', 'SAN VITO E MODESTO', 'CR', 'comune', '1861-03-17', '1867-09-05', datetime('now')),
+  ('I396', 'SAN VITO DEI NORMANNI', 'BR', 'comune', '1864-01-29', NULL, datetime('now')),
+  ('I397', 'SAN VITO E MARTA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('I398', 'SAN VITO IN MONTE', 'TR', 'comune', '1863-04-13', '1929-02-05', datetime('now')),
+  ('I399', 'SAN VITO SUL CESANO', 'PU', 'comune', NULL, NULL, datetime('now')),
+  ('I400', 'SAN VITO ROMANO', 'RM', 'comune', '1872-05-31', NULL, datetime('now')),
+  ('I401', 'SAN VITO DI LEGUZZANO', 'VI', 'comune', '1867-09-02', NULL, datetime('now')),
+  ('I402', 'SAN VITO', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I403', 'SAN VITO AL TAGLIAMENTO', 'PN', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I404', 'SAN VITO AL TORRE', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I405', 'SAN VITO DI FAGAGNA', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I406', 'SAN VITO DI VIPACCO', 'GO', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('I407', 'SAN VITO LO CAPO', 'TP', 'comune', '1952-08-17', NULL, datetime('now')),
+  ('I408', 'SAN VITTORE DEL LAZIO', 'FR', 'comune', '1862-11-24', NULL, datetime('now')),
+  ('I409', 'SAN VITTORE OLONA', 'MI', 'comune', '1864-04-01', NULL, datetime('now')),
+  ('I410', 'SANZA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I411', 'SANZENO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('I412', 'SAN ZENO NAVIGLIO', 'BS', 'comune', '1879-07-21', NULL, datetime('now')),
+  ('I413', 'SAN ZENO E FOPPA', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('I414', 'SAN ZENO DI MONTAGNA', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I415', 'SAN ZENONE AL LAMBRO', 'MI', 'comune', '1870-08-02', NULL, datetime('now')),
+  ('I416', 'SAN ZENONE AL PO', 'PV', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('I417', 'SAN ZENONE DEGLI EZZELINI', 'TV', 'comune', '1867-11-25', NULL, datetime('now')),
+  ('I418', 'SAONARA', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I419', 'SAONE', 'TN', 'comune', '1920-10-16', '1928-02-24', datetime('now')),
+  ('I420', 'SAPONARA', 'ME', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('I421', 'SAPPADA', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I422', 'SAPRI', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I423', 'SARACENA', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I424', 'SARACINESCO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('I425', 'SARCEDO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I426', 'SARCONI', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I427', 'SARDAGNA', 'TN', 'comune', '1920-10-16', '1926-10-01', datetime('now')),
+  ('I428', 'SARDARA', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I429', 'SARDIGLIANO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I430', 'SAREGO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I431', 'SARENTINO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('I432', 'SAREZZANO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I433', 'SAREZZO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I434', 'SARMATO', 'PC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I435', 'SARMEDE', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I436', 'SARNANO', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I437', 'SARNICO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I438', 'SARNO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I439', 'SARNONICO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('I440', 'SAROLA', 'IM', 'comune', '1861-03-17', '1924-02-04', datetime('now')),
+  ('I441', 'SARONNO', 'VA', 'comune', '1869-03-15', NULL, datetime('now')),
+  ('I442', 'SARRE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I443', 'SARROCH', 'CA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I444', 'SARSINA', 'FC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I445', 'SARTEANO', 'SI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I446', 'SARTIRANA BRIANTEA', 'CO', 'comune', '1863-02-23', '1928-02-24', datetime('now')),
+  ('I447', 'SARTIRANA LOMELLINA', 'PV', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('I448', 'SARULE', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I449', 'SARZANA', 'SP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I450', 'SASSA', 'AQ', 'comune', '1861-03-17', '1927-09-21', datetime('now')),
+  ('I451', 'SASSANO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I452', 'SASSARI', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I453', 'SASSELLO', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I454', 'SASSETTA', 'LI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I455', 'SASSINORO', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I456', 'SASSO DI BORDIGHERA', 'IM', 'comune', '1862-11-10', '1928-04-04', datetime('now')),
+  ('I457', 'SASSO DI CASTALDA', 'PZ', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('I458', 'SASSO', 'TN', 'comune', '1920-10-16', '1929-02-21', datetime('now')),
+  ('I459', 'SASSOCORVARO', 'PU', 'comune', '1861-03-17', '2019-01-01', datetime('now')),
+  ('I460', 'SASSOFELTRIO', 'RN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I461', 'SASSOFERRATO', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I462', 'SASSUOLO', 'MO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I463', 'SATRIANO', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I464', 'SAURIS', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I465', 'SAUZE DI CESANA', 'TO', 'comune', '1882-06-09', NULL, datetime('now')),
+  ('I466', 'SAUZE D''OULX', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I467', 'SAVA', 'TA', 'comune', '1870-01-02', NULL, datetime('now')),
+  ('I468', 'SAVELLI', 'KR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I469', 'SAVIANO', 'NA', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('I470', 'SAVIGLIANO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I471', 'SAVIGNANO IRPINO', 'AV', 'comune', '1862-10-24', NULL, datetime('now')),
+  ('I472', 'SAVIGNANO SUL RUBICONE', 'FC', 'comune', '1862-11-24', NULL, datetime('now')),
+  ('I473', 'SAVIGNANO SUL PANARO', 'MO', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('I474', 'SAVIGNO', 'BO', 'comune', '1861-03-17', '2014-01-01', datetime('now')),
+  ('I475', 'SAVIGNONE', 'GE', 'comune', '1893-08-30', NULL, datetime('now')),
+  ('I476', 'SAVIORE DELL''ADAMELLO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I477', 'SAVOCA', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I478', 'SAVOGNA', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I479', 'SAVOGNA D''ISONZO', 'GO', 'comune', '1921-01-05', NULL, datetime('now')),
+  ('I480', 'SAVONA', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I481', 'SAVOULX', 'TO', 'comune', '1861-03-17', '1928-05-04', datetime('now')),
+  ('I482', 'SCAFA', 'PE', 'comune', '1948-03-21', NULL, datetime('now')),
+  ('I483', 'SCAFATI', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I484', 'SCAGNELLO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I485', 'SCALA COELI', 'CS', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('I486', 'SCALA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I487', 'SCALDASOLE', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I488', 'SCALERES', 'BZ', 'comune', '1920-10-16', '1929-05-08', datetime('now')),
+  ('I489', 'SCALEA', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I490', 'SCALENGHE', 'TO', 'comune', '1893-05-26', NULL, datetime('now')),
+  ('I491', 'SCALETTA UZZONE', 'CN', 'comune', '1862-12-19', '1929-03-24', datetime('now')),
+  ('I492', 'SCALETTA ZANCLEA', 'ME', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('I493', 'SCAMPITELLA', 'AV', 'comune', '1948-04-28', NULL, datetime('now')),
+  ('I494', 'SCANDALE', 'KR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I495', 'SCANDELUZZA', 'AT', 'comune', '1861-03-17', '1998-09-01', datetime('now')),
+  ('I496', 'SCANDIANO', 'RE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I497', 'SCANDOLARA RAVARA', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I498', 'SCANDOLARA RIPA D''OGLIO', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I499', 'SCANDRIGLIA', 'RI', 'comune', '1875-08-30', NULL, datetime('now')),
+  ('I500', 'SCANNABUE', 'CR', 'comune', '1861-03-17', '1929-05-04', datetime('now')),
+  ('I501', 'SCANNO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I502', 'SCANO AL BREMBO', 'BG', 'comune', '1863-08-10', '1928-05-19', datetime('now')),
+  ('I503', 'SCANO DI MONTIFERRO', 'OR', 'comune', '1862-09-29', NULL, datetime('now')),
+  ('I504', 'SCANSANO', 'GR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I505', 'SCANZO', 'BG', 'comune', '1861-03-17', '1927-08-19', datetime('now')),
+  ('I506', 'SCANZOROSCIATE', 'BG', 'comune', '1927-08-19', NULL, datetime('now')),
+  ('I507', 'SCAPOLI', 'IS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I508', 'SCARENNA', 'CO', 'comune', NULL, NULL, datetime('now')),
+  ('I509', 'SCARIA', 'CO', 'comune', '1861-03-17', '1928-05-01', datetime('now')),
+  ('I510', 'SCARLINO', 'GR', 'comune', '1960-07-19', NULL, datetime('now')),
+  ('I511', 'SCARMAGNO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I512', 'SCARNAFIGI', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I513', 'SCARNAFIGI-RUFFIA', 'CN', 'comune', '1928-07-28', '1947-05-24', datetime('now')),
+  ('I514', 'SCARPERIA', 'FI', 'comune', '1861-03-17', '2014-01-01', datetime('now'));
+
+INSERT INTO belfioreCodes (code, name, province, kind, validFrom, validTo, updatedAt) VALUES
+  ('I515', 'SCARPIZZOLO', 'BS', 'comune', '1861-03-17', '1927-12-28', datetime('now')),
+  ('I516', 'SCIAVES', 'BZ', 'comune', '1920-10-16', '1929-02-15', datetime('now')),
+  ('I517', 'SCAVOLINO', 'PS', 'comune', '1861-03-17', '1928-12-15', datetime('now')),
+  ('I518', 'SCELMO', 'TN', 'comune', '1920-10-16', '1928-03-13', datetime('now')),
+  ('I519', 'SCENA', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('I520', 'SCERNI', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I521', 'SCHEGGIA', 'PG', 'comune', NULL, NULL, datetime('now')),
+  ('I522', 'SCHEGGIA E PASCELUPO', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I523', 'SCHEGGINO', 'PG', 'comune', '1895-04-26', NULL, datetime('now')),
+  ('I524', 'SCHERBINA', 'GO', 'comune', '1921-01-05', '1928-08-24', datetime('now')),
+  ('I525', 'SCHIANNO', 'VA', 'comune', '1861-03-17', '1927-07-01', datetime('now')),
+  ('I526', 'SCHIAVI DI ABRUZZO', 'CH', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('I527', 'SCHIAVON', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I528', 'SCHIERANCO', 'NO', 'comune', '1861-03-17', '1928-06-01', datetime('now')),
+  ('I529', 'SCHIGNANO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I530', 'SCHILPARIO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I531', 'SCHIO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I532', 'SCHIVENOGLIA', 'MN', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I533', 'SCIACCA', 'AG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I534', 'SCIARA', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I535', 'SCICLI', 'RG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I536', 'SCIDO', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I537', 'SCILLA', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I538', 'SCILLATO', 'PA', 'comune', '1961-04-11', NULL, datetime('now')),
+  ('I539', 'SCIOLZE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I540', 'SCISCIANO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I541', 'SCLAFANI BAGNI', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I542', 'SCODOVACCA', 'UD', 'comune', '1921-01-05', '1928-05-03', datetime('now')),
+  ('I543', 'SCONTRONE', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I544', 'SCOPA', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I545', 'SCOPELLO', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I546', 'SCOPPITO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I547', 'SCOPPO', 'TS', 'comune', '1921-01-05', '1927-08-20', datetime('now')),
+  ('I548', 'SCORDIA', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I549', 'SCORRANO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I550', 'TORRIANA', 'RN', 'comune', '1861-03-17', '2014-01-01', datetime('now')),
+  ('I551', 'SCORZÈ', 'VE', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I552', 'SCRILLA', 'GO', 'comune', '1921-01-05', '1928-03-13', datetime('now')),
+  ('I553', 'SCURCOLA MARSICANA', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I554', 'SCURELLE', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('I555', 'SCURZOLENGO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I556', 'SEBORGA', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I557', 'SEBREGHE', 'GO', 'comune', '1921-01-05', '1928-07-29', datetime('now')),
+  ('I558', 'SECINARO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I559', 'SECLÌ', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I560', 'SECONDIGLIANO', 'NA', 'comune', '1861-03-17', '1926-07-04', datetime('now')),
+  ('I561', 'SECUGNAGO', 'LO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I562', 'SEDEGLIANO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I563', 'SEDICO', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I564', 'SEDILO', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('I565', 'SEDINI', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I566', 'SEDRIANO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I567', 'SEDRINA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I568', 'SEDULA', 'GO', 'comune', '1921-01-05', '1928-01-07', datetime('now')),
+  ('I569', 'SEFRO', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I570', 'SEGARIU', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I571', 'SEGGIANO', 'GR', 'comune', '1920-10-19', NULL, datetime('now')),
+  ('I572', 'SEGHEBBIA', 'CO', 'comune', '1861-03-17', '1928-07-01', datetime('now')),
+  ('I573', 'SEGNI', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('I574', 'SEGNO', 'SV', 'comune', '1861-03-17', '1929-05-30', datetime('now')),
+  ('I575', 'SEGNO', 'TN', 'comune', '1920-10-16', '1929-01-24', datetime('now')),
+  ('I576', 'SEGONZANO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('I577', 'SEGRATE', 'MI', 'comune', '1869-07-06', NULL, datetime('now')),
+  ('I578', 'SEGUSINO', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I579', 'SEIO', 'TN', 'comune', '1920-10-16', '1928-08-07', datetime('now')),
+  ('I580', 'SELARGIUS', 'CA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I581', 'SELCI', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I582', 'SELEGAS', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I583', 'SELINO', 'BG', 'comune', '1861-03-17', '1927-08-04', datetime('now')),
+  ('I584', 'SELLA DELLE TRINCEE', 'GO', 'comune', '1921-01-05', '1928-08-24', datetime('now')),
+  ('I585', 'SELLANO', 'PG', 'comune', '1879-08-29', NULL, datetime('now')),
+  ('I586', 'SELLANUOVA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('I587', 'SELLERE', 'BG', 'comune', '1861-03-17', '1929-02-14', datetime('now')),
+  ('I588', 'SELLERO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I589', 'SELLIA', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I590', 'SELLIA MARINA', 'CZ', 'comune', '1957-01-18', NULL, datetime('now')),
+  ('I591', 'SELVA DI VAL GARDENA', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('I592', 'SELVA DI CADORE', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I593', 'SELVA DEI MOLINI', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('I594', 'SELVA DI PROGNO', 'VR', 'comune', '1893-04-10', NULL, datetime('now')),
+  ('I595', 'SELVAZZANO DENTRO', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I596', 'SELVE MARCONE', 'BI', 'comune', '1863-04-23', '2017-01-01', datetime('now')),
+  ('I597', 'SELVINO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I598', 'SEMESTENE', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I599', 'SEMIANA', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I600', 'SEMINARA', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I601', 'SEMPRONIANO', 'GR', 'comune', '1963-04-17', NULL, datetime('now')),
+  ('I602', 'SENAGO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I603', 'SENALE-SAN FELICE', 'BZ', 'comune', '1974-09-18', NULL, datetime('now')),
+  ('I604', 'SENALES', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('I605', 'SENEGHE', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('I606', 'SENERCHIA', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I607', 'SENIGA', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I608', 'SENIGALLIA', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I609', 'SENIS', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('I610', 'SENISE', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I611', 'SENNA COMASCO', 'CO', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('I612', 'SENNA LODIGIANA', 'LO', 'comune', '1869-03-19', NULL, datetime('now')),
+  ('I613', 'SENNARIOLO', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I614', 'SENNORI', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I615', 'SENORBÌ', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I616', 'SENOSECCHIA', 'TS', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('I617', 'SEO', 'TN', 'comune', '1920-10-16', '1928-03-13', datetime('now')),
+  ('I618', 'SEPINO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I619', 'SEPPIANA', 'VB', 'comune', '1861-03-17', '2016-01-01', datetime('now')),
+  ('I620', 'SEPRIO', 'CO', 'comune', '1928-09-23', '1953-09-14', datetime('now')),
+  ('I621', 'SEQUALS', 'PN', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I622', 'SERAVEZZA', 'LU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I623', 'SERBARIU', 'CA', 'comune', '1861-03-17', '1938-01-09', datetime('now')),
+  ('I624', 'SERDIANA', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I625', 'SEREGNO', 'MB', 'comune', '1869-03-01', NULL, datetime('now')),
+  ('I626', 'SEREN DEL GRAPPA', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I627', 'SERGNANO', 'CR', 'comune', '1868-07-18', NULL, datetime('now')),
+  ('I628', 'SERIATE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I629', 'SERINA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I630', 'SERINO', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I631', 'SERLE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I632', 'SERMIDE E FELONICA', 'MN', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I633', 'SIRMIONE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I634', 'SERMONETA', 'LT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('I635', 'SERNAGLIA DELLA BATTAGLIA', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I636', 'SERNIO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I637', 'SEROLE', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I638', 'SERPENIZZA', 'GO', 'comune', '1921-01-05', '1928-05-04', datetime('now')),
+  ('I639', 'SERRA SAN BRUNO', 'VV', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('I640', 'SERRA RICCÒ', 'GE', 'comune', '1877-09-08', NULL, datetime('now')),
+  ('I641', 'SERRACAPRIOLA', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I642', 'SERRA D''AIELLO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I643', 'SERRA DE'' CONTI', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I644', 'SERRADIFALCO', 'CL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I645', 'SERRALUNGA DI CREA', 'AL', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('I646', 'SERRALUNGA D''ALBA', 'CN', 'comune', '1890-08-01', NULL, datetime('now')),
+  ('I647', 'SERRAMANNA', 'SU', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('I648', 'SERRAMEZZANA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I649', 'SERRAMONACESCA', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I650', 'SERRA PEDACE', 'CS', 'comune', '1861-03-17', '2017-05-05', datetime('now')),
+  ('I651', 'SERRAPETRONA', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I652', 'SERRARA FONTANA', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I653', 'SERRA SAN QUIRICO', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I654', 'SERRA SANT''ABBONDIO', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I655', 'SERRASTRETTA', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I656', 'SERRATA', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I657', 'SERRAVALLE SCRIVIA', 'AL', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('I658', 'SERRAVALLE D''ASTI', 'AL', 'comune', '1863-02-16', '1929-06-05', datetime('now')),
+  ('I659', 'SERRAVALLE LANGHE', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('I660', 'SERRAVALLE PISTOIESE', 'PT', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('I661', 'SERRAVALLE DI CHIENTI', 'MC', 'comune', '1862-10-24', NULL, datetime('now')),
+  ('I662', 'SERRAVALLE A PO', 'MN', 'comune', '1867-06-24', NULL, datetime('now')),
+  ('I663', 'SERRAVALLE SESIA', 'VC', 'comune', '1863-08-10', NULL, datetime('now')),
+  ('I664', 'SERRAVALLE', 'TV', 'comune', NULL, NULL, datetime('now')),
+  ('I665', 'SERRAVALLE ALL''ADIGE', 'TN', 'comune', '1920-10-16', '1928-09-06', datetime('now')),
+  ('I666', 'SERRE', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I667', 'SERRENTI', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I668', 'SERRI', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I669', 'SERRONE', 'FR', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('I670', 'SERRUNGARINA', 'PU', 'comune', '1872-05-29', '2017-01-01', datetime('now')),
+  ('I671', 'SERSALE', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I672', 'SERSO', 'TN', 'comune', '1920-10-16', '1929-01-25', datetime('now')),
+  ('I673', 'SOVRAMONTE', 'BL', 'comune', '1881-12-05', NULL, datetime('now')),
+  ('I674', 'SESANA', 'TS', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('I675', 'SESONA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('I676', 'SESSA AURUNCA', 'NA', 'comune', '1864-11-07', NULL, datetime('now')),
+  ('I677', 'SESSA CILENTO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I678', 'SESSAME', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I679', 'SESSANO DEL MOLISE', 'IS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I680', 'SESSANT', 'AL', 'comune', '1861-03-17', '1929-06-05', datetime('now')),
+  ('I681', 'SESTINO', 'AR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I682', 'SESTO CAMPANO', 'IS', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('I683', 'SESTO ED UNITI', 'CR', 'comune', '1868-01-01', NULL, datetime('now')),
+  ('I684', 'SESTO FIORENTINO', 'FI', 'comune', '1869-08-11', NULL, datetime('now')),
+  ('I685', 'SESTO PERGOLA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('I686', 'SESTO AL REGHENA', 'PN', 'comune', '1867-09-02', NULL, datetime('now')),
+  ('I687', 'SESTO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('I688', 'SESTO CALENDE', 'VA', 'comune', '1869-03-15', NULL, datetime('now')),
+  ('I689', 'SESTOLA', 'MO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I690', 'SESTO SAN GIOVANNI', 'MI', 'comune', '1869-03-01', NULL, datetime('now')),
+  ('I691', 'SESTO ULTERIANO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('I692', 'SESTRIERE', 'TO', 'comune', '1934-11-23', NULL, datetime('now')),
+  ('I693', 'SESTRI LEVANTE', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I694', 'SESTRI PONENTE', 'GE', 'comune', '1861-03-17', '1926-02-06', datetime('now')),
+  ('I695', 'SESTU', 'CA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I696', 'SETTALA', 'MI', 'comune', '1869-02-01', NULL, datetime('now')),
+  ('I697', 'SETTEFRATI', 'FR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I698', 'SETTIME', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I699', 'SETTIMO SAN PIETRO', 'CA', 'comune', '1862-09-29', NULL, datetime('now')),
+  ('I700', 'SETTIMO MILANESE', 'MI', 'comune', '1862-11-03', NULL, datetime('now')),
+  ('I701', 'SETTIMO ROTTARO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I702', 'SETTIMO TAVAGNASCO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I703', 'SETTIMO TORINESE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I704', 'SETTINGIANO', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I705', 'SETZU', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I706', 'SEUI', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I707', 'SEULO', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I708', 'SEUNI', 'CA', 'comune', NULL, NULL, datetime('now')),
+  ('I709', 'SEVESO', 'MB', 'comune', '1869-03-01', NULL, datetime('now')),
+  ('I710', 'SEVIGNANO', 'TN', 'comune', '1920-10-16', '1928-09-09', datetime('now')),
+  ('I711', 'SEZZADIO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I712', 'SEZZE', 'LT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('I713', 'SFORZATICA', 'BG', 'comune', '1861-03-17', '1927-08-20', datetime('now')),
+  ('I714', 'SFRUZ', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('I715', 'SGONICO', 'TS', 'comune', '1921-01-05', NULL, datetime('now')),
+  ('I716', 'SGURGOLA', 'FR', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('I717', 'SIAMAGGIORE', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I718', 'SIAMANNA', 'OR', 'comune', '1974-08-20', NULL, datetime('now')),
+  ('I719', 'SIAMANNA-SIAPICCIA', 'CA', 'comune', '1947-12-13', '1974-08-20', datetime('now')),
+  ('I720', 'SIANO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I721', 'SIAPICCIA', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I722', 'SICCI SAN BIAGIO', 'CA', 'comune', '1868-02-14', '1905-07-11', datetime('now')),
+  ('I723', 'SICULIANA', 'AG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I724', 'SIDDI', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I725', 'SIDERNO', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I726', 'SIENA', 'SI', 'comune', '1876-12-28', NULL, datetime('now')),
+  ('I727', 'SIGILLO', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I728', 'SIGNA', 'FI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I729', 'SILANDRO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('I730', 'SILANUS', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I731', 'SILÌ', 'CA', 'comune', '1861-03-17', '1927-11-09', datetime('now')),
+  ('I732', 'SILIGO', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I733', 'SLUM', 'PL', 'comune', '1922-02-02', '1923-02-08', datetime('now')),
+  ('I734', 'SILIQUA', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I735', 'SILIUS', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I736', 'SILLAVENGO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I737', 'SILLANO', 'LU', 'comune', '1861-03-17', '2015-01-01', datetime('now')),
+  ('I738', 'SILVANO D''ORBA', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I739', 'SILVANO PIETRA', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I740', 'SILVELLA', 'CR', 'comune', '1861-03-17', '1868-07-11', datetime('now')),
+  ('I741', 'SILVI', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I742', 'SIMALA', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I743', 'SIMAXIS', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I744', 'SIMBARIO', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I745', 'SIMERI CRICHI', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I746', 'SENADOLE', 'TS', 'comune', '1921-01-05', '1926-10-29', datetime('now')),
+  ('I747', 'SINAGRA', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I748', 'SINDIA', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I749', 'SINI', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I750', 'SINIO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I751', 'SINISCOLA', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I752', 'SINNAI', 'CA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I753', 'SINOPOLI', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I754', 'SIRACUSA', 'SR', 'comune', '1868-09-15', NULL, datetime('now')),
+  ('I755', 'SIRICO', 'NA', 'comune', NULL, NULL, datetime('now')),
+  ('I756', 'SIRIGNANO', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I757', 'SIRIS', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I758', 'SIROLO', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I759', 'SIRONE', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I760', 'SIROR', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('I761', 'SIRTORI', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I762', 'SISINI', 'CA', 'comune', '1861-03-17', '1927-08-28', datetime('now')),
+  ('I763', 'SISSA', 'PR', 'comune', '1867-06-03', '2014-01-01', datetime('now')),
+  ('I764', 'SIURGUS', 'CA', 'comune', '1861-03-17', '1927-09-16', datetime('now')),
+  ('I765', 'SIURGUS DONIGALA', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I766', 'SIVIANO', 'BS', 'comune', '1861-03-17', '1928-02-16', datetime('now')),
+  ('I767', 'SIZZANO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I768', 'SLAPPE ZORZI', 'GO', 'comune', '1921-01-05', '1928-04-29', datetime('now')),
+  ('I769', 'SLINGIA', 'BZ', 'comune', '1920-10-16', '1928-01-27', datetime('now')),
+  ('I770', 'SLIVIA', 'TS', 'comune', '1921-01-05', '1928-09-09', datetime('now')),
+  ('I771', 'SLUDERNO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('I772', 'SMARANO', 'TN', 'comune', '1920-10-16', '2015-01-01', datetime('now')),
+  ('I773', 'SMERIA', 'FU', 'comune', '1921-01-05', '1924-10-31', datetime('now')),
+  ('I774', 'SMERILLO', 'FM', 'comune', '1919-08-04', NULL, datetime('now')),
+  ('I775', 'SOAVE', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I776', 'SOCCAVO', 'NA', 'comune', '1861-03-17', '1926-07-04', datetime('now')),
+  ('I777', 'SOCCHIEVE', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I778', 'SODDÌ', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I779', 'SOGLIANO AL RUBICONE', 'FC', 'comune', '1862-11-24', NULL, datetime('now')),
+  ('I780', 'SOGLIANO CAVOUR', 'LE', 'comune', '1862-11-28', NULL, datetime('now')),
+  ('I781', 'SOGLIO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I782', 'SOIANO DEL LAGO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I783', 'SOLAGNA', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I784', 'SOLANAS', 'CA', 'comune', '1861-03-17', '1928-02-10', datetime('now')),
+  ('I785', 'SOLARINO', 'SR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I786', 'SOLARO', 'MI', 'comune', '1919-08-04', NULL, datetime('now')),
+  ('I787', 'SOLAROLO', 'RA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I788', 'SOLAROLO DEL PERSICO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('I789', 'SOLAROLO MONASTEROLO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('I790', 'SOLAROLO RAINERIO', 'CR', 'comune', '1868-01-01', NULL, datetime('now')),
+  ('I791', 'SOLARUSSA', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I792', 'SOLBIATE', 'CO', 'comune', '1861-03-17', '2019-01-01', datetime('now')),
+  ('I793', 'SOLBIATE ARNO', 'VA', 'comune', '1905-04-24', NULL, datetime('now')),
+  ('I794', 'SOLBIATE OLONA', 'VA', 'comune', '1893-01-27', NULL, datetime('now')),
+  ('I795', 'SOLBRITO', 'AL', 'comune', '1861-03-17', '1928-02-22', datetime('now')),
+  ('I796', 'SOLDANO', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I797', 'SOLEMINIS', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I798', 'SOLERO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I799', 'SOLESINO', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I800', 'SOLETO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I801', 'SOLFERINO', 'MN', 'comune', '1868-07-01', NULL, datetime('now')),
+  ('I802', 'SOLIERA', 'MO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I803', 'SOLIGNANO', 'PR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I804', 'SULMONA', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I805', 'SOLOFRA', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I806', 'SOLOGNO', 'NO', 'comune', NULL, NULL, datetime('now')),
+  ('I807', 'SOLOMIAC', 'TO', 'comune', '1861-03-17', '1928-12-14', datetime('now')),
+  ('I808', 'SOLONGHELLO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I809', 'SOLOPACA', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I810', 'SOLTARICO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('I811', 'SOLTO', 'BG', 'comune', '1861-03-17', '1928-03-07', datetime('now')),
+  ('I812', 'SOLTO COLLINA', 'BG', 'comune', '1928-03-07', NULL, datetime('now')),
+  ('I813', 'SOLZA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I814', 'SOLZAGO', 'CO', 'comune', '1861-03-17', '1928-09-23', datetime('now')),
+  ('I815', 'SOMAGLIA', 'LO', 'comune', '1882-03-03', NULL, datetime('now')),
+  ('I816', 'SOMANA', 'CO', 'comune', '1861-03-17', '1928-01-27', datetime('now')),
+  ('I817', 'SOMANO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I818', 'SOMENDENNA', 'BG', 'comune', '1861-03-17', '1928-03-27', datetime('now')),
+  ('I819', 'SOMMA LOMBARDO', 'VA', 'comune', '1862-11-07', NULL, datetime('now')),
+  ('I820', 'SOMMA VESUVIANA', 'NA', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('I821', 'SOMMACAMPAGNA', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I822', 'SOMMARIVA DEL BOSCO', 'CN', 'comune', '1871-04-01', NULL, datetime('now')),
+  ('I823', 'SOMMARIVA PERNO', 'CN', 'comune', '1871-04-01', NULL, datetime('now')),
+  ('I824', 'SOMMATINO', 'CL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I825', 'SOMMO', 'PV', 'comune', '1866-01-14', NULL, datetime('now')),
+  ('I826', 'SONA', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I827', 'SONCINO', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I828', 'SONDALO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I829', 'SONDRIO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I830', 'SONGAVAZZO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I831', 'SONICO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I832', 'SONNINO', 'LT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('I833', 'SONZIA', 'GO', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('I834', 'SOPRAMONTE', 'TN', 'comune', '1920-10-16', '1926-11-19', datetime('now')),
+  ('I835', 'SOPRANA', 'BI', 'comune', '1861-03-17', '2019-01-01', datetime('now')),
+  ('I836', 'SOPRAPONTE', 'BS', 'comune', '1861-03-17', '1928-10-09', datetime('now')),
+  ('I837', 'SOPRAZOCCO', 'BS', 'comune', '1861-03-17', '1928-10-09', datetime('now')),
+  ('I838', 'SORA', 'FR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I839', 'SORAGA DI FASSA', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('I840', 'SORAGNA', 'PR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I841', 'SORANO', 'GR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I842', 'SORBANO', 'FO', 'comune', '1861-03-17', '1965-01-17', datetime('now')),
+  ('I843', 'SORBO SERPICO', 'AV', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('I844', 'SORBO SAN BASILE', 'CZ', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('I845', 'SORBOLO', 'PR', 'comune', '1861-03-17', '2019-01-01', datetime('now')),
+  ('I846', 'SORBOLONGO', 'PS', 'comune', '1861-03-17', '1928-06-30', datetime('now')),
+  ('I847', 'SORDEVOLO', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I848', 'SORDIO', 'LO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I849', 'SORESINA', 'CR', 'comune', '1868-01-01', NULL, datetime('now')),
+  ('I850', 'SORGÀ', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I851', 'SORGONO', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I852', 'SORI', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I853', 'SORIANELLO', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I854', 'SORIANO CALABRO', 'VV', 'comune', '1877-11-18', NULL, datetime('now')),
+  ('I855', 'SORIANO NEL CIMINO', 'VT', 'comune', '1871-12-07', NULL, datetime('now')),
+  ('I856', 'SORICO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I857', 'SORISO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I858', 'SORISOLE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I859', 'SORLI', 'AL', 'comune', '1861-03-17', '1928-10-30', datetime('now')),
+  ('I860', 'SORMANO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I861', 'SORRADILE', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I862', 'SORRENTO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I863', 'SORSO', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I864', 'SORTINO', 'SR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I865', 'SOSPIRO', 'CR', 'comune', '1868-07-06', NULL, datetime('now')),
+  ('I866', 'SOSPIROLO', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I867', 'SOSSANO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I868', 'SOSTEGNO', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I869', 'SOTTO IL MONTE GIOVANNI XXIII', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I870', 'SOVAZZA', 'NO', 'comune', '1861-03-17', '1928-11-27', datetime('now')),
+  ('I871', 'SOVER', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('I872', 'SOVERATO', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I873', 'SOVERE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I874', 'SOVERIA MANNELLI', 'CZ', 'comune', '1871-01-01', NULL, datetime('now')),
+  ('I875', 'SOVERIA SIMERI', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I876', 'SOVERZENE', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I877', 'SOVICILLE', 'SI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I878', 'SOVICO', 'MB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I879', 'SOVIZZO', 'VI', 'comune', '1866-11-19', '2024-01-22', datetime('now')),
+  ('I880', 'SOZZAGO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I881', 'SPADAFORA', 'ME', 'comune', '1929-06-13', NULL, datetime('now')),
+  ('I882', 'SPADAFORA SAN MARTINO', 'ME', 'comune', '1861-03-17', '1929-06-13', datetime('now')),
+  ('I883', 'SPADAFORA SAN PIETRO', 'ME', 'comune', '1861-03-17', '1879-08-28', datetime('now')),
+  ('I884', 'SPADOLA', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I885', 'SPARANISE', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I886', 'SPARONE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I887', 'SPECCHIA', 'LE', 'comune', '1874-10-08', NULL, datetime('now')),
+  ('I888', 'SPELLO', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I889', 'SPERA', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('I890', 'SPERCENIGO', 'TV', 'comune', NULL, NULL, datetime('now')),
+  ('I891', 'SPERLINGA', 'EN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I892', 'SPERLONGA', 'LT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I893', 'SPERONE', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I894', 'SPESSA', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I895', 'SPEZZANO ALBANESE', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I896', 'SPEZZANO DELLA SILA', 'CS', 'comune', '1928-05-19', NULL, datetime('now')),
+  ('I897', 'SPEZZANO GRANDE', 'CS', 'comune', '1861-03-17', '1928-05-19', datetime('now')),
+  ('I898', 'SPEZZANO PICCOLO', 'CS', 'comune', '1861-03-17', '2017-05-05', datetime('now')),
+  ('I899', 'SPIAZZO', 'TN', 'comune', '1928-10-30', NULL, datetime('now')),
+  ('I900', 'SPINGA', 'BZ', 'comune', '1920-10-16', '1929-05-31', datetime('now')),
+  ('I901', 'SPIGNO MONFERRATO', 'AL', 'comune', '1863-04-13', NULL, datetime('now')),
+  ('I902', 'SPIGNO SATURNIA', 'LT', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('I903', 'SPILAMBERTO', 'MO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I904', 'SPILIMBERGO', 'PN', 'comune', '1872-01-01', NULL, datetime('now')),
+  ('I905', 'SPILINGA', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I906', 'SPINADESCO', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I907', 'SPINAZZOLA', 'BT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I908', 'SPINEA', 'VE', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I909', 'SPINEDA', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I910', 'SPINETE', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I911', 'SPINETO SCRIVIA', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I912', 'SPINETOLI', 'AP', 'comune', '1867-01-31', NULL, datetime('now')),
+  ('I913', 'SPINO AL BREMBO', 'BG', 'comune', '1863-07-13', '1928-03-27', datetime('now')),
+  ('I914', 'SPINO D''ADDA', 'CR', 'comune', '1868-08-14', NULL, datetime('now')),
+  ('I915', 'SPINONE', 'BG', 'comune', '1861-03-17', '1928-07-30', datetime('now')),
+  ('I916', 'SPINONE AL LAGO', 'BG', 'comune', '1928-07-29', NULL, datetime('now')),
+  ('I917', 'SPINOSO', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I918', 'SPIRAGO', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('I919', 'SPIRANO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I920', 'SPOCCIA', 'NO', 'comune', '1861-03-17', '1928-01-01', datetime('now')),
+  ('I921', 'SPOLETO', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I922', 'SPOLTORE', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I923', 'SPONGANO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I924', 'SPORMAGGIORE', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('I925', 'SPORMINORE', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('I926', 'SPOTORNO', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I927', 'SPRESIANO', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I928', 'SPRIANA', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I929', 'SQUILLACE', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I930', 'SQUINZANO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I931', 'STABELLO', 'BG', 'comune', '1861-03-17', '1928-03-27', datetime('now')),
+  ('I932', 'STAFFOLO', 'AN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I933', 'STAGHIGLIONE', 'PV', 'comune', '1861-03-17', '1928-11-29', datetime('now')),
+  ('I934', 'STAGLIENO', 'GE', 'comune', NULL, NULL, datetime('now')),
+  ('I935', 'STAGNO LOMBARDO', 'CR', 'comune', '1895-11-04', NULL, datetime('now')),
+  ('I936', 'STAITI', 'RC', 'comune', '1885-01-15', NULL, datetime('now')),
+  ('I937', 'STALETTÌ', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I938', 'STANGHELLA', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I939', 'STARANZANO', 'GO', 'comune', '1921-01-05', NULL, datetime('now')),
+  ('I940', 'STAVA', 'BZ', 'comune', '1920-10-16', '1928-12-07', datetime('now')),
+  ('I941', 'STAZZANO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I942', 'STAZZEMA', 'LU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I943', 'STAZZONA', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I944', 'STAZZONA GERMASINO', 'CO', 'comune', '1928-04-17', '1954-07-01', datetime('now')),
+  ('I945', 'STEFANACONI', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I946', 'STELLA', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I947', 'STELLANELLO', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I948', 'STELVIO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('I949', 'STENICO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('I950', 'STERNATIA', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I951', 'STEZZANO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I952', 'STIA', 'AR', 'comune', '1861-03-17', '2014-01-01', datetime('now')),
+  ('I953', 'STIENTA', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I954', 'STIGLIANO', 'MT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I955', 'STIGNANO', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I956', 'STILO', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I957', 'STILO DE'' MARIANI', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('I958', 'STILVES', 'BZ', 'comune', '1920-10-16', '1928-12-10', datetime('now')),
+  ('I959', 'STIMIGLIANO', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I960', 'STIO', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I961', 'STORIE', 'TS', 'comune', '1921-01-05', '1927-06-09', datetime('now')),
+  ('I962', 'STORNARA', 'FG', 'comune', '1905-07-10', NULL, datetime('now')),
+  ('I963', 'STORNARELLA', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I964', 'STORO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('I965', 'STRA', 'VE', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I966', 'STRACONDOLO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('I967', 'STRADA', 'TN', 'comune', '1920-10-16', '1928-03-07', datetime('now')),
+  ('I968', 'STRADELLA', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I969', 'STRAMBINELLO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I970', 'STRAMBINO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I971', 'STRAMBINO ROMANO', 'TO', 'comune', '1928-06-15', '1946-12-25', datetime('now')),
+  ('I972', 'STRAMENTIZZO', 'TN', 'comune', '1920-10-16', '1925-03-19', datetime('now')),
+  ('I973', 'STRANGOLAGALLI', 'FR', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('I974', 'STREGNA', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('I975', 'STREMBO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('I976', 'STRESA', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I977', 'STREVI', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I978', 'STRIANO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I979', 'STRIGNO', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('I980', 'STRONA', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I981', 'STRONCONE', 'TR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I982', 'STRONGOLI', 'KR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I983', 'STROPINO', 'NO', 'comune', '1861-03-17', '1928-09-26', datetime('now')),
+  ('I984', 'STROPPIANA', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I985', 'STROPPO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I986', 'STROZZA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I987', 'STRUPPA', 'GE', 'comune', '1861-03-17', '1926-02-06', datetime('now')),
+  ('I988', 'STUMIAGA', 'TN', 'comune', '1920-10-16', '1928-04-03', datetime('now')),
+  ('I989', 'STURIA DELLE FUSINE', 'GO', 'comune', '1921-01-05', '1928-07-28', datetime('now')),
+  ('I990', 'STURNO', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I991', 'SUBBIANO', 'AR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I992', 'SUBIACO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('I993', 'SUCCIVO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I994', 'SUEGLIO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I995', 'SUELLI', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I996', 'SUELLO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I997', 'SUISIO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('I998', 'SULBIATE', 'MB', 'comune', '1909-07-04', NULL, datetime('now')),
+  ('I999', 'SULBIATE INFERIORE', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('L001', 'SULBIATE SUPERIORE', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('L002', 'SULZANO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L003', 'SUMIRAGO', 'VA', 'comune', '1869-03-22', NULL, datetime('now')),
+  ('L004', 'SUMMONTE', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L005', 'SUNA', 'NO', 'comune', '1861-03-17', '1927-11-02', datetime('now')),
+  ('L006', 'SUNI', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L007', 'SUNO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L008', 'SUPERSANO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L009', 'SUPINO', 'FR', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('L010', 'SURANO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L011', 'SURBO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L012', 'SUSÀ', 'TN', 'comune', '1920-10-16', '1929-01-25', datetime('now')),
+  ('L013', 'SUSA', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L014', 'SUSEGANA', 'TV', 'comune', '1889-08-16', NULL, datetime('now')),
+  ('L015', 'SUSTINENTE', 'MN', 'comune', '1866-11-19', NULL, datetime('now'));
+
+INSERT INTO belfioreCodes (code, name, province, kind, validFrom, validTo, updatedAt) VALUES
+  ('L016', 'SUTERA', 'CL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L017', 'SUTRI', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('L018', 'SUTRIO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L019', 'SUVERETO', 'LI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L020', 'SUZZARA', 'MN', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L021', 'TABLÀ', 'BZ', 'comune', '1920-10-16', '1928-12-07', datetime('now')),
+  ('L022', 'TACENO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L023', 'TADASUNI', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L024', 'TAGGIA', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L025', 'TAGLIACOZZO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L026', 'TAGLIO DI PO', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L027', 'TAGLIOLO MONFERRATO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L028', 'TAGLIOLO BELFORTE', 'AL', 'comune', '1928-01-29', '1947-06-24', datetime('now')),
+  ('L029', 'TAGLIUNO', 'BG', 'comune', '1861-03-17', '1927-08-05', datetime('now')),
+  ('L030', 'TAIBON AGORDINO', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L031', 'TAINATE', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('L032', 'TAINO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L033', 'TAIO', 'TN', 'comune', '1920-10-16', '2015-01-01', datetime('now')),
+  ('L034', 'TALAMELLO', 'RN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L035', 'TALAMONA', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L036', 'TALANA', 'OG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L037', 'TALEGGIO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L038', 'TALLA', 'AR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L039', 'TALMASSONS', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L040', 'TAMBRE', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L041', 'TANAS', 'BZ', 'comune', '1920-10-16', '1929-05-15', datetime('now')),
+  ('L042', 'TAORMINA', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L043', 'TAPIGLIANO', 'NO', 'comune', '1861-03-17', '1928-05-03', datetime('now')),
+  ('L044', 'TAPOGLIANO', 'UD', 'comune', '1867-09-02', '2009-01-01', datetime('now')),
+  ('L045', 'TAPPIA', 'NO', 'comune', '1861-03-17', '1928-07-30', datetime('now')),
+  ('L046', 'TARANO', 'RI', 'comune', '1871-03-01', NULL, datetime('now')),
+  ('L047', 'TARANTA PELIGNA', 'CH', 'comune', '1881-09-04', NULL, datetime('now')),
+  ('L048', 'TARANTASCA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L049', 'TARANTO', 'TA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L050', 'TARCENTO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L051', 'TARCES', 'BZ', 'comune', '1920-10-16', '1928-01-27', datetime('now')),
+  ('L052', 'TARCETTA', 'UD', 'comune', '1866-11-19', '1929-01-25', datetime('now')),
+  ('L053', 'TARNOVA DELLA SELVA', 'GO', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('L054', 'TARRES', 'BZ', 'comune', '1920-10-16', '1928-12-10', datetime('now')),
+  ('L055', 'TARSIA', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L056', 'TARTANO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L057', 'TARVISIO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L058', 'TARZO', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L059', 'TASSAROLO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L060', 'TASSULLO', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('L061', 'TAURANO', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L062', 'TAURASI', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L063', 'TAURIANOVA', 'RC', 'comune', '1928-03-27', NULL, datetime('now')),
+  ('L064', 'TAURISANO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L065', 'TAVAGNACCO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L066', 'TAVAGNASCO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L067', 'TAVARNELLE VAL DI PESA', 'FI', 'comune', '1893-01-02', '2019-01-01', datetime('now')),
+  ('L068', 'TAVAZZANO', 'MI', 'comune', '1861-03-17', '1869-04-01', datetime('now')),
+  ('L069', 'TAVENNA', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L070', 'TAVERNA', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L071', 'TAVERNERIO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L072', 'TAVERNOLA SAN FELICE', 'AV', 'comune', '1869-04-26', '1927-08-06', datetime('now')),
+  ('L073', 'TAVERNOLA BERGAMASCA', 'BG', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('L074', 'TAVIANO', 'LE', 'comune', '1885-01-15', NULL, datetime('now')),
+  ('L075', 'TAVIGLIANO', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L076', 'TAVODO', 'TN', 'comune', '1920-10-16', '1928-01-26', datetime('now')),
+  ('L077', 'TAVOLE', 'IM', 'comune', '1861-03-17', '1928-04-17', datetime('now')),
+  ('L078', 'TAVOLETO', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L079', 'TAVON', 'TN', 'comune', '1920-10-16', '1929-01-24', datetime('now')),
+  ('L080', 'TAVORDO', 'CO', 'comune', '1861-03-17', '1928-03-07', datetime('now')),
+  ('L081', 'TAVULLIA', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L082', 'TEANA', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L083', 'TEANO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L084', 'TEGLIO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L085', 'TEGLIO VENETO', 'VE', 'comune', '1868-02-14', NULL, datetime('now')),
+  ('L086', 'TELESE TERME', 'BN', 'comune', '1934-02-13', NULL, datetime('now')),
+  ('L087', 'TELGATE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L088', 'TELTI', 'OT', 'comune', '1963-09-27', NULL, datetime('now')),
+  ('L089', 'TELVE', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L090', 'TELVE DI SOPRA', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L091', 'TELVES', 'BZ', 'comune', '1920-10-16', '1928-04-13', datetime('now')),
+  ('L092', 'TEMENIZZA', 'GO', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('L093', 'TEMPIO PAUSANIA', 'OT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L094', 'TEMÙ', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L095', 'TENDA', 'CN', 'comune', '1861-03-17', '1947-09-16', datetime('now')),
+  ('L096', 'TENNA', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L097', 'TENNO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L098', 'TEODONE', 'BZ', 'comune', '1920-10-16', '1928-04-05', datetime('now')),
+  ('L099', 'TEODORANO', 'FO', 'comune', '1861-03-17', '1925-11-02', datetime('now')),
+  ('L100', 'TEOLO', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L101', 'TEOR', 'UD', 'comune', '1866-11-19', '2014-01-01', datetime('now')),
+  ('L102', 'TEORA', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L103', 'TERAMO', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L104', 'TERDOBBIATE', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L105', 'TERELLE', 'FR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L106', 'TERENTO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L107', 'TERLAGO', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('L108', 'TERLANO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L109', 'TERLIZZI', 'BA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L110', 'TERMENAGO', 'TN', 'comune', '1920-10-16', '1928-09-09', datetime('now')),
+  ('L111', 'TERMENO SULLA STRADA DEL VINO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L112', 'TERMINI IMERESE', 'PA', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('L113', 'TERMOLI', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L114', 'TERMON', 'TN', 'comune', '1920-10-16', '1928-10-30', datetime('now')),
+  ('L115', 'TERNATE', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L116', 'TERNENGO', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L117', 'TERNI', 'TR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L118', 'TERNO D''ISOLA', 'BG', 'comune', '1892-12-19', NULL, datetime('now')),
+  ('L119', 'TERNOVA D''ISONZO', 'GO', 'comune', '1921-01-05', '1928-05-02', datetime('now')),
+  ('L120', 'TERRACINA', 'LT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('L121', 'TERRAGNOLO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L122', 'TERRALBA', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L123', 'TERRANUOVA BRACCIOLINI', 'AR', 'comune', '1868-08-09', NULL, datetime('now')),
+  ('L124', 'TERRANOVA DA SIBARI', 'CS', 'comune', '1864-03-04', NULL, datetime('now')),
+  ('L125', 'TERRANOVA DEI PASSERINI', 'LO', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('L126', 'TERRANOVA DI POLLINO', 'PZ', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('L127', 'TERRANOVA SAPPO MINULIO', 'RC', 'comune', '1864-06-23', NULL, datetime('now')),
+  ('L128', 'TORRENOVA DI BISTERZA', 'FU', 'comune', '1921-01-05', '1927-12-16', datetime('now')),
+  ('L129', 'TERRAROSSA', 'MS', 'comune', NULL, NULL, datetime('now')),
+  ('L130', 'TERRASA', 'PV', 'comune', '1861-03-17', '1928-11-29', datetime('now')),
+  ('L131', 'TERRASINI', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L132', 'TERRASSA PADOVANA', 'PD', 'comune', '1867-08-05', NULL, datetime('now')),
+  ('L133', 'TERRATI', 'CS', 'comune', '1861-03-17', '1928-01-18', datetime('now')),
+  ('L134', 'TERRAVECCHIA', 'CS', 'comune', '1921-05-12', NULL, datetime('now')),
+  ('L135', 'TERRAZZANO', 'MI', 'comune', '1861-03-17', '1928-06-27', datetime('now')),
+  ('L136', 'TERRAZZO', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L137', 'TERRES', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('L138', 'TERRICCIOLA', 'PI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L139', 'TERRUGGIA', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L140', 'TERTENIA', 'OG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L141', 'TERZANO', 'BS', 'comune', '1861-03-17', '1928-05-13', datetime('now')),
+  ('L142', 'TERZIGNO', 'NA', 'comune', '1913-07-13', NULL, datetime('now')),
+  ('L143', 'TERZO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L144', 'TERZO D''AQUILEIA', 'UD', 'comune', '1878-11-23', NULL, datetime('now')),
+  ('L145', 'TERZOLAS', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L146', 'TERZORIO', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L147', 'TESERO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L148', 'TESIDO', 'BZ', 'comune', '1920-10-16', '1929-05-15', datetime('now')),
+  ('L149', 'TESIMO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L150', 'TESSENNANO', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('L151', 'TESTACCIO D''ISCHIA', 'NA', 'comune', NULL, NULL, datetime('now')),
+  ('L152', 'TESTICO', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L153', 'TETI', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L154', 'TEULADA', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L155', 'TEVEROLA', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L156', 'TEZZE SUL BRENTA', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L157', 'THIENE', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L158', 'THIESI', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L159', 'THURES', 'TO', 'comune', '1861-03-17', '1928-12-14', datetime('now')),
+  ('L160', 'TIANA', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L161', 'TIARNO', 'TN', 'comune', '1928-02-23', '1947-07-10', datetime('now')),
+  ('L162', 'TIARNO DI SOPRA', 'TN', 'comune', '1920-10-16', '2010-01-01', datetime('now')),
+  ('L163', 'TIARNO DI SOTTO', 'TN', 'comune', '1920-10-16', '2010-01-01', datetime('now')),
+  ('L164', 'TICENGO', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L165', 'TICINETO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L166', 'TIGGIANO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L167', 'TIGLIETO', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L168', 'TIGLIOLE', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L169', 'TIGNALE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L170', 'TIMOLINE', 'BS', 'comune', '1861-03-17', '1928-07-29', datetime('now')),
+  ('L171', 'TINA', 'AO', 'comune', '1861-03-17', '1928-03-08', datetime('now')),
+  ('L172', 'TINNURA', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L173', 'TIONE DEGLI ABRUZZI', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L174', 'TIONE DI TRENTO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L175', 'TIRANO', 'SO', 'comune', '1875-06-11', NULL, datetime('now')),
+  ('L176', 'TIRES', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L177', 'TIRIOLO', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L178', 'TIROLO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L179', 'TISO', 'BZ', 'comune', '1920-10-16', '1929-04-12', datetime('now')),
+  ('L180', 'TISSI', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L181', 'TITO', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L182', 'TIVOLI', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('L183', 'TIZZANO VAL PARMA', 'PR', 'comune', '1863-08-10', NULL, datetime('now')),
+  ('L184', 'TOANO', 'RE', 'comune', '1884-06-20', NULL, datetime('now')),
+  ('L185', 'TOCCO CAUDIO', 'BN', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('L186', 'TOCCO DA CASAURIA', 'PE', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('L187', 'TOCENO', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L188', 'TODI', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L189', 'TOFFIA', 'RI', 'comune', '1876-09-10', NULL, datetime('now')),
+  ('L190', 'TOIRANO', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L191', 'TOLENTINO', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L192', 'TOLFA', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('L193', 'TOLLEGNO', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L194', 'TOLLO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L195', 'TOLMEZZO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L196', 'TOLMINO', 'GO', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('L197', 'TOLVE', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L198', 'TOMADIO', 'TS', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('L199', 'TOMBOLO', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L200', 'TON', 'TN', 'comune', '1928-12-22', NULL, datetime('now')),
+  ('L201', 'TONADICO', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('L202', 'TONARA', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L203', 'TONCO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L204', 'TONENGO', 'AT', 'comune', '1861-03-17', '2023-01-01', datetime('now')),
+  ('L205', 'TORA E PICCILLI', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L206', 'TORANO CASTELLO', 'CS', 'comune', '1864-11-07', NULL, datetime('now')),
+  ('L207', 'TORANO NUOVO', 'TE', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('L208', 'TORBA', 'VA', 'comune', '1861-03-17', '1928-04-07', datetime('now')),
+  ('L209', 'TORBIATO', 'BS', 'comune', '1861-03-17', '1928-08-14', datetime('now')),
+  ('L210', 'TORBOLE CASAGLIA', 'BS', 'comune', '1872-01-19', NULL, datetime('now')),
+  ('L211', 'TORCEGNO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L212', 'TORCHIARA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L213', 'TORCHIAROLO', 'BR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L214', 'TORELLA DEI LOMBARDI', 'AV', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('L215', 'TORELLA DEL SANNIO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L216', 'TORGIANO', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L217', 'TORGNON', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L218', 'TORINO DI SANGRO', 'CH', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('L219', 'TORINO', 'TO', 'comune', '1889-08-12', NULL, datetime('now')),
+  ('L220', 'TORITTO', 'BA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L221', 'TORLINO VIMERCATI', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L222', 'TORMO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('L223', 'TORNACO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L224', 'TORNARECCIO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L225', 'TORNATA', 'CR', 'comune', '1868-01-01', NULL, datetime('now')),
+  ('L226', 'TORNAVENTO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('L227', 'TORNIMPARTE', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L228', 'TORNO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L229', 'TORNOLO', 'PR', 'comune', '1893-08-11', NULL, datetime('now')),
+  ('L230', 'TORO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L231', 'TORPÈ', 'NU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L232', 'TORRA', 'TN', 'comune', '1920-10-16', '1929-01-24', datetime('now')),
+  ('L233', 'TORRACA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L234', 'TORRADELLO', 'PV', 'comune', '1861-03-17', '1872-10-29', datetime('now')),
+  ('L235', 'TORRALBA', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L236', 'TORRAZZA', 'IM', 'comune', '1861-03-17', '1923-11-29', datetime('now')),
+  ('L237', 'TORRAZZA COSTE', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L238', 'TORRAZZA PIEMONTE', 'TO', 'comune', '1919-08-22', NULL, datetime('now')),
+  ('L239', 'TORRAZZO', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L240', 'TORRE DI RUGGIERO', 'CZ', 'comune', '1864-06-23', NULL, datetime('now')),
+  ('L241', 'TORRE MONDOVÌ', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('L242', 'TORRE SAN MARCO', 'PU', 'comune', NULL, NULL, datetime('now')),
+  ('L243', 'TORRE CAJETANI', 'FR', 'comune', '1872-10-18', NULL, datetime('now')),
+  ('L244', 'TORRE DI SANTA MARIA', 'SO', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('L245', 'TORRE ANNUNZIATA', 'NA', 'comune', '1877-03-09', NULL, datetime('now')),
+  ('L246', 'TORREANO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L247', 'TORRE BAIRO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L248', 'TORREBELVICINO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L249', 'TORRE BERETTI', 'PV', 'comune', '1861-03-17', '1928-07-28', datetime('now')),
+  ('L250', 'TORRE BERETTI E CASTELLARO', 'PV', 'comune', '1928-07-28', NULL, datetime('now')),
+  ('L251', 'TORRE BOLDONE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L252', 'TORRE BORMIDA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L253', 'TORREBRUNA', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L254', 'TORRECUSO', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L255', 'TORRE D''ANGIOLINI', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('L256', 'TORRE D''ARESE', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L257', 'TORRE DE'' BUSI', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L258', 'TORRE DE'' PICENARDI', 'CR', 'comune', '1868-01-01', NULL, datetime('now')),
+  ('L259', 'TORRE DEL GRECO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L260', 'TORRE DEL MANGANO', 'PV', 'comune', '1871-06-01', '1929-03-21', datetime('now')),
+  ('L261', 'TORRE DEL MONTE', 'PV', 'comune', '1861-03-17', '1928-11-29', datetime('now')),
+  ('L262', 'TORRE DE'' NEGRI', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L263', 'TORRE DE'' PASSERI', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L264', 'TORRE DE'' RATTI', 'AL', 'comune', '1861-03-17', '1928-06-28', datetime('now')),
+  ('L265', 'TORRE DE'' ROVERI', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L266', 'TORRE DE'' TORTI', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('L267', 'TORRE DI MOSTO', 'VE', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L268', 'TORRE DI PALME', 'AP', 'comune', NULL, NULL, datetime('now')),
+  ('L269', 'TORRE D''ISOLA', 'PV', 'comune', '1872-11-01', NULL, datetime('now')),
+  ('L270', 'TORREGLIA', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L271', 'TORREGROTTA', 'ME', 'comune', '1923-11-28', NULL, datetime('now')),
+  ('L272', 'TORRE LE NOCELLE', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L273', 'TORREMAGGIORE', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L274', 'TORRE ORSAIA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L275', 'TORRE ORSINA', 'TR', 'comune', '1861-03-17', '1927-01-13', datetime('now')),
+  ('L276', 'TORRE PALLAVICINA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L277', 'TORRE PELLICE', 'TO', 'comune', '1878-02-18', NULL, datetime('now')),
+  ('L278', 'TORRE SAN GIORGIO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L279', 'TORRE SAN PATRIZIO', 'FM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L280', 'TORRE SANTA SUSANNA', 'BR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L281', 'TORRESINA', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('L282', 'TORRETTA', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L283', 'TORRE UZZONE', 'CN', 'comune', '1861-03-17', '1928-04-07', datetime('now')),
+  ('L284', 'TORREVECCHIA TEATINA', 'CH', 'comune', '1879-05-12', NULL, datetime('now')),
+  ('L285', 'TORREVECCHIA PIA', 'PV', 'comune', '1872-11-01', NULL, datetime('now')),
+  ('L286', 'TORRI IN SABINA', 'RI', 'comune', '1876-03-17', NULL, datetime('now')),
+  ('L287', 'TORRI DEL BENACO', 'VR', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('L288', 'TORRIA', 'IM', 'comune', '1861-03-17', '1928-04-17', datetime('now')),
+  ('L289', 'TORRIANO', 'PV', 'comune', '1872-11-01', '1929-03-21', datetime('now')),
+  ('L290', 'TORRICE', 'FR', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('L291', 'TORRICELLA PELIGNA', 'CH', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('L292', 'TORRICELLA VERZATE', 'PV', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('L293', 'TORRICELLA IN SABINA', 'RI', 'comune', '1876-09-16', NULL, datetime('now')),
+  ('L294', 'TORRICELLA', 'TA', 'comune', '1954-10-29', NULL, datetime('now')),
+  ('L295', 'TORRICELLA SICURA', 'TE', 'comune', '1869-01-28', NULL, datetime('now')),
+  ('L296', 'TORRICELLA DEL PIZZO', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L297', 'TORRI DI QUARTESOLO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L298', 'TORRIGLIA', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L299', 'TORRILE', 'PR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L300', 'TORRINO', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('L301', 'TORRIONI', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L302', 'TORRITA TIBERINA', 'RM', 'comune', '1872-10-30', NULL, datetime('now')),
+  ('L303', 'TORRITA DI SIENA', 'SI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L304', 'TORTONA', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L305', 'TORTORA', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L306', 'TORTORELLA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L307', 'TORTORETO', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L308', 'TORTORICI', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L309', 'TORVISCOSA', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L310', 'TUSCANIA', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('L311', 'TOSCOLANO', 'BS', 'comune', '1861-03-17', '1928-07-29', datetime('now')),
+  ('L312', 'TOSCOLANO-MADERNO', 'BS', 'comune', '1928-07-29', NULL, datetime('now')),
+  ('L313', 'TOSS', 'TN', 'comune', '1920-10-16', '1928-12-22', datetime('now')),
+  ('L314', 'TOSSICIA', 'TE', 'comune', '1894-03-05', NULL, datetime('now')),
+  ('L315', 'TOVO SAN GIACOMO', 'SV', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('L316', 'TOVO DI SANT''AGATA', 'SO', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('L317', 'TRABIA', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L318', 'TRABUCHELLO', 'BG', 'comune', '1861-03-17', '1928-08-15', datetime('now')),
+  ('L319', 'TRADATE', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L320', 'TRAFFIUME', 'NO', 'comune', '1861-03-17', '1928-02-10', datetime('now')),
+  ('L321', 'TRAMATZA', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L322', 'TRAMBILENO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L323', 'TRAMONTI', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L324', 'TRAMONTI DI SOPRA', 'PN', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L325', 'TRAMONTI DI SOTTO', 'PN', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L326', 'TRAMUTOLA', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L327', 'TRANA', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L328', 'TRANI', 'BT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L329', 'TRANSACQUA', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('L330', 'TRAONA', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L331', 'TRAPANI', 'TP', 'comune', '1868-08-25', NULL, datetime('now')),
+  ('L332', 'TRAPPETO', 'PA', 'comune', '1954-07-23', NULL, datetime('now')),
+  ('L333', 'TRAREGO VIGGIONA', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L334', 'TRASACCO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L335', 'TRASAGHIS', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L336', 'TRASQUERA', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L337', 'TRATALIAS', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L338', 'TRAUSELLA', 'AO', 'comune', '1861-03-17', '2019-01-01', datetime('now')),
+  ('L339', 'TRAVAGLIATO', 'BS', 'comune', '1879-01-24', NULL, datetime('now')),
+  ('L340', 'TRAVES', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L341', 'TRAVEDONA', 'VA', 'comune', '1861-03-17', '1927-09-04', datetime('now')),
+  ('L342', 'TRAVEDONA-MONATE', 'VA', 'comune', '1927-09-04', NULL, datetime('now')),
+  ('L343', 'TRAVERSA', 'CO', 'comune', '1861-03-17', '1928-05-01', datetime('now')),
+  ('L344', 'TRAVERSE', 'TO', 'comune', '1861-03-17', '1928-05-01', datetime('now')),
+  ('L345', 'TRAVERSELLA', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L346', 'TRAVERSETOLO', 'PR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L347', 'TRAVESIO', 'PN', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L348', 'TRAVO', 'PC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L349', 'TREBASELEGHE', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L350', 'TREBBIANO NIZZA', 'PV', 'comune', '1863-03-30', '1928-08-07', datetime('now')),
+  ('L351', 'TREBECCO', 'PC', 'comune', '1861-03-17', '1929-02-14', datetime('now')),
+  ('L352', 'TREBIANO MAGRA', 'GE', 'comune', NULL, NULL, datetime('now')),
+  ('L353', 'TREBISACCE', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L354', 'TRECASALI', 'PR', 'comune', '1867-06-03', '2014-01-01', datetime('now')),
+  ('L355', 'TRECASTAGNI', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L356', 'TRECATE', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L357', 'TRECCHINA', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L358', 'TRECELLA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('L359', 'TRECENTA', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L360', 'TREDOSSI', 'CR', 'comune', '1866-01-22', '1928-06-27', datetime('now')),
+  ('L361', 'TREDOZIO', 'FC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L362', 'TREGASIO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('L363', 'TREGLIO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L364', 'TREGNAGO', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L365', 'TREGOLO', 'CO', 'comune', NULL, NULL, datetime('now')),
+  ('L366', 'TREIA', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L367', 'TREISO', 'CN', 'comune', '1957-08-14', NULL, datetime('now')),
+  ('L368', 'TREMENICO', 'LC', 'comune', '1861-03-17', '2018-01-01', datetime('now')),
+  ('L369', 'TREMESTIERI ETNEO', 'CT', 'comune', '1874-06-30', NULL, datetime('now')),
+  ('L370', 'TREMEZZINA', 'CO', 'comune', '1929-02-08', '1947-10-04', datetime('now')),
+  ('L371', 'TREMEZZO', 'CO', 'comune', '1861-03-17', '2014-02-04', datetime('now')),
+  ('L372', 'TREMOSINE SUL GARDA', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L373', 'TRENNO', 'MI', 'comune', '1869-02-01', '1923-10-14', datetime('now')),
+  ('L374', 'TRENS', 'BZ', 'comune', '1920-10-16', '1928-12-10', datetime('now')),
+  ('L375', 'TRENTA', 'CS', 'comune', '1861-03-17', '2017-05-05', datetime('now')),
+  ('L376', 'TRENTA D''ISONZO', 'GO', 'comune', '1921-01-05', '1928-02-21', datetime('now')),
+  ('L377', 'TRENTINARA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L378', 'TRENTO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L379', 'TRENTOLA', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L380', 'TRENZANO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L381', 'TREPPO CARNICO', 'UD', 'comune', '1867-09-02', '2018-02-01', datetime('now')),
+  ('L382', 'TREPPO GRANDE', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L383', 'TREPUZZI', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L384', 'TREQUANDA', 'SI', 'comune', '1877-07-16', NULL, datetime('now')),
+  ('L385', 'TRES', 'TN', 'comune', '1920-10-16', '2015-01-01', datetime('now')),
+  ('L386', 'TRESANA', 'MS', 'comune', '1869-04-01', NULL, datetime('now')),
+  ('L387', 'TRESCHÈ CONCA', 'VI', 'comune', '1906-04-18', '1928-08-07', datetime('now')),
+  ('L388', 'TRESCORE BALNEARIO', 'BG', 'comune', '1867-07-22', NULL, datetime('now')),
+  ('L389', 'TRESCORE CREMASCO', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L390', 'TRESIGALLO', 'FE', 'comune', '1961-12-26', '2019-01-01', datetime('now')),
+  ('L391', 'TRESILICO', 'RC', 'comune', '1861-03-17', '1927-08-24', datetime('now')),
+  ('L392', 'TRESIVIO', 'SO', 'comune', '1867-01-06', NULL, datetime('now')),
+  ('L393', 'TRESNURAGHES', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L394', 'TRETTO', 'VI', 'comune', '1866-11-19', '1969-08-28', datetime('now')),
+  ('L395', 'TREVANO', 'CO', 'comune', '1861-03-17', '1938-01-18', datetime('now')),
+  ('L396', 'TREVENZUOLO', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L397', 'TREVI', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L398', 'TREVI NEL LAZIO', 'FR', 'comune', '1872-10-18', NULL, datetime('now')),
+  ('L399', 'TREVICO', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L400', 'TREVIGLIO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L401', 'TREVIGNANO ROMANO', 'RM', 'comune', '1884-06-14', NULL, datetime('now')),
+  ('L402', 'TREVIGNANO', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L403', 'TREVILLE', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L404', 'TREVIOLO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L405', 'TREVISAGO', 'VA', 'comune', '1861-03-17', '1927-05-27', datetime('now')),
+  ('L406', 'TREVISO BRESCIANO', 'BS', 'comune', '1867-06-02', NULL, datetime('now')),
+  ('L407', 'TREVISO', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L408', 'TREZZANO ROSA', 'MI', 'comune', '1862-11-03', NULL, datetime('now')),
+  ('L409', 'TREZZANO SUL NAVIGLIO', 'MI', 'comune', '1862-11-03', NULL, datetime('now')),
+  ('L410', 'TREZZO TINELLA', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('L411', 'TREZZO SULL''ADDA', 'MI', 'comune', '1869-02-01', NULL, datetime('now')),
+  ('L412', 'TREZZOLASCO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('L413', 'TREZZONE', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L414', 'TRIBANO', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L415', 'TRIBIANO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L416', 'TRIBOGNA', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L417', 'TRIBUSSA', 'GO', 'comune', '1921-01-05', '1928-01-26', datetime('now')),
+  ('L418', 'TRICARICO', 'MT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L419', 'TRICASE', 'LE', 'comune', '1874-10-08', NULL, datetime('now')),
+  ('L420', 'TRICERRO', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L421', 'TRICESIMO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L422', 'TRICHIANA', 'BL', 'comune', '1866-11-19', '2019-01-30', datetime('now')),
+  ('L423', 'TRIEI', 'OG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L424', 'TRIESTE', 'TS', 'comune', '1921-01-05', NULL, datetime('now')),
+  ('L425', 'TRIGGIANO', 'BA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L426', 'TRIGOLO', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L427', 'TRINITÀ', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L428', 'TRINITÀ D''AGULTU E VIGNOLA', 'OT', 'comune', '1958-08-12', NULL, datetime('now')),
+  ('L429', 'TRINO', 'VC', 'comune', '1870-09-01', NULL, datetime('now')),
+  ('L430', 'TRIORA', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L431', 'TRIPI', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L432', 'TRISOBBIO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L433', 'TRISSINO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L434', 'TRIUGGIO', 'MB', 'comune', '1871-07-01', NULL, datetime('now')),
+  ('L435', 'TRIVENTO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L436', 'TRIVERO', 'BI', 'comune', '1861-03-17', '2019-01-01', datetime('now')),
+  ('L437', 'TRIVIGLIANO', 'FR', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('L438', 'TRIVIGNANO UDINESE', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L439', 'TRIVIGNO', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L440', 'TRIVOLZIO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L441', 'TRIVULZA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('L442', 'TRIVULZINA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('L443', 'TROBASO', 'NO', 'comune', '1861-03-17', '1927-12-04', datetime('now')),
+  ('L444', 'TRODENA NEL PARCO NATURALE', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L445', 'TROFARELLO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L446', 'TROGNANO', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('L447', 'TROIA', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L448', 'TROINA', 'EN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L449', 'TROMELLO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L450', 'TRONTANO', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L451', 'TRONZANO VERCELLESE', 'VC', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('L452', 'TROPEA', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L453', 'TROVO', 'PV', 'comune', '1872-11-01', NULL, datetime('now')),
+  ('L454', 'TRUCCAZZANO', 'MI', 'comune', '1869-02-01', NULL, datetime('now')),
+  ('L455', 'TUBRE', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L456', 'TUENETTO', 'TN', 'comune', '1920-10-16', '1929-01-24', datetime('now')),
+  ('L457', 'TUENNO', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('L458', 'TUFARA', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L459', 'TUFILLO', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L460', 'TUFINO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L461', 'TUFO', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L462', 'TUGLIE', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L463', 'TUILI', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L464', 'TULA', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L465', 'TUNES', 'BZ', 'comune', '1920-10-16', '1931-12-07', datetime('now')),
+  ('L466', 'TUORO SUL TRASIMENO', 'PG', 'comune', '1875-05-11', NULL, datetime('now')),
+  ('L467', 'TURAGO BORDONE', 'PV', 'comune', '1861-03-17', '1929-02-08', datetime('now')),
+  ('L468', 'VALVESTINO', 'BS', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L469', 'TURANO LODIGIANO', 'LO', 'comune', '1869-02-13', NULL, datetime('now')),
+  ('L470', 'TURATE', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L471', 'TURBIGO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L472', 'TURI', 'BA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L473', 'TURRI', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L474', 'TURRIACO', 'GO', 'comune', '1921-01-05', NULL, datetime('now')),
+  ('L475', 'TURRIVALIGNANI', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L476', 'TURRO MILANESE', 'MI', 'comune', '1864-03-11', '1918-02-15', datetime('now')),
+  ('L477', 'TURSI', 'MT', 'comune', '1871-03-01', NULL, datetime('now')),
+  ('L478', 'TUSA', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L479', 'UBAGA', 'IM', 'comune', NULL, NULL, datetime('now')),
+  ('L480', 'UBOLDO', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L481', 'UGOVIZZA VALBRUNA', 'UD', 'comune', '1921-01-05', '1928-08-08', datetime('now')),
+  ('L482', 'UCRIA', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L483', 'UDINE', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L484', 'UGENTO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L485', 'UGGIANO LA CHIESA', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L486', 'UGGIATE', 'CO', 'comune', '1861-03-17', '1938-01-18', datetime('now')),
+  ('L487', 'UGGIATE-TREVANO', 'CO', 'comune', '1938-01-18', '2024-01-01', datetime('now')),
+  ('L488', 'ULÀ TIRSO', 'OR', 'comune', '1870-09-30', NULL, datetime('now')),
+  ('L489', 'ULASSAI', 'OG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L490', 'ULTIMO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L491', 'UMAGO', 'PL', 'comune', '1921-01-05', '1977-04-04', datetime('now')),
+  ('L492', 'UMBRIATICO', 'KR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L493', 'UNCHIO', 'NO', 'comune', '1861-03-17', '1929-05-25', datetime('now')),
+  ('L494', 'URAGO D''OGLIO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L495', 'URAGO MELLA', 'BS', 'comune', NULL, NULL, datetime('now')),
+  ('L496', 'URAS', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L497', 'URBANA', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L498', 'URBANIA', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L499', 'URBE', 'SV', 'comune', '1929-06-13', NULL, datetime('now')),
+  ('L500', 'URBINO', 'PU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L501', 'URBISAGLIA', 'MC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L502', 'URGNANO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L503', 'URI', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L504', 'URIO', 'CO', 'comune', '1861-03-17', '1927-12-24', datetime('now')),
+  ('L505', 'URURI', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L506', 'URZULEI', 'OG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L507', 'USCIO', 'GE', 'comune', '1877-11-03', NULL, datetime('now')),
+  ('L508', 'USELLUS', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L509', 'USINI', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L510', 'USMATE', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('L511', 'USMATE VELATE', 'MB', 'comune', '1869-03-11', NULL, datetime('now')),
+  ('L512', 'USSANA', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L513', 'USSARAMANNA', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L514', 'USSASSAI', 'OG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L515', 'USSEAUX', 'TO', 'comune', '1861-03-17', NULL, datetime('now'));
+
+INSERT INTO belfioreCodes (code, name, province, kind, validFrom, validTo, updatedAt) VALUES
+  ('L516', 'USSEGLIO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L517', 'USSITA', 'MC', 'comune', '1913-01-01', NULL, datetime('now')),
+  ('L518', 'USSOLO', 'CN', 'comune', '1861-03-17', '1928-05-12', datetime('now')),
+  ('L519', 'USTICA', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L520', 'USTIE', 'GO', 'comune', '1921-01-05', '1928-07-28', datetime('now')),
+  ('L521', 'UTA', 'CA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L522', 'UZZANO', 'PT', 'comune', '1895-05-10', NULL, datetime('now')),
+  ('L523', 'VACCARIZZA', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('L524', 'VACCARIZZO ALBANESE', 'CS', 'comune', '1864-01-29', NULL, datetime('now')),
+  ('L525', 'VACONE', 'RI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L526', 'VACRI', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L527', 'VADENA', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L528', 'VADO LIGURE', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L529', 'VAGLIA', 'FI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L530', 'VAGLIERANO', 'AL', 'comune', '1861-03-17', '1929-06-05', datetime('now')),
+  ('L531', 'VAGLIO SERRA', 'AT', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('L532', 'VAGLIO BASILICATA', 'PZ', 'comune', '1863-04-10', NULL, datetime('now')),
+  ('L533', 'VAGLI SOTTO', 'LU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L534', 'VAGNA', 'NO', 'comune', '1884-07-04', '1928-05-05', datetime('now')),
+  ('L535', 'VAIANO CREMASCO', 'CR', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('L536', 'VAIANO VALLE', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('L537', 'VAIANO', 'PO', 'comune', '1949-09-08', NULL, datetime('now')),
+  ('L538', 'VAIE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L539', 'VAILATE', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L540', 'VAIRANO PATENORA', 'NA', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('L541', 'VAIRANO CREMASCO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('L542', 'VAIRANO PAVESE', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('L543', 'VALAS', 'BZ', 'comune', '1920-10-16', '1928-12-31', datetime('now')),
+  ('L544', 'VALBONDIONE', 'BG', 'comune', '1927-10-11', NULL, datetime('now')),
+  ('L545', 'VALBREMBO', 'BG', 'comune', '1928-05-19', NULL, datetime('now')),
+  ('L546', 'VALBREVENNA', 'GE', 'comune', '1893-08-30', NULL, datetime('now')),
+  ('L547', 'VALBRONA', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L548', 'VICO CANAVESE', 'AO', 'comune', '1863-01-05', '2019-01-01', datetime('now')),
+  ('L549', 'VALCHIUSELLA', 'AO', 'comune', '1861-03-17', '1929-04-20', datetime('now')),
+  ('L550', 'VALDA', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('L551', 'VALDAGNO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L552', 'VALDAORA', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L553', 'VALDARSA', 'PL', 'comune', '1922-02-02', '1947-09-16', datetime('now')),
+  ('L554', 'VALDASTICO', 'VI', 'comune', '1940-09-13', NULL, datetime('now')),
+  ('L555', 'VAL DELLA TORRE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L556', 'VALDENGO', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L557', 'VALDIDENTRO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L558', 'VALDIERI', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L559', 'VALGIOVO', 'BZ', 'comune', '1920-10-16', '1928-04-13', datetime('now')),
+  ('L560', 'VALDIGNA D''AOSTA', 'AO', 'comune', '1929-05-28', '1935-06-05', datetime('now')),
+  ('L561', 'VALDINA', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L562', 'VAL DI NIZZA', 'PV', 'comune', '1891-06-09', NULL, datetime('now')),
+  ('L563', 'VALDISOTTO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L564', 'VAL DI VIZZE', 'BZ', 'comune', '1931-12-06', NULL, datetime('now')),
+  ('L565', 'VALDOBBIADENE', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L566', 'VALDUGGIA', 'VC', 'comune', '1865-12-14', NULL, datetime('now')),
+  ('L567', 'VALEGGIO SUL MINCIO', 'VR', 'comune', '1872-01-01', NULL, datetime('now')),
+  ('L568', 'VALEGGIO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L569', 'VALENTANO', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('L570', 'VALENZA', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L571', 'VALENZANO', 'BA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L572', 'VALERA FRATTA', 'LO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L573', 'VALFABBRICA', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L574', 'VALFENERA', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L575', 'VALFLORIANA', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L576', 'VALFURVA', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L577', 'VALGANNA', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L578', 'VALGIOIE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L579', 'VALGOGLIO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L580', 'VALGRANA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L581', 'VALGREGHENTINO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L582', 'VALGRISENCHE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L583', 'VALGUARNERA CAROPEPE', 'EN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L584', 'VALLADA AGORDINA', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L585', 'VALL''ALTA', 'BG', 'comune', '1861-03-17', '1928-02-16', datetime('now')),
+  ('L586', 'VALLANZENGO', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L587', 'VALLARGA', 'BZ', 'comune', '1920-10-16', '1929-03-25', datetime('now')),
+  ('L588', 'VALLARSA', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L589', 'VALLATA', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L590', 'VALLE DI CADORE', 'BL', 'comune', '1867-06-02', NULL, datetime('now')),
+  ('L591', 'VALLE DI MADDALONI', 'NA', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('L592', 'VALLE GUIDINO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('L593', 'VALLE LOMELLINA', 'PV', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('L594', 'VALLE AGRICOLA', 'BN', 'comune', '1863-08-10', NULL, datetime('now')),
+  ('L595', 'VALLE AURINA', 'BZ', 'comune', '1929-02-21', NULL, datetime('now')),
+  ('L596', 'VALLEBONA', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L597', 'VALLE CASTELLANA', 'TE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L598', 'VALLECORSA', 'FR', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('L599', 'VALLECROSIA', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L600', 'VALLECROSIA CON SAN BIAGIO DELLA CIMA', 'IM', 'comune', NULL, NULL, datetime('now')),
+  ('L601', 'VALLE DI CASIES', 'BZ', 'comune', '1929-05-15', NULL, datetime('now')),
+  ('L602', 'VALLE D''ISTRIA', 'PL', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('L603', 'VALLEDOLMO', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L604', 'VALLEDORIA', 'SS', 'comune', '1961-06-14', NULL, datetime('now')),
+  ('L605', 'VALLEMAIO', 'FR', 'comune', '1907-06-21', NULL, datetime('now')),
+  ('L606', 'VALLE MOSSO', 'BI', 'comune', '1861-03-17', '2019-01-01', datetime('now')),
+  ('L607', 'VALLELONGA', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L608', 'VALLELUNGA', 'BZ', 'comune', '1920-10-16', '1928-06-16', datetime('now')),
+  ('L609', 'VALLELUNGA PRATAMENO', 'CL', 'comune', '1865-02-27', NULL, datetime('now')),
+  ('L610', 'VALLENONCELLO', 'UD', 'comune', '1866-11-19', '1930-04-28', datetime('now')),
+  ('L611', 'VALLEPIETRA', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('L612', 'VALLERANO', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('L613', 'VALLERMOSA', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L614', 'VALLEROTONDA', 'FR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L615', 'VALLES', 'BZ', 'comune', '1920-10-16', '1929-05-31', datetime('now')),
+  ('L616', 'VALLESACCARDA', 'AV', 'comune', '1958-05-28', NULL, datetime('now')),
+  ('L617', 'VALLE SALIMBENE', 'PV', 'comune', '1871-06-01', NULL, datetime('now')),
+  ('L618', 'VALLE SAN FELICE', 'TN', 'comune', '1920-10-16', '1924-01-14', datetime('now')),
+  ('L619', 'VALLE SAN GIOVANNI', 'TE', 'comune', NULL, NULL, datetime('now')),
+  ('L620', 'VALLE SAN NICOLAO', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L621', 'VALLE SAN SILVESTRO', 'BZ', 'comune', '1920-10-16', '1928-03-14', datetime('now')),
+  ('L622', 'VALLE SUPERIORE MOSSO', 'VC', 'comune', '1861-03-17', '1938-04-08', datetime('now')),
+  ('L623', 'VALLEVE', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L624', 'VALLI DEL PASUBIO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L625', 'VALLINFREDA', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('L626', 'VALLIO TERME', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L627', 'VALLO DI NERA', 'PG', 'comune', '1881-05-13', NULL, datetime('now')),
+  ('L628', 'VALLO DELLA LUCANIA', 'SA', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('L629', 'VALLO TORINESE', 'TO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('L630', 'VALLONARA', 'VI', 'comune', '1866-11-19', '1938-12-22', datetime('now')),
+  ('L631', 'VALLORIATE', 'CN', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('L632', 'VALLORIA MARITTIMA', 'IM', 'comune', '1862-11-10', '1928-04-17', datetime('now')),
+  ('L633', 'VALMACCA', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L634', 'VALMADRERA', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L635', 'VALMAGGIA', 'VC', 'comune', '1861-03-17', '1929-03-02', datetime('now')),
+  ('L636', 'VALMALA', 'CN', 'comune', '1861-03-17', '2019-01-01', datetime('now')),
+  ('L637', 'VAL MARCHIROLO', 'VA', 'comune', NULL, NULL, datetime('now')),
+  ('L638', 'VAL MASINO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L639', 'VALMONTONE', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('L640', 'VALMOREA', 'CO', 'comune', '1928-05-04', NULL, datetime('now')),
+  ('L641', 'VALMOZZOLA', 'PR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L642', 'VALNEGRA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L643', 'VALPELLINE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L644', 'VALPERGA', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L645', 'VALPRATO', 'AO', 'comune', '1861-03-17', '1929-01-23', datetime('now')),
+  ('L646', 'VALROVINA', 'VI', 'comune', '1866-11-19', '1938-11-24', datetime('now')),
+  ('L647', 'VALSAVARENCHE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L648', 'VALSAVIORE', 'BS', 'comune', '1927-11-03', '1954-08-06', datetime('now')),
+  ('L649', 'VALSECCA', 'BG', 'comune', '1861-03-17', '2014-02-04', datetime('now')),
+  ('L650', 'VALSTAGNA', 'VI', 'comune', '1866-11-19', '2019-01-30', datetime('now')),
+  ('L651', 'VALSTRONA', 'VB', 'comune', '1928-01-26', NULL, datetime('now')),
+  ('L652', 'VALTESSE', 'BG', 'comune', '1861-03-17', '1927-03-12', datetime('now')),
+  ('L653', 'VALTOPINA', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L654', 'VALTOURNENCHE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L655', 'VALTORTA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L656', 'VALVA', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L657', 'VALVASONE', 'PN', 'comune', '1866-11-19', '2015-01-01', datetime('now')),
+  ('L658', 'VALVERDE', 'CT', 'comune', '1951-05-06', NULL, datetime('now')),
+  ('L659', 'VALVERDE', 'PV', 'comune', '1861-03-17', '2019-01-01', datetime('now')),
+  ('L660', 'VANDOIES', 'BZ', 'comune', '1929-03-24', NULL, datetime('now')),
+  ('L661', 'VANDOIES DI SOPRA', 'BZ', 'comune', '1920-10-16', '1929-03-25', datetime('now')),
+  ('L662', 'VANDOIES DI SOTTO', 'BZ', 'comune', '1920-10-16', '1929-03-25', datetime('now')),
+  ('L663', 'VANGA', 'BZ', 'comune', '1920-10-16', '1928-06-16', datetime('now')),
+  ('L664', 'VANZAGHELLO', 'MI', 'comune', '1968-07-23', NULL, datetime('now')),
+  ('L665', 'VANZAGO', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L666', 'VANZONE CON SAN CARLO', 'VB', 'comune', '1875-05-21', NULL, datetime('now')),
+  ('L667', 'VAPRIO D''ADDA', 'MI', 'comune', '1862-11-03', NULL, datetime('now')),
+  ('L668', 'VAPRIO D''AGOGNA', 'NO', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('L669', 'VARALLO', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L670', 'VARALLO POMBIA', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L671', 'VARANO BORGHI', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L672', 'VARANO DE'' MELEGARI', 'PR', 'comune', '1873-11-03', NULL, datetime('now')),
+  ('L673', 'VARAPODIO', 'RC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L674', 'VARARO', 'VA', 'comune', '1861-03-17', '1928-01-18', datetime('now')),
+  ('L675', 'VARAZZE', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L676', 'VARCO SABINO', 'RI', 'comune', '1873-08-25', NULL, datetime('now')),
+  ('L677', 'VAREDO', 'MB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L678', 'VARENA', 'TN', 'comune', '1920-10-16', '2020-01-01', datetime('now')),
+  ('L679', 'VARENGO', 'AL', 'comune', '1861-03-17', '1928-07-18', datetime('now')),
+  ('L680', 'VARENNA', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L681', 'VARESE LIGURE', 'SP', 'comune', '1862-03-31', NULL, datetime('now')),
+  ('L682', 'VARESE', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L683', 'VARGO', 'AL', 'comune', '1861-03-17', '1928-09-23', datetime('now')),
+  ('L684', 'VARIGOTTI', 'GE', 'comune', NULL, NULL, datetime('now')),
+  ('L685', 'VARISELLA', 'TO', 'comune', '1871-01-01', NULL, datetime('now')),
+  ('L686', 'VARMO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L687', 'VARNA', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L688', 'VARONI', 'BN', 'comune', '1861-03-17', '1867-02-23', datetime('now')),
+  ('L689', 'VARSI', 'PR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L690', 'VARZI', 'PV', 'comune', '1872-12-16', NULL, datetime('now')),
+  ('L691', 'VARZO', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L692', 'VAS', 'BL', 'comune', '1866-11-19', '2013-12-28', datetime('now')),
+  ('L693', 'VASIA', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L694', 'VASIO', 'TN', 'comune', '1920-10-16', '1928-06-30', datetime('now')),
+  ('L695', 'VASSENA', 'CO', 'comune', '1861-03-17', '1927-12-30', datetime('now')),
+  ('L696', 'VASTOGIRARDI', 'IS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L697', 'VATTARO', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('L698', 'VAUDA CANAVESE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L699', 'VAZZANO', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L700', 'VAZZOLA', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L701', 'VECCANA', 'VA', 'comune', '1861-03-17', '1928-07-29', datetime('now')),
+  ('L702', 'VECCHIANO', 'PI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L703', 'VEDANO OLONA', 'VA', 'comune', '1863-02-23', NULL, datetime('now')),
+  ('L704', 'VEDANO AL LAMBRO', 'MB', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('L705', 'VEDDASCA', 'VA', 'comune', '1928-08-07', '2014-02-04', datetime('now')),
+  ('L706', 'VEDELAGO', 'TV', 'comune', '1871-09-10', NULL, datetime('now')),
+  ('L707', 'VEDESETA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L708', 'VEDUGGIO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('L709', 'VEDUGGIO CON COLZANO', 'MB', 'comune', '1866-01-14', NULL, datetime('now')),
+  ('L710', 'VEGGIANO', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L711', 'VEGLIE', 'BR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L712', 'VEGLIO', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L713', 'VEJANO', 'VT', 'comune', '1872-08-26', NULL, datetime('now')),
+  ('L714', 'VELATE', 'VA', 'comune', '1861-03-17', '1927-12-29', datetime('now')),
+  ('L715', 'VELESO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L716', 'VELEZZO LOMELLINA', 'PV', 'comune', '1864-11-07', NULL, datetime('now')),
+  ('L717', 'VELLANO', 'PT', 'comune', '1883-08-10', '1929-02-14', datetime('now')),
+  ('L718', 'VELLEGO', 'SV', 'comune', '1861-03-17', '1929-04-13', datetime('now')),
+  ('L719', 'VELLETRI', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('L720', 'VELLEZZO BELLINI', 'PV', 'comune', '1872-11-01', NULL, datetime('now')),
+  ('L721', 'VELLO', 'BS', 'comune', '1861-03-17', '1927-12-04', datetime('now')),
+  ('L722', 'VELO VERONESE', 'VR', 'comune', '1893-04-10', NULL, datetime('now')),
+  ('L723', 'VELO D''ASTICO', 'VI', 'comune', '1867-09-02', NULL, datetime('now')),
+  ('L724', 'VELTURNO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L725', 'VENAFRO', 'IS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L726', 'VENAUS', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L727', 'VENARIA REALE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L728', 'VENAROTTA', 'AP', 'comune', '1882-03-17', NULL, datetime('now')),
+  ('L729', 'VENASCA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L730', 'VENDONE', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L731', 'VENDROGNO', 'LC', 'comune', '1861-03-17', '2020-01-01', datetime('now')),
+  ('L732', 'VENEGONO', 'VA', 'comune', '1928-09-25', '1960-09-30', datetime('now')),
+  ('L733', 'VENEGONO INFERIORE', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L734', 'VENEGONO SUPERIORE', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L735', 'VENETICO', 'ME', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L736', 'VENEZIA', 'VE', 'comune', '1883-02-02', NULL, datetime('now')),
+  ('L737', 'VENIANO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L738', 'VENOSA', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L739', 'VENTICANO', 'AV', 'comune', '1948-06-29', NULL, datetime('now')),
+  ('L740', 'VENTIMIGLIA DI SICILIA', 'PA', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('L741', 'VENTIMIGLIA', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L742', 'VENTOTENE', 'LT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L743', 'VENZONE', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L744', 'VERANO BRIANZA', 'MB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L745', 'VERANO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L746', 'VERBANIA', 'VB', 'comune', '1939-06-04', NULL, datetime('now')),
+  ('L747', 'VERBICARO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L748', 'VERCANA', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L749', 'VERCEIA', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L750', 'VERCELLI', 'VC', 'comune', '1865-12-14', NULL, datetime('now')),
+  ('L751', 'VERCURAGO', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L752', 'VERDELLINO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L753', 'VERDELLO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L754', 'VERDERIO', 'CO', 'comune', '1872-02-16', '1905-04-25', datetime('now')),
+  ('L755', 'VERDERIO INFERIORE', 'LC', 'comune', '1905-04-24', '2014-02-04', datetime('now')),
+  ('L756', 'VERDERIO SUPERIORE', 'LC', 'comune', '1905-04-24', '2014-02-04', datetime('now')),
+  ('L757', 'VERDESINA', 'TN', 'comune', '1920-10-16', '1928-06-28', datetime('now')),
+  ('L758', 'VERDUNO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L759', 'VEREZZI', 'SV', 'comune', '1861-03-17', '1933-05-24', datetime('now')),
+  ('L760', 'VILLA VERGANO', 'CO', 'comune', '1863-02-23', '1937-10-28', datetime('now')),
+  ('L761', 'VERGANO NOVARESE', 'NO', 'comune', '1863-04-23', '1928-04-19', datetime('now')),
+  ('L762', 'VERGATO', 'BO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L763', 'VERGEMOLI', 'LU', 'comune', '1861-03-17', '2014-01-01', datetime('now')),
+  ('L764', 'VERGHERETO', 'FC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L765', 'VERGIATE', 'VA', 'comune', '1871-08-03', NULL, datetime('now')),
+  ('L766', 'VERGO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('L767', 'VERGOBBIO', 'VA', 'comune', '1861-03-17', '1928-02-16', datetime('now')),
+  ('L768', 'VERMEZZO', 'MI', 'comune', '1861-03-17', '2019-02-08', datetime('now')),
+  ('L769', 'VERMIGLIO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L770', 'VERNA', 'CO', 'comune', '1861-03-17', '1928-02-23', datetime('now')),
+  ('L771', 'VERNANTE', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L772', 'VERNASCA', 'PC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L773', 'VERNATE', 'MI', 'comune', '1870-08-02', NULL, datetime('now')),
+  ('L774', 'VERNAZZA', 'SP', 'comune', '1871-06-01', NULL, datetime('now')),
+  ('L775', 'VERNIO', 'PO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L776', 'VERNOLE', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L777', 'VEROLANUOVA', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L778', 'VEROLAVECCHIA', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L779', 'VEROLENGO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L780', 'VEROLI', 'FR', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('L781', 'VERONA', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L782', 'VERPOGLIANO', 'GO', 'comune', '1921-01-05', '1928-04-29', datetime('now')),
+  ('L783', 'VERRAYES', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L784', 'VERRETTO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L785', 'VERRONE', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L786', 'VERRUA SICCOMARIO', 'PV', 'comune', '1863-04-13', '1929-04-19', datetime('now')),
+  ('L787', 'VERRUA SAVOIA', 'TO', 'comune', '1863-01-05', NULL, datetime('now')),
+  ('L788', 'VERRUA PO', 'PV', 'comune', '1929-04-19', NULL, datetime('now')),
+  ('L789', 'VERSA', 'GO', 'comune', '1921-01-05', '1928-05-02', datetime('now')),
+  ('L790', 'VERSCIACO', 'BZ', 'comune', '1920-10-16', '1928-12-10', datetime('now')),
+  ('L791', 'VERTEMATE', 'CO', 'comune', '1861-03-17', '1929-05-30', datetime('now')),
+  ('L792', 'VERTEMATE CON MINOPRIO', 'CO', 'comune', '1929-05-30', NULL, datetime('now')),
+  ('L793', 'VERTENEGLIO', 'PL', 'comune', '1921-01-05', '1977-04-04', datetime('now')),
+  ('L794', 'VERTOIBA IN CAMPI SANTI', 'GO', 'comune', '1921-01-05', '1928-12-12', datetime('now')),
+  ('L795', 'VERTOVA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L796', 'VERTOVINO', 'GO', 'comune', '1921-01-05', '1928-01-22', datetime('now')),
+  ('L797', 'VERUCCHIO', 'RN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L798', 'VERUNO', 'NO', 'comune', '1861-03-17', '2019-01-01', datetime('now')),
+  ('L799', 'VERVIO', 'SO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L800', 'VERVÒ', 'TN', 'comune', '1920-10-16', '2015-01-01', datetime('now')),
+  ('L801', 'VERZEGNIS', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L802', 'VERZINO', 'KR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L803', 'VERZI PIETRA', 'GE', 'comune', NULL, NULL, datetime('now')),
+  ('L804', 'VERZUOLO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L805', 'VESCOVANA', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L806', 'VESCOVATO', 'CR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L807', 'VESIME', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L808', 'VESPOLATE', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L809', 'VESSALICO', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L810', 'VESTENANOVA', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L811', 'VESTIGNÈ', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L812', 'VESTONE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L813', 'VESTRENO', 'LC', 'comune', '1861-03-17', '2018-01-01', datetime('now')),
+  ('L814', 'VETRALLA', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('L815', 'VETTO', 'RE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L816', 'VEZZA D''OGLIO', 'BS', 'comune', '1863-03-30', NULL, datetime('now')),
+  ('L817', 'VEZZA D''ALBA', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('L818', 'VEZZANO', 'BZ', 'comune', '1920-10-16', '1928-05-13', datetime('now')),
+  ('L819', 'VEZZANO LIGURE', 'SP', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('L820', 'VEZZANO SUL CROSTOLO', 'RE', 'comune', '1872-03-03', NULL, datetime('now')),
+  ('L821', 'VEZZANO', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('L822', 'VEZZI', 'GE', 'comune', '1861-03-17', '1871-03-01', datetime('now')),
+  ('L823', 'VEZZI PORTIO', 'SV', 'comune', '1871-03-01', NULL, datetime('now')),
+  ('L824', 'VEZZO', 'NO', 'comune', '1861-03-17', '1928-08-13', datetime('now')),
+  ('L825', 'VHO', 'CR', 'comune', '1868-01-01', '1928-05-04', datetime('now')),
+  ('L826', 'VIADANA', 'MN', 'comune', '1868-07-01', NULL, datetime('now')),
+  ('L827', 'VIADANICA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L828', 'VIAGRANDE', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L829', 'VIALE', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L830', 'VIALFRÈ', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L831', 'VIANO', 'RE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L832', 'VIARAGO', 'TN', 'comune', '1920-10-16', '1929-01-25', datetime('now')),
+  ('L833', 'VIAREGGIO', 'LU', 'comune', '1870-01-02', NULL, datetime('now')),
+  ('L834', 'VIARIGI', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L835', 'VIBONATI', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L836', 'VICALVI', 'FR', 'comune', '1868-12-31', NULL, datetime('now')),
+  ('L837', 'VICARI', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L838', 'VICCHIO', 'FI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L839', 'VICENO', 'NO', 'comune', '1861-03-17', '1928-11-11', datetime('now')),
+  ('L840', 'VICENZA', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L841', 'VICOFORTE', 'CN', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('L842', 'VICO DEL GARGANO', 'FG', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('L843', 'VICO NEL LAZIO', 'FR', 'comune', '1872-10-18', NULL, datetime('now')),
+  ('L844', 'VILLA LITERNO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L845', 'VICO EQUENSE', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L846', 'VICOLI', 'PE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L847', 'VICOLUNGO', 'NO', 'comune', '1869-02-11', NULL, datetime('now')),
+  ('L848', 'ZIANO PIACENTINO', 'PC', 'comune', '1888-06-15', NULL, datetime('now')),
+  ('L849', 'VICONAGO', 'VA', 'comune', '1893-12-05', '1928-08-16', datetime('now')),
+  ('L850', 'VICOPISANO', 'PI', 'comune', '1884-09-16', NULL, datetime('now')),
+  ('L851', 'VICOVARO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('L852', 'VIDARDO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('L853', 'VIDICETO CON GURATA', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('L854', 'VIDIGULFO', 'PV', 'comune', '1872-11-01', NULL, datetime('now')),
+  ('L855', 'VIDOLASCO', 'CR', 'comune', '1861-03-17', '1934-03-07', datetime('now')),
+  ('L856', 'VIDOR', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L857', 'VIDRACCO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L858', 'VIESTE', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L859', 'VIETRI DI POTENZA', 'PZ', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('L860', 'VIETRI SUL MARE', 'SA', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('L861', 'VIGADORE', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('L862', 'VIGALFO', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('L863', 'VIGALZANO', 'TN', 'comune', '1920-10-16', '1929-01-25', datetime('now')),
+  ('L864', 'VIGANELLA', 'VB', 'comune', '1861-03-17', '2016-01-01', datetime('now')),
+  ('L865', 'VIGANO SAN MARTINO', 'BG', 'comune', '1863-08-10', NULL, datetime('now')),
+  ('L866', 'VIGANÒ', 'LC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L867', 'VIGANO CERTOSINO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('L868', 'VIGARANO MAINARDA', 'FE', 'comune', '1902-02-01', NULL, datetime('now')),
+  ('L869', 'VIGASIO', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L870', 'VIGATTO', 'PR', 'comune', '1866-01-21', '1962-02-03', datetime('now')),
+  ('L871', 'VIGENTINO', 'MI', 'comune', '1869-03-01', '1923-10-14', datetime('now')),
+  ('L872', 'VIGEVANO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L873', 'VIGGIANELLO', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L874', 'VIGGIANO', 'PZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L875', 'VIGGIONA', 'NO', 'comune', '1861-03-17', '1928-09-10', datetime('now')),
+  ('L876', 'VIGGIÙ', 'VA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L877', 'VIGHIZZOLO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('L878', 'VIGHIZZOLO D''ESTE', 'PD', 'comune', '1867-08-26', '2024-01-22', datetime('now')),
+  ('L879', 'VIGLIANO D''ASTI', 'AT', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('L880', 'VIGLIANO BIELLESE', 'BI', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('L881', 'VIGNALE MONFERRATO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L882', 'VIGNANELLO', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('L883', 'VIGNATE', 'MI', 'comune', '1869-07-06', NULL, datetime('now')),
+  ('L884', 'VIGNOLA', 'TN', 'comune', '1920-10-16', '1929-01-25', datetime('now')),
+  ('L885', 'VIGNOLA', 'MO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L886', 'VIGNOLA-FALESINA', 'TN', 'comune', '1955-03-02', NULL, datetime('now')),
+  ('L887', 'VIGNOLE BORBERA', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L888', 'VIGNOLO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L889', 'VIGNONE', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L890', 'VIGO DI CADORE', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L891', 'VIGO D''ANAUNIA', 'TN', 'comune', '1920-10-16', '1928-12-22', datetime('now')),
+  ('L892', 'VIGODARZERE', 'PD', 'comune', '1880-01-16', NULL, datetime('now')),
+  ('L893', 'VIGO DI FASSA', 'TN', 'comune', '1920-10-16', '2018-01-01', datetime('now')),
+  ('L894', 'VIGOLO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L895', 'VIGOLO BASELGA', 'TN', 'comune', '1920-10-16', '1968-07-03', datetime('now')),
+  ('L896', 'VIGOLO VATTARO', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('L897', 'VIGOLZONE', 'PC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L898', 'VIGONE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L899', 'VIGONOVO', 'VE', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L900', 'VIGONZA', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L901', 'VIGONZINO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('L902', 'VIGONZONE', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('L903', 'VIGO RENDENA', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('L904', 'VIGUZZOLO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L905', 'VILLA SANTA LUCIA', 'FR', 'comune', '1863-02-06', NULL, datetime('now')),
+  ('L906', 'VILLADOSSOLA', 'VB', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('L907', 'VILLA DI CHIAVENNA', 'SO', 'comune', '1863-07-13', NULL, datetime('now')),
+  ('L908', 'VILLA DI TIRANO', 'SO', 'comune', '1875-06-11', NULL, datetime('now')),
+  ('L909', 'VILLA SANTINA', 'UD', 'comune', '1867-09-02', NULL, datetime('now')),
+  ('L910', 'VILLA AGNEDO', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('L911', 'VILLA BANALE', 'TN', 'comune', '1920-10-16', '1928-03-13', datetime('now')),
+  ('L912', 'VILLA BARTOLOMEA', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L913', 'VILLA BASILICA', 'LU', 'comune', '1890-12-01', NULL, datetime('now')),
+  ('L914', 'VILLABASSA DI SENOSECCHIA', 'TS', 'comune', '1921-01-05', '1926-10-29', datetime('now')),
+  ('L915', 'VILLABASSA', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L916', 'VILLABATE', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L917', 'VILLA BISCOSSI', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L918', 'VILLA D''ADIGE', 'RO', 'comune', '1867-07-22', '1928-04-07', datetime('now')),
+  ('L919', 'VILLA CARCINA', 'BS', 'comune', '1928-02-05', NULL, datetime('now')),
+  ('L920', 'VILLA CASTELLI', 'BR', 'comune', '1926-03-18', NULL, datetime('now')),
+  ('L921', 'VILLA CASTELNUOVO', 'AO', 'comune', '1861-03-17', '1928-12-20', datetime('now')),
+  ('L922', 'VILLA CELIERA', 'PE', 'comune', '1914-01-01', NULL, datetime('now')),
+  ('L923', 'VILLACHIARA', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L924', 'VILLACIDRO', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L925', 'VILLA COGOZZO', 'BS', 'comune', '1861-03-17', '1928-02-05', datetime('now')),
+  ('L926', 'VILLA COLLEMANDINA', 'LU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L927', 'VILLA CORSIONE', 'AT', 'comune', '1928-07-18', '1947-10-21', datetime('now')),
+  ('L928', 'VILLA CORTESE', 'MI', 'comune', '1966-12-09', NULL, datetime('now')),
+  ('L929', 'VILLA D''ADDA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L930', 'VILLA D''ALLEGNO', 'BS', 'comune', '1861-03-17', '1927-12-04', datetime('now')),
+  ('L931', 'VILLADEATI', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L932', 'VILLA DECANI', 'PL', 'comune', '1921-01-05', '1977-04-04', datetime('now')),
+  ('L933', 'VILLA DEL BOSCO', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L934', 'VILLA DEL CONTE', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L935', 'VILLA DEL NEVOSO', 'FU', 'comune', '1927-12-16', '1947-09-16', datetime('now')),
+  ('L936', 'VILLA DI SERIO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L937', 'VILLA ESTENSE', 'PD', 'comune', '1867-11-25', NULL, datetime('now')),
+  ('L938', 'VILLA D''OGNA', 'BG', 'comune', '1929-05-14', NULL, datetime('now')),
+  ('L939', 'VILLADOSE', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L940', 'VILLA DOSIA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('L941', 'VILLA OTTONE', 'BZ', 'comune', '1920-10-16', '1928-05-30', datetime('now')),
+  ('L942', 'VILLAFALLETTO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L943', 'VILLA FARALDI', 'IM', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L944', 'VILLAFRANCA SICULA', 'AG', 'comune', '1863-01-19', NULL, datetime('now')),
+  ('L945', 'VILLAFRANCA D''ASTI', 'AT', 'comune', '1863-02-16', NULL, datetime('now')),
+  ('L946', 'VILLAFRANCA IN LUNIGIANA', 'MS', 'comune', '1894-03-09', NULL, datetime('now')),
+  ('L947', 'VILLAFRANCA PADOVANA', 'PD', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('L948', 'VILLAFRANCA PIEMONTE', 'TO', 'comune', '1863-01-26', NULL, datetime('now')),
+  ('L949', 'VILLAFRANCA DI VERONA', 'VR', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('L950', 'VILLAFRANCA TIRRENA', 'ME', 'comune', '1929-06-02', NULL, datetime('now')),
+  ('L951', 'VILLAFRATI', 'PA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L952', 'VILLAGA', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L953', 'VILLAGRANDE STRISAILI', 'OG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L954', 'VILLAGRECA', 'CA', 'comune', NULL, NULL, datetime('now')),
+  ('L955', 'VILLAGUARDIA', 'IM', 'comune', '1861-03-17', '1928-02-21', datetime('now')),
+  ('L956', 'VILLA GUARDIA', 'CO', 'comune', '1928-05-31', NULL, datetime('now')),
+  ('L957', 'VILLA LAGARINA', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L958', 'VILLALAGO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L959', 'VILLALBA', 'CL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L960', 'VILL''ALBESE', 'CO', 'comune', '1861-03-17', '1928-07-29', datetime('now')),
+  ('L961', 'VILLALFONSINA', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L962', 'VILLALUNGA', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('L963', 'VILLALVERNIA', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L964', 'VILLAMAGNA', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L965', 'VILLAMAINA', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L966', 'VILLAMAR', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L967', 'VILLAMARZANA', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L968', 'VILLAMASSARGIA', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L969', 'VILLA MINOZZO', 'RE', 'comune', '1870-07-15', NULL, datetime('now')),
+  ('L970', 'VILLAMIROGLIO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L971', 'VILLANDRO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('L972', 'VILLANOVA MONFERRATO', 'AL', 'comune', '1878-06-07', NULL, datetime('now')),
+  ('L973', 'VILLANOVA DEL BATTISTA', 'AV', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('L974', 'VILLANOVA MONDOVÌ', 'CN', 'comune', '1862-12-19', NULL, datetime('now')),
+  ('L975', 'VILLANOVA D''ALBENGA', 'SV', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('L976', 'VILLANOVA VIMERCATE', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('L977', 'VILLANOVA DEL SILLARO', 'LO', 'comune', '1878-06-21', NULL, datetime('now')),
+  ('L978', 'VILLANOVA BIELLESE', 'BI', 'comune', '1863-04-23', NULL, datetime('now')),
+  ('L979', 'VILLANOVA DI CAMPOSAMPIERO', 'PD', 'comune', '1867-08-26', NULL, datetime('now')),
+  ('L980', 'VILLANOVA SULL''ARDA', 'PC', 'comune', '1895-11-04', NULL, datetime('now')),
+  ('L981', 'VILLENEUVE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L982', 'VILLANOVA CANAVESE', 'TO', 'comune', '1885-07-31', NULL, datetime('now')),
+  ('L983', 'VILLANOVA D''ARDENGHI', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L984', 'VILLANOVA D''ASTI', 'AT', 'comune', '1863-05-06', NULL, datetime('now')),
+  ('L985', 'VILLANOVA DEL GHEBBO', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L986', 'VILLANOVAFORRU', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L987', 'VILLANOVAFRANCA', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L988', 'VILLANOVA MARCHESANA', 'RO', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('L989', 'VILLANOVA MONTELEONE', 'SS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L990', 'VILLANOVA SOLARO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L991', 'VILLANOVA TRUSCHEDU', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L992', 'VILLANOVA TULO', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L993', 'VILLANOVETTA', 'CN', 'comune', '1861-03-17', '1928-05-01', datetime('now')),
+  ('L994', 'VILLANTERIO', 'PV', 'comune', '1872-10-15', NULL, datetime('now')),
+  ('L995', 'VILLANUOVA SUL CLISI', 'BS', 'comune', '1862-11-28', NULL, datetime('now')),
+  ('L996', 'VILLA PIZZONE', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('L997', 'VILLA POMPEIANA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('L998', 'VILLAPUTZU', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('L999', 'VILLAR DORA', 'TO', 'comune', '1885-01-26', NULL, datetime('now')),
+  ('M001', 'VILLA RAVERIO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('M002', 'VILLARBASSE', 'TO', 'comune', '1890-10-07', NULL, datetime('now')),
+  ('M003', 'VILLARBOIT', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M004', 'VILLAREGGIA', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M005', 'VILLAREGGIO', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('M006', 'VILLA RENDENA', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('M007', 'VILLAR FOCCHIARDO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M008', 'VILLAROCCA', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('M009', 'VILLAROMAGNANO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M010', 'VILLA ROMANÒ', 'CO', 'comune', '1861-03-17', '1929-05-16', datetime('now')),
+  ('M011', 'VILLAROSA', 'EN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M012', 'VILLA ROSSA', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('M013', 'VILLAR PELLICE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M014', 'VILLAR PEROSA', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M015', 'VILLAR SAN COSTANZO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M016', 'VILLASALTO', 'SU', 'comune', '1861-03-17', NULL, datetime('now'));
+
+INSERT INTO belfioreCodes (code, name, province, kind, validFrom, validTo, updatedAt) VALUES
+  ('M017', 'VILLASANTA', 'MB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M018', 'VILLA SAN GIOVANNI', 'RC', 'comune', '1867-01-25', NULL, datetime('now')),
+  ('M019', 'VILLA SAN SECONDO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M020', 'VILLA SANTA CATERINA', 'BZ', 'comune', '1920-10-16', '1928-04-05', datetime('now')),
+  ('M021', 'VILLA SANTA LUCIA DEGLI ABRUZZI', 'AQ', 'comune', '1910-07-26', NULL, datetime('now')),
+  ('M022', 'VILLA SANTA MARIA', 'CH', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M023', 'VILLA SANT''ANGELO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M024', 'VILLA SLAVINA', 'TS', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('M025', 'VILLASOR', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M026', 'VILLASPECIOSA', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M027', 'VILLASTELLONE', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M028', 'VILLATA', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M029', 'VILLATALLA', 'IM', 'comune', '1861-03-17', '1928-04-17', datetime('now')),
+  ('M030', 'VILLAURBANA', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M031', 'VILLAVALLELONGA', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M032', 'VILLAVERLA', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('M033', 'VILLAVIANI', 'IM', 'comune', '1861-03-17', '1928-02-21', datetime('now')),
+  ('M034', 'VILLA VICENTINA', 'UD', 'comune', '1921-01-05', '2018-02-01', datetime('now')),
+  ('M035', 'VILLA VOLTURNO', 'CE', 'comune', '1928-03-13', '1946-04-14', datetime('now')),
+  ('M036', 'VILLAZZANO', 'TN', 'comune', '1920-10-16', '1926-10-01', datetime('now')),
+  ('M037', 'VILLE DEL MONTE', 'TN', 'comune', '1920-10-16', '1929-04-12', datetime('now')),
+  ('M038', 'VILLE MONTEVECCHIO', 'GO', 'comune', '1921-01-05', '1928-04-17', datetime('now')),
+  ('M039', 'VILLE SAN PIETRO', 'IM', 'comune', '1861-03-17', '1928-12-08', datetime('now')),
+  ('M040', 'VILLE SAN SEBASTIANO', 'IM', 'comune', '1861-03-17', '1928-12-08', datetime('now')),
+  ('M041', 'VILLETTA BARREA', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M042', 'VILLETTE', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M043', 'VILLESSE', 'GO', 'comune', '1921-01-05', NULL, datetime('now')),
+  ('M044', 'VILLIMPENTA', 'MN', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('M045', 'VILLONGO', 'BG', 'comune', '1927-11-03', NULL, datetime('now')),
+  ('M046', 'VILLONGO SAN FILASTRO', 'BG', 'comune', '1861-03-17', '1927-11-03', datetime('now')),
+  ('M047', 'VILLONGO SANT''ALESSANDRO', 'BG', 'comune', '1861-03-17', '1927-11-04', datetime('now')),
+  ('M048', 'VILLORBA', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('M049', 'VILMINORE', 'BG', 'comune', '1861-03-17', '1927-07-15', datetime('now')),
+  ('M050', 'VILMINORE DI SCALVE', 'BG', 'comune', '1927-07-15', NULL, datetime('now')),
+  ('M051', 'VIMANONE', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('M052', 'VIMERCATE', 'MB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M053', 'VIMODRONE', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M054', 'VIMOGNO', 'CO', 'comune', '1861-03-17', '1927-12-25', datetime('now')),
+  ('M055', 'VINADIO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M056', 'VINAGO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('M057', 'VINCHIATURO', 'CB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M058', 'VINCHIO', 'AT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M059', 'VINCI', 'FI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M060', 'VINOVO', 'TO', 'comune', '1868-09-09', NULL, datetime('now')),
+  ('M061', 'VINTEBBIO', 'VC', 'comune', '1861-03-17', '1927-10-09', datetime('now')),
+  ('M062', 'VINZAGLIO', 'NO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M063', 'VIOLA', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M064', 'VION', 'TN', 'comune', '1920-10-16', '1928-12-14', datetime('now')),
+  ('M065', 'VIONE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M066', 'VIPACCO', 'GO', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('M067', 'VIPITENO', 'BZ', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('M068', 'VIRLE TREPONTI', 'BS', 'comune', '1862-12-19', '1928-05-12', datetime('now')),
+  ('M069', 'VIRLE PIEMONTE', 'TO', 'comune', '1864-04-01', NULL, datetime('now')),
+  ('M070', 'VISANO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M071', 'VISCHE', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M072', 'VISCIANO', 'NA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M073', 'VISCO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('M074', 'VISIGNANO D''ISTRIA', 'PL', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('M075', 'VISINADA', 'PL', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('M076', 'VISINO', 'CO', 'comune', '1861-03-17', '1928-01-26', datetime('now')),
+  ('M077', 'VISONE', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M078', 'VISSO', 'PG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M079', 'VISTARINO', 'PV', 'comune', '1872-11-01', NULL, datetime('now')),
+  ('M080', 'VISTRORIO', 'AO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M081', 'VITA', 'TP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M082', 'VITERBO', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('M083', 'VITICUSO', 'FR', 'comune', '1902-07-23', NULL, datetime('now')),
+  ('M084', 'VITICUSO ED ACQUAFONDATA', 'CE', 'comune', '1863-02-06', '1902-07-24', datetime('now')),
+  ('M085', 'VITO D''ASIO', 'PN', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('M086', 'VITORCHIANO', 'VT', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('M087', 'VITTADONE', 'MI', 'comune', '1861-03-17', '1929-05-29', datetime('now')),
+  ('M088', 'VITTORIA', 'RG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M089', 'VITTORIO VENETO', 'TV', 'comune', '1867-01-01', NULL, datetime('now')),
+  ('M090', 'VITTORITO', 'AQ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M091', 'VITTUONE', 'MI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M092', 'VITULAZIO', 'NA', 'comune', '1882-12-18', NULL, datetime('now')),
+  ('M093', 'VITULANO', 'BN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M094', 'VIÙ', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M095', 'VIVARO ROMANO', 'RM', 'comune', '1872-12-10', NULL, datetime('now')),
+  ('M096', 'VIVARO', 'PN', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('M097', 'VIVENTE', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('M098', 'VIVERONE', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M099', 'VIZZE', 'BZ', 'comune', '1920-10-16', '1931-12-07', datetime('now')),
+  ('M100', 'VIZZINI', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M101', 'VIZZOLA TICINO', 'VA', 'comune', '1869-03-15', NULL, datetime('now')),
+  ('M102', 'VIZZOLO PREDABISSI', 'MI', 'comune', '1863-08-10', NULL, datetime('now')),
+  ('M103', 'VO''', 'PD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('M104', 'VOBARNO', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M105', 'VOBBIA', 'GE', 'comune', '1901-07-13', NULL, datetime('now')),
+  ('M106', 'VOCCA', 'VC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M107', 'VOCOGNO E PRESTINONE', 'NO', 'comune', '1861-03-17', '1928-06-29', datetime('now')),
+  ('M108', 'VODO CADORE', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('M109', 'VOGHERA', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M110', 'VOGHIERA', 'FE', 'comune', '1960-03-12', NULL, datetime('now')),
+  ('M111', 'VOGOGNA', 'VB', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M112', 'VOISSIZZA DI COMENO', 'GO', 'comune', '1921-01-05', '1928-08-14', datetime('now')),
+  ('M113', 'VOLANO', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('M114', 'VOLDOMINO', 'VA', 'comune', '1861-03-17', '1928-02-09', datetime('now')),
+  ('M115', 'VOLLA', 'NA', 'comune', '1953-06-18', NULL, datetime('now')),
+  ('M116', 'VOLONGO', 'CR', 'comune', '1871-07-21', NULL, datetime('now')),
+  ('M117', 'VOLOSCA-ABBAZIA', 'FU', 'comune', '1921-01-05', '1931-12-22', datetime('now')),
+  ('M118', 'VOLPAGO DEL MONTELLO', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('M119', 'VOLPARA', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M120', 'VOLPEDO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M121', 'VOLPEGLINO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M122', 'VOLPIANO', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M123', 'VOLTAGGIO', 'AL', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M124', 'VOLTAGO AGORDINO', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('M125', 'VOLTA MANTOVANA', 'MN', 'comune', '1872-01-01', NULL, datetime('now')),
+  ('M126', 'VOLTERRA', 'PI', 'comune', '1869-06-11', NULL, datetime('now')),
+  ('M127', 'VOLTIDO', 'CR', 'comune', '1869-01-28', NULL, datetime('now')),
+  ('M128', 'VOLTORRE', 'VA', 'comune', '1861-03-17', '1928-01-12', datetime('now')),
+  ('M129', 'VOLTRI', 'GE', 'comune', '1861-03-17', '1926-02-06', datetime('now')),
+  ('M130', 'VOLTURARA IRPINA', 'AV', 'comune', '1862-12-29', NULL, datetime('now')),
+  ('M131', 'VOLTURARA APPULA', 'FG', 'comune', '1862-11-10', NULL, datetime('now')),
+  ('M132', 'VOLTURINO', 'FG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M133', 'VOLVERA', 'TO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M134', 'VOLZANA', 'GO', 'comune', '1921-01-05', '1928-05-12', datetime('now')),
+  ('M135', 'VOSCHIA', 'GO', 'comune', '1921-01-05', '1928-08-24', datetime('now')),
+  ('M136', 'VOTTIGNASCO', 'CN', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M137', 'XITTA', 'TP', 'comune', NULL, NULL, datetime('now')),
+  ('M138', 'ZACCANOPOLI', 'VV', 'comune', '1918-12-13', NULL, datetime('now')),
+  ('M139', 'ZAFFERANA ETNEA', 'CT', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M140', 'ZAGARISE', 'CZ', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M141', 'ZAGAROLO', 'RM', 'comune', '1871-01-15', NULL, datetime('now')),
+  ('M142', 'ZAMBANA', 'TN', 'comune', '1920-10-16', '2019-01-01', datetime('now')),
+  ('M143', 'ZAMBRONE', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M144', 'ZANDOBBIO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M145', 'ZANÈ', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('M146', 'ZANENGO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('M147', 'ZANICA', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M148', 'ZAPPELLO', 'CR', 'comune', '1861-03-17', '1928-05-29', datetime('now')),
+  ('M149', 'ZARA', 'ZA', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('M150', 'ZAVATTARELLO', 'PC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M151', 'ZAVATTARELLO VALVERDE', 'PV', 'comune', '1929-02-24', '1956-04-09', datetime('now')),
+  ('M152', 'ZECCONE', 'PV', 'comune', '1871-06-01', NULL, datetime('now')),
+  ('M153', 'ZEDDIANI', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M154', 'ZELARINO', 'VE', 'comune', '1866-11-19', '1926-08-24', datetime('now')),
+  ('M155', 'ZELATA', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('M156', 'ZELBIO', 'CO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M157', 'ZELBIO-VELESO', 'CO', 'comune', '1928-04-15', '1948-03-27', datetime('now')),
+  ('M158', 'ZELO BUON PERSICO', 'LO', 'comune', '1869-02-13', NULL, datetime('now')),
+  ('M159', 'ZELO FORAMAGNO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('M160', 'ZELO SURRIGONE', 'MI', 'comune', '1861-03-17', '2019-02-08', datetime('now')),
+  ('M161', 'ZEME', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M162', 'ZENEVREDO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M163', 'ZENSON DI PIAVE', 'TV', 'comune', '1869-01-23', NULL, datetime('now')),
+  ('M164', 'ZEPPARA', 'CA', 'comune', '1861-03-17', '1927-07-03', datetime('now')),
+  ('M165', 'ZERBA', 'PC', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M166', 'ZERBO', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M167', 'ZERBOLÒ', 'PV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M168', 'ZERFALIU', 'OR', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M169', 'ZERI', 'MS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M170', 'ZERMEGHEDO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('M171', 'ZERO BRANCO', 'TV', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('M172', 'ZEVIO', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('M173', 'ZIANO DI FIEMME', 'TN', 'comune', '1920-10-16', NULL, datetime('now')),
+  ('M174', 'ZIBELLO', 'PR', 'comune', '1861-03-17', '2016-01-01', datetime('now')),
+  ('M175', 'ZIBIDO AL LAMBRO', 'PV', 'comune', NULL, NULL, datetime('now')),
+  ('M176', 'ZIBIDO SAN GIACOMO', 'MI', 'comune', '1870-08-02', NULL, datetime('now')),
+  ('M177', 'ZIGNAGO', 'SP', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M178', 'ZIMELLA', 'VR', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('M179', 'ZIMONE', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M180', 'ZINASCO', 'PV', 'comune', '1885-04-17', NULL, datetime('now')),
+  ('M181', 'ZIVIDO', 'MI', 'comune', '1861-03-17', '1869-03-01', datetime('now')),
+  ('M182', 'ZOAGLI', 'GE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M183', 'ZOCCA', 'MO', 'comune', '1880-05-21', NULL, datetime('now')),
+  ('M184', 'ZOGNO', 'BG', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M185', 'ZOLA PREDOSA', 'BO', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M186', 'ZOLLA', 'GO', 'comune', '1921-01-05', '1947-09-16', datetime('now')),
+  ('M187', 'ZOLLINO', 'LE', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M188', 'ZONE', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M189', 'ZOPPÈ DI CADORE', 'BL', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('M190', 'ZOPPOLA', 'PN', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('M191', 'ZORLESCO', 'MI', 'comune', '1861-03-17', '1929-05-29', datetime('now')),
+  ('M192', 'ZORNASCO', 'NO', 'comune', '1861-03-17', '1928-07-01', datetime('now')),
+  ('M193', 'ZORZINO', 'BG', 'comune', '1861-03-17', '1928-06-15', datetime('now')),
+  ('M194', 'ZOVENCEDO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('M195', 'ZOVERALLO', 'NO', 'comune', '1861-03-17', '1927-12-04', datetime('now')),
+  ('M196', 'ZUBIENA', 'BI', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M197', 'ZUCCARELLO', 'SV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M198', 'ZUCLO', 'TN', 'comune', '1920-10-16', '2016-01-01', datetime('now')),
+  ('M199', 'ZUGLIANO', 'VI', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('M200', 'ZUGLIO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('M201', 'ZUMAGLIA', 'BI', 'comune', '1880-12-13', NULL, datetime('now')),
+  ('M202', 'ZUMPANO', 'CS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M203', 'ZUNGOLI', 'AV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M204', 'ZUNGRI', 'VV', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M205', 'ZUNICO', 'MI', 'comune', NULL, NULL, datetime('now')),
+  ('M206', 'ZURI', 'CA', 'comune', '1861-03-17', '1927-07-28', datetime('now')),
+  ('M207', 'LARIANO', 'RM', 'comune', '1967-10-15', NULL, datetime('now')),
+  ('M208', 'LAMEZIA TERME', 'CZ', 'comune', '1968-11-28', NULL, datetime('now')),
+  ('M209', 'SANT''ANNA ARRESI', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M210', 'TERME VIGLIATORE', 'ME', 'comune', '1966-07-17', NULL, datetime('now')),
+  ('M211', 'ACQUEDOLCI', 'ME', 'comune', '1969-12-14', NULL, datetime('now')),
+  ('M212', 'LADISPOLI', 'RM', 'comune', '1970-05-27', NULL, datetime('now')),
+  ('M213', 'ARDEA', 'RM', 'comune', '1970-05-27', NULL, datetime('now')),
+  ('M214', 'BADESI', 'OT', 'comune', '1969-04-15', NULL, datetime('now')),
+  ('M215', 'BALBIDO', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M216', 'BALLINO', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M217', 'BARCESINO', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M218', 'BONDONE STORO', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M219', 'BONO', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M220', 'BRANCOLINO', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M221', 'BRUSINO', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M222', 'CANALE', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M223', 'CARES', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M224', 'CASANOVA DEL MORBASCO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('M225', 'CASTELPIETRA', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M226', 'CAVRASTO', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M227', 'COMIGHELLO', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M228', 'DASINDO', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M229', 'DUVREDO', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M230', 'FAVRIO', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M231', 'GODENZO', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M232', 'LAGUNA MUSTE''', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M233', 'LARIDO', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M234', 'LASES', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M235', 'LONA', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M236', 'MADICE', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M237', 'MALA', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M238', 'MENAS', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M239', 'MONTEVACCINO', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M240', 'ORTISE''', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M241', 'POIA', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M242', 'RANGO', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M243', 'RONCHI DI ALA', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M244', 'SACCO', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M245', 'SAVIGNANO', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M246', 'STRAVINO', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M247', 'TIGNERONE', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M248', 'VARANO', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M249', 'VIGO CAVEDINE', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M250', 'VIGO LOMASO', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M251', 'VILLAMONTAGNA', 'TN', 'comune', NULL, NULL, datetime('now')),
+  ('M252', 'CREDERA CON ROVERETO', 'CR', 'comune', NULL, NULL, datetime('now')),
+  ('M253', 'SICIGNANO DEGLI ALBURNI', 'SA', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M254', 'VALSANTAMARINA', 'FU', 'comune', '1924-03-09', '1947-09-16', datetime('now')),
+  ('M255', 'MOLINA ATERNO', 'AQ', 'comune', '1889-07-15', NULL, datetime('now')),
+  ('M256', 'SCANZANO JONICO', 'MT', 'comune', '1974-08-02', NULL, datetime('now')),
+  ('M257', 'PORTOPALO DI CAPO PASSERO', 'SR', 'comune', '1975-03-23', NULL, datetime('now')),
+  ('M258', 'AVIGLIANO UMBRO', 'TR', 'comune', '1975-04-24', NULL, datetime('now')),
+  ('M259', 'VIDDALBA', 'SS', 'comune', '1975-05-04', NULL, datetime('now')),
+  ('M260', 'CASAPESENNA', 'CE', 'comune', '1973-03-14', NULL, datetime('now')),
+  ('M261', 'CASTRO', 'LE', 'comune', '1975-05-28', NULL, datetime('now')),
+  ('M262', 'CELLOLE', 'CE', 'comune', '1973-03-14', NULL, datetime('now')),
+  ('M263', 'PORTO CESAREO', 'LE', 'comune', '1975-06-01', NULL, datetime('now')),
+  ('M264', 'SAN CASSIANO', 'LE', 'comune', '1975-05-20', NULL, datetime('now')),
+  ('M265', 'VAJONT', 'PN', 'comune', '1971-07-10', NULL, datetime('now')),
+  ('M266', 'ORDONA', 'FG', 'comune', '1975-05-20', NULL, datetime('now')),
+  ('M267', 'ZAPPONETA', 'FG', 'comune', '1975-05-20', NULL, datetime('now')),
+  ('M268', 'BLUFI', 'PA', 'comune', '1972-04-05', NULL, datetime('now')),
+  ('M269', 'PATERNO', 'PZ', 'comune', '1973-06-25', NULL, datetime('now')),
+  ('M270', 'MASAINAS', 'SU', 'comune', '1974-08-02', NULL, datetime('now')),
+  ('M271', 'MAZZARRONE', 'CT', 'comune', '1976-05-27', NULL, datetime('now')),
+  ('M272', 'CIAMPINO', 'RM', 'comune', '1974-10-15', NULL, datetime('now')),
+  ('M273', 'SANTA MARIA LA CARITĂ', 'NA', 'comune', '1979-01-14', NULL, datetime('now')),
+  ('M274', 'GOLFO ARANCI', 'OT', 'comune', '1979-04-20', NULL, datetime('now')),
+  ('M275', 'LOIRI PORTO SAN PAOLO', 'OT', 'comune', '1979-04-20', NULL, datetime('now')),
+  ('M276', 'SANT''ANTONIO DI GALLURA', 'OT', 'comune', '1979-04-20', NULL, datetime('now')),
+  ('M277', 'SAN FERDINANDO', 'RC', 'comune', '1977-12-18', NULL, datetime('now')),
+  ('M278', 'VILLAPERUCCIO', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M279', 'PRIOLO GARGALLO', 'SR', 'comune', '1979-08-10', NULL, datetime('now')),
+  ('M280', 'TRECASE', 'NA', 'comune', '1980-04-05', NULL, datetime('now')),
+  ('M281', 'PETROSINO', 'TP', 'comune', '1980-08-10', NULL, datetime('now')),
+  ('M282', 'TERGU', 'SS', 'comune', '1980-07-11', NULL, datetime('now')),
+  ('M283', 'MANIACE', 'CT', 'comune', '1981-05-03', NULL, datetime('now')),
+  ('M284', 'SANTA MARIA COGHINAS', 'SS', 'comune', '1983-02-27', NULL, datetime('now')),
+  ('M285', 'CARDEDU', 'OG', 'comune', '1984-05-24', NULL, datetime('now')),
+  ('M286', 'TORRENOVA', 'ME', 'comune', '1984-12-09', NULL, datetime('now')),
+  ('M287', 'RAGALNA', 'CT', 'comune', '1985-05-17', NULL, datetime('now')),
+  ('M288', 'CASTIADAS', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M289', 'MASSA DI SOMMA', 'NA', 'comune', '1988-06-14', NULL, datetime('now')),
+  ('M290', 'STINTINO', 'SS', 'comune', '1988-08-06', NULL, datetime('now')),
+  ('M291', 'PISCINAS', 'SU', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M292', 'ERULA', 'SS', 'comune', '1988-08-06', NULL, datetime('now')),
+  ('M293', 'VEGLIA', 'FM', 'comune', NULL, NULL, datetime('now')),
+  ('M294', 'BELLIZZI', 'SA', 'comune', '1990-01-30', NULL, datetime('now')),
+  ('M295', 'SAN CESAREO', 'RM', 'comune', '1990-04-10', NULL, datetime('now')),
+  ('M296', 'PIEMONTE D''ISTRIA', 'PL', 'comune', NULL, NULL, datetime('now')),
+  ('M297', 'FIUMICINO', 'RM', 'comune', '1992-04-04', NULL, datetime('now')),
+  ('M298', 'STATTE', 'TA', 'comune', '1993-05-01', NULL, datetime('now')),
+  ('M299', 'BOVILLE', 'RM', 'comune', '1993-11-05', '1995-09-21', datetime('now')),
+  ('M300', 'DUE CARRARE', 'PD', 'comune', '1995-04-08', NULL, datetime('now')),
+  ('M301', 'PADRU', 'OT', 'comune', '1996-01-24', NULL, datetime('now')),
+  ('M302', 'MONTIGLIO MONFERRATO', 'AT', 'comune', '1998-09-01', NULL, datetime('now')),
+  ('M303', 'RONZO-CHIENIS', 'TN', 'comune', '1923-02-14', NULL, datetime('now')),
+  ('M304', 'MOSSO', 'BI', 'comune', '1999-01-01', '2019-01-01', datetime('now')),
+  ('M305', 'ALME'' CON VILLA', 'BG', 'comune', NULL, NULL, datetime('now')),
+  ('M306', 'COLLE ISARCO', 'BZ', 'comune', NULL, NULL, datetime('now')),
+  ('M307', 'RASUN VALDAORA', 'BZ', 'comune', '1928-10-17', '1955-03-03', datetime('now')),
+  ('M308', 'CAVALLINO-TREPORTI', 'VE', 'comune', '1999-04-02', NULL, datetime('now')),
+  ('M309', 'FONTE NUOVA', 'RM', 'comune', '2001-10-15', NULL, datetime('now')),
+  ('M310', 'SEBENICO', 'ZA', 'comune', NULL, NULL, datetime('now')),
+  ('M311', 'CAMPOLONGO TAPOGLIANO', 'UD', 'comune', '1866-11-19', NULL, datetime('now')),
+  ('M312', 'LONATO DEL GARDA', 'BS', 'comune', '1861-03-17', NULL, datetime('now')),
+  ('M313', 'LEDRO', 'TN', 'comune', '2010-01-01', NULL, datetime('now')),
+  ('M314', 'COMANO TERME', 'TN', 'comune', '2010-01-01', NULL, datetime('now')),
+  ('M315', 'GRAVEDONA ED UNITI', 'CO', 'comune', '2011-02-11', NULL, datetime('now')),
+  ('M316', 'MAPPANO', 'TO', 'comune', '2017-04-18', NULL, datetime('now')),
+  ('M317', 'RIVIGNANO TEOR', 'UD', 'comune', '2014-01-01', NULL, datetime('now')),
+  ('M318', 'TRECASTELLI', 'AN', 'comune', '2014-01-01', NULL, datetime('now')),
+  ('M319', 'FABBRICHE DI VERGEMOLI', 'LU', 'comune', '2014-01-01', NULL, datetime('now')),
+  ('M320', 'VALSAMOGGIA', 'BO', 'comune', '2014-01-01', NULL, datetime('now')),
+  ('M321', 'FIGLINE E INCISA VALDARNO', 'FI', 'comune', '2014-01-01', NULL, datetime('now')),
+  ('M322', 'CASTELFRANCO PIANDISCÒ', 'AR', 'comune', '2014-01-01', NULL, datetime('now')),
+  ('M323', 'FISCAGLIA', 'FE', 'comune', '2014-01-01', NULL, datetime('now')),
+  ('M324', 'POGGIO TORRIANA', 'RN', 'comune', '2014-01-01', NULL, datetime('now')),
+  ('M325', 'SISSA TRECASALI', 'PR', 'comune', '2014-01-01', NULL, datetime('now')),
+  ('M326', 'SCARPERIA E SAN PIERO', 'FI', 'comune', '2014-01-01', NULL, datetime('now')),
+  ('M327', 'CASCIANA TERME LARI', 'PI', 'comune', '2014-01-01', NULL, datetime('now')),
+  ('M328', 'CRESPINA LORENZANA', 'PI', 'comune', '2014-01-01', NULL, datetime('now')),
+  ('M329', 'PRATOVECCHIO STIA', 'AR', 'comune', '2014-01-01', NULL, datetime('now')),
+  ('M330', 'MONTORO', 'AV', 'comune', '2013-12-03', NULL, datetime('now')),
+  ('M331', 'VALLEFOGLIA', 'PU', 'comune', '2014-01-01', NULL, datetime('now')),
+  ('M332', 'QUERO VAS', 'BL', 'comune', '2013-12-28', '2024-01-22', datetime('now')),
+  ('M333', 'SANT''OMOBONO TERME', 'BG', 'comune', '2014-02-04', NULL, datetime('now')),
+  ('M334', 'VAL BREMBILLA', 'BG', 'comune', '2014-02-04', NULL, datetime('now')),
+  ('M335', 'BELLAGIO', 'CO', 'comune', '2014-02-04', NULL, datetime('now')),
+  ('M336', 'COLVERDE', 'CO', 'comune', '2014-02-04', NULL, datetime('now')),
+  ('M337', 'VERDERIO', 'LC', 'comune', '2014-02-04', NULL, datetime('now')),
+  ('M338', 'CORNALE E BASTIDA', 'PV', 'comune', '2014-02-04', NULL, datetime('now')),
+  ('M339', 'MACCAGNO CON PINO E VEDDASCA', 'VA', 'comune', '2014-02-04', NULL, datetime('now')),
+  ('M340', 'BORGO VIRGILIO', 'MN', 'comune', '2014-02-04', NULL, datetime('now')),
+  ('M341', 'TREMEZZINA', 'CO', 'comune', '2014-02-04', NULL, datetime('now')),
+  ('M342', 'LONGARONE', 'BL', 'comune', '2014-02-22', NULL, datetime('now')),
+  ('M343', 'VALDAONE', 'TN', 'comune', '2015-01-01', NULL, datetime('now')),
+  ('M344', 'PREDAIA', 'TN', 'comune', '2015-01-01', NULL, datetime('now')),
+  ('M345', 'SAN LORENZO DORSINO', 'TN', 'comune', '2015-01-01', NULL, datetime('now')),
+  ('M346', 'VALVASONE ARZENE', 'PN', 'comune', '2015-01-01', NULL, datetime('now')),
+  ('M347', 'SILLANO GIUNCUGNANO', 'LU', 'comune', '2015-01-01', NULL, datetime('now')),
+  ('M348', 'LA VALLETTA BRIANZA', 'LC', 'comune', '2015-01-30', NULL, datetime('now')),
+  ('M349', 'ALTAVALLE', 'TN', 'comune', '2016-01-01', NULL, datetime('now')),
+  ('M350', 'ALTOPIANO DELLA VIGOLANA', 'TN', 'comune', '2016-01-01', NULL, datetime('now')),
+  ('M351', 'AMBLAR-DON', 'TN', 'comune', '2016-01-01', NULL, datetime('now')),
+  ('M352', 'BORGO CHIESE', 'TN', 'comune', '2016-01-01', NULL, datetime('now')),
+  ('M353', 'BORGO LARES', 'TN', 'comune', '2016-01-01', NULL, datetime('now')),
+  ('M354', 'CASTEL IVANO', 'TN', 'comune', '2016-01-01', NULL, datetime('now')),
+  ('M355', 'CEMBRA LISIGNAGO', 'TN', 'comune', '2016-01-01', NULL, datetime('now')),
+  ('M356', 'CONTÃ', 'TN', 'comune', '2016-01-01', NULL, datetime('now')),
+  ('M357', 'MADRUZZO', 'TN', 'comune', '2016-01-01', NULL, datetime('now')),
+  ('M358', 'PORTE DI RENDENA', 'TN', 'comune', '2016-01-01', NULL, datetime('now')),
+  ('M359', 'PRIMIERO SAN MARTINO DI CASTROZZA', 'TN', 'comune', '2016-01-01', NULL, datetime('now')),
+  ('M360', 'SELLA GIUDICARIE', 'TN', 'comune', '2016-01-01', NULL, datetime('now')),
+  ('M361', 'TRE VILLE', 'TN', 'comune', '2016-01-01', NULL, datetime('now')),
+  ('M362', 'VALLELAGHI', 'TN', 'comune', '2016-01-01', NULL, datetime('now')),
+  ('M363', 'VILLE D''ANAUNIA', 'TN', 'comune', '2016-01-01', NULL, datetime('now')),
+  ('M364', 'VENTASSO', 'RE', 'comune', '2016-01-01', NULL, datetime('now')),
+  ('M365', 'PIEVE DI BONO-PREZZO', 'TN', 'comune', '2016-01-01', NULL, datetime('now')),
+  ('M366', 'DIMARO FOLGARIDA', 'TN', 'comune', '2016-01-01', NULL, datetime('now')),
+  ('M367', 'POLESINE ZIBELLO', 'PR', 'comune', '2016-01-01', NULL, datetime('now')),
+  ('M368', 'MONTESCUDO-MONTE COLOMBO', 'RN', 'comune', '2016-01-01', NULL, datetime('now')),
+  ('M369', 'ALTO RENO TERME', 'BO', 'comune', '2016-01-01', NULL, datetime('now')),
+  ('M370', 'BORGOMEZZAVALLE', 'VB', 'comune', '2016-01-01', NULL, datetime('now')),
+  ('M371', 'LESSONA', 'BI', 'comune', '2016-01-01', NULL, datetime('now')),
+  ('M372', 'CORTEOLONA E GENZONE', 'PV', 'comune', '2016-01-01', NULL, datetime('now')),
+  ('M373', 'CAMPIGLIA CERVO', 'BI', 'comune', '2016-01-01', NULL, datetime('now')),
+  ('M374', 'VAL DI ZOLDO', 'BL', 'comune', '2016-02-23', NULL, datetime('now')),
+  ('M375', 'ALPAGO', 'BL', 'comune', '2016-02-23', NULL, datetime('now')),
+  ('M376', 'ABETONE CUTIGLIANO', 'PT', 'comune', '2017-01-01', NULL, datetime('now')),
+  ('M377', 'SAN MARCELLO PITEGLIO', 'PT', 'comune', '2017-01-01', NULL, datetime('now')),
+  ('M378', 'MONTALCINO', 'SI', 'comune', '2017-01-01', NULL, datetime('now')),
+  ('M379', 'TERRE ROVERESCHE', 'PU', 'comune', '2017-01-01', NULL, datetime('now')),
+  ('M380', 'COLLI AL METAURO', 'PU', 'comune', '2017-01-01', NULL, datetime('now')),
+  ('M381', 'TERRE DEL RENO', 'FE', 'comune', '2017-01-01', NULL, datetime('now')),
+  ('M382', 'VALFORNACE', 'MC', 'comune', '2017-01-01', NULL, datetime('now')),
+  ('M383', 'ALTA VALLE INTELVI', 'CO', 'comune', '2017-01-01', NULL, datetime('now')),
+  ('M384', 'VAL LIONA', 'VI', 'comune', '2017-02-17', NULL, datetime('now')),
+  ('M385', 'CASALI DEL MANCO', 'CS', 'comune', '2017-05-05', NULL, datetime('now')),
+  ('M386', 'ALTA VAL TIDONE', 'PC', 'comune', '2018-01-01', NULL, datetime('now')),
+  ('M387', 'MONTALTO CARPASIO', 'IM', 'comune', '2018-01-01', NULL, datetime('now')),
+  ('M388', 'CASSANO SPINOLA', 'AL', 'comune', '2018-01-01', NULL, datetime('now')),
+  ('M389', 'ALTO SERMENZA', 'VC', 'comune', '2018-01-01', NULL, datetime('now')),
+  ('M390', 'SAN GIOVANNI DI FASSA', 'TN', 'comune', '2018-01-01', NULL, datetime('now')),
+  ('M391', 'RIO', 'LI', 'comune', '2018-01-01', NULL, datetime('now')),
+  ('M392', 'LATERINA PERGINE VALDARNO', 'AR', 'comune', '2018-01-01', NULL, datetime('now')),
+  ('M393', 'CASTELGERUNDO', 'LO', 'comune', '2018-01-01', NULL, datetime('now')),
+  ('M394', 'CENTRO VALLE INTELVI', 'CO', 'comune', '2018-01-01', NULL, datetime('now')),
+  ('M395', 'VALVARRONE', 'LC', 'comune', '2018-01-01', NULL, datetime('now')),
+  ('M396', 'BORGO MANTOVANO', 'MN', 'comune', '2018-01-01', NULL, datetime('now')),
+  ('M397', 'ALLUVIONI PIOVERA', 'AL', 'comune', '2018-01-01', NULL, datetime('now')),
+  ('M398', 'CELLIO CON BREIA', 'VC', 'comune', '2018-01-01', NULL, datetime('now')),
+  ('M399', 'TREPPO LIGOSULLO', 'UD', 'comune', '2018-02-01', NULL, datetime('now')),
+  ('M400', 'FIUMICELLO VILLA VICENTINA', 'UD', 'comune', '2018-02-01', NULL, datetime('now')),
+  ('M401', 'BARBARANO MOSSANO', 'VI', 'comune', '2018-02-17', NULL, datetime('now')),
+  ('M402', 'BORGO VENETO', 'PD', 'comune', '2018-02-17', NULL, datetime('now')),
+  ('M403', 'CORIGLIANO-ROSSANO', 'CS', 'comune', '2018-03-31', NULL, datetime('now')),
+  ('M404', 'VALLE CANNOBINA', 'VB', 'comune', '2019-01-01', NULL, datetime('now')),
+  ('M405', 'VAL DI CHY', 'TO', 'comune', '2019-01-01', NULL, datetime('now')),
+  ('M406', 'BORGOCARBONARA', 'MN', 'comune', '2019-01-01', NULL, datetime('now')),
+  ('M407', 'TERRE D''ADIGE', 'TN', 'comune', '2019-01-01', NULL, datetime('now')),
+  ('M408', 'BARBERINO TAVARNELLE', 'FI', 'comune', '2019-01-01', NULL, datetime('now')),
+  ('M409', 'TRESIGNANA', 'FE', 'comune', '2019-01-01', NULL, datetime('now')),
+  ('M410', 'RIVA DEL PO', 'FE', 'comune', '2019-01-01', NULL, datetime('now')),
+  ('M411', 'SORBOLO MEZZANI', 'PR', 'comune', '2019-01-01', NULL, datetime('now')),
+  ('M412', 'SOLBIATE CON CAGNO', 'CO', 'comune', '2019-01-01', NULL, datetime('now')),
+  ('M413', 'SASSOCORVARO AUDITORE', 'PU', 'comune', '2019-01-01', NULL, datetime('now')),
+  ('M414', 'QUAREGNA CERRETO', 'BI', 'comune', '2019-01-01', NULL, datetime('now')),
+  ('M415', 'VALCHIUSA', 'TO', 'comune', '2019-01-01', NULL, datetime('now')),
+  ('M416', 'GATTICO-VERUNO', 'NO', 'comune', '2019-01-01', NULL, datetime('now')),
+  ('M417', 'VALDILANA', 'BI', 'comune', '2019-01-01', NULL, datetime('now')),
+  ('M418', 'PIADENA DRIZZONA', 'CR', 'comune', '2019-01-01', NULL, datetime('now')),
+  ('M419', 'COLLI VERDI', 'PV', 'comune', '2019-01-01', NULL, datetime('now')),
+  ('M420', 'LU E CUCCARO MONFERRATO', 'AL', 'comune', '2019-02-01', NULL, datetime('now')),
+  ('M421', 'BORGO VALBELLUNA', 'BL', 'comune', '2019-01-30', NULL, datetime('now')),
+  ('M422', 'PIEVE DEL GRAPPA', 'TV', 'comune', '2019-01-30', NULL, datetime('now')),
+  ('M423', 'VALBRENTA', 'VI', 'comune', '2019-01-30', NULL, datetime('now')),
+  ('M424', 'VERMEZZO CON ZELO', 'MI', 'comune', '2019-02-08', NULL, datetime('now')),
+  ('M425', 'CADREZZATE CON OSMATE', 'VA', 'comune', '2019-02-15', NULL, datetime('now')),
+  ('M426', 'COLCERESA', 'VI', 'comune', '2019-02-20', NULL, datetime('now')),
+  ('M427', 'LUSIANA CONCO', 'VI', 'comune', '2019-02-20', NULL, datetime('now')),
+  ('M428', 'PRESICCE-ACQUARICA', 'LE', 'comune', '2019-05-15', NULL, datetime('now')),
+  ('M429', 'BORGO D''ANAUNIA', 'TN', 'comune', '2020-01-01', NULL, datetime('now')),
+  ('M430', 'NOVELLA', 'TN', 'comune', '2020-01-01', NULL, datetime('now')),
+  ('M431', 'VILLE DI FIEMME', 'TN', 'comune', '2020-01-01', NULL, datetime('now')),
+  ('M432', 'MISILISCEMI', 'TP', 'comune', '2021-02-20', NULL, datetime('now')),
+  ('M433', 'BARDELLO CON MALGESSO E BREGANO', 'VA', 'comune', '2023-01-01', NULL, datetime('now')),
+  ('M434', 'MORANSENGO-TONENGO', 'AT', 'comune', '2023-01-01', NULL, datetime('now')),
+  ('M435', 'UGGIATE CON RONAGO', 'CO', 'comune', '2024-01-01', NULL, datetime('now')),
+  ('M436', 'SOVIZZO', 'VI', 'comune', '2024-01-22', NULL, datetime('now')),
+  ('M437', 'SETTEVILLE', 'BL', 'comune', '2024-01-22', NULL, datetime('now')),
+  ('M438', 'SANTA CATERINA D''ESTE', 'PD', 'comune', '2024-01-22', NULL, datetime('now')),
+  ('Z100', 'ALBANIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z101', 'ANDORRA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z102', 'AUSTRIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z103', 'BELGIO', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z104', 'BULGARIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z105', 'CECOSLOVACCHIA', NULL, 'estero', NULL, '1993-01-01', datetime('now')),
+  ('Z106', 'STATO DELLA CITTÃ  DEL VATICANO', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z107', 'DANIMARCA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z108', 'ISOLE FÆR ØER', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z109', 'FINLANDIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z110', 'FRANCIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z111', 'REPUBBLICA DEMOCRATICA TEDESCA', NULL, 'estero', NULL, '1991-01-01', datetime('now')),
+  ('Z112', 'GERMANIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z113', 'GIBILTERRA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z114', 'REGNO UNITO', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z115', 'GRECIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z116', 'IRLANDA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z117', 'ISLANDA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z118', 'REPUBBLICA SOCIALISTA FEDERALE DI JUGOSLAVIA', NULL, 'estero', NULL, '2004-01-01', datetime('now')),
+  ('Z119', 'LIECHTENSTEIN', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z120', 'LUSSEMBURGO', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z121', 'MALTA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z122', 'ISOLA DI MAN', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z123', 'MONACO', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z124', 'NORMANNE (ISOLE)=ISOLE DEL CANALE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z125', 'NORVEGIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z126', 'PAESI BASSI', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z127', 'POLONIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z128', 'PORTOGALLO', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z129', 'ROMANIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z130', 'SAN MARINO', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z131', 'SPAGNA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z132', 'SVEZIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z133', 'SVIZZERA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z134', 'UNGHERIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z135', 'UNIONE SOVIETICA', NULL, 'estero', NULL, '1992-01-01', datetime('now')),
+  ('Z136', 'GEORGIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z137', 'ARMENIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z138', 'UCRAINA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z139', 'BIELORUSSIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z140', 'MOLDOVA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z141', 'AZERBAIGIAN', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z142', 'KIRGHIZISTAN', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z143', 'UZBEKISTAN', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z144', 'ESTONIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z145', 'LETTONIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z146', 'LITUANIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z147', 'TAGIKISTAN', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z148', 'MACEDONIA DEL NORD', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z149', 'CROAZIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z150', 'SLOVENIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z151', 'TURKMENISTAN', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z152', 'KAZAKISTAN', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z153', 'BOSNIA-ERZEGOVINA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z154', 'FEDERAZIONE RUSSA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z155', 'SLOVACCHIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z156', 'REPUBBLICA CECA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z157', 'SERBIA E MONTENEGRO', NULL, 'estero', NULL, '2007-01-01', datetime('now')),
+  ('Z158', 'SERBIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z159', 'MONTENEGRO', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z160', 'KOSOVO', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z161', 'PALESTINA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z200', 'AFGHANISTAN', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z201', 'ARABIA MERIDIONALE FEDERAZIONE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z202', 'ARABIA MERIDIONALE PROTETTORATO', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z203', 'ARABIA SAUDITA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z204', 'BAHREIN', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z205', 'BHUTAN', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z206', 'MYANMAR/BIRMANIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z207', 'BRUNEI DARUSSALAM', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z208', 'CAMBOGIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z209', 'SRI LANKA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z210', 'CINA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z211', 'CIPRO', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z212', 'COCOS (ISOLE)', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z213', 'COREA DEL SUD', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z214', 'COREA DEL NORD', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z215', 'EMIRATI ARABI UNITI', NULL, 'estero', NULL, NULL, datetime('now'));
+
+INSERT INTO belfioreCodes (code, name, province, kind, validFrom, validTo, updatedAt) VALUES
+  ('Z216', 'FILIPPINE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z217', 'TAIWAN', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z218', 'GAZA (TERRITORIO DI)', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z219', 'GIAPPONE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z220', 'GIORDANIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z221', 'HONG KONG', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z222', 'INDIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z223', 'INDONESIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z224', 'IRAN', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z225', 'IRAQ', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z226', 'ISRAELE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z227', 'KUWAIT', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z228', 'LAOS', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z229', 'LIBANO', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z230', 'MALAYSIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z231', 'MACAO', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z232', 'MALDIVE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z233', 'MONGOLIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z234', 'NEPAL', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z235', 'OMAN', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z236', 'PAKISTAN', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z237', 'QATAR', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z238', 'RYUKYU (ISOLE)', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z239', 'SIKKIM', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z240', 'SIRIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z241', 'THAILANDIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z242', 'TIMOR LESTE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z243', 'TURCHIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z244', 'VIETNAM DEL SUD', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z245', 'VIETNAM DEL NORD', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z246', 'YEMEN', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z247', 'MALAYSIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z248', 'SINGAPORE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z249', 'BANGLADESH', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z250', 'YEMEN DEL SUD', NULL, 'estero', NULL, '1991-01-01', datetime('now')),
+  ('Z251', 'VIETNAM', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z252', 'ARMENIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z253', 'AZERBAIGIAN', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z254', 'GEORGIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z255', 'KAZAKHSTAN', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z256', 'KIRGHIZISTAN', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z257', 'TAGIKISTAN', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z258', 'TURKMENISTAN', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z259', 'UZBEKISTAN', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z300', 'NAMIBIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z301', 'ALGERIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z302', 'ANGOLA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z303', 'BASUTOLAND-SUD AFRICA BRITANNICO', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z304', 'BECIUANIA-SUD AFRICA BRITANNICO', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z305', 'BURUNDI', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z306', 'CAMERUN', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z307', 'CAPO VERDE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z308', 'REPUBBLICA CENTRAFRICANA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z309', 'CIAD', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z310', 'COMORE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z311', 'CONGO', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z312', 'REPUBBLICA DEMOCRATICA DEL CONGO', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z313', 'COSTA D''AVORIO', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z314', 'BENIN', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z315', 'ETIOPIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z316', 'GABON', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z317', 'GAMBIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z318', 'GHANA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z319', 'GUINEA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z320', 'GUINEA-BISSAU', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z321', 'GUINEA EQUATORIALE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z322', 'KENYA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z323', 'IFNI', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z324', 'LA REUNION (ISOLA)', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z325', 'LIBERIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z326', 'LIBIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z327', 'MADAGASCAR', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z328', 'MALAWI', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z329', 'MALI', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z330', 'MAROCCO', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z331', 'MAURITANIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z332', 'MAURIZIO', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z333', 'MOZAMBICO', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z334', 'NIGER', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z335', 'NIGERIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z336', 'EGITTO', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z337', 'ZIMBABWE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z338', 'RUANDA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z339', 'SAHARA OCCIDENTALE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z340', 'SANT''ELENA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z341', 'SAO TOMÉ E PRINCIPE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z342', 'SEYCHELLES', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z343', 'SENEGAL', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z344', 'SIERRA LEONE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z345', 'SOMALIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z346', 'TERRITORIO FRANCESE DEGLI AFAR E DEGLI ISSA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z347', 'SUDAFRICA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z348', 'SUDAN', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z349', 'ESWATINI', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z350', 'TANGANICA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z351', 'TOGO', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z352', 'TUNISIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z353', 'UGANDA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z354', 'BURKINA FASO', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z355', 'ZAMBIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z356', 'ZANZIBAR', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z357', 'TANZANIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z358', 'BOTSWANA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z359', 'LESOTHO', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z360', 'MAYOTTE (ISOLA)', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z361', 'GIBUTI', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z362', 'SAHARA MERIDIONALE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z363', 'SAHARA SETTENTRIONALE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z364', 'BOPHUTHATSWANA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z365', 'TRANSKEI', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z366', 'VENDA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z367', 'CISKEI', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z368', 'ERITREA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z400', 'BERMUDA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z401', 'CANADA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z402', 'GROENLANDIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z403', 'SAINT PIERRE E MIQUELON', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z404', 'STATI UNITI D''AMERICA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z500', 'ANTILLE BRITANNICHE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z501', 'ARUBA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z502', 'BAHAMAS', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z503', 'COSTA RICA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z504', 'CUBA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z505', 'REPUBBLICA DOMINICANA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z506', 'EL SALVADOR', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z507', 'GIAMAICA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z508', 'GUADALUPA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z509', 'GUATEMALA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z510', 'HAITI', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z511', 'HONDURAS', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z512', 'BELIZE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z513', 'MARTINICA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z514', 'MESSICO', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z515', 'NICARAGUA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z516', 'PANAMA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z517', 'PANAMA ZONA DEL CANALE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z518', 'PUERTO RICO', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z519', 'ISOLE TURKS E CAICOS', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z520', 'VERGINI AMERICANE (ISOLE)', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z521', 'ANTILLE BRITANNICHE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z522', 'BARBADOS', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z523', 'ANTILLE BRITANNICHE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z524', 'GRENADA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z525', 'ISOLE VERGINI BRITANNICHE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z526', 'DOMINICA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z527', 'SANTA LUCIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z528', 'SAINT VINCENT E GRENADINE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z529', 'ANGUILLA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z530', 'ISOLE CAYMAN', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z531', 'MONTSERRAT', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z532', 'ANTIGUA E BARBUDA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z533', 'SAINT KITTS E NEVIS', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z600', 'ARGENTINA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z601', 'BOLIVIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z602', 'BRASILE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z603', 'CILE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z604', 'COLOMBIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z605', 'ECUADOR', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z606', 'GUYANA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z607', 'GUIANA FRANCESE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z608', 'SURINAME', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z609', 'ISOLE FALKLAND (MALVINE)', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z610', 'PARAGUAY', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z611', 'PERÙ', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z612', 'TRINIDAD E TOBAGO', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z613', 'URUGUAY', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z614', 'VENEZUELA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z700', 'AUSTRALIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z701', 'CAROLINE (ISOLE)', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z702', 'CHRISTMAS (ISOLA)', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z703', 'ISOLE COOK (NZ)', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z704', 'FIGI', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z705', 'GILBERT E ELLICE (ISOLE)', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z706', 'GUAM (ISOLA)', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z707', 'IRIAN OCCIDENTALE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z708', 'MACQUARIE (ISOLE)', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z709', 'MARCUS (ISOLE)', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z710', 'MARIANNE (ISOLE)', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z711', 'ISOLE MARSHALL', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z712', 'MIDWAY (ISOLE)', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z713', 'NAURU', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z714', 'SAVAGE (ISOLE)', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z715', 'NORFOLK (ISOLE E ISOLE DEL MAR DEI CORALLI)', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z716', 'NUOVA CALEDONIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z717', 'NUOVE EBRIDI (ISOLE CONDOMINIO FRANCO-INGLESE)', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z718', 'NUOVA GUINEA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z719', 'NUOVA ZELANDA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z720', 'PAPUASIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z721', 'PASQUA (ISOLA)', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z722', 'ISOLE PITCAIRN', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z723', 'POLINESIA FRANCESE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z724', 'ISOLE SALOMONE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z725', 'SAMOA AMERICANE (ISOLE)', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z726', 'SAMOA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z727', 'TOKELAU=ISOLE DELL''UNIONE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z728', 'TONGA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z729', 'WALLIS E FUTUNA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z730', 'PAPUA NUOVA GUINEA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z731', 'KIRIBATI', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z732', 'TUVALU', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z733', 'VANUATU', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z734', 'PALAU', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z735', 'STATI FEDERATI DI MICRONESIA', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z800', 'DIPENDENZE CANADESI', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z801', 'DIPENDENZE NORVEGESI ARTICHE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z802', 'DIPENDENZE SOVIETICHE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z900', 'DIPENDENZE AUSTRALIANE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z901', 'DIPENDENZE BRITANNICHE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z902', 'DIPENDENZE FRANCESI', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z903', 'DIPENDENZE NEOZELANDESI', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z904', 'DIPENDENZE NORVEGESI ANTARTICHE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z905', 'DIPENDENZE STATUNITENSI', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z906', 'DIPENDENZE SUDAFRICANE', NULL, 'estero', NULL, NULL, datetime('now')),
+  ('Z907', 'SUD SUDAN', NULL, 'estero', NULL, NULL, datetime('now'));
@@ -0,0 +1,10 @@
+-- Check-in con QR code: il docente proietta in aula un QR che cambia ogni 30 secondi,
+-- firmato con la chiave della sessione (rigenerabile per invalidare i QR già mostrati).
+-- L'allievo lo inquadra, si identifica con il codice fiscale e registra entrata e uscita:
+-- le presenze così raccolte hanno signatureMethod 'qr_code' e sono legate alla sessione.
+
+ALTER TABLE editionSessions ADD COLUMN checkInKey TEXT;
+
+ALTER TABLE attendances ADD COLUMN sessionId INTEGER REFERENCES editionSessions(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS att_session_idx ON attendances(sessionId, registrationId);
@@ -0,0 +1,31 @@
+-- Presenze con OTP per le sessioni FAD sincrone (videoconferenza), da tracciare secondo
+-- l'Accordo Stato-Regioni. All'inizio della sessione e a intervalli casuali ogni iscritto
+-- riceve via email un codice monouso da confermare sulla pagina pubblica: ogni verifica
+-- lascia una prova (hash) e l'hash complessivo finisce in attendances.signatureHash.
+
+ALTER TABLE editionSessions ADD COLUMN deliveryMode TEXT NOT NULL DEFAULT 'in_person'; -- in_person | fad_sync
+
+CREATE TABLE IF NOT EXISTS attendanceOtpChecks (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  clientId INTEGER NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  sessionId INTEGER NOT NULL REFERENCES editionSessions(id) ON DELETE CASCADE,
+  registrationId INTEGER NOT NULL REFERENCES registrations(id) ON DELETE CASCADE,
+  studentId INTEGER NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  sequence INTEGER NOT NULL, -- 0 = inizio sessione, poi le verifiche casuali
+  scheduledAt TEXT NOT NULL,
+  token TEXT NOT NULL UNIQUE, -- Identifica la verifica nel link dell'email
+  codeHash TEXT,
+  expiresAt TEXT,
+  sentAt TEXT,
+  outboxId INTEGER REFERENCES emailOutbox(id) ON DELETE SET NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  verifiedAt TEXT,
+  verifiedIp TEXT,
+  verifiedUserAgent TEXT,
+  proofHash TEXT,
+  createdAt TEXT NOT NULL,
+  UNIQUE (sessionId, registrationId, sequence)
+);
+
+CREATE INDEX IF NOT EXISTS otpChecks_due_idx ON attendanceOtpChecks(sentAt, scheduledAt);
+CREATE INDEX IF NOT EXISTS otpChecks_session_idx ON attendanceOtpChecks(sessionId, registrationId);
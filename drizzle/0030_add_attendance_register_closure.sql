@@ -0,0 +1,27 @@
+-- Chiusura del registro presenze di un'edizione: le presenze vengono congelate e concatenate
+-- in una catena di hash (ogni riga porta l'hash della precedente), l'hash finale è stampato
+-- nel registro PDF. Finché il registro è chiuso le presenze non si modificano; la riapertura
+-- richiede un motivo e ogni chiusura/riapertura resta nello storico.
+
+ALTER TABLE courseEditions ADD COLUMN registerClosedAt TEXT;
+ALTER TABLE courseEditions ADD COLUMN registerClosedBy INTEGER REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE courseEditions ADD COLUMN registerHash TEXT;
+
+ALTER TABLE attendances ADD COLUMN registerHash TEXT; -- Anello della catena alla chiusura
+
+CREATE TABLE IF NOT EXISTS attendanceRegisterEvents (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  clientId INTEGER NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  editionId INTEGER NOT NULL REFERENCES courseEditions(id) ON DELETE CASCADE,
+  action TEXT NOT NULL, -- close | reopen
+  hash TEXT, -- Hash finale della catena (solo chiusure)
+  previousHash TEXT, -- Hash della chiusura precedente, parte del seme della catena
+  attendanceCount INTEGER NOT NULL DEFAULT 0,
+  reason TEXT, -- Obbligatorio per le riaperture
+  userId INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  userEmail TEXT NOT NULL,
+  ipAddress TEXT,
+  createdAt TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS registerEvents_edition_idx ON attendanceRegisterEvents(editionId, createdAt);
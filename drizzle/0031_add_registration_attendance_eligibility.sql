@@ -0,0 +1,6 @@
+-- Frequenza calcolata: attendancePercent non si compila più a mano ma viene ricalcolata
+-- lato server dalle ore di presenza ogni volta che cambiano presenze o sessioni.
+-- Sotto la soglia minima (90%) l'iscrizione non è idonea all'attestato.
+
+ALTER TABLE registrations ADD COLUMN attendanceEligible INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE registrations ADD COLUMN attendanceUpdatedAt TEXT; -- Ultimo ricalcolo della frequenza
@@ -0,0 +1,25 @@
+-- Recupero ore: l'allievo che ha perso ore di un'edizione si iscrive solo alle sessioni di
+-- un'altra edizione dello stesso corso che coprono i moduli mancanti. Le ore confermate
+-- si sommano alla frequenza dell'iscrizione originale.
+
+CREATE TABLE IF NOT EXISTS recoveryEnrollments (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  clientId INTEGER NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  registrationId INTEGER NOT NULL REFERENCES registrations(id) ON DELETE CASCADE, -- Iscrizione da completare
+  studentId INTEGER NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  missedSessionId INTEGER REFERENCES editionSessions(id) ON DELETE SET NULL, -- Sessione persa nell'edizione originale
+  sessionId INTEGER NOT NULL REFERENCES editionSessions(id) ON DELETE CASCADE, -- Sessione di recupero
+  editionId INTEGER NOT NULL REFERENCES courseEditions(id) ON DELETE CASCADE, -- Edizione della sessione di recupero
+  module INTEGER NOT NULL, -- Posizione della sessione nel calendario del corso (1 = prima)
+  hours INTEGER NOT NULL, -- Ore da recuperare con questa sessione
+  status TEXT NOT NULL DEFAULT 'planned', -- planned | attended | absent
+  hoursRecovered REAL NOT NULL DEFAULT 0,
+  notes TEXT,
+  createdBy INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  createdAt TEXT NOT NULL,
+  updatedAt TEXT NOT NULL,
+  UNIQUE (registrationId, sessionId)
+);
+
+CREATE INDEX IF NOT EXISTS recovery_clientId_idx ON recoveryEnrollments(clientId);
+CREATE INDEX IF NOT EXISTS recovery_session_idx ON recoveryEnrollments(sessionId);
@@ -0,0 +1,6 @@
+-- Sede dello studente: serve per fatturare come privato gli iscritti senza azienda
+-- (la FatturaPA richiede indirizzo, CAP e comune del cessionario).
+
+ALTER TABLE students ADD COLUMN city TEXT;
+ALTER TABLE students ADD COLUMN province TEXT; -- Sigla di 2 lettere
+ALTER TABLE students ADD COLUMN postalCode TEXT;
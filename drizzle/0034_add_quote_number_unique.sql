@@ -0,0 +1,11 @@
+-- Numero preventivo univoco per cliente: i preventivi non si eliminano più ma passano
+-- ad annullato (status 'cancelled'), così un numero già assegnato non viene riusato.
+-- Eventuali doppioni creati prima del vincolo ricevono un suffisso con l'id.
+
+UPDATE quotes SET number = number || '-' || id
+WHERE EXISTS (
+  SELECT 1 FROM quotes q2
+  WHERE q2.clientId = quotes.clientId AND q2.number = quotes.number AND q2.id < quotes.id
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS quotes_clientId_number_unique ON quotes(clientId, number);
@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer, index, unique } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, real, index, unique } from "drizzle-orm/sqlite-core";
 import { relations } from "drizzle-orm";
 
 /**
@@ -117,11 +117,16 @@ export const students = sqliteTable("students", {
   birthPlace: text("birthPlace"),
   gender: text("gender"),
   address: text("address"),
+  city: text("city"),
+  province: text("province"), // Sigla di 2 lettere
+  postalCode: text("postalCode"), // Sede per la fattura da privato
   companyId: integer("companyId").references(() => companies.id, { onDelete: "set null" }),
   jobTitle: text("jobTitle"),
   jobRole: text("jobRole", { enum: ["operaio", "impiegato", "dirigente", "preposto", "altro"] }).default("altro"), // Mansione: Operaio, Impiegato, Dirigente, ecc.
   riskLevel: text("riskLevel", { enum: ["low", "medium", "high"] }).default("low"), // Livello Rischio per 81/08
   atecoCode: text("atecoCode"),
+  fireWarden: integer("fireWarden", { mode: "boolean" }).default(false).notNull(), // Addetto antincendio
+  firstAider: integer("firstAider", { mode: "boolean" }).default(false).notNull(), // Addetto primo soccorso
   agentId: integer("agentId").references(() => agents.id, { onDelete: "set null" }),
   isActive: integer("isActive", { mode: "boolean" }).default(true).notNull(), // Nuovo campo per disattivare studenti
   notes: text("notes"),
@@ -176,6 +181,9 @@ export const courseEditions = sqliteTable("courseEditions", {
   dedicatedCompanyId: integer("dedicatedCompanyId").references(() => companies.id, { onDelete: "set null" }),
   isActive: integer("isActive", { mode: "boolean" }).default(true).notNull(), // Nuovo campo per disattivare edizioni
   notes: text("notes"),
+  registerClosedAt: text("registerClosedAt"), // Registro presenze chiuso: presenze non modificabili
+  registerClosedBy: integer("registerClosedBy").references(() => users.id, { onDelete: "set null" }),
+  registerHash: text("registerHash"), // Hash finale della catena delle presenze
   createdAt: text("createdAt").notNull().$defaultFn(() => new Date().toISOString()),
   updatedAt: text("updatedAt").notNull().$defaultFn(() => new Date().toISOString()),
 }, (table) => ({
@@ -207,12 +215,20 @@ export const registrations = sqliteTable("registrations", {
   registrationDate: text("registrationDate").notNull().$defaultFn(() => new Date().toISOString()),
   status: text("status", { enum: ["pending", "confirmed", "completed", "failed", "cancelled"] }).default("pending").notNull(), // Aggiunto 'failed'
   priceApplied: integer("priceApplied").notNull(),
+  priceSource: text("priceSource", { enum: ["manual", "quote", "company", "agent", "edition_custom", "edition", "course"] }), // Regola che ha prodotto priceApplied
+  quoteLineId: integer("quoteLineId").references(() => quoteLines.id, { onDelete: "set null" }), // Riga del preventivo convertito
   certificateDate: text("certificateDate"), // Data rilascio attestato
-  attendancePercent: integer("attendancePercent"), // Percentuale di presenze
+  attendancePercent: integer("attendancePercent"), // Percentuale di presenze, ricalcolata dalle presenze
+  attendanceEligible: integer("attendanceEligible", { mode: "boolean" }).default(false).notNull(), // Frequenza sopra la soglia minima
+  attendanceUpdatedAt: text("attendanceUpdatedAt"), // Ultimo ricalcolo della frequenza
   notes: text("notes"),
   invoiceId: text("invoiceId"),
   invoiceStatus: text("invoiceStatus", { enum: ["none", "draft", "sent", "paid", "partial"] }).default("none"),
   recommendedNextEditionId: integer("recommendedNextEditionId").references(() => courseEditions.id, { onDelete: "set null" }), // Prossimo corso consigliato (se bocciato)
+  prerequisiteOverrideReason: text("prerequisiteOverrideReason"), // Motivazione della deroga ai prerequisiti (solo admin)
+  prerequisiteOverrideBy: integer("prerequisiteOverrideBy").references(() => users.id, { onDelete: "set null" }),
+  prerequisiteOverrideByEmail: text("prerequisiteOverrideByEmail"), // Chi ha concesso la deroga (anche l'admin del cliente)
+  prerequisiteOverrideAt: text("prerequisiteOverrideAt"),
   createdAt: text("createdAt").notNull().$defaultFn(() => new Date().toISOString()),
   updatedAt: text("updatedAt").notNull().$defaultFn(() => new Date().toISOString()),
 }, (table) => ({
@@ -229,10 +245,12 @@ export const attendances = sqliteTable("attendances", {
   registrationId: integer("registrationId").references(() => registrations.id, { onDelete: "cascade" }),
   studentId: integer("studentId").references(() => students.id, { onDelete: "cascade" }),
   courseEditionId: integer("courseEditionId").references(() => courseEditions.id, { onDelete: "cascade" }),
+  sessionId: integer("sessionId").references(() => editionSessions.id, { onDelete: "cascade" }),
   attendanceDate: text("attendanceDate").notNull(),
   signInTime: text("signInTime"), // Timestamp di entrata con firma
   signOutTime: text("signOutTime"), // Timestamp di uscita con firma
   signatureHash: text("signatureHash"), // Hash della firma digitale (es. OTP)
+  registerHash: text("registerHash"), // Anello della catena di hash alla chiusura del registro
   signatureMethod: text("signatureMethod", { enum: ["manual", "otp", "qr_code"] }).default("manual"),
   status: text("status", { enum: ["present", "absent", "late", "justified"] }).default("present").notNull(), // Mantenuto per compatibilità
   hoursAttended: integer("hoursAttended"), // Mantenuto per compatibilità
@@ -241,6 +259,7 @@ export const attendances = sqliteTable("attendances", {
   updatedAt: text("updatedAt").notNull().$defaultFn(() => new Date().toISOString()),
 }, (table) => ({
   clientIdIdx: index("att_clientId_idx").on(table.clientId),
+  sessionIdx: index("att_session_idx").on(table.sessionId, table.registrationId),
 }));
 
 /**
@@ -256,6 +275,8 @@ export const editionSessions = sqliteTable("editionSessions", {
   hours: integer("hours").notNull(),
   location: text("location"),
   notes: text("notes"),
+  checkInKey: text("checkInKey"), // Chiave HMAC dei QR di check-in
+  deliveryMode: text("deliveryMode", { enum: ["in_person", "fad_sync"] }).notNull().default("in_person"), // fad_sync = videoconferenza, presenze con OTP
   createdAt: text("createdAt").notNull().$defaultFn(() => new Date().toISOString()),
   updatedAt: text("updatedAt").notNull().$defaultFn(() => new Date().toISOString()),
 }, (table) => ({
@@ -323,7 +344,425 @@ export const editionAgentPrices = sqliteTable("edition_agent_prices", {
   courseEditionId: integer("course_edition_id").notNull().references(() => courseEditions.id, { onDelete: "cascade" }),
   agentId: integer("agent_id").notNull().references(() => agents.id, { onDelete: "cascade" }),
   price: integer("price").notNull().default(0), // Prezzo in centesimi
-  clientId: integer("clientId").notNull(),
+  clientId: integer("clientId").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  createdAt: text("createdAt").notNull().$defaultFn(() => new Date().toISOString()),
+  updatedAt: text("updatedAt").notNull().$defaultFn(() => new Date().toISOString()),
+}, (table) => ({
+  clientIdIdx: index("edition_agent_price_clientId_idx").on(table.clientId),
+  uniquePrice: unique().on(table.courseEditionId, table.agentId),
+}));
+
+/**
+ * Certificates table - Attestati emessi con numerazione progressiva per cliente
+ */
+export const certificates = sqliteTable("certificates", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  clientId: integer("clientId").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  registrationId: integer("registrationId").notNull().references(() => registrations.id, { onDelete: "cascade" }),
+  progressive: integer("progressive").notNull(), // Numero progressivo per cliente
+  certificateNumber: text("certificateNumber").notNull(), // Es. 00012/2026
+  issueDate: text("issueDate").notNull(),
+  expiryDate: text("expiryDate"),
+  payload: text("payload").notNull(), // Snapshot JSON dei dati stampati (ristampa identica)
+  verificationToken: text("verificationToken"), // Token casuale del codice di verifica pubblico (QR)
+  revokedAt: text("revokedAt"), // Valorizzato quando l'iscrizione esce dallo stato 'completed'
+  createdAt: text("createdAt").notNull().$defaultFn(() => new Date().toISOString()),
+  updatedAt: text("updatedAt").notNull().$defaultFn(() => new Date().toISOString()),
+}, (table) => ({
+  clientIdIdx: index("certificate_clientId_idx").on(table.clientId),
+  uniqueRegistration: unique().on(table.registrationId),
+  uniqueProgressivePerClient: unique().on(table.clientId, table.progressive),
+  uniqueVerificationToken: unique().on(table.verificationToken),
+}));
+
+/**
+ * Password tokens table - Link monouso per invito utenti e reset password
+ */
+export const passwordTokens = sqliteTable("passwordTokens", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  clientId: integer("clientId").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  userId: integer("userId").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: text("tokenHash").notNull(), // SHA-256 del token: il token in chiaro è solo nel link
+  purpose: text("purpose", { enum: ["invite", "reset"] }).notNull(),
+  expiresAt: text("expiresAt").notNull(),
+  usedAt: text("usedAt"),
+  createdAt: text("createdAt").notNull().$defaultFn(() => new Date().toISOString()),
+}, (table) => ({
+  userIdIdx: index("passwordToken_userId_idx").on(table.userId),
+  uniqueTokenHash: unique().on(table.tokenHash),
+}));
+
+/**
+ * Audit log table - Storico delle modifiche ai dati (chi, cosa, quando, da quale IP)
+ */
+export const auditLog = sqliteTable("auditLog", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  clientId: integer("clientId").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  userId: integer("userId").notNull(), // 0 = admin del cliente
+  userEmail: text("userEmail").notNull(),
+  entityType: text("entityType", { enum: ["company", "student", "edition", "registration", "attendance", "session", "subscription"] }).notNull(),
+  entityId: integer("entityId").notNull(),
+  action: text("action", { enum: ["create", "update", "delete"] }).notNull(),
+  changes: text("changes").notNull(), // JSON { campo: { from, to } }
+  // Riferimenti per lo storico di studente, azienda ed edizione (nessuna FK: il log sopravvive alle cancellazioni)
+  studentId: integer("studentId"),
+  companyId: integer("companyId"),
+  editionId: integer("editionId"),
+  ipAddress: text("ipAddress"),
+  createdAt: text("createdAt").notNull().$defaultFn(() => new Date().toISOString()),
+}, (table) => ({
+  entityIdx: index("auditLog_entity_idx").on(table.clientId, table.entityType, table.entityId),
+  studentIdx: index("auditLog_studentId_idx").on(table.studentId),
+  companyIdx: index("auditLog_companyId_idx").on(table.companyId),
+  editionIdx: index("auditLog_editionId_idx").on(table.editionId),
+}));
+
+/**
+ * Email outbox table - Coda di invio email con stato, tentativi e ultimo errore
+ */
+export const emailOutbox = sqliteTable("emailOutbox", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  clientId: integer("clientId").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  kind: text("kind", { enum: ["calendar_invite", "certificate_notice", "bulk_notice", "expiry_reminder", "attendance_otp", "generic"] }).notNull(),
+  toEmail: text("toEmail").notNull(),
+  fromEmail: text("fromEmail"), // Se assente: mittente delle impostazioni email
+  fromName: text("fromName"),
+  subject: text("subject").notNull(),
+  html: text("html").notNull(),
+  attachments: text("attachments"), // JSON [{ filename, content, contentType }]
+  status: text("status", { enum: ["pending", "sending", "sent", "failed"] }).notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("maxAttempts").notNull().default(5),
+  lastError: text("lastError"),
+  transport: text("transport"), // resend | smtp | file
+  messageId: text("messageId"),
+  rawMessage: text("rawMessage"), // Messaggio .eml salvato dal trasporto file
+  nextAttemptAt: text("nextAttemptAt").notNull().$defaultFn(() => new Date().toISOString()),
+  sentAt: text("sentAt"),
+  createdAt: text("createdAt").notNull().$defaultFn(() => new Date().toISOString()),
+  updatedAt: text("updatedAt").notNull().$defaultFn(() => new Date().toISOString()),
+}, (table) => ({
+  clientStatusIdx: index("emailOutbox_client_status_idx").on(table.clientId, table.status),
+  dueIdx: index("emailOutbox_due_idx").on(table.status, table.nextAttemptAt),
+}));
+
+/**
+ * Reminder settings table - Promemoria automatici delle scadenze (uno per cliente)
+ */
+export const reminderSettings = sqliteTable("reminderSettings", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  clientId: integer("clientId").notNull().unique().references(() => clients.id, { onDelete: "cascade" }),
+  enabled: integer("enabled", { mode: "boolean" }).notNull().default(true),
+  thresholds: text("thresholds").notNull().default("90,60,30,0"), // Giorni alla scadenza, separati da virgola
+  notifyStudents: integer("notifyStudents", { mode: "boolean" }).notNull().default(true),
+  notifyCompanies: integer("notifyCompanies", { mode: "boolean" }).notNull().default(true),
+  notifyAgents: integer("notifyAgents", { mode: "boolean" }).notNull().default(true),
+  updatedAt: text("updatedAt").notNull().$defaultFn(() => new Date().toISOString()),
+});
+
+/**
+ * Certificate reminders table - Promemoria di scadenza già inviati (uno per soglia e destinatario)
+ */
+export const certificateReminders = sqliteTable("certificateReminders", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  clientId: integer("clientId").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  registrationId: integer("registrationId").notNull().references(() => registrations.id, { onDelete: "cascade" }),
+  threshold: integer("threshold").notNull(), // Soglia in giorni (es. 90, 60, 30, 0)
+  recipientType: text("recipientType", { enum: ["student", "company", "agent"] }).notNull(),
+  recipientEmail: text("recipientEmail").notNull(),
+  expiryDate: text("expiryDate").notNull(), // Se la scadenza cambia, le soglie ripartono
+  outboxId: integer("outboxId").references(() => emailOutbox.id, { onDelete: "set null" }),
   createdAt: text("createdAt").notNull().$defaultFn(() => new Date().toISOString()),
+}, (table) => ({
+  clientIdIdx: index("certificateReminders_clientId_idx").on(table.clientId),
+  uniqueReminder: unique().on(table.registrationId, table.recipientType, table.threshold, table.expiryDate),
+}));
+
+/**
+ * Email templates table - Template email personalizzati dal cliente (oggetto + HTML con segnaposto)
+ */
+export const emailTemplates = sqliteTable("emailTemplates", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  clientId: integer("clientId").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  templateKey: text("templateKey").notNull(), // Chiave del template predefinito (es. certificate_expiration)
+  subject: text("subject").notNull(),
+  html: text("html").notNull(),
+  updatedAt: text("updatedAt").notNull().$defaultFn(() => new Date().toISOString()),
+}, (table) => ({
+  uniqueTemplatePerClient: unique().on(table.clientId, table.templateKey),
+}));
+
+/**
+ * Client branding table - Carta intestata del cliente (ente formatore) per documenti ed email
+ */
+export const clientBranding = sqliteTable("clientBranding", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  clientId: integer("clientId").notNull().unique().references(() => clients.id, { onDelete: "cascade" }),
+  legalName: text("legalName"), // Ragione sociale stampata su documenti (default: nome cliente)
+  vatNumber: text("vatNumber"),
+  fiscalCode: text("fiscalCode"),
+  address: text("address"),
+  city: text("city"),
+  province: text("province"),
+  zipCode: text("zipCode"),
+  phone: text("phone"),
+  email: text("email"),
+  website: text("website"),
+  accreditationNumbers: text("accreditationNumbers"), // Accreditamenti regionali / enti bilaterali, testo libero
+  logo: text("logo"), // Data URL (PNG/JPEG)
+  primaryColor: text("primaryColor").notNull().default("#2980b9"),
+  secondaryColor: text("secondaryColor").notNull().default("#1f2937"),
   updatedAt: text("updatedAt").notNull().$defaultFn(() => new Date().toISOString()),
 });
+
+/**
+ * Agent commission rules table - Regole provvigionali per agente (percentuale o fisso a iscrizione)
+ */
+export const agentCommissionRules = sqliteTable("agentCommissionRules", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  clientId: integer("clientId").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  agentId: integer("agentId").notNull().references(() => agents.id, { onDelete: "cascade" }),
+  courseType: text("courseType"), // Tipologia corso (courses.type); null = tutte
+  commissionType: text("commissionType", { enum: ["percentage", "fixed"] }).notNull().default("percentage"),
+  value: integer("value").notNull(), // Centesimi di punto (1050 = 10,50%) o centesimi di euro
+  accrueOn: text("accrueOn", { enum: ["registration", "invoiced", "paid"] }).notNull().default("registration"),
+  validFrom: text("validFrom").notNull(),
+  validTo: text("validTo"),
+  notes: text("notes"),
+  createdAt: text("createdAt").notNull().$defaultFn(() => new Date().toISOString()),
+  updatedAt: text("updatedAt").notNull().$defaultFn(() => new Date().toISOString()),
+}, (table) => ({
+  agentIdx: index("agentCommissionRules_agent_idx").on(table.clientId, table.agentId),
+}));
+
+/**
+ * Agent commission statements table - Estratti conto provvigionali mensili
+ */
+export const agentCommissionStatements = sqliteTable("agentCommissionStatements", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  clientId: integer("clientId").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  agentId: integer("agentId").notNull().references(() => agents.id, { onDelete: "cascade" }),
+  period: text("period").notNull(), // YYYY-MM
+  status: text("status", { enum: ["draft", "liquidated"] }).notNull().default("draft"),
+  totalAmount: integer("totalAmount").notNull().default(0), // Centesimi
+  liquidatedAt: text("liquidatedAt"),
+  liquidatedBy: integer("liquidatedBy").references(() => users.id, { onDelete: "set null" }),
+  createdAt: text("createdAt").notNull().$defaultFn(() => new Date().toISOString()),
+  updatedAt: text("updatedAt").notNull().$defaultFn(() => new Date().toISOString()),
+}, (table) => ({
+  clientIdIdx: index("agentCommissionStatements_clientId_idx").on(table.clientId),
+  uniquePeriod: unique().on(table.agentId, table.period),
+}));
+
+/**
+ * Agent commission lines table - Righe dell'estratto conto (una per iscrizione, con snapshot dei dati)
+ */
+export const agentCommissionLines = sqliteTable("agentCommissionLines", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  clientId: integer("clientId").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  statementId: integer("statementId").notNull().references(() => agentCommissionStatements.id, { onDelete: "cascade" }),
+  registrationId: integer("registrationId").notNull().references(() => registrations.id, { onDelete: "cascade" }),
+  ruleId: integer("ruleId").references(() => agentCommissionRules.id, { onDelete: "set null" }),
+  studentName: text("studentName").notNull(),
+  courseTitle: text("courseTitle").notNull(),
+  registrationDate: text("registrationDate").notNull(),
+  priceApplied: integer("priceApplied").notNull(),
+  invoiceStatus: text("invoiceStatus"),
+  commissionAmount: integer("commissionAmount").notNull(),
+}, (table) => ({
+  statementIdx: index("agentCommissionLines_statement_idx").on(table.statementId),
+  uniqueRegistration: unique().on(table.registrationId),
+}));
+
+/**
+ * Invoices table - Fatture generate dalle iscrizioni (copia locale del documento del provider)
+ */
+export const invoices = sqliteTable("invoices", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  clientId: integer("clientId").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  companyId: integer("companyId").references(() => companies.id, { onDelete: "set null" }), // NULL = privato
+  courseEditionId: integer("courseEditionId").references(() => courseEditions.id, { onDelete: "set null" }),
+  provider: text("provider").notNull(), // local | fattureincloud | custom
+  externalId: text("externalId"), // Id del documento presso il provider
+  number: text("number").notNull(),
+  date: text("date").notNull(),
+  dueDate: text("dueDate"),
+  status: text("status", { enum: ["draft", "sent", "paid", "partial", "cancelled"] }).notNull().default("draft"),
+  customerName: text("customerName").notNull(),
+  netAmount: integer("netAmount").notNull().default(0), // Centesimi
+  vatAmount: integer("vatAmount").notNull().default(0),
+  totalAmount: integer("totalAmount").notNull().default(0),
+  pdfUrl: text("pdfUrl"),
+  createdBy: integer("createdBy").references(() => users.id, { onDelete: "set null" }),
+  createdAt: text("createdAt").notNull().$defaultFn(() => new Date().toISOString()),
+  updatedAt: text("updatedAt").notNull().$defaultFn(() => new Date().toISOString()),
+}, (table) => ({
+  clientIdIdx: index("invoices_clientId_idx").on(table.clientId),
+  companyIdx: index("invoices_company_idx").on(table.clientId, table.companyId),
+}));
+
+/**
+ * Invoice lines table - Righe fattura (una per iscrizione)
+ */
+export const invoiceLines = sqliteTable("invoiceLines", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  clientId: integer("clientId").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  invoiceId: integer("invoiceId").notNull().references(() => invoices.id, { onDelete: "cascade" }),
+  registrationId: integer("registrationId").references(() => registrations.id, { onDelete: "set null" }),
+  description: text("description").notNull(),
+  quantity: integer("quantity").notNull().default(1),
+  unitPrice: integer("unitPrice").notNull(), // Centesimi
+  vatRate: integer("vatRate").notNull().default(22),
+}, (table) => ({
+  invoiceIdx: index("invoiceLines_invoice_idx").on(table.invoiceId),
+  registrationIdx: index("invoiceLines_registration_idx").on(table.registrationId),
+}));
+
+/**
+ * Payments table - Incassi su fatture o su iscrizioni non ancora fatturate
+ */
+export const payments = sqliteTable("payments", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  clientId: integer("clientId").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  invoiceId: integer("invoiceId").references(() => invoices.id, { onDelete: "cascade" }),
+  registrationId: integer("registrationId").references(() => registrations.id, { onDelete: "cascade" }),
+  amount: integer("amount").notNull(), // Centesimi
+  paymentDate: text("paymentDate").notNull(),
+  method: text("method", { enum: ["bank_transfer", "cash", "card", "check", "other"] }).notNull().default("bank_transfer"),
+  reference: text("reference"),
+  notes: text("notes"),
+  createdBy: integer("createdBy").references(() => users.id, { onDelete: "set null" }),
+  createdAt: text("createdAt").notNull().$defaultFn(() => new Date().toISOString()),
+}, (table) => ({
+  clientIdIdx: index("payments_clientId_idx").on(table.clientId),
+  invoiceIdx: index("payments_invoice_idx").on(table.invoiceId),
+  registrationIdx: index("payments_registration_idx").on(table.registrationId),
+}));
+
+/**
+ * Quotes table - Preventivi alle aziende, convertibili in iscrizioni
+ */
+export const quotes = sqliteTable("quotes", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  clientId: integer("clientId").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  companyId: integer("companyId").notNull().references(() => companies.id, { onDelete: "cascade" }),
+  number: text("number").notNull(),
+  date: text("date").notNull(),
+  validUntil: text("validUntil"),
+  status: text("status", { enum: ["draft", "sent", "accepted", "rejected", "expired", "cancelled"] }).notNull().default("draft"),
+  notes: text("notes"),
+  totalAmount: integer("totalAmount").notNull().default(0), // Centesimi, IVA esclusa
+  sentAt: text("sentAt"),
+  respondedAt: text("respondedAt"),
+  createdBy: integer("createdBy").references(() => users.id, { onDelete: "set null" }),
+  createdAt: text("createdAt").notNull().$defaultFn(() => new Date().toISOString()),
+  updatedAt: text("updatedAt").notNull().$defaultFn(() => new Date().toISOString()),
+}, (table) => ({
+  clientIdIdx: index("quotes_clientId_idx").on(table.clientId),
+  companyIdx: index("quotes_company_idx").on(table.clientId, table.companyId),
+  uniqueNumberPerClient: unique().on(table.clientId, table.number),
+}));
+
+/**
+ * Quote lines table - Righe preventivo: corso, lavoratori e prezzo unitario
+ */
+export const quoteLines = sqliteTable("quoteLines", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  clientId: integer("clientId").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  quoteId: integer("quoteId").notNull().references(() => quotes.id, { onDelete: "cascade" }),
+  courseId: integer("courseId").notNull().references(() => courses.id, { onDelete: "cascade" }),
+  courseEditionId: integer("courseEditionId").references(() => courseEditions.id, { onDelete: "set null" }), // Edizione proposta
+  description: text("description"),
+  workers: integer("workers").notNull().default(1),
+  unitPrice: integer("unitPrice").notNull(), // Centesimi per lavoratore
+}, (table) => ({
+  quoteIdx: index("quoteLines_quote_idx").on(table.quoteId),
+}));
+
+// Codici catastali (Belfiore) di comuni, anche soppressi, e stati esteri - tabella globale
+export const belfioreCodes = sqliteTable("belfioreCodes", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  code: text("code").notNull(),
+  name: text("name").notNull(),
+  province: text("province"), // NULL per gli stati esteri
+  kind: text("kind", { enum: ["comune", "estero"] }).notNull().default("comune"),
+  validFrom: text("validFrom"),
+  validTo: text("validTo"),
+  updatedAt: text("updatedAt").notNull(),
+}, (table) => ({
+  uniqueCodeValidFrom: unique().on(table.code, table.validFrom),
+  nameIdx: index("belfioreCodes_name_idx").on(table.name),
+}));
+
+/**
+ * Attendance OTP checks table - Verifiche con codice monouso delle sessioni FAD sincrone
+ */
+export const attendanceOtpChecks = sqliteTable("attendanceOtpChecks", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  clientId: integer("clientId").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  sessionId: integer("sessionId").notNull().references(() => editionSessions.id, { onDelete: "cascade" }),
+  registrationId: integer("registrationId").notNull().references(() => registrations.id, { onDelete: "cascade" }),
+  studentId: integer("studentId").notNull().references(() => students.id, { onDelete: "cascade" }),
+  sequence: integer("sequence").notNull(), // 0 = inizio sessione, poi le verifiche casuali
+  scheduledAt: text("scheduledAt").notNull(),
+  token: text("token").notNull().unique(), // Identifica la verifica nel link dell'email
+  codeHash: text("codeHash"),
+  expiresAt: text("expiresAt"),
+  sentAt: text("sentAt"),
+  outboxId: integer("outboxId").references(() => emailOutbox.id, { onDelete: "set null" }),
+  attempts: integer("attempts").notNull().default(0),
+  verifiedAt: text("verifiedAt"),
+  verifiedIp: text("verifiedIp"),
+  verifiedUserAgent: text("verifiedUserAgent"),
+  proofHash: text("proofHash"),
+  createdAt: text("createdAt").notNull(),
+}, (table) => ({
+  uniqueSequence: unique().on(table.sessionId, table.registrationId, table.sequence),
+  dueIdx: index("otpChecks_due_idx").on(table.sentAt, table.scheduledAt),
+  sessionIdx: index("otpChecks_session_idx").on(table.sessionId, table.registrationId),
+}));
+
+/**
+ * Attendance register events table - Storico di chiusure e riaperture del registro presenze
+ */
+export const attendanceRegisterEvents = sqliteTable("attendanceRegisterEvents", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  clientId: integer("clientId").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  editionId: integer("editionId").notNull().references(() => courseEditions.id, { onDelete: "cascade" }),
+  action: text("action", { enum: ["close", "reopen"] }).notNull(),
+  hash: text("hash"), // Hash finale della catena (solo chiusure)
+  previousHash: text("previousHash"), // Hash della chiusura precedente, parte del seme della catena
+  attendanceCount: integer("attendanceCount").notNull().default(0),
+  reason: text("reason"), // Obbligatorio per le riaperture
+  userId: integer("userId").references(() => users.id, { onDelete: "set null" }),
+  userEmail: text("userEmail").notNull(),
+  ipAddress: text("ipAddress"),
+  createdAt: text("createdAt").notNull(),
+}, (table) => ({
+  editionIdx: index("registerEvents_edition_idx").on(table.editionId, table.createdAt),
+}));
+
+/**
+ * Recovery enrollments table - Iscrizioni a singole sessioni di recupero
+ */
+export const recoveryEnrollments = sqliteTable("recoveryEnrollments", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  clientId: integer("clientId").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  registrationId: integer("registrationId").notNull().references(() => registrations.id, { onDelete: "cascade" }), // Iscrizione da completare
+  studentId: integer("studentId").notNull().references(() => students.id, { onDelete: "cascade" }),
+  missedSessionId: integer("missedSessionId").references(() => editionSessions.id, { onDelete: "set null" }), // Sessione persa nell'edizione originale
+  sessionId: integer("sessionId").notNull().references(() => editionSessions.id, { onDelete: "cascade" }), // Sessione di recupero
+  editionId: integer("editionId").notNull().references(() => courseEditions.id, { onDelete: "cascade" }),
+  module: integer("module").notNull(), // Posizione della sessione nel calendario del corso (1 = prima)
+  hours: integer("hours").notNull(), // Ore da recuperare con questa sessione
+  status: text("status", { enum: ["planned", "attended", "absent"] }).notNull().default("planned"),
+  hoursRecovered: real("hoursRecovered").notNull().default(0),
+  notes: text("notes"),
+  createdBy: integer("createdBy").references(() => users.id, { onDelete: "set null" }),
+  createdAt: text("createdAt").notNull(),
+  updatedAt: text("updatedAt").notNull(),
+}, (table) => ({
+  clientIdIdx: index("recovery_clientId_idx").on(table.clientId),
+  sessionIdx: index("recovery_session_idx").on(table.sessionId),
+  uniqueSession: unique().on(table.registrationId, table.sessionId),
+}));
@@ -4,6 +4,7 @@
  */
 
 import { jwtVerify } from 'jose';
+import { checkPermission } from '../lib/permissions';
 
 interface Env {
   JWT_SECRET: string;
@@ -24,7 +25,11 @@ interface AuthContext {
 const PUBLIC_ROUTES = [
   '/api/auth/login',
   '/api/auth/refresh',
+  '/api/auth/set-password',
   '/api/health',
+  '/api/certificates/verify',
+  '/api/check-in',
+  '/api/attendance-otp',
 ];
 
 export const onRequest: PagesFunction<Env> = async (context) => {
@@ -69,9 +74,31 @@ export const onRequest: PagesFunction<Env> = async (context) => {
       isClientAdmin: payload.isClientAdmin as boolean || false,
     };
 
+    // Ruolo e stato attivo vengono riletti a ogni richiesta: un utente disattivato o
+    // declassato perde subito l'accesso, senza aspettare la scadenza del token
+    if (auth.userId !== 0) {
+      const user = await env.DB.prepare(
+        'SELECT role, isActive FROM users WHERE id = ? AND clientId = ?'
+      ).bind(auth.userId, auth.clientId).first<{ role: string; isActive: number }>();
+
+      if (!user || !user.isActive) {
+        return new Response(JSON.stringify({ error: 'Account disabilitato' }), {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+      auth.role = user.role;
+    }
+
     // Passa il contesto alle route successive
     context.data.auth = auth;
 
+    // Verifica permessi del ruolo (matrice risorsa × azione × ruolo)
+    const denied = checkPermission(auth, request.method, pathname);
+    if (denied) {
+      return denied;
+    }
+
     return next();
 
   } catch (error: any) {
@@ -0,0 +1,86 @@
+/**
+ * API Admin - Elenco codici catastali (Belfiore)
+ * POST /api/admin/belfiore-codes - Carica l'elenco ISTAT dei comuni, compresi i soppressi,
+ * e degli stati esteri da CSV (codice;denominazione;provincia;dataInizio;dataFine)
+ * GET /api/admin/belfiore-codes - Numero di codici caricati per tipo
+ *
+ * Richiede header X-Admin-Key. Con ?replace=1 sostituisce l'intera tabella,
+ * altrimenti aggiorna solo i codici presenti nel file.
+ */
+
+import { parseBelfioreCsv, saveBelfioreCodes } from '../../lib/belfiore';
+
+interface Env {
+  DB: D1Database;
+  ADMIN_SECRET_KEY: string;
+}
+
+function isAdmin(request: Request, env: Env): boolean {
+  return !!env.ADMIN_SECRET_KEY && request.headers.get('X-Admin-Key') === env.ADMIN_SECRET_KEY;
+}
+
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  if (!isAdmin(request, env)) {
+    return new Response(JSON.stringify({ error: 'Non autorizzato' }), {
+      status: 403,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const { results } = await env.DB.prepare(
+      'SELECT kind, COUNT(*) AS total, MAX(updatedAt) AS updatedAt FROM belfioreCodes GROUP BY kind'
+    ).all<{ kind: string; total: number; updatedAt: string }>();
+
+    return new Response(JSON.stringify({ data: results || [] }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error counting belfiore codes:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  if (!isAdmin(request, env)) {
+    return new Response(JSON.stringify({ error: 'Non autorizzato' }), {
+      status: 403,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const replace = new URL(request.url).searchParams.get('replace') === '1';
+
+  try {
+    const { rows, errors } = parseBelfioreCsv(await request.text());
+
+    // Un elenco con errori non si carica: meglio nessun aggiornamento che uno parziale
+    if (errors.length > 0) {
+      return new Response(JSON.stringify({ error: 'File non valido', details: errors.slice(0, 50) }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const imported = await saveBelfioreCodes(env.DB, rows, replace);
+
+    return new Response(JSON.stringify({ success: true, imported, replaced: replace }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error loading belfiore codes:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -0,0 +1,61 @@
+/**
+ * API Admin - Migrazione cifratura impostazioni email
+ * POST /api/admin/email-settings/reencrypt - Cifra con AES-GCM le credenziali
+ * ancora salvate in base64 (password SMTP e API key Resend) di tutti i clienti
+ *
+ * Richiede header X-Admin-Key. Idempotente: le righe già cifrate vengono saltate.
+ */
+
+import { reencryptEmailSettings } from '../../../lib/mail';
+
+interface Env {
+  DB: D1Database;
+  ADMIN_SECRET_KEY: string;
+  EMAIL_ENCRYPTION_KEY: string;
+}
+
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  if (!env.ADMIN_SECRET_KEY || request.headers.get('X-Admin-Key') !== env.ADMIN_SECRET_KEY) {
+    return new Response(JSON.stringify({ error: 'Non autorizzato' }), {
+      status: 403,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (!env.EMAIL_ENCRYPTION_KEY) {
+    return new Response(JSON.stringify({ error: 'EMAIL_ENCRYPTION_KEY non configurata' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const { results } = await env.DB.prepare(
+      'SELECT id, password, resendApiKey FROM emailSettings'
+    ).all<{ id: number; password: string | null; resendApiKey: string | null }>();
+
+    let updated = 0;
+    for (const row of results || []) {
+      if (await reencryptEmailSettings(env.DB, row, env.EMAIL_ENCRYPTION_KEY)) {
+        updated++;
+      }
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      total: results?.length || 0,
+      updated,
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error re-encrypting email settings:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
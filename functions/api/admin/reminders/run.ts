@@ -0,0 +1,49 @@
+/**
+ * API Admin - Promemoria scadenze
+ * POST /api/admin/reminders/run - Esegue subito il job giornaliero dei promemoria
+ * (tutti i clienti, o solo { clientId }); utile per verifiche e recuperi
+ *
+ * Richiede header X-Admin-Key. Le soglie già notificate non vengono reinviate.
+ */
+
+import { runExpiryReminders } from '../../../lib/reminders';
+
+interface Env {
+  DB: D1Database;
+  ADMIN_SECRET_KEY: string;
+  EMAIL_ENCRYPTION_KEY: string;
+  RESEND_API_KEY?: string;
+  MAIL_TRANSPORT?: string;
+}
+
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  if (!env.ADMIN_SECRET_KEY || request.headers.get('X-Admin-Key') !== env.ADMIN_SECRET_KEY) {
+    return new Response(JSON.stringify({ error: 'Non autorizzato' }), {
+      status: 403,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({})) as { clientId?: number };
+    const runs = await runExpiryReminders(env, { clientId: body.clientId });
+
+    return new Response(JSON.stringify({
+      success: true,
+      clients: runs.length,
+      queued: runs.reduce((sum, r) => sum + r.queued, 0),
+      runs,
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error running expiry reminders:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -10,6 +10,7 @@
 import { drizzle } from 'drizzle-orm/d1';
 import { eq } from 'drizzle-orm';
 import * as schema from '../../../../drizzle/schema';
+import { recordAudit } from '../../../lib/audit';
 
 interface Env {
   DB: D1Database;
@@ -17,6 +18,9 @@ interface Env {
   SUBSCRIPTIONS: KVNamespace;
 }
 
+// Le operazioni con X-Admin-Key non hanno un utente: nello storico compaiono come admin della piattaforma
+const PLATFORM_ADMIN = { userId: 0, email: 'admin' };
+
 // GET - Ottieni stato abbonamento
 export const onRequestGet: PagesFunction<Env> = async (context) => {
   const { env, params } = context;
@@ -215,13 +219,12 @@ export const onRequestDelete: PagesFunction<Env> = async (context) => {
     // Per ora, le sessioni scadranno naturalmente o verranno rifiutate dal middleware
 
     // Log azione
-    await db.insert(schema.auditLog).values({
-      clientId: clientId,
-      action: 'SUBSCRIPTION_DISABLED',
-      resourceType: 'subscription',
-      resourceId: clientId,
-      details: JSON.stringify({ reason }),
-      createdAt: new Date().toISOString(),
+    await recordAudit(env.DB, request, { clientId, ...PLATFORM_ADMIN }, {
+      entityType: 'subscription',
+      entityId: clientId,
+      action: 'update',
+      before: { subscriptionStatus: clients[0].subscriptionStatus },
+      after: { subscriptionStatus: 'expired', disabledReason: reason },
     });
 
     return new Response(JSON.stringify({
@@ -0,0 +1,239 @@
+/**
+ * API Regole provvigionali di un agente
+ * GET /api/agents/:id/commission-rules - Regole dell'agente
+ * POST /api/agents/:id/commission-rules - Nuova regola
+ * PUT /api/agents/:id/commission-rules?ruleId= - Modifica regola
+ * DELETE /api/agents/:id/commission-rules?ruleId= - Elimina regola
+ *
+ * Le righe degli estratti conto già generati conservano l'importo calcolato.
+ */
+
+import { agentExists, loadCommissionRules } from '../../../lib/commissions';
+import type { CommissionRule } from '../../../../src/lib/commissions';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+}
+
+type CommissionRuleRequest = Partial<Omit<CommissionRule, 'id' | 'agentId'>>;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Normalizza e valida il body: restituisce la regola o il messaggio di errore
+ */
+function parseRule(body: CommissionRuleRequest): Omit<CommissionRule, 'id' | 'agentId'> | string {
+  const commissionType = body.commissionType || 'percentage';
+  const accrueOn = body.accrueOn || 'registration';
+  const value = Number(body.value);
+
+  if (!['percentage', 'fixed'].includes(commissionType)) return 'Tipo di provvigione non valido';
+  if (!['registration', 'invoiced', 'paid'].includes(accrueOn)) return 'Maturazione non valida';
+  if (!Number.isInteger(value) || value < 0) return 'Il valore della provvigione non è valido';
+  if (commissionType === 'percentage' && value > 10000) return 'La percentuale non può superare il 100%';
+  if (!body.validFrom || !DATE_PATTERN.test(body.validFrom)) return 'La data di inizio validità è obbligatoria';
+  if (body.validTo && (!DATE_PATTERN.test(body.validTo) || body.validTo < body.validFrom)) {
+    return 'La fine validità deve seguire l\'inizio';
+  }
+
+  return {
+    courseType: body.courseType || null,
+    commissionType,
+    value,
+    accrueOn,
+    validFrom: body.validFrom,
+    validTo: body.validTo || null,
+    notes: body.notes?.trim() || null,
+  };
+}
+
+// GET - Regole dell'agente
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const auth = context.data.auth as AuthContext | undefined;
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const agentId = Number(context.params.id);
+    if (!await agentExists(context.env.DB, auth.clientId, agentId)) {
+      return new Response(JSON.stringify({ error: 'Agente non trovato' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify({ rules: await loadCommissionRules(context.env.DB, auth.clientId, agentId) }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error fetching commission rules:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+// POST - Nuova regola
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const auth = context.data.auth as AuthContext | undefined;
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const agentId = Number(context.params.id);
+    if (!await agentExists(context.env.DB, auth.clientId, agentId)) {
+      return new Response(JSON.stringify({ error: 'Agente non trovato' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const rule = parseRule(await context.request.json() as CommissionRuleRequest);
+    if (typeof rule === 'string') {
+      return new Response(JSON.stringify({ error: rule }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const now = new Date().toISOString();
+    const created = await context.env.DB.prepare(`
+      INSERT INTO agentCommissionRules (clientId, agentId, courseType, commissionType, value, accrueOn, validFrom, validTo, notes, createdAt, updatedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      RETURNING id, agentId, courseType, commissionType, value, accrueOn, validFrom, validTo, notes
+    `).bind(
+      auth.clientId, agentId, rule.courseType, rule.commissionType, rule.value, rule.accrueOn,
+      rule.validFrom, rule.validTo, rule.notes, now, now
+    ).first<CommissionRule>();
+
+    return new Response(JSON.stringify({ success: true, data: created }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error creating commission rule:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+// PUT - Modifica regola
+export const onRequestPut: PagesFunction<Env> = async (context) => {
+  const auth = context.data.auth as AuthContext | undefined;
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const agentId = Number(context.params.id);
+    const ruleId = Number(new URL(context.request.url).searchParams.get('ruleId'));
+    if (!ruleId) {
+      return new Response(JSON.stringify({ error: 'ruleId è obbligatorio' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const rule = parseRule(await context.request.json() as CommissionRuleRequest);
+    if (typeof rule === 'string') {
+      return new Response(JSON.stringify({ error: rule }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const updated = await context.env.DB.prepare(`
+      UPDATE agentCommissionRules
+      SET courseType = ?, commissionType = ?, value = ?, accrueOn = ?, validFrom = ?, validTo = ?, notes = ?, updatedAt = ?
+      WHERE id = ? AND agentId = ? AND clientId = ?
+      RETURNING id, agentId, courseType, commissionType, value, accrueOn, validFrom, validTo, notes
+    `).bind(
+      rule.courseType, rule.commissionType, rule.value, rule.accrueOn, rule.validFrom, rule.validTo, rule.notes,
+      new Date().toISOString(), ruleId, agentId, auth.clientId
+    ).first<CommissionRule>();
+
+    if (!updated) {
+      return new Response(JSON.stringify({ error: 'Regola non trovata' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify({ success: true, data: updated }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error updating commission rule:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+// DELETE - Elimina regola
+export const onRequestDelete: PagesFunction<Env> = async (context) => {
+  const auth = context.data.auth as AuthContext | undefined;
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const agentId = Number(context.params.id);
+    const ruleId = Number(new URL(context.request.url).searchParams.get('ruleId'));
+    if (!ruleId) {
+      return new Response(JSON.stringify({ error: 'ruleId è obbligatorio' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const deleted = await context.env.DB.prepare(
+      'DELETE FROM agentCommissionRules WHERE id = ? AND agentId = ? AND clientId = ? RETURNING id'
+    ).bind(ruleId, agentId, auth.clientId).first();
+
+    if (!deleted) {
+      return new Response(JSON.stringify({ error: 'Regola non trovata' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify({ success: true }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error deleting commission rule:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
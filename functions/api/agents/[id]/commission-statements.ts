@@ -0,0 +1,163 @@
+/**
+ * API Estratti conto provvigionali di un agente
+ * GET /api/agents/:id/commission-statements - Estratti conto dell'agente (più recenti prima)
+ * POST /api/agents/:id/commission-statements - Genera (o ricalcola, se da liquidare) l'estratto del mese
+ *
+ * Un estratto conto raccoglie le provvigioni maturate fino alla fine del mese e non
+ * ancora presenti in altri estratti: vedi functions/lib/commissions.ts.
+ */
+
+import { agentExists, computeStatementLines, PERIOD_PATTERN } from '../../../lib/commissions';
+import type { CommissionStatement } from '../../../../src/lib/commissions';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+}
+
+const STATEMENT_COLUMNS = `
+  s.id, s.agentId, s.period, s.status, s.totalAmount, s.liquidatedAt, s.createdAt, s.updatedAt,
+  (SELECT COUNT(*) FROM agentCommissionLines l WHERE l.statementId = s.id) AS linesCount
+`;
+
+// GET - Estratti conto dell'agente
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const agentId = Number(context.params.id);
+    const { results } = await context.env.DB.prepare(`
+      SELECT ${STATEMENT_COLUMNS}
+      FROM agentCommissionStatements s
+      WHERE s.clientId = ? AND s.agentId = ?
+      ORDER BY s.period DESC
+    `).bind(auth.clientId, agentId).all<CommissionStatement>();
+
+    return new Response(JSON.stringify({ statements: results || [] }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error fetching commission statements:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+// POST - Genera o ricalcola l'estratto conto di un mese
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env } = context;
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const agentId = Number(context.params.id);
+    const body = await context.request.json() as { period?: string };
+
+    if (!body.period || !PERIOD_PATTERN.test(body.period)) {
+      return new Response(JSON.stringify({ error: 'Indica il mese dell\'estratto conto (AAAA-MM)' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!await agentExists(env.DB, auth.clientId, agentId)) {
+      return new Response(JSON.stringify({ error: 'Agente non trovato' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const existing = await env.DB.prepare(
+      'SELECT id, status FROM agentCommissionStatements WHERE agentId = ? AND period = ? AND clientId = ?'
+    ).bind(agentId, body.period, auth.clientId).first<{ id: number; status: string }>();
+
+    if (existing?.status === 'liquidated') {
+      return new Response(JSON.stringify({ error: 'L\'estratto conto del mese è già stato liquidato' }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { lines, pendingCount } = await computeStatementLines(env.DB, auth.clientId, agentId, body.period, existing?.id ?? null);
+
+    if (!existing && lines.length === 0) {
+      return new Response(JSON.stringify({
+        error: 'Nessuna provvigione maturata fino al mese indicato',
+        pendingCount,
+      }), {
+        status: 422,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const now = new Date().toISOString();
+    const totalAmount = lines.reduce((sum, line) => sum + line.commissionAmount, 0);
+    let statementId = existing?.id;
+
+    if (statementId) {
+      await env.DB.batch([
+        env.DB.prepare('DELETE FROM agentCommissionLines WHERE statementId = ?').bind(statementId),
+        env.DB.prepare(
+          'UPDATE agentCommissionStatements SET totalAmount = ?, updatedAt = ? WHERE id = ?'
+        ).bind(totalAmount, now, statementId),
+      ]);
+    } else {
+      const created = await env.DB.prepare(`
+        INSERT INTO agentCommissionStatements (clientId, agentId, period, status, totalAmount, createdAt, updatedAt)
+        VALUES (?, ?, ?, 'draft', ?, ?, ?)
+        RETURNING id
+      `).bind(auth.clientId, agentId, body.period, totalAmount, now, now).first<{ id: number }>();
+      statementId = created!.id;
+    }
+
+    if (lines.length > 0) {
+      await env.DB.batch(lines.map(line => env.DB.prepare(`
+        INSERT INTO agentCommissionLines (
+          clientId, statementId, registrationId, ruleId, studentName, courseTitle,
+          registrationDate, priceApplied, invoiceStatus, commissionAmount
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).bind(
+        auth.clientId, statementId, line.registrationId, line.ruleId, line.studentName, line.courseTitle,
+        line.registrationDate, line.priceApplied, line.invoiceStatus, line.commissionAmount
+      )));
+    }
+
+    const statement = await env.DB.prepare(`
+      SELECT ${STATEMENT_COLUMNS} FROM agentCommissionStatements s WHERE s.id = ?
+    `).bind(statementId).first<CommissionStatement>();
+
+    return new Response(JSON.stringify({ success: true, data: statement, pendingCount }), {
+      status: existing ? 200 : 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error generating commission statement:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -0,0 +1,180 @@
+/**
+ * API Estratto conto provvigionale
+ * GET /api/agents/:id/commission-statements/:statementId - Estratto con le righe
+ * PUT /api/agents/:id/commission-statements/:statementId - Segna come liquidato ({ status: 'liquidated' })
+ * DELETE /api/agents/:id/commission-statements/:statementId - Elimina un estratto non ancora liquidato
+ *
+ * Un estratto liquidato non si modifica più: le sue iscrizioni non entrano in altri estratti.
+ */
+
+import type { CommissionLine, CommissionStatement } from '../../../../../src/lib/commissions';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+}
+
+async function findStatement(db: D1Database, clientId: number, agentId: number, statementId: number) {
+  return db.prepare(`
+    SELECT s.id, s.agentId, s.period, s.status, s.totalAmount, s.liquidatedAt, s.createdAt, s.updatedAt,
+      (SELECT COUNT(*) FROM agentCommissionLines l WHERE l.statementId = s.id) AS linesCount
+    FROM agentCommissionStatements s
+    WHERE s.id = ? AND s.agentId = ? AND s.clientId = ?
+  `).bind(statementId, agentId, clientId).first<CommissionStatement>();
+}
+
+// GET - Estratto conto con le righe
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, params } = context;
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const statement = await findStatement(env.DB, auth.clientId, Number(params.id), Number(params.statementId));
+
+    if (!statement) {
+      return new Response(JSON.stringify({ error: 'Estratto conto non trovato' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { results } = await env.DB.prepare(`
+      SELECT id, registrationId, ruleId, studentName, courseTitle, registrationDate, priceApplied, invoiceStatus, commissionAmount
+      FROM agentCommissionLines
+      WHERE statementId = ?
+      ORDER BY registrationDate, studentName
+    `).bind(statement.id).all<CommissionLine>();
+
+    return new Response(JSON.stringify({ ...statement, lines: results || [] }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error fetching commission statement:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+// PUT - Liquidazione
+export const onRequestPut: PagesFunction<Env> = async (context) => {
+  const { env, params } = context;
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const body = await context.request.json() as { status?: string };
+
+    if (body.status !== 'liquidated') {
+      return new Response(JSON.stringify({ error: 'Stato non valido: un estratto conto può solo essere liquidato' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const statement = await findStatement(env.DB, auth.clientId, Number(params.id), Number(params.statementId));
+
+    if (!statement) {
+      return new Response(JSON.stringify({ error: 'Estratto conto non trovato' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (statement.status === 'liquidated') {
+      return new Response(JSON.stringify({ error: 'Estratto conto già liquidato' }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const now = new Date().toISOString();
+    await env.DB.prepare(`
+      UPDATE agentCommissionStatements
+      SET status = 'liquidated', liquidatedAt = ?, liquidatedBy = ?, updatedAt = ?
+      WHERE id = ?
+    `).bind(now, auth.userId || null, now, statement.id).run();
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: { ...statement, status: 'liquidated', liquidatedAt: now, updatedAt: now },
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error liquidating commission statement:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+// DELETE - Elimina un estratto da liquidare (le iscrizioni tornano disponibili)
+export const onRequestDelete: PagesFunction<Env> = async (context) => {
+  const { env, params } = context;
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const statement = await findStatement(env.DB, auth.clientId, Number(params.id), Number(params.statementId));
+
+    if (!statement) {
+      return new Response(JSON.stringify({ error: 'Estratto conto non trovato' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (statement.status === 'liquidated') {
+      return new Response(JSON.stringify({ error: 'Un estratto conto liquidato non può essere eliminato' }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    await env.DB.batch([
+      env.DB.prepare('DELETE FROM agentCommissionLines WHERE statementId = ?').bind(statement.id),
+      env.DB.prepare('DELETE FROM agentCommissionStatements WHERE id = ?').bind(statement.id),
+    ]);
+
+    return new Response(JSON.stringify({ success: true }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error deleting commission statement:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -1,6 +1,7 @@
 import { drizzle } from 'drizzle-orm/d1';
-import { eq } from 'drizzle-orm';
+import { eq, and } from 'drizzle-orm';
 import * as schema from '../../../../drizzle/schema';
+import { recordAudit } from '../../../lib/audit';
 
 interface Env {
   DB: D1Database;
@@ -52,8 +53,16 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
 
 export const onRequestPost: PagesFunction<Env> = async (context) => {
   const { request, env, params } = context;
+  const auth = context.data.auth as AuthContext;
   const agentId = parseInt(params.id as string);
 
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
   try {
     const body = await request.json() as any;
     const { companyId } = body;
@@ -66,11 +75,29 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     }
 
     const db = drizzle(env.DB, { schema });
+    const where = and(eq(schema.companies.id, companyId), eq(schema.companies.clientId, auth.clientId));
+
+    const [existing] = await db.select().from(schema.companies).where(where).limit(1);
+    if (!existing) {
+      return new Response(JSON.stringify({ error: 'Azienda non trovata' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
 
     // Update company to link to agent
-    await db.update(schema.companies)
-      .set({ agentId })
-      .where(eq(schema.companies.id, companyId));
+    const [updated] = await db.update(schema.companies)
+      .set({ agentId, updatedAt: new Date().toISOString() })
+      .where(where)
+      .returning();
+
+    await recordAudit(env.DB, request, auth, {
+      entityType: 'company',
+      entityId: existing.id,
+      action: 'update',
+      before: existing,
+      after: updated,
+    });
 
     return new Response(JSON.stringify({ success: true }), { 
       status: 200,
@@ -87,8 +114,16 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
 
 export const onRequestDelete: PagesFunction<Env> = async (context) => {
   const { request, env, params } = context;
+  const auth = context.data.auth as AuthContext;
   const agentId = parseInt(params.id as string);
 
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
   try {
     const body = await request.json() as any;
     const { companyId } = body;
@@ -101,11 +136,29 @@ export const onRequestDelete: PagesFunction<Env> = async (context) => {
     }
 
     const db = drizzle(env.DB, { schema });
+    const where = and(eq(schema.companies.id, companyId), eq(schema.companies.clientId, auth.clientId));
+
+    const [existing] = await db.select().from(schema.companies).where(where).limit(1);
+    if (!existing) {
+      return new Response(JSON.stringify({ error: 'Azienda non trovata' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
 
     // Remove agent link from company
-    await db.update(schema.companies)
-      .set({ agentId: null })
-      .where(eq(schema.companies.id, companyId));
+    const [updated] = await db.update(schema.companies)
+      .set({ agentId: null, updatedAt: new Date().toISOString() })
+      .where(where)
+      .returning();
+
+    await recordAudit(env.DB, request, auth, {
+      entityType: 'company',
+      entityId: existing.id,
+      action: 'update',
+      before: existing,
+      after: updated,
+    });
 
     return new Response(JSON.stringify({ success: true }), { 
       status: 200,
@@ -0,0 +1,102 @@
+/**
+ * API Presenze OTP pubblica (non autenticata) dal link nell'email della sessione FAD
+ * GET /api/attendance-otp/:token - Corso, sessione e stato della verifica
+ * POST /api/attendance-otp/:token - Conferma della presenza con il codice ricevuto
+ */
+
+import { verifyAttendanceOtp } from '../../lib/otpAttendance';
+
+interface Env {
+  DB: D1Database;
+}
+
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, params } = context;
+
+  try {
+    const check = await env.DB.prepare(`
+      SELECT o.expiresAt, o.sentAt, o.verifiedAt, st.firstName, c.title AS courseTitle,
+        s.sessionDate, s.startTime, s.endTime
+      FROM attendanceOtpChecks o
+      JOIN students st ON st.id = o.studentId
+      JOIN editionSessions s ON s.id = o.sessionId
+      JOIN courseEditions ce ON ce.id = s.editionId
+      JOIN courses c ON c.id = ce.courseId
+      WHERE o.token = ?
+    `).bind(String(params.token || '')).first<{
+      expiresAt: string | null;
+      sentAt: string | null;
+      verifiedAt: string | null;
+      firstName: string;
+      courseTitle: string;
+      sessionDate: string;
+      startTime: string;
+      endTime: string;
+    }>();
+
+    if (!check?.sentAt) {
+      return new Response(JSON.stringify({ error: 'Link di verifica non valido' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify({
+      courseTitle: check.courseTitle,
+      sessionDate: check.sessionDate,
+      startTime: check.startTime,
+      endTime: check.endTime,
+      firstName: check.firstName,
+      expiresAt: check.expiresAt,
+      verifiedAt: check.verifiedAt,
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    console.error('Attendance OTP lookup error:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, params, request } = context;
+
+  try {
+    const body = await request.json() as { code?: string };
+    const code = String(body.code || '').replace(/\s/g, '');
+
+    if (!/^\d{6}$/.test(code)) {
+      return new Response(JSON.stringify({ error: 'Il codice è composto da 6 cifre' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const result = await verifyAttendanceOtp(env.DB, String(params.token || ''), code, {
+      ip: request.headers.get('CF-Connecting-IP') || request.headers.get('X-Forwarded-For'),
+      userAgent: request.headers.get('User-Agent'),
+    });
+
+    if ('error' in result) {
+      return new Response(JSON.stringify({ error: result.error }), {
+        status: result.status,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Attendance OTP verify error:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
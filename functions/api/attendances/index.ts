@@ -7,6 +7,9 @@
 import { drizzle } from 'drizzle-orm/d1';
 import { eq, and, count, desc } from 'drizzle-orm';
 import * as schema from '../../../drizzle/schema';
+import { recordAudit } from '../../lib/audit';
+import { isRegisterClosed, REGISTER_CLOSED_ERROR } from '../../lib/attendanceRegister';
+import { recomputeAttendancePercent } from '../../lib/attendancePercent';
 
 interface Env {
   DB: D1Database;
@@ -34,6 +37,7 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
   const url = new URL(request.url);
   const courseEditionId = url.searchParams.get('courseEditionId') || url.searchParams.get('editionId');
   const attendanceDate = url.searchParams.get('date');
+  const sessionId = url.searchParams.get('sessionId');
   const page = parseInt(url.searchParams.get('page') || '1');
   const pageSize = parseInt(url.searchParams.get('pageSize') || '50');
   const offset = (page - 1) * pageSize;
@@ -49,6 +53,9 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
     if (attendanceDate) {
       conditions.push(eq(schema.attendances.attendanceDate, attendanceDate));
     }
+    if (sessionId) {
+      conditions.push(eq(schema.attendances.sessionId, parseInt(sessionId)));
+    }
 
     // Get total count
     const countResult = await db.select({ count: count() })
@@ -65,6 +72,12 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
       date: schema.attendances.attendanceDate,
       status: schema.attendances.status,
       present: schema.attendances.status,
+      sessionId: schema.attendances.sessionId,
+      hoursAttended: schema.attendances.hoursAttended,
+      signInTime: schema.attendances.signInTime,
+      signOutTime: schema.attendances.signOutTime,
+      signatureMethod: schema.attendances.signatureMethod,
+      signatureHash: schema.attendances.signatureHash,
       notes: schema.attendances.notes,
       studentFirstName: schema.students.firstName,
       studentLastName: schema.students.lastName,
@@ -79,7 +92,7 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
     // Map status to boolean present for frontend compatibility
     const mappedAttendances = attendances.map(a => ({
       ...a,
-      present: a.status === 'present',
+      present: a.status === 'present' || a.status === 'late',
     }));
 
     const totalPages = Math.ceil(total / pageSize);
@@ -152,6 +165,13 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
       });
     }
 
+    if (await isRegisterClosed(env.DB, auth.clientId, courseEditionId)) {
+      return new Response(JSON.stringify({ error: REGISTER_CLOSED_ERROR }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
     const now = new Date().toISOString();
     const results: any[] = [];
 
@@ -190,14 +210,24 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
 
       if (existing.length > 0) {
         // Aggiorna
-        await db.update(schema.attendances)
+        const [updated] = await db.update(schema.attendances)
           .set({
             status,
             notes: notes || null,
             updatedAt: now,
           })
-          .where(eq(schema.attendances.id, existing[0].id));
-        
+          .where(eq(schema.attendances.id, existing[0].id))
+          .returning();
+
+        await recordAudit(env.DB, request, auth, {
+          entityType: 'attendance',
+          entityId: existing[0].id,
+          action: 'update',
+          before: existing[0],
+          after: updated,
+        });
+
+
         results.push({ registrationId, studentId, action: 'updated', id: existing[0].id });
       } else {
         // Crea
@@ -211,12 +241,21 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
           notes: notes || null,
           createdAt: now,
           updatedAt: now,
-        }).returning({ id: schema.attendances.id });
+        }).returning();
+
+        await recordAudit(env.DB, request, auth, {
+          entityType: 'attendance',
+          entityId: result[0].id,
+          action: 'create',
+          after: result[0],
+        });
 
         results.push({ registrationId, studentId, action: 'created', id: result[0].id });
       }
     }
 
+    await recomputeAttendancePercent(env.DB, courseEditionId);
+
     return new Response(JSON.stringify({
       success: true,
       results,
@@ -1,6 +1,9 @@
 import { drizzle } from 'drizzle-orm/d1';
 import { eq, and } from 'drizzle-orm';
 import * as schema from '../../../drizzle/schema';
+import { recordAudit } from '../../lib/audit';
+import { isRegisterClosed, REGISTER_CLOSED_ERROR } from '../../lib/attendanceRegister';
+import { recomputeAttendancePercent } from '../../lib/attendancePercent';
 
 interface Env {
   DB: D1Database;
@@ -9,7 +12,7 @@ interface Env {
 
 export const onRequestPost: PagesFunction<Env> = async (context) => {
   try {
-    const auth = context.data.auth as { userId: number; clientId: number } | undefined;
+    const auth = context.data.auth as { userId: number; clientId: number; email: string } | undefined;
     
     if (!auth) {
       return new Response(JSON.stringify({ error: 'Non autenticato' }), {
@@ -36,6 +39,13 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
       });
     }
 
+    if (await isRegisterClosed(context.env.DB, auth.clientId, editionId)) {
+      return new Response(JSON.stringify({ error: REGISTER_CLOSED_ERROR }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
     const attendanceDate = date || new Date().toISOString().split('T')[0];
 
     const status = present ? 'present' : 'absent';
@@ -71,16 +81,25 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
 
       if (existing.length > 0) {
         // Update
-        await db.update(schema.attendances)
+        const [updated] = await db.update(schema.attendances)
           .set({ 
             status,
             hoursAttended: hoursAttended || 0,
             updatedAt: new Date().toISOString()
           })
-          .where(eq(schema.attendances.id, existing[0].id));
+          .where(eq(schema.attendances.id, existing[0].id))
+          .returning();
+
+        await recordAudit(context.env.DB, context.request, auth, {
+          entityType: 'attendance',
+          entityId: existing[0].id,
+          action: 'update',
+          before: existing[0],
+          after: updated,
+        });
       } else {
         // Insert
-        await db.insert(schema.attendances)
+        const [created] = await db.insert(schema.attendances)
           .values({
             courseEditionId: editionId,
             studentId: reg.studentId!,
@@ -92,10 +111,20 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
             clientId: auth.clientId,
             createdAt: new Date().toISOString(),
             updatedAt: new Date().toISOString()
-          });
+          })
+          .returning();
+
+        await recordAudit(context.env.DB, context.request, auth, {
+          entityType: 'attendance',
+          entityId: created.id,
+          action: 'create',
+          after: created,
+        });
       }
     }
 
+    await recomputeAttendancePercent(context.env.DB, editionId);
+
     return new Response(JSON.stringify({ 
       success: true, 
       message: `${registrations.length} presenze aggiornate` 
@@ -1,6 +1,9 @@
 import { drizzle } from 'drizzle-orm/d1';
 import { eq, and } from 'drizzle-orm';
 import * as schema from '../../../drizzle/schema';
+import { recordAudit } from '../../lib/audit';
+import { isRegisterClosed, REGISTER_CLOSED_ERROR } from '../../lib/attendanceRegister';
+import { recomputeAttendancePercent } from '../../lib/attendancePercent';
 
 interface Env {
   DB: D1Database;
@@ -9,7 +12,7 @@ interface Env {
 
 export const onRequestPost: PagesFunction<Env> = async (context) => {
   try {
-    const auth = context.data.auth as { userId: number; clientId: number } | undefined;
+    const auth = context.data.auth as { userId: number; clientId: number; email: string } | undefined;
     
     if (!auth) {
       return new Response(JSON.stringify({ error: 'Non autenticato' }), {
@@ -38,6 +41,13 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
       });
     }
 
+    if (await isRegisterClosed(context.env.DB, auth.clientId, courseEditionId)) {
+      return new Response(JSON.stringify({ error: REGISTER_CLOSED_ERROR }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
     const attendanceDate = date || new Date().toISOString().split('T')[0];
 
     // Check if attendance already exists
@@ -59,15 +69,24 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
 
     if (existing.length > 0) {
       // Update existing
-      await db.update(schema.attendances)
+      const [updated] = await db.update(schema.attendances)
         .set({ 
           status,
           hoursAttended: hoursAttended || 0,
           updatedAt: new Date().toISOString()
         })
-        .where(eq(schema.attendances.id, existing[0].id));
+        .where(eq(schema.attendances.id, existing[0].id))
+        .returning();
       
       result = { ...existing[0], status, hoursAttended: hoursAttended || 0 };
+
+      await recordAudit(context.env.DB, context.request, auth, {
+        entityType: 'attendance',
+        entityId: existing[0].id,
+        action: 'update',
+        before: existing[0],
+        after: updated,
+      });
     } else {
       // Create new
       const insertResult = await db.insert(schema.attendances)
@@ -86,8 +105,17 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
         .returning();
       
       result = insertResult[0];
+
+      await recordAudit(context.env.DB, context.request, auth, {
+        entityType: 'attendance',
+        entityId: result.id,
+        action: 'create',
+        after: result,
+      });
     }
 
+    await recomputeAttendancePercent(context.env.DB, courseEditionId);
+
     return new Response(JSON.stringify(result), {
       status: 200,
       headers: { 'Content-Type': 'application/json' }
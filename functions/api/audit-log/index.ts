@@ -0,0 +1,139 @@
+/**
+ * API Audit Log - Storico modifiche
+ * GET /api/audit-log - Lista filtrabile delle modifiche
+ *
+ * Filtri: entityType, entityId, studentId, companyId, editionId, action, userId, from, to
+ * (studentId/companyId includono anche iscrizioni e presenze collegate)
+ */
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+}
+
+const ENTITY_TYPES = ['company', 'student', 'edition', 'registration', 'attendance', 'session'];
+const ACTIONS = ['create', 'update', 'delete'];
+
+// GET - Lista modifiche
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+  const auth = context.data.auth as AuthContext;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const url = new URL(request.url);
+  const page = Math.max(parseInt(url.searchParams.get('page') || '1') || 1, 1);
+  const pageSize = Math.min(parseInt(url.searchParams.get('pageSize') || '50') || 50, 200);
+  const offset = (page - 1) * pageSize;
+
+  const conditions: string[] = ['a.clientId = ?'];
+  const bindings: any[] = [auth.clientId];
+
+  const entityType = url.searchParams.get('entityType');
+  if (entityType) {
+    if (!ENTITY_TYPES.includes(entityType)) {
+      return new Response(JSON.stringify({ error: 'Tipo entità non valido' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    conditions.push('a.entityType = ?');
+    bindings.push(entityType);
+  }
+
+  const action = url.searchParams.get('action');
+  if (action) {
+    if (!ACTIONS.includes(action)) {
+      return new Response(JSON.stringify({ error: 'Azione non valida' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    conditions.push('a.action = ?');
+    bindings.push(action);
+  }
+
+  // Filtri numerici
+  for (const field of ['entityId', 'studentId', 'companyId', 'editionId', 'userId']) {
+    const value = url.searchParams.get(field);
+    if (value === null || value === '') continue;
+    const id = parseInt(value);
+    if (isNaN(id)) {
+      return new Response(JSON.stringify({ error: `${field} non valido` }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    conditions.push(`a.${field} = ?`);
+    bindings.push(id);
+  }
+
+  const from = url.searchParams.get('from');
+  if (from) {
+    conditions.push('a.createdAt >= ?');
+    bindings.push(from);
+  }
+
+  const to = url.searchParams.get('to');
+  if (to) {
+    // Data senza orario: includi l'intera giornata
+    conditions.push('a.createdAt <= ?');
+    bindings.push(to.length === 10 ? `${to}T23:59:59.999Z` : to);
+  }
+
+  const where = conditions.join(' AND ');
+
+  try {
+    const countResult = await env.DB.prepare(
+      `SELECT COUNT(*) AS total FROM auditLog a WHERE ${where}`
+    ).bind(...bindings).first<{ total: number }>();
+    const total = countResult?.total || 0;
+
+    const { results } = await env.DB.prepare(`
+      SELECT
+        a.id, a.userId, a.userEmail, a.entityType, a.entityId, a.action, a.changes,
+        a.studentId, a.companyId, a.editionId, a.ipAddress, a.createdAt,
+        co.title AS courseTitle, ce.startDate AS editionStartDate
+      FROM auditLog a
+      LEFT JOIN courseEditions ce ON ce.id = a.editionId
+      LEFT JOIN courses co ON co.id = ce.courseId
+      WHERE ${where}
+      ORDER BY a.createdAt DESC, a.id DESC
+      LIMIT ? OFFSET ?
+    `).bind(...bindings, pageSize, offset).all<any>();
+
+    const data = (results || []).map((row) => ({
+      ...row,
+      changes: JSON.parse(row.changes || '{}'),
+    }));
+
+    return new Response(JSON.stringify({
+      data,
+      page,
+      pageSize,
+      total,
+      totalPages: Math.ceil(total / pageSize),
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error: any) {
+    console.error('List audit log error:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
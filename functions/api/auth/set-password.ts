@@ -0,0 +1,91 @@
+/**
+ * API Impostazione password (pubblica, tramite link monouso)
+ * GET /api/auth/set-password?token=... - Verifica il link e restituisce i dati dell'utente
+ * POST /api/auth/set-password - Imposta la password e invalida il link
+ */
+
+import { consumePasswordToken, findPasswordToken, MIN_PASSWORD_LENGTH } from '../../lib/users';
+import { hashPassword } from '../../lib/password';
+
+interface Env {
+  DB: D1Database;
+}
+
+// GET - Verifica link
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { request, env } = context;
+  const token = new URL(request.url).searchParams.get('token') || '';
+
+  try {
+    const tokenInfo = await findPasswordToken(env.DB, token);
+
+    if (!tokenInfo) {
+      return new Response(JSON.stringify({ error: 'Link non valido o scaduto' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify({
+      email: tokenInfo.email,
+      name: tokenInfo.name,
+      purpose: tokenInfo.purpose,
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error: any) {
+    console.error('Check password token error:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+// POST - Imposta password
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { request, env } = context;
+
+  try {
+    const body = await request.json() as { token?: string; password?: string };
+
+    if (!body.password || body.password.length < MIN_PASSWORD_LENGTH) {
+      return new Response(JSON.stringify({ error: `La password deve contenere almeno ${MIN_PASSWORD_LENGTH} caratteri` }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const tokenInfo = await findPasswordToken(env.DB, body.token || '');
+
+    if (!tokenInfo) {
+      return new Response(JSON.stringify({ error: 'Link non valido o scaduto' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const consumed = await consumePasswordToken(env.DB, tokenInfo, await hashPassword(body.password));
+
+    if (!consumed) {
+      return new Response(JSON.stringify({ error: 'Link già utilizzato' }), {
+        status: 410,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify({ success: true, email: tokenInfo.email }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error: any) {
+    console.error('Set password error:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
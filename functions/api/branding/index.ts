@@ -0,0 +1,131 @@
+/**
+ * API Carta intestata del cliente
+ * GET /api/branding - Dati dell'ente per intestare registri ed esportazioni (tutti i ruoli)
+ * PUT /api/branding - Aggiorna ragione sociale, dati fiscali, logo e colori (solo admin)
+ */
+
+import { loadBranding } from '../../lib/branding';
+import { DEFAULT_PRIMARY_COLOR, DEFAULT_SECONDARY_COLOR, isHexColor } from '../../../src/lib/branding';
+import type { ClientBranding } from '../../../src/lib/branding';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+}
+
+type BrandingRequest = Partial<Omit<ClientBranding, 'name'>>;
+
+// Il logo è salvato come data URL: ~300 KB di immagine
+const MAX_LOGO_LENGTH = 400_000;
+
+const TEXT_FIELDS = [
+  'legalName', 'vatNumber', 'fiscalCode', 'address', 'city', 'province',
+  'zipCode', 'phone', 'email', 'website', 'accreditationNumbers',
+] as const;
+
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    return new Response(JSON.stringify(await loadBranding(context.env.DB, auth.clientId)), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error fetching branding:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+export const onRequestPut: PagesFunction<Env> = async (context) => {
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const body = await context.request.json() as BrandingRequest;
+    const primaryColor = body.primaryColor || DEFAULT_PRIMARY_COLOR;
+    const secondaryColor = body.secondaryColor || DEFAULT_SECONDARY_COLOR;
+
+    if (!isHexColor(primaryColor) || !isHexColor(secondaryColor)) {
+      return new Response(JSON.stringify({ error: 'Colori non validi (formato #rrggbb)' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (body.logo && !/^data:image\/(png|jpe?g);base64,/i.test(body.logo)) {
+      return new Response(JSON.stringify({ error: 'Il logo deve essere un\'immagine PNG o JPEG' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (body.logo && body.logo.length > MAX_LOGO_LENGTH) {
+      return new Response(JSON.stringify({ error: 'Il logo è troppo grande (massimo 300 KB)' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (body.vatNumber && !/^\d{11}$/.test(body.vatNumber.trim())) {
+      return new Response(JSON.stringify({ error: 'La Partita IVA deve essere di 11 cifre' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const values = TEXT_FIELDS.map(field => body[field]?.trim() || null);
+
+    await context.env.DB.prepare(`
+      INSERT INTO clientBranding (clientId, ${TEXT_FIELDS.join(', ')}, logo, primaryColor, secondaryColor, updatedAt)
+      VALUES (?, ${TEXT_FIELDS.map(() => '?').join(', ')}, ?, ?, ?, ?)
+      ON CONFLICT (clientId) DO UPDATE SET
+        ${TEXT_FIELDS.map(field => `${field} = excluded.${field}`).join(',\n        ')},
+        logo = excluded.logo,
+        primaryColor = excluded.primaryColor,
+        secondaryColor = excluded.secondaryColor,
+        updatedAt = excluded.updatedAt
+    `).bind(
+      auth.clientId,
+      ...values,
+      body.logo || null,
+      primaryColor.toLowerCase(),
+      secondaryColor.toLowerCase(),
+      new Date().toISOString()
+    ).run();
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: await loadBranding(context.env.DB, auth.clientId),
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error saving branding:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -0,0 +1,79 @@
+/**
+ * API Verifica pubblica attestato (non autenticata)
+ * GET /api/certificates/verify/:code - Verifica l'autenticità di un attestato dal codice del QR
+ */
+
+import { parseVerificationCode } from '../../../lib/certificates';
+import type { CertificatePayload, CertificateRecord } from '../../../lib/certificates';
+
+interface Env {
+  DB: D1Database;
+  CERTIFICATE_SECRET: string;
+}
+
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, params } = context;
+  const code = String(params.code || '');
+
+  if (!env.CERTIFICATE_SECRET) {
+    return new Response(JSON.stringify({ error: 'CERTIFICATE_SECRET non configurato' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const token = await parseVerificationCode(code, env.CERTIFICATE_SECRET);
+    const certificate = token
+      ? await env.DB.prepare('SELECT * FROM certificates WHERE verificationToken = ?')
+          .bind(token).first<CertificateRecord>()
+      : null;
+
+    if (!certificate) {
+      return new Response(JSON.stringify({ valid: false, error: 'Attestato non trovato' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (certificate.revokedAt) {
+      return new Response(JSON.stringify({
+        valid: false,
+        revoked: true,
+        error: 'Attestato revocato',
+        certificateNumber: certificate.certificateNumber,
+      }), {
+        status: 410,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const data = JSON.parse(certificate.payload) as CertificatePayload;
+    const today = new Date().toISOString().split('T')[0];
+
+    return new Response(JSON.stringify({
+      valid: true,
+      certificateNumber: certificate.certificateNumber,
+      holderName: `${data.studentFirstName} ${data.studentLastName}`,
+      courseTitle: data.courseTitle,
+      courseDurationHours: data.courseDurationHours,
+      trainingProviderName: data.trainingProviderName,
+      issueDate: certificate.issueDate,
+      expiryDate: certificate.expiryDate,
+      expired: !!certificate.expiryDate && certificate.expiryDate < today,
+    }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store',
+      },
+    });
+
+  } catch (error: any) {
+    console.error('Verify certificate error:', error);
+    return new Response(JSON.stringify({ valid: false, error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -0,0 +1,138 @@
+/**
+ * API Check-in pubblico (non autenticata) dal QR proiettato in aula
+ * GET /api/check-in/:token - Corso e orario della sessione del QR
+ * POST /api/check-in/:token - Entrata o uscita dell'allievo identificato dal codice fiscale
+ */
+
+import {
+  checkInTokenSessionId,
+  isCheckInOpen,
+  recordCheckIn,
+  verifyCheckInToken,
+} from '../../lib/checkIn';
+import type { CheckInSession } from '../../lib/checkIn';
+import { normalizzaCF, validaCF } from '../../../src/lib/codiceFiscale';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface SessionRow extends CheckInSession {
+  courseTitle: string;
+  location: string | null;
+}
+
+type SessionLookup = { session: SessionRow } | { error: string; status: number };
+
+async function loadSessionFromToken(db: D1Database, token: string): Promise<SessionLookup> {
+  const sessionId = checkInTokenSessionId(token);
+  const session = sessionId
+    ? await db.prepare(`
+        SELECT s.id, s.clientId, s.editionId, s.sessionDate, s.startTime, s.endTime, s.hours, s.checkInKey,
+          c.title AS courseTitle, COALESCE(s.location, ce.location) AS location
+        FROM editionSessions s
+        JOIN courseEditions ce ON ce.id = s.editionId
+        JOIN courses c ON c.id = ce.courseId
+        WHERE s.id = ?
+      `).bind(sessionId).first<SessionRow>()
+    : null;
+
+  if (!session?.checkInKey || !(await verifyCheckInToken(token, session.checkInKey))) {
+    return { error: 'QR code non valido o scaduto: inquadra quello proiettato in aula', status: 403 };
+  }
+  if (!isCheckInOpen(session)) {
+    return { error: 'Il check-in di questa sessione non è aperto in questo momento', status: 409 };
+  }
+  return { session };
+}
+
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, params } = context;
+
+  try {
+    const lookup = await loadSessionFromToken(env.DB, String(params.token || ''));
+    if ('error' in lookup) {
+      return new Response(JSON.stringify({ error: lookup.error }), {
+        status: lookup.status,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { session } = lookup;
+    return new Response(JSON.stringify({
+      courseTitle: session.courseTitle,
+      sessionDate: session.sessionDate,
+      startTime: session.startTime,
+      endTime: session.endTime,
+      location: session.location,
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    console.error('Check-in lookup error:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, params, request } = context;
+
+  try {
+    const body = await request.json() as { fiscalCode?: string };
+    const fiscalCode = normalizzaCF(body.fiscalCode || '');
+
+    if (!validaCF(fiscalCode).isValid) {
+      return new Response(JSON.stringify({ error: 'Codice fiscale non valido' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const lookup = await loadSessionFromToken(env.DB, String(params.token || ''));
+    if ('error' in lookup) {
+      return new Response(JSON.stringify({ error: lookup.error }), {
+        status: lookup.status,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { session } = lookup;
+    const registration = await env.DB.prepare(`
+      SELECT r.id, r.studentId, s.firstName
+      FROM registrations r
+      JOIN students s ON s.id = r.studentId
+      WHERE r.clientId = ? AND r.courseEditionId = ? AND UPPER(s.fiscalCode) = ?
+        AND r.status IN ('pending', 'confirmed')
+    `).bind(session.clientId, session.editionId, fiscalCode).first<{ id: number; studentId: number; firstName: string }>();
+
+    if (!registration) {
+      return new Response(JSON.stringify({ error: 'Nessuna iscrizione a questo corso con il codice fiscale indicato' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const result = await recordCheckIn(env.DB, session, registration);
+    if ('error' in result) {
+      return new Response(JSON.stringify({ error: result.error }), {
+        status: result.status,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify({ ...result, firstName: registration.firstName }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Check-in error:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
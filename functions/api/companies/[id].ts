@@ -8,6 +8,8 @@
 import { drizzle } from 'drizzle-orm/d1';
 import { eq, and } from 'drizzle-orm';
 import * as schema from '../../../drizzle/schema';
+import { recordAudit } from '../../lib/audit';
+import { hasKnownAtecoDivision, normalizeAtecoCode, suggestRiskCategory } from '../../../src/lib/ateco';
 
 interface Env {
   DB: D1Database;
@@ -117,6 +119,13 @@ export const onRequestPut: PagesFunction<Env> = async (context) => {
       });
     }
 
+    if (body.atecoCode && !hasKnownAtecoDivision(body.atecoCode)) {
+      return new Response(JSON.stringify({ error: 'Codice ATECO non valido o divisione non riconosciuta' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
     // Verifica P.IVA unica se modificata
     if (body.vatNumber && body.vatNumber !== existing[0].vatNumber) {
       const duplicate = await db.select()
@@ -168,6 +177,13 @@ export const onRequestPut: PagesFunction<Env> = async (context) => {
       updatedAt: new Date().toISOString(),
     };
 
+    if ('atecoCode' in body) {
+      updateData.atecoCode = body.atecoCode ? normalizeAtecoCode(body.atecoCode) : null;
+    }
+    if ('atecoCode' in body || 'riskCategory' in body) {
+      updateData.riskCategory = suggestRiskCategory('atecoCode' in body ? updateData.atecoCode : existing[0].atecoCode, body.riskCategory);
+    }
+
     // Handle agentId explicitly - if provided (even if null), update it
     if ('agentId' in body) {
       console.log('agentId found in body:', body.agentId);
@@ -178,9 +194,18 @@ export const onRequestPut: PagesFunction<Env> = async (context) => {
     }
 
     // Aggiorna
-    await db.update(schema.companies)
+    const [updated] = await db.update(schema.companies)
       .set(updateData)
-      .where(eq(schema.companies.id, companyId));
+      .where(eq(schema.companies.id, companyId))
+      .returning();
+
+    await recordAudit(env.DB, request, auth, {
+      entityType: 'company',
+      entityId: companyId,
+      action: 'update',
+      before: existing[0],
+      after: updated,
+    });
 
     return new Response(JSON.stringify({ success: true }), {
       status: 200,
@@ -198,7 +223,7 @@ export const onRequestPut: PagesFunction<Env> = async (context) => {
 
 // DELETE - Elimina azienda
 export const onRequestDelete: PagesFunction<Env> = async (context) => {
-  const { env, params } = context;
+  const { request, env, params } = context;
   const auth = context.data.auth as AuthContext;
   const companyId = parseInt(params.id as string);
 
@@ -241,6 +266,13 @@ export const onRequestDelete: PagesFunction<Env> = async (context) => {
     await db.delete(schema.companies)
       .where(eq(schema.companies.id, companyId));
 
+    await recordAudit(env.DB, request, auth, {
+      entityType: 'company',
+      entityId: companyId,
+      action: 'delete',
+      before: existing[0],
+    });
+
     return new Response(JSON.stringify({ success: true }), {
       status: 200,
       headers: { 'Content-Type': 'application/json' },
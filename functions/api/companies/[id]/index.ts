@@ -8,6 +8,8 @@
 import { drizzle } from 'drizzle-orm/d1';
 import { eq, and } from 'drizzle-orm';
 import * as schema from '../../../../drizzle/schema';
+import { recordAudit } from '../../../lib/audit';
+import { hasKnownAtecoDivision, normalizeAtecoCode, suggestRiskCategory } from '../../../../src/lib/ateco';
 
 interface Env {
   DB: D1Database;
@@ -112,6 +114,13 @@ export const onRequestPut: PagesFunction<Env> = async (context) => {
       });
     }
 
+    if (body.atecoCode && !hasKnownAtecoDivision(body.atecoCode)) {
+      return new Response(JSON.stringify({ error: 'Codice ATECO non valido o divisione non riconosciuta' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
     // Update company
     await db.update(schema.companies)
       .set({
@@ -121,6 +130,8 @@ export const onRequestPut: PagesFunction<Env> = async (context) => {
         phone: body.phone || null,
         address: body.address || null,
         contactPerson: body.contactPerson || null,
+        atecoCode: body.atecoCode ? normalizeAtecoCode(body.atecoCode) : null,
+        riskCategory: suggestRiskCategory(body.atecoCode, body.riskCategory),
         updatedAt: new Date().toISOString(),
       })
       .where(eq(schema.companies.id, companyId));
@@ -131,6 +142,14 @@ export const onRequestPut: PagesFunction<Env> = async (context) => {
       .where(eq(schema.companies.id, companyId))
       .limit(1);
 
+    await recordAudit(env.DB, request, auth, {
+      entityType: 'company',
+      entityId: companyId,
+      action: 'update',
+      before: existing[0],
+      after: updated[0],
+    });
+
     return new Response(JSON.stringify(updated[0]), {
       status: 200,
       headers: { 'Content-Type': 'application/json' },
@@ -147,7 +166,7 @@ export const onRequestPut: PagesFunction<Env> = async (context) => {
 
 // DELETE - Elimina azienda
 export const onRequestDelete: PagesFunction<Env> = async (context) => {
-  const { env, params } = context;
+  const { env, params, request } = context;
   const auth = context.data.auth as AuthContext;
 
   if (!auth) {
@@ -232,6 +251,13 @@ export const onRequestDelete: PagesFunction<Env> = async (context) => {
       }
     }
 
+    await recordAudit(env.DB, request, auth, {
+      entityType: 'company',
+      entityId: companyId,
+      action: 'delete',
+      before: existing[0],
+    });
+
     return new Response(JSON.stringify({ success: true }), {
       status: 200,
       headers: { 'Content-Type': 'application/json' },
@@ -0,0 +1,59 @@
+/**
+ * API fabbisogno formativo di un'azienda
+ * GET /api/companies/:id/training-needs - Obblighi 81/08 di ogni lavoratore: mancanti, scaduti o in scadenza
+ */
+
+import { loadCompanyTrainingNeeds } from '../../../lib/trainingNeeds';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+}
+
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, params } = context;
+  const auth = context.data.auth as AuthContext;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const companyId = parseInt(params.id as string);
+  if (isNaN(companyId)) {
+    return new Response(JSON.stringify({ error: 'ID azienda non valido' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const report = await loadCompanyTrainingNeeds(env.DB, auth.clientId, companyId);
+
+    if (!report) {
+      return new Response(JSON.stringify({ error: 'Azienda non trovata' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify(report), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error: any) {
+    console.error('Training needs error:', error);
+    return new Response(JSON.stringify({ error: 'Errore nel calcolo del fabbisogno formativo' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -2,6 +2,8 @@ import { Hono } from 'hono';
 import { drizzle } from 'drizzle-orm/d1';
 import { eq, or, inArray } from 'drizzle-orm';
 import * as schema from '../../../drizzle/schema';
+import { recordAudit } from '../../lib/audit';
+import { hasKnownAtecoDivision, normalizeAtecoCode, suggestRiskCategory } from '../../../src/lib/ateco';
 
 type Bindings = {
   DB: D1Database;
@@ -23,6 +25,8 @@ interface CompanyRow {
   email?: string;
   pec?: string;
   sdiCode?: string;
+  atecoCode?: string;
+  riskCategory?: string;
   notes?: string;
 }
 
@@ -129,6 +133,8 @@ function validatePec(pec: string): boolean {
 app.post('/', async (c) => {
   try {
     const clientId = c.get('clientId' as never) as number;
+    const userId = c.get('userId' as never) as number;
+    const email = c.get('email' as never) as string;
     if (!clientId) {
       return c.json({ error: 'Non autorizzato' }, 401);
     }
@@ -371,6 +377,27 @@ app.post('/', async (c) => {
         });
       }
 
+      // Validazione codice ATECO
+      if (row.atecoCode && !hasKnownAtecoDivision(String(row.atecoCode))) {
+        result.errors.push({
+          row: rowNum,
+          field: 'atecoCode',
+          message: 'Codice ATECO non valido o divisione non riconosciuta',
+          value: String(row.atecoCode),
+        });
+        hasError = true;
+      }
+
+      // Categoria rischio: se manca o non è valida si usa quella del codice ATECO
+      if (row.riskCategory && !['low', 'medium', 'high'].includes(row.riskCategory.trim().toLowerCase())) {
+        result.warnings.push({
+          row: rowNum,
+          field: 'riskCategory',
+          message: 'Categoria rischio non riconosciuta: verrà ricavata dal codice ATECO',
+          value: row.riskCategory,
+        });
+      }
+
       if (!hasError) {
         validRows.push({ index: i, data: row });
       } else {
@@ -387,7 +414,7 @@ app.post('/', async (c) => {
     // Importa le righe valide
     for (const { data: row } of validRows) {
       try {
-        await db.insert(schema.companies).values({
+        const [company] = await db.insert(schema.companies).values({
           clientId,
           name: row.name.trim(),
           vatNumber: row.vatNumber?.trim().toUpperCase() || null,
@@ -401,9 +428,18 @@ app.post('/', async (c) => {
           email: row.email?.trim().toLowerCase() || null,
           pec: row.pec?.trim().toLowerCase() || null,
           sdiCode: row.sdiCode?.trim().toUpperCase() || null,
+          atecoCode: row.atecoCode ? normalizeAtecoCode(String(row.atecoCode)) : null,
+          riskCategory: suggestRiskCategory(row.atecoCode ? String(row.atecoCode) : null, row.riskCategory?.trim().toLowerCase()),
           notes: row.notes?.trim() || null,
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
+        }).returning();
+
+        await recordAudit(c.env.DB, c.req.raw, { clientId, userId, email }, {
+          entityType: 'company',
+          entityId: company.id,
+          action: 'create',
+          after: company,
         });
         result.imported++;
       } catch (err: any) {
@@ -8,6 +8,8 @@ import { drizzle } from 'drizzle-orm/d1';
 import { eq, like, or, asc, desc, and, sql, count } from 'drizzle-orm';
 import * as schema from '../../../drizzle/schema';
 import { leftJoin } from 'drizzle-orm';
+import { recordAudit } from '../../lib/audit';
+import { hasKnownAtecoDivision, normalizeAtecoCode, suggestRiskCategory } from '../../../src/lib/ateco';
 
 interface Env {
   DB: D1Database;
@@ -117,7 +119,7 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
 
   try {
     const body = await request.json() as any;
-    const { name, vatNumber, email, phone, address, contactPerson, agentId } = body;
+    const { name, vatNumber, email, phone, address, contactPerson, agentId, atecoCode, riskCategory } = body;
 
     // Validazione
     if (!name) {
@@ -142,6 +144,13 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
       });
     }
 
+    if (atecoCode && !hasKnownAtecoDivision(atecoCode)) {
+      return new Response(JSON.stringify({ error: 'Codice ATECO non valido o divisione non riconosciuta' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
     const db = drizzle(env.DB, { schema });
 
     // Verifica P.IVA unica per questo cliente
@@ -195,9 +204,19 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
       address: address || null,
       contactPerson: contactPerson || null,
       agentId: agentId || null,
+      atecoCode: atecoCode ? normalizeAtecoCode(atecoCode) : null,
+      // Senza categoria indicata vale la classe di rischio del codice ATECO
+      riskCategory: suggestRiskCategory(atecoCode, riskCategory),
       createdAt: now,
       updatedAt: now,
-    }).returning({ id: schema.companies.id });
+    }).returning();
+
+    await recordAudit(env.DB, request, auth, {
+      entityType: 'company',
+      entityId: result[0].id,
+      action: 'create',
+      after: result[0],
+    });
 
     return new Response(JSON.stringify({
       success: true,
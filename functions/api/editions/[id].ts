@@ -8,6 +8,7 @@
 import { drizzle } from 'drizzle-orm/d1';
 import { eq, and } from 'drizzle-orm';
 import * as schema from '../../../drizzle/schema';
+import { recordAudit } from '../../lib/audit';
 
 interface Env {
   DB: D1Database;
@@ -230,7 +231,7 @@ export const onRequestPut: PagesFunction<Env> = async (context) => {
 
     // Aggiorna - usa SOLO i campi che esistono nel database
     console.log('Updating edition...');
-    await db.update(schema.courseEditions)
+    const [updated] = await db.update(schema.courseEditions)
       .set({
         startDate: body.startDate ?? existing[0].startDate,
         endDate: body.endDate ?? existing[0].endDate,
@@ -244,7 +245,16 @@ export const onRequestPut: PagesFunction<Env> = async (context) => {
         isDedicated: isDedicated,
         updatedAt: new Date().toISOString(),
       })
-      .where(eq(schema.courseEditions.id, editionId));
+      .where(eq(schema.courseEditions.id, editionId))
+      .returning();
+
+    await recordAudit(env.DB, request, auth, {
+      entityType: 'edition',
+      entityId: editionId,
+      action: 'update',
+      before: existing[0],
+      after: updated,
+    });
 
     console.log('Edition updated successfully');
 
@@ -288,7 +298,7 @@ export const onRequestPut: PagesFunction<Env> = async (context) => {
 
 // DELETE - Elimina edizione
 export const onRequestDelete: PagesFunction<Env> = async (context) => {
-  const { env, params } = context;
+  const { request, env, params } = context;
   const auth = context.data.auth as AuthContext;
   const editionId = parseInt(params.id as string);
 
@@ -331,6 +341,13 @@ export const onRequestDelete: PagesFunction<Env> = async (context) => {
     await db.delete(schema.courseEditions)
       .where(eq(schema.courseEditions.id, editionId));
 
+    await recordAudit(env.DB, request, auth, {
+      entityType: 'edition',
+      entityId: editionId,
+      action: 'delete',
+      before: existing[0],
+    });
+
     return new Response(JSON.stringify({ success: true }), {
       status: 200,
       headers: { 'Content-Type': 'application/json' },
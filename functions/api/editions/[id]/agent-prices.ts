@@ -0,0 +1,210 @@
+/**
+ * API Listini agente di un'edizione
+ * GET /api/editions/:id/agent-prices - Prezzi per agente
+ * POST /api/editions/:id/agent-prices - Aggiunge o aggiorna il prezzo di un agente
+ * DELETE /api/editions/:id/agent-prices?agentId= - Rimuove il prezzo di un agente
+ *
+ * I prezzi sono in centesimi e vengono applicati alle iscrizioni degli studenti
+ * (o delle aziende) seguiti dall'agente: vedi functions/lib/pricing.ts.
+ */
+
+import { recordAudit } from '../../../lib/audit';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+}
+
+interface AgentPriceRow {
+  id: number;
+  agentId: number;
+  agentName: string;
+  price: number;
+  updatedAt: string;
+}
+
+async function findEdition(db: D1Database, editionId: number, clientId: number) {
+  return db.prepare(
+    'SELECT id, price FROM courseEditions WHERE id = ? AND clientId = ?'
+  ).bind(editionId, clientId).first<{ id: number; price: number }>();
+}
+
+function editionNotFound(): Response {
+  return new Response(JSON.stringify({ error: 'Edizione non trovata' }), {
+    status: 404,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// GET - Prezzi per agente dell'edizione
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const editionId = Number(context.params.id);
+    if (!await findEdition(context.env.DB, editionId, auth.clientId)) return editionNotFound();
+
+    const { results } = await context.env.DB.prepare(`
+      SELECT eap.id, eap.agent_id AS agentId, a.name AS agentName, eap.price, eap.updatedAt
+      FROM edition_agent_prices eap
+      JOIN agents a ON a.id = eap.agent_id
+      WHERE eap.course_edition_id = ? AND eap.clientId = ?
+      ORDER BY a.name
+    `).bind(editionId, auth.clientId).all<AgentPriceRow>();
+
+    return new Response(JSON.stringify({ prices: results || [] }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error fetching agent prices:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+// POST - Aggiunge o aggiorna il prezzo di un agente
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { request, env } = context;
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const editionId = Number(context.params.id);
+    const body = await request.json() as { agentId?: number; price?: number };
+    const agentId = Number(body.agentId);
+    const price = Number(body.price);
+
+    if (!agentId || body.price === undefined || isNaN(price) || price < 0) {
+      return new Response(JSON.stringify({ error: 'Agente e prezzo (in centesimi, non negativo) sono obbligatori' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!await findEdition(env.DB, editionId, auth.clientId)) return editionNotFound();
+
+    const agent = await env.DB.prepare(
+      'SELECT id FROM agents WHERE id = ? AND clientId = ?'
+    ).bind(agentId, auth.clientId).first();
+
+    if (!agent) {
+      return new Response(JSON.stringify({ error: 'Agente non trovato' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const before = await env.DB.prepare(
+      'SELECT * FROM edition_agent_prices WHERE course_edition_id = ? AND agent_id = ?'
+    ).bind(editionId, agentId).first<{ id: number; price: number }>();
+
+    const now = new Date().toISOString();
+    const saved = await env.DB.prepare(`
+      INSERT INTO edition_agent_prices (course_edition_id, agent_id, price, clientId, createdAt, updatedAt)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT (course_edition_id, agent_id) DO UPDATE SET
+        price = excluded.price,
+        updatedAt = excluded.updatedAt
+      RETURNING *
+    `).bind(editionId, agentId, Math.round(price), auth.clientId, now, now).first<{ id: number; price: number }>();
+
+    // Nello storico dell'edizione il prezzo compare come campo "agentPrice.<id agente>"
+    await recordAudit(env.DB, request, auth, {
+      entityType: 'edition',
+      entityId: editionId,
+      action: 'update',
+      before: { [`agentPrice.${agentId}`]: before?.price ?? null },
+      after: { [`agentPrice.${agentId}`]: saved?.price ?? null },
+    });
+
+    return new Response(JSON.stringify({ success: true, data: saved }), {
+      status: before ? 200 : 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error saving agent price:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+// DELETE - Rimuove il prezzo di un agente (si torna al prezzo dell'edizione)
+export const onRequestDelete: PagesFunction<Env> = async (context) => {
+  const { request, env } = context;
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const editionId = Number(context.params.id);
+    const agentId = Number(new URL(request.url).searchParams.get('agentId'));
+
+    if (!agentId) {
+      return new Response(JSON.stringify({ error: 'agentId è obbligatorio' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!await findEdition(env.DB, editionId, auth.clientId)) return editionNotFound();
+
+    const deleted = await env.DB.prepare(
+      'DELETE FROM edition_agent_prices WHERE course_edition_id = ? AND agent_id = ? AND clientId = ? RETURNING *'
+    ).bind(editionId, agentId, auth.clientId).first<{ price: number }>();
+
+    if (!deleted) {
+      return new Response(JSON.stringify({ error: 'Prezzo non trovato' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    await recordAudit(env.DB, request, auth, {
+      entityType: 'edition',
+      entityId: editionId,
+      action: 'update',
+      before: { [`agentPrice.${agentId}`]: deleted.price },
+      after: { [`agentPrice.${agentId}`]: null },
+    });
+
+    return new Response(JSON.stringify({ success: true }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error deleting agent price:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
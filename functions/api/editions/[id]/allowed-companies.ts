@@ -6,14 +6,33 @@
  * DELETE /api/editions/:id/allowed-companies/:companyId - Rimuovi azienda
  */
 
-import type { Env, AuthenticatedRequest } from '../../../_middleware';
+import { recordAudit } from '../../../lib/audit';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+}
+
+// Aziende autorizzate nello storico dell'edizione: elenco ordinato di id
+async function allowedCompanyIds(db: D1Database, editionId: number): Promise<string> {
+  const { results } = await db.prepare(
+    'SELECT companyId FROM editionAllowedCompanies WHERE editionId = ? ORDER BY companyId'
+  ).bind(editionId).all<{ companyId: number }>();
+  return (results || []).map(r => r.companyId).join(',');
+}
 
 // GET - Lista aziende autorizzate
 export const onRequestGet: PagesFunction<Env> = async (context) => {
-  const request = context.request as AuthenticatedRequest;
+  const auth = context.data.auth as AuthContext;
   const { id } = context.params;
   const editionId = Number(id);
-  const clientId = request.clientId;
+  const clientId = auth.clientId;
   const db = context.env.DB;
 
   try {
@@ -63,10 +82,11 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
 
 // POST - Aggiungi azienda autorizzata
 export const onRequestPost: PagesFunction<Env> = async (context) => {
-  const request = context.request as AuthenticatedRequest;
+  const { request } = context;
+  const auth = context.data.auth as AuthContext;
   const { id } = context.params;
   const editionId = Number(id);
-  const clientId = request.clientId;
+  const clientId = auth.clientId;
   const db = context.env.DB;
 
   try {
@@ -118,6 +138,7 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     }
 
     const now = new Date().toISOString();
+    const beforeIds = await allowedCompanyIds(db, editionId);
 
     // Inserisci
     await db.prepare(`
@@ -133,6 +154,14 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
       `).bind(now, editionId).run();
     }
 
+    await recordAudit(db, request, auth, {
+      entityType: 'edition',
+      entityId: editionId,
+      action: 'update',
+      before: { editionType: (edition as any).editionType, allowedCompanyIds: beforeIds },
+      after: { editionType: 'multi', allowedCompanyIds: await allowedCompanyIds(db, editionId) },
+    });
+
     return new Response(JSON.stringify({
       success: true,
       message: `Azienda "${(company as any).name}" aggiunta`,
@@ -155,10 +184,11 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
 
 // DELETE - Rimuovi azienda autorizzata
 export const onRequestDelete: PagesFunction<Env> = async (context) => {
-  const request = context.request as AuthenticatedRequest;
+  const { request } = context;
+  const auth = context.data.auth as AuthContext;
   const { id } = context.params;
   const editionId = Number(id);
-  const clientId = request.clientId;
+  const clientId = auth.clientId;
   const db = context.env.DB;
 
   try {
@@ -174,7 +204,7 @@ export const onRequestDelete: PagesFunction<Env> = async (context) => {
 
     // Verifica che l'edizione esista e appartenga al cliente
     const edition = await db.prepare(
-      'SELECT id FROM courseEditions WHERE id = ? AND clientId = ?'
+      'SELECT id, editionType FROM courseEditions WHERE id = ? AND clientId = ?'
     ).bind(editionId, clientId).first();
 
     if (!edition) {
@@ -184,6 +214,8 @@ export const onRequestDelete: PagesFunction<Env> = async (context) => {
       });
     }
 
+    const beforeIds = await allowedCompanyIds(db, editionId);
+
     await db.prepare(`
       DELETE FROM editionAllowedCompanies 
       WHERE editionId = ? AND companyId = ?
@@ -202,6 +234,17 @@ export const onRequestDelete: PagesFunction<Env> = async (context) => {
       `).bind(new Date().toISOString(), editionId).run();
     }
 
+    await recordAudit(db, request, auth, {
+      entityType: 'edition',
+      entityId: editionId,
+      action: 'update',
+      before: { editionType: (edition as any).editionType, allowedCompanyIds: beforeIds },
+      after: {
+        editionType: (remaining as any)?.count === 0 ? 'public' : (edition as any).editionType,
+        allowedCompanyIds: await allowedCompanyIds(db, editionId),
+      },
+    });
+
     return new Response(JSON.stringify({
       success: true,
       message: 'Azienda rimossa',
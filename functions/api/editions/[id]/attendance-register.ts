@@ -0,0 +1,144 @@
+/**
+ * API Chiusura registro presenze dell'edizione
+ * GET /api/editions/:id/attendance-register - Stato, storico e verifica della catena di hash
+ * POST /api/editions/:id/attendance-register - { action: 'close' } o { action: 'reopen', reason }
+ */
+
+import {
+  closeRegister,
+  loadRegisterStatus,
+  reopenRegister,
+  verifyRegister,
+} from '../../../lib/attendanceRegister';
+import { recordAudit } from '../../../lib/audit';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+}
+
+// Il motivo della riapertura deve essere comprensibile a chi controlla il registro
+const MIN_REASON_LENGTH = 10;
+
+export const onRequest: PagesFunction<Env> = async (context) => {
+  const { env, params, request } = context;
+  const auth = context.data.auth as AuthContext;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (request.method !== 'GET' && request.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Metodo non supportato' }), {
+      status: 405,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const editionId = parseInt(params.id as string);
+  if (isNaN(editionId)) {
+    return new Response(JSON.stringify({ error: 'ID edizione non valido' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const status = await loadRegisterStatus(env.DB, auth.clientId, editionId);
+    if (!status) {
+      return new Response(JSON.stringify({ error: 'Edizione non trovata' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (request.method === 'GET') {
+      return new Response(JSON.stringify({
+        ...status,
+        verification: await verifyRegister(env.DB, auth.clientId, editionId),
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const body = await request.json() as { action?: 'close' | 'reopen'; reason?: string };
+    const ipAddress = request.headers.get('CF-Connecting-IP') || request.headers.get('X-Forwarded-For');
+    const before = { registerClosedAt: status.closedAt, registerHash: status.hash };
+
+    if (body.action === 'close') {
+      if (status.closed) {
+        return new Response(JSON.stringify({ error: 'Il registro presenze è già chiuso' }), {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      const result = await closeRegister(env.DB, auth, editionId, ipAddress);
+
+      await recordAudit(env.DB, request, auth, {
+        entityType: 'edition',
+        entityId: editionId,
+        action: 'update',
+        before,
+        after: { registerClosedAt: result.closedAt, registerHash: result.hash },
+      });
+
+      return new Response(JSON.stringify(result), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (body.action === 'reopen') {
+      const reason = (body.reason || '').trim();
+      if (!status.closed) {
+        return new Response(JSON.stringify({ error: 'Il registro presenze non è chiuso' }), {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+      if (reason.length < MIN_REASON_LENGTH) {
+        return new Response(JSON.stringify({ error: `Indica il motivo della riapertura (almeno ${MIN_REASON_LENGTH} caratteri)` }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      await reopenRegister(env.DB, auth, editionId, reason, ipAddress);
+
+      await recordAudit(env.DB, request, auth, {
+        entityType: 'edition',
+        entityId: editionId,
+        action: 'update',
+        before,
+        after: { registerClosedAt: null, registerHash: null, registerReopenReason: reason },
+      });
+
+      return new Response(JSON.stringify({ success: true }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify({ error: 'Azione non valida' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Attendance register error:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -0,0 +1,139 @@
+/**
+ * API Attestati per edizione
+ * GET /api/editions/:id/certificates - Lista attestati emessi per l'edizione
+ * POST /api/editions/:id/certificates - Emette gli attestati per tutte le iscrizioni completate
+ */
+
+import { recomputeAttendancePercent } from '../../../lib/attendancePercent';
+import { issueCertificate } from '../../../lib/certificates';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+}
+
+// GET - Lista attestati dell'edizione
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, params } = context;
+  const auth = context.data.auth as AuthContext;
+  const editionId = parseInt(params.id as string);
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (isNaN(editionId)) {
+    return new Response(JSON.stringify({ error: 'ID edizione non valido' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const { results } = await env.DB.prepare(`
+      SELECT
+        ce.id, ce.registrationId, ce.certificateNumber, ce.issueDate, ce.expiryDate, ce.revokedAt, ce.createdAt
+      FROM certificates ce
+      INNER JOIN registrations r ON r.id = ce.registrationId
+      WHERE r.courseEditionId = ? AND ce.clientId = ?
+      ORDER BY ce.progressive
+    `).bind(editionId, auth.clientId).all();
+
+    return new Response(JSON.stringify({ certificates: results || [] }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error: any) {
+    console.error('List edition certificates error:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+// POST - Emetti tutti gli attestati dell'edizione
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { request, env, params } = context;
+  const auth = context.data.auth as AuthContext;
+  const editionId = parseInt(params.id as string);
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (isNaN(editionId)) {
+    return new Response(JSON.stringify({ error: 'ID edizione non valido' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const edition = await env.DB.prepare(
+      'SELECT id FROM courseEditions WHERE id = ? AND clientId = ?'
+    ).bind(editionId, auth.clientId).first();
+
+    if (!edition) {
+      return new Response(JSON.stringify({ error: 'Edizione non trovata' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { results: completed } = await env.DB.prepare(`
+      SELECT id FROM registrations
+      WHERE courseEditionId = ? AND clientId = ? AND status = 'completed'
+      ORDER BY id
+    `).bind(editionId, auth.clientId).all<{ id: number }>();
+
+    let created = 0;
+    let existing = 0;
+    const errors: { registrationId: number; error: string }[] = [];
+
+    // Frequenza ricalcolata una volta sola per tutta l'edizione
+    const attendance = await recomputeAttendancePercent(env.DB, editionId);
+
+    // Sequenziale: i progressivi seguono l'ordine delle iscrizioni
+    for (const reg of completed || []) {
+      const result = await issueCertificate(env.DB, request, auth, reg.id, attendance);
+      if ('error' in result) {
+        errors.push({ registrationId: reg.id, error: result.error });
+      } else if (result.created) {
+        created++;
+      } else {
+        existing++;
+      }
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      created,
+      existing,
+      errors: errors.length > 0 ? errors : undefined,
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error: any) {
+    console.error('Bulk issue certificates error:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server', message: error.message }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
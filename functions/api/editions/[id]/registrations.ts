@@ -41,8 +41,11 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
         r.status,
         r.priceApplied,
         r.certificateDate,
+        r.attendancePercent,
+        r.attendanceEligible,
         r.recommendedNextEditionId,
         r.notes,
+        ce.certificateNumber,
         s.firstName as studentFirstName,
         s.lastName as studentLastName,
         s.fiscalCode as studentFiscalCode,
@@ -51,6 +54,7 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
       FROM registrations r
       LEFT JOIN students s ON s.id = r.studentId
       LEFT JOIN companies c ON c.id = r.companyId
+      LEFT JOIN certificates ce ON ce.registrationId = r.id AND ce.revokedAt IS NULL
       WHERE r.courseEditionId = ? AND r.clientId = ?
       ORDER BY c.name, s.lastName, s.firstName
     `).bind(editionId, clientId).all();
@@ -63,8 +67,11 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
       status: reg.status,
       priceApplied: reg.priceApplied,
       certificateDate: reg.certificateDate,
+      attendancePercent: reg.attendancePercent,
+      attendanceEligible: !!reg.attendanceEligible,
       recommendedNextEditionId: reg.recommendedNextEditionId,
       notes: reg.notes,
+      certificateNumber: reg.certificateNumber || null,
       student: {
         id: reg.studentId,
         firstName: reg.studentFirstName,
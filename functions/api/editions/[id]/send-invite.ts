@@ -1,22 +1,19 @@
 import { drizzle } from 'drizzle-orm/d1';
 import { eq, and, asc } from 'drizzle-orm';
 import * as schema from '../../../../drizzle/schema';
+import { loadBranding } from '../../../lib/branding';
+import { loadMailSettings, resolveTransport } from '../../../lib/mail';
+import { queueAndSend } from '../../../lib/outbox';
+import { escapeHtml, renderEmail } from '../../../lib/templates';
 
 interface Env {
   DB: D1Database;
   JWT_SECRET: string;
   RESEND_API_KEY?: string;
+  EMAIL_ENCRYPTION_KEY: string;
+  MAIL_TRANSPORT?: string;
 }
 
-// Funzione per decriptare
-const decrypt = (encrypted: string): string => {
-  try {
-    return atob(encrypted);
-  } catch {
-    return encrypted;
-  }
-};
-
 // Funzioni per generare iCalendar
 function formatICalDateLocal(date: Date): string {
   const year = date.getFullYear();
@@ -59,7 +56,7 @@ function generateICalendar(
     'PRODID:-//GestionaleSicurezza//Course Management//IT',
     'CALSCALE:GREGORIAN',
     'METHOD:REQUEST',
-    'X-WR-CALNAME:GestionaleSicurezza - Corsi',
+    `X-WR-CALNAME:${escapeICalText(organizer.name)} - Corsi`,
     'X-WR-TIMEZONE:Europe/Rome',
     'BEGIN:VTIMEZONE',
     'TZID:Europe/Rome',
@@ -127,45 +124,6 @@ function generateICalendar(
   return lines.join('\r\n');
 }
 
-// Funzione per inviare email via Resend API
-const sendEmailViaResend = async (
-  to: string,
-  subject: string,
-  html: string,
-  attachments: { filename: string; content: string }[],
-  fromName: string,
-  resendApiKey: string
-): Promise<{ success: boolean; error?: string }> => {
-  try {
-    const response = await fetch('https://api.resend.com/emails', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${resendApiKey}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        from: `${fromName} <onboarding@resend.dev>`,
-        to: [to],
-        subject,
-        html,
-        attachments: attachments.map(a => ({
-          filename: a.filename,
-          content: btoa(a.content)
-        }))
-      })
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      return { success: false, error: JSON.stringify(errorData) };
-    }
-
-    return { success: true };
-  } catch (error: any) {
-    return { success: false, error: error.message };
-  }
-};
-
 // POST /api/editions/:id/send-invite - Invia invito calendario al docente
 export const onRequestPost: PagesFunction<Env> = async (context) => {
   const { request, env, params } = context;
@@ -235,14 +193,15 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
       });
     }
 
-    // Recupera info client per l'organizzatore
+    // Organizzatore: ragione sociale della carta intestata e email del cliente
     const client = await db.query.clients.findFirst({
       where: eq(schema.clients.id, auth.clientId),
     });
+    const branding = await loadBranding(env.DB, auth.clientId);
 
     const organizer = {
-      name: client?.name || 'GestionaleSicurezza',
-      email: client?.email || 'noreply@gestionalesicurezza.it',
+      name: branding.name,
+      email: branding.email || client?.email || 'noreply@gestionalesicurezza.it',
     };
 
     // Genera il file iCalendar
@@ -254,18 +213,8 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
       organizer
     );
 
-    // Prepara l'HTML dell'email
-    const emailHtml = `
-      <h2>Invito al corso: ${edition.course?.title || 'Corso'}</h2>
-      <p>Gentile ${edition.instructor.firstName} ${edition.instructor.lastName},</p>
-      <p>Sei stato assegnato come docente per il seguente corso:</p>
-      <ul>
-        <li><strong>Corso:</strong> ${edition.course?.title}</li>
-        <li><strong>Location:</strong> ${edition.location}</li>
-        <li><strong>Sessioni:</strong> ${sessions.length}</li>
-        <li><strong>Totale ore:</strong> ${sessions.reduce((sum, s) => sum + s.hours, 0)}</li>
-      </ul>
-      <h3>Calendario sessioni:</h3>
+    // Compone l'email dal template del cliente (la tabella sessioni è HTML già pronto)
+    const sessionsTable = `
       <table border="1" cellpadding="8" cellspacing="0">
         <tr>
           <th>#</th>
@@ -280,47 +229,52 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
             <td>${new Date(s.sessionDate).toLocaleDateString('it-IT')}</td>
             <td>${s.startTime} - ${s.endTime}</td>
             <td>${s.hours}h</td>
-            <td>${s.location || edition.location}</td>
+            <td>${escapeHtml(s.location || edition.location || '')}</td>
           </tr>
         `).join('')}
-      </table>
-      <p>In allegato trovi il file calendario (.ics) da importare nel tuo calendario.</p>
-      <p>Cordiali saluti,<br>${organizer.name}</p>
-    `;
+      </table>`;
+
+    const email = await renderEmail(env.DB, auth.clientId, 'edition_invite', {
+      course: { title: edition.course?.title || 'Corso' },
+      edition: {
+        location: edition.location,
+        startDate: new Date(edition.startDate).toLocaleDateString('it-IT'),
+        endDate: new Date(edition.endDate).toLocaleDateString('it-IT'),
+      },
+      instructor: { firstName: edition.instructor.firstName, lastName: edition.instructor.lastName },
+      sessions: {
+        count: sessions.length,
+        hours: sessions.reduce((sum, s) => sum + s.hours, 0),
+        table: sessionsTable,
+      },
+    });
 
     // Prova a inviare email
     let emailSent = false;
     let emailError: string | null = null;
 
-    // Recupera le impostazioni email dal database
-    const emailSettings = await db.query.emailSettings.findFirst({
-      where: eq(schema.emailSettings.clientId, auth.clientId),
-    });
-
-    // Usa Resend API Key dalle impostazioni del cliente o dall'ambiente
-    const resendApiKey = emailSettings?.resendApiKey 
-      ? decrypt(emailSettings.resendApiKey) 
-      : env.RESEND_API_KEY;
+    // Impostazioni email del cliente, con l'API key dell'ambiente come ripiego
+    const mailSettings = await loadMailSettings(env, auth.clientId);
 
-    if (resendApiKey) {
-      const result = await sendEmailViaResend(
-        edition.instructor.email,
-        `Invito: ${edition.course?.title || 'Corso'} - ${sessions.length} sessioni`,
-        emailHtml,
-        [{
+    if (resolveTransport(env, mailSettings)) {
+      const [result] = await queueAndSend(env, auth.clientId, 'calendar_invite', [{
+        to: edition.instructor.email,
+        ...email,
+        attachments: [{
           filename: `corso-${edition.id}.ics`,
-          content: icsContent
+          content: icsContent,
+          contentType: 'text/calendar; method=REQUEST'
         }],
-        organizer.name,
-        resendApiKey
-      );
+        // Senza impostazioni proprie si usa il mittente di test di Resend
+        from: { name: organizer.name, email: mailSettings?.sender.email || 'onboarding@resend.dev' },
+      }]);
 
-      if (result.success) {
+      if (result.status === 'sent') {
         emailSent = true;
-        console.log(`Email inviata via Resend a ${edition.instructor.email}`);
+        console.log(`Email inviata a ${edition.instructor.email}`);
       } else {
-        emailError = result.error || 'Errore Resend API';
-        console.error('Resend error:', emailError);
+        emailError = result.error || 'Errore nell\'invio email';
+        console.error('Send invite error:', emailError);
       }
     }
 
@@ -1,6 +1,8 @@
 import { drizzle } from 'drizzle-orm/d1';
 import { eq, and, asc } from 'drizzle-orm';
 import * as schema from '../../../../drizzle/schema';
+import { recomputeAttendancePercent } from '../../../lib/attendancePercent';
+import { recordAudit } from '../../../lib/audit';
 
 interface Env {
   DB: D1Database;
@@ -64,7 +66,8 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
     const totalHours = sessions.reduce((sum, s) => sum + s.hours, 0);
 
     return new Response(JSON.stringify({
-      sessions,
+      // La chiave dei QR di check-in non esce dal server
+      sessions: sessions.map(({ checkInKey: _checkInKey, ...session }) => session),
       totalHours,
       courseHours: edition.course?.durationHours || 0,
     }), {
@@ -127,9 +130,10 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
       hours: number;
       location?: string;
       notes?: string;
+      deliveryMode?: 'in_person' | 'fad_sync';
     };
 
-    const { sessionDate, startTime, endTime, hours, location, notes } = body;
+    const { sessionDate, startTime, endTime, hours, location, notes, deliveryMode } = body;
 
     if (!sessionDate || !startTime || !endTime || !hours) {
       return new Response(JSON.stringify({ error: 'Dati sessione incompleti' }), {
@@ -147,8 +151,16 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
       hours,
       location: location || edition.location,
       notes,
+      deliveryMode: deliveryMode === 'fad_sync' ? 'fad_sync' : 'in_person',
     }).returning();
 
+    await recordAudit(env.DB, request, auth, {
+      entityType: 'session',
+      entityId: newSession.id,
+      action: 'create',
+      after: newSession,
+    });
+
     // Aggiorna le date dell'edizione se necessario
     const allSessions = await db.query.editionSessions.findMany({
       where: eq(schema.editionSessions.editionId, editionId),
@@ -164,7 +176,11 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
         .where(eq(schema.courseEditions.id, editionId));
     }
 
-    return new Response(JSON.stringify(newSession), {
+    // Il totale ore delle sessioni vale come durata per i corsi senza durata
+    await recomputeAttendancePercent(env.DB, editionId);
+
+    const { checkInKey: _checkInKey, ...created } = newSession;
+    return new Response(JSON.stringify(created), {
       status: 201,
       headers: { 'Content-Type': 'application/json' },
     });
@@ -7,6 +7,7 @@
 import { drizzle } from 'drizzle-orm/d1';
 import { eq, desc, and, gte, lte, sql, count } from 'drizzle-orm';
 import * as schema from '../../../drizzle/schema';
+import { recordAudit } from '../../lib/audit';
 
 interface Env {
   DB: D1Database;
@@ -219,7 +220,37 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
       status: status || 'scheduled',
       createdAt: now,
       updatedAt: now,
-    }).returning({ id: schema.courseEditions.id });
+    }).returning();
+
+    await recordAudit(env.DB, request, auth, {
+      entityType: 'edition',
+      entityId: result[0].id,
+      action: 'create',
+      after: result[0],
+    });
+
+    // Listino agenti indicato in creazione (in euro, come nel form); poi si gestisce da /agent-prices
+    if (Array.isArray(body.selectedAgents)) {
+      for (const agentId of body.selectedAgents) {
+        const agentPrice = parseFloat(body.agentPrices?.[agentId]);
+        if (isNaN(agentPrice) || agentPrice < 0) continue;
+
+        const agent = await db.select({ id: schema.agents.id })
+          .from(schema.agents)
+          .where(and(eq(schema.agents.id, Number(agentId)), eq(schema.agents.clientId, auth.clientId)))
+          .limit(1);
+        if (agent.length === 0) continue;
+
+        await db.insert(schema.editionAgentPrices).values({
+          clientId: auth.clientId,
+          courseEditionId: result[0].id,
+          agentId: Number(agentId),
+          price: Math.round(agentPrice * 100),
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+    }
 
     return new Response(JSON.stringify({
       success: true,
@@ -0,0 +1,63 @@
+/**
+ * API Email Outbox - Dettaglio messaggio
+ * GET /api/email/outbox/:id - Messaggio completo (html, allegati, .eml del trasporto file)
+ */
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+}
+
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, params } = context;
+  const auth = context.data.auth as AuthContext;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const id = parseInt(params.id as string);
+  if (isNaN(id)) {
+    return new Response(JSON.stringify({ error: 'ID non valido' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const message = await env.DB.prepare(
+      'SELECT * FROM emailOutbox WHERE id = ? AND clientId = ?'
+    ).bind(id, auth.clientId).first<any>();
+
+    if (!message) {
+      return new Response(JSON.stringify({ error: 'Messaggio non trovato' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Gli allegati si mostrano solo come nomi file
+    const attachments: { filename: string }[] = message.attachments ? JSON.parse(message.attachments) : [];
+
+    return new Response(JSON.stringify({
+      ...message,
+      attachments: attachments.map(a => a.filename),
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error: any) {
+    console.error('Get email outbox error:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -0,0 +1,68 @@
+/**
+ * API Email Outbox - Reinvio
+ * POST /api/email/outbox/:id/resend - Rimette in coda il messaggio e lo invia subito
+ * (un messaggio già inviato viene duplicato, uno fallito riparte da zero tentativi)
+ */
+
+import { requeueEmail, processOutbox } from '../../../../lib/outbox';
+
+interface Env {
+  DB: D1Database;
+  EMAIL_ENCRYPTION_KEY: string;
+  RESEND_API_KEY?: string;
+  MAIL_TRANSPORT?: string;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+}
+
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, params } = context;
+  const auth = context.data.auth as AuthContext;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const id = parseInt(params.id as string);
+  if (isNaN(id)) {
+    return new Response(JSON.stringify({ error: 'ID non valido' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const outboxId = await requeueEmail(env.DB, auth.clientId, id);
+
+    if (!outboxId) {
+      return new Response(JSON.stringify({ error: 'Messaggio non trovato' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const [result] = await processOutbox(env, { ids: [outboxId], limit: 1 });
+
+    return new Response(JSON.stringify({
+      success: result?.status === 'sent',
+      id: outboxId,
+      status: result?.status || 'pending',
+      error: result?.error || null,
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error: any) {
+    console.error('Resend email error:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -0,0 +1,120 @@
+/**
+ * API Email Outbox - Coda delle email inviate e da inviare
+ * GET /api/email/outbox - Lista filtrabile dei messaggi (status, kind, search)
+ *
+ * Ad ogni consultazione vengono ritentati in background i messaggi in coda già scaduti.
+ */
+
+import { processOutbox } from '../../../lib/outbox';
+
+interface Env {
+  DB: D1Database;
+  EMAIL_ENCRYPTION_KEY: string;
+  RESEND_API_KEY?: string;
+  MAIL_TRANSPORT?: string;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+}
+
+const STATUSES = ['pending', 'sending', 'sent', 'failed'];
+const KINDS = ['calendar_invite', 'certificate_notice', 'bulk_notice', 'expiry_reminder', 'attendance_otp', 'generic'];
+
+// GET - Lista messaggi
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+  const auth = context.data.auth as AuthContext;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const url = new URL(request.url);
+  const page = Math.max(parseInt(url.searchParams.get('page') || '1') || 1, 1);
+  const pageSize = Math.min(parseInt(url.searchParams.get('pageSize') || '20') || 20, 100);
+  const offset = (page - 1) * pageSize;
+
+  const conditions: string[] = ['clientId = ?'];
+  const bindings: any[] = [auth.clientId];
+
+  const status = url.searchParams.get('status');
+  if (status) {
+    if (!STATUSES.includes(status)) {
+      return new Response(JSON.stringify({ error: 'Stato non valido' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    conditions.push('status = ?');
+    bindings.push(status);
+  }
+
+  const kind = url.searchParams.get('kind');
+  if (kind) {
+    if (!KINDS.includes(kind)) {
+      return new Response(JSON.stringify({ error: 'Tipo non valido' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    conditions.push('kind = ?');
+    bindings.push(kind);
+  }
+
+  const search = url.searchParams.get('search');
+  if (search) {
+    conditions.push('(toEmail LIKE ? OR subject LIKE ?)');
+    bindings.push(`%${search}%`, `%${search}%`);
+  }
+
+  const where = conditions.join(' AND ');
+
+  try {
+    context.waitUntil(processOutbox(env, { clientId: auth.clientId }));
+
+    const countResult = await env.DB.prepare(
+      `SELECT COUNT(*) AS total FROM emailOutbox WHERE ${where}`
+    ).bind(...bindings).first<{ total: number }>();
+    const total = countResult?.total || 0;
+
+    // Il contenuto (html, .eml) si legge dal dettaglio
+    const { results } = await env.DB.prepare(`
+      SELECT
+        id, kind, toEmail, fromEmail, fromName, subject, status, attempts, maxAttempts,
+        lastError, transport, messageId, nextAttemptAt, sentAt, createdAt, updatedAt
+      FROM emailOutbox
+      WHERE ${where}
+      ORDER BY createdAt DESC, id DESC
+      LIMIT ? OFFSET ?
+    `).bind(...bindings, pageSize, offset).all();
+
+    // Conteggi per stato (badge dei filtri)
+    const { results: counts } = await env.DB.prepare(
+      'SELECT status, COUNT(*) AS count FROM emailOutbox WHERE clientId = ? GROUP BY status'
+    ).bind(auth.clientId).all<{ status: string; count: number }>();
+
+    return new Response(JSON.stringify({
+      data: results || [],
+      page,
+      pageSize,
+      total,
+      totalPages: Math.ceil(total / pageSize),
+      counts: Object.fromEntries((counts || []).map(c => [c.status, c.count])),
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error: any) {
+    console.error('List email outbox error:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
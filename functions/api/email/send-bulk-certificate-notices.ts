@@ -1,212 +1,184 @@
 /**
- * API Endpoint: Send Bulk Certificate Expiration Notices
- * POST /api/email/send-bulk-certificate-notices
- * 
- * Sends certificate expiration notices to companies about their employees' expiring certificates
+ * API Email - Avvisi scadenza certificati alle aziende
+ * POST /api/email/send-bulk-certificate-notices - Accoda un'email per azienda con
+ * l'elenco dei certificati in scadenza dei dipendenti
+ *
+ * Body: { registrationIds } (scadenze selezionate nello scadenzario) oppure
+ * { companyIds } (tutte le scadenze entro 90 giorni delle aziende indicate)
  */
 
-import { Router } from 'itty-router';
-import type { IRequest } from 'itty-router';
+import { drizzle } from 'drizzle-orm/d1';
+import { eq, and, inArray } from 'drizzle-orm';
+import * as schema from '../../../drizzle/schema';
+import { queueAndSend } from '../../lib/outbox';
+import type { MailMessage } from '../../lib/mail';
+import { escapeHtml, renderEmail } from '../../lib/templates';
+
+interface Env {
+  DB: D1Database;
+  EMAIL_ENCRYPTION_KEY: string;
+  RESEND_API_KEY?: string;
+  MAIL_TRANSPORT?: string;
+}
 
 interface BulkNoticeRequest {
-  companyIds: number[];
+  registrationIds?: number[];
+  companyIds?: number[];
 }
 
-interface Env {
-  RESEND_API_KEY: string;
-  DB: D1Database;
-  KV: KVNamespace;
+interface ExpiringCertificate {
+  studentName: string;
+  courseTitle: string;
+  expiryDate: string;
+  urgency: 'high' | 'medium' | 'low';
 }
 
-const router = Router();
+// Finestra di preavviso quando si selezionano intere aziende
+const NOTICE_WINDOW_DAYS = 90;
+
+// Tabella dei certificati inserita nel template con {{{certificates.table}}}
+function buildCertificatesTable(certificates: ExpiringCertificate[]): string {
+  return `
+          <table style="width: 100%; border-collapse: collapse; margin: 20px 0;">
+            <thead>
+              <tr style="background-color: #f3f4f6;">
+                <th style="border: 1px solid #d1d5db; padding: 10px; text-align: left;">Dipendente</th>
+                <th style="border: 1px solid #d1d5db; padding: 10px; text-align: left;">Corso</th>
+                <th style="border: 1px solid #d1d5db; padding: 10px; text-align: left;">Scadenza</th>
+                <th style="border: 1px solid #d1d5db; padding: 10px; text-align: left;">Urgenza</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${certificates.map((cert) => `
+                <tr>
+                  <td style="border: 1px solid #d1d5db; padding: 10px;">${escapeHtml(cert.studentName)}</td>
+                  <td style="border: 1px solid #d1d5db; padding: 10px;">${escapeHtml(cert.courseTitle)}</td>
+                  <td style="border: 1px solid #d1d5db; padding: 10px;">${cert.expiryDate}</td>
+                  <td style="border: 1px solid #d1d5db; padding: 10px;">
+                    <span style="padding: 4px 8px; border-radius: 4px; font-size: 12px; font-weight: bold;
+                      ${cert.urgency === 'high' ? 'background-color: #fee2e2; color: #991b1b;' : 
+                        cert.urgency === 'medium' ? 'background-color: #fef3c7; color: #92400e;' : 
+                        'background-color: #dcfce7; color: #166534;'}">
+                      ${cert.urgency === 'high' ? '🔴 URGENTE' : cert.urgency === 'medium' ? '🟡 IMPORTANTE' : '🟢 PIANIFICARE'}
+                    </span>
+                  </td>
+                </tr>
+              `).join('')}
+            </tbody>
+          </table>`;
+}
+
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { request, env } = context;
+  const auth = context.data.auth as { clientId: number; userId: number } | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
 
-/**
- * POST /api/email/send-bulk-certificate-notices
- * Send bulk certificate expiration notices to companies
- */
-router.post('/api/email/send-bulk-certificate-notices', async (request: IRequest, env: Env) => {
   try {
-    // Verify authentication
-    const authHeader = request.headers.get('Authorization');
-    if (!authHeader?.startsWith('Bearer ')) {
-      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
-        status: 401,
+    const body = await request.json() as BulkNoticeRequest;
+    const registrationIds = Array.isArray(body.registrationIds) ? body.registrationIds : [];
+    const companyIds = Array.isArray(body.companyIds) ? body.companyIds : [];
+
+    if (registrationIds.length === 0 && companyIds.length === 0) {
+      return new Response(JSON.stringify({ error: 'Seleziona almeno una scadenza o un\'azienda' }), {
+        status: 400,
         headers: { 'Content-Type': 'application/json' },
       });
     }
 
-    const body: BulkNoticeRequest = await request.json();
-
-    if (!body.companyIds || !Array.isArray(body.companyIds) || body.companyIds.length === 0) {
-      return new Response(
-        JSON.stringify({ error: 'Invalid or empty companyIds array' }),
-        { status: 400, headers: { 'Content-Type': 'application/json' } }
-      );
+    const db = drizzle(env.DB, { schema });
+
+    // Iscrizioni completate con azienda, come nello scadenzario (report expirations)
+    const rows = await db.select({
+      registrationId: schema.registrations.id,
+      studentFirstName: schema.students.firstName,
+      studentLastName: schema.students.lastName,
+      courseTitle: schema.courses.title,
+      validityMonths: schema.courses.certificateValidityMonths,
+      completionDate: schema.courseEditions.endDate,
+      companyId: schema.companies.id,
+      companyName: schema.companies.name,
+      companyEmail: schema.companies.email,
+    })
+    .from(schema.registrations)
+    .innerJoin(schema.students, eq(schema.registrations.studentId, schema.students.id))
+    .innerJoin(schema.courseEditions, eq(schema.registrations.courseEditionId, schema.courseEditions.id))
+    .innerJoin(schema.courses, eq(schema.courseEditions.courseId, schema.courses.id))
+    .innerJoin(schema.companies, eq(schema.registrations.companyId, schema.companies.id))
+    .where(and(
+      eq(schema.registrations.clientId, auth.clientId),
+      eq(schema.registrations.status, 'completed'),
+      registrationIds.length > 0
+        ? inArray(schema.registrations.id, registrationIds)
+        : inArray(schema.registrations.companyId, companyIds)
+    ));
+
+    // Raggruppa i certificati per azienda
+    const now = new Date();
+    const byCompany = new Map<number, { name: string; email: string | null; certificates: ExpiringCertificate[] }>();
+
+    for (const row of rows) {
+      if (!row.validityMonths) continue;
+
+      const expiryDate = new Date(row.completionDate);
+      expiryDate.setMonth(expiryDate.getMonth() + row.validityMonths);
+      const daysUntilExpiry = Math.ceil((expiryDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+
+      if (registrationIds.length === 0 && (daysUntilExpiry < 0 || daysUntilExpiry > NOTICE_WINDOW_DAYS)) continue;
+
+      const company = byCompany.get(row.companyId) || { name: row.companyName, email: row.companyEmail, certificates: [] };
+      company.certificates.push({
+        studentName: `${row.studentFirstName} ${row.studentLastName}`,
+        courseTitle: row.courseTitle,
+        expiryDate: expiryDate.toLocaleDateString('it-IT'),
+        urgency: daysUntilExpiry <= 30 ? 'high' : daysUntilExpiry <= 60 ? 'medium' : 'low',
+      });
+      byCompany.set(row.companyId, company);
     }
 
-    let sent = 0;
-    let failed = 0;
-
-    // Process each company
-    for (const companyId of body.companyIds) {
-      try {
-        // Get company details
-        const companyResult = await env.DB.prepare(
-          `SELECT id, name, email FROM companies WHERE id = ?`
-        ).bind(companyId).first();
-
-        if (!companyResult) {
-          console.warn(`Company ${companyId} not found`);
-          failed++;
-          continue;
-        }
-
-        // Get expiring certificates for this company
-        const certificatesResult = await env.DB.prepare(`
-          SELECT 
-            s.id as studentId,
-            s.firstName,
-            s.lastName,
-            c.title as courseTitle,
-            r.id as registrationId,
-            CAST(
-              (julianday(r.certificateExpiryDate) - julianday('now')) AS INTEGER
-            ) as daysUntilExpiry,
-            r.certificateExpiryDate as expiryDate
-          FROM registrations r
-          JOIN students s ON r.studentId = s.id
-          JOIN courses c ON r.courseId = c.id
-          WHERE r.companyId = ?
-            AND r.certificateExpiryDate IS NOT NULL
-            AND julianday(r.certificateExpiryDate) > julianday('now')
-            AND julianday(r.certificateExpiryDate) <= julianday('now', '+90 days')
-          ORDER BY r.certificateExpiryDate ASC
-        `).bind(companyId).all();
-
-        const certificates = certificatesResult.results || [];
-
-        if (certificates.length === 0) {
-          console.log(`No expiring certificates for company ${companyId}`);
-          continue;
-        }
-
-        // Prepare email content
-        const certificateRows = certificates.map((cert: any) => {
-          const daysUntilExpiry = cert.daysUntilExpiry;
-          let urgency = 'low';
-          if (daysUntilExpiry <= 30) urgency = 'high';
-          else if (daysUntilExpiry <= 60) urgency = 'medium';
-
-          return {
-            studentName: `${cert.firstName} ${cert.lastName}`,
-            courseTitle: cert.courseTitle,
-            expiryDate: new Date(cert.expiryDate).toLocaleDateString('it-IT'),
-            daysUntilExpiry,
-            urgency,
-          };
-        });
-
-        // Generate HTML email
-        const htmlContent = `
-          <html>
-            <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
-              <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
-                <h2 style="color: #d97706;">⚠️ Certificati di Sicurezza in Scadenza</h2>
-                
-                <p>Gentile <strong>${companyResult.name}</strong>,</p>
-                
-                <p>Vi comunichiamo che i seguenti certificati di sicurezza dei vostri dipendenti sono in scadenza:</p>
-                
-                <table style="width: 100%; border-collapse: collapse; margin: 20px 0;">
-                  <thead>
-                    <tr style="background-color: #f3f4f6;">
-                      <th style="border: 1px solid #d1d5db; padding: 10px; text-align: left;">Dipendente</th>
-                      <th style="border: 1px solid #d1d5db; padding: 10px; text-align: left;">Corso</th>
-                      <th style="border: 1px solid #d1d5db; padding: 10px; text-align: left;">Scadenza</th>
-                      <th style="border: 1px solid #d1d5db; padding: 10px; text-align: left;">Urgenza</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    ${certificateRows.map((cert: any) => `
-                      <tr>
-                        <td style="border: 1px solid #d1d5db; padding: 10px;">${cert.studentName}</td>
-                        <td style="border: 1px solid #d1d5db; padding: 10px;">${cert.courseTitle}</td>
-                        <td style="border: 1px solid #d1d5db; padding: 10px;">${cert.expiryDate}</td>
-                        <td style="border: 1px solid #d1d5db; padding: 10px;">
-                          <span style="padding: 4px 8px; border-radius: 4px; font-size: 12px; font-weight: bold;
-                            ${cert.urgency === 'high' ? 'background-color: #fee2e2; color: #991b1b;' : 
-                              cert.urgency === 'medium' ? 'background-color: #fef3c7; color: #92400e;' : 
-                              'background-color: #dcfce7; color: #166534;'}">
-                            ${cert.urgency === 'high' ? '🔴 URGENTE' : cert.urgency === 'medium' ? '🟡 IMPORTANTE' : '🟢 PIANIFICARE'}
-                          </span>
-                        </td>
-                      </tr>
-                    `).join('')}
-                  </tbody>
-                </table>
-                
-                <p>
-                  Si consiglia di contattarci al più presto per iscrivere i dipendenti ai corsi di aggiornamento necessari.
-                </p>
-                
-                <p style="margin-top: 30px; color: #666; font-size: 12px;">
-                  Questo è un messaggio automatico dal Sistema di Gestione Sicurezza D.Lgs. 81/08.
-                  <br/>Non rispondere a questa email.
-                </p>
-              </div>
-            </body>
-          </html>
-        `;
-
-        // Send email via Resend
-        const resendResponse = await fetch('https://api.resend.com/emails', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${env.RESEND_API_KEY}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            from: 'noreply@gestionalesicurezza.it',
-            to: companyResult.email || 'info@' + companyResult.name.toLowerCase().replace(/\s+/g, ''),
-            subject: `Certificati di Sicurezza in Scadenza - ${companyResult.name}`,
-            html: htmlContent,
-          }),
-        });
-
-        if (resendResponse.ok) {
-          sent++;
-          console.log(`Certificate notice sent to company ${companyId}`);
-        } else {
-          failed++;
-          const error = await resendResponse.json();
-          console.error(`Failed to send to company ${companyId}:`, error);
-        }
-      } catch (err: any) {
-        failed++;
-        console.error(`Error processing company ${companyId}:`, err);
+    const messages: MailMessage[] = [];
+    let skipped = 0;
+
+    for (const company of byCompany.values()) {
+      if (!company.email) {
+        skipped++;
+        continue;
       }
+      messages.push({
+        to: company.email,
+        ...(await renderEmail(env.DB, auth.clientId, 'bulk_certificate_notice', {
+          company: { name: company.name },
+          certificates: { count: company.certificates.length, table: buildCertificatesTable(company.certificates) },
+        })),
+      });
     }
 
-    return new Response(
-      JSON.stringify({
-        success: true,
-        sent,
-        failed,
-        total: body.companyIds.length,
-        message: `Bulk certificate notices sent: ${sent} succeeded, ${failed} failed`,
-      }),
-      { status: 200, headers: { 'Content-Type': 'application/json' } }
-    );
-  } catch (error: any) {
-    console.error('Error in bulk certificate notices endpoint:', error);
-    return new Response(
-      JSON.stringify({
-        error: 'Internal server error',
-        message: error.message,
-      }),
-      { status: 500, headers: { 'Content-Type': 'application/json' } }
-    );
+    const results = await queueAndSend(env, auth.clientId, 'bulk_notice', messages);
+    const sent = results.filter(r => r.status === 'sent').length;
+    const queued = results.filter(r => r.status === 'pending').length;
+    const failed = results.filter(r => r.status === 'failed').length;
+
+    return new Response(JSON.stringify({
+      success: true,
+      sent,
+      queued,
+      failed,
+      skipped,
+      total: byCompany.size,
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error sending bulk certificate notices:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
   }
-});
-
-export default router;
+};
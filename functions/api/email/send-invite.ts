@@ -1,16 +1,14 @@
+import { loadMailSettings } from '../../lib/mail';
+import { queueAndSend } from '../../lib/outbox';
+import { renderEmail } from '../../lib/templates';
+
 interface Env {
   DB: D1Database;
+  EMAIL_ENCRYPTION_KEY: string;
+  RESEND_API_KEY?: string;
+  MAIL_TRANSPORT?: string;
 }
 
-// Funzione per decriptare
-const decrypt = (encrypted: string): string => {
-  try {
-    return atob(encrypted);
-  } catch {
-    return encrypted;
-  }
-};
-
 // Funzione per codificare in base64 URL-safe (per Gmail API)
 const base64UrlEncode = (str: string): string => {
   const base64 = btoa(unescape(encodeURIComponent(str)));
@@ -61,55 +59,6 @@ END:VCALENDAR`;
   return ics;
 };
 
-// Funzione per inviare email via Gmail SMTP usando fetch (via servizio esterno)
-// Poiché Cloudflare Workers non supporta SMTP diretto, usiamo Resend API come alternativa
-const sendEmailViaResend = async (
-  to: string,
-  subject: string,
-  html: string,
-  attachments: { filename: string; content: string; contentType: string }[],
-  fromEmail: string,
-  resendApiKey?: string
-): Promise<{ success: boolean; messageId?: string; error?: string }> => {
-  // Se non c'è API key Resend, restituisci errore
-  if (!resendApiKey) {
-    // Fallback: simula invio (per testing)
-    console.log('Email would be sent to:', to);
-    console.log('Subject:', subject);
-    return { success: true, messageId: `simulated-${Date.now()}` };
-  }
-
-  try {
-    const response = await fetch('https://api.resend.com/emails', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${resendApiKey}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        from: fromEmail.includes('@') ? `GestionaleSicurezza <${fromEmail}>` : `GestionaleSicurezza <noreply@gestionalesicurezza.it>`,
-        to: [to],
-        subject,
-        html,
-        attachments: attachments.map(a => ({
-          filename: a.filename,
-          content: btoa(a.content)
-        }))
-      })
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      return { success: false, error: JSON.stringify(errorData) };
-    }
-
-    const data = await response.json() as { id: string };
-    return { success: true, messageId: data.id };
-  } catch (error: any) {
-    return { success: false, error: error.message };
-  }
-};
-
 export const onRequestPost: PagesFunction<Env> = async (context) => {
   try {
     const auth = context.data.auth as { clientId: number } | undefined;
@@ -153,13 +102,9 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     }
 
     // Recupera le credenziali email dal database
-    const settingsResult = await context.env.DB.prepare(`
-      SELECT email, resendApiKey FROM emailSettings 
-      WHERE clientId = ?
-      LIMIT 1
-    `).bind(auth.clientId).first() as any;
+    const mailSettings = await loadMailSettings(context.env, auth.clientId);
 
-    if (!settingsResult) {
+    if (!mailSettings) {
       return new Response(JSON.stringify({ 
         error: 'Impostazioni email non configurate. Configura le impostazioni email nel profilo.' 
       }), {
@@ -168,8 +113,7 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
       });
     }
 
-    const senderEmail = settingsResult.email;
-    const resendApiKey = settingsResult.resendApiKey ? decrypt(settingsResult.resendApiKey) : undefined;
+    const senderEmail = mailSettings.sender.email;
 
     // Crea l'invito iCalendar
     const ics = createCalendarInvite({
@@ -181,39 +125,36 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
       location,
       attendeeEmail: instructorEmail,
       organizerEmail: senderEmail,
-      organizerName: 'GestionaleSicurezza'
+      organizerName: mailSettings.sender.name
+    });
+
+    // Compone l'email dal template del cliente
+    const email = await renderEmail(context.env.DB, auth.clientId, 'session_invite', {
+      course: { title: courseName },
+      session: { date: sessionDate, startTime, endTime, location, description },
+      instructor: { name: instructorName },
     });
 
-    // Prepara l'HTML dell'email
-    const emailHtml = `
-      <h2>${courseName}</h2>
-      <p><strong>Data:</strong> ${sessionDate}</p>
-      <p><strong>Orario:</strong> ${startTime} - ${endTime}</p>
-      <p><strong>Luogo:</strong> ${location}</p>
-      <p><strong>Descrizione:</strong> ${description}</p>
-      <p>Accetta l'invito per aggiungere l'evento al tuo calendario.</p>
-    `;
-
-    // Invia l'email
-    const result = await sendEmailViaResend(
-      instructorEmail,
-      `Invito Calendario: ${courseName}`,
-      emailHtml,
-      [{
+    // Accoda e invia l'email (se fallisce viene ritentata dall'outbox)
+    const [result] = await queueAndSend(context.env, auth.clientId, 'calendar_invite', [{
+      to: instructorEmail,
+      ...email,
+      attachments: [{
         filename: 'invite.ics',
         content: ics,
         contentType: 'text/calendar; method=REQUEST'
       }],
-      senderEmail,
-      resendApiKey
-    );
+    }]);
 
-    if (!result.success) {
+    if (result.status !== 'sent') {
       return new Response(JSON.stringify({ 
-        error: 'Errore nell\'invio dell\'email',
-        details: result.error
+        error: result.status === 'pending'
+          ? 'Invio non riuscito: l\'email resta in coda e verrà ritentata automaticamente'
+          : 'Errore nell\'invio dell\'email',
+        details: result.error,
+        outboxId: result.id
       }), {
-        status: 500,
+        status: 502,
         headers: { 'Content-Type': 'application/json' }
       });
     }
@@ -228,7 +169,7 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     return new Response(JSON.stringify({ 
       success: true,
       message: 'Invito calendario inviato con successo',
-      messageId: result.messageId
+      outboxId: result.id
     }), {
       status: 200,
       headers: { 'Content-Type': 'application/json' }
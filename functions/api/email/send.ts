@@ -1,109 +1,96 @@
 /**
- * API Endpoint: Send Email via Resend
- * POST /api/email/send
- * 
- * Sends individual emails using the Resend service
+ * API Email - Invio singola email
+ * POST /api/email/send - Accoda e invia un'email tramite il trasporto del cliente
+ *
+ * Il corpo può essere esplicito (subject + html) o composto da un template del
+ * cliente (template + data, vedi functions/lib/templates.ts)
  */
 
-import { Router } from 'itty-router';
-import type { IRequest } from 'itty-router';
+import { queueAndSend } from '../../lib/outbox';
+import { isTemplateKey, renderEmail } from '../../lib/templates';
+import type { TemplateData } from '../../lib/templates';
+
+interface Env {
+  DB: D1Database;
+  EMAIL_ENCRYPTION_KEY: string;
+  RESEND_API_KEY?: string;
+  MAIL_TRANSPORT?: string;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+}
 
 interface EmailRequest {
   to: string;
-  subject: string;
-  html: string;
-  from?: string;
+  subject?: string;
+  html?: string;
+  template?: string;
+  data?: TemplateData;
+  attachments?: { filename: string; content: string }[];
 }
 
-interface Env {
-  RESEND_API_KEY: string;
-  DB: D1Database;
-  KV: KVNamespace;
-}
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { request, env } = context;
+  const auth = context.data.auth as AuthContext | undefined;
 
-const router = Router();
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
 
-/**
- * POST /api/email/send
- * Send an email via Resend
- */
-router.post('/api/email/send', async (request: IRequest, env: Env) => {
   try {
-    // Verify authentication
-    const authHeader = request.headers.get('Authorization');
-    if (!authHeader?.startsWith('Bearer ')) {
-      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
-        status: 401,
+    const body = await request.json() as EmailRequest;
+
+    if (body.template !== undefined && !isTemplateKey(body.template)) {
+      return new Response(JSON.stringify({ error: 'Template non valido' }), {
+        status: 400,
         headers: { 'Content-Type': 'application/json' },
       });
     }
 
-    const body: EmailRequest = await request.json();
-
-    // Validate input
-    if (!body.to || !body.subject || !body.html) {
-      return new Response(
-        JSON.stringify({ error: 'Missing required fields: to, subject, html' }),
-        { status: 400, headers: { 'Content-Type': 'application/json' } }
-      );
+    if (!body.to || (!body.template && (!body.subject || !body.html))) {
+      return new Response(JSON.stringify({ error: 'Campi obbligatori: to, subject, html (oppure template)' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
     }
 
-    // Validate email format
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
     if (!emailRegex.test(body.to)) {
-      return new Response(
-        JSON.stringify({ error: 'Invalid email address' }),
-        { status: 400, headers: { 'Content-Type': 'application/json' } }
-      );
-    }
-
-    // Send email via Resend
-    const resendResponse = await fetch('https://api.resend.com/emails', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${env.RESEND_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        from: body.from || 'noreply@gestionalesicurezza.it',
-        to: body.to,
-        subject: body.subject,
-        html: body.html,
-      }),
-    });
-
-    if (!resendResponse.ok) {
-      const error = await resendResponse.json();
-      console.error('Resend API error:', error);
-      return new Response(
-        JSON.stringify({ error: 'Failed to send email', details: error }),
-        { status: 500, headers: { 'Content-Type': 'application/json' } }
-      );
+      return new Response(JSON.stringify({ error: 'Indirizzo email non valido' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
     }
 
-    const result = await resendResponse.json();
+    const content = body.template && isTemplateKey(body.template)
+      ? await renderEmail(env.DB, auth.clientId, body.template, body.data || {})
+      : { subject: body.subject!, html: body.html! };
 
-    // Log email sent
-    console.log(`Email sent to ${body.to}:`, result.id);
+    const [result] = await queueAndSend(env, auth.clientId, 'generic', [{
+      to: body.to,
+      ...content,
+      attachments: body.attachments,
+    }]);
 
-    return new Response(
-      JSON.stringify({
-        success: true,
-        messageId: result.id,
-        message: 'Email sent successfully',
-      }),
-      { status: 200, headers: { 'Content-Type': 'application/json' } }
-    );
-  } catch (error: any) {
-    console.error('Error in email send endpoint:', error);
-    return new Response(
-      JSON.stringify({
-        error: 'Internal server error',
-        message: error.message,
-      }),
-      { status: 500, headers: { 'Content-Type': 'application/json' } }
-    );
+    return new Response(JSON.stringify({
+      success: result.status === 'sent',
+      status: result.status,
+      outboxId: result.id,
+      error: result.error,
+    }), {
+      status: result.status === 'sent' ? 200 : 502,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error sending email:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
   }
-});
-
-export default router;
+};
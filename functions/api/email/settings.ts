@@ -1,21 +1,10 @@
+import { encryptSecret } from '../../lib/secrets';
+
 interface Env {
   DB: D1Database;
+  EMAIL_ENCRYPTION_KEY: string;
 }
 
-// Funzione per criptare (semplice base64 - in produzione usare una libreria robusta)
-const encrypt = (text: string): string => {
-  return btoa(unescape(encodeURIComponent(text)));
-};
-
-// Funzione per decriptare
-const decrypt = (encrypted: string): string => {
-  try {
-    return decodeURIComponent(escape(atob(encrypted)));
-  } catch {
-    return encrypted;
-  }
-};
-
 export const onRequestPost: PagesFunction<Env> = async (context) => {
   try {
     const auth = context.data.auth as { clientId: number } | undefined;
@@ -29,10 +18,13 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
 
     const body = await context.request.json() as {
       email: string;
+      password?: string;
       resendApiKey?: string;
+      host?: string;
+      port?: number;
     };
 
-    const { email, resendApiKey } = body;
+    const { email, password, resendApiKey } = body;
 
     if (!email) {
       return new Response(JSON.stringify({ error: 'Email richiesta' }), {
@@ -41,8 +33,21 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
       });
     }
 
-    // Criptare le credenziali
-    const encryptedApiKey = resendApiKey ? encrypt(resendApiKey) : null;
+    if ((password || resendApiKey) && !context.env.EMAIL_ENCRYPTION_KEY) {
+      return new Response(JSON.stringify({ error: 'EMAIL_ENCRYPTION_KEY non configurata' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Cifra le credenziali (AES-GCM)
+    const encryptedPassword = password ? await encryptSecret(password, context.env.EMAIL_ENCRYPTION_KEY) : null;
+    const encryptedApiKey = resendApiKey ? await encryptSecret(resendApiKey, context.env.EMAIL_ENCRYPTION_KEY) : null;
+
+    // Con la password l'account diventa il server SMTP del cliente (default Gmail, TLS su 465)
+    const host = password ? (body.host || 'smtp.gmail.com') : null;
+    const port = password ? (body.port || 465) : null;
+    const username = password ? email : null;
 
     // Verifica se esiste già un record
     const existing = await context.env.DB.prepare(`
@@ -50,18 +55,21 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     `).bind(auth.clientId).first();
 
     if (existing) {
-      // Aggiorna
+      // Aggiorna (le credenziali non inviate restano quelle salvate)
       await context.env.DB.prepare(`
         UPDATE emailSettings 
-        SET email = ?, resendApiKey = ?, updatedAt = CURRENT_TIMESTAMP
+        SET fromEmail = ?,
+            host = COALESCE(?, host), port = COALESCE(?, port), username = COALESCE(?, username),
+            password = COALESCE(?, password), resendApiKey = COALESCE(?, resendApiKey),
+            updatedAt = ?
         WHERE clientId = ?
-      `).bind(email, encryptedApiKey, auth.clientId).run();
+      `).bind(email, host, port, username, encryptedPassword, encryptedApiKey, new Date().toISOString(), auth.clientId).run();
     } else {
       // Inserisci
       await context.env.DB.prepare(`
-        INSERT INTO emailSettings (clientId, email, resendApiKey, createdAt, updatedAt)
-        VALUES (?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
-      `).bind(auth.clientId, email, encryptedApiKey).run();
+        INSERT INTO emailSettings (clientId, fromEmail, host, port, username, password, useSsl, resendApiKey, updatedAt)
+        VALUES (?, ?, ?, ?, ?, ?, 1, ?, ?)
+      `).bind(auth.clientId, email, host, port, username, encryptedPassword, encryptedApiKey, new Date().toISOString()).run();
     }
 
     return new Response(JSON.stringify({ 
@@ -95,12 +103,14 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
     }
 
     const result = await context.env.DB.prepare(`
-      SELECT email, resendApiKey FROM emailSettings WHERE clientId = ?
+      SELECT fromEmail, host, password, resendApiKey FROM emailSettings WHERE clientId = ?
     `).bind(auth.clientId).first() as any;
 
     if (!result) {
       return new Response(JSON.stringify({ 
         email: null,
+        host: null,
+        hasPassword: false,
         hasResendApiKey: false
       }), {
         status: 200,
@@ -109,7 +119,9 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
     }
 
     return new Response(JSON.stringify({ 
-      email: result.email,
+      email: result.fromEmail,
+      host: result.host,
+      hasPassword: !!result.password,
       hasResendApiKey: !!result.resendApiKey
     }), {
       status: 200,
@@ -0,0 +1,116 @@
+/**
+ * API Impostazioni - Promemoria automatici delle scadenze
+ * GET /api/email/settings/reminders - Impostazioni correnti (default se mai salvate)
+ * PUT /api/email/settings/reminders - Salva soglie e destinatari
+ */
+
+import { loadReminderSettings, parseThresholds } from '../../../lib/reminders';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+}
+
+interface ReminderSettingsRequest {
+  enabled: boolean;
+  thresholds: number[];
+  notifyStudents: boolean;
+  notifyCompanies: boolean;
+  notifyAgents: boolean;
+}
+
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const settings = await loadReminderSettings(context.env.DB, auth.clientId);
+
+    // Ultimi promemoria accodati, per verificare che il job stia girando
+    const lastRun = await context.env.DB.prepare(
+      'SELECT MAX(createdAt) AS lastSentAt, COUNT(*) AS total FROM certificateReminders WHERE clientId = ?'
+    ).bind(auth.clientId).first<{ lastSentAt: string | null; total: number }>();
+
+    return new Response(JSON.stringify({
+      ...settings,
+      lastSentAt: lastRun?.lastSentAt || null,
+      totalSent: lastRun?.total || 0,
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error getting reminder settings:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+export const onRequestPut: PagesFunction<Env> = async (context) => {
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const body = await context.request.json() as ReminderSettingsRequest;
+    const thresholds = parseThresholds((body.thresholds || []).join(','));
+
+    if (body.enabled && thresholds.length === 0) {
+      return new Response(JSON.stringify({ error: 'Indica almeno una soglia tra 0 e 365 giorni' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    await context.env.DB.prepare(`
+      INSERT INTO reminderSettings (clientId, enabled, thresholds, notifyStudents, notifyCompanies, notifyAgents, updatedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (clientId) DO UPDATE SET
+        enabled = excluded.enabled,
+        thresholds = excluded.thresholds,
+        notifyStudents = excluded.notifyStudents,
+        notifyCompanies = excluded.notifyCompanies,
+        notifyAgents = excluded.notifyAgents,
+        updatedAt = excluded.updatedAt
+    `).bind(
+      auth.clientId,
+      body.enabled ? 1 : 0,
+      thresholds.join(','),
+      body.notifyStudents ? 1 : 0,
+      body.notifyCompanies ? 1 : 0,
+      body.notifyAgents ? 1 : 0,
+      new Date().toISOString()
+    ).run();
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: await loadReminderSettings(context.env.DB, auth.clientId),
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error saving reminder settings:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
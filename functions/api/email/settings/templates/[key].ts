@@ -0,0 +1,117 @@
+/**
+ * API Impostazioni - Singolo template email
+ * PUT    /api/email/settings/templates/:key - Salva oggetto e HTML personalizzati
+ * DELETE /api/email/settings/templates/:key - Ripristina il template predefinito
+ */
+
+import { isTemplateKey } from '../../../../lib/templates';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+}
+
+// Limite di dimensione del corpo HTML (i template sono salvati in D1)
+const MAX_HTML_LENGTH = 100_000;
+
+export const onRequestPut: PagesFunction<Env> = async (context) => {
+  const { env, params, request } = context;
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const key = params.key as string;
+  if (!isTemplateKey(key)) {
+    return new Response(JSON.stringify({ error: 'Template non trovato' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const body = await request.json() as { subject?: string; html?: string };
+    const subject = body.subject?.trim();
+    const html = body.html?.trim();
+
+    if (!subject || !html) {
+      return new Response(JSON.stringify({ error: 'Oggetto e corpo del messaggio sono obbligatori' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (html.length > MAX_HTML_LENGTH) {
+      return new Response(JSON.stringify({ error: 'Il corpo del messaggio è troppo lungo' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const now = new Date().toISOString();
+    await env.DB.prepare(`
+      INSERT INTO emailTemplates (clientId, templateKey, subject, html, updatedAt)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (clientId, templateKey) DO UPDATE SET
+        subject = excluded.subject,
+        html = excluded.html,
+        updatedAt = excluded.updatedAt
+    `).bind(auth.clientId, key, subject, html, now).run();
+
+    return new Response(JSON.stringify({ success: true, key, subject, html, isCustom: true, updatedAt: now }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error saving email template:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+export const onRequestDelete: PagesFunction<Env> = async (context) => {
+  const { env, params } = context;
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const key = params.key as string;
+  if (!isTemplateKey(key)) {
+    return new Response(JSON.stringify({ error: 'Template non trovato' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    await env.DB.prepare(
+      'DELETE FROM emailTemplates WHERE clientId = ? AND templateKey = ?'
+    ).bind(auth.clientId, key).run();
+
+    return new Response(JSON.stringify({ success: true }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error resetting email template:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -0,0 +1,63 @@
+/**
+ * API Impostazioni - Template email
+ * GET /api/email/settings/templates - Elenco dei template con la versione in uso
+ * (personalizzata o predefinita), i segnaposto disponibili e il testo predefinito
+ */
+
+import { DEFAULT_TEMPLATES, TEMPLATE_KEYS } from '../../../../lib/templates';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+}
+
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const { results } = await context.env.DB.prepare(
+      'SELECT templateKey, subject, html, updatedAt FROM emailTemplates WHERE clientId = ?'
+    ).bind(auth.clientId).all<{ templateKey: string; subject: string; html: string; updatedAt: string }>();
+
+    const custom = new Map((results || []).map(r => [r.templateKey, r]));
+
+    const data = TEMPLATE_KEYS.map(key => {
+      const { label, description, placeholders, subject, html } = DEFAULT_TEMPLATES[key];
+      const saved = custom.get(key);
+      return {
+        key,
+        label,
+        description,
+        placeholders,
+        subject: saved?.subject ?? subject,
+        html: saved?.html ?? html,
+        isCustom: !!saved,
+        updatedAt: saved?.updatedAt ?? null,
+        defaultSubject: subject,
+        defaultHtml: html,
+      };
+    });
+
+    return new Response(JSON.stringify({ data }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error listing email templates:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -0,0 +1,58 @@
+/**
+ * API Impostazioni - Anteprima template email
+ * POST /api/email/settings/templates/preview - Compone oggetto e HTML (anche non salvati)
+ * con i dati di esempio del template
+ */
+
+import { loadBranding } from '../../../../lib/branding';
+import { brandingData, DEFAULT_TEMPLATES, isTemplateKey, renderTemplate, wrapEmailHtml } from '../../../../lib/templates';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+}
+
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const body = await request.json() as { key: string; subject: string; html: string };
+
+    if (!body.key || !isTemplateKey(body.key)) {
+      return new Response(JSON.stringify({ error: 'Template non trovato' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Carta intestata reale del cliente, il resto dai dati di esempio
+    const branding = await loadBranding(env.DB, auth.clientId);
+    const data = { ...DEFAULT_TEMPLATES[body.key].sample, client: brandingData(branding) };
+
+    return new Response(JSON.stringify({
+      subject: renderTemplate(body.subject || '', data, false),
+      html: wrapEmailHtml(renderTemplate(body.html || '', data), branding),
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error previewing email template:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
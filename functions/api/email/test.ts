@@ -1,3 +1,5 @@
+import { verifySmtp } from '../../lib/smtp';
+
 interface Env {
   DB: D1Database;
 }
@@ -15,10 +17,13 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
 
     const body = await context.request.json() as {
       email: string;
+      password?: string;
       resendApiKey?: string;
+      host?: string;
+      port?: number;
     };
 
-    const { email, resendApiKey } = body;
+    const { email, password, resendApiKey } = body;
 
     if (!email) {
       return new Response(JSON.stringify({ error: 'Email richiesta' }), {
@@ -69,7 +74,6 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
       }
     }
 
-    // Se non c'è API key, verifica solo che l'email sia valida
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
     if (!emailRegex.test(email)) {
       return new Response(JSON.stringify({ 
@@ -80,10 +84,40 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
       });
     }
 
+    // Con la password verifica login sul server SMTP (default Gmail)
+    if (password) {
+      try {
+        await verifySmtp({
+          host: body.host || 'smtp.gmail.com',
+          port: body.port || 465,
+          username: email,
+          password,
+          useSsl: true,
+        });
+
+        return new Response(JSON.stringify({ 
+          success: true,
+          message: 'Connessione SMTP riuscita',
+          provider: 'smtp'
+        }), {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      } catch (error: any) {
+        return new Response(JSON.stringify({ 
+          error: 'Accesso SMTP non riuscito: verifica email e password per le app',
+          details: error.message
+        }), {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
     return new Response(JSON.stringify({ 
       success: true,
-      message: 'Email configurata (senza API key Resend, le email saranno simulate)',
-      provider: 'simulation'
+      message: 'Email configurata (senza credenziali le email restano in coda nell\'outbox)',
+      provider: 'none'
     }), {
       status: 200,
       headers: { 'Content-Type': 'application/json' }
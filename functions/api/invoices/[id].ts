@@ -0,0 +1,166 @@
+/**
+ * API Fattura
+ * GET /api/invoices/:id - Fattura con le righe
+ * DELETE /api/invoices/:id - Annulla una bozza: le iscrizioni tornano da fatturare
+ *
+ * La fattura annullata resta in archivio (stato 'cancelled') per non riusarne il numero.
+ * Gli acconti delle iscrizioni restano alle iscrizioni; gli incassi registrati sulla
+ * fattura vanno eliminati prima di annullarla.
+ */
+
+import { resolveInvoicingService } from '../../lib/invoicing';
+import type { InvoicingEnv } from '../../lib/invoicing';
+import { refreshRegistrationPayments } from '../../lib/payments';
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+}
+
+interface InvoiceRow {
+  id: number;
+  provider: string;
+  externalId: string | null;
+  status: string;
+  [key: string]: unknown;
+}
+
+async function findInvoice(db: D1Database, clientId: number, invoiceId: number) {
+  return db.prepare(`
+    SELECT i.id, i.companyId, i.courseEditionId, i.provider, i.externalId, i.number, i.date, i.dueDate,
+      i.status, i.customerName, i.netAmount, i.vatAmount, i.totalAmount, i.pdfUrl, i.createdAt,
+      (SELECT COUNT(*) FROM invoiceLines l WHERE l.invoiceId = i.id) AS linesCount
+    FROM invoices i
+    WHERE i.id = ? AND i.clientId = ?
+  `).bind(invoiceId, clientId).first<InvoiceRow>();
+}
+
+// GET - Fattura con le righe
+export const onRequestGet: PagesFunction<InvoicingEnv> = async (context) => {
+  const { env, params } = context;
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const invoice = await findInvoice(env.DB, auth.clientId, Number(params.id));
+
+    if (!invoice) {
+      return new Response(JSON.stringify({ error: 'Fattura non trovata' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { results } = await env.DB.prepare(`
+      SELECT id, registrationId, description, quantity, unitPrice, vatRate
+      FROM invoiceLines
+      WHERE invoiceId = ?
+      ORDER BY id
+    `).bind(invoice.id).all();
+
+    return new Response(JSON.stringify({ ...invoice, lines: results || [] }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error fetching invoice:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+// DELETE - Annulla una bozza
+export const onRequestDelete: PagesFunction<InvoicingEnv> = async (context) => {
+  const { env, params } = context;
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const invoice = await findInvoice(env.DB, auth.clientId, Number(params.id));
+
+    if (!invoice) {
+      return new Response(JSON.stringify({ error: 'Fattura non trovata' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Una bozza con acconti delle iscrizioni risulta incassata (partial/paid) ma non è stata inviata
+    if (invoice.status === 'sent' || invoice.status === 'cancelled') {
+      return new Response(JSON.stringify({ error: 'Si possono annullare solo le fatture in bozza' }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const payment = await env.DB.prepare(
+      'SELECT id FROM payments WHERE invoiceId = ? LIMIT 1'
+    ).bind(invoice.id).first();
+
+    if (payment) {
+      return new Response(JSON.stringify({ error: 'La fattura ha incassi registrati: eliminarli prima di annullarla' }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Il documento presso il provider si annulla solo se è lo stesso provider configurato ora
+    const service = resolveInvoicingService(env);
+    if (service && invoice.externalId && invoice.provider === env.INVOICING_PROVIDER) {
+      try {
+        await service.cancelInvoice(invoice.externalId);
+      } catch (error: any) {
+        return new Response(JSON.stringify({ error: `Annullamento non riuscito presso il provider: ${error.message}` }), {
+          status: 502,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    const { results: registrations } = await env.DB.prepare(
+      'SELECT id FROM registrations WHERE invoiceId = ? AND clientId = ?'
+    ).bind(String(invoice.id), auth.clientId).all<{ id: number }>();
+
+    const now = new Date().toISOString();
+    await env.DB.batch([
+      env.DB.prepare(
+        "UPDATE invoices SET status = 'cancelled', updatedAt = ? WHERE id = ?"
+      ).bind(now, invoice.id),
+      env.DB.prepare(`
+        UPDATE registrations SET invoiceId = NULL, invoiceStatus = 'none', updatedAt = ?
+        WHERE invoiceId = ? AND clientId = ?
+      `).bind(now, String(invoice.id), auth.clientId),
+    ]);
+
+    for (const registration of registrations || []) {
+      await refreshRegistrationPayments(env.DB, auth.clientId, registration.id);
+    }
+
+    return new Response(JSON.stringify({ success: true }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error cancelling invoice:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
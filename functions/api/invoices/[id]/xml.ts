@@ -0,0 +1,63 @@
+/**
+ * API FatturaPA di una fattura
+ * GET /api/invoices/:id/xml - XML FatturaPA (FPR12) da inviare allo SDI
+ *
+ * Se mancano campi obbligatori risponde 422 con l'elenco degli errori.
+ */
+
+import { buildFatturaPAXml, fatturaPAFilename, loadFatturaPADocument, validateFatturaPA } from '../../../lib/fatturaPA';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+}
+
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const doc = await loadFatturaPADocument(context.env.DB, auth.clientId, Number(context.params.id));
+
+    if (!doc) {
+      return new Response(JSON.stringify({ error: 'Fattura non trovata' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const errors = validateFatturaPA(doc);
+    if (errors.length > 0) {
+      return new Response(JSON.stringify({ error: `Fattura ${doc.number}: dati mancanti per la FatturaPA`, errors }), {
+        status: 422,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(buildFatturaPAXml(doc), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/xml; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fatturaPAFilename(doc)}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error generating FatturaPA XML:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -0,0 +1,47 @@
+/**
+ * API Iscrizioni da fatturare
+ * GET /api/invoices/candidates - Iscrizioni completate non ancora fatturate (companyId, editionId)
+ */
+
+import { loadInvoiceCandidates } from '../../lib/invoicing';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+}
+
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const url = new URL(context.request.url);
+    const candidates = await loadInvoiceCandidates(context.env.DB, auth.clientId, {
+      companyId: Number(url.searchParams.get('companyId')) || undefined,
+      editionId: Number(url.searchParams.get('editionId')) || undefined,
+    });
+
+    return new Response(JSON.stringify({ candidates }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error fetching invoice candidates:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
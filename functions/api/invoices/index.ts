@@ -0,0 +1,202 @@
+/**
+ * API Fatture
+ * GET /api/invoices - Lista fatture (status, companyId, paginata)
+ * POST /api/invoices - Genera le bozze dalle iscrizioni indicate ({ registrationIds, groupBy, vatRate })
+ *
+ * Una fattura per azienda (groupBy 'company') o per azienda ed edizione ('edition'):
+ * vedi functions/lib/invoicing.ts. Un errore del provider blocca solo la sua fattura.
+ */
+
+import {
+  createGroupInvoice,
+  DEFAULT_VAT_RATE,
+  groupInvoiceCandidates,
+  loadInvoiceCandidates,
+  resolveInvoicingService,
+} from '../../lib/invoicing';
+import type { InvoiceGenerationResult, InvoicingEnv } from '../../lib/invoicing';
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+}
+
+const STATUSES = ['draft', 'sent', 'paid', 'partial', 'cancelled'];
+
+// GET - Lista fatture
+export const onRequestGet: PagesFunction<InvoicingEnv> = async (context) => {
+  const { env, request } = context;
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const url = new URL(request.url);
+  const page = Math.max(parseInt(url.searchParams.get('page') || '1') || 1, 1);
+  const pageSize = Math.min(parseInt(url.searchParams.get('pageSize') || '20') || 20, 100);
+  const offset = (page - 1) * pageSize;
+
+  const conditions: string[] = ['i.clientId = ?'];
+  const bindings: any[] = [auth.clientId];
+
+  const status = url.searchParams.get('status');
+  if (status) {
+    if (!STATUSES.includes(status)) {
+      return new Response(JSON.stringify({ error: 'Stato non valido' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    conditions.push('i.status = ?');
+    bindings.push(status);
+  }
+
+  const companyId = url.searchParams.get('companyId');
+  if (companyId) {
+    conditions.push('i.companyId = ?');
+    bindings.push(Number(companyId));
+  }
+
+  const where = conditions.join(' AND ');
+
+  try {
+    const countResult = await env.DB.prepare(
+      `SELECT COUNT(*) AS total FROM invoices i WHERE ${where}`
+    ).bind(...bindings).first<{ total: number }>();
+    const total = countResult?.total || 0;
+
+    const { results } = await env.DB.prepare(`
+      SELECT i.id, i.companyId, i.courseEditionId, i.provider, i.externalId, i.number, i.date, i.dueDate,
+        i.status, i.customerName, i.netAmount, i.vatAmount, i.totalAmount, i.pdfUrl, i.createdAt,
+        (SELECT COUNT(*) FROM invoiceLines l WHERE l.invoiceId = i.id) AS linesCount
+      FROM invoices i
+      WHERE ${where}
+      ORDER BY i.date DESC, i.id DESC
+      LIMIT ? OFFSET ?
+    `).bind(...bindings, pageSize, offset).all();
+
+    return new Response(JSON.stringify({
+      data: results || [],
+      page,
+      pageSize,
+      total,
+      totalPages: Math.ceil(total / pageSize),
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error fetching invoices:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+// POST - Genera le bozze di fattura
+export const onRequestPost: PagesFunction<InvoicingEnv> = async (context) => {
+  const { env } = context;
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const body = await context.request.json() as {
+      registrationIds?: number[];
+      groupBy?: string;
+      vatRate?: number;
+    };
+
+    if (!Array.isArray(body.registrationIds) || body.registrationIds.length === 0) {
+      return new Response(JSON.stringify({ error: 'Seleziona almeno un\'iscrizione da fatturare' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const groupBy = body.groupBy || 'company';
+    if (groupBy !== 'company' && groupBy !== 'edition') {
+      return new Response(JSON.stringify({ error: 'Raggruppamento non valido' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const vatRate = body.vatRate ?? DEFAULT_VAT_RATE;
+    if (!Number.isInteger(vatRate) || vatRate < 0 || vatRate > 100) {
+      return new Response(JSON.stringify({ error: 'Aliquota IVA non valida' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const service = resolveInvoicingService(env);
+    if (!service) {
+      return new Response(JSON.stringify({ error: 'Fatturazione non configurata: impostare INVOICING_PROVIDER' }), {
+        status: 503,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Le iscrizioni già fatturate, non completate o di altri clienti vengono ignorate
+    const selected = new Set(body.registrationIds.map(Number));
+    const candidates = (await loadInvoiceCandidates(env.DB, auth.clientId))
+      .filter(c => selected.has(c.registrationId));
+
+    if (candidates.length === 0) {
+      return new Response(JSON.stringify({ error: 'Nessuna delle iscrizioni selezionate è da fatturare' }), {
+        status: 422,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const results: InvoiceGenerationResult[] = [];
+
+    for (const group of groupInvoiceCandidates(candidates, groupBy)) {
+      try {
+        results.push(await createGroupInvoice(
+          env.DB, service, env.INVOICING_PROVIDER!, auth.clientId, auth.userId, group, vatRate
+        ));
+      } catch (error: any) {
+        console.error('Error creating invoice:', error);
+        const first = group.registrations[0];
+        results.push({
+          customerName: first.companyName || first.studentName,
+          registrationIds: group.registrations.map(r => r.registrationId),
+          error: error.message || 'Errore del provider di fatturazione',
+        });
+      }
+    }
+
+    const created = results.filter(r => r.invoiceId).length;
+
+    return new Response(JSON.stringify({
+      success: created > 0,
+      created,
+      failed: results.length - created,
+      skipped: selected.size - candidates.length,
+      results,
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error generating invoices:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -0,0 +1,96 @@
+/**
+ * API FatturaPA di più fatture
+ * GET /api/invoices/xml?ids=1,2,3 - Archivio ZIP con un XML FatturaPA per fattura
+ *
+ * L'archivio si genera solo se tutte le fatture sono valide: altrimenti 422 con gli
+ * errori di ciascuna.
+ */
+
+import { buildFatturaPAXml, fatturaPAFilename, loadFatturaPADocument, validateFatturaPA } from '../../lib/fatturaPA';
+import type { FatturaPADocument } from '../../lib/fatturaPA';
+import { createZip } from '../../lib/zip';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+}
+
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const ids = [...new Set(
+      (new URL(context.request.url).searchParams.get('ids') || '')
+        .split(',')
+        .map(Number)
+        .filter(id => Number.isInteger(id) && id > 0)
+    )];
+
+    if (ids.length === 0) {
+      return new Response(JSON.stringify({ error: 'Seleziona almeno una fattura' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const documents: FatturaPADocument[] = [];
+    const invalid: { invoiceId: number; number: string | null; errors: string[] }[] = [];
+
+    for (const id of ids) {
+      const doc = await loadFatturaPADocument(context.env.DB, auth.clientId, id);
+      if (!doc) {
+        invalid.push({ invoiceId: id, number: null, errors: ['Fattura non trovata o annullata'] });
+        continue;
+      }
+
+      const errors = validateFatturaPA(doc);
+      if (errors.length > 0) {
+        invalid.push({ invoiceId: id, number: doc.number, errors });
+      } else {
+        documents.push(doc);
+      }
+    }
+
+    if (invalid.length > 0) {
+      return new Response(JSON.stringify({
+        error: `${invalid.length} fatture con dati mancanti per la FatturaPA`,
+        invalid,
+      }), {
+        status: 422,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const zip = createZip(documents.map(doc => ({
+      name: fatturaPAFilename(doc),
+      content: buildFatturaPAXml(doc),
+    })));
+
+    return new Response(zip, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="FatturePA_${new Date().toISOString().split('T')[0]}.zip"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error generating FatturaPA batch:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -0,0 +1,62 @@
+/**
+ * API Incasso
+ * DELETE /api/payments/:id - Elimina un incasso e ricalcola lo stato di pagamento
+ */
+
+import { refreshInvoicePayments, refreshRegistrationPayments } from '../../lib/payments';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+}
+
+// DELETE - Elimina un incasso
+export const onRequestDelete: PagesFunction<Env> = async (context) => {
+  const { env, params } = context;
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const payment = await env.DB.prepare(
+      'SELECT id, invoiceId, registrationId FROM payments WHERE id = ? AND clientId = ?'
+    ).bind(Number(params.id), auth.clientId).first<{ id: number; invoiceId: number | null; registrationId: number | null }>();
+
+    if (!payment) {
+      return new Response(JSON.stringify({ error: 'Incasso non trovato' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    await env.DB.prepare('DELETE FROM payments WHERE id = ?').bind(payment.id).run();
+
+    if (payment.invoiceId) {
+      await refreshInvoicePayments(env.DB, auth.clientId, payment.invoiceId);
+    } else if (payment.registrationId) {
+      await refreshRegistrationPayments(env.DB, auth.clientId, payment.registrationId);
+    }
+
+    return new Response(JSON.stringify({ success: true }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error deleting payment:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -0,0 +1,229 @@
+/**
+ * API Incassi
+ * GET /api/payments - Incassi (filtrabili per invoiceId, registrationId, companyId)
+ * POST /api/payments - Registra un incasso su una fattura o su un'iscrizione non fatturata
+ *
+ * Dopo ogni incasso si ricalcola lo stato di pagamento di fattura e iscrizioni
+ * (vedi functions/lib/payments.ts). Non si accetta più del residuo da incassare.
+ */
+
+import { refreshInvoicePayments, refreshRegistrationPayments } from '../../lib/payments';
+import { PAYMENT_METHOD_LABELS } from '../../../src/lib/payments';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET - Lista incassi
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const url = new URL(request.url);
+  const conditions: string[] = ['p.clientId = ?'];
+  const bindings: any[] = [auth.clientId];
+
+  const invoiceId = url.searchParams.get('invoiceId');
+  if (invoiceId) {
+    // Anche gli acconti delle iscrizioni fatturate contano per la fattura
+    conditions.push(`(p.invoiceId = ? OR (p.invoiceId IS NULL AND p.registrationId IN (
+      SELECT registrationId FROM invoiceLines WHERE invoiceId = ?
+    )))`);
+    bindings.push(Number(invoiceId), Number(invoiceId));
+  }
+
+  const registrationId = url.searchParams.get('registrationId');
+  if (registrationId) {
+    conditions.push('p.registrationId = ?');
+    bindings.push(Number(registrationId));
+  }
+
+  const companyId = url.searchParams.get('companyId');
+  if (companyId) {
+    conditions.push('COALESCE(i.companyId, r.companyId) = ?');
+    bindings.push(Number(companyId));
+  }
+
+  try {
+    const { results } = await env.DB.prepare(`
+      SELECT p.id, p.invoiceId, p.registrationId, p.amount, p.paymentDate, p.method, p.reference, p.notes,
+        p.createdAt, i.number AS invoiceNumber, i.customerName,
+        s.firstName || ' ' || s.lastName AS studentName, c.title AS courseTitle
+      FROM payments p
+      LEFT JOIN invoices i ON i.id = p.invoiceId
+      LEFT JOIN registrations r ON r.id = p.registrationId
+      LEFT JOIN students s ON s.id = r.studentId
+      LEFT JOIN courseEditions ce ON ce.id = r.courseEditionId
+      LEFT JOIN courses c ON c.id = ce.courseId
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY p.paymentDate DESC, p.id DESC
+    `).bind(...bindings).all();
+
+    return new Response(JSON.stringify({ payments: results || [] }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error fetching payments:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+// POST - Registra un incasso
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env } = context;
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const body = await context.request.json() as {
+      invoiceId?: number;
+      registrationId?: number;
+      amount?: number;
+      paymentDate?: string;
+      method?: string;
+      reference?: string;
+      notes?: string;
+    };
+
+    if (!body.invoiceId === !body.registrationId) {
+      return new Response(JSON.stringify({ error: 'Indicare la fattura oppure l\'iscrizione' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!Number.isInteger(body.amount) || body.amount! <= 0) {
+      return new Response(JSON.stringify({ error: 'Importo non valido' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!body.paymentDate || !DATE_PATTERN.test(body.paymentDate)) {
+      return new Response(JSON.stringify({ error: 'Data di pagamento non valida' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const method = body.method || 'bank_transfer';
+    if (!(method in PAYMENT_METHOD_LABELS)) {
+      return new Response(JSON.stringify({ error: 'Metodo di pagamento non valido' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    let balance: number;
+
+    if (body.invoiceId) {
+      const invoice = await env.DB.prepare(`
+        SELECT i.id, i.status, i.totalAmount,
+          COALESCE((SELECT SUM(p.amount) FROM payments p WHERE p.invoiceId = i.id), 0)
+            + COALESCE((SELECT SUM(p.amount) FROM payments p
+              JOIN invoiceLines l ON l.registrationId = p.registrationId AND l.invoiceId = i.id
+              WHERE p.invoiceId IS NULL), 0) AS paidAmount
+        FROM invoices i
+        WHERE i.id = ? AND i.clientId = ?
+      `).bind(body.invoiceId, auth.clientId).first<{ id: number; status: string; totalAmount: number; paidAmount: number }>();
+
+      if (!invoice) {
+        return new Response(JSON.stringify({ error: 'Fattura non trovata' }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (invoice.status === 'cancelled') {
+        return new Response(JSON.stringify({ error: 'La fattura è annullata' }), {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      balance = invoice.totalAmount - invoice.paidAmount;
+    } else {
+      const registration = await env.DB.prepare(`
+        SELECT r.id, r.priceApplied, r.invoiceId,
+          COALESCE((SELECT SUM(p.amount) FROM payments p WHERE p.registrationId = r.id AND p.invoiceId IS NULL), 0) AS paidAmount
+        FROM registrations r
+        WHERE r.id = ? AND r.clientId = ?
+      `).bind(body.registrationId, auth.clientId).first<{ id: number; priceApplied: number | null; invoiceId: string | null; paidAmount: number }>();
+
+      if (!registration) {
+        return new Response(JSON.stringify({ error: 'Iscrizione non trovata' }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (registration.invoiceId) {
+        return new Response(JSON.stringify({ error: 'L\'iscrizione è già fatturata: registrare l\'incasso sulla fattura' }), {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      balance = (registration.priceApplied || 0) - registration.paidAmount;
+    }
+
+    if (body.amount! > balance) {
+      return new Response(JSON.stringify({ error: 'L\'importo supera il residuo da incassare', balance }), {
+        status: 422,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const payment = await env.DB.prepare(`
+      INSERT INTO payments (clientId, invoiceId, registrationId, amount, paymentDate, method, reference, notes, createdBy, createdAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      RETURNING id, invoiceId, registrationId, amount, paymentDate, method, reference, notes, createdAt
+    `).bind(
+      auth.clientId, body.invoiceId || null, body.registrationId || null, body.amount, body.paymentDate,
+      method, body.reference?.trim() || null, body.notes?.trim() || null, auth.userId || null, new Date().toISOString()
+    ).first();
+
+    if (body.invoiceId) {
+      await refreshInvoicePayments(env.DB, auth.clientId, body.invoiceId);
+    } else {
+      await refreshRegistrationPayments(env.DB, auth.clientId, body.registrationId!);
+    }
+
+    return new Response(JSON.stringify(payment), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error creating payment:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
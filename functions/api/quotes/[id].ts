@@ -0,0 +1,211 @@
+/**
+ * API Preventivo
+ * GET /api/quotes/:id - Preventivo con le righe
+ * PUT /api/quotes/:id - Modifica la bozza ({ validUntil, notes, lines }) oppure cambia stato ({ status })
+ * DELETE /api/quotes/:id - Annulla un preventivo non accettato (il numero resta assegnato)
+ *
+ * Le transizioni consentite sono in src/lib/quotes.ts: solo la bozza si modifica e
+ * un preventivo accettato non torna indietro (le sue iscrizioni ne conservano i prezzi).
+ */
+
+import { expireQuotes, loadQuote, prepareQuoteLines, replaceQuoteLines } from '../../lib/quotes';
+import { canTransitionQuote, QUOTE_STATUS_LABELS } from '../../../src/lib/quotes';
+import type { QuoteLineInput, QuoteStatus } from '../../../src/lib/quotes';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET - Preventivo con le righe
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, params } = context;
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    await expireQuotes(env.DB, auth.clientId);
+    const quote = await loadQuote(env.DB, auth.clientId, Number(params.id));
+
+    if (!quote) {
+      return new Response(JSON.stringify({ error: 'Preventivo non trovato' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify(quote), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error fetching quote:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+// PUT - Modifica la bozza o cambia stato
+export const onRequestPut: PagesFunction<Env> = async (context) => {
+  const { env, params } = context;
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    await expireQuotes(env.DB, auth.clientId);
+    const quote = await loadQuote(env.DB, auth.clientId, Number(params.id));
+
+    if (!quote) {
+      return new Response(JSON.stringify({ error: 'Preventivo non trovato' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const body = await context.request.json() as {
+      status?: QuoteStatus;
+      validUntil?: string | null;
+      notes?: string | null;
+      lines?: QuoteLineInput[];
+    };
+    const now = new Date().toISOString();
+
+    if (body.status !== undefined) {
+      if (!(body.status in QUOTE_STATUS_LABELS) || !canTransitionQuote(quote.status, body.status)) {
+        return new Response(JSON.stringify({
+          error: `Un preventivo ${QUOTE_STATUS_LABELS[quote.status].toLowerCase()} non può passare a questo stato`,
+        }), {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Tornando in bozza si azzerano invio e risposta
+      await env.DB.prepare(`
+        UPDATE quotes SET status = ?, sentAt = ?, respondedAt = ?, updatedAt = ? WHERE id = ?
+      `).bind(
+        body.status,
+        body.status === 'draft' ? null : body.status === 'sent' ? now : quote.sentAt,
+        body.status === 'accepted' || body.status === 'rejected' ? now : null,
+        now,
+        quote.id
+      ).run();
+    } else {
+      if (quote.status !== 'draft') {
+        return new Response(JSON.stringify({ error: 'Si possono modificare solo i preventivi in bozza' }), {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      const validUntil = body.validUntil === undefined ? quote.validUntil : body.validUntil;
+      if (validUntil && !DATE_PATTERN.test(validUntil)) {
+        return new Response(JSON.stringify({ error: 'Data di validità non valida' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (body.lines) {
+        const prepared = await prepareQuoteLines(env.DB, auth.clientId, quote.companyId, body.lines);
+        if ('error' in prepared) {
+          return new Response(JSON.stringify({ error: prepared.error }), {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' },
+          });
+        }
+        await replaceQuoteLines(env.DB, auth.clientId, quote.id, prepared.lines);
+      }
+
+      await env.DB.prepare(
+        'UPDATE quotes SET validUntil = ?, notes = ?, updatedAt = ? WHERE id = ?'
+      ).bind(
+        validUntil || null,
+        body.notes === undefined ? quote.notes : body.notes?.trim() || null,
+        now,
+        quote.id
+      ).run();
+    }
+
+    return new Response(JSON.stringify(await loadQuote(env.DB, auth.clientId, quote.id)), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error updating quote:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+// DELETE - Annulla un preventivo non accettato
+export const onRequestDelete: PagesFunction<Env> = async (context) => {
+  const { env, params } = context;
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const quote = await env.DB.prepare(
+      'SELECT id, status FROM quotes WHERE id = ? AND clientId = ?'
+    ).bind(Number(params.id), auth.clientId).first<{ id: number; status: QuoteStatus }>();
+
+    if (!quote) {
+      return new Response(JSON.stringify({ error: 'Preventivo non trovato' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (quote.status === 'accepted' || quote.status === 'cancelled') {
+      return new Response(JSON.stringify({ error: `Un preventivo ${QUOTE_STATUS_LABELS[quote.status].toLowerCase()} non si può annullare` }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Annullato, non eliminato: il numero resta assegnato e non viene riusato
+    await env.DB.prepare("UPDATE quotes SET status = 'cancelled', updatedAt = ? WHERE id = ?")
+      .bind(new Date().toISOString(), quote.id).run();
+
+    return new Response(JSON.stringify({ success: true }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error cancelling quote:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -0,0 +1,226 @@
+/**
+ * API Conversione preventivo
+ * POST /api/quotes/:id/convert - Iscrive i lavoratori del preventivo accettato alle edizioni scelte
+ *
+ * Body: { assignments: [{ lineId, editionId, studentIds }], prerequisiteOverrideReason? }
+ * Ogni iscrizione ha il prezzo della riga (priceSource 'quote') e ne conserva il
+ * riferimento in quoteLineId. Per riga non si superano i lavoratori preventivati; come
+ * nell'iscrizione massiva ogni studente ha il proprio esito.
+ */
+
+import { recomputeRegistrationAttendance } from '../../../lib/attendancePercent';
+import { recordAudit } from '../../../lib/audit';
+import { loadQuote } from '../../../lib/quotes';
+import {
+  describeMissingPrerequisites,
+  findMissingPrerequisites,
+  loadPrerequisiteChain,
+  parsePrerequisiteOverride,
+  PREREQUISITE_ERROR_CODE,
+} from '../../../lib/prerequisites';
+import type { QuoteConversionResult } from '../../../../src/lib/quotes';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+  isClientAdmin?: boolean;
+}
+
+interface ConversionRequest {
+  assignments?: { lineId: number; editionId: number; studentIds: number[] }[];
+  prerequisiteOverrideReason?: string;
+}
+
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { request, env, params } = context;
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const quote = await loadQuote(env.DB, auth.clientId, Number(params.id));
+
+    if (!quote) {
+      return new Response(JSON.stringify({ error: 'Preventivo non trovato' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (quote.status !== 'accepted') {
+      return new Response(JSON.stringify({ error: 'Si possono convertire solo i preventivi accettati' }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const body = await request.json() as ConversionRequest;
+    const assignments = (body.assignments || []).filter(a => Array.isArray(a.studentIds) && a.studentIds.length > 0);
+
+    if (assignments.length === 0) {
+      return new Response(JSON.stringify({ error: 'Scegli edizione e lavoratori da iscrivere' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const parsedOverride = parsePrerequisiteOverride(auth, body.prerequisiteOverrideReason);
+    if ('error' in parsedOverride) {
+      return new Response(JSON.stringify({ error: parsedOverride.error }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    const { override } = parsedOverride;
+
+    const results: QuoteConversionResult[] = [];
+    // Lavoratori ancora da iscrivere per riga e posti liberi per edizione: più assegnazioni
+    // possono usare la stessa riga o la stessa edizione
+    const remainingByLine = new Map(quote.lines.map(l => [l.id, l.workers - l.convertedCount]));
+    const seatsByEdition = new Map<number, number>();
+
+    for (const assignment of assignments) {
+      const line = quote.lines.find(l => l.id === Number(assignment.lineId));
+      const studentIds = Array.from(new Set(assignment.studentIds.map(Number).filter(id => !isNaN(id))));
+
+      if (!line) {
+        return new Response(JSON.stringify({ error: 'Riga del preventivo non trovata' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      const edition = await env.DB.prepare(`
+        SELECT id, courseId, maxParticipants,
+          (SELECT COUNT(*) FROM registrations r WHERE r.courseEditionId = courseEditions.id AND r.status = 'confirmed') AS enrolled
+        FROM courseEditions
+        WHERE id = ? AND clientId = ? AND status != 'cancelled'
+      `).bind(Number(assignment.editionId), auth.clientId).first<{ id: number; courseId: number; maxParticipants: number; enrolled: number }>();
+
+      if (!edition || edition.courseId !== line.courseId) {
+        return new Response(JSON.stringify({ error: `Edizione non valida per il corso ${line.courseTitle}` }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      const prerequisites = await loadPrerequisiteChain(env.DB, auth.clientId, edition.courseId);
+      let available = remainingByLine.get(line.id)!;
+      let seats = seatsByEdition.get(edition.id) ?? edition.maxParticipants - edition.enrolled;
+
+      for (const studentId of studentIds) {
+        const result: QuoteConversionResult = { lineId: line.id, studentId };
+        results.push(result);
+
+        if (available <= 0) {
+          result.error = 'Raggiunto il numero di lavoratori del preventivo';
+          continue;
+        }
+
+        if (seats <= 0) {
+          result.error = 'Edizione al completo';
+          continue;
+        }
+
+        const student = await env.DB.prepare(
+          'SELECT id, companyId, isActive FROM students WHERE id = ? AND clientId = ?'
+        ).bind(studentId, auth.clientId).first<{ id: number; companyId: number | null; isActive: number }>();
+
+        if (!student || student.companyId !== quote.companyId) {
+          result.error = 'Lo studente non è un lavoratore dell\'azienda del preventivo';
+          continue;
+        }
+
+        if (!student.isActive) {
+          result.error = 'Studente disattivato';
+          continue;
+        }
+
+        const existing = await env.DB.prepare(
+          'SELECT id FROM registrations WHERE studentId = ? AND courseEditionId = ?'
+        ).bind(studentId, edition.id).first();
+
+        if (existing) {
+          result.error = 'Studente già iscritto';
+          continue;
+        }
+
+        const missing = await findMissingPrerequisites(env.DB, auth.clientId, studentId, prerequisites);
+        if (missing.length > 0 && !override) {
+          result.error = describeMissingPrerequisites(missing);
+          result.code = PREREQUISITE_ERROR_CODE;
+          continue;
+        }
+
+        const applyOverride = missing.length > 0 && override;
+        const now = new Date().toISOString();
+        const registration = await env.DB.prepare(`
+          INSERT INTO registrations (
+            clientId, studentId, courseEditionId, companyId, registrationDate, status, priceApplied, priceSource,
+            quoteLineId, prerequisiteOverrideReason, prerequisiteOverrideBy, prerequisiteOverrideByEmail, prerequisiteOverrideAt, createdAt, updatedAt
+          )
+          VALUES (?, ?, ?, ?, ?, 'confirmed', ?, 'quote', ?, ?, ?, ?, ?, ?, ?)
+          RETURNING *
+        `).bind(
+          auth.clientId,
+          studentId,
+          edition.id,
+          quote.companyId,
+          now,
+          line.unitPrice,
+          line.id,
+          applyOverride ? override.reason : null,
+          applyOverride ? override.userId : null,
+          applyOverride ? override.userEmail : null,
+          applyOverride ? override.at : null,
+          now,
+          now
+        ).first<{ id: number }>();
+
+        await recomputeRegistrationAttendance(env.DB, registration!.id);
+
+        await recordAudit(env.DB, request, auth, {
+          entityType: 'registration',
+          entityId: registration!.id,
+          action: 'create',
+          after: registration,
+        });
+
+        result.registrationId = registration!.id;
+        available--;
+        seats--;
+      }
+
+      remainingByLine.set(line.id, available);
+      seatsByEdition.set(edition.id, seats);
+    }
+
+    const successCount = results.filter(r => r.registrationId).length;
+
+    return new Response(JSON.stringify({
+      successCount,
+      failedCount: results.length - successCount,
+      results,
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Quote conversion error:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
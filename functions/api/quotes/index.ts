@@ -0,0 +1,178 @@
+/**
+ * API Preventivi
+ * GET /api/quotes - Lista preventivi (status, companyId, paginata)
+ * POST /api/quotes - Nuovo preventivo in bozza ({ companyId, validUntil, notes, lines })
+ *
+ * Le righe senza prezzo ricevono quello suggerito: listino azienda dell'edizione o
+ * prezzo del corso (vedi functions/lib/quotes.ts).
+ */
+
+import { expireQuotes, insertQuote, prepareQuoteLines, replaceQuoteLines } from '../../lib/quotes';
+import { DEFAULT_QUOTE_VALIDITY_DAYS, QUOTE_STATUS_LABELS } from '../../../src/lib/quotes';
+import type { QuoteLineInput } from '../../../src/lib/quotes';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET - Lista preventivi
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const url = new URL(request.url);
+  const page = Math.max(parseInt(url.searchParams.get('page') || '1') || 1, 1);
+  const pageSize = Math.min(parseInt(url.searchParams.get('pageSize') || '20') || 20, 100);
+  const offset = (page - 1) * pageSize;
+
+  const conditions: string[] = ['q.clientId = ?'];
+  const bindings: any[] = [auth.clientId];
+
+  const status = url.searchParams.get('status');
+  if (status) {
+    if (!(status in QUOTE_STATUS_LABELS)) {
+      return new Response(JSON.stringify({ error: 'Stato non valido' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    conditions.push('q.status = ?');
+    bindings.push(status);
+  }
+
+  const companyId = url.searchParams.get('companyId');
+  if (companyId) {
+    conditions.push('q.companyId = ?');
+    bindings.push(Number(companyId));
+  }
+
+  const where = conditions.join(' AND ');
+
+  try {
+    await expireQuotes(env.DB, auth.clientId);
+
+    const countResult = await env.DB.prepare(
+      `SELECT COUNT(*) AS total FROM quotes q WHERE ${where}`
+    ).bind(...bindings).first<{ total: number }>();
+    const total = countResult?.total || 0;
+
+    const { results } = await env.DB.prepare(`
+      SELECT q.id, q.companyId, co.name AS companyName, q.number, q.date, q.validUntil, q.status, q.notes,
+        q.totalAmount, q.sentAt, q.respondedAt, q.createdAt, q.updatedAt,
+        (SELECT COUNT(*) FROM quoteLines l WHERE l.quoteId = q.id) AS linesCount
+      FROM quotes q
+      JOIN companies co ON co.id = q.companyId
+      WHERE ${where}
+      ORDER BY q.date DESC, q.id DESC
+      LIMIT ? OFFSET ?
+    `).bind(...bindings, pageSize, offset).all();
+
+    return new Response(JSON.stringify({
+      data: results || [],
+      page,
+      pageSize,
+      total,
+      totalPages: Math.ceil(total / pageSize),
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error fetching quotes:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+// POST - Nuovo preventivo
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env } = context;
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const body = await context.request.json() as {
+      companyId?: number;
+      validUntil?: string | null;
+      notes?: string | null;
+      lines?: QuoteLineInput[];
+    };
+
+    const company = await env.DB.prepare(
+      'SELECT id FROM companies WHERE id = ? AND clientId = ?'
+    ).bind(Number(body.companyId), auth.clientId).first();
+
+    if (!company) {
+      return new Response(JSON.stringify({ error: 'Azienda non trovata' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const today = new Date();
+    const date = today.toISOString().split('T')[0];
+    const validUntil = body.validUntil === undefined
+      ? new Date(today.getTime() + DEFAULT_QUOTE_VALIDITY_DAYS * 86400000).toISOString().split('T')[0]
+      : body.validUntil;
+
+    if (validUntil && (!DATE_PATTERN.test(validUntil) || validUntil < date)) {
+      return new Response(JSON.stringify({ error: 'Data di validità non valida' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const prepared = await prepareQuoteLines(env.DB, auth.clientId, Number(body.companyId), body.lines || []);
+    if ('error' in prepared) {
+      return new Response(JSON.stringify({ error: prepared.error }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const quote = await insertQuote(env.DB, auth.clientId, {
+      companyId: Number(body.companyId),
+      date,
+      validUntil: validUntil || null,
+      notes: body.notes?.trim() || null,
+      createdBy: auth.userId || null,
+    });
+
+    await replaceQuoteLines(env.DB, auth.clientId, quote.id, prepared.lines);
+
+    return new Response(JSON.stringify({ id: quote.id, number: quote.number }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error creating quote:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
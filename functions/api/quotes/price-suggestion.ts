@@ -0,0 +1,63 @@
+/**
+ * API Prezzo suggerito per una riga di preventivo
+ * GET /api/quotes/price-suggestion?companyId=&courseId=&editionId= - { price, source }
+ */
+
+import { suggestQuotePrice } from '../../lib/quotes';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+}
+
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const url = new URL(request.url);
+  const companyId = Number(url.searchParams.get('companyId'));
+  const courseId = Number(url.searchParams.get('courseId'));
+  const editionId = url.searchParams.get('editionId') ? Number(url.searchParams.get('editionId')) : null;
+
+  if (!companyId || !courseId) {
+    return new Response(JSON.stringify({ error: 'Azienda e corso sono obbligatori' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const suggested = await suggestQuotePrice(env.DB, auth.clientId, companyId, courseId, editionId);
+
+    if (!suggested) {
+      return new Response(JSON.stringify({ error: 'Corso non trovato' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify(suggested), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error suggesting quote price:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -8,6 +8,9 @@
 import { drizzle } from 'drizzle-orm/d1';
 import { eq, and } from 'drizzle-orm';
 import * as schema from '../../../drizzle/schema';
+import { revokeCertificate } from '../../lib/certificates';
+import { recordAudit } from '../../lib/audit';
+import { isRegisterClosed, REGISTER_CLOSED_ERROR } from '../../lib/attendanceRegister';
 
 interface Env {
   DB: D1Database;
@@ -113,8 +116,9 @@ export const onRequestPut: PagesFunction<Env> = async (context) => {
     if (body.certificateDate !== undefined) {
       updateData.certificateDate = body.certificateDate;
     }
-    if (body.priceApplied !== undefined) {
+    if (body.priceApplied !== undefined && body.priceApplied !== existing[0].priceApplied) {
       updateData.priceApplied = body.priceApplied;
+      updateData.priceSource = 'manual';
     }
     if (body.notes !== undefined) {
       updateData.notes = body.notes;
@@ -129,6 +133,19 @@ export const onRequestPut: PagesFunction<Env> = async (context) => {
       .where(eq(schema.registrations.id, registrationId))
       .returning();
 
+    await recordAudit(env.DB, request, auth, {
+      entityType: 'registration',
+      entityId: registrationId,
+      action: 'update',
+      before: existing[0],
+      after: result[0],
+    });
+
+    // L'attestato non è più valido se l'iscrizione esce dallo stato 'completed'
+    if (existing[0].status === 'completed' && body.status !== undefined && body.status !== 'completed') {
+      await revokeCertificate(env.DB, auth.clientId, registrationId);
+    }
+
     return new Response(JSON.stringify({
       success: true,
       data: result[0] || {},
@@ -148,7 +165,7 @@ export const onRequestPut: PagesFunction<Env> = async (context) => {
 
 // DELETE - Elimina iscrizione
 export const onRequestDelete: PagesFunction<Env> = async (context) => {
-  const { env, params } = context;
+  const { env, params, request } = context;
   const auth = context.data.auth as AuthContext;
   const registrationId = parseInt(params.id as string);
 
@@ -180,10 +197,25 @@ export const onRequestDelete: PagesFunction<Env> = async (context) => {
       });
     }
 
+    // Le presenze dell'iscrizione verrebbero eliminate in cascata
+    if (await isRegisterClosed(env.DB, auth.clientId, existing[0].courseEditionId)) {
+      return new Response(JSON.stringify({ error: REGISTER_CLOSED_ERROR }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
     // Elimina l'iscrizione
     await db.delete(schema.registrations)
       .where(eq(schema.registrations.id, registrationId));
 
+    await recordAudit(env.DB, request, auth, {
+      entityType: 'registration',
+      entityId: registrationId,
+      action: 'delete',
+      before: existing[0],
+    });
+
     return new Response(JSON.stringify({
       success: true,
       message: 'Iscrizione eliminata',
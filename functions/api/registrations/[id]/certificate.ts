@@ -0,0 +1,137 @@
+/**
+ * API Attestato per iscrizione
+ * GET /api/registrations/:id/certificate - Scarica il PDF dell'attestato emesso
+ * POST /api/registrations/:id/certificate - Emette l'attestato (idempotente)
+ */
+
+import { loadBranding } from '../../../lib/branding';
+import { getCertificateByRegistration, issueCertificate, signVerificationCode } from '../../../lib/certificates';
+import { renderCertificatePdf } from '../../../lib/certificatePdf';
+
+interface Env {
+  DB: D1Database;
+  CERTIFICATE_SECRET: string;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+}
+
+// GET - Scarica PDF attestato
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, params } = context;
+  const auth = context.data.auth as AuthContext;
+  const registrationId = parseInt(params.id as string);
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (isNaN(registrationId)) {
+    return new Response(JSON.stringify({ error: 'ID non valido' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (!env.CERTIFICATE_SECRET) {
+    return new Response(JSON.stringify({ error: 'CERTIFICATE_SECRET non configurato' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const certificate = await getCertificateByRegistration(env.DB, auth.clientId, registrationId);
+
+    if (!certificate) {
+      return new Response(JSON.stringify({ error: 'Attestato non ancora emesso' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (certificate.revokedAt) {
+      return new Response(JSON.stringify({ error: 'Attestato revocato' }), {
+        status: 410,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const code = await signVerificationCode(certificate.verificationToken!, env.CERTIFICATE_SECRET);
+    const verificationUrl = `${new URL(context.request.url).origin}/verifica/${code}`;
+    const pdf = renderCertificatePdf(certificate, verificationUrl, await loadBranding(env.DB, auth.clientId));
+    const filename = `Attestato_${certificate.certificateNumber.replace('/', '-')}.pdf`;
+
+    return new Response(pdf, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+
+  } catch (error: any) {
+    console.error('Download certificate error:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+// POST - Emetti attestato
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { request, env, params } = context;
+  const auth = context.data.auth as AuthContext;
+  const registrationId = parseInt(params.id as string);
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (isNaN(registrationId)) {
+    return new Response(JSON.stringify({ error: 'ID non valido' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const result = await issueCertificate(env.DB, request, auth, registrationId);
+
+    if ('error' in result) {
+      return new Response(JSON.stringify({ error: result.error }), {
+        status: result.status,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { payload, verificationToken, ...certificate } = result.certificate;
+
+    return new Response(JSON.stringify({
+      success: true,
+      created: result.created,
+      data: certificate,
+    }), {
+      status: result.created ? 201 : 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error: any) {
+    console.error('Issue certificate error:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server', message: error.message }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -0,0 +1,109 @@
+/**
+ * API Piano di recupero di un'iscrizione
+ * GET /api/registrations/:id/recovery - Moduli persi, sessioni proposte e recuperi pianificati
+ * POST /api/registrations/:id/recovery - { sessionIds } iscrive l'allievo come "recupero" alle sessioni scelte
+ */
+
+import { isRegisterClosed, REGISTER_CLOSED_ERROR } from '../../../lib/attendanceRegister';
+import { recordAudit } from '../../../lib/audit';
+import { enrollRecovery, loadRecoveryPlan } from '../../../lib/recovery';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+}
+
+export const onRequest: PagesFunction<Env> = async (context) => {
+  const { env, params, request } = context;
+  const auth = context.data.auth as AuthContext;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (request.method !== 'GET' && request.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Metodo non supportato' }), {
+      status: 405,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const registrationId = parseInt(params.id as string);
+  if (isNaN(registrationId)) {
+    return new Response(JSON.stringify({ error: 'ID non valido' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const plan = await loadRecoveryPlan(env.DB, auth.clientId, registrationId);
+    if (!plan) {
+      return new Response(JSON.stringify({ error: 'Iscrizione non trovata' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (request.method === 'GET') {
+      return new Response(JSON.stringify(plan), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Le ore recuperate entrano nella frequenza dell'edizione originale: a registro chiuso niente recuperi
+    if (await isRegisterClosed(env.DB, auth.clientId, plan.editionId)) {
+      return new Response(JSON.stringify({ error: REGISTER_CLOSED_ERROR }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const body = await request.json() as { sessionIds?: number[] };
+    const sessionIds = (body.sessionIds || []).map(Number).filter(id => !isNaN(id));
+
+    const result = await enrollRecovery(env.DB, auth, plan, sessionIds);
+    if ('error' in result) {
+      return new Response(JSON.stringify({ error: result.error }), {
+        status: result.status,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    for (const enrollment of result.data) {
+      await recordAudit(env.DB, request, auth, {
+        entityType: 'registration',
+        entityId: registrationId,
+        action: 'update',
+        before: { studentId: plan.studentId, courseEditionId: plan.editionId, recoverySessionId: null },
+        after: {
+          studentId: plan.studentId,
+          courseEditionId: plan.editionId,
+          recoverySessionId: enrollment.sessionId,
+          recoveryStatus: enrollment.status,
+        },
+      });
+    }
+
+    return new Response(JSON.stringify({ success: true, data: result.data }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Recovery plan error:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -0,0 +1,144 @@
+/**
+ * API Singolo recupero di un'iscrizione
+ * PUT /api/registrations/:id/recovery/:enrollmentId - { status, hoursRecovered?, notes? } esito del recupero
+ * DELETE /api/registrations/:id/recovery/:enrollmentId - Annulla un recupero ancora da svolgere
+ */
+
+import { isRegisterClosed, REGISTER_CLOSED_ERROR } from '../../../../lib/attendanceRegister';
+import { recordAudit } from '../../../../lib/audit';
+import { cancelRecovery, loadRecoveryPlan, recordRecoveryOutcome } from '../../../../lib/recovery';
+import type { RecoveryEnrollment, RecoveryPlan, RecoveryStatus } from '../../../../lib/recovery';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+}
+
+const STATUSES: RecoveryStatus[] = ['planned', 'attended', 'absent'];
+
+// Il recupero compare nello storico dell'iscrizione originale
+function auditRecord(plan: RecoveryPlan, enrollment: RecoveryEnrollment | null) {
+  return {
+    studentId: plan.studentId,
+    courseEditionId: plan.editionId,
+    recoverySessionId: enrollment?.sessionId ?? null,
+    recoveryStatus: enrollment?.status ?? null,
+    recoveryHours: enrollment?.hoursRecovered ?? null,
+  };
+}
+
+export const onRequest: PagesFunction<Env> = async (context) => {
+  const { env, params, request } = context;
+  const auth = context.data.auth as AuthContext;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (request.method !== 'PUT' && request.method !== 'DELETE') {
+    return new Response(JSON.stringify({ error: 'Metodo non supportato' }), {
+      status: 405,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const registrationId = parseInt(params.id as string);
+  const enrollmentId = parseInt(params.enrollmentId as string);
+  if (isNaN(registrationId) || isNaN(enrollmentId)) {
+    return new Response(JSON.stringify({ error: 'ID non valido' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const plan = await loadRecoveryPlan(env.DB, auth.clientId, registrationId);
+    const enrollment = plan?.enrollments.find(e => e.id === enrollmentId);
+    if (!plan || !enrollment) {
+      return new Response(JSON.stringify({ error: 'Recupero non trovato' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Esito e annullamento cambiano le ore riconosciute sull'iscrizione originale
+    if (await isRegisterClosed(env.DB, auth.clientId, plan.editionId)) {
+      return new Response(JSON.stringify({ error: REGISTER_CLOSED_ERROR }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (request.method === 'DELETE') {
+      if (enrollment.status !== 'planned') {
+        return new Response(JSON.stringify({ error: 'Il recupero ha già un esito: registra l\'assenza invece di annullarlo' }), {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      await cancelRecovery(env.DB, enrollmentId);
+
+      await recordAudit(env.DB, request, auth, {
+        entityType: 'registration',
+        entityId: registrationId,
+        action: 'update',
+        before: auditRecord(plan, enrollment),
+        after: auditRecord(plan, null),
+      });
+
+      return new Response(JSON.stringify({ success: true }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const body = await request.json() as { status?: RecoveryStatus; hoursRecovered?: number; notes?: string | null };
+    if (!body.status || !STATUSES.includes(body.status)) {
+      return new Response(JSON.stringify({ error: 'Esito del recupero non valido' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    if (body.hoursRecovered !== undefined && (typeof body.hoursRecovered !== 'number' || body.hoursRecovered < 0)) {
+      return new Response(JSON.stringify({ error: 'Ore recuperate non valide' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const updated = await recordRecoveryOutcome(env.DB, plan, enrollment, {
+      status: body.status,
+      hoursRecovered: body.hoursRecovered,
+      notes: body.notes,
+    });
+
+    await recordAudit(env.DB, request, auth, {
+      entityType: 'registration',
+      entityId: registrationId,
+      action: 'update',
+      before: auditRecord(plan, enrollment),
+      after: auditRecord(plan, updated),
+    });
+
+    return new Response(JSON.stringify({ success: true, data: updated }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Recovery enrollment error:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -1,130 +1,182 @@
 /**
- * API Endpoint: Bulk Registration
- * POST /api/registrations/bulk
- * 
- * Handles massive enrollment of students to a course edition.
+ * API Registrations - Iscrizione massiva
+ * POST /api/registrations/bulk - Iscrive più studenti a un'edizione
+ *
+ * Ogni studente ha il proprio esito (iscritto, già iscritto, prerequisito mancante...):
+ * un errore su uno studente non blocca gli altri.
  */
 
-import { Router } from 'itty-router';
-import type { IRequest } from 'itty-router';
-import { DrizzleD1Database } from 'drizzle-orm/d1';
-import { getDb } from '../../db';
-import * as schema from '../../../drizzle/schema';
-import { eq, and, inArray } from 'drizzle-orm';
+import { recomputeRegistrationAttendance } from '../../lib/attendancePercent';
+import { recordAudit } from '../../lib/audit';
+import { resolveRegistrationPrice } from '../../lib/pricing';
+import {
+  describeMissingPrerequisites,
+  findMissingPrerequisites,
+  loadPrerequisiteChain,
+  parsePrerequisiteOverride,
+  PREREQUISITE_ERROR_CODE,
+} from '../../lib/prerequisites';
+import type { MissingPrerequisite } from '../../lib/prerequisites';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+  isClientAdmin?: boolean;
+}
 
 interface BulkRegistrationRequest {
   courseEditionId: number;
   studentIds: number[];
+  prerequisiteOverrideReason?: string;
 }
 
-interface Env {
-  RESEND_API_KEY: string;
-  DB: D1Database;
-  KV: KVNamespace;
+interface BulkRegistrationResult {
+  studentId: number;
+  registrationId?: number;
+  error?: string;
+  code?: string;
+  missing?: MissingPrerequisite[];
+  prerequisiteOverride?: boolean;
 }
 
-const router = Router();
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { request, env } = context;
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
 
-/**
- * POST /api/registrations/bulk
- * Create multiple registrations
- */
-router.post('/api/registrations/bulk', async (request: IRequest, env: Env) => {
-  const db: DrizzleD1Database<typeof schema> = getDb(env.DB);
-  
   try {
-    // Verify authentication (simplified for example)
-    const authHeader = request.headers.get('Authorization');
-    if (!authHeader?.startsWith('Bearer ')) {
-      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
-        status: 401,
+    const body = await request.json() as BulkRegistrationRequest;
+    const studentIds = Array.from(new Set((body.studentIds || []).map(Number).filter(id => !isNaN(id))));
+
+    if (!body.courseEditionId || studentIds.length === 0) {
+      return new Response(JSON.stringify({ error: 'Edizione e studenti sono obbligatori' }), {
+        status: 400,
         headers: { 'Content-Type': 'application/json' },
       });
     }
 
-    const body: BulkRegistrationRequest = await request.json();
-    const { courseEditionId, studentIds } = body;
-
-    if (!courseEditionId || !studentIds || studentIds.length === 0) {
-      return new Response(
-        JSON.stringify({ error: 'Missing required fields: courseEditionId and studentIds' }),
-        { status: 400, headers: { 'Content-Type': 'application/json' } }
-      );
+    const parsedOverride = parsePrerequisiteOverride(auth, body.prerequisiteOverrideReason);
+    if ('error' in parsedOverride) {
+      return new Response(JSON.stringify({ error: parsedOverride.error }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' },
+      });
     }
+    const { override } = parsedOverride;
 
-    // Get client ID from token (assuming this is handled by middleware or token parsing)
-    // For now, we'll use a placeholder
-    const clientId = 1; 
-
-    // 1. Get Edition and Course details
-    const edition = await db.query.courseEditions.findFirst({
-      where: eq(schema.courseEditions.id, courseEditionId),
-      with: {
-        course: true,
-      },
-    });
+    const edition = await env.DB.prepare(
+      'SELECT id, courseId FROM courseEditions WHERE id = ? AND clientId = ?'
+    ).bind(body.courseEditionId, auth.clientId).first<{ id: number; courseId: number }>();
 
     if (!edition) {
-      return new Response(
-        JSON.stringify({ error: 'Course Edition not found' }),
-        { status: 404, headers: { 'Content-Type': 'application/json' } }
-      );
+      return new Response(JSON.stringify({ error: 'Edizione non trovata' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
     }
 
-    // 2. Check for existing registrations to avoid duplicates
-    const existingRegistrations = await db.query.registrations.findMany({
-      where: and(
-        eq(schema.registrations.courseEditionId, courseEditionId),
-        inArray(schema.registrations.studentId, studentIds)
-      ),
-      columns: {
-        studentId: true,
-      },
-    });
-
-    const existingStudentIds = new Set(existingRegistrations.map(reg => reg.studentId));
-    const studentsToRegister = studentIds.filter(id => !existingStudentIds.has(id));
-
-    let successCount = 0;
-    let failedCount = studentIds.length - studentsToRegister.length; // Already registered students
-
-    // 3. Perform bulk insert
-    if (studentsToRegister.length > 0) {
-      const registrationsToInsert = studentsToRegister.map(studentId => ({
-        clientId,
+    const prerequisites = await loadPrerequisiteChain(env.DB, auth.clientId, edition.courseId);
+    const results: BulkRegistrationResult[] = [];
+
+    for (const studentId of studentIds) {
+      const student = await env.DB.prepare(
+        'SELECT id, companyId, isActive FROM students WHERE id = ? AND clientId = ?'
+      ).bind(studentId, auth.clientId).first<{ id: number; companyId: number | null; isActive: number }>();
+
+      if (!student) {
+        results.push({ studentId, error: 'Studente non trovato' });
+        continue;
+      }
+
+      if (!student.isActive) {
+        results.push({ studentId, error: 'Studente disattivato' });
+        continue;
+      }
+
+      const existing = await env.DB.prepare(
+        'SELECT id FROM registrations WHERE studentId = ? AND courseEditionId = ?'
+      ).bind(studentId, edition.id).first();
+
+      if (existing) {
+        results.push({ studentId, error: 'Studente già iscritto' });
+        continue;
+      }
+
+      const missing = await findMissingPrerequisites(env.DB, auth.clientId, studentId, prerequisites);
+      if (missing.length > 0 && !override) {
+        results.push({ studentId, error: describeMissingPrerequisites(missing), code: PREREQUISITE_ERROR_CODE, missing });
+        continue;
+      }
+
+      const applyOverride = missing.length > 0 && override;
+      const resolvedPrice = await resolveRegistrationPrice(env.DB, auth.clientId, {
+        editionId: edition.id,
         studentId,
-        courseEditionId,
-        companyId: null, // Will be updated later or derived from student data
-        registrationDate: new Date().toISOString(),
-        status: 'confirmed' as const,
-        priceApplied: edition.price,
-      }));
-
-      // Drizzle D1 bulk insert
-      const insertResult = await db.insert(schema.registrations).values(registrationsToInsert).run();
-      
-      // D1 returns { success: true, meta: { changes: number } }
-      successCount += insertResult.meta.changes;
+        companyId: student.companyId,
+      });
+      const now = new Date().toISOString();
+      const registration = await env.DB.prepare(`
+        INSERT INTO registrations (
+          clientId, studentId, courseEditionId, companyId, registrationDate, status, priceApplied, priceSource,
+          prerequisiteOverrideReason, prerequisiteOverrideBy, prerequisiteOverrideByEmail, prerequisiteOverrideAt, createdAt, updatedAt
+        )
+        VALUES (?, ?, ?, ?, ?, 'confirmed', ?, ?, ?, ?, ?, ?, ?, ?)
+        RETURNING *
+      `).bind(
+        auth.clientId,
+        studentId,
+        edition.id,
+        student.companyId,
+        now,
+        resolvedPrice.price,
+        resolvedPrice.source,
+        applyOverride ? override.reason : null,
+        applyOverride ? override.userId : null,
+        applyOverride ? override.userEmail : null,
+        applyOverride ? override.at : null,
+        now,
+        now
+      ).first<{ id: number }>();
+
+      await recomputeRegistrationAttendance(env.DB, registration!.id);
+
+      await recordAudit(env.DB, request, auth, {
+        entityType: 'registration',
+        entityId: registration!.id,
+        action: 'create',
+        after: registration,
+      });
+
+      results.push({ studentId, registrationId: registration!.id, prerequisiteOverride: !!applyOverride });
     }
 
-    return new Response(
-      JSON.stringify({
-        successCount,
-        failedCount,
-        message: `Bulk registration completed. ${successCount} new registrations created. ${failedCount} students were already registered.`,
-      }),
-      { status: 200, headers: { 'Content-Type': 'application/json' } }
-    );
-  } catch (error: any) {
-    console.error('Error in bulk registration endpoint:', error);
-    return new Response(
-      JSON.stringify({
-        error: 'Internal server error',
-        message: error.message,
-      }),
-      { status: 500, headers: { 'Content-Type': 'application/json' } }
-    );
-  }
-});
+    const successCount = results.filter(r => r.registrationId).length;
 
-export default router;
+    return new Response(JSON.stringify({
+      successCount,
+      failedCount: results.length - successCount,
+      results,
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Bulk registration error:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -1,6 +1,16 @@
 import { drizzle } from 'drizzle-orm/d1';
 import { eq, and } from 'drizzle-orm';
 import * as schema from '../../../drizzle/schema';
+import { recomputeRegistrationAttendance } from '../../lib/attendancePercent';
+import { recordAudit } from '../../lib/audit';
+import { resolveRegistrationPrice } from '../../lib/pricing';
+import {
+  describeMissingPrerequisites,
+  findMissingPrerequisites,
+  loadPrerequisiteChain,
+  parsePrerequisiteOverride,
+} from '../../lib/prerequisites';
+import type { PrerequisiteCourse } from '../../lib/prerequisites';
 
 interface Env {
   DB: D1Database;
@@ -45,7 +55,7 @@ export const onRequest: PagesFunction<Env> = async (context) => {
   }
 
   const db = drizzle(env.DB, { schema });
-  const auth = context.data.auth as { clientId: number; userId: number } | undefined;
+  const auth = context.data.auth as { clientId: number; userId: number; email: string; role: string; isClientAdmin?: boolean } | undefined;
 
   if (!auth) {
     return new Response(JSON.stringify({ error: 'Non autenticato' }), {
@@ -58,6 +68,15 @@ export const onRequest: PagesFunction<Env> = async (context) => {
     const formData = await request.formData();
     const file = formData.get('file') as File;
     const dryRun = formData.get('dryRun') === 'true';
+    const parsedOverride = parsePrerequisiteOverride(auth, formData.get('prerequisiteOverrideReason'));
+
+    if ('error' in parsedOverride) {
+      return new Response(JSON.stringify({ error: parsedOverride.error }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    const { override } = parsedOverride;
 
     if (!file) {
       return new Response(JSON.stringify({ error: 'File non fornito' }), {
@@ -101,6 +120,9 @@ export const onRequest: PagesFunction<Env> = async (context) => {
       warnings: []
     };
 
+    // Catene dei prerequisiti per corso, caricate una volta sola
+    const prerequisiteChains = new Map<number, PrerequisiteCourse[]>();
+
     // Processa ogni riga
     for (let i = 1; i < lines.length; i++) {
       const line = lines[i].trim();
@@ -193,6 +215,12 @@ export const onRequest: PagesFunction<Env> = async (context) => {
           }).returning();
 
           student = insertResult[0];
+          await recordAudit(env.DB, request, auth, {
+            entityType: 'student',
+            entityId: student.id,
+            action: 'create',
+            after: student,
+          });
           result.warnings.push({ 
             rowNumber: i + 1, 
             warning: `Nuovo studente creato: ${row.studentemail}` 
@@ -217,6 +245,26 @@ export const onRequest: PagesFunction<Env> = async (context) => {
           continue;
         }
 
+        // Prerequisiti del corso (catena completa), salvo deroga dell'admin
+        if (!prerequisiteChains.has(courseId)) {
+          prerequisiteChains.set(courseId, await loadPrerequisiteChain(env.DB, auth.clientId, courseId));
+        }
+        const missing = await findMissingPrerequisites(env.DB, auth.clientId, student.id, prerequisiteChains.get(courseId)!);
+
+        if (missing.length > 0 && !override) {
+          result.errors.push({ rowNumber: i + 1, error: `${row.studentemail}: ${describeMissingPrerequisites(missing)}` });
+          result.skippedCount++;
+          continue;
+        }
+
+        if (missing.length > 0) {
+          result.warnings.push({
+            rowNumber: i + 1,
+            warning: `${row.studentemail}: ${describeMissingPrerequisites(missing)} (deroga applicata)`
+          });
+        }
+        const applyOverride = missing.length > 0 && override;
+
         // Trova l'azienda se specificata
         let companyId: number | null = null;
         if (row.companyname) {
@@ -239,22 +287,42 @@ export const onRequest: PagesFunction<Env> = async (context) => {
 
         // Se non è un dry run, crea l'iscrizione
         if (!dryRun) {
-          const priceApplied = parseInt(row.priceapplied) || edition.price || 0;
+          // Il prezzo del file vince sul listino
+          const resolvedPrice = await resolveRegistrationPrice(env.DB, auth.clientId, {
+            editionId: courseEditionId,
+            studentId: student.id,
+            companyId,
+            manualPrice: parseInt(row.priceapplied) || null,
+          });
 
-          await db.insert(schema.registrations).values({
+          const [registration] = await db.insert(schema.registrations).values({
             clientId: auth.clientId,
             studentId: student.id,
             courseEditionId: courseEditionId,
             companyId: companyId,
             registrationDate: new Date().toISOString(),
             status: 'confirmed',
-            priceApplied: priceApplied,
+            priceApplied: resolvedPrice.price,
+            priceSource: resolvedPrice.source,
             totalHoursAttended: 0,
             attendancePercent: 0,
             certificateIssued: false,
             notes: row.notes || null,
+            prerequisiteOverrideReason: applyOverride ? override.reason : null,
+            prerequisiteOverrideBy: applyOverride ? override.userId : null,
+            prerequisiteOverrideByEmail: applyOverride ? override.userEmail : null,
+            prerequisiteOverrideAt: applyOverride ? override.at : null,
             createdAt: new Date().toISOString(),
             updatedAt: new Date().toISOString(),
+          }).returning();
+
+          await recomputeRegistrationAttendance(env.DB, registration.id);
+
+          await recordAudit(env.DB, request, auth, {
+            entityType: 'registration',
+            entityId: registration.id,
+            action: 'create',
+            after: registration,
           });
         }
 
@@ -8,6 +8,16 @@
 import { drizzle } from 'drizzle-orm/d1';
 import { eq, and, sql, count, desc } from 'drizzle-orm';
 import * as schema from '../../../drizzle/schema';
+import { recomputeRegistrationAttendance } from '../../lib/attendancePercent';
+import { recordAudit } from '../../lib/audit';
+import { resolveRegistrationPrice } from '../../lib/pricing';
+import {
+  describeMissingPrerequisites,
+  findMissingPrerequisites,
+  loadPrerequisiteChain,
+  parsePrerequisiteOverride,
+  PREREQUISITE_ERROR_CODE,
+} from '../../lib/prerequisites';
 
 interface Env {
   DB: D1Database;
@@ -18,6 +28,7 @@ interface AuthContext {
   userId: number;
   email: string;
   role: string;
+  isClientAdmin?: boolean;
 }
 
 // GET - Lista iscrizioni con paginazione
@@ -69,6 +80,7 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
       status: schema.registrations.status,
       price: schema.registrations.priceApplied,
       priceApplied: schema.registrations.priceApplied,
+      priceSource: schema.registrations.priceSource,
       registrationDate: schema.registrations.registrationDate,
       notes: schema.registrations.notes,
       studentFirstName: schema.students.firstName,
@@ -123,7 +135,8 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     // Supporta sia singola iscrizione che bulk
     const studentIds = body.studentIds || [body.studentId];
     const courseEditionId = body.courseEditionId;
-    const priceApplied = body.priceApplied || body.price || 0;
+    // Prezzo indicato dall'operatore; se assente si applica il listino (functions/lib/pricing.ts)
+    const manualPrice = body.priceApplied || body.price || null;
     const notes = body.notes;
     const status = body.status || 'confirmed';
 
@@ -175,6 +188,17 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
       });
     }
 
+    // Prerequisiti del corso (catena completa) ed eventuale deroga dell'admin
+    const parsedOverride = parsePrerequisiteOverride(auth, body.prerequisiteOverrideReason);
+    if ('error' in parsedOverride) {
+      return new Response(JSON.stringify({ error: parsedOverride.error }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    const { override } = parsedOverride;
+    const prerequisites = await loadPrerequisiteChain(env.DB, auth.clientId, edition[0].courseId);
+
     const now = new Date().toISOString();
     const results: any[] = [];
     const errors: any[] = [];
@@ -218,21 +242,60 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
         continue;
       }
 
+      const missing = await findMissingPrerequisites(env.DB, auth.clientId, studentId, prerequisites);
+      if (missing.length > 0 && !override) {
+        errors.push({ studentId, error: describeMissingPrerequisites(missing), code: PREREQUISITE_ERROR_CODE, missing });
+        continue;
+      }
+
+      const resolvedPrice = await resolveRegistrationPrice(env.DB, auth.clientId, {
+        editionId: courseEditionId,
+        studentId,
+        companyId: student[0].companyId,
+        manualPrice,
+      });
+
       // Crea iscrizione
       const result = await db.insert(schema.registrations).values({
         clientId: auth.clientId,
         studentId,
         courseEditionId,
         companyId: student[0].companyId,
-        priceApplied,
+        priceApplied: resolvedPrice.price,
+        priceSource: resolvedPrice.source,
         notes: notes || null,
         status,
         registrationDate: now,
+        // La deroga viene registrata solo se ha effettivamente saltato un prerequisito
+        ...(missing.length > 0 && override ? {
+          prerequisiteOverrideReason: override.reason,
+          prerequisiteOverrideBy: override.userId,
+          prerequisiteOverrideByEmail: override.userEmail,
+          prerequisiteOverrideAt: override.at,
+        } : {}),
         createdAt: now,
         updatedAt: now,
-      }).returning({ id: schema.registrations.id });
+      }).returning();
+
+      // Presenze già registrate per lo studente o recuperi contano da subito
+      await recomputeRegistrationAttendance(env.DB, result[0].id);
+
+      await recordAudit(env.DB, request, auth, {
+        entityType: 'registration',
+        entityId: result[0].id,
+        action: 'create',
+        after: result[0],
+      });
 
-      results.push({ studentId, registrationId: result[0].id });
+      results.push({ studentId, registrationId: result[0].id, prerequisiteOverride: missing.length > 0 });
+    }
+
+    // Iscrizione singola non riuscita: l'errore va mostrato come tale
+    if (!body.studentIds && results.length === 0 && errors.length > 0) {
+      return new Response(JSON.stringify(errors[0]), {
+        status: errors[0].code === PREREQUISITE_ERROR_CODE ? 422 : 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
     }
 
     return new Response(JSON.stringify({
@@ -0,0 +1,53 @@
+/**
+ * API Report crediti
+ * GET /api/reports/receivables - Crediti aperti per azienda e per agente con fasce di
+ * anzianità 0-30, 31-60, 61-90, >90 giorni (filtri companyId, agentId)
+ */
+
+import { loadReceivables } from '../../lib/payments';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+}
+
+// GET - Crediti aperti
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+  const auth = context.data.auth as AuthContext | undefined;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const url = new URL(request.url);
+  const companyId = url.searchParams.get('companyId');
+  const agentId = url.searchParams.get('agentId');
+
+  try {
+    const report = await loadReceivables(env.DB, auth.clientId, {
+      companyId: companyId ? Number(companyId) : undefined,
+      agentId: agentId ? Number(agentId) : undefined,
+    });
+
+    return new Response(JSON.stringify(report), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error fetching receivables:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -1,109 +1,108 @@
 /**
  * API Endpoint: Students to Recover Report
  * GET /api/reports/students-to-recover
- * 
- * Identifies students who have completed a course edition but had less than 90% attendance,
- * or were explicitly marked as 'failed'.
+ *
+ * Iscrizioni da recuperare: bocciate dall'operatore o di edizioni concluse con frequenza
+ * sotto la soglia minima. Per ognuna riporta i recuperi già pianificati e le ore recuperate;
+ * il dettaglio dei moduli persi è in GET /api/registrations/:id/recovery.
  */
 
-import { Router } from 'itty-router';
-import type { IRequest } from 'itty-router';
-import { DrizzleD1Database } from 'drizzle-orm/d1';
-import { getDb } from '../../db';
-import * as schema from '../../../drizzle/schema';
-import { eq, and, sql, gte, sum } from 'drizzle-orm';
+import { MIN_ATTENDANCE_PERCENT } from '../../../src/lib/businessLogicValidation';
 
 interface Env {
   DB: D1Database;
 }
 
-const router = Router();
-
-/**
- * GET /api/reports/students-to-recover
- * Get list of students who need to recover a course
- */
-router.get('/api/reports/students-to-recover', async (request: IRequest, env: Env) => {
-  const db: DrizzleD1Database<typeof schema> = getDb(env.DB);
-
-  try {
-    // 1. Find all registrations that are 'failed'
-    const failedRegistrations = await db.query.registrations.findMany({
-      where: eq(schema.registrations.status, 'failed'),
-      with: {
-        student: true,
-        edition: {
-          with: {
-            course: true,
-          },
-        },
-      },
-    });
-
-    // 2. Find all registrations that are 'completed' but with low attendance (<90%)
-    // This requires a complex join/group by that is difficult with Drizzle D1.
-    // We will process the 'failed' ones first and then add the low attendance logic later if needed,
-    // or rely on the operator to mark them as 'failed' if they don't meet the minimum attendance.
-    // Given the previous requirement, the explicit 'failed' status is the primary trigger.
-
-    const studentsToRecover = await Promise.all(failedRegistrations.map(async (reg) => {
-      const student = reg.student;
-      const edition = reg.edition;
-      const course = edition?.course;
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+}
 
-      if (!student || !edition || !course) return null;
+interface RecoverRow {
+  registrationId: number;
+  status: string;
+  attendancePercent: number | null;
+  recommendedNextEditionId: number | null;
+  studentId: number;
+  firstName: string;
+  lastName: string;
+  companyName: string | null;
+  courseId: number;
+  courseTitle: string;
+  editionId: number;
+  startDate: string;
+  endDate: string;
+  location: string | null;
+  plannedRecoveries: number;
+  recoveredHours: number;
+}
 
-      // Calculate total session hours for the edition
-      const totalHoursResult = await db.select({
-        totalHours: sql<number>`SUM(hours)`.as('totalHours'),
-      })
-      .from(schema.sessions)
-      .where(eq(schema.sessions.editionId, edition.id))
-      .get();
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env } = context;
+  const auth = context.data.auth as AuthContext;
 
-      const totalSessionHours = totalHoursResult?.totalHours || 0;
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
 
-      // Calculate hours attended by the student
-      const hoursAttendedResult = await db.select({
-        hoursAttended: sql<number>`SUM(hoursAttended)`.as('hoursAttended'),
-      })
-      .from(schema.attendances)
-      .where(and(
-        eq(schema.attendances.registrationId, reg.id),
-        eq(schema.attendances.present, 1) // Assuming 'present' is stored as 1 for true
-      ))
-      .get();
+  try {
+    const today = new Date().toISOString().split('T')[0];
 
-      const hoursAttended = hoursAttendedResult?.hoursAttended || 0;
-      const attendancePercentage = totalSessionHours > 0 ? Math.round((hoursAttended / totalSessionHours) * 100) : 0;
+    // La frequenza conta solo se già ricalcolata dalle presenze (attendanceUpdatedAt)
+    const { results } = await env.DB.prepare(`
+      SELECT r.id AS registrationId, r.status, r.attendancePercent, r.recommendedNextEditionId,
+        s.id AS studentId, s.firstName, s.lastName, co.name AS companyName,
+        c.id AS courseId, c.title AS courseTitle,
+        e.id AS editionId, e.startDate, e.endDate, e.location,
+        (SELECT COUNT(*) FROM recoveryEnrollments re WHERE re.registrationId = r.id AND re.status = 'planned') AS plannedRecoveries,
+        (SELECT COALESCE(SUM(hoursRecovered), 0) FROM recoveryEnrollments re WHERE re.registrationId = r.id AND re.status = 'attended') AS recoveredHours
+      FROM registrations r
+      INNER JOIN students s ON s.id = r.studentId
+      INNER JOIN courseEditions e ON e.id = r.courseEditionId
+      INNER JOIN courses c ON c.id = e.courseId
+      LEFT JOIN companies co ON co.id = r.companyId
+      WHERE r.clientId = ?
+        AND (
+          r.status = 'failed'
+          OR (r.status IN ('confirmed', 'completed') AND e.endDate < ?
+            AND r.attendanceUpdatedAt IS NOT NULL AND r.attendanceEligible = 0)
+        )
+      ORDER BY e.endDate DESC, s.lastName, s.firstName
+    `).bind(auth.clientId, today).all<RecoverRow>();
 
-      return {
-        registrationId: reg.id,
-        studentId: student.id,
-        studentName: `${student.firstName} ${student.lastName}`,
-        courseName: course.title,
-        editionName: edition.name,
-        editionEndDate: edition.endDate,
-        attendancePercentage,
-        reason: 'Bocciato dall\'operatore',
-        recommendedNextEditionId: reg.recommendedNextEditionId,
-      };
+    const students = (results || []).map(row => ({
+      registrationId: row.registrationId,
+      studentId: row.studentId,
+      studentName: `${row.firstName} ${row.lastName}`,
+      companyName: row.companyName,
+      courseId: row.courseId,
+      courseName: row.courseTitle,
+      editionId: row.editionId,
+      editionName: `${row.startDate}${row.location ? ` - ${row.location}` : ''}`,
+      editionEndDate: row.endDate,
+      attendancePercentage: row.attendancePercent ?? 0,
+      reason: row.status === 'failed'
+        ? 'Bocciato dall\'operatore'
+        : `Frequenza sotto il ${MIN_ATTENDANCE_PERCENT}%`,
+      recommendedNextEditionId: row.recommendedNextEditionId,
+      plannedRecoveries: row.plannedRecoveries,
+      recoveredHours: row.recoveredHours,
     }));
 
-    return new Response(
-      JSON.stringify({ students: studentsToRecover.filter(s => s !== null) }),
-      { status: 200, headers: { 'Content-Type': 'application/json' } }
-    );
+    return new Response(JSON.stringify({ students }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
   } catch (error: any) {
     console.error('Error fetching students to recover report:', error);
-    return new Response(
-      JSON.stringify({
-        error: 'Internal server error',
-        message: error.message,
-      }),
-      { status: 500, headers: { 'Content-Type': 'application/json' } }
-    );
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
   }
-});
-
-export default router;
+};
@@ -1,6 +1,10 @@
 import { drizzle } from 'drizzle-orm/d1';
 import { eq, and, asc } from 'drizzle-orm';
 import * as schema from '../../../drizzle/schema';
+import { recomputeAttendancePercent } from '../../lib/attendancePercent';
+import { isRegisterClosed, REGISTER_CLOSED_ERROR } from '../../lib/attendanceRegister';
+import { recordAudit } from '../../lib/audit';
+import { recoveryEditionIds } from '../../lib/recovery';
 
 interface Env {
   DB: D1Database;
@@ -13,7 +17,7 @@ interface Env {
 export const onRequest: PagesFunction<Env> = async (context) => {
   const { request, env, params } = context;
   const db = drizzle(env.DB, { schema });
-  const auth = context.data.auth as { clientId: number; userId: number } | undefined;
+  const auth = context.data.auth as { clientId: number; userId: number; email: string } | undefined;
 
   if (!auth) {
     return new Response(JSON.stringify({ error: 'Non autenticato' }), {
@@ -46,7 +50,18 @@ export const onRequest: PagesFunction<Env> = async (context) => {
   }
 
   if (request.method === 'GET') {
-    return new Response(JSON.stringify(session), {
+    // La chiave dei QR di check-in non esce dal server
+    const { checkInKey: _checkInKey, ...data } = session;
+    return new Response(JSON.stringify(data), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Orari e ore della sessione entrano nel registro: chiuso il registro, la sessione non cambia
+  if ((request.method === 'PUT' || request.method === 'DELETE')
+    && await isRegisterClosed(env.DB, auth.clientId, session.editionId)) {
+    return new Response(JSON.stringify({ error: REGISTER_CLOSED_ERROR }), {
+      status: 409,
       headers: { 'Content-Type': 'application/json' },
     });
   }
@@ -60,16 +75,33 @@ export const onRequest: PagesFunction<Env> = async (context) => {
         hours?: number;
         location?: string;
         notes?: string;
+        deliveryMode?: 'in_person' | 'fad_sync';
       };
 
+      // Solo i campi modificabili: la chiave di check-in si cambia da /check-in
+      const { sessionDate, startTime, endTime, hours, location, notes, deliveryMode } = body;
       const [updatedSession] = await db.update(schema.editionSessions)
         .set({
-          ...body,
+          sessionDate,
+          startTime,
+          endTime,
+          hours,
+          location,
+          notes,
+          deliveryMode: deliveryMode && ['in_person', 'fad_sync'].includes(deliveryMode) ? deliveryMode : undefined,
           updatedAt: new Date().toISOString(),
         })
         .where(eq(schema.editionSessions.id, sessionId))
         .returning();
 
+      await recordAudit(env.DB, request, auth, {
+        entityType: 'session',
+        entityId: sessionId,
+        action: 'update',
+        before: session,
+        after: updatedSession,
+      });
+
       // Aggiorna le date dell'edizione
       const allSessions = await db.query.editionSessions.findMany({
         where: eq(schema.editionSessions.editionId, session.editionId),
@@ -85,7 +117,11 @@ export const onRequest: PagesFunction<Env> = async (context) => {
           .where(eq(schema.courseEditions.id, session.editionId));
       }
 
-      return new Response(JSON.stringify(updatedSession), {
+      // Le ore della sessione valgono per le presenze registrate senza ore
+      await recomputeAttendancePercent(env.DB, session.editionId);
+
+      const { checkInKey: _checkInKey, ...data } = updatedSession;
+      return new Response(JSON.stringify(data), {
         headers: { 'Content-Type': 'application/json' },
       });
     } catch (error) {
@@ -99,9 +135,19 @@ export const onRequest: PagesFunction<Env> = async (context) => {
 
   if (request.method === 'DELETE') {
     try {
+      // I recuperi svolti in questa sessione spariscono con lei
+      const recoveryEditions = await recoveryEditionIds(env.DB, sessionId);
+
       await db.delete(schema.editionSessions)
         .where(eq(schema.editionSessions.id, sessionId));
 
+      await recordAudit(env.DB, request, auth, {
+        entityType: 'session',
+        entityId: sessionId,
+        action: 'delete',
+        before: session,
+      });
+
       // Aggiorna le date dell'edizione
       const allSessions = await db.query.editionSessions.findMany({
         where: eq(schema.editionSessions.editionId, session.editionId),
@@ -117,6 +163,11 @@ export const onRequest: PagesFunction<Env> = async (context) => {
           .where(eq(schema.courseEditions.id, session.editionId));
       }
 
+      // Le presenze della sessione sono state eliminate con lei
+      for (const editionId of [session.editionId, ...recoveryEditions]) {
+        await recomputeAttendancePercent(env.DB, editionId);
+      }
+
       return new Response(JSON.stringify({ success: true }), {
         headers: { 'Content-Type': 'application/json' },
       });
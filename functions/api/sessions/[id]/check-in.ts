@@ -0,0 +1,99 @@
+/**
+ * API QR di check-in della sessione
+ * GET /api/sessions/:id/check-in - QR corrente da proiettare in aula (cambia ogni 30 secondi)
+ * POST /api/sessions/:id/check-in - Rigenera la chiave: i QR già mostrati non valgono più
+ */
+
+import {
+  buildCheckInToken,
+  CHECK_IN_ROTATION_SECONDS,
+  generateCheckInKey,
+  isCheckInOpen,
+} from '../../../lib/checkIn';
+import type { CheckInSession } from '../../../lib/checkIn';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+}
+
+async function loadSession(db: D1Database, sessionId: number, clientId: number): Promise<CheckInSession | null> {
+  return db.prepare(`
+    SELECT id, clientId, editionId, sessionDate, startTime, endTime, hours, checkInKey
+    FROM editionSessions WHERE id = ? AND clientId = ?
+  `).bind(sessionId, clientId).first<CheckInSession>();
+}
+
+async function checkInResponse(request: Request, session: CheckInSession, key: string): Promise<Response> {
+  const { token, expiresAt } = await buildCheckInToken(session.id, key);
+
+  return new Response(JSON.stringify({
+    token,
+    url: `${new URL(request.url).origin}/presenza/${token}`,
+    expiresAt,
+    rotatesEverySeconds: CHECK_IN_ROTATION_SECONDS,
+    isOpen: isCheckInOpen(session),
+  }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+  });
+}
+
+export const onRequest: PagesFunction<Env> = async (context) => {
+  const { env, params, request } = context;
+  const auth = context.data.auth as AuthContext;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (request.method !== 'GET' && request.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Metodo non supportato' }), {
+      status: 405,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const sessionId = parseInt(params.id as string);
+  if (isNaN(sessionId)) {
+    return new Response(JSON.stringify({ error: 'ID sessione non valido' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const session = await loadSession(env.DB, sessionId, auth.clientId);
+    if (!session) {
+      return new Response(JSON.stringify({ error: 'Sessione non trovata' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // La chiave si crea alla prima apertura del QR
+    let key = session.checkInKey;
+    if (!key || request.method === 'POST') {
+      key = generateCheckInKey();
+      await env.DB.prepare('UPDATE editionSessions SET checkInKey = ?, updatedAt = ? WHERE id = ?')
+        .bind(key, new Date().toISOString(), session.id).run();
+    }
+
+    return checkInResponse(request, session, key);
+  } catch (error) {
+    console.error('Session check-in QR error:', error);
+    return new Response(JSON.stringify({ error: 'Errore nella generazione del QR di check-in' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -0,0 +1,68 @@
+/**
+ * API Verifiche OTP della sessione FAD
+ * GET /api/sessions/:id/otp-checks - Codici inviati e confermati da ogni iscritto, per il registro presenze
+ */
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+}
+
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, params } = context;
+  const auth = context.data.auth as AuthContext;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const sessionId = parseInt(params.id as string);
+  if (isNaN(sessionId)) {
+    return new Response(JSON.stringify({ error: 'ID sessione non valido' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const session = await env.DB.prepare(
+      'SELECT id FROM editionSessions WHERE id = ? AND clientId = ?'
+    ).bind(sessionId, auth.clientId).first<{ id: number }>();
+
+    if (!session) {
+      return new Response(JSON.stringify({ error: 'Sessione non trovata' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { results } = await env.DB.prepare(`
+      SELECT o.id, o.registrationId, o.studentId, st.firstName, st.lastName, o.sequence, o.scheduledAt,
+        o.sentAt, o.expiresAt, o.verifiedAt, o.verifiedIp, o.proofHash
+      FROM attendanceOtpChecks o
+      JOIN students st ON st.id = o.studentId
+      WHERE o.sessionId = ? AND o.clientId = ?
+      ORDER BY st.lastName, st.firstName, o.sequence
+    `).bind(sessionId, auth.clientId).all();
+
+    return new Response(JSON.stringify({ data: results || [] }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Attendance OTP checks error:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -8,6 +8,8 @@
 import { drizzle } from 'drizzle-orm/d1';
 import { eq, and, desc } from 'drizzle-orm';
 import * as schema from '../../../drizzle/schema';
+import { recordAudit } from '../../lib/audit';
+import { hasClosedRegisterForStudent, REGISTER_CLOSED_ERROR } from '../../lib/attendanceRegister';
 
 interface Env {
   DB: D1Database;
@@ -136,6 +138,21 @@ export const onRequestPut: PagesFunction<Env> = async (context) => {
 
   try {
     const body = await request.json() as any;
+
+    if (body.postalCode && !/^\d{5}$/.test(String(body.postalCode).trim())) {
+      return new Response(JSON.stringify({ error: 'CAP non valido (5 cifre)' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (body.province && !/^[A-Z]{2}$/i.test(String(body.province).trim())) {
+      return new Response(JSON.stringify({ error: 'Provincia non valida (sigla di 2 lettere)' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
     const db = drizzle(env.DB, { schema });
 
     // Verifica che lo studente esista e appartenga al cliente
@@ -177,7 +194,7 @@ export const onRequestPut: PagesFunction<Env> = async (context) => {
     }
 
     // Aggiorna
-    await db.update(schema.students)
+    const [updated] = await db.update(schema.students)
       .set({
         firstName: body.firstName ?? existing[0].firstName,
         lastName: body.lastName ?? existing[0].lastName,
@@ -187,10 +204,26 @@ export const onRequestPut: PagesFunction<Env> = async (context) => {
         birthDate: body.birthDate ?? existing[0].birthDate,
         birthPlace: body.birthPlace ?? existing[0].birthPlace,
         address: body.address ?? existing[0].address,
+        city: body.city !== undefined ? body.city?.trim() || null : existing[0].city,
+        province: body.province !== undefined ? body.province?.trim().toUpperCase() || null : existing[0].province,
+        postalCode: body.postalCode !== undefined ? String(body.postalCode ?? '').trim() || null : existing[0].postalCode,
         companyId: body.companyId !== undefined ? body.companyId : existing[0].companyId,
+        jobRole: body.jobRole !== undefined ? body.jobRole || null : existing[0].jobRole,
+        riskLevel: body.riskLevel !== undefined ? body.riskLevel || null : existing[0].riskLevel,
+        fireWarden: body.fireWarden !== undefined ? !!body.fireWarden : existing[0].fireWarden,
+        firstAider: body.firstAider !== undefined ? !!body.firstAider : existing[0].firstAider,
         updatedAt: new Date().toISOString(),
       })
-      .where(eq(schema.students.id, studentId));
+      .where(eq(schema.students.id, studentId))
+      .returning();
+
+    await recordAudit(env.DB, request, auth, {
+      entityType: 'student',
+      entityId: studentId,
+      action: 'update',
+      before: existing[0],
+      after: updated,
+    });
 
     return new Response(JSON.stringify({ success: true }), {
       status: 200,
@@ -208,7 +241,7 @@ export const onRequestPut: PagesFunction<Env> = async (context) => {
 
 // DELETE - Elimina studente
 export const onRequestDelete: PagesFunction<Env> = async (context) => {
-  const { env, params } = context;
+  const { request, env, params } = context;
   const auth = context.data.auth as AuthContext;
   const studentId = parseInt(params.id as string);
 
@@ -247,10 +280,24 @@ export const onRequestDelete: PagesFunction<Env> = async (context) => {
       });
     }
 
+    if (await hasClosedRegisterForStudent(env.DB, auth.clientId, studentId)) {
+      return new Response(JSON.stringify({ error: REGISTER_CLOSED_ERROR }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
     // Elimina (cascade eliminerà anche iscrizioni e presenze)
     await db.delete(schema.students)
       .where(eq(schema.students.id, studentId));
 
+    await recordAudit(env.DB, request, auth, {
+      entityType: 'student',
+      entityId: studentId,
+      action: 'delete',
+      before: existing[0],
+    });
+
     return new Response(JSON.stringify({ success: true }), {
       status: 200,
       headers: { 'Content-Type': 'application/json' },
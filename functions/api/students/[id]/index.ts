@@ -8,6 +8,8 @@
 import { drizzle } from 'drizzle-orm/d1';
 import { eq, and } from 'drizzle-orm';
 import * as schema from '../../../../drizzle/schema';
+import { recordAudit } from '../../../lib/audit';
+import { hasClosedRegisterForStudent, REGISTER_CLOSED_ERROR } from '../../../lib/attendanceRegister';
 
 interface Env {
   DB: D1Database;
@@ -134,6 +136,14 @@ export const onRequestPut: PagesFunction<Env> = async (context) => {
       .where(eq(schema.students.id, studentId))
       .limit(1);
 
+    await recordAudit(env.DB, request, auth, {
+      entityType: 'student',
+      entityId: studentId,
+      action: 'update',
+      before: existing[0],
+      after: updated[0],
+    });
+
     return new Response(JSON.stringify(updated[0]), {
       status: 200,
       headers: { 'Content-Type': 'application/json' },
@@ -150,7 +160,7 @@ export const onRequestPut: PagesFunction<Env> = async (context) => {
 
 // DELETE - Elimina studente
 export const onRequestDelete: PagesFunction<Env> = async (context) => {
-  const { env, params } = context;
+  const { env, params, request } = context;
   const auth = context.data.auth as AuthContext;
 
   if (!auth) {
@@ -187,10 +197,24 @@ export const onRequestDelete: PagesFunction<Env> = async (context) => {
       });
     }
 
+    if (await hasClosedRegisterForStudent(env.DB, auth.clientId, studentId)) {
+      return new Response(JSON.stringify({ error: REGISTER_CLOSED_ERROR }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
     // Delete student
     await db.delete(schema.students)
       .where(eq(schema.students.id, studentId));
 
+    await recordAudit(env.DB, request, auth, {
+      entityType: 'student',
+      entityId: studentId,
+      action: 'delete',
+      before: existing[0],
+    });
+
     return new Response(JSON.stringify({ success: true }), {
       status: 200,
       headers: { 'Content-Type': 'application/json' },
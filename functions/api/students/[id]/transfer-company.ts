@@ -1,7 +1,8 @@
 import { Hono } from 'hono';
 import { drizzle } from 'drizzle-orm/d1';
-import { eq } from 'drizzle-orm';
+import { eq, and } from 'drizzle-orm';
 import * as schema from '../../../../drizzle/schema';
+import { recordAudit } from '../../../lib/audit';
 
 type Bindings = {
   DB: D1Database;
@@ -34,6 +35,8 @@ interface TransferResponse {
 app.put('/', async (c) => {
   try {
     const clientId = c.get('clientId' as never) as number;
+    const userId = c.get('userId' as never) as number;
+    const email = c.get('email' as never) as string;
     const studentId = parseInt(c.req.param('id'), 10);
 
     if (!clientId || isNaN(studentId)) {
@@ -57,7 +60,7 @@ app.put('/', async (c) => {
       companyId: schema.students.companyId,
     })
     .from(schema.students)
-    .where(eq(schema.students.id, studentId))
+    .where(and(eq(schema.students.id, studentId), eq(schema.students.clientId, clientId)))
     .limit(1);
 
     if (!student || student.length === 0) {
@@ -112,8 +115,13 @@ app.put('/', async (c) => {
       })
       .where(eq(schema.students.id, studentId));
 
-    // Registra il trasferimento nel log (se disponibile)
-    // TODO: Aggiungere tabella di log per audit trail
+    await recordAudit(c.env.DB, c.req.raw, { clientId, userId, email }, {
+      entityType: 'student',
+      entityId: studentId,
+      action: 'update',
+      before: { companyId: studentData.companyId },
+      after: { companyId: newCompanyId, transferReason: reason || null },
+    });
 
     const response: TransferResponse = {
       success: true,
@@ -0,0 +1,55 @@
+/**
+ * API decodifica codice fiscale
+ * GET /api/students/fiscal-code?cf=XXX - Validazione, data e luogo di nascita (comune con
+ * provincia o stato estero) dall'elenco completo dei codici catastali
+ */
+
+import { createFiscalCodeDecoder } from '../../lib/belfiore';
+import { normalizzaCF, validaCF } from '../../../src/lib/codiceFiscale';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+}
+
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+  const auth = context.data.auth as AuthContext;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const cf = normalizzaCF(new URL(request.url).searchParams.get('cf') || '');
+  if (!cf) {
+    return new Response(JSON.stringify({ error: 'Codice fiscale richiesto' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const validation = validaCF(cf);
+    const decoded = await createFiscalCodeDecoder(env.DB)(cf);
+
+    return new Response(JSON.stringify({ validation, decoded }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Fiscal code decode error:', error);
+    return new Response(JSON.stringify({ error: 'Errore nella decodifica del codice fiscale' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
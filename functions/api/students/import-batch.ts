@@ -2,6 +2,9 @@ import { Hono } from 'hono';
 import { drizzle } from 'drizzle-orm/d1';
 import { eq, or, and } from 'drizzle-orm';
 import * as schema from '../../../drizzle/schema';
+import { createFiscalCodeDecoder } from '../../lib/belfiore';
+import { recordAudit } from '../../lib/audit';
+import { formattaLuogoNascita, verificaLuogoNascita } from '../../../src/lib/codiceFiscale';
 
 type Bindings = {
   DB: D1Database;
@@ -147,6 +150,8 @@ function validateVatNumber(vatNumber: string): boolean {
 app.post('/', async (c) => {
   try {
     const clientId = c.get('clientId' as never) as number;
+    const userId = c.get('userId' as never) as number;
+    const email = c.get('email' as never) as string;
     if (!clientId) {
       return c.json({ error: 'Non autorizzato' }, 401);
     }
@@ -220,6 +225,8 @@ app.post('/', async (c) => {
     const fileTaxSet = new Set<string>();
     const fileEmailSet = new Set<string>();
 
+    const decodeFiscalCode = createFiscalCodeDecoder(c.env.DB);
+
     const validRows: Array<{ index: number; data: StudentRow; companyId: number | null }> = [];
     const companiesToCreate = new Map<string, string>(); // name -> vatNumber
 
@@ -345,6 +352,41 @@ app.post('/', async (c) => {
         hasError = true;
       }
 
+      // Dati di nascita dal codice fiscale: completa quelli mancanti e verifica quelli indicati
+      const decoded = taxCode && validateTaxCode(taxCode) ? await decodeFiscalCode(taxCode) : null;
+      if (decoded) {
+        const birthDate = parseDate(row.birthDate?.trim() || '');
+        if (!row.birthDate?.trim() && decoded.dataNascita) {
+          row.birthDate = decoded.dataNascita;
+        } else if (birthDate && decoded.dataNascita && birthDate.slice(2) !== decoded.dataNascita.slice(2)) {
+          // Il secolo non è nel codice fiscale: si confrontano solo le ultime due cifre dell'anno
+          result.warnings.push({
+            row: rowNum,
+            field: 'birthDate',
+            message: 'Data di nascita diversa da quella del codice fiscale',
+            value: row.birthDate,
+          });
+        }
+
+        if (!decoded.placeFound) {
+          result.warnings.push({
+            row: rowNum,
+            field: 'birthPlace',
+            message: `Codice catastale ${decoded.codiceCatastale} non presente nell'elenco dei comuni`,
+            value: taxCode,
+          });
+        } else if (!row.birthPlace?.trim()) {
+          row.birthPlace = formattaLuogoNascita(decoded);
+        } else if (!verificaLuogoNascita(decoded, row.birthPlace)) {
+          result.warnings.push({
+            row: rowNum,
+            field: 'birthPlace',
+            message: `Luogo di nascita diverso da quello del codice fiscale (${formattaLuogoNascita(decoded)})`,
+            value: row.birthPlace,
+          });
+        }
+      }
+
       // Validazione CAP
       if (row.postalCode && !validatePostalCode(row.postalCode)) {
         result.warnings.push({
@@ -422,7 +464,7 @@ app.post('/', async (c) => {
     // Importa gli studenti
     for (const { data: row, companyId: existingCompanyId } of validRows) {
       try {
-        await db.insert(schema.students).values({
+        const [student] = await db.insert(schema.students).values({
           clientId,
           firstName: row.firstName.trim(),
           lastName: row.lastName.trim(),
@@ -440,6 +482,13 @@ app.post('/', async (c) => {
           notes: row.notes?.trim() || null,
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
+        }).returning();
+
+        await recordAudit(c.env.DB, c.req.raw, { clientId, userId, email }, {
+          entityType: 'student',
+          entityId: student.id,
+          action: 'create',
+          after: student,
         });
         result.imported++;
       } catch (err: any) {
@@ -7,6 +7,7 @@
 import { drizzle } from 'drizzle-orm/d1';
 import { eq, like, or, asc, and, sql, count } from 'drizzle-orm';
 import * as schema from '../../../drizzle/schema';
+import { recordAudit } from '../../lib/audit';
 
 interface Env {
   DB: D1Database;
@@ -130,7 +131,7 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
 
   try {
     const body = await request.json() as any;
-    const { firstName, lastName, fiscalCode, email, phone, birthDate, birthPlace, address, companyId, agentId, jobTitle, jobRole, riskLevel, atecoCode } = body;
+    const { firstName, lastName, fiscalCode, email, phone, birthDate, birthPlace, address, city, province, postalCode, companyId, agentId, jobTitle, jobRole, riskLevel, atecoCode, fireWarden, firstAider } = body;
 
     // Validazione
     if (!firstName || !lastName) {
@@ -155,6 +156,20 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
       });
     }
 
+    if (postalCode && !/^\d{5}$/.test(String(postalCode).trim())) {
+      return new Response(JSON.stringify({ error: 'CAP non valido (5 cifre)' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (province && !/^[A-Z]{2}$/i.test(String(province).trim())) {
+      return new Response(JSON.stringify({ error: 'Provincia non valida (sigla di 2 lettere)' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
     const db = drizzle(env.DB, { schema });
 
     // Verifica codice fiscale unico per questo cliente
@@ -232,16 +247,28 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
       birthDate: birthDate || null,
       birthPlace: birthPlace ? birthPlace.trim() : null,
       address: address ? address.trim() : null,
+      city: city ? city.trim() : null,
+      province: province ? province.trim().toUpperCase() : null,
+      postalCode: postalCode ? String(postalCode).trim() : null,
       companyId: companyId ? parseInt(String(companyId)) : null,
       agentId: agentId ? parseInt(String(agentId)) : null,
       jobTitle: jobTitle ? jobTitle.trim() : null,
       jobRole: jobRole ? jobRole.trim() : null,
       riskLevel: riskLevel || null,
       atecoCode: atecoCode ? atecoCode.trim() : null,
+      fireWarden: !!fireWarden,
+      firstAider: !!firstAider,
       isActive: true,
       createdAt: now,
       updatedAt: now,
-    }).returning({ id: schema.students.id });
+    }).returning();
+
+    await recordAudit(env.DB, request, auth, {
+      entityType: 'student',
+      entityId: result[0].id,
+      action: 'create',
+      after: result[0],
+    });
 
     return new Response(JSON.stringify({
       success: true,
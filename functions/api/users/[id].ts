@@ -0,0 +1,229 @@
+/**
+ * API Utente singolo (solo admin del cliente)
+ * GET /api/users/:id - Dettaglio utente
+ * PUT /api/users/:id - Modifica nome, ruolo o stato attivo
+ * DELETE /api/users/:id - Elimina utente
+ */
+
+import { checkUserLimit, toPublicUser } from '../../lib/users';
+import type { UserRecord } from '../../lib/users';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+  isClientAdmin: boolean;
+}
+
+const ROLES = ['admin', 'user', 'readonly'];
+
+// GET - Dettaglio utente
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, params } = context;
+  const auth = context.data.auth as AuthContext;
+  const userId = parseInt(params.id as string);
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (!auth.isClientAdmin) {
+    return new Response(JSON.stringify({ error: 'Solo l\'amministratore può gestire gli utenti', code: 'FORBIDDEN' }), {
+      status: 403,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (isNaN(userId)) {
+    return new Response(JSON.stringify({ error: 'ID non valido' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const user = await env.DB.prepare(
+      'SELECT * FROM users WHERE id = ? AND clientId = ?'
+    ).bind(userId, auth.clientId).first<UserRecord>();
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: 'Utente non trovato' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify({ data: toPublicUser(user) }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error: any) {
+    console.error('Get user error:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+// PUT - Modifica utente
+export const onRequestPut: PagesFunction<Env> = async (context) => {
+  const { request, env, params } = context;
+  const auth = context.data.auth as AuthContext;
+  const userId = parseInt(params.id as string);
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (!auth.isClientAdmin) {
+    return new Response(JSON.stringify({ error: 'Solo l\'amministratore può gestire gli utenti', code: 'FORBIDDEN' }), {
+      status: 403,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (isNaN(userId)) {
+    return new Response(JSON.stringify({ error: 'ID non valido' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const body = await request.json() as { name?: string; role?: string; isActive?: boolean };
+
+    const existing = await env.DB.prepare(
+      'SELECT * FROM users WHERE id = ? AND clientId = ?'
+    ).bind(userId, auth.clientId).first<UserRecord>();
+
+    if (!existing) {
+      return new Response(JSON.stringify({ error: 'Utente non trovato' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (body.role !== undefined && !ROLES.includes(body.role)) {
+      return new Response(JSON.stringify({ error: 'Ruolo non valido' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (body.name !== undefined && !body.name.trim()) {
+      return new Response(JSON.stringify({ error: 'Nome obbligatorio' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Riattivazione: conta come nuovo utente attivo per il limite del piano
+    if (body.isActive === true && !existing.isActive) {
+      const limitError = await checkUserLimit(env.DB, auth.clientId);
+      if (limitError) {
+        return new Response(JSON.stringify({ error: limitError, code: 'MAX_USERS_REACHED' }), {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    const now = new Date().toISOString();
+    const user = await env.DB.prepare(`
+      UPDATE users SET name = ?, role = ?, isActive = ?, updatedAt = ?
+      WHERE id = ? AND clientId = ?
+      RETURNING *
+    `).bind(
+      body.name !== undefined ? body.name.trim() : existing.name,
+      body.role ?? existing.role,
+      body.isActive !== undefined ? (body.isActive ? 1 : 0) : (existing.isActive ? 1 : 0),
+      now,
+      userId,
+      auth.clientId
+    ).first<UserRecord>();
+
+    // Un utente disattivato non deve poter usare link ancora aperti
+    if (body.isActive === false) {
+      await env.DB.prepare('UPDATE passwordTokens SET usedAt = ? WHERE userId = ? AND usedAt IS NULL')
+        .bind(now, userId).run();
+    }
+
+    return new Response(JSON.stringify({ success: true, data: toPublicUser(user!) }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error: any) {
+    console.error('Update user error:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server', message: error.message }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+// DELETE - Elimina utente
+export const onRequestDelete: PagesFunction<Env> = async (context) => {
+  const { env, params } = context;
+  const auth = context.data.auth as AuthContext;
+  const userId = parseInt(params.id as string);
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (!auth.isClientAdmin) {
+    return new Response(JSON.stringify({ error: 'Solo l\'amministratore può gestire gli utenti', code: 'FORBIDDEN' }), {
+      status: 403,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (isNaN(userId)) {
+    return new Response(JSON.stringify({ error: 'ID non valido' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const result = await env.DB.prepare(
+      'DELETE FROM users WHERE id = ? AND clientId = ?'
+    ).bind(userId, auth.clientId).run();
+
+    if (!result.meta.changes) {
+      return new Response(JSON.stringify({ error: 'Utente non trovato' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify({ success: true }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error: any) {
+    console.error('Delete user error:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
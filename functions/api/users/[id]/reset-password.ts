@@ -0,0 +1,88 @@
+/**
+ * API Reset password utente (solo admin del cliente)
+ * POST /api/users/:id/reset-password - Genera un nuovo link monouso per impostare la password
+ *
+ * Per un utente che non ha ancora accettato l'invito il link rinnova l'invito.
+ */
+
+import { buildSetPasswordUrl, createPasswordToken } from '../../../lib/users';
+import type { UserRecord } from '../../../lib/users';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+  isClientAdmin: boolean;
+}
+
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { request, env, params } = context;
+  const auth = context.data.auth as AuthContext;
+  const userId = parseInt(params.id as string);
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (!auth.isClientAdmin) {
+    return new Response(JSON.stringify({ error: 'Solo l\'amministratore può gestire gli utenti', code: 'FORBIDDEN' }), {
+      status: 403,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (isNaN(userId)) {
+    return new Response(JSON.stringify({ error: 'ID non valido' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const user = await env.DB.prepare(
+      'SELECT * FROM users WHERE id = ? AND clientId = ?'
+    ).bind(userId, auth.clientId).first<UserRecord>();
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: 'Utente non trovato' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!user.isActive) {
+      return new Response(JSON.stringify({ error: 'Utente disattivato' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const purpose = user.passwordHash ? 'reset' : 'invite';
+    const { token, expiresAt } = await createPasswordToken(env.DB, auth.clientId, user.id, purpose);
+
+    return new Response(JSON.stringify({
+      success: true,
+      purpose,
+      url: buildSetPasswordUrl(request, token),
+      expiresAt,
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error: any) {
+    console.error('Reset user password error:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
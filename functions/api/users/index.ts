@@ -0,0 +1,167 @@
+/**
+ * API Utenti - Gestione utenti del cliente (solo admin del cliente)
+ * GET /api/users - Lista utenti con limite del piano
+ * POST /api/users - Invita un nuovo utente (link monouso per impostare la password)
+ */
+
+import { buildSetPasswordUrl, checkUserLimit, createPasswordToken, toPublicUser } from '../../lib/users';
+import type { UserRecord } from '../../lib/users';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+  isClientAdmin: boolean;
+}
+
+const ROLES = ['admin', 'user', 'readonly'];
+
+// GET - Lista utenti
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env } = context;
+  const auth = context.data.auth as AuthContext;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (!auth.isClientAdmin) {
+    return new Response(JSON.stringify({ error: 'Solo l\'amministratore può gestire gli utenti', code: 'FORBIDDEN' }), {
+      status: 403,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const { results } = await env.DB.prepare(
+      'SELECT * FROM users WHERE clientId = ? ORDER BY name'
+    ).bind(auth.clientId).all<UserRecord>();
+
+    const client = await env.DB.prepare(
+      'SELECT maxUsers FROM clients WHERE id = ?'
+    ).bind(auth.clientId).first<{ maxUsers: number }>();
+
+    const users = (results || []).map(toPublicUser);
+
+    return new Response(JSON.stringify({
+      data: users,
+      maxUsers: client?.maxUsers ?? 0,
+      activeUsers: users.filter(u => u.isActive).length,
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error: any) {
+    console.error('List users error:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+// POST - Invita utente
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { request, env } = context;
+  const auth = context.data.auth as AuthContext;
+
+  if (!auth) {
+    return new Response(JSON.stringify({ error: 'Non autenticato' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (!auth.isClientAdmin) {
+    return new Response(JSON.stringify({ error: 'Solo l\'amministratore può gestire gli utenti', code: 'FORBIDDEN' }), {
+      status: 403,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const body = await request.json() as { email?: string; name?: string; role?: string };
+    const email = body.email?.trim().toLowerCase();
+    const name = body.name?.trim();
+    const role = body.role || 'user';
+
+    if (!email || !name) {
+      return new Response(JSON.stringify({ error: 'Nome ed email obbligatori' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      return new Response(JSON.stringify({ error: 'Email non valida' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!ROLES.includes(role)) {
+      return new Response(JSON.stringify({ error: 'Ruolo non valido' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Il login cerca l'email su tutti i clienti: deve essere univoca globalmente
+    const taken = await env.DB.prepare(`
+      SELECT 1 FROM users WHERE email = ?
+      UNION ALL
+      SELECT 1 FROM clients WHERE email = ?
+    `).bind(email, email).first();
+
+    if (taken) {
+      return new Response(JSON.stringify({ error: 'Email già registrata' }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const limitError = await checkUserLimit(env.DB, auth.clientId);
+    if (limitError) {
+      return new Response(JSON.stringify({ error: limitError, code: 'MAX_USERS_REACHED' }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Password vuota finché l'utente non completa l'invito (il login non la accetta)
+    const now = new Date().toISOString();
+    const user = await env.DB.prepare(`
+      INSERT INTO users (clientId, email, passwordHash, name, role, isActive, createdAt, updatedAt)
+      VALUES (?, ?, '', ?, ?, 1, ?, ?)
+      RETURNING *
+    `).bind(auth.clientId, email, name, role, now, now).first<UserRecord>();
+
+    const { token, expiresAt } = await createPasswordToken(env.DB, auth.clientId, user!.id, 'invite');
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: toPublicUser(user!),
+      url: buildSetPasswordUrl(request, token),
+      expiresAt,
+    }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error: any) {
+    console.error('Invite user error:', error);
+    return new Response(JSON.stringify({ error: 'Errore interno del server', message: error.message }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -0,0 +1,100 @@
+/**
+ * Frequenza delle iscrizioni - Ricalcolo dalle presenze
+ *
+ * La percentuale è il rapporto tra le ore di presenza (stato 'present' o 'late') e la
+ * durata del corso; se il corso non ha durata si usa il totale ore delle sessioni.
+ * Contano anche le ore recuperate in altre edizioni (vedi recovery.ts).
+ * Le API che scrivono presenze o sessioni la ricalcolano subito dopo la modifica,
+ * così l'attestato non viene mai emesso su una percentuale vecchia.
+ */
+
+import { MIN_ATTENDANCE_PERCENT } from '../../src/lib/businessLogicValidation';
+
+export interface AttendanceSummary {
+  registrationId: number;
+  hoursAttended: number;
+  totalHours: number;
+  attendancePercent: number;
+  eligible: boolean;
+}
+
+/**
+ * Percentuale intera arrotondata per difetto: 89,9% non deve diventare 90%
+ */
+export function computeAttendancePercent(hoursAttended: number, totalHours: number): number {
+  if (totalHours <= 0) return 0;
+  return Math.min(100, Math.floor((hoursAttended / totalHours) * 100));
+}
+
+/**
+ * Ricalcola e salva frequenza e idoneità di tutte le iscrizioni dell'edizione
+ */
+export function recomputeAttendancePercent(db: D1Database, editionId: number): Promise<AttendanceSummary[]> {
+  return recompute(db, editionId, null);
+}
+
+/**
+ * Ricalcola la sola iscrizione appena creata: chi crea iscrizioni in serie non rilegge
+ * a ogni riga l'intera edizione
+ */
+export async function recomputeRegistrationAttendance(db: D1Database, registrationId: number): Promise<AttendanceSummary | null> {
+  const registration = await db.prepare(
+    'SELECT courseEditionId FROM registrations WHERE id = ?'
+  ).bind(registrationId).first<{ courseEditionId: number }>();
+
+  if (!registration) return null;
+
+  const [summary] = await recompute(db, registration.courseEditionId, registrationId);
+  return summary ?? null;
+}
+
+async function recompute(db: D1Database, editionId: number, registrationId: number | null): Promise<AttendanceSummary[]> {
+  const edition = await db.prepare(`
+    SELECT c.durationHours,
+      (SELECT COALESCE(SUM(hours), 0) FROM editionSessions WHERE editionId = e.id) AS sessionHours
+    FROM courseEditions e
+    INNER JOIN courses c ON c.id = e.courseId
+    WHERE e.id = ?
+  `).bind(editionId).first<{ durationHours: number | null; sessionHours: number }>();
+
+  if (!edition) return [];
+
+  const totalHours = edition.durationHours && edition.durationHours > 0 ? edition.durationHours : edition.sessionHours;
+
+  // Le presenze senza ore (registrate per giornata) valgono le ore della sessione, se nota;
+  // quelle senza iscrizione si abbinano per studente ed edizione. Si aggiungono le ore
+  // recuperate in sessioni di altre edizioni.
+  const { results } = await db.prepare(`
+    SELECT r.id AS registrationId,
+      COALESCE(SUM(CASE WHEN a.status IN ('present', 'late') THEN COALESCE(a.hoursAttended, s.hours, 0) ELSE 0 END), 0)
+        + (SELECT COALESCE(SUM(hoursRecovered), 0) FROM recoveryEnrollments WHERE registrationId = r.id AND status = 'attended')
+        AS hoursAttended
+    FROM registrations r
+    LEFT JOIN attendances a ON a.courseEditionId = r.courseEditionId
+      AND (a.registrationId = r.id OR (a.registrationId IS NULL AND a.studentId = r.studentId))
+    LEFT JOIN editionSessions s ON s.id = a.sessionId
+    WHERE r.courseEditionId = ?1 AND (?2 IS NULL OR r.id = ?2)
+    GROUP BY r.id
+  `).bind(editionId, registrationId).all<{ registrationId: number; hoursAttended: number }>();
+
+  const summaries = (results || []).map(row => {
+    const attendancePercent = computeAttendancePercent(row.hoursAttended, totalHours);
+    return {
+      registrationId: row.registrationId,
+      hoursAttended: row.hoursAttended,
+      totalHours,
+      attendancePercent,
+      eligible: attendancePercent >= MIN_ATTENDANCE_PERCENT,
+    };
+  });
+
+  if (summaries.length > 0) {
+    const now = new Date().toISOString();
+    const update = db.prepare(
+      'UPDATE registrations SET attendancePercent = ?, attendanceEligible = ?, attendanceUpdatedAt = ? WHERE id = ?'
+    );
+    await db.batch(summaries.map(s => update.bind(s.attendancePercent, s.eligible ? 1 : 0, now, s.registrationId)));
+  }
+
+  return summaries;
+}
@@ -0,0 +1,259 @@
+/**
+ * Registro presenze a prova di manomissione - Chiusura con catena di hash
+ *
+ * Alla chiusura le presenze dell'edizione, in ordine stabile, vengono concatenate:
+ * ogni riga riceve SHA-256(hash precedente + contenuto della riga), partendo da un seme
+ * con edizione, istante di chiusura e hash della chiusura precedente. L'hash finale va
+ * sull'edizione e nel PDF del registro. Finché il registro è chiuso le presenze non si
+ * modificano; la verifica ricalcola la catena e segnala righe alterate, aggiunte o rimosse.
+ */
+
+export const REGISTER_CLOSED_ERROR = 'Il registro presenze di questa edizione è chiuso: riaprilo indicando il motivo per modificare le presenze';
+
+export interface RegisterActor {
+  clientId: number;
+  userId: number; // 0 per l'admin del cliente: non va nelle colonne che referenziano users
+  email: string;
+}
+
+export interface RegisterEvent {
+  id: number;
+  action: 'close' | 'reopen';
+  hash: string | null;
+  previousHash: string | null;
+  attendanceCount: number;
+  reason: string | null;
+  userEmail: string;
+  createdAt: string;
+}
+
+export interface RegisterStatus {
+  closed: boolean;
+  closedAt: string | null;
+  closedBy: string | null;
+  hash: string | null;
+  events: RegisterEvent[];
+}
+
+export interface RegisterVerification {
+  valid: boolean;
+  expectedCount: number;
+  actualCount: number;
+  // Presenze il cui anello non corrisponde più (modificate, aggiunte o fuori posto)
+  tamperedIds: number[];
+}
+
+interface AttendanceChainRow {
+  id: number;
+  registrationId: number | null;
+  studentId: number | null;
+  sessionId: number | null;
+  attendanceDate: string;
+  status: string;
+  hoursAttended: number | null;
+  signInTime: string | null;
+  signOutTime: string | null;
+  signatureMethod: string | null;
+  signatureHash: string | null;
+  notes: string | null;
+  registerHash: string | null;
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Campi che entrano nell'hash, in ordine fisso
+function canonicalRow(row: AttendanceChainRow): string {
+  return JSON.stringify([
+    row.id, row.registrationId, row.studentId, row.sessionId, row.attendanceDate, row.status,
+    row.hoursAttended, row.signInTime, row.signOutTime, row.signatureMethod, row.signatureHash, row.notes,
+  ]);
+}
+
+async function loadChainRows(db: D1Database, clientId: number, editionId: number): Promise<AttendanceChainRow[]> {
+  const { results } = await db.prepare(`
+    SELECT id, registrationId, studentId, sessionId, attendanceDate, status, hoursAttended,
+      signInTime, signOutTime, signatureMethod, signatureHash, notes, registerHash
+    FROM attendances
+    WHERE clientId = ? AND courseEditionId = ?
+    ORDER BY attendanceDate, COALESCE(sessionId, 0), COALESCE(registrationId, 0), id
+  `).bind(clientId, editionId).all<AttendanceChainRow>();
+
+  return results || [];
+}
+
+/**
+ * Anelli della catena, uno per riga; head è l'hash del registro (il seme se non ci sono presenze)
+ */
+export async function computeRegisterChain(
+  rows: AttendanceChainRow[],
+  seed: { editionId: number; closedAt: string; previousHash: string | null }
+): Promise<{ links: string[]; head: string }> {
+  let hash = await sha256Hex(`${seed.editionId}|${seed.closedAt}|${seed.previousHash || ''}`);
+  const links: string[] = [];
+  for (const row of rows) {
+    hash = await sha256Hex(`${hash}\n${canonicalRow(row)}`);
+    links.push(hash);
+  }
+  return { links, head: hash };
+}
+
+/**
+ * L'edizione ha il registro chiuso? Le API che scrivono presenze lo controllano prima
+ */
+export async function isRegisterClosed(db: D1Database, clientId: number, editionId: number): Promise<boolean> {
+  const row = await db.prepare(
+    'SELECT registerClosedAt FROM courseEditions WHERE id = ? AND clientId = ?'
+  ).bind(editionId, clientId).first<{ registerClosedAt: string | null }>();
+
+  return !!row?.registerClosedAt;
+}
+
+/**
+ * Lo studente ha iscrizioni o presenze in un'edizione con il registro chiuso?
+ * Eliminarlo cancellerebbe in cascata presenze già sigillate
+ */
+export async function hasClosedRegisterForStudent(db: D1Database, clientId: number, studentId: number): Promise<boolean> {
+  const row = await db.prepare(`
+    SELECT 1 FROM courseEditions e
+    WHERE e.clientId = ?1 AND e.registerClosedAt IS NOT NULL
+      AND (
+        EXISTS (SELECT 1 FROM registrations r WHERE r.courseEditionId = e.id AND r.studentId = ?2)
+        OR EXISTS (SELECT 1 FROM attendances a WHERE a.courseEditionId = e.id AND a.studentId = ?2)
+      )
+    LIMIT 1
+  `).bind(clientId, studentId).first();
+
+  return !!row;
+}
+
+async function loadEvents(db: D1Database, clientId: number, editionId: number): Promise<RegisterEvent[]> {
+  const { results } = await db.prepare(`
+    SELECT id, action, hash, previousHash, attendanceCount, reason, userEmail, createdAt
+    FROM attendanceRegisterEvents
+    WHERE clientId = ? AND editionId = ?
+    ORDER BY createdAt DESC, id DESC
+  `).bind(clientId, editionId).all<RegisterEvent>();
+
+  return results || [];
+}
+
+export async function loadRegisterStatus(db: D1Database, clientId: number, editionId: number): Promise<RegisterStatus | null> {
+  const edition = await db.prepare(
+    'SELECT registerClosedAt, registerHash FROM courseEditions WHERE id = ? AND clientId = ?'
+  ).bind(editionId, clientId).first<{ registerClosedAt: string | null; registerHash: string | null }>();
+
+  if (!edition) return null;
+
+  const events = await loadEvents(db, clientId, editionId);
+  const closed = !!edition.registerClosedAt;
+
+  return {
+    closed,
+    closedAt: edition.registerClosedAt,
+    closedBy: closed ? events.find(e => e.action === 'close')?.userEmail ?? null : null,
+    hash: closed ? edition.registerHash : null,
+    events,
+  };
+}
+
+function eventStatement(
+  db: D1Database,
+  actor: RegisterActor,
+  editionId: number,
+  event: Pick<RegisterEvent, 'action' | 'hash' | 'previousHash' | 'attendanceCount' | 'reason' | 'createdAt'>,
+  ipAddress: string | null
+): D1PreparedStatement {
+  return db.prepare(`
+    INSERT INTO attendanceRegisterEvents (clientId, editionId, action, hash, previousHash, attendanceCount, reason,
+      userId, userEmail, ipAddress, createdAt)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    actor.clientId, editionId, event.action, event.hash, event.previousHash, event.attendanceCount, event.reason,
+    actor.userId || null, actor.email, ipAddress, event.createdAt
+  );
+}
+
+/**
+ * Chiude il registro: scrive gli anelli sulle presenze e l'hash finale sull'edizione
+ */
+export async function closeRegister(
+  db: D1Database,
+  actor: RegisterActor,
+  editionId: number,
+  ipAddress: string | null
+): Promise<{ hash: string; closedAt: string; attendanceCount: number }> {
+  const closedAt = new Date().toISOString();
+  const events = await loadEvents(db, actor.clientId, editionId);
+  const previousHash = events.find(e => e.action === 'close')?.hash ?? null;
+
+  const rows = await loadChainRows(db, actor.clientId, editionId);
+  const { links, head: hash } = await computeRegisterChain(rows, { editionId, closedAt, previousHash });
+
+  const update = db.prepare('UPDATE attendances SET registerHash = ? WHERE id = ?');
+  const statements = rows.map((row, i) => update.bind(links[i], row.id));
+  statements.push(
+    db.prepare(`
+      UPDATE courseEditions SET registerClosedAt = ?, registerClosedBy = ?, registerHash = ?, updatedAt = ?
+      WHERE id = ? AND clientId = ?
+    `).bind(closedAt, actor.userId || null, hash, closedAt, editionId, actor.clientId),
+    eventStatement(db, actor, editionId, {
+      action: 'close', hash, previousHash, attendanceCount: rows.length, reason: null, createdAt: closedAt,
+    }, ipAddress)
+  );
+
+  // Un batch D1 è una transazione: o tutto il registro è chiuso o niente
+  await db.batch(statements);
+
+  return { hash, closedAt, attendanceCount: rows.length };
+}
+
+/**
+ * Riapre il registro: le presenze tornano modificabili, la riapertura resta nello storico
+ */
+export async function reopenRegister(
+  db: D1Database,
+  actor: RegisterActor,
+  editionId: number,
+  reason: string,
+  ipAddress: string | null
+): Promise<void> {
+  const now = new Date().toISOString();
+  const rows = await loadChainRows(db, actor.clientId, editionId);
+
+  await db.batch([
+    db.prepare(`
+      UPDATE courseEditions SET registerClosedAt = NULL, registerClosedBy = NULL, registerHash = NULL, updatedAt = ?
+      WHERE id = ? AND clientId = ?
+    `).bind(now, editionId, actor.clientId),
+    eventStatement(db, actor, editionId, {
+      action: 'reopen', hash: null, previousHash: null, attendanceCount: rows.length, reason, createdAt: now,
+    }, ipAddress),
+  ]);
+}
+
+/**
+ * Ricalcola la catena del registro chiuso e la confronta con quella salvata
+ */
+export async function verifyRegister(db: D1Database, clientId: number, editionId: number): Promise<RegisterVerification | null> {
+  const status = await loadRegisterStatus(db, clientId, editionId);
+  const closure = status?.events.find(e => e.action === 'close');
+  if (!status?.closed || !closure) return null;
+
+  const rows = await loadChainRows(db, clientId, editionId);
+  const { links, head } = await computeRegisterChain(rows, {
+    editionId,
+    closedAt: status.closedAt!,
+    previousHash: closure.previousHash,
+  });
+  const tamperedIds = rows.filter((row, i) => row.registerHash !== links[i]).map(row => row.id);
+
+  return {
+    valid: tamperedIds.length === 0 && rows.length === closure.attendanceCount && head === status.hash,
+    expectedCount: closure.attendanceCount,
+    actualCount: rows.length,
+    tamperedIds,
+  };
+}
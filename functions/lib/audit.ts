@@ -0,0 +1,106 @@
+/**
+ * Audit log - Registrazione delle modifiche ai dati
+ *
+ * Ogni create/update/delete su aziende, studenti, edizioni, iscrizioni, presenze
+ * e sessioni salva chi l'ha eseguita, da quale IP e il diff campo per campo.
+ * Il log non deve mai bloccare l'operazione: gli errori vengono solo loggati.
+ */
+
+export type AuditEntityType = 'company' | 'student' | 'edition' | 'registration' | 'attendance' | 'session' | 'subscription';
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+export interface AuditActor {
+  clientId: number;
+  userId: number;
+  email: string;
+}
+
+type AuditRecord = Record<string, any> | null | undefined;
+
+export interface AuditEntry {
+  entityType: AuditEntityType;
+  entityId: number;
+  action: AuditAction;
+  before?: AuditRecord;
+  after?: AuditRecord;
+}
+
+// Campi tecnici che cambiano a ogni scrittura e non interessano lo storico
+const IGNORED_FIELDS = new Set(['createdAt', 'updatedAt']);
+
+function normalize(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return value;
+}
+
+/**
+ * Diff tra due versioni di un record: solo i campi modificati.
+ * Con before assente (create) o after assente (delete) riporta tutti i campi valorizzati.
+ */
+export function diffRecords(before: AuditRecord, after: AuditRecord): AuditChanges {
+  const changes: AuditChanges = {};
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  for (const key of keys) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    const from = normalize(before?.[key]);
+    const to = normalize(after?.[key]);
+    if (from !== to) {
+      changes[key] = { from, to };
+    }
+  }
+
+  return changes;
+}
+
+// Collegamenti per lo storico di studente, azienda ed edizione
+function relatedIds(entityType: AuditEntityType, entityId: number, record: Record<string, any>) {
+  return {
+    studentId: entityType === 'student' ? entityId : record.studentId ?? null,
+    companyId: entityType === 'company' ? entityId : record.companyId ?? record.dedicatedCompanyId ?? null,
+    editionId: entityType === 'edition' ? entityId : record.courseEditionId ?? record.editionId ?? null,
+  };
+}
+
+/**
+ * Salva una voce di audit. Gli update senza modifiche effettive non vengono registrati.
+ */
+export async function recordAudit(
+  db: D1Database,
+  request: Request,
+  auth: AuditActor,
+  entry: AuditEntry
+): Promise<void> {
+  try {
+    const changes = diffRecords(entry.before, entry.after);
+    if (entry.action === 'update' && Object.keys(changes).length === 0) return;
+
+    const related = relatedIds(entry.entityType, entry.entityId, { ...entry.before, ...entry.after });
+
+    await db.prepare(`
+      INSERT INTO auditLog (
+        clientId, userId, userEmail, entityType, entityId, action, changes,
+        studentId, companyId, editionId, ipAddress, createdAt
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      auth.clientId,
+      auth.userId,
+      auth.email,
+      entry.entityType,
+      entry.entityId,
+      entry.action,
+      JSON.stringify(changes),
+      related.studentId,
+      related.companyId,
+      related.editionId,
+      request.headers.get('CF-Connecting-IP') || request.headers.get('X-Forwarded-For'),
+      new Date().toISOString()
+    ).run();
+  } catch (error) {
+    console.error('Audit log error:', error);
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * Codici catastali (Belfiore) lato server - Decodifica completa del codice fiscale
+ *
+ * La tabella belfioreCodes contiene l'elenco ISTAT dei comuni, compresi i soppressi, e
+ * gli stati esteri (codici Z), popolata dalla migrazione 0027; gli aggiornamenti si caricano
+ * dal file ufficiale con POST /api/admin/belfiore-codes.
+ * Se un codice ha più righe (cambio di nome o di provincia) vale quella in vigore alla data
+ * di nascita, altrimenti la più recente.
+ */
+
+import { reverseCF, validaCF } from '../../src/lib/codiceFiscale';
+import type { CFDecodedResult, ComuneCatastale } from '../../src/lib/codiceFiscale';
+
+export interface BelfioreCode {
+  code: string;
+  name: string;
+  province: string | null;
+  kind: 'comune' | 'estero';
+  validFrom: string | null;
+  validTo: string | null;
+}
+
+const CODE_PATTERN = /^[A-Z]\d{3}$/;
+
+// Statement per batch D1 durante il caricamento dell'elenco
+const LOAD_BATCH_SIZE = 500;
+
+export async function findBelfioreCode(
+  db: D1Database,
+  code: string,
+  onDate: string | null
+): Promise<ComuneCatastale | null> {
+  const row = await db.prepare(`
+    SELECT name, province FROM belfioreCodes
+    WHERE code = ?2
+    ORDER BY
+      CASE WHEN (validFrom IS NULL OR validFrom <= ?1) AND (validTo IS NULL OR validTo >= ?1) THEN 0 ELSE 1 END,
+      COALESCE(validTo, '9999-12-31') DESC
+    LIMIT 1
+  `).bind(onDate || '9999-12-31', code).first<{ name: string; province: string | null }>();
+
+  return row ? { nome: row.name, provincia: row.province } : null;
+}
+
+/**
+ * Decodificatore con cache per codice e data: gli import ripetono spesso gli stessi comuni
+ */
+export function createFiscalCodeDecoder(db: D1Database) {
+  const cache = new Map<string, ComuneCatastale | null>();
+
+  return async (cf: string): Promise<CFDecodedResult | null> => {
+    if (!validaCF(cf).isValid) return null;
+
+    const base = reverseCF(cf, null);
+    if (!base.codiceCatastale) return { ...base, placeFound: false };
+
+    const key = `${base.codiceCatastale}|${base.dataNascita || ''}`;
+    if (!cache.has(key)) {
+      cache.set(key, await findBelfioreCode(db, base.codiceCatastale, base.dataNascita));
+    }
+    const place = cache.get(key) ?? null;
+
+    return { ...reverseCF(cf, place), placeFound: !!place };
+  };
+}
+
+// undefined = data presente ma non leggibile
+function parseCsvDate(value: string): string | null | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return trimmed;
+  const match = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (!match) return undefined;
+  return `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+}
+
+/**
+ * Legge l'elenco in CSV (separatore ; o ,) con intestazione:
+ * codice;denominazione;provincia;dataInizio;dataFine - le date sono facoltative
+ * (GG/MM/AAAA o AAAA-MM-GG), la provincia "EE" o vuota indica uno stato estero.
+ */
+export function parseBelfioreCsv(text: string): { rows: BelfioreCode[]; errors: string[] } {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim());
+  const rows: BelfioreCode[] = [];
+  const errors: string[] = [];
+
+  if (lines.length < 2) {
+    return { rows, errors: ['File vuoto o senza intestazione'] };
+  }
+
+  const separator = lines[0].includes(';') ? ';' : ',';
+  const header = lines[0].split(separator).map(h => h.trim().toLowerCase());
+  const column = (names: string[]) => header.findIndex(h => names.includes(h));
+  const codeCol = column(['codice', 'codice catastale', 'code']);
+  const nameCol = column(['denominazione', 'nome', 'name']);
+  const provinceCol = column(['provincia', 'sigla provincia', 'province']);
+  const fromCol = column(['datainizio', 'data inizio', 'validfrom']);
+  const toCol = column(['datafine', 'data fine', 'validto']);
+
+  if (codeCol < 0 || nameCol < 0) {
+    return { rows, errors: ['Intestazione non valida: servono almeno le colonne codice e denominazione'] };
+  }
+
+  lines.slice(1).forEach((line, i) => {
+    const cells = line.split(separator).map(cell => cell.trim().replace(/^"|"$/g, ''));
+    const code = (cells[codeCol] || '').toUpperCase();
+    const name = (cells[nameCol] || '').toUpperCase();
+    const province = provinceCol >= 0 ? (cells[provinceCol] || '').toUpperCase() : '';
+    const validFrom = fromCol >= 0 ? parseCsvDate(cells[fromCol] || '') : null;
+    const validTo = toCol >= 0 ? parseCsvDate(cells[toCol] || '') : null;
+
+    if (!CODE_PATTERN.test(code) || !name) {
+      errors.push(`Riga ${i + 2}: codice o denominazione non validi`);
+      return;
+    }
+    if (validFrom === undefined || validTo === undefined) {
+      errors.push(`Riga ${i + 2}: data non valida`);
+      return;
+    }
+
+    const kind = code.startsWith('Z') ? 'estero' : 'comune';
+    rows.push({
+      code,
+      name,
+      province: kind === 'estero' || province === 'EE' || !province ? null : province,
+      kind,
+      validFrom,
+      validTo,
+    });
+  });
+
+  return { rows, errors };
+}
+
+/**
+ * Salva l'elenco: con replace sostituisce l'intera tabella, altrimenti solo le righe
+ * dei codici presenti nel file (le altre restano invariate)
+ */
+export async function saveBelfioreCodes(db: D1Database, rows: BelfioreCode[], replace: boolean): Promise<number> {
+  const now = new Date().toISOString();
+  const insert = db.prepare(`
+    INSERT INTO belfioreCodes (code, name, province, kind, validFrom, validTo, updatedAt)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  const remove = db.prepare('DELETE FROM belfioreCodes WHERE code = ?');
+
+  // Le righe di uno stesso codice restano nello stesso batch insieme alla loro cancellazione
+  const byCode = new Map<string, BelfioreCode[]>();
+  for (const row of rows) {
+    byCode.set(row.code, [...(byCode.get(row.code) || []), row]);
+  }
+
+  if (replace) {
+    await db.prepare('DELETE FROM belfioreCodes').run();
+  }
+
+  let statements: D1PreparedStatement[] = [];
+  for (const [code, group] of byCode) {
+    if (!replace) statements.push(remove.bind(code));
+    for (const row of group) {
+      statements.push(insert.bind(row.code, row.name, row.province, row.kind, row.validFrom, row.validTo, now));
+    }
+    if (statements.length >= LOAD_BATCH_SIZE) {
+      await db.batch(statements);
+      statements = [];
+    }
+  }
+  if (statements.length > 0) {
+    await db.batch(statements);
+  }
+
+  return rows.length;
+}
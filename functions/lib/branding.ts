@@ -0,0 +1,35 @@
+/**
+ * Carta intestata del cliente lato server (caricamento da D1).
+ * Tipi e intestazione PDF sono condivisi con il frontend (src/lib/branding.ts).
+ */
+
+import { defaultBranding } from '../../src/lib/branding';
+import type { ClientBranding } from '../../src/lib/branding';
+
+type BrandingRow = Omit<ClientBranding, 'name'> & { clientName: string };
+
+/**
+ * Carta intestata del cliente (nome del cliente e colori predefiniti se mai configurata)
+ */
+export async function loadBranding(db: D1Database, clientId: number): Promise<ClientBranding> {
+  const row = await db.prepare(`
+    SELECT c.name AS clientName, b.legalName, b.vatNumber, b.fiscalCode, b.address, b.city, b.province,
+      b.zipCode, b.phone, b.email, b.website, b.accreditationNumbers, b.logo, b.primaryColor, b.secondaryColor
+    FROM clients c
+    LEFT JOIN clientBranding b ON b.clientId = c.id
+    WHERE c.id = ?
+  `).bind(clientId).first<BrandingRow>();
+
+  if (!row) return defaultBranding('GestionaleSicurezza');
+
+  const { clientName, ...branding } = row;
+  const defaults = defaultBranding(branding.legalName || clientName);
+
+  return {
+    ...defaults,
+    ...branding,
+    name: defaults.name,
+    primaryColor: branding.primaryColor || defaults.primaryColor,
+    secondaryColor: branding.secondaryColor || defaults.secondaryColor,
+  };
+}
@@ -0,0 +1,190 @@
+/**
+ * Attestato PDF - Generazione lato server
+ *
+ * Layout conforme all'art. 37 D.Lgs. 81/08 e all'Accordo Stato-Regioni:
+ * soggetto formatore, dati anagrafici del lavoratore, corso e durata,
+ * periodo e sede di svolgimento, docente, frequenza ed esito della verifica.
+ * Il QR code in alto a destra rimanda alla pagina pubblica di verifica.
+ */
+
+import { jsPDF } from 'jspdf';
+import qrcode from 'qrcode-generator';
+import { drawPdfLogo, hexToRgb } from '../../src/lib/branding';
+import type { ClientBranding } from '../../src/lib/branding';
+import type { CertificatePayload, CertificateRecord } from './certificates';
+
+function formatDate(value: string | null): string {
+  if (!value) return '-';
+  const [year, month, day] = value.substring(0, 10).split('-');
+  return `${day}/${month}/${year}`;
+}
+
+/**
+ * Disegna un QR code vettoriale (moduli pieni) nel riquadro indicato
+ */
+function drawQrCode(doc: jsPDF, text: string, x: number, y: number, size: number) {
+  const qr = qrcode(0, 'M');
+  qr.addData(text);
+  qr.make();
+
+  const count = qr.getModuleCount();
+  const cell = size / count;
+  doc.setFillColor(0, 0, 0);
+  for (let row = 0; row < count; row++) {
+    for (let col = 0; col < count; col++) {
+      if (qr.isDark(row, col)) {
+        doc.rect(x + col * cell, y + row * cell, cell, cell, 'F');
+      }
+    }
+  }
+}
+
+/**
+ * Genera il PDF dell'attestato a partire dal record salvato.
+ * Data di creazione e file ID sono fissati dal record, quindi la ristampa è identica;
+ * logo e colori sono quelli attuali della carta intestata.
+ */
+export function renderCertificatePdf(certificate: CertificateRecord, verificationUrl: string, branding: ClientBranding): ArrayBuffer {
+  const data = JSON.parse(certificate.payload) as CertificatePayload;
+
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
+  doc.setCreationDate(new Date(certificate.createdAt));
+  doc.setFileId(String(certificate.id).padStart(32, '0'));
+  doc.setProperties({
+    title: `Attestato ${certificate.certificateNumber}`,
+    subject: data.courseTitle,
+    author: data.trainingProviderName,
+  });
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const center = pageWidth / 2;
+  const primaryColor = hexToRgb(branding.primaryColor);
+  let y = 28;
+
+  // Cornice
+  doc.setDrawColor(...primaryColor);
+  doc.setLineWidth(1.2);
+  doc.rect(8, 8, pageWidth - 16, pageHeight - 16);
+  doc.setLineWidth(0.3);
+  doc.rect(11, 11, pageWidth - 22, pageHeight - 22);
+
+  // QR code di verifica
+  const qrSize = 26;
+  const qrX = pageWidth - 20 - qrSize;
+  drawQrCode(doc, verificationUrl, qrX, 16, qrSize);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(7);
+  doc.text('Verifica autenticità', qrX + qrSize / 2, 16 + qrSize + 4, { align: 'center' });
+
+  // Logo dell'ente in alto a sinistra
+  drawPdfLogo(doc, branding, 20, 16, 18, 60);
+
+  // Soggetto formatore
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(13);
+  doc.setTextColor(...primaryColor);
+  doc.text(data.trainingProviderName, center, y, { align: 'center' });
+  if (data.trainingProviderDetails?.length) {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(90, 90, 90);
+    for (const line of data.trainingProviderDetails) {
+      y += 4;
+      doc.text(line, center, y, { align: 'center' });
+    }
+    y += 10;
+  } else {
+    y += 14;
+  }
+
+  // Titolo
+  doc.setTextColor(0, 0, 0);
+  doc.setFontSize(26);
+  doc.text('ATTESTATO DI FORMAZIONE', center, y, { align: 'center' });
+  y += 7;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text(
+    'rilasciato ai sensi dell\'art. 37 del D.Lgs. 81/2008 e s.m.i. e dell\'Accordo Stato-Regioni in materia di formazione',
+    center, y, { align: 'center' }
+  );
+  y += 14;
+
+  // Lavoratore
+  doc.setFontSize(12);
+  doc.text('Si attesta che', center, y, { align: 'center' });
+  y += 9;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(20);
+  doc.text(`${data.studentFirstName} ${data.studentLastName}`.toUpperCase(), center, y, { align: 'center' });
+  y += 7;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(11);
+  const birth = [
+    data.studentBirthPlace ? `nato/a a ${data.studentBirthPlace}` : '',
+    data.studentBirthDate ? `il ${formatDate(data.studentBirthDate)}` : '',
+  ].filter(Boolean).join(' ');
+  doc.text([birth, `Codice Fiscale: ${data.studentFiscalCode}`].filter(Boolean).join(' - '), center, y, { align: 'center' });
+  y += 6;
+  if (data.companyName) {
+    doc.text(`Azienda: ${data.companyName}`, center, y, { align: 'center' });
+    y += 6;
+  }
+  y += 4;
+
+  // Corso
+  doc.setFontSize(12);
+  doc.text('ha frequentato il corso', center, y, { align: 'center' });
+  y += 9;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  const titleLines = doc.splitTextToSize(data.courseTitle, pageWidth - 60);
+  doc.text(titleLines, center, y, { align: 'center' });
+  y += titleLines.length * 7;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(11);
+  doc.text(
+    `Codice corso ${data.courseCode} - durata ${data.courseDurationHours} ore`,
+    center, y, { align: 'center' }
+  );
+  y += 6;
+  const period = data.editionStartDate === data.editionEndDate
+    ? `svoltosi il ${formatDate(data.editionStartDate)}`
+    : `svoltosi dal ${formatDate(data.editionStartDate)} al ${formatDate(data.editionEndDate)}`;
+  doc.text(
+    data.editionLocation ? `${period} presso ${data.editionLocation}` : period,
+    center, y, { align: 'center' }
+  );
+  y += 6;
+  doc.text(
+    `con una frequenza pari al ${data.attendancePercent}% delle ore previste, superando con esito positivo la verifica finale dell'apprendimento.`,
+    center, y, { align: 'center' }
+  );
+
+  // Dati attestato
+  const bottom = pageHeight - 38;
+  doc.setFontSize(10);
+  doc.text(`Attestato n. ${certificate.certificateNumber}`, 22, bottom);
+  doc.text(`Data di rilascio: ${formatDate(certificate.issueDate)}`, 22, bottom + 6);
+  doc.text(
+    certificate.expiryDate ? `Valido fino al: ${formatDate(certificate.expiryDate)}` : 'Validità: non soggetto a scadenza',
+    22, bottom + 12
+  );
+
+  // Firme
+  const signatureWidth = 60;
+  const instructorX = center - signatureWidth / 2 + 20;
+  const directorX = pageWidth - 22 - signatureWidth;
+  doc.text('Il Docente', instructorX + signatureWidth / 2, bottom, { align: 'center' });
+  doc.line(instructorX, bottom + 12, instructorX + signatureWidth, bottom + 12);
+  if (data.instructorName) {
+    doc.setFontSize(9);
+    doc.text(data.instructorName, instructorX + signatureWidth / 2, bottom + 17, { align: 'center' });
+    doc.setFontSize(10);
+  }
+  doc.text('Il Responsabile del Soggetto Formatore', directorX + signatureWidth / 2, bottom, { align: 'center' });
+  doc.line(directorX, bottom + 12, directorX + signatureWidth, bottom + 12);
+
+  return doc.output('arraybuffer');
+}
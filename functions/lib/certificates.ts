@@ -0,0 +1,279 @@
+/**
+ * Attestati - Emissione e numerazione
+ *
+ * Raccoglie i dati di un'iscrizione completata, assegna il numero progressivo
+ * per cliente e salva uno snapshot dei dati stampati, così che ogni ristampa
+ * sia identica all'originale anche se studente o corso vengono modificati
+ * (logo e colori invece seguono la carta intestata attuale del cliente).
+ *
+ * Ogni attestato ha un codice di verifica pubblico "<token>.<firma>": il token è
+ * casuale e salvato a database, la firma HMAC evita lookup su codici inventati.
+ */
+
+import { brandingDetails } from '../../src/lib/branding';
+import { validateCertificateEligibility } from '../../src/lib/businessLogicValidation';
+import { recomputeAttendancePercent } from './attendancePercent';
+import type { AttendanceSummary } from './attendancePercent';
+import { loadBranding } from './branding';
+import { recordAudit } from './audit';
+import type { AuditActor } from './audit';
+
+export interface CertificatePayload {
+  trainingProviderName: string;
+  // Indirizzo, dati fiscali e accreditamenti dell'ente al momento dell'emissione (assente negli attestati meno recenti)
+  trainingProviderDetails?: string[];
+  studentFirstName: string;
+  studentLastName: string;
+  studentFiscalCode: string;
+  studentBirthDate: string | null;
+  studentBirthPlace: string | null;
+  companyName: string | null;
+  courseTitle: string;
+  courseCode: string;
+  courseType: string | null;
+  courseDurationHours: number;
+  editionStartDate: string;
+  editionEndDate: string;
+  editionLocation: string | null;
+  instructorName: string | null;
+  attendancePercent: number;
+}
+
+export interface CertificateRecord {
+  id: number;
+  clientId: number;
+  registrationId: number;
+  progressive: number;
+  certificateNumber: string;
+  issueDate: string;
+  expiryDate: string | null;
+  payload: string;
+  verificationToken: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type IssueCertificateResult =
+  | { certificate: CertificateRecord; created: boolean }
+  | { error: string; status: number };
+
+const SIGNATURE_BYTES = 16;
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return toHex(new Uint8Array(signature).slice(0, SIGNATURE_BYTES));
+}
+
+/**
+ * Genera un nuovo token casuale di verifica (128 bit)
+ */
+export function generateVerificationToken(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+/**
+ * Costruisce il codice di verifica firmato da stampare nel QR
+ */
+export async function signVerificationCode(token: string, secret: string): Promise<string> {
+  return `${token}.${await hmacHex(secret, token)}`;
+}
+
+/**
+ * Controlla la firma di un codice di verifica e restituisce il token, o null se non valido
+ */
+export async function parseVerificationCode(code: string, secret: string): Promise<string | null> {
+  const [token, signature] = code.split('.');
+  if (!token || !signature || !/^[0-9a-f]{32}$/.test(token)) return null;
+
+  const expected = await hmacHex(secret, token);
+  if (expected.length !== signature.length) return null;
+
+  // Confronto a tempo costante
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return diff === 0 ? token : null;
+}
+
+/**
+ * Calcola la data di scadenza (fine edizione + mesi di validità del corso)
+ */
+export function computeExpiryDate(editionEndDate: string, validityMonths: number | null): string | null {
+  if (!editionEndDate || !validityMonths) return null;
+  const expiry = new Date(editionEndDate);
+  expiry.setMonth(expiry.getMonth() + validityMonths);
+  return expiry.toISOString().split('T')[0];
+}
+
+/**
+ * Recupera l'attestato già emesso per un'iscrizione
+ */
+export async function getCertificateByRegistration(
+  db: D1Database,
+  clientId: number,
+  registrationId: number
+): Promise<CertificateRecord | null> {
+  return await db.prepare(
+    'SELECT * FROM certificates WHERE registrationId = ? AND clientId = ?'
+  ).bind(registrationId, clientId).first<CertificateRecord>();
+}
+
+/**
+ * Revoca l'attestato di un'iscrizione: il codice di verifica smette di essere valido
+ */
+export async function revokeCertificate(
+  db: D1Database,
+  clientId: number,
+  registrationId: number
+): Promise<void> {
+  const now = new Date().toISOString();
+  await db.prepare(`
+    UPDATE certificates SET revokedAt = ?, updatedAt = ?
+    WHERE registrationId = ? AND clientId = ? AND revokedAt IS NULL
+  `).bind(now, now, registrationId, clientId).run();
+}
+
+/**
+ * Emette l'attestato per un'iscrizione completata.
+ * Se l'attestato esiste già viene restituito quello esistente (nessuna rinumerazione);
+ * se era stato revocato viene riattivato con un nuovo codice di verifica.
+ * L'emissione in blocco passa la frequenza dell'edizione appena ricalcolata (attendance),
+ * così non la ricalcola per ogni attestato.
+ * La data attestato scritta sull'iscrizione finisce nello storico modifiche a nome di auth.
+ */
+export async function issueCertificate(
+  db: D1Database,
+  request: Request,
+  auth: AuditActor,
+  registrationId: number,
+  attendance?: AttendanceSummary[]
+): Promise<IssueCertificateResult> {
+  const { clientId } = auth;
+  const existing = await getCertificateByRegistration(db, clientId, registrationId);
+  if (existing && !existing.revokedAt) {
+    return { certificate: existing, created: false };
+  }
+
+  const reg = await db.prepare(`
+    SELECT
+      r.id, r.status, r.certificateDate,
+      s.firstName, s.lastName, s.fiscalCode, s.birthDate, s.birthPlace,
+      co.name AS companyName,
+      c.title AS courseTitle, c.code AS courseCode, c.type AS courseType,
+      c.durationHours, c.certificateValidityMonths,
+      e.id AS editionId, e.startDate, e.endDate, e.location,
+      e.instructor AS instructorText,
+      i.firstName AS instructorFirstName, i.lastName AS instructorLastName
+    FROM registrations r
+    INNER JOIN students s ON s.id = r.studentId
+    INNER JOIN courseEditions e ON e.id = r.courseEditionId
+    INNER JOIN courses c ON c.id = e.courseId
+    LEFT JOIN companies co ON co.id = r.companyId
+    LEFT JOIN instructors i ON i.id = e.instructorId
+    WHERE r.id = ? AND r.clientId = ?
+  `).bind(registrationId, clientId).first<any>();
+
+  if (!reg) {
+    return { error: 'Iscrizione non trovata', status: 404 };
+  }
+
+  if (reg.status !== 'completed') {
+    return { error: 'L\'attestato può essere emesso solo per iscrizioni completate', status: 400 };
+  }
+
+  // Frequenza ricalcolata al momento: mai emettere su una percentuale non aggiornata
+  const summaries = attendance ?? await recomputeAttendancePercent(db, reg.editionId);
+  const attendancePercent = summaries.find(s => s.registrationId === registrationId)?.attendancePercent ?? 0;
+  const ineligible = validateCertificateEligibility(attendancePercent);
+  if (ineligible) {
+    return { error: ineligible.message, status: 400 };
+  }
+
+  if (existing) {
+    // I vecchi QR restano non validi: il codice riattivato è nuovo
+    const reactivated = await db.prepare(`
+      UPDATE certificates SET verificationToken = ?, revokedAt = NULL, updatedAt = ?
+      WHERE id = ?
+      RETURNING *
+    `).bind(generateVerificationToken(), new Date().toISOString(), existing.id).first<CertificateRecord>();
+    return { certificate: reactivated!, created: false };
+  }
+
+  const instructorName = reg.instructorFirstName
+    ? `${reg.instructorFirstName} ${reg.instructorLastName}`
+    : reg.instructorText || null;
+
+  const branding = await loadBranding(db, clientId);
+
+  const payload: CertificatePayload = {
+    trainingProviderName: branding.name,
+    trainingProviderDetails: brandingDetails(branding),
+    studentFirstName: reg.firstName,
+    studentLastName: reg.lastName,
+    studentFiscalCode: reg.fiscalCode,
+    studentBirthDate: reg.birthDate || null,
+    studentBirthPlace: reg.birthPlace || null,
+    companyName: reg.companyName || null,
+    courseTitle: reg.courseTitle,
+    courseCode: reg.courseCode,
+    courseType: reg.courseType || null,
+    courseDurationHours: reg.durationHours,
+    editionStartDate: reg.startDate,
+    editionEndDate: reg.endDate,
+    editionLocation: reg.location || null,
+    instructorName,
+    attendancePercent,
+  };
+
+  const now = new Date().toISOString();
+  const issueDate = reg.certificateDate || now.split('T')[0];
+  const expiryDate = computeExpiryDate(reg.endDate, reg.certificateValidityMonths);
+  const year = issueDate.substring(0, 4);
+
+  try {
+    // Il progressivo viene calcolato nella stessa istruzione di inserimento,
+    // così due emissioni concorrenti non possono ottenere lo stesso numero
+    const certificate = await db.prepare(`
+      INSERT INTO certificates (clientId, registrationId, progressive, certificateNumber, issueDate, expiryDate, payload, verificationToken, createdAt, updatedAt)
+      SELECT ?1, ?2, next.progressive, printf('%05d', next.progressive) || '/' || ?3, ?4, ?5, ?6, ?7, ?8, ?8
+      FROM (SELECT COALESCE(MAX(progressive), 0) + 1 AS progressive FROM certificates WHERE clientId = ?1) AS next
+      RETURNING *
+    `).bind(clientId, registrationId, year, issueDate, expiryDate, JSON.stringify(payload), generateVerificationToken(), now)
+      .first<CertificateRecord>();
+
+    if (!reg.certificateDate) {
+      await db.prepare('UPDATE registrations SET certificateDate = ?, updatedAt = ? WHERE id = ?')
+        .bind(issueDate, now, registrationId).run();
+      await recordAudit(db, request, auth, {
+        entityType: 'registration',
+        entityId: registrationId,
+        action: 'update',
+        before: { certificateDate: null },
+        after: { certificateDate: issueDate },
+      });
+    }
+
+    return { certificate: certificate!, created: true };
+  } catch (error: any) {
+    // Emissione concorrente per la stessa iscrizione: restituisci quella già salvata
+    const concurrent = await getCertificateByRegistration(db, clientId, registrationId);
+    if (concurrent) {
+      return { certificate: concurrent, created: false };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * Check-in con QR code - Entrata e uscita degli allievi dal proprio telefono
+ *
+ * Il QR proiettato in aula contiene "<sessionId>.<finestra>.<firma>": la finestra è il
+ * numero di intervalli di CHECK_IN_ROTATION_SECONDS trascorsi, la firma un HMAC con la
+ * chiave della sessione. Il QR cambia a ogni finestra e resta valido per
+ * CHECK_IN_TOKEN_TTL_SECONDS, il tempo di inquadrarlo e inserire il codice fiscale.
+ *
+ * Orari di sessione e timbrature si confrontano nell'ora locale italiana: le ore
+ * frequentate sono quelle tra entrata e uscita comprese nell'orario della sessione.
+ */
+
+import { recomputeAttendancePercent } from './attendancePercent';
+import { isRegisterClosed, REGISTER_CLOSED_ERROR } from './attendanceRegister';
+
+export const CHECK_IN_ROTATION_SECONDS = 30;
+export const CHECK_IN_TOKEN_TTL_SECONDS = 180;
+
+// Il check-in si apre poco prima dell'inizio e si chiude poco dopo la fine della sessione
+const CHECK_IN_MARGIN_MINUTES = 30;
+// Entrata oltre questo ritardo = stato "late"
+const LATE_AFTER_MINUTES = 10;
+// Una seconda scansione ravvicinata non vale come uscita
+const MIN_SIGN_OUT_GAP_MINUTES = 5;
+
+const SIGNATURE_BYTES = 12;
+
+export interface CheckInSession {
+  id: number;
+  clientId: number;
+  editionId: number;
+  sessionDate: string;
+  startTime: string;
+  endTime: string;
+  hours: number;
+  checkInKey: string | null;
+}
+
+interface AttendanceRow {
+  id: number;
+  signInTime: string | null;
+  signOutTime: string | null;
+}
+
+export type CheckInResult =
+  | { action: 'sign_in' | 'sign_out'; time: string; late: boolean; hoursAttended: number }
+  | { error: string; status: number };
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return toHex(new Uint8Array(signature).slice(0, SIGNATURE_BYTES));
+}
+
+/**
+ * Genera una nuova chiave di check-in per la sessione (256 bit)
+ */
+export function generateCheckInKey(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+function checkInWindow(now: Date): number {
+  return Math.floor(now.getTime() / (CHECK_IN_ROTATION_SECONDS * 1000));
+}
+
+export async function buildCheckInToken(sessionId: number, key: string, now: Date = new Date()): Promise<{ token: string; expiresAt: string }> {
+  const window = checkInWindow(now);
+  const token = `${sessionId}.${window}.${await hmacHex(key, `${sessionId}.${window}`)}`;
+  const expiresAt = new Date((window * CHECK_IN_ROTATION_SECONDS + CHECK_IN_TOKEN_TTL_SECONDS) * 1000).toISOString();
+  return { token, expiresAt };
+}
+
+/**
+ * Estrae l'ID sessione dal token, prima di caricare la chiave per verificarlo
+ */
+export function checkInTokenSessionId(token: string): number | null {
+  const match = token.match(/^(\d+)\.\d+\.[0-9a-f]+$/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+export async function verifyCheckInToken(token: string, key: string, now: Date = new Date()): Promise<boolean> {
+  const [sessionId, windowStr, signature] = token.split('.');
+  const window = parseInt(windowStr, 10);
+  if (!sessionId || isNaN(window) || !signature) return false;
+
+  const issuedAt = window * CHECK_IN_ROTATION_SECONDS * 1000;
+  if (now.getTime() < issuedAt || now.getTime() >= issuedAt + CHECK_IN_TOKEN_TTL_SECONDS * 1000) return false;
+
+  const expected = await hmacHex(key, `${sessionId}.${window}`);
+  if (expected.length !== signature.length) return false;
+
+  // Confronto a tempo costante
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Data e minuti dalla mezzanotte nell'ora locale italiana
+ */
+export function romeLocalTime(instant: Date): { date: string; minutes: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-GB', {
+      timeZone: 'Europe/Rome',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(instant).map(part => [part.type, part.value])
+  );
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: parseInt(parts.hour, 10) * 60 + parseInt(parts.minute, 10),
+  };
+}
+
+function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(n => parseInt(n, 10));
+  return hours * 60 + (minutes || 0);
+}
+
+/**
+ * Ore frequentate tra entrata e uscita, limitate all'orario della sessione (due decimali)
+ */
+export function attendedHours(signInTime: string, signOutTime: string, session: Pick<CheckInSession, 'sessionDate' | 'startTime' | 'endTime'>): number {
+  const toSessionMinutes = (instant: string) => {
+    const local = romeLocalTime(new Date(instant));
+    // Timbrature di altri giorni: prima o dopo l'intera sessione
+    if (local.date < session.sessionDate) return 0;
+    if (local.date > session.sessionDate) return 24 * 60;
+    return local.minutes;
+  };
+
+  const start = Math.max(toSessionMinutes(signInTime), timeToMinutes(session.startTime));
+  const end = Math.min(toSessionMinutes(signOutTime), timeToMinutes(session.endTime));
+  return end > start ? Math.round(((end - start) / 60) * 100) / 100 : 0;
+}
+
+/**
+ * Il check-in della sessione è aperto in questo momento?
+ */
+export function isCheckInOpen(session: Pick<CheckInSession, 'sessionDate' | 'startTime' | 'endTime'>, now: Date = new Date()): boolean {
+  const local = romeLocalTime(now);
+  return local.date === session.sessionDate
+    && local.minutes >= timeToMinutes(session.startTime) - CHECK_IN_MARGIN_MINUTES
+    && local.minutes <= timeToMinutes(session.endTime) + CHECK_IN_MARGIN_MINUTES;
+}
+
+/**
+ * Registra entrata o uscita dell'iscrizione: la prima scansione è l'entrata,
+ * la successiva l'uscita con il calcolo delle ore
+ */
+export async function recordCheckIn(
+  db: D1Database,
+  session: CheckInSession,
+  registration: { id: number; studentId: number },
+  now: Date = new Date()
+): Promise<CheckInResult> {
+  if (await isRegisterClosed(db, session.clientId, session.editionId)) {
+    return { error: REGISTER_CLOSED_ERROR, status: 409 };
+  }
+
+  const timestamp = now.toISOString();
+  const existing = await db.prepare(
+    'SELECT id, signInTime, signOutTime FROM attendances WHERE sessionId = ? AND registrationId = ?'
+  ).bind(session.id, registration.id).first<AttendanceRow>();
+
+  if (!existing?.signInTime) {
+    const late = romeLocalTime(now).minutes > timeToMinutes(session.startTime) + LATE_AFTER_MINUTES;
+    const status = late ? 'late' : 'present';
+
+    if (existing) {
+      // Presenza già creata dal docente senza timbratura
+      await db.prepare(`
+        UPDATE attendances SET signInTime = ?, signOutTime = NULL, signatureMethod = 'qr_code', status = ?, hoursAttended = 0, updatedAt = ?
+        WHERE id = ?
+      `).bind(timestamp, status, timestamp, existing.id).run();
+    } else {
+      await db.prepare(`
+        INSERT INTO attendances (clientId, registrationId, studentId, courseEditionId, sessionId, attendanceDate,
+          signInTime, signatureMethod, status, hoursAttended, createdAt, updatedAt)
+        VALUES (?, ?, ?, ?, ?, ?, ?, 'qr_code', ?, 0, ?, ?)
+      `).bind(
+        session.clientId, registration.id, registration.studentId, session.editionId, session.id, session.sessionDate,
+        timestamp, status, timestamp, timestamp
+      ).run();
+    }
+
+    await recomputeAttendancePercent(db, session.editionId);
+
+    return { action: 'sign_in', time: timestamp, late, hoursAttended: 0 };
+  }
+
+  if (existing.signOutTime) {
+    return { error: 'Entrata e uscita sono già registrate per questa sessione', status: 409 };
+  }
+
+  if (now.getTime() - new Date(existing.signInTime).getTime() < MIN_SIGN_OUT_GAP_MINUTES * 60 * 1000) {
+    return { error: 'Entrata già registrata: inquadra di nuovo il QR a fine lezione per l\'uscita', status: 409 };
+  }
+
+  const hoursAttended = attendedHours(existing.signInTime, timestamp, session);
+  await db.prepare(`
+    UPDATE attendances SET signOutTime = ?, hoursAttended = ?, updatedAt = ? WHERE id = ?
+  `).bind(timestamp, hoursAttended, timestamp, existing.id).run();
+
+  await recomputeAttendancePercent(db, session.editionId);
+
+  return { action: 'sign_out', time: timestamp, late: false, hoursAttended };
+}
@@ -0,0 +1,104 @@
+/**
+ * Provvigioni agenti lato server - Caricamento regole e righe degli estratti conto
+ *
+ * Le regole di calcolo sono condivise con il frontend (src/lib/commissions.ts).
+ * Un'iscrizione è dell'agente dello studente o, se lo studente non ha agente,
+ * dell'agente dell'azienda (stessa regola del listino agenti in pricing.ts).
+ */
+
+import { calculateCommission, findCommissionRule, isCommissionMatured } from '../../src/lib/commissions';
+import type { CommissionLine, CommissionRule } from '../../src/lib/commissions';
+
+export type NewCommissionLine = Omit<CommissionLine, 'id'>;
+
+export const PERIOD_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+interface CandidateRow {
+  registrationId: number;
+  registrationDate: string;
+  priceApplied: number;
+  invoiceStatus: string | null;
+  studentName: string;
+  courseTitle: string;
+  courseType: string | null;
+}
+
+/**
+ * Primo giorno del mese successivo al periodo (YYYY-MM), limite escluso dell'estratto conto
+ */
+export function periodEnd(period: string): string {
+  const [year, month] = period.split('-').map(Number);
+  return month === 12 ? `${year + 1}-01-01` : `${year}-${String(month + 1).padStart(2, '0')}-01`;
+}
+
+export async function agentExists(db: D1Database, clientId: number, agentId: number): Promise<boolean> {
+  const agent = await db.prepare(
+    'SELECT id FROM agents WHERE id = ? AND clientId = ?'
+  ).bind(agentId, clientId).first();
+  return !!agent;
+}
+
+export async function loadCommissionRules(db: D1Database, clientId: number, agentId: number): Promise<CommissionRule[]> {
+  const { results } = await db.prepare(`
+    SELECT id, agentId, courseType, commissionType, value, accrueOn, validFrom, validTo, notes
+    FROM agentCommissionRules
+    WHERE clientId = ? AND agentId = ?
+    ORDER BY validFrom DESC
+  `).bind(clientId, agentId).all<CommissionRule>();
+  return results || [];
+}
+
+/**
+ * Righe di un estratto conto: iscrizioni dell'agente fino alla fine del periodo, con
+ * provvigione maturata e non già presenti in un altro estratto conto. Le iscrizioni
+ * non ancora maturate (o senza regola applicabile) restano per i mesi successivi.
+ */
+export async function computeStatementLines(
+  db: D1Database,
+  clientId: number,
+  agentId: number,
+  period: string,
+  statementId: number | null = null
+): Promise<{ lines: NewCommissionLine[]; pendingCount: number }> {
+  const rules = await loadCommissionRules(db, clientId, agentId);
+
+  const { results } = await db.prepare(`
+    SELECT r.id AS registrationId, r.registrationDate, r.priceApplied, r.invoiceStatus,
+      s.firstName || ' ' || s.lastName AS studentName, c.title AS courseTitle, c.type AS courseType
+    FROM registrations r
+    JOIN students s ON s.id = r.studentId
+    JOIN courseEditions ce ON ce.id = r.courseEditionId
+    JOIN courses c ON c.id = ce.courseId
+    LEFT JOIN companies co ON co.id = r.companyId
+    WHERE r.clientId = ? AND r.status != 'cancelled' AND r.registrationDate < ?
+      AND (s.agentId = ? OR (s.agentId IS NULL AND co.agentId = ?))
+      AND NOT EXISTS (
+        SELECT 1 FROM agentCommissionLines l WHERE l.registrationId = r.id AND l.statementId != ?
+      )
+    ORDER BY r.registrationDate
+  `).bind(clientId, periodEnd(period), agentId, agentId, statementId ?? 0).all<CandidateRow>();
+
+  const lines: NewCommissionLine[] = [];
+  let pendingCount = 0;
+
+  for (const row of results || []) {
+    const rule = findCommissionRule(rules, row.courseType, row.registrationDate);
+    if (!rule || !isCommissionMatured(rule.accrueOn, row.invoiceStatus)) {
+      pendingCount++;
+      continue;
+    }
+
+    lines.push({
+      registrationId: row.registrationId,
+      ruleId: rule.id,
+      studentName: row.studentName,
+      courseTitle: row.courseTitle,
+      registrationDate: row.registrationDate,
+      priceApplied: row.priceApplied,
+      invoiceStatus: row.invoiceStatus,
+      commissionAmount: calculateCommission(rule, row.priceApplied),
+    });
+  }
+
+  return { lines, pendingCount };
+}
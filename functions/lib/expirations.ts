@@ -0,0 +1,87 @@
+/**
+ * Scadenze attestati - Calcolo condiviso tra elenco scadenze e promemoria automatici
+ *
+ * La scadenza è quella salvata sull'attestato emesso (certificates.expiryDate):
+ * gli attestati senza scadenza (corso senza validità) o revocati non generano promemoria.
+ */
+
+export interface IssuedCertificate {
+  registrationId: number;
+  courseEditionId: number;
+  courseTitle: string;
+  studentId: number;
+  studentFirstName: string;
+  studentLastName: string;
+  studentName: string;
+  studentEmail: string | null;
+  companyId: number | null;
+  companyName: string | null;
+  companyEmail: string | null;
+  agentId: number | null;
+  agentName: string | null;
+  agentEmail: string | null;
+  certificateIssuedAt: string;
+  expirationDate: Date;
+  daysUntilExpiration: number;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Calcola la data di scadenza del certificato
+export function calculateExpirationDate(issuedAt: string, validityMonths: number): Date {
+  const issued = new Date(issuedAt);
+  const expiration = new Date(issued);
+  expiration.setMonth(expiration.getMonth() + validityMonths);
+  return expiration;
+}
+
+export function daysUntil(date: Date, today: Date = new Date()): number {
+  return Math.floor((date.getTime() - today.getTime()) / DAY_MS);
+}
+
+/**
+ * Attestati emessi dal cliente con una scadenza, con destinatari dei promemoria
+ * (l'agente è quello dell'azienda o, in mancanza, dello studente)
+ */
+export async function loadIssuedCertificates(
+  db: D1Database,
+  clientId: number,
+  today: Date = new Date()
+): Promise<IssuedCertificate[]> {
+  const { results } = await db.prepare(`
+    SELECT
+      r.id AS registrationId,
+      r.courseEditionId,
+      cert.issueDate AS certificateIssuedAt,
+      cert.expiryDate,
+      c.title AS courseTitle,
+      s.id AS studentId,
+      s.firstName AS studentFirstName,
+      s.lastName AS studentLastName,
+      s.firstName || ' ' || s.lastName AS studentName,
+      s.email AS studentEmail,
+      co.id AS companyId,
+      co.name AS companyName,
+      co.email AS companyEmail,
+      a.id AS agentId,
+      a.name AS agentName,
+      a.email AS agentEmail
+    FROM certificates cert
+    JOIN registrations r ON r.id = cert.registrationId
+    JOIN students s ON s.id = r.studentId
+    JOIN courseEditions ce ON ce.id = r.courseEditionId
+    JOIN courses c ON c.id = ce.courseId
+    LEFT JOIN companies co ON co.id = r.companyId
+    LEFT JOIN agents a ON a.id = COALESCE(co.agentId, s.agentId)
+    WHERE cert.clientId = ? AND cert.revokedAt IS NULL AND cert.expiryDate IS NOT NULL
+  `).bind(clientId).all<Omit<IssuedCertificate, 'expirationDate' | 'daysUntilExpiration'> & { expiryDate: string }>();
+
+  return (results || []).map(({ expiryDate, ...row }) => {
+    const expirationDate = new Date(expiryDate);
+    return {
+      ...row,
+      expirationDate,
+      daysUntilExpiration: daysUntil(expirationDate, today),
+    };
+  });
+}
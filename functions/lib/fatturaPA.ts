@@ -0,0 +1,344 @@
+/**
+ * FatturaPA 1.2.x - XML della fattura elettronica per lo SDI
+ *
+ * Il documento si costruisce dalla copia locale della fattura (tabelle invoices e
+ * invoiceLines), con intestatario e righe nel formato InvoiceData di src/lib/invoicing.ts.
+ * Il cedente è l'ente formatore (carta intestata). Prima di generare l'XML vanno
+ * controllati i campi obbligatori dello schema con validateFatturaPA.
+ */
+
+import { loadBranding } from './branding';
+import type { ClientBranding } from '../../src/lib/branding';
+import type { InvoiceData, InvoiceItem } from '../../src/lib/invoicing';
+
+export interface FatturaPADocument {
+  supplier: ClientBranding;
+  customer: InvoiceData;
+  number: string;
+  date: string;
+  dueDate: string | null;
+  totalAmount: number;
+  // ProgressivoInvio: univoco per ente, 5 caratteri alfanumerici nel nome del file
+  progressive: string;
+}
+
+interface VatSummary {
+  vatRate: number;
+  taxableAmount: number;
+  vatAmount: number;
+}
+
+// Codice destinatario per chi riceve tramite PEC o cassetto fiscale (privati)
+export const DEFAULT_RECIPIENT_CODE = '0000000';
+
+// Formazione esente IVA (art. 10 n. 20 DPR 633/72) quando l'aliquota è 0
+const EXEMPT_NATURE = 'N4';
+const EXEMPT_REFERENCE = 'Esente art. 10 n. 20 DPR 633/72';
+
+const FPR12_NAMESPACE = 'http://ivaservizi.agenziaentrate.gov.it/docs/xsd/fatture/v1.2';
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function element(name: string, value: string | null | undefined): string {
+  return value ? `<${name}>${escapeXml(value)}</${name}>` : '';
+}
+
+// Importi in centesimi → "1234.50"
+function amount(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+function lineTotal(item: InvoiceItem): number {
+  const gross = item.quantity * item.unitPrice;
+  return Math.round(gross - (item.discount ? (gross * item.discount) / 100 : 0));
+}
+
+function cleanVatNumber(value: string | null | undefined): string {
+  return (value || '').replace(/^IT/i, '').replace(/\s/g, '');
+}
+
+/**
+ * Riepilogo per aliquota: l'imposta si calcola sul totale imponibile dell'aliquota
+ */
+function summarizeVat(items: InvoiceItem[]): VatSummary[] {
+  const byRate = new Map<number, number>();
+  for (const item of items) {
+    byRate.set(item.vatRate, (byRate.get(item.vatRate) || 0) + lineTotal(item));
+  }
+  return [...byRate.entries()].map(([vatRate, taxableAmount]) => ({
+    vatRate,
+    taxableAmount,
+    vatAmount: Math.round((taxableAmount * vatRate) / 100),
+  }));
+}
+
+/**
+ * Nome del file per lo SDI: IT + identificativo del trasmittente + progressivo
+ */
+export function fatturaPAFilename(doc: FatturaPADocument): string {
+  const sender = doc.supplier.fiscalCode || cleanVatNumber(doc.supplier.vatNumber);
+  return `IT${sender}_${doc.progressive}.xml`;
+}
+
+/**
+ * Controlla i campi obbligatori dello schema FatturaPA: restituisce gli errori (vuoto se valido)
+ */
+export function validateFatturaPA(doc: FatturaPADocument): string[] {
+  const errors: string[] = [];
+  const { supplier, customer } = doc;
+
+  // Cedente / prestatore (carta intestata)
+  if (!/^\d{11}$/.test(cleanVatNumber(supplier.vatNumber))) {
+    errors.push('Partita IVA dell\'ente mancante o non valida (Impostazioni → Carta Intestata)');
+  }
+  if (!supplier.address) errors.push('Indirizzo dell\'ente mancante (Impostazioni → Carta Intestata)');
+  if (!supplier.zipCode || !/^\d{5}$/.test(supplier.zipCode)) errors.push('CAP dell\'ente mancante o non valido');
+  if (!supplier.city) errors.push('Comune dell\'ente mancante');
+  if (supplier.province && !/^[A-Z]{2}$/.test(supplier.province)) errors.push('Provincia dell\'ente non valida (sigla di 2 lettere)');
+
+  // Cessionario / committente
+  if (!customer.clientName) errors.push('Denominazione dell\'intestatario mancante');
+  if (customer.clientName && customer.clientName.length > 80) errors.push('Denominazione dell\'intestatario oltre 80 caratteri');
+  if (customer.clientVatNumber) {
+    if (!/^\d{11}$/.test(cleanVatNumber(customer.clientVatNumber))) errors.push('Partita IVA dell\'intestatario non valida');
+  } else if (!customer.clientTaxCode) {
+    errors.push('Intestatario senza partita IVA né codice fiscale');
+  } else if (!/^([A-Z0-9]{16}|\d{11})$/i.test(customer.clientTaxCode)) {
+    errors.push('Codice fiscale dell\'intestatario non valido');
+  }
+  if (!customer.clientAddress) errors.push('Indirizzo dell\'intestatario mancante');
+  if (customer.clientAddress && customer.clientAddress.length > 60) errors.push('Indirizzo dell\'intestatario oltre 60 caratteri');
+  if (!customer.clientPostalCode || !/^\d{5}$/.test(customer.clientPostalCode)) errors.push('CAP dell\'intestatario mancante o non valido');
+  if (!customer.clientCity) errors.push('Comune dell\'intestatario mancante');
+  if (customer.clientRecipientCode && !/^[A-Z0-9]{7}$/.test(customer.clientRecipientCode)) {
+    errors.push('Codice destinatario dell\'intestatario non valido (7 caratteri alfanumerici)');
+  }
+
+  // Dati generali e righe
+  if (!doc.number || doc.number.length > 20 || !/\d/.test(doc.number)) errors.push('Numero fattura non valido');
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(doc.date)) errors.push('Data fattura non valida');
+  if (customer.items.length === 0) errors.push('La fattura non ha righe');
+  customer.items.forEach((item, index) => {
+    if (!item.description || item.description.length > 1000) errors.push(`Riga ${index + 1}: descrizione mancante o oltre 1000 caratteri`);
+    if (!(item.quantity > 0)) errors.push(`Riga ${index + 1}: quantità non valida`);
+    if (item.unitPrice < 0) errors.push(`Riga ${index + 1}: prezzo non valido`);
+    if (item.vatRate < 0 || item.vatRate > 100) errors.push(`Riga ${index + 1}: aliquota IVA non valida`);
+  });
+
+  return errors;
+}
+
+/**
+ * XML FatturaPA (formato FPR12, fattura tra privati). Il documento va prima validato.
+ */
+export function buildFatturaPAXml(doc: FatturaPADocument): string {
+  const { supplier, customer } = doc;
+  const supplierVat = cleanVatNumber(supplier.vatNumber);
+  const customerVat = cleanVatNumber(customer.clientVatNumber);
+  const summaries = summarizeVat(customer.items);
+  const documentTotal = summaries.reduce((sum, s) => sum + s.taxableAmount + s.vatAmount, 0);
+
+  const lines = customer.items.map((item, index) => [
+    '<DettaglioLinee>',
+    `<NumeroLinea>${index + 1}</NumeroLinea>`,
+    element('Descrizione', item.description),
+    `<Quantita>${item.quantity.toFixed(2)}</Quantita>`,
+    `<PrezzoUnitario>${amount(item.unitPrice)}</PrezzoUnitario>`,
+    item.discount
+      ? `<ScontoMaggiorazione><Tipo>SC</Tipo><Percentuale>${item.discount.toFixed(2)}</Percentuale></ScontoMaggiorazione>`
+      : '',
+    `<PrezzoTotale>${amount(lineTotal(item))}</PrezzoTotale>`,
+    `<AliquotaIVA>${item.vatRate.toFixed(2)}</AliquotaIVA>`,
+    item.vatRate === 0 ? `<Natura>${EXEMPT_NATURE}</Natura>` : '',
+    '</DettaglioLinee>',
+  ].join(''));
+
+  const vatSummaries = summaries.map(summary => [
+    '<DatiRiepilogo>',
+    `<AliquotaIVA>${summary.vatRate.toFixed(2)}</AliquotaIVA>`,
+    summary.vatRate === 0 ? `<Natura>${EXEMPT_NATURE}</Natura>` : '',
+    `<ImponibileImporto>${amount(summary.taxableAmount)}</ImponibileImporto>`,
+    `<Imposta>${amount(summary.vatAmount)}</Imposta>`,
+    summary.vatRate === 0 ? '' : '<EsigibilitaIVA>I</EsigibilitaIVA>',
+    summary.vatRate === 0 ? element('RiferimentoNormativo', EXEMPT_REFERENCE) : '',
+    '</DatiRiepilogo>',
+  ].join(''));
+
+  const payment = doc.dueDate
+    ? [
+        '<DatiPagamento>',
+        '<CondizioniPagamento>TP02</CondizioniPagamento>',
+        '<DettaglioPagamento>',
+        '<ModalitaPagamento>MP05</ModalitaPagamento>',
+        `<DataScadenzaPagamento>${doc.dueDate.slice(0, 10)}</DataScadenzaPagamento>`,
+        `<ImportoPagamento>${amount(documentTotal)}</ImportoPagamento>`,
+        '</DettaglioPagamento>',
+        '</DatiPagamento>',
+      ].join('')
+    : '';
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<p:FatturaElettronica versione="FPR12" xmlns:ds="http://www.w3.org/2000/09/xmldsig#" xmlns:p="${FPR12_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${FPR12_NAMESPACE} http://www.fatturapa.gov.it/export/fatturazione/sdi/fatturapa/v1.2/Schema_del_file_xml_FatturaPA_versione_1.2.xsd">`,
+    '<FatturaElettronicaHeader>',
+    '<DatiTrasmissione>',
+    `<IdTrasmittente><IdPaese>IT</IdPaese>${element('IdCodice', supplier.fiscalCode || supplierVat)}</IdTrasmittente>`,
+    element('ProgressivoInvio', doc.progressive),
+    '<FormatoTrasmissione>FPR12</FormatoTrasmissione>',
+    element('CodiceDestinatario', customer.clientRecipientCode || DEFAULT_RECIPIENT_CODE),
+    element('PECDestinatario', customer.clientRecipientCode ? null : customer.clientPec),
+    '</DatiTrasmissione>',
+    '<CedentePrestatore>',
+    '<DatiAnagrafici>',
+    `<IdFiscaleIVA><IdPaese>IT</IdPaese>${element('IdCodice', supplierVat)}</IdFiscaleIVA>`,
+    element('CodiceFiscale', supplier.fiscalCode),
+    `<Anagrafica>${element('Denominazione', supplier.legalName || supplier.name)}</Anagrafica>`,
+    '<RegimeFiscale>RF01</RegimeFiscale>',
+    '</DatiAnagrafici>',
+    '<Sede>',
+    element('Indirizzo', supplier.address),
+    element('CAP', supplier.zipCode),
+    element('Comune', supplier.city),
+    element('Provincia', supplier.province),
+    '<Nazione>IT</Nazione>',
+    '</Sede>',
+    '</CedentePrestatore>',
+    '<CessionarioCommittente>',
+    '<DatiAnagrafici>',
+    customerVat ? `<IdFiscaleIVA><IdPaese>IT</IdPaese>${element('IdCodice', customerVat)}</IdFiscaleIVA>` : '',
+    element('CodiceFiscale', customer.clientTaxCode?.toUpperCase()),
+    `<Anagrafica>${element('Denominazione', customer.clientName)}</Anagrafica>`,
+    '</DatiAnagrafici>',
+    '<Sede>',
+    element('Indirizzo', customer.clientAddress),
+    element('CAP', customer.clientPostalCode),
+    element('Comune', customer.clientCity),
+    element('Provincia', customer.clientProvince),
+    element('Nazione', customer.clientCountry || 'IT'),
+    '</Sede>',
+    '</CessionarioCommittente>',
+    '</FatturaElettronicaHeader>',
+    '<FatturaElettronicaBody>',
+    '<DatiGenerali>',
+    '<DatiGeneraliDocumento>',
+    '<TipoDocumento>TD01</TipoDocumento>',
+    '<Divisa>EUR</Divisa>',
+    element('Data', doc.date.slice(0, 10)),
+    element('Numero', doc.number),
+    `<ImportoTotaleDocumento>${amount(documentTotal)}</ImportoTotaleDocumento>`,
+    '</DatiGeneraliDocumento>',
+    '</DatiGenerali>',
+    '<DatiBeniServizi>',
+    ...lines,
+    ...vatSummaries,
+    '</DatiBeniServizi>',
+    payment,
+    '</FatturaElettronicaBody>',
+    '</p:FatturaElettronica>',
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * Documento FatturaPA di una fattura salvata (null se non esiste o è annullata).
+ * L'intestatario è l'azienda o, per le fatture ai privati, lo studente della prima riga.
+ */
+export async function loadFatturaPADocument(
+  db: D1Database,
+  clientId: number,
+  invoiceId: number
+): Promise<FatturaPADocument | null> {
+  const invoice = await db.prepare(`
+    SELECT id, companyId, number, date, dueDate, customerName, totalAmount
+    FROM invoices
+    WHERE id = ? AND clientId = ? AND status != 'cancelled'
+  `).bind(invoiceId, clientId).first<{
+    id: number;
+    companyId: number | null;
+    number: string;
+    date: string;
+    dueDate: string | null;
+    customerName: string;
+    totalAmount: number;
+  }>();
+
+  if (!invoice) return null;
+
+  const { results: lines } = await db.prepare(`
+    SELECT registrationId, description, quantity, unitPrice, vatRate
+    FROM invoiceLines
+    WHERE invoiceId = ?
+    ORDER BY id
+  `).bind(invoice.id).all<InvoiceItem & { registrationId: number | null }>();
+
+  let customer: Omit<InvoiceData, 'items'>;
+
+  if (invoice.companyId) {
+    const company = await db.prepare(
+      'SELECT name, vatNumber, address, city, cap, uniqueCode FROM companies WHERE id = ? AND clientId = ?'
+    ).bind(invoice.companyId, clientId).first<{
+      name: string;
+      vatNumber: string | null;
+      address: string | null;
+      city: string | null;
+      cap: string | null;
+      uniqueCode: string | null;
+    }>();
+
+    customer = {
+      clientId: String(invoice.companyId),
+      clientName: company?.name || invoice.customerName,
+      clientVatNumber: company?.vatNumber || undefined,
+      clientAddress: company?.address || undefined,
+      clientCity: company?.city || undefined,
+      clientPostalCode: company?.cap || undefined,
+      clientRecipientCode: company?.uniqueCode?.toUpperCase() || undefined,
+    };
+  } else {
+    const student = await db.prepare(`
+      SELECT s.id, s.fiscalCode, s.address, s.city, s.province, s.postalCode
+      FROM invoiceLines l
+      JOIN registrations r ON r.id = l.registrationId
+      JOIN students s ON s.id = r.studentId
+      WHERE l.invoiceId = ?
+      LIMIT 1
+    `).bind(invoice.id).first<{
+      id: number;
+      fiscalCode: string;
+      address: string | null;
+      city: string | null;
+      province: string | null;
+      postalCode: string | null;
+    }>();
+
+    customer = {
+      clientId: `student-${student?.id ?? ''}`,
+      clientName: invoice.customerName,
+      clientTaxCode: student?.fiscalCode,
+      clientAddress: student?.address || undefined,
+      clientCity: student?.city || undefined,
+      clientProvince: student?.province?.toUpperCase() || undefined,
+      clientPostalCode: student?.postalCode || undefined,
+    };
+  }
+
+  return {
+    supplier: await loadBranding(db, clientId),
+    customer: {
+      ...customer,
+      clientCountry: 'IT',
+      items: (lines || []).map(({ description, quantity, unitPrice, vatRate }) => ({ description, quantity, unitPrice, vatRate })),
+    },
+    number: invoice.number,
+    date: invoice.date,
+    dueDate: invoice.dueDate,
+    totalAmount: invoice.totalAmount,
+    progressive: invoice.id.toString(36).toUpperCase().padStart(5, '0'),
+  };
+}
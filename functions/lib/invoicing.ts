@@ -0,0 +1,282 @@
+/**
+ * Fatturazione lato server - Provider, iscrizioni da fatturare e generazione delle bozze
+ *
+ * Il provider si sceglie con INVOICING_PROVIDER (vedi src/lib/invoicing.ts): con
+ * 'local' nessuna chiamata esce e la fattura resta una bozza nel gestionale.
+ * Si fatturano solo le iscrizioni completate, con un prezzo e non ancora fatturate.
+ */
+
+import {
+  calculateInvoiceTotals,
+  createInvoicingServiceFromConfig,
+  LocalInvoicingService,
+  registrationToInvoiceItem,
+} from '../../src/lib/invoicing';
+import type { InvoiceData, InvoicingProvider, InvoicingService } from '../../src/lib/invoicing';
+import { refreshInvoicePayments } from './payments';
+
+export interface InvoicingEnv {
+  DB: D1Database;
+  INVOICING_PROVIDER?: string;
+  INVOICING_API_KEY?: string;
+  INVOICING_API_SECRET?: string;
+  INVOICING_COMPANY_ID?: string;
+  INVOICING_BASE_URL?: string;
+}
+
+export type InvoiceGrouping = 'company' | 'edition';
+
+export interface InvoiceCandidate {
+  registrationId: number;
+  registrationDate: string;
+  priceApplied: number;
+  studentId: number;
+  studentName: string;
+  studentFiscalCode: string;
+  studentAddress: string | null;
+  studentCity: string | null;
+  studentProvince: string | null;
+  studentPostalCode: string | null;
+  courseEditionId: number;
+  courseTitle: string;
+  editionStartDate: string;
+  companyId: number | null;
+  companyName: string | null;
+  companyVatNumber: string | null;
+  companyAddress: string | null;
+  companyCity: string | null;
+  companyCap: string | null;
+  companyUniqueCode: string | null;
+}
+
+export interface InvoiceGroup {
+  key: string;
+  companyId: number | null;
+  courseEditionId: number | null;
+  registrations: InvoiceCandidate[];
+}
+
+export interface InvoiceGenerationResult {
+  customerName: string;
+  registrationIds: number[];
+  invoiceId?: number;
+  number?: string;
+  totalAmount?: number;
+  error?: string;
+}
+
+export const DEFAULT_VAT_RATE = 22;
+export const DEFAULT_PAYMENT_TERMS = 30;
+
+/**
+ * Servizio di fatturazione dell'ambiente: null se non è configurato nessun provider
+ */
+export function resolveInvoicingService(env: InvoicingEnv): InvoicingService | null {
+  const provider = env.INVOICING_PROVIDER as InvoicingProvider | undefined;
+
+  if (provider === 'local') return new LocalInvoicingService();
+  if (!provider || !env.INVOICING_API_KEY) return null;
+
+  return createInvoicingServiceFromConfig({
+    provider,
+    apiKey: env.INVOICING_API_KEY,
+    apiSecret: env.INVOICING_API_SECRET,
+    companyId: env.INVOICING_COMPANY_ID,
+    baseUrl: env.INVOICING_BASE_URL,
+  });
+}
+
+/**
+ * Iscrizioni completate non ancora fatturate (filtrabili per azienda ed edizione)
+ */
+export async function loadInvoiceCandidates(
+  db: D1Database,
+  clientId: number,
+  filters: { companyId?: number; editionId?: number } = {}
+): Promise<InvoiceCandidate[]> {
+  const conditions = [
+    'r.clientId = ?',
+    "r.status = 'completed'",
+    'r.invoiceId IS NULL',
+    // Gli acconti già incassati (partial/paid) non impediscono la fatturazione
+    "COALESCE(r.invoiceStatus, 'none') IN ('none', 'partial', 'paid')",
+    // Le iscrizioni gratuite non si fatturano
+    'r.priceApplied > 0',
+  ];
+  const bindings: any[] = [clientId];
+
+  if (filters.companyId) {
+    conditions.push('r.companyId = ?');
+    bindings.push(filters.companyId);
+  }
+  if (filters.editionId) {
+    conditions.push('r.courseEditionId = ?');
+    bindings.push(filters.editionId);
+  }
+
+  const { results } = await db.prepare(`
+    SELECT r.id AS registrationId, r.registrationDate, r.priceApplied,
+      s.id AS studentId, s.firstName || ' ' || s.lastName AS studentName,
+      s.fiscalCode AS studentFiscalCode, s.address AS studentAddress,
+      s.city AS studentCity, s.province AS studentProvince, s.postalCode AS studentPostalCode,
+      ce.id AS courseEditionId, c.title AS courseTitle, ce.startDate AS editionStartDate,
+      co.id AS companyId, co.name AS companyName, co.vatNumber AS companyVatNumber,
+      co.address AS companyAddress, co.city AS companyCity, co.cap AS companyCap,
+      co.uniqueCode AS companyUniqueCode
+    FROM registrations r
+    JOIN students s ON s.id = r.studentId
+    JOIN courseEditions ce ON ce.id = r.courseEditionId
+    JOIN courses c ON c.id = ce.courseId
+    LEFT JOIN companies co ON co.id = r.companyId
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY co.name, ce.startDate, s.lastName, s.firstName
+  `).bind(...bindings).all<InvoiceCandidate>();
+
+  return results || [];
+}
+
+/**
+ * Raggruppa le iscrizioni in fatture: una per azienda (o per azienda ed edizione).
+ * Gli studenti senza azienda sono fatturati come privati, uno per fattura.
+ */
+export function groupInvoiceCandidates(candidates: InvoiceCandidate[], grouping: InvoiceGrouping): InvoiceGroup[] {
+  const groups = new Map<string, InvoiceGroup>();
+
+  for (const candidate of candidates) {
+    const customerKey = candidate.companyId ? `company-${candidate.companyId}` : `student-${candidate.studentId}`;
+    const key = grouping === 'edition' ? `${customerKey}-edition-${candidate.courseEditionId}` : customerKey;
+
+    if (!groups.has(key)) {
+      groups.set(key, {
+        key,
+        companyId: candidate.companyId,
+        courseEditionId: grouping === 'edition' ? candidate.courseEditionId : null,
+        registrations: [],
+      });
+    }
+    groups.get(key)!.registrations.push(candidate);
+  }
+
+  return [...groups.values()];
+}
+
+/**
+ * Dati della fattura per il provider: intestatario dall'azienda (o dallo studente privato)
+ */
+export function buildInvoiceData(group: InvoiceGroup, vatRate: number, reference: string): InvoiceData {
+  const first = group.registrations[0];
+  const items = group.registrations.map(r => ({
+    ...registrationToInvoiceItem(r.courseTitle, r.priceApplied, vatRate),
+    description: `Corso di formazione: ${r.courseTitle} - ${r.studentName}`,
+  }));
+
+  const customer = first.companyId
+    ? {
+        clientId: String(first.companyId),
+        clientName: first.companyName!,
+        clientVatNumber: first.companyVatNumber || undefined,
+        clientAddress: first.companyAddress || undefined,
+        clientCity: first.companyCity || undefined,
+        clientPostalCode: first.companyCap || undefined,
+        clientRecipientCode: first.companyUniqueCode || undefined,
+      }
+    : {
+        clientId: `student-${first.studentId}`,
+        clientName: first.studentName,
+        clientTaxCode: first.studentFiscalCode,
+        clientAddress: first.studentAddress || undefined,
+        clientCity: first.studentCity || undefined,
+        clientProvince: first.studentProvince?.toUpperCase() || undefined,
+        clientPostalCode: first.studentPostalCode || undefined,
+      };
+
+  return {
+    ...customer,
+    clientCountry: 'IT',
+    items,
+    paymentTerms: DEFAULT_PAYMENT_TERMS,
+    internalReference: reference,
+  };
+}
+
+/**
+ * Prossimo numero progressivo della fattura locale per l'anno (es. "12/2026")
+ */
+export async function nextInvoiceNumber(db: D1Database, clientId: number, year: number): Promise<string> {
+  const row = await db.prepare(
+    'SELECT COUNT(*) AS total FROM invoices WHERE clientId = ? AND substr(date, 1, 4) = ?'
+  ).bind(clientId, String(year)).first<{ total: number }>();
+  return `${(row?.total || 0) + 1}/${year}`;
+}
+
+/**
+ * Crea la fattura di un gruppo presso il provider, ne salva la copia locale con le
+ * righe e aggiorna invoiceId/invoiceStatus delle iscrizioni (tenendo conto degli acconti)
+ */
+export async function createGroupInvoice(
+  db: D1Database,
+  service: InvoicingService,
+  provider: string,
+  clientId: number,
+  userId: number,
+  group: InvoiceGroup,
+  vatRate: number
+): Promise<InvoiceGenerationResult> {
+  const today = new Date().toISOString().split('T')[0];
+  const reference = await nextInvoiceNumber(db, clientId, Number(today.slice(0, 4)));
+  const data = buildInvoiceData(group, vatRate, reference);
+  const registrationIds = group.registrations.map(r => r.registrationId);
+
+  // Senza sede completa la fattura non passerebbe la validazione FatturaPA: meglio fermarsi subito
+  if (!data.clientAddress || !data.clientPostalCode || !data.clientCity) {
+    return {
+      customerName: data.clientName,
+      registrationIds,
+      error: group.companyId
+        ? 'Indirizzo, CAP o comune dell\'azienda mancanti: completali nella scheda azienda'
+        : 'Indirizzo, CAP o comune dello studente mancanti: completali nella scheda studente',
+    };
+  }
+
+  const invoice = await service.createInvoice(data);
+  // I totali si ricalcolano in locale: non tutti i provider li restituiscono
+  const totals = invoice.totalAmount ? invoice : calculateInvoiceTotals(data.items);
+  const now = new Date().toISOString();
+
+  const created = await db.prepare(`
+    INSERT INTO invoices (
+      clientId, companyId, courseEditionId, provider, externalId, number, date, dueDate, status,
+      customerName, netAmount, vatAmount, totalAmount, pdfUrl, createdBy, createdAt, updatedAt
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'draft', ?, ?, ?, ?, ?, ?, ?, ?)
+    RETURNING id, number, totalAmount
+  `).bind(
+    clientId, group.companyId, group.courseEditionId, provider, invoice.id, invoice.number || reference,
+    invoice.date || today, invoice.dueDate || null, data.clientName,
+    totals.netAmount, totals.vatAmount, totals.totalAmount, invoice.pdfUrl || null, userId || null, now, now
+  ).first<{ id: number; number: string; totalAmount: number }>();
+
+  await db.batch([
+    ...group.registrations.map((r, index) => db.prepare(`
+      INSERT INTO invoiceLines (clientId, invoiceId, registrationId, description, quantity, unitPrice, vatRate)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      clientId, created!.id, r.registrationId, data.items[index].description,
+      data.items[index].quantity, data.items[index].unitPrice, data.items[index].vatRate
+    )),
+    ...registrationIds.map(id => db.prepare(`
+      UPDATE registrations SET invoiceId = ?, invoiceStatus = 'draft', updatedAt = ? WHERE id = ? AND clientId = ?
+    `).bind(String(created!.id), now, id, clientId)),
+  ]);
+
+  // Gli acconti già incassati sulle iscrizioni contano per la nuova fattura
+  await refreshInvoicePayments(db, clientId, created!.id);
+
+  return {
+    customerName: data.clientName,
+    registrationIds,
+    invoiceId: created!.id,
+    number: created!.number,
+    totalAmount: created!.totalAmount,
+  };
+}
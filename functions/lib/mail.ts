@@ -0,0 +1,313 @@
+/**
+ * Invio email - Trasporti (Resend, SMTP, file)
+ *
+ * Le impostazioni email del cliente (tabella emailSettings) scelgono il trasporto:
+ * API key Resend, altrimenti server SMTP. Con MAIL_TRANSPORT=file (sviluppo e test)
+ * nessun messaggio esce: il .eml viene salvato nell'outbox. Le API non inviano
+ * direttamente ma accodano i messaggi (vedi outbox.ts).
+ * Le credenziali salvate sono cifrate (vedi secrets.ts).
+ */
+
+import { loadBranding } from './branding';
+import { decryptSecret, encryptSecret, isEncrypted } from './secrets';
+import { sendSmtp } from './smtp';
+
+export interface MailEnv {
+  DB: D1Database;
+  EMAIL_ENCRYPTION_KEY?: string;
+  // API key Resend di ripiego per i clienti senza impostazioni proprie
+  RESEND_API_KEY?: string;
+  // 'file' forza il trasporto file per tutti i clienti
+  MAIL_TRANSPORT?: string;
+}
+
+export interface MailSender {
+  email: string;
+  name: string;
+}
+
+export interface MailAttachment {
+  filename: string;
+  content: string;
+  contentType?: string;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  attachments?: MailAttachment[];
+  // Mittente diverso da quello predefinito del trasporto
+  from?: MailSender;
+}
+
+export interface MailResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+  // Messaggio .eml completo (solo trasporto file)
+  rawMessage?: string;
+}
+
+export type MailTransportName = 'resend' | 'smtp' | 'file';
+
+export interface MailTransport {
+  name: MailTransportName;
+  send(message: MailMessage): Promise<MailResult>;
+}
+
+export interface MailSettings {
+  sender: MailSender;
+  resendApiKey: string | null;
+  smtp: {
+    host: string | null;
+    port: number | null;
+    username: string | null;
+    password: string | null;
+    useSsl: boolean;
+  };
+}
+
+interface EmailSettingsRow {
+  id: number;
+  email?: string | null;
+  fromEmail: string | null;
+  fromName: string | null;
+  host: string | null;
+  port: number | null;
+  username: string | null;
+  password: string | null;
+  useSsl: number | null;
+  resendApiKey: string | null;
+}
+
+export const DEFAULT_SENDER: MailSender = {
+  email: 'noreply@gestionalesicurezza.it',
+  name: 'GestionaleSicurezza',
+};
+
+// Campi dell'emailSettings che contengono credenziali da cifrare
+const SECRET_FIELDS = ['password', 'resendApiKey'] as const;
+
+function utf8ToBase64(value: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(value)) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${utf8ToBase64(value)}?=`;
+}
+
+function formatAddress(sender: MailSender): string {
+  return `${sender.name} <${sender.email}>`;
+}
+
+function wrapBase64(value: string): string {
+  return utf8ToBase64(value).replace(/.{76}/g, '$&\r\n');
+}
+
+/**
+ * Compone il messaggio MIME (RFC 5322) usato da SMTP e dal trasporto file
+ */
+export function buildMimeMessage(message: MailMessage, sender: MailSender): string {
+  const from = message.from || sender;
+  const boundary = `----=_gs_${crypto.randomUUID()}`;
+  const domain = from.email.split('@')[1] || 'gestionalesicurezza.it';
+
+  const headers = [
+    `From: ${encodeHeader(from.name)} <${from.email}>`,
+    `To: <${message.to}>`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+  ];
+
+  const htmlPart = [
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(message.html),
+  ];
+
+  if (!message.attachments?.length) {
+    return [...headers, ...htmlPart].join('\r\n');
+  }
+
+  const parts = [
+    [`--${boundary}`, ...htmlPart].join('\r\n'),
+    ...message.attachments.map(a => [
+      `--${boundary}`,
+      `Content-Type: ${a.contentType || 'application/octet-stream'}; name="${a.filename}"`,
+      `Content-Disposition: attachment; filename="${a.filename}"`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      wrapBase64(a.content),
+    ].join('\r\n')),
+  ];
+
+  return [
+    ...headers,
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    '',
+    ...parts,
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+/**
+ * Trasporto Resend (https://resend.com)
+ */
+export function createResendTransport(apiKey: string, sender: MailSender): MailTransport {
+  return {
+    name: 'resend',
+    async send(message) {
+      try {
+        const response = await fetch('https://api.resend.com/emails', {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            from: formatAddress(message.from || sender),
+            to: [message.to],
+            subject: message.subject,
+            html: message.html,
+            attachments: message.attachments?.map(a => ({
+              filename: a.filename,
+              content: utf8ToBase64(a.content),
+            })),
+          }),
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          return { success: false, error: JSON.stringify(errorData) };
+        }
+
+        const data = await response.json() as { id: string };
+        return { success: true, messageId: data.id };
+      } catch (error: any) {
+        return { success: false, error: error.message };
+      }
+    },
+  };
+}
+
+/**
+ * Trasporto SMTP (es. Gmail con password per le app)
+ */
+export function createSmtpTransport(smtp: MailSettings['smtp'], sender: MailSender): MailTransport {
+  return {
+    name: 'smtp',
+    async send(message) {
+      try {
+        const rawMessage = buildMimeMessage(message, sender);
+        await sendSmtp(
+          { host: smtp.host!, port: smtp.port || 465, username: smtp.username, password: smtp.password, useSsl: smtp.useSsl },
+          { from: (message.from || sender).email, to: [message.to] },
+          rawMessage
+        );
+        return { success: true };
+      } catch (error: any) {
+        return { success: false, error: error.message };
+      }
+    },
+  };
+}
+
+/**
+ * Trasporto file ("mailcatcher"): nessun invio, il messaggio .eml resta nell'outbox
+ */
+export function createFileTransport(sender: MailSender): MailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      return {
+        success: true,
+        messageId: `file-${crypto.randomUUID()}`,
+        rawMessage: buildMimeMessage(message, sender),
+      };
+    },
+  };
+}
+
+/**
+ * Sceglie il trasporto del cliente: null se non è configurato nessun invio
+ */
+export function resolveTransport(env: MailEnv, settings: MailSettings | null): MailTransport | null {
+  const sender = settings?.sender || DEFAULT_SENDER;
+
+  if (env.MAIL_TRANSPORT === 'file') return createFileTransport(sender);
+
+  // Prima le credenziali del cliente, poi l'API key dell'ambiente
+  if (settings?.resendApiKey) return createResendTransport(settings.resendApiKey, sender);
+  if (settings?.smtp.host) return createSmtpTransport(settings.smtp, sender);
+  if (env.RESEND_API_KEY) return createResendTransport(env.RESEND_API_KEY, sender);
+
+  return null;
+}
+
+/**
+ * Cifra le credenziali ancora in formato legacy di una riga emailSettings.
+ * Restituisce true se la riga è stata aggiornata.
+ */
+export async function reencryptEmailSettings(
+  db: D1Database,
+  row: Pick<EmailSettingsRow, 'id' | 'password' | 'resendApiKey'>,
+  secret: string
+): Promise<boolean> {
+  const updates: Record<string, string> = {};
+
+  for (const field of SECRET_FIELDS) {
+    const value = row[field];
+    if (value && !isEncrypted(value)) {
+      updates[field] = await encryptSecret(await decryptSecret(value, secret), secret);
+    }
+  }
+
+  const fields = Object.keys(updates);
+  if (fields.length === 0) return false;
+
+  await db.prepare(`
+    UPDATE emailSettings SET ${fields.map(f => `${f} = ?`).join(', ')}, updatedAt = ? WHERE id = ?
+  `).bind(...fields.map(f => updates[f]), new Date().toISOString(), row.id).run();
+
+  return true;
+}
+
+/**
+ * Carica e decifra le impostazioni email del cliente (null se non configurate)
+ */
+export async function loadMailSettings(env: MailEnv, clientId: number): Promise<MailSettings | null> {
+  const row = await env.DB.prepare(
+    'SELECT * FROM emailSettings WHERE clientId = ? LIMIT 1'
+  ).bind(clientId).first<EmailSettingsRow>();
+
+  if (!row) return null;
+
+  // Le righe salvate prima della cifratura vengono aggiornate al primo utilizzo
+  if (env.EMAIL_ENCRYPTION_KEY) {
+    await reencryptEmailSettings(env.DB, row, env.EMAIL_ENCRYPTION_KEY);
+  }
+
+  const senderEmail = row.fromEmail || row.email;
+
+  return {
+    sender: {
+      email: senderEmail && senderEmail.includes('@') ? senderEmail : DEFAULT_SENDER.email,
+      // Senza un nome mittente esplicito si usa la ragione sociale della carta intestata
+      name: row.fromName || (await loadBranding(env.DB, clientId)).name,
+    },
+    resendApiKey: row.resendApiKey ? await decryptSecret(row.resendApiKey, env.EMAIL_ENCRYPTION_KEY) : null,
+    smtp: {
+      host: row.host,
+      port: row.port,
+      username: row.username,
+      password: row.password ? await decryptSecret(row.password, env.EMAIL_ENCRYPTION_KEY) : null,
+      useSsl: row.useSsl !== 0,
+    },
+  };
+}
@@ -0,0 +1,389 @@
+/**
+ * Presenze con OTP - Sessioni FAD sincrone (videoconferenza)
+ *
+ * Eseguito ogni 5 minuti dal worker schedulato: poco prima dell'inizio di una sessione
+ * fad_sync pianifica le verifiche (una all'inizio, poi una per ogni ora in un momento
+ * casuale), alla scadenza invia a ogni iscritto un codice monouso via email.
+ * L'allievo conferma il codice sulla pagina pubblica /firma-presenza/<token>: ogni
+ * verifica conserva l'hash della prova, e la presenza della sessione riporta ore in
+ * proporzione alle verifiche confermate e in signatureHash l'hash di tutte le prove.
+ */
+
+import { recomputeAttendancePercent } from './attendancePercent';
+import { isRegisterClosed, REGISTER_CLOSED_ERROR } from './attendanceRegister';
+import { romeLocalTime } from './checkIn';
+import type { MailEnv, MailMessage } from './mail';
+import { queueAndSend } from './outbox';
+import { renderEmail } from './templates';
+
+export interface OtpEnv extends MailEnv {
+  APP_URL?: string;
+}
+
+export interface OtpSession {
+  id: number;
+  clientId: number;
+  editionId: number;
+  sessionDate: string;
+  startTime: string;
+  endTime: string;
+  hours: number;
+}
+
+export interface OtpRunResult {
+  planned: number;
+  sent: number;
+}
+
+export type OtpVerifyResult =
+  | { verifiedAt: string; sequence: number; verified: number; planned: number; hoursAttended: number }
+  | { error: string; status: number };
+
+export const OTP_VALIDITY_MINUTES = 10;
+const OTP_MAX_ATTEMPTS = 5;
+// Oltre l'ultimo multiplo di 10^6 il modulo favorirebbe i codici bassi: quei valori si scartano
+const CODE_RANGE_LIMIT = 4294000000;
+
+// Le verifiche si pianificano poco prima dell'inizio, così la prima parte puntuale
+const PLAN_AHEAD_MINUTES = 15;
+// Le verifiche casuali evitano i primi e gli ultimi minuti della sessione
+const RANDOM_CHECK_MARGIN_MINUTES = 10;
+
+const SEND_BATCH_SIZE = 200;
+
+interface CheckRow {
+  id: number;
+  clientId: number;
+  sessionId: number;
+  registrationId: number;
+  studentId: number;
+  sequence: number;
+  scheduledAt: string;
+  token: string;
+  codeHash: string | null;
+  expiresAt: string | null;
+  sentAt: string | null;
+  attempts: number;
+  verifiedAt: string | null;
+  proofHash: string | null;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return toHex(new Uint8Array(digest));
+}
+
+function generateCode(): string {
+  const buffer = new Uint32Array(1);
+  let value: number;
+  do {
+    [value] = crypto.getRandomValues(buffer);
+  } while (value >= CODE_RANGE_LIMIT);
+  return String(value % 1000000).padStart(6, '0');
+}
+
+export function hashOtpCode(token: string, code: string): Promise<string> {
+  return sha256Hex(`${token}:${code}`);
+}
+
+/**
+ * Istante UTC di un orario di sessione, espresso nell'ora locale italiana
+ */
+export function sessionInstant(sessionDate: string, time: string): Date {
+  const guess = new Date(`${sessionDate}T${time.slice(0, 5)}:00Z`);
+  const local = romeLocalTime(guess);
+  const [hours, minutes] = time.split(':').map(n => parseInt(n, 10));
+  const dayShift = local.date === sessionDate ? 0 : local.date > sessionDate ? 24 * 60 : -24 * 60;
+  const offsetMinutes = local.minutes + dayShift - (hours * 60 + (minutes || 0));
+  return new Date(guess.getTime() - offsetMinutes * 60 * 1000);
+}
+
+/**
+ * Orari delle verifiche: l'inizio della sessione e, per ogni ora, un momento casuale
+ */
+export function planCheckTimes(start: Date, end: Date, random: () => number = Math.random): Date[] {
+  const times = [start];
+  const from = start.getTime() + RANDOM_CHECK_MARGIN_MINUTES * 60 * 1000;
+  const to = end.getTime() - RANDOM_CHECK_MARGIN_MINUTES * 60 * 1000;
+  if (to <= from) return times;
+
+  const slots = Math.max(1, Math.floor((end.getTime() - start.getTime()) / (60 * 60 * 1000)));
+  const slotLength = (to - from) / slots;
+  for (let i = 0; i < slots; i++) {
+    times.push(new Date(Math.round(from + slotLength * (i + random()))));
+  }
+  return times;
+}
+
+/**
+ * Pianifica le verifiche delle sessioni FAD che stanno per iniziare e non hanno ancora un piano
+ */
+async function planSessions(db: D1Database, now: Date): Promise<number> {
+  const { results: sessions } = await db.prepare(`
+    SELECT s.id, s.clientId, s.editionId, s.sessionDate, s.startTime, s.endTime, s.hours
+    FROM editionSessions s
+    WHERE s.deliveryMode = 'fad_sync' AND s.sessionDate = ?
+      AND NOT EXISTS (SELECT 1 FROM attendanceOtpChecks o WHERE o.sessionId = s.id)
+  `).bind(romeLocalTime(now).date).all<OtpSession>();
+
+  const insert = db.prepare(`
+    INSERT INTO attendanceOtpChecks (clientId, sessionId, registrationId, studentId, sequence, scheduledAt, token, createdAt)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT DO NOTHING
+  `);
+  let planned = 0;
+
+  for (const session of sessions || []) {
+    const start = sessionInstant(session.sessionDate, session.startTime);
+    const end = sessionInstant(session.sessionDate, session.endTime);
+    if (now.getTime() < start.getTime() - PLAN_AHEAD_MINUTES * 60 * 1000 || now >= end) continue;
+
+    // Solo gli iscritti con un'email possono ricevere il codice
+    const { results: registrations } = await db.prepare(`
+      SELECT r.id, r.studentId
+      FROM registrations r
+      JOIN students st ON st.id = r.studentId
+      WHERE r.clientId = ? AND r.courseEditionId = ? AND r.status IN ('pending', 'confirmed')
+        AND st.email IS NOT NULL AND st.email != ''
+    `).bind(session.clientId, session.editionId).all<{ id: number; studentId: number }>();
+
+    // Stessi orari per tutta la classe, come un appello
+    const times = planCheckTimes(start, end);
+    const createdAt = now.toISOString();
+    const statements = (registrations || []).flatMap(registration =>
+      times.map((time, sequence) => insert.bind(
+        session.clientId,
+        session.id,
+        registration.id,
+        registration.studentId,
+        sequence,
+        time.toISOString(),
+        toHex(crypto.getRandomValues(new Uint8Array(16))),
+        createdAt
+      ))
+    );
+
+    for (let i = 0; i < statements.length; i += 100) {
+      await db.batch(statements.slice(i, i + 100));
+    }
+    planned += statements.length;
+  }
+
+  return planned;
+}
+
+interface DueCheckRow extends CheckRow {
+  studentFirstName: string;
+  studentLastName: string;
+  studentEmail: string;
+  courseTitle: string;
+  sessionDate: string;
+  startTime: string;
+  endTime: string;
+}
+
+/**
+ * Invia i codici delle verifiche arrivate all'orario pianificato
+ */
+async function sendDueChecks(env: OtpEnv, appUrl: string, now: Date): Promise<number> {
+  const { results } = await env.DB.prepare(`
+    SELECT o.*, st.firstName AS studentFirstName, st.lastName AS studentLastName, st.email AS studentEmail,
+      c.title AS courseTitle, s.sessionDate, s.startTime, s.endTime
+    FROM attendanceOtpChecks o
+    JOIN students st ON st.id = o.studentId
+    JOIN editionSessions s ON s.id = o.sessionId
+    JOIN courseEditions ce ON ce.id = s.editionId
+    JOIN courses c ON c.id = ce.courseId
+    WHERE o.sentAt IS NULL AND o.scheduledAt <= ?
+    ORDER BY o.scheduledAt ASC
+    LIMIT ?
+  `).bind(now.toISOString(), SEND_BATCH_SIZE).all<DueCheckRow>();
+
+  const byClient = new Map<number, { checkId: number; message: MailMessage }[]>();
+  const sentAt = now.toISOString();
+  const expiresAt = new Date(now.getTime() + OTP_VALIDITY_MINUTES * 60 * 1000);
+
+  for (const check of results || []) {
+    // Sessione già terminata (es. worker fermo): la verifica resta non inviata e non confermabile
+    if (now >= sessionInstant(check.sessionDate, check.endTime)) {
+      await env.DB.prepare('UPDATE attendanceOtpChecks SET sentAt = ? WHERE id = ? AND sentAt IS NULL')
+        .bind(sentAt, check.id).run();
+      continue;
+    }
+
+    const code = generateCode();
+    const claimed = await env.DB.prepare(`
+      UPDATE attendanceOtpChecks SET codeHash = ?, expiresAt = ?, sentAt = ?
+      WHERE id = ? AND sentAt IS NULL
+    `).bind(await hashOtpCode(check.token, code), expiresAt.toISOString(), sentAt, check.id).run();
+    if (claimed.meta.changes === 0) continue;
+
+    const email = await renderEmail(env.DB, check.clientId, 'attendance_otp', {
+      student: {
+        firstName: check.studentFirstName,
+        lastName: check.studentLastName,
+        fullName: `${check.studentFirstName} ${check.studentLastName}`,
+      },
+      course: { title: check.courseTitle },
+      session: {
+        date: new Date(check.sessionDate).toLocaleDateString('it-IT'),
+        startTime: check.startTime,
+        endTime: check.endTime,
+      },
+      otp: {
+        code,
+        url: `${appUrl.replace(/\/$/, '')}/firma-presenza/${check.token}`,
+        expiresAt: expiresAt.toLocaleTimeString('it-IT', { timeZone: 'Europe/Rome', hour: '2-digit', minute: '2-digit' }),
+      },
+    });
+
+    const queue = byClient.get(check.clientId) || [];
+    queue.push({ checkId: check.id, message: { to: check.studentEmail, ...email } });
+    byClient.set(check.clientId, queue);
+  }
+
+  let sent = 0;
+  for (const [clientId, queue] of byClient) {
+    const results = await queueAndSend(env, clientId, 'attendance_otp', queue.map(q => q.message));
+    await env.DB.batch(results.map((result, i) =>
+      env.DB.prepare('UPDATE attendanceOtpChecks SET outboxId = ? WHERE id = ?').bind(result.id, queue[i].checkId)
+    ));
+    sent += queue.length;
+  }
+
+  return sent;
+}
+
+/**
+ * Job del worker: pianifica le nuove sessioni e invia i codici dovuti
+ */
+export async function runAttendanceOtp(env: OtpEnv, now: Date = new Date()): Promise<OtpRunResult> {
+  const planned = await planSessions(env.DB, now);
+
+  // Senza l'indirizzo dell'applicazione il link nell'email non si può comporre
+  if (!env.APP_URL) {
+    console.error('Presenze OTP: APP_URL non configurato, codici non inviati');
+    return { planned, sent: 0 };
+  }
+
+  return { planned, sent: await sendDueChecks(env, env.APP_URL, now) };
+}
+
+/**
+ * Aggiorna la presenza dell'iscrizione dalle verifiche confermate: ore in proporzione,
+ * entrata alla prima conferma, uscita all'ultima, hash complessivo delle prove
+ */
+async function updateOtpAttendance(
+  db: D1Database,
+  session: OtpSession,
+  registrationId: number,
+  studentId: number
+): Promise<{ verified: number; planned: number; hoursAttended: number }> {
+  const { results: checks } = await db.prepare(`
+    SELECT sequence, verifiedAt, proofHash FROM attendanceOtpChecks
+    WHERE sessionId = ? AND registrationId = ?
+    ORDER BY sequence ASC
+  `).bind(session.id, registrationId).all<Pick<CheckRow, 'sequence' | 'verifiedAt' | 'proofHash'>>();
+
+  const all = checks || [];
+  const verified = all.filter(c => c.verifiedAt && c.proofHash);
+  const hoursAttended = all.length > 0 ? Math.round((session.hours * verified.length / all.length) * 100) / 100 : 0;
+  const signatureHash = await sha256Hex(verified.map(c => c.proofHash).join('\n'));
+  const signInTime = verified[0]?.verifiedAt ?? null;
+  const signOutTime = verified.length > 1 ? verified[verified.length - 1].verifiedAt : null;
+  // Chi non conferma il codice di inizio sessione risulta in ritardo
+  const status = verified[0]?.sequence === 0 ? 'present' : 'late';
+  const timestamp = new Date().toISOString();
+
+  const existing = await db.prepare(
+    'SELECT id FROM attendances WHERE sessionId = ? AND registrationId = ?'
+  ).bind(session.id, registrationId).first<{ id: number }>();
+
+  if (existing) {
+    await db.prepare(`
+      UPDATE attendances SET signInTime = ?, signOutTime = ?, signatureHash = ?, signatureMethod = 'otp',
+        status = ?, hoursAttended = ?, updatedAt = ?
+      WHERE id = ?
+    `).bind(signInTime, signOutTime, signatureHash, status, hoursAttended, timestamp, existing.id).run();
+  } else {
+    await db.prepare(`
+      INSERT INTO attendances (clientId, registrationId, studentId, courseEditionId, sessionId, attendanceDate,
+        signInTime, signOutTime, signatureHash, signatureMethod, status, hoursAttended, createdAt, updatedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'otp', ?, ?, ?, ?)
+    `).bind(
+      session.clientId, registrationId, studentId, session.editionId, session.id, session.sessionDate,
+      signInTime, signOutTime, signatureHash, status, hoursAttended, timestamp, timestamp
+    ).run();
+  }
+
+  await recomputeAttendancePercent(db, session.editionId);
+
+  return { verified: verified.length, planned: all.length, hoursAttended };
+}
+
+/**
+ * Verifica il codice inserito dall'allievo e registra la prova
+ */
+export async function verifyAttendanceOtp(
+  db: D1Database,
+  token: string,
+  code: string,
+  meta: { ip: string | null; userAgent: string | null },
+  now: Date = new Date()
+): Promise<OtpVerifyResult> {
+  const check = await db.prepare(
+    'SELECT * FROM attendanceOtpChecks WHERE token = ?'
+  ).bind(token).first<CheckRow>();
+
+  if (!check) {
+    return { error: 'Link di verifica non valido', status: 404 };
+  }
+  if (check.verifiedAt) {
+    return { error: 'Presenza già confermata per questo codice', status: 409 };
+  }
+  if (!check.codeHash || !check.expiresAt || now.toISOString() > check.expiresAt) {
+    return { error: 'Codice scaduto: attendi il prossimo codice via email', status: 410 };
+  }
+  if (check.attempts >= OTP_MAX_ATTEMPTS) {
+    return { error: 'Troppi tentativi errati: attendi il prossimo codice via email', status: 429 };
+  }
+
+  const session = await db.prepare(
+    'SELECT id, clientId, editionId, sessionDate, startTime, endTime, hours FROM editionSessions WHERE id = ?'
+  ).bind(check.sessionId).first<OtpSession>();
+  if (!session || await isRegisterClosed(db, session.clientId, session.editionId)) {
+    return { error: REGISTER_CLOSED_ERROR, status: 409 };
+  }
+
+  const hash = await hashOtpCode(check.token, code);
+  let diff = hash.length ^ check.codeHash.length;
+  for (let i = 0; i < Math.min(hash.length, check.codeHash.length); i++) {
+    diff |= hash.charCodeAt(i) ^ check.codeHash.charCodeAt(i);
+  }
+  if (diff !== 0) {
+    await db.prepare('UPDATE attendanceOtpChecks SET attempts = attempts + 1 WHERE id = ?').bind(check.id).run();
+    const remaining = OTP_MAX_ATTEMPTS - check.attempts - 1;
+    return { error: `Codice errato (${remaining} tentativi rimasti)`, status: 400 };
+  }
+
+  const verifiedAt = now.toISOString();
+  const proofHash = await sha256Hex(JSON.stringify([
+    check.id, check.sessionId, check.registrationId, check.sequence, check.scheduledAt,
+    check.sentAt, verifiedAt, check.codeHash, meta.ip, meta.userAgent,
+  ]));
+
+  const updated = await db.prepare(`
+    UPDATE attendanceOtpChecks SET verifiedAt = ?, verifiedIp = ?, verifiedUserAgent = ?, proofHash = ?
+    WHERE id = ? AND verifiedAt IS NULL
+  `).bind(verifiedAt, meta.ip, meta.userAgent, proofHash, check.id).run();
+  if (updated.meta.changes === 0) {
+    return { error: 'Presenza già confermata per questo codice', status: 409 };
+  }
+
+  const totals = await updateOtpAttendance(db, session, check.registrationId, check.studentId);
+  return { verifiedAt, sequence: check.sequence, ...totals };
+}
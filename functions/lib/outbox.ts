@@ -0,0 +1,259 @@
+/**
+ * Outbox email - Coda di invio con tentativi e backoff
+ *
+ * Le API accodano i messaggi (enqueueEmail) e li elaborano subito (processOutbox):
+ * se l'invio fallisce il messaggio resta in coda e viene ritentato con attese
+ * crescenti, fino a maxAttempts; poi passa a 'failed' e può essere reinviato dalla UI.
+ */
+
+import { loadMailSettings, resolveTransport } from './mail';
+import type { MailEnv, MailMessage, MailTransport } from './mail';
+
+export type OutboxKind = 'calendar_invite' | 'certificate_notice' | 'bulk_notice' | 'expiry_reminder' | 'attendance_otp' | 'generic';
+
+export type OutboxStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+export interface OutboxRecord {
+  id: number;
+  clientId: number;
+  kind: OutboxKind;
+  toEmail: string;
+  fromEmail: string | null;
+  fromName: string | null;
+  subject: string;
+  html: string;
+  attachments: string | null;
+  status: OutboxStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  transport: string | null;
+  messageId: string | null;
+  rawMessage: string | null;
+  nextAttemptAt: string;
+  sentAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface OutboxResult {
+  id: number;
+  status: OutboxStatus;
+  error: string | null;
+}
+
+// Attesa prima del tentativo successivo (minuti), indicizzata per numero di tentativi falliti
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120];
+
+// Un invio rimasto in 'sending' oltre questo tempo è considerato interrotto
+const STALE_SENDING_MINUTES = 10;
+
+const PROCESS_BATCH_SIZE = 50;
+
+const NO_TRANSPORT_ERROR = 'Nessun trasporto email configurato (Resend o SMTP)';
+
+function minutesFromNow(minutes: number): string {
+  return new Date(Date.now() + minutes * 60 * 1000).toISOString();
+}
+
+/**
+ * Accoda un messaggio e restituisce l'id della riga in outbox
+ */
+export async function enqueueEmail(
+  db: D1Database,
+  clientId: number,
+  kind: OutboxKind,
+  message: MailMessage
+): Promise<number> {
+  const now = new Date().toISOString();
+
+  const row = await db.prepare(`
+    INSERT INTO emailOutbox (
+      clientId, kind, toEmail, fromEmail, fromName, subject, html, attachments,
+      status, attempts, nextAttemptAt, createdAt, updatedAt
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'pending', 0, ?, ?, ?)
+    RETURNING id
+  `).bind(
+    clientId,
+    kind,
+    message.to,
+    message.from?.email ?? null,
+    message.from?.name ?? null,
+    message.subject,
+    message.html,
+    message.attachments?.length ? JSON.stringify(message.attachments) : null,
+    now,
+    now,
+    now
+  ).first<{ id: number }>();
+
+  return row!.id;
+}
+
+function toMailMessage(record: OutboxRecord): MailMessage {
+  return {
+    to: record.toEmail,
+    subject: record.subject,
+    html: record.html,
+    attachments: record.attachments ? JSON.parse(record.attachments) : undefined,
+    from: record.fromEmail ? { email: record.fromEmail, name: record.fromName || record.fromEmail } : undefined,
+  };
+}
+
+/**
+ * Prende in carico un messaggio: evita doppi invii tra richieste concorrenti
+ */
+async function claim(db: D1Database, id: number): Promise<boolean> {
+  const now = new Date().toISOString();
+  const result = await db.prepare(`
+    UPDATE emailOutbox
+    SET status = 'sending', attempts = attempts + 1, updatedAt = ?
+    WHERE id = ? AND (status = 'pending' OR (status = 'sending' AND updatedAt < ?))
+  `).bind(now, id, minutesFromNow(-STALE_SENDING_MINUTES)).run();
+
+  return result.meta.changes > 0;
+}
+
+async function deliver(
+  db: D1Database,
+  record: OutboxRecord,
+  transport: MailTransport | null
+): Promise<OutboxResult> {
+  const now = new Date().toISOString();
+  const attempts = record.attempts + 1;
+  const result = transport
+    ? await transport.send(toMailMessage(record))
+    : { success: false, error: NO_TRANSPORT_ERROR };
+
+  if (result.success) {
+    await db.prepare(`
+      UPDATE emailOutbox
+      SET status = 'sent', transport = ?, messageId = ?, rawMessage = ?, lastError = NULL, sentAt = ?, updatedAt = ?
+      WHERE id = ?
+    `).bind(transport!.name, result.messageId ?? null, result.rawMessage ?? null, now, now, record.id).run();
+
+    return { id: record.id, status: 'sent', error: null };
+  }
+
+  const error = result.error || 'Errore sconosciuto';
+  const exhausted = attempts >= record.maxAttempts;
+  const delay = RETRY_DELAYS_MINUTES[Math.min(attempts, RETRY_DELAYS_MINUTES.length) - 1];
+
+  await db.prepare(`
+    UPDATE emailOutbox
+    SET status = ?, transport = ?, lastError = ?, nextAttemptAt = ?, updatedAt = ?
+    WHERE id = ?
+  `).bind(
+    exhausted ? 'failed' : 'pending',
+    transport?.name ?? null,
+    error,
+    exhausted ? record.nextAttemptAt : minutesFromNow(delay),
+    now,
+    record.id
+  ).run();
+
+  return { id: record.id, status: exhausted ? 'failed' : 'pending', error };
+}
+
+/**
+ * Invia i messaggi in coda già scaduti (tutti i clienti, un cliente o solo gli id indicati)
+ */
+export async function processOutbox(
+  env: MailEnv,
+  options: { clientId?: number; ids?: number[]; limit?: number } = {}
+): Promise<OutboxResult[]> {
+  const now = new Date().toISOString();
+  const conditions = [`(status = 'pending' AND nextAttemptAt <= ?) OR (status = 'sending' AND updatedAt < ?)`];
+  const bindings: (string | number)[] = [now, minutesFromNow(-STALE_SENDING_MINUTES)];
+
+  if (options.clientId) {
+    conditions.push('clientId = ?');
+    bindings.push(options.clientId);
+  }
+  if (options.ids?.length) {
+    conditions.push(`id IN (${options.ids.map(() => '?').join(', ')})`);
+    bindings.push(...options.ids);
+  }
+
+  const { results } = await env.DB.prepare(`
+    SELECT * FROM emailOutbox
+    WHERE ${conditions.map(c => `(${c})`).join(' AND ')}
+    ORDER BY nextAttemptAt ASC
+    LIMIT ?
+  `).bind(...bindings, options.limit || 50).all<OutboxRecord>();
+
+  // Un trasporto per cliente, caricato una sola volta
+  const transports = new Map<number, MailTransport | null>();
+  const processed: OutboxResult[] = [];
+
+  for (const record of results || []) {
+    if (!(await claim(env.DB, record.id))) continue;
+
+    if (!transports.has(record.clientId)) {
+      try {
+        transports.set(record.clientId, resolveTransport(env, await loadMailSettings(env, record.clientId)));
+      } catch (error) {
+        console.error(`Outbox: impostazioni email non leggibili per il cliente ${record.clientId}:`, error);
+        transports.set(record.clientId, null);
+      }
+    }
+
+    processed.push(await deliver(env.DB, record, transports.get(record.clientId)!));
+  }
+
+  return processed;
+}
+
+/**
+ * Accoda i messaggi e tenta subito l'invio: i falliti restano in coda per i tentativi successivi.
+ * I risultati seguono l'ordine dei messaggi.
+ */
+export async function queueAndSend(
+  env: MailEnv,
+  clientId: number,
+  kind: OutboxKind,
+  messages: MailMessage[]
+): Promise<OutboxResult[]> {
+  const ids: number[] = [];
+  for (const message of messages) {
+    ids.push(await enqueueEmail(env.DB, clientId, kind, message));
+  }
+
+  // A blocchi, per restare sotto il limite di parametri di D1
+  const results = new Map<number, OutboxResult>();
+  for (let i = 0; i < ids.length; i += PROCESS_BATCH_SIZE) {
+    const batch = ids.slice(i, i + PROCESS_BATCH_SIZE);
+    for (const result of await processOutbox(env, { ids: batch, limit: batch.length })) {
+      results.set(result.id, result);
+    }
+  }
+
+  // Stesso ordine dei messaggi; quelli presi in carico da un'altra richiesta restano in coda
+  return ids.map(id => results.get(id) || { id, status: 'pending', error: null });
+}
+
+/**
+ * Rimette in coda un messaggio: i falliti ripartono da zero tentativi,
+ * quelli già inviati vengono duplicati per conservarne lo storico.
+ * Restituisce l'id del messaggio da elaborare, o null se non trovato.
+ */
+export async function requeueEmail(db: D1Database, clientId: number, id: number): Promise<number | null> {
+  const record = await db.prepare(
+    'SELECT * FROM emailOutbox WHERE id = ? AND clientId = ?'
+  ).bind(id, clientId).first<OutboxRecord>();
+
+  if (!record) return null;
+
+  if (record.status === 'sent') {
+    return enqueueEmail(db, clientId, record.kind, toMailMessage(record));
+  }
+
+  const now = new Date().toISOString();
+  await db.prepare(`
+    UPDATE emailOutbox
+    SET status = 'pending', attempts = 0, lastError = NULL, nextAttemptAt = ?, updatedAt = ?
+    WHERE id = ?
+  `).bind(now, now, id).run();
+
+  return id;
+}
@@ -0,0 +1,250 @@
+/**
+ * Incassi lato server - Stato di pagamento di fatture e iscrizioni, report crediti
+ *
+ * Un incasso è registrato su una fattura oppure su un'iscrizione non ancora fatturata
+ * (acconto). Quando l'iscrizione viene fatturata i suoi acconti restano legati a lei
+ * e contano anche per la fattura: coprono prima la propria riga, poi l'incassato sulla
+ * fattura si ripartisce sulle righe in ordine (vedi allocatePayments).
+ * Nel report crediti la fattura è dell'agente dell'azienda (dello studente se privata),
+ * l'iscrizione da fatturare dell'agente dello studente o, in mancanza, dell'azienda.
+ */
+
+import {
+  ageingBucket,
+  allocatePayments,
+  daysSince,
+  paymentStatus,
+} from '../../src/lib/payments';
+import type { AgeingBucket, ReceivableItem, ReceivablesGroup, ReceivablesReport } from '../../src/lib/payments';
+
+interface InvoiceLineRow {
+  registrationId: number | null;
+  quantity: number;
+  unitPrice: number;
+  vatRate: number;
+  prepaid: number;
+}
+
+export function lineGrossAmount(line: Pick<InvoiceLineRow, 'quantity' | 'unitPrice' | 'vatRate'>): number {
+  return Math.round(line.quantity * line.unitPrice * (1 + line.vatRate / 100));
+}
+
+/**
+ * Ricalcola lo stato della fattura e delle iscrizioni fatturate dopo un incasso
+ * (o la sua eliminazione). Senza incassi la fattura torna in bozza.
+ */
+export async function refreshInvoicePayments(db: D1Database, clientId: number, invoiceId: number): Promise<void> {
+  const invoice = await db.prepare(
+    'SELECT id, status, totalAmount FROM invoices WHERE id = ? AND clientId = ?'
+  ).bind(invoiceId, clientId).first<{ id: number; status: string; totalAmount: number }>();
+
+  if (!invoice || invoice.status === 'cancelled') return;
+
+  const { results: lines } = await db.prepare(`
+    SELECT l.registrationId, l.quantity, l.unitPrice, l.vatRate,
+      COALESCE((SELECT SUM(p.amount) FROM payments p
+        WHERE p.registrationId = l.registrationId AND p.invoiceId IS NULL), 0) AS prepaid
+    FROM invoiceLines l
+    WHERE l.invoiceId = ?
+    ORDER BY l.id
+  `).bind(invoiceId).all<InvoiceLineRow>();
+
+  const direct = await db.prepare(
+    'SELECT COALESCE(SUM(amount), 0) AS total FROM payments WHERE invoiceId = ?'
+  ).bind(invoiceId).first<{ total: number }>();
+
+  const rows = lines || [];
+  const residuals = rows.map(line => Math.max(0, lineGrossAmount(line) - line.prepaid));
+  const allocated = allocatePayments(residuals, direct?.total || 0);
+  const paidAmount = (direct?.total || 0) + rows.reduce((sum, line) => sum + line.prepaid, 0);
+
+  // Lo stato "di base" (senza incassi) è quello del documento: bozza o inviata
+  const baseStatus = invoice.status === 'sent' ? 'sent' : 'draft';
+  const invoiceStatus = paymentStatus(invoice.totalAmount, paidAmount);
+  const now = new Date().toISOString();
+
+  await db.batch([
+    db.prepare('UPDATE invoices SET status = ?, updatedAt = ? WHERE id = ?')
+      .bind(invoiceStatus === 'none' ? baseStatus : invoiceStatus, now, invoiceId),
+    ...rows.flatMap((line, index) => {
+      if (!line.registrationId) return [];
+      const status = paymentStatus(lineGrossAmount(line), line.prepaid + allocated[index]);
+      return [db.prepare(
+        'UPDATE registrations SET invoiceStatus = ?, updatedAt = ? WHERE id = ? AND clientId = ?'
+      ).bind(status === 'none' ? baseStatus : status, now, line.registrationId, clientId)];
+    }),
+  ]);
+}
+
+/**
+ * Stato di incasso di un'iscrizione non ancora fatturata in base ai suoi acconti
+ */
+export async function refreshRegistrationPayments(db: D1Database, clientId: number, registrationId: number): Promise<void> {
+  const registration = await db.prepare(`
+    SELECT r.id, r.priceApplied, r.invoiceId,
+      COALESCE((SELECT SUM(p.amount) FROM payments p WHERE p.registrationId = r.id AND p.invoiceId IS NULL), 0) AS paid
+    FROM registrations r
+    WHERE r.id = ? AND r.clientId = ?
+  `).bind(registrationId, clientId).first<{ id: number; priceApplied: number | null; invoiceId: string | null; paid: number }>();
+
+  if (!registration) return;
+
+  if (registration.invoiceId) {
+    await refreshInvoicePayments(db, clientId, Number(registration.invoiceId));
+    return;
+  }
+
+  await db.prepare(
+    'UPDATE registrations SET invoiceStatus = ?, updatedAt = ? WHERE id = ?'
+  ).bind(paymentStatus(registration.priceApplied || 0, registration.paid), new Date().toISOString(), registration.id).run();
+}
+
+interface OpenInvoiceRow {
+  id: number;
+  number: string;
+  date: string;
+  customerName: string;
+  companyId: number | null;
+  companyName: string | null;
+  agentId: number | null;
+  agentName: string | null;
+  totalAmount: number;
+  paidAmount: number;
+}
+
+interface OpenRegistrationRow {
+  id: number;
+  registrationDate: string;
+  studentName: string;
+  courseTitle: string;
+  companyId: number | null;
+  companyName: string | null;
+  agentId: number | null;
+  agentName: string | null;
+  totalAmount: number;
+  paidAmount: number;
+}
+
+function emptyBuckets(): Record<AgeingBucket, number> {
+  return { '0-30': 0, '31-60': 0, '61-90': 0, '>90': 0 };
+}
+
+function groupReceivables(
+  items: ReceivableItem[],
+  key: (item: ReceivableItem) => { id: number | null; name: string }
+): ReceivablesGroup[] {
+  const groups = new Map<string, ReceivablesGroup>();
+
+  for (const item of items) {
+    const { id, name } = key(item);
+    const mapKey = String(id ?? 'none');
+    if (!groups.has(mapKey)) groups.set(mapKey, { id, name, buckets: emptyBuckets(), total: 0 });
+    const group = groups.get(mapKey)!;
+    group.buckets[item.bucket] += item.balance;
+    group.total += item.balance;
+  }
+
+  return [...groups.values()].sort((a, b) => b.total - a.total);
+}
+
+/**
+ * Crediti aperti: fatture non annullate con residuo e iscrizioni non ancora fatturate
+ * e non saldate. L'anzianità decorre dalla data della fattura o dell'iscrizione.
+ */
+export async function loadReceivables(
+  db: D1Database,
+  clientId: number,
+  filters: { companyId?: number; agentId?: number } = {}
+): Promise<ReceivablesReport> {
+  const { results: invoices } = await db.prepare(`
+    SELECT i.id, i.number, i.date, i.customerName, i.companyId, co.name AS companyName,
+      a.id AS agentId, a.name AS agentName, i.totalAmount,
+      COALESCE((SELECT SUM(p.amount) FROM payments p WHERE p.invoiceId = i.id), 0)
+        + COALESCE((SELECT SUM(p.amount) FROM payments p
+          JOIN invoiceLines l ON l.registrationId = p.registrationId AND l.invoiceId = i.id
+          WHERE p.invoiceId IS NULL), 0) AS paidAmount
+    FROM invoices i
+    LEFT JOIN companies co ON co.id = i.companyId
+    LEFT JOIN agents a ON a.id = COALESCE(co.agentId, (
+      SELECT s.agentId FROM invoiceLines l
+      JOIN registrations r ON r.id = l.registrationId
+      JOIN students s ON s.id = r.studentId
+      WHERE l.invoiceId = i.id ORDER BY l.id LIMIT 1
+    ))
+    WHERE i.clientId = ? AND i.status != 'cancelled'
+  `).bind(clientId).all<OpenInvoiceRow>();
+
+  const { results: registrations } = await db.prepare(`
+    SELECT r.id, r.registrationDate, s.firstName || ' ' || s.lastName AS studentName, c.title AS courseTitle,
+      r.companyId, co.name AS companyName, a.id AS agentId, a.name AS agentName,
+      r.priceApplied AS totalAmount,
+      COALESCE((SELECT SUM(p.amount) FROM payments p WHERE p.registrationId = r.id AND p.invoiceId IS NULL), 0) AS paidAmount
+    FROM registrations r
+    JOIN students s ON s.id = r.studentId
+    JOIN courseEditions ce ON ce.id = r.courseEditionId
+    JOIN courses c ON c.id = ce.courseId
+    LEFT JOIN companies co ON co.id = r.companyId
+    LEFT JOIN agents a ON a.id = COALESCE(s.agentId, co.agentId)
+    WHERE r.clientId = ? AND r.invoiceId IS NULL AND r.status != 'cancelled' AND r.priceApplied > 0
+  `).bind(clientId).all<OpenRegistrationRow>();
+
+  const today = new Date();
+  const items: ReceivableItem[] = [];
+
+  for (const invoice of invoices || []) {
+    const days = daysSince(invoice.date, today);
+    items.push({
+      kind: 'invoice',
+      id: invoice.id,
+      label: `Fattura ${invoice.number} - ${invoice.customerName}`,
+      date: invoice.date,
+      companyId: invoice.companyId,
+      companyName: invoice.companyName,
+      agentId: invoice.agentId,
+      agentName: invoice.agentName,
+      totalAmount: invoice.totalAmount,
+      paidAmount: invoice.paidAmount,
+      balance: invoice.totalAmount - invoice.paidAmount,
+      days,
+      bucket: ageingBucket(days),
+    });
+  }
+
+  for (const registration of registrations || []) {
+    const days = daysSince(registration.registrationDate, today);
+    items.push({
+      kind: 'registration',
+      id: registration.id,
+      label: `Da fatturare: ${registration.courseTitle} - ${registration.studentName}`,
+      date: registration.registrationDate,
+      companyId: registration.companyId,
+      companyName: registration.companyName,
+      agentId: registration.agentId,
+      agentName: registration.agentName,
+      totalAmount: registration.totalAmount,
+      paidAmount: registration.paidAmount,
+      balance: registration.totalAmount - registration.paidAmount,
+      days,
+      bucket: ageingBucket(days),
+    });
+  }
+
+  const open = items
+    .filter(item => item.balance > 0)
+    .filter(item => !filters.companyId || item.companyId === filters.companyId)
+    .filter(item => !filters.agentId || item.agentId === filters.agentId)
+    .sort((a, b) => b.days - a.days);
+
+  const totals = { ...emptyBuckets(), total: 0 };
+  for (const item of open) {
+    totals[item.bucket] += item.balance;
+    totals.total += item.balance;
+  }
+
+  return {
+    byCompany: groupReceivables(open, item => ({ id: item.companyId, name: item.companyName || 'Privati' })),
+    byAgent: groupReceivables(open, item => ({ id: item.agentId, name: item.agentName || 'Senza agente' })),
+    totals,
+    items: open,
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * Permessi API - Mappatura route → (risorsa, azione) e guard 403
+ *
+ * La matrice ruoli è in src/lib/permissions.ts ed è condivisa con il frontend.
+ * Il middleware API chiama checkPermission per ogni richiesta autenticata.
+ */
+
+import { can, PERMISSIONS } from '../../src/lib/permissions';
+import type { Action, Resource } from '../../src/lib/permissions';
+
+interface AuthContext {
+  clientId: number;
+  userId: number;
+  email: string;
+  role: string;
+  isClientAdmin?: boolean;
+}
+
+interface RouteRule {
+  pattern: RegExp;
+  resource: Resource | null; // null = route gestita altrove (auth, admin)
+  action?: Action; // Se assente viene derivata dal metodo HTTP
+  writeAction?: Action; // Azione per i metodi di scrittura (GET resta 'read')
+}
+
+// Regole valutate in ordine: le più specifiche prima di quelle generiche
+const ROUTE_RULES: RouteRule[] = [
+  { pattern: /^\/api\/(auth|admin)(\/|$)/, resource: null },
+  { pattern: /^\/api\/editions\/[^/]+\/sessions/, resource: 'sessions' },
+  { pattern: /^\/api\/editions\/[^/]+\/(registrations|students)/, resource: 'registrations' },
+  { pattern: /^\/api\/editions\/[^/]+\/attendances/, resource: 'attendances' },
+  { pattern: /^\/api\/editions\/[^/]+\/attendance-register/, resource: 'attendances', writeAction: 'update' },
+  { pattern: /^\/api\/editions\/[^/]+\/certificates/, resource: 'certificates' },
+  { pattern: /^\/api\/editions\/[^/]+\/send-invite/, resource: 'email', action: 'create' },
+  { pattern: /^\/api\/editions\/[^/]+\/(company-prices|agent-prices|allowed-companies)/, resource: 'editions', writeAction: 'update' },
+  { pattern: /^\/api\/registrations\/[^/]+\/certificate/, resource: 'certificates' },
+  { pattern: /^\/api\/registrations\/[^/]+\/recovery/, resource: 'registrations', writeAction: 'update' },
+  { pattern: /^\/api\/registrations\/(bulk|import-batch)/, resource: 'registrations', action: 'create' },
+  { pattern: /^\/api\/(companies|students|instructors)\/import-batch/, resource: 'imports', action: 'create' },
+  { pattern: /^\/api\/students\/[^/]+\/transfer-company/, resource: 'students', action: 'update' },
+  { pattern: /^\/api\/agents\/[^/]+\/(companies|students)/, resource: 'agents', writeAction: 'update' },
+  { pattern: /^\/api\/agents\/[^/]+\/commission-rules/, resource: 'commissions', writeAction: 'update' },
+  { pattern: /^\/api\/agents\/[^/]+\/commission-statements/, resource: 'commissions' },
+  { pattern: /^\/api\/attendances\/(upsert|mark-all)/, resource: 'attendances', action: 'update' },
+  { pattern: /^\/api\/certificates\/notify-expiring/, resource: 'email', action: 'create' },
+  { pattern: /^\/api\/users\/[^/]+\/reset-password/, resource: 'users', action: 'update' },
+  { pattern: /^\/api\/reports\/receivables/, resource: 'payments' },
+  { pattern: /^\/api\/quotes\/[^/]+\/convert/, resource: 'registrations', action: 'create' },
+  { pattern: /^\/api\/audit-log/, resource: 'audit' },
+  { pattern: /^\/api\/email\/settings/, resource: 'settings', writeAction: 'update' },
+  { pattern: /^\/api\/email\//, resource: 'email', writeAction: 'create' },
+];
+
+function actionFromMethod(method: string): Action {
+  switch (method.toUpperCase()) {
+    case 'POST':
+      return 'create';
+    case 'PUT':
+    case 'PATCH':
+      return 'update';
+    case 'DELETE':
+      return 'delete';
+    default:
+      return 'read';
+  }
+}
+
+/**
+ * Determina risorsa e azione di una richiesta API.
+ * Restituisce null se la route non è soggetta alla matrice permessi.
+ */
+export function resolvePermission(method: string, pathname: string): { resource: Resource; action: Action } | null {
+  const isRead = ['GET', 'HEAD', 'OPTIONS'].includes(method.toUpperCase());
+
+  for (const rule of ROUTE_RULES) {
+    if (!rule.pattern.test(pathname)) continue;
+    if (!rule.resource) return null;
+    const action = rule.action
+      || (!isRead && rule.writeAction)
+      || actionFromMethod(method);
+    return { resource: rule.resource, action };
+  }
+
+  // Regola generica: /api/<risorsa>/...
+  const segment = pathname.split('/')[2] as Resource;
+  return { resource: segment, action: actionFromMethod(method) };
+}
+
+/**
+ * Risposta standard per azione non consentita
+ */
+export function forbidden(message = 'Permessi insufficienti per questa operazione'): Response {
+  return new Response(JSON.stringify({ error: message, code: 'FORBIDDEN' }), {
+    status: 403,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Guard: restituisce una risposta 403 se il ruolo non può eseguire la richiesta, altrimenti null.
+ * Le route non presenti in matrice restano in sola lettura per i ruoli diversi da admin.
+ */
+export function checkPermission(auth: AuthContext, method: string, pathname: string): Response | null {
+  if (auth.isClientAdmin) return null;
+
+  const permission = resolvePermission(method, pathname);
+  if (!permission) return null;
+
+  const { resource, action } = permission;
+  const allowed = resource in PERMISSIONS
+    ? can(auth.role, resource, action)
+    : action === 'read' || auth.role === 'admin';
+
+  return allowed ? null : forbidden();
+}
@@ -0,0 +1,143 @@
+/**
+ * Prerequisiti dei corsi - Verifica all'iscrizione
+ *
+ * Un corso con hasPrerequisite richiede che lo studente abbia un'iscrizione completata
+ * e ancora valida al corso prerequisito; se anche quello ha un prerequisito, la
+ * verifica prosegue lungo tutta la catena. La validità segue le stesse regole
+ * dello scadenzario (functions/lib/expirations.ts).
+ *
+ * L'admin può forzare l'iscrizione indicando una motivazione: la deroga viene
+ * salvata sull'iscrizione (prerequisiteOverride*).
+ */
+
+import { calculateExpirationDate } from './expirations';
+
+export interface PrerequisiteCourse {
+  id: number;
+  title: string;
+}
+
+export interface MissingPrerequisite extends PrerequisiteCourse {
+  reason: 'missing' | 'expired';
+  expiredAt?: string;
+}
+
+export interface PrerequisiteOverride {
+  reason: string;
+  userId: number | null; // null per l'admin del cliente (userId 0, non presente in users)
+  userEmail: string;
+  at: string;
+}
+
+// Protezione da catene cicliche o troppo lunghe configurate per errore
+const MAX_CHAIN_LENGTH = 10;
+
+export const PREREQUISITE_ERROR_CODE = 'PREREQUISITE_MISSING';
+
+/**
+ * Catena dei prerequisiti di un corso, dal più vicino al più lontano
+ */
+export async function loadPrerequisiteChain(
+  db: D1Database,
+  clientId: number,
+  courseId: number
+): Promise<PrerequisiteCourse[]> {
+  const chain: PrerequisiteCourse[] = [];
+  const visited = new Set<number>([courseId]);
+  let currentId: number | null = courseId;
+
+  while (currentId !== null && chain.length < MAX_CHAIN_LENGTH) {
+    const course: { hasPrerequisite: number | null; prerequisiteCourseId: number | null } | null = await db.prepare(
+      'SELECT hasPrerequisite, prerequisiteCourseId FROM courses WHERE id = ? AND clientId = ?'
+    ).bind(currentId, clientId).first();
+
+    if (!course?.hasPrerequisite || !course.prerequisiteCourseId || visited.has(course.prerequisiteCourseId)) break;
+
+    const prerequisite = await db.prepare(
+      'SELECT id, title FROM courses WHERE id = ? AND clientId = ?'
+    ).bind(course.prerequisiteCourseId, clientId).first<PrerequisiteCourse>();
+
+    if (!prerequisite) break;
+
+    chain.push(prerequisite);
+    visited.add(prerequisite.id);
+    currentId = prerequisite.id;
+  }
+
+  return chain;
+}
+
+/**
+ * Prerequisiti della catena che lo studente non soddisfa (vuoto se può iscriversi)
+ */
+export async function findMissingPrerequisites(
+  db: D1Database,
+  clientId: number,
+  studentId: number,
+  chain: PrerequisiteCourse[],
+  today: Date = new Date()
+): Promise<MissingPrerequisite[]> {
+  const missing: MissingPrerequisite[] = [];
+
+  for (const course of chain) {
+    const { results } = await db.prepare(`
+      SELECT COALESCE(r.certificateDate, ce.endDate) AS issuedAt, c.certificateValidityMonths AS validityMonths
+      FROM registrations r
+      JOIN courseEditions ce ON ce.id = r.courseEditionId
+      JOIN courses c ON c.id = ce.courseId
+      WHERE r.clientId = ? AND r.studentId = ? AND ce.courseId = ? AND r.status = 'completed'
+    `).bind(clientId, studentId, course.id).all<{ issuedAt: string; validityMonths: number | null }>();
+
+    if (!results || results.length === 0) {
+      missing.push({ ...course, reason: 'missing' });
+      continue;
+    }
+
+    // Vale l'attestato più recente; un corso senza validità non scade
+    if (results.some(r => !r.validityMonths)) {
+      continue;
+    }
+    const latestExpiry = results
+      .map(r => calculateExpirationDate(r.issuedAt, r.validityMonths!))
+      .reduce((latest, date) => (date > latest ? date : latest));
+
+    if (latestExpiry < today) {
+      missing.push({ ...course, reason: 'expired', expiredAt: latestExpiry.toISOString().split('T')[0] });
+    }
+  }
+
+  return missing;
+}
+
+/**
+ * Messaggio per l'utente: "Prerequisito mancante: Formazione Generale (scaduto il 2025-01-31)"
+ */
+export function describeMissingPrerequisites(missing: MissingPrerequisite[]): string {
+  const items = missing.map(m =>
+    m.reason === 'expired' ? `${m.title} (scaduto il ${m.expiredAt})` : m.title
+  );
+  return `${missing.length === 1 ? 'Prerequisito mancante' : 'Prerequisiti mancanti'}: ${items.join(', ')}`;
+}
+
+/**
+ * Deroga richiesta nel body: solo l'admin può forzare, e solo con una motivazione
+ */
+export function parsePrerequisiteOverride(
+  auth: { userId: number; email: string; role: string; isClientAdmin?: boolean },
+  reason: unknown
+): { override: PrerequisiteOverride | null } | { error: string } {
+  if (reason === undefined || reason === null || reason === '') return { override: null };
+
+  if (auth.role !== 'admin' && !auth.isClientAdmin) {
+    return { error: 'Solo un amministratore può derogare ai prerequisiti' };
+  }
+
+  const text = String(reason).trim();
+  if (text.length < 5) {
+    return { error: 'Indica la motivazione della deroga ai prerequisiti' };
+  }
+
+  return {
+    override: { reason: text.substring(0, 500), userId: auth.userId || null, userEmail: auth.email, at: new Date().toISOString() },
+  };
+}
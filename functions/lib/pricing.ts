@@ -0,0 +1,73 @@
+/**
+ * Risoluzione del prezzo di un'iscrizione
+ *
+ * Unica regola usata da tutte le vie di iscrizione (singola, massiva, import, wizard):
+ * prezzo azienda → prezzo agente → customPrice dell'edizione → prezzo dell'edizione →
+ * defaultPrice del corso. Un prezzo indicato esplicitamente dall'operatore vince su tutto.
+ * La regola che ha prodotto il prezzo viene salvata in registrations.priceSource.
+ */
+
+import type { PriceSource } from '../../src/lib/pricing';
+
+export interface ResolvedPrice {
+  price: number; // Centesimi
+  source: PriceSource;
+}
+
+export interface PriceRequest {
+  editionId: number;
+  studentId: number;
+  companyId: number | null;
+  manualPrice?: number | null;
+}
+
+export async function resolveRegistrationPrice(
+  db: D1Database,
+  clientId: number,
+  request: PriceRequest
+): Promise<ResolvedPrice> {
+  if (request.manualPrice !== undefined && request.manualPrice !== null && !isNaN(request.manualPrice)) {
+    return { price: Math.round(request.manualPrice), source: 'manual' };
+  }
+
+  if (request.companyId) {
+    const companyPrice = await db.prepare(
+      'SELECT price FROM editionCompanyPrices WHERE editionId = ? AND companyId = ? AND clientId = ?'
+    ).bind(request.editionId, request.companyId, clientId).first<{ price: number }>();
+
+    if (companyPrice) return { price: companyPrice.price, source: 'company' };
+  }
+
+  // Agente dello studente, altrimenti quello dell'azienda
+  const agents = await db.prepare(`
+    SELECT s.agentId AS studentAgentId, c.agentId AS companyAgentId
+    FROM students s
+    LEFT JOIN companies c ON c.id = ? AND c.clientId = s.clientId
+    WHERE s.id = ? AND s.clientId = ?
+  `).bind(request.companyId, request.studentId, clientId).first<{ studentAgentId: number | null; companyAgentId: number | null }>();
+
+  for (const agentId of [agents?.studentAgentId, agents?.companyAgentId]) {
+    if (!agentId) continue;
+
+    const agentPrice = await db.prepare(
+      'SELECT price FROM edition_agent_prices WHERE course_edition_id = ? AND agent_id = ? AND clientId = ?'
+    ).bind(request.editionId, agentId, clientId).first<{ price: number }>();
+
+    if (agentPrice) return { price: agentPrice.price, source: 'agent' };
+  }
+
+  const edition = await db.prepare(`
+    SELECT ce.price, ce.customPrice, c.defaultPrice
+    FROM courseEditions ce
+    JOIN courses c ON c.id = ce.courseId
+    WHERE ce.id = ? AND ce.clientId = ?
+  `).bind(request.editionId, clientId).first<{ price: number | null; customPrice: number | null; defaultPrice: number | null }>();
+
+  if (edition?.customPrice !== null && edition?.customPrice !== undefined) {
+    return { price: edition.customPrice, source: 'edition_custom' };
+  }
+  // Il prezzo dell'edizione è obbligatorio: 0 significa "non impostato"
+  if (edition?.price) return { price: edition.price, source: 'edition' };
+
+  return { price: edition?.defaultPrice || 0, source: 'course' };
+}
@@ -0,0 +1,190 @@
+/**
+ * Preventivi lato server - Prezzi suggeriti, righe, numerazione e scadenza
+ *
+ * Il prezzo di una riga si propone dal listino azienda dell'edizione indicata
+ * (editionCompanyPrices) o, in mancanza, dal defaultPrice del corso; l'operatore può
+ * poi modificarlo. I preventivi inviati e non accettati scadono dopo validUntil.
+ */
+
+import { quoteTotal } from '../../src/lib/quotes';
+import type { QuoteDetail, QuoteLine, QuoteLineInput } from '../../src/lib/quotes';
+
+export interface PreparedQuoteLine {
+  courseId: number;
+  courseEditionId: number | null;
+  description: string | null;
+  workers: number;
+  unitPrice: number;
+}
+
+export interface SuggestedQuotePrice {
+  price: number;
+  source: 'company' | 'course';
+}
+
+/**
+ * Segna come scaduti i preventivi inviati oltre la data di validità
+ */
+export async function expireQuotes(db: D1Database, clientId: number): Promise<void> {
+  const today = new Date().toISOString().split('T')[0];
+  await db.prepare(`
+    UPDATE quotes SET status = 'expired', updatedAt = ?
+    WHERE clientId = ? AND status = 'sent' AND validUntil IS NOT NULL AND validUntil < ?
+  `).bind(new Date().toISOString(), clientId, today).run();
+}
+
+export async function suggestQuotePrice(
+  db: D1Database,
+  clientId: number,
+  companyId: number,
+  courseId: number,
+  editionId: number | null
+): Promise<SuggestedQuotePrice | null> {
+  if (editionId) {
+    const companyPrice = await db.prepare(`
+      SELECT ecp.price
+      FROM editionCompanyPrices ecp
+      JOIN courseEditions ce ON ce.id = ecp.editionId
+      WHERE ecp.editionId = ? AND ecp.companyId = ? AND ecp.clientId = ? AND ce.courseId = ?
+    `).bind(editionId, companyId, clientId, courseId).first<{ price: number }>();
+
+    if (companyPrice) return { price: companyPrice.price, source: 'company' };
+  }
+
+  const course = await db.prepare(
+    'SELECT defaultPrice FROM courses WHERE id = ? AND clientId = ?'
+  ).bind(courseId, clientId).first<{ defaultPrice: number }>();
+
+  return course ? { price: course.defaultPrice, source: 'course' } : null;
+}
+
+/**
+ * Valida le righe (corso ed edizione del cliente, edizione dello stesso corso, almeno
+ * un lavoratore) e completa i prezzi mancanti con quello suggerito
+ */
+export async function prepareQuoteLines(
+  db: D1Database,
+  clientId: number,
+  companyId: number,
+  inputs: QuoteLineInput[]
+): Promise<{ lines: PreparedQuoteLine[] } | { error: string }> {
+  if (!Array.isArray(inputs) || inputs.length === 0) {
+    return { error: 'Il preventivo deve contenere almeno un corso' };
+  }
+
+  const lines: PreparedQuoteLine[] = [];
+
+  for (const [index, input] of inputs.entries()) {
+    const row = index + 1;
+    const workers = Number(input.workers);
+    if (!Number.isInteger(workers) || workers < 1) {
+      return { error: `Riga ${row}: numero di lavoratori non valido` };
+    }
+
+    const editionId = input.courseEditionId ? Number(input.courseEditionId) : null;
+    if (editionId) {
+      const edition = await db.prepare(
+        'SELECT id FROM courseEditions WHERE id = ? AND courseId = ? AND clientId = ?'
+      ).bind(editionId, Number(input.courseId), clientId).first();
+      if (!edition) return { error: `Riga ${row}: l'edizione non appartiene al corso indicato` };
+    }
+
+    const suggested = await suggestQuotePrice(db, clientId, companyId, Number(input.courseId), editionId);
+    if (!suggested) return { error: `Riga ${row}: corso non trovato` };
+
+    const hasPrice = input.unitPrice !== undefined && input.unitPrice !== null;
+    const unitPrice = hasPrice ? Number(input.unitPrice) : suggested.price;
+    if (!Number.isInteger(unitPrice) || unitPrice < 0) {
+      return { error: `Riga ${row}: prezzo non valido` };
+    }
+
+    lines.push({
+      courseId: Number(input.courseId),
+      courseEditionId: editionId,
+      description: input.description?.trim() || null,
+      workers,
+      unitPrice,
+    });
+  }
+
+  return { lines };
+}
+
+/**
+ * Sostituisce le righe del preventivo e ne aggiorna il totale
+ */
+export async function replaceQuoteLines(
+  db: D1Database,
+  clientId: number,
+  quoteId: number,
+  lines: PreparedQuoteLine[]
+): Promise<void> {
+  await db.batch([
+    db.prepare('DELETE FROM quoteLines WHERE quoteId = ?').bind(quoteId),
+    ...lines.map(line => db.prepare(`
+      INSERT INTO quoteLines (clientId, quoteId, courseId, courseEditionId, description, workers, unitPrice)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).bind(clientId, quoteId, line.courseId, line.courseEditionId, line.description, line.workers, line.unitPrice)),
+    db.prepare('UPDATE quotes SET totalAmount = ?, updatedAt = ? WHERE id = ?')
+      .bind(quoteTotal(lines), new Date().toISOString(), quoteId),
+  ]);
+}
+
+/**
+ * Crea il preventivo con il prossimo numero dell'anno (es. "P-7/2026").
+ * Il progressivo è il massimo già usato + 1, calcolato nella stessa istruzione di
+ * inserimento: due creazioni concorrenti non ottengono lo stesso numero (e il vincolo
+ * UNIQUE(clientId, number) resta l'ultima difesa).
+ */
+export async function insertQuote(
+  db: D1Database,
+  clientId: number,
+  values: { companyId: number; date: string; validUntil: string | null; notes: string | null; createdBy: number | null }
+): Promise<{ id: number; number: string }> {
+  const year = values.date.substring(0, 4);
+  const now = new Date().toISOString();
+
+  const quote = await db.prepare(`
+    INSERT INTO quotes (clientId, companyId, number, date, validUntil, status, notes, createdBy, createdAt, updatedAt)
+    SELECT ?1, ?2, 'P-' || next.progressive || '/' || ?3, ?4, ?5, 'draft', ?6, ?7, ?8, ?8
+    FROM (
+      SELECT COALESCE(MAX(CAST(substr(number, 3, instr(number, '/') - 3) AS INTEGER)), 0) + 1 AS progressive
+      FROM quotes WHERE clientId = ?1 AND number LIKE 'P-%/' || ?3
+    ) AS next
+    RETURNING id, number
+  `).bind(clientId, values.companyId, year, values.date, values.validUntil, values.notes, values.createdBy, now)
+    .first<{ id: number; number: string }>();
+
+  return quote!;
+}
+
+/**
+ * Preventivo con azienda e righe (con le iscrizioni già create da ogni riga)
+ */
+export async function loadQuote(db: D1Database, clientId: number, quoteId: number): Promise<QuoteDetail | null> {
+  const quote = await db.prepare(`
+    SELECT q.id, q.companyId, co.name AS companyName, co.vatNumber AS companyVatNumber,
+      co.address AS companyAddress, co.city AS companyCity, co.email AS companyEmail,
+      q.number, q.date, q.validUntil, q.status, q.notes, q.totalAmount, q.sentAt, q.respondedAt,
+      (SELECT COUNT(*) FROM quoteLines l WHERE l.quoteId = q.id) AS linesCount,
+      q.createdAt, q.updatedAt
+    FROM quotes q
+    JOIN companies co ON co.id = q.companyId
+    WHERE q.id = ? AND q.clientId = ?
+  `).bind(quoteId, clientId).first<Omit<QuoteDetail, 'lines'>>();
+
+  if (!quote) return null;
+
+  const { results } = await db.prepare(`
+    SELECT l.id, l.courseId, c.title AS courseTitle, l.courseEditionId, ce.startDate AS editionStartDate,
+      l.description, l.workers, l.unitPrice,
+      (SELECT COUNT(*) FROM registrations r WHERE r.quoteLineId = l.id AND r.status != 'cancelled') AS convertedCount
+    FROM quoteLines l
+    JOIN courses c ON c.id = l.courseId
+    LEFT JOIN courseEditions ce ON ce.id = l.courseEditionId
+    WHERE l.quoteId = ?
+    ORDER BY l.id
+  `).bind(quoteId).all<QuoteLine>();
+
+  return { ...quote, lines: results || [] };
+}
@@ -0,0 +1,345 @@
+/**
+ * Recupero ore - Piano per gli allievi che hanno perso ore di un'edizione
+ *
+ * Ogni sessione dell'edizione è un modulo, identificato dalla sua posizione nel calendario
+ * (1ª, 2ª, ...): le edizioni dello stesso corso seguono lo stesso programma, quindi il modulo
+ * perso si recupera con la sessione nella stessa posizione di un'altra edizione. L'allievo si
+ * iscrive solo a quelle sessioni e le ore confermate si sommano alla frequenza dell'iscrizione
+ * originale (vedi recomputeAttendancePercent).
+ */
+
+import { recomputeAttendancePercent } from './attendancePercent';
+
+export type RecoveryStatus = 'planned' | 'attended' | 'absent';
+
+export interface RecoveryModule {
+  module: number;
+  sessionId: number;
+  sessionDate: string;
+  startTime: string;
+  endTime: string;
+  topic: string | null;
+  plannedHours: number;
+  attendedHours: number;
+  missedHours: number;
+  recoveredHours: number;
+  // Ore ancora scoperte, al netto dei recuperi confermati
+  remainingHours: number;
+  hasPlannedRecovery: boolean;
+}
+
+export interface RecoveryProposal {
+  sessionId: number;
+  editionId: number;
+  module: number;
+  sessionDate: string;
+  startTime: string;
+  endTime: string;
+  hours: number;
+  location: string | null;
+  deliveryMode: string;
+}
+
+export interface RecoveryEnrollment {
+  id: number;
+  registrationId: number;
+  missedSessionId: number | null;
+  sessionId: number;
+  editionId: number;
+  module: number;
+  hours: number;
+  status: RecoveryStatus;
+  hoursRecovered: number;
+  notes: string | null;
+  sessionDate: string;
+  startTime: string;
+  endTime: string;
+  location: string | null;
+  createdAt: string;
+}
+
+export interface RecoveryPlan {
+  registrationId: number;
+  studentId: number;
+  studentName: string;
+  editionId: number;
+  courseId: number;
+  courseTitle: string;
+  durationHours: number;
+  attendancePercent: number | null;
+  attendanceEligible: boolean;
+  missedHours: number;
+  modules: RecoveryModule[];
+  proposals: RecoveryProposal[];
+  enrollments: RecoveryEnrollment[];
+}
+
+export type RecoveryResult<T> = { data: T } | { error: string; status: number };
+
+interface RegistrationRow {
+  id: number;
+  studentId: number;
+  courseEditionId: number;
+  attendancePercent: number | null;
+  attendanceEligible: number;
+  firstName: string;
+  lastName: string;
+  courseId: number;
+  courseTitle: string;
+  durationHours: number;
+}
+
+interface SessionRow {
+  id: number;
+  sessionDate: string;
+  startTime: string;
+  endTime: string;
+  hours: number;
+  notes: string | null;
+}
+
+async function loadRegistration(db: D1Database, clientId: number, registrationId: number): Promise<RegistrationRow | null> {
+  return await db.prepare(`
+    SELECT r.id, r.studentId, r.courseEditionId, r.attendancePercent, r.attendanceEligible,
+      s.firstName, s.lastName, c.id AS courseId, c.title AS courseTitle, c.durationHours
+    FROM registrations r
+    INNER JOIN students s ON s.id = r.studentId
+    INNER JOIN courseEditions e ON e.id = r.courseEditionId
+    INNER JOIN courses c ON c.id = e.courseId
+    WHERE r.id = ? AND r.clientId = ?
+  `).bind(registrationId, clientId).first<RegistrationRow>();
+}
+
+async function loadEnrollments(db: D1Database, registrationId: number): Promise<RecoveryEnrollment[]> {
+  const { results } = await db.prepare(`
+    SELECT re.id, re.registrationId, re.missedSessionId, re.sessionId, re.editionId, re.module, re.hours,
+      re.status, re.hoursRecovered, re.notes, re.createdAt,
+      s.sessionDate, s.startTime, s.endTime, COALESCE(s.location, e.location) AS location
+    FROM recoveryEnrollments re
+    INNER JOIN editionSessions s ON s.id = re.sessionId
+    INNER JOIN courseEditions e ON e.id = re.editionId
+    WHERE re.registrationId = ?
+    ORDER BY re.module, s.sessionDate, s.startTime
+  `).bind(registrationId).all<RecoveryEnrollment>();
+
+  return results || [];
+}
+
+/**
+ * Moduli con ore mancanti: le presenze senza ore valgono le ore della sessione,
+ * come nel calcolo della frequenza
+ */
+async function loadMissedModules(
+  db: D1Database,
+  registration: RegistrationRow,
+  enrollments: RecoveryEnrollment[]
+): Promise<RecoveryModule[]> {
+  const { results: sessions } = await db.prepare(`
+    SELECT id, sessionDate, startTime, endTime, hours, notes
+    FROM editionSessions
+    WHERE editionId = ?
+    ORDER BY sessionDate, startTime, id
+  `).bind(registration.courseEditionId).all<SessionRow>();
+
+  // Stesso abbinamento del ricalcolo della frequenza (attendancePercent.ts): presenze
+  // dell'iscrizione o, senza iscrizione, dello studente nell'edizione
+  const { results: attended } = await db.prepare(`
+    SELECT a.sessionId,
+      SUM(CASE WHEN a.status IN ('present', 'late') THEN COALESCE(a.hoursAttended, s.hours, 0) ELSE 0 END) AS hours
+    FROM attendances a
+    LEFT JOIN editionSessions s ON s.id = a.sessionId
+    WHERE a.courseEditionId = ?1
+      AND (a.registrationId = ?2 OR (a.registrationId IS NULL AND a.studentId = ?3))
+    GROUP BY a.sessionId
+  `).bind(registration.courseEditionId, registration.id, registration.studentId).all<{ sessionId: number | null; hours: number }>();
+
+  const sessionIds = new Set((sessions || []).map(session => session.id));
+  const attendedBySession = new Map<number, number>();
+  // Le ore senza sessione dell'edizione (registrate per giornata) contano nella frequenza:
+  // coprono i moduli scoperti in ordine di calendario
+  let unassignedHours = 0;
+  for (const row of attended || []) {
+    if (row.sessionId !== null && sessionIds.has(row.sessionId)) {
+      attendedBySession.set(row.sessionId, row.hours);
+    } else {
+      unassignedHours += row.hours;
+    }
+  }
+
+  return (sessions || []).map((session, index) => {
+    let attendedHours = Math.min(session.hours, attendedBySession.get(session.id) || 0);
+    const credited = Math.min(session.hours - attendedHours, unassignedHours);
+    attendedHours += credited;
+    unassignedHours -= credited;
+    const missedHours = session.hours - attendedHours;
+    const recoveries = enrollments.filter(e => e.missedSessionId === session.id);
+    const recoveredHours = recoveries.reduce((sum, e) => sum + (e.status === 'attended' ? e.hoursRecovered : 0), 0);
+
+    return {
+      module: index + 1,
+      sessionId: session.id,
+      sessionDate: session.sessionDate,
+      startTime: session.startTime,
+      endTime: session.endTime,
+      topic: session.notes,
+      plannedHours: session.hours,
+      attendedHours,
+      missedHours,
+      recoveredHours,
+      remainingHours: Math.max(0, missedHours - recoveredHours),
+      hasPlannedRecovery: recoveries.some(e => e.status === 'planned'),
+    };
+  }).filter(module => module.missedHours > 0);
+}
+
+/**
+ * Sessioni future delle altre edizioni del corso che coprono i moduli ancora scoperti.
+ * Sono escluse le edizioni annullate e quelle a cui l'allievo è già iscritto.
+ */
+async function loadProposals(
+  db: D1Database,
+  clientId: number,
+  registration: RegistrationRow,
+  modules: RecoveryModule[],
+  enrollments: RecoveryEnrollment[],
+  today: string
+): Promise<RecoveryProposal[]> {
+  const open = new Set(modules.filter(m => m.remainingHours > 0 && !m.hasPlannedRecovery).map(m => m.module));
+  if (open.size === 0) return [];
+
+  const { results } = await db.prepare(`
+    SELECT * FROM (
+      SELECT s.id AS sessionId, s.editionId, s.sessionDate, s.startTime, s.endTime, s.hours, s.deliveryMode,
+        COALESCE(s.location, e.location) AS location,
+        ROW_NUMBER() OVER (PARTITION BY s.editionId ORDER BY s.sessionDate, s.startTime, s.id) AS module
+      FROM editionSessions s
+      INNER JOIN courseEditions e ON e.id = s.editionId
+      WHERE e.courseId = ? AND e.clientId = ? AND e.id != ? AND e.status != 'cancelled' AND e.isActive = 1
+        AND NOT EXISTS (SELECT 1 FROM registrations r WHERE r.courseEditionId = e.id AND r.studentId = ?)
+    )
+    WHERE sessionDate >= ?
+    ORDER BY sessionDate, startTime
+  `).bind(
+    registration.courseId, clientId, registration.courseEditionId, registration.studentId, today
+  ).all<RecoveryProposal>();
+
+  const enrolled = new Set(enrollments.map(e => e.sessionId));
+  return (results || []).filter(p => open.has(p.module) && !enrolled.has(p.sessionId));
+}
+
+/**
+ * Piano di recupero di un'iscrizione: moduli persi, sessioni proposte e recuperi già pianificati
+ */
+export async function loadRecoveryPlan(
+  db: D1Database,
+  clientId: number,
+  registrationId: number,
+  today: string = new Date().toISOString().split('T')[0]
+): Promise<RecoveryPlan | null> {
+  const registration = await loadRegistration(db, clientId, registrationId);
+  if (!registration) return null;
+
+  const enrollments = await loadEnrollments(db, registrationId);
+  const modules = await loadMissedModules(db, registration, enrollments);
+  const proposals = await loadProposals(db, clientId, registration, modules, enrollments, today);
+
+  return {
+    registrationId,
+    studentId: registration.studentId,
+    studentName: `${registration.firstName} ${registration.lastName}`,
+    editionId: registration.courseEditionId,
+    courseId: registration.courseId,
+    courseTitle: registration.courseTitle,
+    durationHours: registration.durationHours,
+    attendancePercent: registration.attendancePercent,
+    attendanceEligible: !!registration.attendanceEligible,
+    missedHours: modules.reduce((sum, m) => sum + m.remainingHours, 0),
+    modules,
+    proposals,
+    enrollments,
+  };
+}
+
+/**
+ * Iscrive l'allievo come "recupero" alle sessioni scelte tra quelle proposte
+ */
+export async function enrollRecovery(
+  db: D1Database,
+  actor: { clientId: number; userId: number },
+  plan: RecoveryPlan,
+  sessionIds: number[]
+): Promise<RecoveryResult<RecoveryEnrollment[]>> {
+  const chosen = plan.proposals.filter(p => sessionIds.includes(p.sessionId));
+  if (chosen.length === 0 || chosen.length !== new Set(sessionIds).size) {
+    return { error: 'Scegli sessioni tra quelle proposte per il recupero', status: 400 };
+  }
+  if (new Set(chosen.map(p => p.module)).size !== chosen.length) {
+    return { error: 'Scegli una sola sessione per ciascun modulo da recuperare', status: 400 };
+  }
+
+  const now = new Date().toISOString();
+  const insert = db.prepare(`
+    INSERT INTO recoveryEnrollments (clientId, registrationId, studentId, missedSessionId, sessionId, editionId,
+      module, hours, status, createdBy, createdAt, updatedAt)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'planned', ?, ?, ?)
+  `);
+
+  await db.batch(chosen.map(proposal => {
+    const missed = plan.modules.find(m => m.module === proposal.module)!;
+    return insert.bind(
+      actor.clientId, plan.registrationId, plan.studentId, missed.sessionId, proposal.sessionId, proposal.editionId,
+      proposal.module, Math.min(proposal.hours, missed.remainingHours), actor.userId || null, now, now
+    );
+  }));
+
+  const enrollments = await loadEnrollments(db, plan.registrationId);
+  return { data: enrollments.filter(e => chosen.some(p => p.sessionId === e.sessionId)) };
+}
+
+/**
+ * Registra l'esito di un recupero e aggiorna la frequenza dell'iscrizione originale
+ */
+export async function recordRecoveryOutcome(
+  db: D1Database,
+  plan: RecoveryPlan,
+  enrollment: RecoveryEnrollment,
+  outcome: { status: RecoveryStatus; hoursRecovered?: number; notes?: string | null }
+): Promise<RecoveryEnrollment> {
+  // Le ore riconosciute non superano quelle pianificate per il modulo
+  const hoursRecovered = outcome.status === 'attended'
+    ? Math.max(0, Math.min(enrollment.hours, outcome.hoursRecovered ?? enrollment.hours))
+    : 0;
+
+  await db.prepare(`
+    UPDATE recoveryEnrollments SET status = ?, hoursRecovered = ?, notes = ?, updatedAt = ?
+    WHERE id = ?
+  `).bind(
+    outcome.status, hoursRecovered, outcome.notes !== undefined ? outcome.notes : enrollment.notes,
+    new Date().toISOString(), enrollment.id
+  ).run();
+
+  await recomputeAttendancePercent(db, plan.editionId);
+
+  return (await loadEnrollments(db, plan.registrationId)).find(e => e.id === enrollment.id)!;
+}
+
+/**
+ * Annulla un recupero ancora da svolgere
+ */
+export async function cancelRecovery(db: D1Database, enrollmentId: number): Promise<void> {
+  await db.prepare("DELETE FROM recoveryEnrollments WHERE id = ? AND status = 'planned'").bind(enrollmentId).run();
+}
+
+/**
+ * Edizioni con recuperi su una sessione: eliminando la sessione la loro frequenza va ricalcolata
+ */
+export async function recoveryEditionIds(db: D1Database, sessionId: number): Promise<number[]> {
+  const { results } = await db.prepare(`
+    SELECT DISTINCT r.courseEditionId
+    FROM recoveryEnrollments re
+    INNER JOIN registrations r ON r.id = re.registrationId
+    WHERE re.sessionId = ?
+  `).bind(sessionId).all<{ courseEditionId: number }>();
+
+  return (results || []).map(row => row.courseEditionId);
+}
@@ -0,0 +1,223 @@
+/**
+ * Promemoria automatici delle scadenze attestati
+ *
+ * Eseguito ogni giorno dal worker schedulato (workers/scheduler): per ogni attestato
+ * che ha raggiunto una soglia (es. 90/60/30/0 giorni alla scadenza) accoda un'email a
+ * studente, azienda e agente. Ogni invio è registrato in certificateReminders: il
+ * vincolo UNIQUE impedisce che la stessa soglia venga notificata due volte.
+ */
+
+import { loadIssuedCertificates } from './expirations';
+import type { IssuedCertificate } from './expirations';
+import type { MailEnv } from './mail';
+import { enqueueEmail, processOutbox } from './outbox';
+import { certificateData, renderEmail } from './templates';
+import type { RenderedEmail } from './templates';
+
+export type ReminderRecipientType = 'student' | 'company' | 'agent';
+
+export interface ReminderSettings {
+  enabled: boolean;
+  thresholds: number[];
+  notifyStudents: boolean;
+  notifyCompanies: boolean;
+  notifyAgents: boolean;
+}
+
+export interface ReminderRunResult {
+  clientId: number;
+  certificates: number;
+  queued: number;
+  skipped: number;
+}
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: true,
+  thresholds: [90, 60, 30, 0],
+  notifyStudents: true,
+  notifyCompanies: true,
+  notifyAgents: true,
+};
+
+// Gli attestati scaduti da più giorni non ricevono promemoria (evita invii massivi al primo avvio)
+const EXPIRED_GRACE_DAYS = 7;
+
+/**
+ * Converte "90, 60, 30, 0" in soglie ordinate dalla più lontana
+ */
+export function parseThresholds(value: string): number[] {
+  const thresholds = value
+    .split(',')
+    .map(v => parseInt(v.trim()))
+    .filter(v => !isNaN(v) && v >= 0 && v <= 365);
+
+  return Array.from(new Set(thresholds)).sort((a, b) => b - a);
+}
+
+/**
+ * Soglia più vicina già raggiunta (null se l'attestato è ancora lontano dalla scadenza)
+ */
+export function reachedThreshold(daysUntilExpiration: number, thresholds: number[]): number | null {
+  const reached = thresholds.filter(t => daysUntilExpiration <= t);
+  return reached.length > 0 ? Math.min(...reached) : null;
+}
+
+export async function loadReminderSettings(db: D1Database, clientId: number): Promise<ReminderSettings> {
+  const row = await db.prepare(
+    'SELECT enabled, thresholds, notifyStudents, notifyCompanies, notifyAgents FROM reminderSettings WHERE clientId = ?'
+  ).bind(clientId).first<{
+    enabled: number;
+    thresholds: string;
+    notifyStudents: number;
+    notifyCompanies: number;
+    notifyAgents: number;
+  }>();
+
+  if (!row) return DEFAULT_REMINDER_SETTINGS;
+
+  return {
+    enabled: !!row.enabled,
+    thresholds: parseThresholds(row.thresholds),
+    notifyStudents: !!row.notifyStudents,
+    notifyCompanies: !!row.notifyCompanies,
+    notifyAgents: !!row.notifyAgents,
+  };
+}
+
+function buildReminder(
+  db: D1Database,
+  clientId: number,
+  type: ReminderRecipientType,
+  cert: IssuedCertificate
+): Promise<RenderedEmail> {
+  const data = {
+    student: { firstName: cert.studentFirstName, lastName: cert.studentLastName, fullName: cert.studentName },
+    company: { name: cert.companyName },
+    course: { title: cert.courseTitle },
+    certificate: certificateData(cert.expirationDate, cert.daysUntilExpiration),
+  };
+
+  if (type === 'student') {
+    return renderEmail(db, clientId, 'certificate_expiration_student', data);
+  }
+
+  return renderEmail(db, clientId, 'certificate_expiration', {
+    ...data,
+    recipient: { name: type === 'company' ? cert.companyName : cert.agentName },
+  });
+}
+
+/**
+ * Registra il promemoria: false se la soglia era già stata notificata a quel destinatario
+ */
+async function claimReminder(
+  db: D1Database,
+  clientId: number,
+  cert: IssuedCertificate,
+  threshold: number,
+  type: ReminderRecipientType,
+  email: string
+): Promise<number | null> {
+  const row = await db.prepare(`
+    INSERT INTO certificateReminders (clientId, registrationId, threshold, recipientType, recipientEmail, expiryDate, createdAt)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT DO NOTHING
+    RETURNING id
+  `).bind(
+    clientId,
+    cert.registrationId,
+    threshold,
+    type,
+    email,
+    cert.expirationDate.toISOString().split('T')[0],
+    new Date().toISOString()
+  ).first<{ id: number }>();
+
+  return row?.id ?? null;
+}
+
+/**
+ * Accoda i promemoria dovuti per un cliente
+ */
+export async function runClientReminders(
+  env: MailEnv,
+  clientId: number,
+  today: Date = new Date()
+): Promise<ReminderRunResult> {
+  const result: ReminderRunResult = { clientId, certificates: 0, queued: 0, skipped: 0 };
+  const settings = await loadReminderSettings(env.DB, clientId);
+
+  if (!settings.enabled || settings.thresholds.length === 0) return result;
+
+  const certificates = await loadIssuedCertificates(env.DB, clientId, today);
+
+  for (const cert of certificates) {
+    if (cert.daysUntilExpiration < -EXPIRED_GRACE_DAYS) continue;
+
+    const threshold = reachedThreshold(cert.daysUntilExpiration, settings.thresholds);
+    if (threshold === null) continue;
+
+    result.certificates++;
+
+    const recipients: [ReminderRecipientType, string | null, boolean][] = [
+      ['student', cert.studentEmail, settings.notifyStudents],
+      ['company', cert.companyEmail, settings.notifyCompanies],
+      ['agent', cert.agentEmail, settings.notifyAgents],
+    ];
+
+    for (const [type, email, enabled] of recipients) {
+      if (!enabled || !email) continue;
+
+      const reminderId = await claimReminder(env.DB, clientId, cert, threshold, type, email);
+      if (!reminderId) {
+        result.skipped++;
+        continue;
+      }
+
+      const outboxId = await enqueueEmail(env.DB, clientId, 'expiry_reminder', {
+        to: email,
+        ...(await buildReminder(env.DB, clientId, type, cert)),
+      });
+
+      await env.DB.prepare(
+        'UPDATE certificateReminders SET outboxId = ? WHERE id = ?'
+      ).bind(outboxId, reminderId).run();
+
+      result.queued++;
+    }
+  }
+
+  // L'invio vero e proprio passa dall'outbox (con i suoi tentativi)
+  if (result.queued > 0) {
+    await processOutbox(env, { clientId, limit: result.queued });
+  }
+
+  return result;
+}
+
+/**
+ * Promemoria di tutti i clienti con abbonamento attivo (o del solo cliente indicato)
+ */
+export async function runExpiryReminders(
+  env: MailEnv,
+  options: { clientId?: number; today?: Date } = {}
+): Promise<ReminderRunResult[]> {
+  const { results } = options.clientId
+    ? await env.DB.prepare('SELECT id FROM clients WHERE id = ?').bind(options.clientId).all<{ id: number }>()
+    : await env.DB.prepare(
+      "SELECT id FROM clients WHERE subscriptionStatus IN ('active', 'trial')"
+    ).all<{ id: number }>();
+
+  const runs: ReminderRunResult[] = [];
+
+  // Un cliente con dati non validi non deve bloccare gli altri
+  for (const client of results || []) {
+    try {
+      runs.push(await runClientReminders(env, client.id, options.today));
+    } catch (error) {
+      console.error(`Promemoria scadenze: errore per il cliente ${client.id}:`, error);
+    }
+  }
+
+  return runs;
+}
@@ -0,0 +1,70 @@
+/**
+ * Cifratura delle credenziali salvate a database (password SMTP, API key Resend)
+ *
+ * AES-256-GCM con chiave derivata dal secret EMAIL_ENCRYPTION_KEY. Il valore
+ * salvato ha il formato "enc:v1:<iv>:<ciphertext>" (base64): i valori senza
+ * prefisso sono quelli legacy codificati solo in base64.
+ */
+
+const PREFIX = 'enc:v1:';
+const IV_BYTES = 12;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
+
+async function importKey(secret: string): Promise<CryptoKey> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+  return crypto.subtle.importKey('raw', digest, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Indica se il valore è già cifrato con AES-GCM
+ */
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+/**
+ * Cifra un valore in chiaro. Ogni chiamata usa un IV casuale.
+ */
+export async function encryptSecret(plain: string, secret: string): Promise<string> {
+  if (!secret) throw new Error('EMAIL_ENCRYPTION_KEY non configurata');
+
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await importKey(secret);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plain));
+
+  return `${PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+/**
+ * Decodifica un valore legacy (base64 di testo UTF-8, o testo in chiaro)
+ */
+export function decodeLegacySecret(value: string): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true, ignoreBOM: false }).decode(fromBase64(value));
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Decifra un valore salvato, accettando anche il formato legacy
+ */
+export async function decryptSecret(stored: string, secret: string | undefined): Promise<string> {
+  if (!isEncrypted(stored)) return decodeLegacySecret(stored);
+  if (!secret) throw new Error('EMAIL_ENCRYPTION_KEY non configurata');
+
+  const [iv, ciphertext] = stored.slice(PREFIX.length).split(':');
+  const key = await importKey(secret);
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(ciphertext));
+
+  return new TextDecoder().decode(plain);
+}
@@ -0,0 +1,157 @@
+/**
+ * Client SMTP minimale su socket TCP (cloudflare:sockets)
+ *
+ * Supporta TLS implicito (porta 465), STARTTLS e AUTH LOGIN: quanto basta per
+ * Gmail (con password per le app) e per i comuni provider SMTP.
+ */
+
+import { connect } from 'cloudflare:sockets';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  username: string | null;
+  password: string | null;
+  useSsl: boolean;
+}
+
+export interface SmtpEnvelope {
+  from: string;
+  to: string[];
+}
+
+function utf8ToBase64(value: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(value)) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+class SmtpConnection {
+  private socket: Socket;
+  private reader: ReadableStreamDefaultReader<Uint8Array>;
+  private writer: WritableStreamDefaultWriter<Uint8Array>;
+  private buffer = '';
+  private decoder = new TextDecoder();
+  private encoder = new TextEncoder();
+
+  constructor(socket: Socket) {
+    this.socket = socket;
+    this.reader = socket.readable.getReader();
+    this.writer = socket.writable.getWriter();
+  }
+
+  /**
+   * Legge una risposta completa (anche multi-riga) e verifica il codice atteso
+   */
+  async expect(...codes: number[]): Promise<string> {
+    for (;;) {
+      const lines = this.buffer.split('\r\n');
+      const lastIndex = lines.findIndex(line => /^\d{3} /.test(line));
+      if (lastIndex !== -1) {
+        const response = lines.slice(0, lastIndex + 1).join('\n');
+        this.buffer = lines.slice(lastIndex + 1).join('\r\n');
+        const code = parseInt(lines[lastIndex].slice(0, 3));
+        if (!codes.includes(code)) {
+          throw new Error(`SMTP: risposta inattesa "${response}"`);
+        }
+        return response;
+      }
+
+      const { value, done } = await this.reader.read();
+      if (done) throw new Error('SMTP: connessione chiusa dal server');
+      this.buffer += this.decoder.decode(value, { stream: true });
+    }
+  }
+
+  async command(line: string, ...codes: number[]): Promise<string> {
+    await this.writer.write(this.encoder.encode(`${line}\r\n`));
+    return this.expect(...codes);
+  }
+
+  async upgradeTls(): Promise<void> {
+    this.reader.releaseLock();
+    this.writer.releaseLock();
+    this.socket = this.socket.startTls();
+    this.reader = this.socket.readable.getReader();
+    this.writer = this.socket.writable.getWriter();
+    this.buffer = '';
+  }
+
+  async close(): Promise<void> {
+    try {
+      await this.socket.close();
+    } catch {
+      // Connessione già chiusa
+    }
+  }
+}
+
+function implicitTls(config: SmtpConfig): boolean {
+  return config.useSsl && config.port === 465;
+}
+
+async function openSession(config: SmtpConfig): Promise<SmtpConnection> {
+  const socket = connect(
+    { hostname: config.host, port: config.port },
+    { secureTransport: implicitTls(config) ? 'on' : config.useSsl ? 'starttls' : 'off', allowHalfOpen: false }
+  );
+  const connection = new SmtpConnection(socket);
+
+  try {
+    await connection.expect(220);
+    let capabilities = await connection.command('EHLO gestionalesicurezza', 250);
+
+    if (config.useSsl && !implicitTls(config)) {
+      await connection.command('STARTTLS', 220);
+      await connection.upgradeTls();
+      capabilities = await connection.command('EHLO gestionalesicurezza', 250);
+    }
+
+    if (config.username && config.password) {
+      if (!/AUTH[ =][^\n]*LOGIN/i.test(capabilities)) {
+        throw new Error('SMTP: il server non supporta AUTH LOGIN');
+      }
+      await connection.command('AUTH LOGIN', 334);
+      await connection.command(utf8ToBase64(config.username), 334);
+      await connection.command(utf8ToBase64(config.password), 235);
+    }
+
+    return connection;
+  } catch (error) {
+    await connection.close();
+    throw error;
+  }
+}
+
+/**
+ * Verifica connessione e credenziali senza inviare messaggi
+ */
+export async function verifySmtp(config: SmtpConfig): Promise<void> {
+  const connection = await openSession(config);
+  try {
+    await connection.command('QUIT', 221);
+  } finally {
+    await connection.close();
+  }
+}
+
+/**
+ * Invia un messaggio MIME già composto
+ */
+export async function sendSmtp(config: SmtpConfig, envelope: SmtpEnvelope, rawMessage: string): Promise<void> {
+  const connection = await openSession(config);
+  try {
+    await connection.command(`MAIL FROM:<${envelope.from}>`, 250);
+    for (const recipient of envelope.to) {
+      await connection.command(`RCPT TO:<${recipient}>`, 250, 251);
+    }
+    await connection.command('DATA', 354);
+
+    // Dot-stuffing: le righe che iniziano con "." vanno raddoppiate
+    const body = rawMessage.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+    await connection.command(`${body}\r\n.`, 250);
+    await connection.command('QUIT', 221);
+  } finally {
+    await connection.close();
+  }
+}
@@ -0,0 +1,422 @@
+/**
+ * Template email personalizzabili per cliente
+ *
+ * Ogni template (oggetto + corpo HTML) usa segnaposto {{gruppo.campo}}, sostituiti
+ * con il valore escapato; {{{gruppo.campo}}} inserisce HTML già composto (tabelle).
+ * Se il cliente non ha salvato una versione propria si usa il template predefinito.
+ * Il corpo composto viene impaginato con la carta intestata del cliente.
+ */
+
+import { brandingDetails, DEFAULT_PRIMARY_COLOR, isHexColor } from '../../src/lib/branding';
+import type { ClientBranding } from '../../src/lib/branding';
+import { loadBranding } from './branding';
+
+export type TemplateKey =
+  | 'edition_invite'
+  | 'session_invite'
+  | 'enrollment_confirmation'
+  | 'certificate_expiration'
+  | 'certificate_expiration_student'
+  | 'bulk_certificate_notice'
+  | 'attendance_otp';
+
+export type TemplateData = Record<string, Record<string, string | number | null | undefined>>;
+
+export interface TemplateDefinition {
+  label: string;
+  description: string;
+  // Segnaposto disponibili, nella forma da inserire nel template
+  placeholders: string[];
+  subject: string;
+  html: string;
+  // Dati di esempio per l'anteprima
+  sample: TemplateData;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+}
+
+const FOOTER = `
+          <p style="margin-top: 30px; color: #666; font-size: 12px;">
+            Questo è un messaggio automatico dal Sistema di Gestione Sicurezza D.Lgs. 81/08.
+            <br/>Non rispondere a questa email.
+          </p>`;
+
+// Segnaposto della carta intestata, disponibili in tutti i template
+const CLIENT_PLACEHOLDERS = ['{{client.name}}', '{{client.vatNumber}}', '{{client.phone}}', '{{client.email}}', '{{client.website}}'];
+
+const SAMPLE_CLIENT = { name: 'Formazione Sicura Srl', vatNumber: '01234567890', phone: '02 1234567', email: 'info@formazionesicura.it', website: 'www.formazionesicura.it' };
+const SAMPLE_STUDENT = { firstName: 'Mario', lastName: 'Rossi', fullName: 'Mario Rossi', email: 'mario.rossi@example.com' };
+const SAMPLE_COURSE = { title: 'Formazione Generale Lavoratori', durationHours: 4 };
+const SAMPLE_EDITION = { startDate: '12/03/2026', endDate: '13/03/2026', location: 'Aula 1 - Via Roma 10, Milano' };
+const SAMPLE_INSTRUCTOR = { firstName: 'Laura', lastName: 'Bianchi', name: 'Laura Bianchi' };
+const SAMPLE_CERTIFICATE = { expiryDate: '15/04/2026', daysUntilExpiry: 30, status: 'in scadenza tra 30 giorni', urgency: 'Promemoria' };
+
+const SAMPLE_TABLE = `
+          <table style="width: 100%; border-collapse: collapse; margin: 20px 0;">
+            <tr style="background-color: #f3f4f6;">
+              <th style="border: 1px solid #d1d5db; padding: 10px; text-align: left;">Dipendente</th>
+              <th style="border: 1px solid #d1d5db; padding: 10px; text-align: left;">Corso</th>
+              <th style="border: 1px solid #d1d5db; padding: 10px; text-align: left;">Scadenza</th>
+            </tr>
+            <tr>
+              <td style="border: 1px solid #d1d5db; padding: 10px;">Mario Rossi</td>
+              <td style="border: 1px solid #d1d5db; padding: 10px;">Formazione Generale Lavoratori</td>
+              <td style="border: 1px solid #d1d5db; padding: 10px;">15/04/2026</td>
+            </tr>
+          </table>`;
+
+export const DEFAULT_TEMPLATES: Record<TemplateKey, TemplateDefinition> = {
+  edition_invite: {
+    label: 'Invito docente (edizione)',
+    description: 'Inviato al docente con il calendario di tutte le sessioni e il file .ics',
+    placeholders: [
+      '{{instructor.firstName}}', '{{instructor.lastName}}', '{{course.title}}', '{{edition.location}}',
+      '{{edition.startDate}}', '{{edition.endDate}}', '{{sessions.count}}', '{{sessions.hours}}', '{{{sessions.table}}}', ...CLIENT_PLACEHOLDERS,
+    ],
+    subject: 'Invito: {{course.title}} - {{sessions.count}} sessioni',
+    html: `
+      <h2>Invito al corso: {{course.title}}</h2>
+      <p>Gentile {{instructor.firstName}} {{instructor.lastName}},</p>
+      <p>Sei stato assegnato come docente per il seguente corso:</p>
+      <ul>
+        <li><strong>Corso:</strong> {{course.title}}</li>
+        <li><strong>Location:</strong> {{edition.location}}</li>
+        <li><strong>Sessioni:</strong> {{sessions.count}}</li>
+        <li><strong>Totale ore:</strong> {{sessions.hours}}</li>
+      </ul>
+      <h3>Calendario sessioni:</h3>
+      {{{sessions.table}}}
+      <p>In allegato trovi il file calendario (.ics) da importare nel tuo calendario.</p>
+      <p>Cordiali saluti,<br>{{client.name}}</p>
+    `,
+    sample: {
+      client: SAMPLE_CLIENT,
+      course: SAMPLE_COURSE,
+      edition: SAMPLE_EDITION,
+      instructor: SAMPLE_INSTRUCTOR,
+      sessions: {
+        count: 1,
+        hours: 4,
+        table: `
+      <table border="1" cellpadding="8" cellspacing="0">
+        <tr><th>#</th><th>Data</th><th>Orario</th><th>Ore</th><th>Location</th></tr>
+        <tr><td>1</td><td>12/03/2026</td><td>09:00 - 13:00</td><td>4h</td><td>Aula 1</td></tr>
+      </table>`,
+      },
+    },
+  },
+
+  session_invite: {
+    label: 'Invito docente (singola sessione)',
+    description: 'Invito calendario per una sessione, con file .ics allegato',
+    placeholders: [
+      '{{course.title}}', '{{session.date}}', '{{session.startTime}}', '{{session.endTime}}', '{{session.location}}',
+      '{{session.description}}', '{{instructor.name}}', ...CLIENT_PLACEHOLDERS,
+    ],
+    subject: 'Invito Calendario: {{course.title}}',
+    html: `
+      <h2>{{course.title}}</h2>
+      <p><strong>Data:</strong> {{session.date}}</p>
+      <p><strong>Orario:</strong> {{session.startTime}} - {{session.endTime}}</p>
+      <p><strong>Luogo:</strong> {{session.location}}</p>
+      <p><strong>Descrizione:</strong> {{session.description}}</p>
+      <p>Accetta l'invito per aggiungere l'evento al tuo calendario.</p>
+    `,
+    sample: {
+      client: SAMPLE_CLIENT,
+      course: SAMPLE_COURSE,
+      instructor: SAMPLE_INSTRUCTOR,
+      session: { date: '2026-03-12', startTime: '09:00', endTime: '13:00', location: 'Aula 1', description: 'Sessione di formazione' },
+    },
+  },
+
+  enrollment_confirmation: {
+    label: 'Conferma iscrizione',
+    description: 'Inviata allo studente quando l\'iscrizione a un\'edizione è confermata',
+    placeholders: [
+      '{{student.firstName}}', '{{student.lastName}}', '{{student.fullName}}', '{{course.title}}', '{{course.durationHours}}',
+      '{{edition.startDate}}', '{{edition.endDate}}', '{{edition.location}}', '{{instructor.name}}', ...CLIENT_PLACEHOLDERS,
+    ],
+    subject: 'Iscrizione Confermata - {{course.title}}',
+    html: `
+    <html>
+      <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+        <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #059669;">✓ Iscrizione Confermata</h2>
+
+          <p>Gentile <strong>{{student.fullName}}</strong>,</p>
+
+          <p>La tua iscrizione al corso di sicurezza è stata confermata con successo.</p>
+
+          <div style="background-color: #ecfdf5; border-left: 4px solid #10b981; padding: 15px; margin: 20px 0;">
+            <p><strong>Corso:</strong> {{course.title}}</p>
+            <p><strong>Data Inizio:</strong> {{edition.startDate}}</p>
+            <p><strong>Data Fine:</strong> {{edition.endDate}}</p>
+            <p><strong>Luogo:</strong> {{edition.location}}</p>
+            <p><strong>Docente:</strong> {{instructor.name}}</p>
+            <p><strong>Ore Totali:</strong> {{course.durationHours}}</p>
+          </div>
+
+          <p>
+            <strong>Cosa Portare:</strong>
+            <ul>
+              <li>Documento di identità valido</li>
+              <li>Abbigliamento comodo</li>
+              <li>Materiale per prendere appunti</li>
+            </ul>
+          </p>
+          ${FOOTER}
+        </div>
+      </body>
+    </html>
+    `,
+    sample: {
+      client: SAMPLE_CLIENT,
+      student: SAMPLE_STUDENT,
+      course: SAMPLE_COURSE,
+      edition: SAMPLE_EDITION,
+      instructor: SAMPLE_INSTRUCTOR,
+    },
+  },
+
+  certificate_expiration: {
+    label: 'Scadenza attestato (azienda / agente)',
+    description: 'Avviso per un singolo attestato in scadenza, inviato all\'azienda o all\'agente di riferimento',
+    placeholders: [
+      '{{recipient.name}}', '{{company.name}}', '{{student.firstName}}', '{{student.lastName}}', '{{student.fullName}}', '{{course.title}}',
+      '{{certificate.expiryDate}}', '{{certificate.daysUntilExpiry}}', '{{certificate.status}}', '{{certificate.urgency}}', ...CLIENT_PLACEHOLDERS,
+    ],
+    subject: '{{certificate.urgency}}: Certificato {{certificate.status}} - {{student.fullName}}',
+    html: `
+    <html>
+      <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+        <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #d97706;">⚠️ Avviso di Scadenza Certificato</h2>
+
+          <p>Gentile <strong>{{recipient.name}}</strong>,</p>
+
+          <p>Vi comunichiamo che il seguente certificato di sicurezza è {{certificate.status}}:</p>
+
+          <div style="background-color: #fef3c7; border-left: 4px solid #f59e0b; padding: 15px; margin: 20px 0;">
+            <p><strong>Studente:</strong> {{student.fullName}}</p>
+            <p><strong>Azienda:</strong> {{company.name}}</p>
+            <p><strong>Corso:</strong> {{course.title}}</p>
+            <p><strong>Data Scadenza:</strong> {{certificate.expiryDate}}</p>
+          </div>
+
+          <p>Per il rinnovo contattate {{client.name}}.</p>
+          ${FOOTER}
+        </div>
+      </body>
+    </html>
+    `,
+    sample: {
+      client: SAMPLE_CLIENT,
+      recipient: { name: 'Edilizia Lombarda Spa' },
+      company: { name: 'Edilizia Lombarda Spa' },
+      student: SAMPLE_STUDENT,
+      course: SAMPLE_COURSE,
+      certificate: SAMPLE_CERTIFICATE,
+    },
+  },
+
+  certificate_expiration_student: {
+    label: 'Scadenza attestato (studente)',
+    description: 'Promemoria inviato allo studente per il proprio attestato in scadenza',
+    placeholders: [
+      '{{student.firstName}}', '{{student.lastName}}', '{{student.fullName}}', '{{course.title}}', '{{certificate.expiryDate}}',
+      '{{certificate.daysUntilExpiry}}', '{{certificate.status}}', '{{certificate.urgency}}', ...CLIENT_PLACEHOLDERS,
+    ],
+    subject: '{{certificate.urgency}}: il tuo certificato {{course.title}} è {{certificate.status}}',
+    html: `
+      <h2>Promemoria Scadenza Certificato</h2>
+      <p>Caro/a {{student.firstName}} {{student.lastName}},</p>
+      <p>Ti ricordiamo che il tuo certificato per il corso <strong>{{course.title}}</strong> è {{certificate.status}}.</p>
+      <p><strong>Data di scadenza:</strong> {{certificate.expiryDate}}</p>
+      <p>Per rinnovare il tuo certificato, contatta l'azienda di formazione.</p>
+      <p>Cordiali saluti,<br>{{client.name}}</p>
+    `,
+    sample: {
+      client: SAMPLE_CLIENT,
+      student: SAMPLE_STUDENT,
+      course: SAMPLE_COURSE,
+      certificate: SAMPLE_CERTIFICATE,
+    },
+  },
+
+  bulk_certificate_notice: {
+    label: 'Scadenze attestati (riepilogo azienda)',
+    description: 'Riepilogo inviato all\'azienda con tutti gli attestati in scadenza dei dipendenti',
+    placeholders: ['{{company.name}}', '{{certificates.count}}', '{{{certificates.table}}}', ...CLIENT_PLACEHOLDERS],
+    subject: 'Certificati di Sicurezza in Scadenza - {{company.name}}',
+    html: `
+    <html>
+      <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+        <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #d97706;">⚠️ Certificati di Sicurezza in Scadenza</h2>
+
+          <p>Gentile <strong>{{company.name}}</strong>,</p>
+
+          <p>Vi comunichiamo che i seguenti certificati di sicurezza dei vostri dipendenti sono in scadenza:</p>
+          {{{certificates.table}}}
+          <p>
+            Si consiglia di contattarci al più presto per iscrivere i dipendenti ai corsi di aggiornamento necessari.
+          </p>
+          ${FOOTER}
+        </div>
+      </body>
+    </html>
+    `,
+    sample: {
+      client: SAMPLE_CLIENT,
+      company: { name: 'Edilizia Lombarda Spa' },
+      certificates: { count: 1, table: SAMPLE_TABLE },
+    },
+  },
+
+  attendance_otp: {
+    label: 'Codice presenza (FAD sincrona)',
+    description: 'Codice monouso inviato agli iscritti durante una sessione in videoconferenza per confermare la presenza',
+    placeholders: [
+      '{{student.firstName}}', '{{student.lastName}}', '{{student.fullName}}', '{{course.title}}', '{{session.date}}',
+      '{{session.startTime}}', '{{session.endTime}}', '{{otp.code}}', '{{otp.url}}', '{{otp.expiresAt}}', ...CLIENT_PLACEHOLDERS,
+    ],
+    subject: 'Codice presenza {{otp.code}} - {{course.title}}',
+    html: `
+      <h2>Conferma la tua presenza</h2>
+      <p>Ciao {{student.firstName}},</p>
+      <p>per la sessione in videoconferenza di <strong>{{course.title}}</strong> del {{session.date}}
+        ({{session.startTime}} - {{session.endTime}}) conferma la tua presenza con questo codice:</p>
+      <p style="font-size: 28px; font-weight: bold; letter-spacing: 6px; margin: 20px 0;">{{otp.code}}</p>
+      <p><a href="{{otp.url}}">Inserisci il codice</a> entro le ore {{otp.expiresAt}}.</p>
+      <p>Il codice è personale: le verifiche confermate valgono come firma del registro presenze.</p>
+      <p>Cordiali saluti,<br>{{client.name}}</p>
+    `,
+    sample: {
+      client: SAMPLE_CLIENT,
+      student: SAMPLE_STUDENT,
+      course: SAMPLE_COURSE,
+      session: { date: '12/03/2026', startTime: '09:00', endTime: '13:00' },
+      otp: { code: '482913', url: 'https://gestionalesicurezza.pages.dev/firma-presenza/esempio', expiresAt: '09:10' },
+    },
+  },
+};
+
+export const TEMPLATE_KEYS = Object.keys(DEFAULT_TEMPLATES) as TemplateKey[];
+
+export function isTemplateKey(value: string): value is TemplateKey {
+  return value in DEFAULT_TEMPLATES;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Segnaposto certificate.* di un attestato (stato e urgenza calcolati dai giorni residui)
+ */
+export function certificateData(expirationDate: Date, daysUntilExpiry: number): TemplateData[string] {
+  return {
+    expiryDate: expirationDate.toLocaleDateString('it-IT'),
+    daysUntilExpiry,
+    status: daysUntilExpiry < 0
+      ? 'scaduto'
+      : daysUntilExpiry === 0 ? 'in scadenza oggi' : `in scadenza tra ${daysUntilExpiry} giorni`,
+    urgency: daysUntilExpiry <= 7 ? 'URGENTE' : 'Promemoria',
+  };
+}
+
+function lookup(data: TemplateData, path: string): string {
+  const [group, field] = path.split('.');
+  const value = data[group]?.[field];
+  return value === null || value === undefined ? '' : String(value);
+}
+
+/**
+ * Sostituisce i segnaposto. Con escape=false (oggetto) i valori restano testo semplice.
+ */
+export function renderTemplate(template: string, data: TemplateData, escape = true): string {
+  return template.replace(/\{\{\{\s*([\w]+\.[\w]+)\s*\}\}\}|\{\{\s*([\w]+\.[\w]+)\s*\}\}/g, (_, raw, path) =>
+    raw ? lookup(data, raw) : escape ? escapeHtml(lookup(data, path)) : lookup(data, path)
+  );
+}
+
+/**
+ * Template del cliente (oggetto e corpo), o quello predefinito se non personalizzato
+ */
+export async function loadTemplate(
+  db: D1Database,
+  clientId: number,
+  key: TemplateKey
+): Promise<{ subject: string; html: string; isCustom: boolean }> {
+  const row = await db.prepare(
+    'SELECT subject, html FROM emailTemplates WHERE clientId = ? AND templateKey = ?'
+  ).bind(clientId, key).first<{ subject: string; html: string }>();
+
+  if (row) return { ...row, isCustom: true };
+
+  return { subject: DEFAULT_TEMPLATES[key].subject, html: DEFAULT_TEMPLATES[key].html, isCustom: false };
+}
+
+/**
+ * Segnaposto client.* dalla carta intestata
+ */
+export function brandingData(branding: ClientBranding): TemplateData[string] {
+  return {
+    name: branding.name,
+    vatNumber: branding.vatNumber,
+    phone: branding.phone,
+    email: branding.email,
+    website: branding.website,
+  };
+}
+
+/**
+ * Impagina il corpo dell'email con intestazione (logo o ragione sociale) e piè di pagina dell'ente
+ */
+export function wrapEmailHtml(html: string, branding: ClientBranding): string {
+  const color = isHexColor(branding.primaryColor) ? branding.primaryColor : DEFAULT_PRIMARY_COLOR;
+  const name = escapeHtml(branding.name);
+  const header = branding.logo
+    ? `<img src="${escapeHtml(branding.logo)}" alt="${name}" style="max-height: 48px; max-width: 200px;">`
+    : `<span style="font-size: 18px; font-weight: bold; color: ${color};">${name}</span>`;
+  const details = brandingDetails(branding).map(line => escapeHtml(line)).join('<br>');
+
+  return `
+<div style="font-family: Arial, sans-serif; max-width: 640px; margin: 0 auto; color: #333;">
+  <div style="padding: 16px 20px; border-bottom: 3px solid ${color};">${header}</div>
+  <div style="padding: 4px 20px;">${html}</div>
+  <div style="padding: 12px 20px; border-top: 1px solid #e5e7eb; font-size: 11px; color: #6b7280;">
+    <strong>${name}</strong>${details ? `<br>${details}` : ''}
+  </div>
+</div>`;
+}
+
+/**
+ * Compone l'email di un template per il cliente; i segnaposto client.* sono sempre disponibili
+ */
+export async function renderEmail(
+  db: D1Database,
+  clientId: number,
+  key: TemplateKey,
+  data: TemplateData
+): Promise<RenderedEmail> {
+  const [template, branding] = await Promise.all([
+    loadTemplate(db, clientId, key),
+    loadBranding(db, clientId),
+  ]);
+
+  const fullData = { ...data, client: { ...brandingData(branding), ...data.client } };
+  return {
+    subject: renderTemplate(template.subject, fullData, false),
+    html: wrapEmailHtml(renderTemplate(template.html, fullData), branding),
+  };
+}
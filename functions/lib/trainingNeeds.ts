@@ -0,0 +1,148 @@
+/**
+ * Fabbisogno formativo lato server - Stato degli obblighi dei lavoratori di un'azienda
+ *
+ * Per ogni lavoratore attivo si calcolano gli obblighi (src/lib/trainingNeeds.ts) e si
+ * cercano le iscrizioni a corsi che li coprono: vale l'attestato più recente, con la
+ * validità del corso o, se non indicata, la periodicità prevista per l'obbligo. Chi è
+ * già iscritto a un corso non ancora concluso risulta "Iscritto".
+ */
+
+import { calculateExpirationDate, daysUntil } from './expirations';
+import { atecoRiskClass } from '../../src/lib/ateco';
+import {
+  courseCoversRequirement,
+  EXPIRING_WITHIN_DAYS,
+  highestRisk,
+  requiredTrainings,
+  TRAINING_REQUIREMENTS,
+  workerRiskLevel,
+} from '../../src/lib/trainingNeeds';
+import type {
+  CompanyTrainingNeeds,
+  TrainingNeed,
+  TrainingNeedStatus,
+  TrainingRequirementCode,
+} from '../../src/lib/trainingNeeds';
+
+interface WorkerRow {
+  id: number;
+  firstName: string;
+  lastName: string;
+  jobRole: string | null;
+  riskLevel: string | null;
+  fireWarden: number;
+  firstAider: number;
+}
+
+interface TrainingRow {
+  studentId: number;
+  status: string;
+  issuedAt: string;
+  courseTitle: string;
+  courseType: string | null;
+  durationHours: number;
+  validityMonths: number | null;
+}
+
+function evaluateNeed(
+  requirement: TrainingRequirementCode,
+  trainings: TrainingRow[],
+  today: Date
+): TrainingNeed {
+  const { label, validityMonths } = TRAINING_REQUIREMENTS[requirement];
+  const covering = trainings.filter(t =>
+    courseCoversRequirement({ type: t.courseType, durationHours: t.durationHours }, requirement));
+
+  // Attestato più recente: senza periodicità l'obbligo resta assolto per sempre
+  let best: { title: string; expiry: Date | null } | null = null;
+  for (const training of covering.filter(t => t.status === 'completed')) {
+    const months = training.validityMonths || validityMonths;
+    const expiry = months ? calculateExpirationDate(training.issuedAt, months) : null;
+    if (!best || (best.expiry && (!expiry || expiry > best.expiry))) {
+      best = { title: training.courseTitle, expiry };
+    }
+  }
+
+  const days = best?.expiry ? daysUntil(best.expiry, today) : null;
+  let status: TrainingNeedStatus = 'missing';
+  if (best) {
+    status = days === null || days > EXPIRING_WITHIN_DAYS ? 'valid' : days < 0 ? 'expired' : 'expiring';
+  }
+
+  // Chi non è in regola ma è già iscritto a un corso che copre l'obbligo
+  const planned = covering.find(t => t.status === 'pending' || t.status === 'confirmed');
+  if (status !== 'valid' && planned) status = 'planned';
+
+  return {
+    requirement,
+    label,
+    status,
+    courseTitle: status === 'planned' && planned ? planned.courseTitle : best?.title || null,
+    expiryDate: best?.expiry ? best.expiry.toISOString().split('T')[0] : null,
+    daysUntilExpiration: days,
+  };
+}
+
+export async function loadCompanyTrainingNeeds(
+  db: D1Database,
+  clientId: number,
+  companyId: number,
+  today: Date = new Date()
+): Promise<CompanyTrainingNeeds | null> {
+  const company = await db.prepare(
+    'SELECT id, name, riskCategory, atecoCode FROM companies WHERE id = ? AND clientId = ?'
+  ).bind(companyId, clientId).first<{ id: number; name: string; riskCategory: string | null; atecoCode: string | null }>();
+
+  if (!company) return null;
+
+  const [workers, trainings] = await Promise.all([
+    db.prepare(`
+      SELECT id, firstName, lastName, jobRole, riskLevel, fireWarden, firstAider
+      FROM students
+      WHERE clientId = ? AND companyId = ? AND isActive = 1
+      ORDER BY lastName, firstName
+    `).bind(clientId, companyId).all<WorkerRow>(),
+    db.prepare(`
+      SELECT r.studentId, r.status, COALESCE(r.certificateDate, ce.endDate) AS issuedAt,
+        c.title AS courseTitle, c.type AS courseType, c.durationHours, c.certificateValidityMonths AS validityMonths
+      FROM registrations r
+      JOIN students s ON s.id = r.studentId
+      JOIN courseEditions ce ON ce.id = r.courseEditionId
+      JOIN courses c ON c.id = ce.courseId
+      WHERE r.clientId = ? AND s.companyId = ? AND r.status IN ('pending', 'confirmed', 'completed')
+        AND ce.status != 'cancelled'
+    `).bind(clientId, companyId).all<TrainingRow>(),
+  ]);
+
+  const companyRisk = highestRisk(company.riskCategory, atecoRiskClass(company.atecoCode));
+  const totals: Record<TrainingNeedStatus, number> = { valid: 0, expiring: 0, expired: 0, missing: 0, planned: 0 };
+
+  const result = (workers.results || []).map(worker => {
+    const profile = {
+      jobRole: worker.jobRole,
+      riskLevel: worker.riskLevel,
+      fireWarden: !!worker.fireWarden,
+      firstAider: !!worker.firstAider,
+    };
+    const risk = workerRiskLevel(profile, companyRisk);
+    const own = (trainings.results || []).filter(t => t.studentId === worker.id);
+    const needs = requiredTrainings(profile, risk).map(requirement => evaluateNeed(requirement, own, today));
+    needs.forEach(need => { totals[need.status]++; });
+
+    return {
+      studentId: worker.id,
+      studentName: `${worker.lastName} ${worker.firstName}`,
+      jobRole: worker.jobRole,
+      riskLevel: risk,
+      needs,
+    };
+  });
+
+  return {
+    companyId: company.id,
+    companyName: company.name,
+    riskLevel: companyRisk,
+    workers: result,
+    totals,
+  };
+}
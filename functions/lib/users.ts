@@ -0,0 +1,155 @@
+/**
+ * Utenti del cliente - Inviti, reset password e limite utenti del piano
+ *
+ * I link per impostare la password contengono un token casuale monouso:
+ * a database si salva solo il suo hash SHA-256, così un dump del DB
+ * non permette di riutilizzare i link ancora validi.
+ */
+
+export type PasswordTokenPurpose = 'invite' | 'reset';
+
+export interface UserRecord {
+  id: number;
+  clientId: number;
+  email: string;
+  name: string;
+  role: 'admin' | 'user' | 'readonly';
+  isActive: number | boolean;
+  passwordHash: string;
+  lastLoginAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PasswordTokenInfo {
+  id: number;
+  userId: number;
+  clientId: number;
+  purpose: PasswordTokenPurpose;
+  email: string;
+  name: string;
+}
+
+// Validità dei link: l'invito resta aperto più a lungo del reset
+const TOKEN_TTL_HOURS: Record<PasswordTokenPurpose, number> = {
+  invite: 72,
+  reset: 2,
+};
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return toHex(new Uint8Array(digest));
+}
+
+/**
+ * Dati utente esposti dalle API (mai l'hash della password)
+ */
+export function toPublicUser(user: UserRecord) {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    isActive: Boolean(user.isActive),
+    // Senza password l'utente non ha ancora accettato l'invito
+    invitationPending: !user.passwordHash,
+    lastLoginAt: user.lastLoginAt,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+  };
+}
+
+/**
+ * Verifica il limite utenti del piano: restituisce il messaggio d'errore o null
+ */
+export async function checkUserLimit(db: D1Database, clientId: number): Promise<string | null> {
+  const row = await db.prepare(`
+    SELECT
+      c.maxUsers,
+      (SELECT COUNT(*) FROM users u WHERE u.clientId = c.id AND u.isActive = 1) AS activeUsers
+    FROM clients c
+    WHERE c.id = ?
+  `).bind(clientId).first<{ maxUsers: number; activeUsers: number }>();
+
+  if (!row) return 'Cliente non trovato';
+  if (row.activeUsers >= row.maxUsers) {
+    return `Limite di ${row.maxUsers} utenti attivi raggiunto per il piano corrente`;
+  }
+  return null;
+}
+
+/**
+ * Crea un link monouso per l'utente, invalidando quelli ancora aperti.
+ * Restituisce il token in chiaro da inserire nel link.
+ */
+export async function createPasswordToken(
+  db: D1Database,
+  clientId: number,
+  userId: number,
+  purpose: PasswordTokenPurpose
+): Promise<{ token: string; expiresAt: string }> {
+  const token = toHex(crypto.getRandomValues(new Uint8Array(32)));
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + TOKEN_TTL_HOURS[purpose] * 3600 * 1000).toISOString();
+
+  await db.batch([
+    db.prepare('UPDATE passwordTokens SET usedAt = ? WHERE userId = ? AND usedAt IS NULL')
+      .bind(now.toISOString(), userId),
+    db.prepare(`
+      INSERT INTO passwordTokens (clientId, userId, tokenHash, purpose, expiresAt, createdAt)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).bind(clientId, userId, await sha256Hex(token), purpose, expiresAt, now.toISOString()),
+  ]);
+
+  return { token, expiresAt };
+}
+
+/**
+ * Cerca un link ancora valido (non usato e non scaduto)
+ */
+export async function findPasswordToken(db: D1Database, token: string): Promise<PasswordTokenInfo | null> {
+  if (!/^[0-9a-f]{64}$/.test(token)) return null;
+
+  return await db.prepare(`
+    SELECT pt.id, pt.userId, pt.clientId, pt.purpose, u.email, u.name
+    FROM passwordTokens pt
+    INNER JOIN users u ON u.id = pt.userId
+    WHERE pt.tokenHash = ? AND pt.usedAt IS NULL AND pt.expiresAt > ?
+  `).bind(await sha256Hex(token), new Date().toISOString()).first<PasswordTokenInfo>();
+}
+
+/**
+ * Consuma il link e imposta la password. Restituisce false se il link
+ * è già stato usato nel frattempo (richieste concorrenti).
+ */
+export async function consumePasswordToken(
+  db: D1Database,
+  tokenInfo: PasswordTokenInfo,
+  passwordHash: string
+): Promise<boolean> {
+  const now = new Date().toISOString();
+
+  const claimed = await db.prepare(
+    'UPDATE passwordTokens SET usedAt = ? WHERE id = ? AND usedAt IS NULL'
+  ).bind(now, tokenInfo.id).run();
+
+  if (!claimed.meta.changes) return false;
+
+  await db.prepare('UPDATE users SET passwordHash = ?, updatedAt = ? WHERE id = ?')
+    .bind(passwordHash, now, tokenInfo.userId).run();
+
+  return true;
+}
+
+/**
+ * URL pubblico della pagina per impostare la password
+ */
+export function buildSetPasswordUrl(request: Request, token: string): string {
+  return `${new URL(request.url).origin}/imposta-password/${token}`;
+}
@@ -19,10 +19,17 @@ const Editions = lazy(() => import('./pages/Editions'));
 const EditionRegister = lazy(() => import('./pages/EditionRegister'));
 const Attendances = lazy(() => import('./pages/Attendances'));
 const Registrations = lazy(() => import('./pages/Registrations'));
+const Quotes = lazy(() => import('./pages/Quotes'));
+const Invoices = lazy(() => import('./pages/Invoices'));
 const Reports = lazy(() => import('./pages/Reports'));
 const Scadenzario = lazy(() => import('./pages/Scadenzario'));
 const Calendar = lazy(() => import('./pages/CalendarView'));
 const Imports = lazy(() => import('./pages/Imports'));
+const CertificateVerification = lazy(() => import('./pages/CertificateVerification'));
+const CheckIn = lazy(() => import('./pages/CheckIn'));
+const AttendanceOtp = lazy(() => import('./pages/AttendanceOtp'));
+const SetPassword = lazy(() => import('./pages/SetPassword'));
+const EmailOutbox = lazy(() => import('./pages/EmailOutbox'));
 const EmailSettings = lazy(() => import('./pages/EmailSettings').then(m => ({ default: m.EmailSettings })));
 
 // Loading component
@@ -58,6 +65,16 @@ function AppRoutes() {
     <Suspense fallback={<PageLoader />}>
       <Routes>
         <Route path="/login" element={<PublicRoute><Login /></PublicRoute>} />
+
+        {/* Verifica pubblica attestati (QR code) - accessibile anche senza login */}
+        <Route path="/verifica/:code" element={<CertificateVerification />} />
+
+        {/* Check-in presenze dal QR proiettato in aula - accessibile senza login */}
+        <Route path="/presenza/:token" element={<CheckIn />} />
+        <Route path="/firma-presenza/:token" element={<AttendanceOtp />} />
+
+        {/* Link monouso per invito utente / reset password */}
+        <Route path="/imposta-password/:token" element={<SetPassword />} />
         
         {/* Home / Dashboard (Pagina 1) */}
         <Route path="/" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
@@ -103,6 +120,15 @@ function AppRoutes() {
         {/* Importazioni */}
         <Route path="/imports" element={<ProtectedRoute><Imports /></ProtectedRoute>} />
         
+        {/* Preventivi */}
+        <Route path="/quotes" element={<ProtectedRoute><Quotes /></ProtectedRoute>} />
+        
+        {/* Fatturazione */}
+        <Route path="/invoices" element={<ProtectedRoute><Invoices /></ProtectedRoute>} />
+        
+        {/* Email inviate (coda di invio) */}
+        <Route path="/email-outbox" element={<ProtectedRoute><EmailOutbox /></ProtectedRoute>} />
+        
         {/* Impostazioni (Pagina 13) */}
         <Route path="/settings" element={<ProtectedRoute><EmailSettings /></ProtectedRoute>} />
         
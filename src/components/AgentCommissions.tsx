@@ -0,0 +1,499 @@
+/**
+ * Sezione "Provvigioni" del dettaglio agente
+ * Regole provvigionali ed estratti conto mensili, esportabili in PDF ed Excel
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from './ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell, EmptyState } from './ui/Table';
+import { Badge } from './ui/Badge';
+import { Modal } from './ui/Modal';
+import { Input, Select, Textarea } from './ui/Input';
+import { agentCommissionsApi } from '../lib/api';
+import { exportToExcel, exportToPDF } from '../lib/export';
+import { COURSE_TYPES, courseTypeLabel } from '../lib/courseTypes';
+import {
+  COMMISSION_ACCRUAL_LABELS,
+  COMMISSION_STATUS_LABELS,
+  formatCommissionRule,
+} from '../lib/commissions';
+import type { CommissionAccrual, CommissionLine, CommissionRule, CommissionStatement, CommissionType } from '../lib/commissions';
+import { usePermissions } from '../hooks/usePermissions';
+import toast from 'react-hot-toast';
+
+interface Props {
+  agentId: number;
+  agentName: string;
+}
+
+interface RuleForm {
+  courseType: string;
+  commissionType: CommissionType;
+  value: string; // Percentuale o euro, come digitati
+  accrueOn: CommissionAccrual;
+  validFrom: string;
+  validTo: string;
+  notes: string;
+}
+
+const EMPTY_RULE: RuleForm = {
+  courseType: '',
+  commissionType: 'percentage',
+  value: '',
+  accrueOn: 'registration',
+  validFrom: new Date().toISOString().split('T')[0],
+  validTo: '',
+  notes: '',
+};
+
+const EXPORT_COLUMNS = [
+  { key: 'date', label: 'Data iscrizione' },
+  { key: 'student', label: 'Studente' },
+  { key: 'course', label: 'Corso' },
+  { key: 'price', label: 'Prezzo' },
+  { key: 'invoice', label: 'Fatturazione' },
+  { key: 'commission', label: 'Provvigione' },
+];
+
+const INVOICE_STATUS_LABELS: Record<string, string> = {
+  none: 'Da fatturare',
+  draft: 'Fattura in bozza',
+  sent: 'Fatturata',
+  partial: 'Incassata in parte',
+  paid: 'Incassata',
+};
+
+const formatPrice = (cents: number) =>
+  new Intl.NumberFormat('it-IT', { style: 'currency', currency: 'EUR' }).format(cents / 100);
+
+const formatPeriod = (period: string) =>
+  new Date(`${period}-01T00:00:00`).toLocaleDateString('it-IT', { month: 'long', year: 'numeric' });
+
+const previousMonth = () => {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() - 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+export function AgentCommissions({ agentId, agentName }: Props) {
+  const { can } = usePermissions();
+  const [rules, setRules] = useState<CommissionRule[]>([]);
+  const [statements, setStatements] = useState<CommissionStatement[]>([]);
+  const [period, setPeriod] = useState(previousMonth());
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [editingRule, setEditingRule] = useState<CommissionRule | null>(null);
+  const [isRuleModalOpen, setIsRuleModalOpen] = useState(false);
+  const [ruleForm, setRuleForm] = useState<RuleForm>(EMPTY_RULE);
+  const [isSaving, setIsSaving] = useState(false);
+  const [detail, setDetail] = useState<(CommissionStatement & { lines: CommissionLine[] }) | null>(null);
+
+  const canEditRules = can('commissions', 'update');
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [rulesData, statementsData] = await Promise.all([
+        agentCommissionsApi.getRules(agentId),
+        agentCommissionsApi.getStatements(agentId),
+      ]);
+      setRules(rulesData);
+      setStatements(statementsData);
+    } catch (error) {
+      console.error('Error fetching commissions:', error);
+      toast.error('Errore nel caricamento delle provvigioni');
+    }
+  }, [agentId]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const openRuleModal = (rule: CommissionRule | null) => {
+    setEditingRule(rule);
+    setRuleForm(rule ? {
+      courseType: rule.courseType || '',
+      commissionType: rule.commissionType,
+      value: String(rule.value / 100),
+      accrueOn: rule.accrueOn,
+      validFrom: rule.validFrom,
+      validTo: rule.validTo || '',
+      notes: rule.notes || '',
+    } : EMPTY_RULE);
+    setIsRuleModalOpen(true);
+  };
+
+  const handleSaveRule = async () => {
+    if (ruleForm.value === '' || isNaN(Number(ruleForm.value))) {
+      toast.error('Inserisci il valore della provvigione');
+      return;
+    }
+
+    const data = {
+      courseType: ruleForm.courseType || null,
+      commissionType: ruleForm.commissionType,
+      // Percentuale in centesimi di punto, importo fisso in centesimi
+      value: Math.round(Number(ruleForm.value) * 100),
+      accrueOn: ruleForm.accrueOn,
+      validFrom: ruleForm.validFrom,
+      validTo: ruleForm.validTo || null,
+      notes: ruleForm.notes || null,
+    };
+
+    setIsSaving(true);
+    try {
+      if (editingRule) {
+        await agentCommissionsApi.updateRule(agentId, editingRule.id, data);
+      } else {
+        await agentCommissionsApi.createRule(agentId, data);
+      }
+      toast.success('Regola salvata');
+      setIsRuleModalOpen(false);
+      fetchData();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nel salvataggio');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteRule = async (rule: CommissionRule) => {
+    if (!confirm('Eliminare questa regola provvigionale?')) return;
+
+    try {
+      await agentCommissionsApi.deleteRule(agentId, rule.id);
+      toast.success('Regola eliminata');
+      fetchData();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nell\'eliminazione');
+    }
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      const result = await agentCommissionsApi.generateStatement(agentId, period);
+      toast.success(
+        result.pendingCount > 0
+          ? `Estratto conto generato (${result.pendingCount} iscrizioni non ancora maturate)`
+          : 'Estratto conto generato'
+      );
+      fetchData();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nella generazione');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleShowDetail = async (statement: CommissionStatement) => {
+    try {
+      setDetail(await agentCommissionsApi.getStatement(agentId, statement.id));
+    } catch (error) {
+      toast.error('Errore nel caricamento dell\'estratto conto');
+    }
+  };
+
+  const handleLiquidate = async (statement: CommissionStatement) => {
+    if (!confirm(`Segnare come liquidato l'estratto di ${formatPeriod(statement.period)} (${formatPrice(statement.totalAmount)})? L'operazione non è reversibile.`)) return;
+
+    try {
+      await agentCommissionsApi.liquidateStatement(agentId, statement.id);
+      toast.success('Estratto conto liquidato');
+      setDetail(null);
+      fetchData();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nella liquidazione');
+    }
+  };
+
+  const handleDeleteStatement = async (statement: CommissionStatement) => {
+    if (!confirm(`Eliminare l'estratto di ${formatPeriod(statement.period)}? Le iscrizioni torneranno nei prossimi estratti.`)) return;
+
+    try {
+      await agentCommissionsApi.deleteStatement(agentId, statement.id);
+      toast.success('Estratto conto eliminato');
+      fetchData();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nell\'eliminazione');
+    }
+  };
+
+  const handleExport = async (statement: CommissionStatement, format: 'pdf' | 'excel') => {
+    try {
+      const { lines } = await agentCommissionsApi.getStatement(agentId, statement.id);
+      const rows = lines.map(line => ({
+        date: new Date(line.registrationDate).toLocaleDateString('it-IT'),
+        student: line.studentName,
+        course: line.courseTitle,
+        price: formatPrice(line.priceApplied),
+        invoice: INVOICE_STATUS_LABELS[line.invoiceStatus || 'none'] || line.invoiceStatus,
+        commission: formatPrice(line.commissionAmount),
+      }));
+      rows.push({ date: '', student: '', course: '', price: '', invoice: 'Totale', commission: formatPrice(statement.totalAmount) });
+
+      const filename = `provvigioni_${agentName.replace(/\s+/g, '_')}_${statement.period}`;
+      if (format === 'pdf') {
+        const status = COMMISSION_STATUS_LABELS[statement.status].toLowerCase();
+        await exportToPDF(rows, filename, EXPORT_COLUMNS, `Provvigioni ${agentName} - ${formatPeriod(statement.period)} (${status})`);
+      } else {
+        await exportToExcel(
+          rows.map(row => Object.fromEntries(EXPORT_COLUMNS.map(col => [col.label, row[col.key as keyof typeof row]]))),
+          filename,
+          'Provvigioni'
+        );
+      }
+    } catch (error) {
+      toast.error('Errore nell\'esportazione');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Provvigioni</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Regole */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <h4 className="font-medium text-gray-900">Regole provvigionali</h4>
+              <p className="text-sm text-gray-500">
+                Si applica la regola valida alla data di iscrizione, preferendo quella della tipologia del corso.
+              </p>
+            </div>
+            {canEditRules && (
+              <Button size="sm" onClick={() => openRuleModal(null)}>+ Nuova Regola</Button>
+            )}
+          </div>
+
+          {rules.length === 0 ? (
+            <EmptyState title="Nessuna regola" description="Senza regole non maturano provvigioni per questo agente" />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tipologia corso</TableHead>
+                  <TableHead>Provvigione</TableHead>
+                  <TableHead>Maturazione</TableHead>
+                  <TableHead>Validità</TableHead>
+                  <TableHead>Note</TableHead>
+                  {canEditRules && <TableHead className="text-right">Azioni</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map(rule => (
+                  <TableRow key={rule.id}>
+                    <TableCell>{rule.courseType ? courseTypeLabel(rule.courseType) : 'Tutte'}</TableCell>
+                    <TableCell className="font-medium">{formatCommissionRule(rule)}</TableCell>
+                    <TableCell>{COMMISSION_ACCRUAL_LABELS[rule.accrueOn]}</TableCell>
+                    <TableCell>
+                      dal {new Date(rule.validFrom).toLocaleDateString('it-IT')}
+                      {rule.validTo && ` al ${new Date(rule.validTo).toLocaleDateString('it-IT')}`}
+                    </TableCell>
+                    <TableCell>{rule.notes || '-'}</TableCell>
+                    {canEditRules && (
+                      <TableCell className="text-right space-x-3">
+                        <button onClick={() => openRuleModal(rule)} className="text-blue-600 hover:text-blue-700 text-sm">
+                          Modifica
+                        </button>
+                        <button onClick={() => handleDeleteRule(rule)} className="text-red-600 hover:text-red-700 text-sm">
+                          Elimina
+                        </button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+
+        {/* Estratti conto */}
+        <div className="space-y-3 border-t pt-4">
+          <div className="flex flex-wrap items-end justify-between gap-3">
+            <div>
+              <h4 className="font-medium text-gray-900">Estratti conto mensili</h4>
+              <p className="text-sm text-gray-500">
+                Ogni estratto raccoglie le provvigioni maturate fino a fine mese e non ancora liquidate.
+              </p>
+            </div>
+            {can('commissions', 'create') && (
+              <div className="flex items-end gap-2">
+                <Input type="month" label="Mese" value={period} onChange={(e) => setPeriod(e.target.value)} />
+                <Button onClick={handleGenerate} isLoading={isGenerating} disabled={!period || isGenerating}>
+                  Genera Estratto
+                </Button>
+              </div>
+            )}
+          </div>
+
+          {statements.length === 0 ? (
+            <EmptyState title="Nessun estratto conto" description="Genera l'estratto del mese per calcolare le provvigioni" />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Mese</TableHead>
+                  <TableHead>Iscrizioni</TableHead>
+                  <TableHead>Totale</TableHead>
+                  <TableHead>Stato</TableHead>
+                  <TableHead className="text-right">Azioni</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {statements.map(statement => (
+                  <TableRow key={statement.id}>
+                    <TableCell className="font-medium capitalize">{formatPeriod(statement.period)}</TableCell>
+                    <TableCell>{statement.linesCount}</TableCell>
+                    <TableCell>{formatPrice(statement.totalAmount)}</TableCell>
+                    <TableCell>
+                      <Badge variant={statement.status === 'liquidated' ? 'success' : 'warning'}>
+                        {COMMISSION_STATUS_LABELS[statement.status]}
+                      </Badge>
+                      {statement.liquidatedAt && (
+                        <span className="text-xs text-gray-500 ml-2">
+                          il {new Date(statement.liquidatedAt).toLocaleDateString('it-IT')}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right space-x-3 whitespace-nowrap">
+                      <button onClick={() => handleShowDetail(statement)} className="text-blue-600 hover:text-blue-700 text-sm">
+                        Dettaglio
+                      </button>
+                      <button onClick={() => handleExport(statement, 'pdf')} className="text-gray-600 hover:text-gray-800 text-sm">
+                        PDF
+                      </button>
+                      <button onClick={() => handleExport(statement, 'excel')} className="text-gray-600 hover:text-gray-800 text-sm">
+                        Excel
+                      </button>
+                      {statement.status === 'draft' && can('commissions', 'update') && (
+                        <button onClick={() => handleLiquidate(statement)} className="text-green-600 hover:text-green-700 text-sm">
+                          Liquida
+                        </button>
+                      )}
+                      {statement.status === 'draft' && can('commissions', 'delete') && (
+                        <button onClick={() => handleDeleteStatement(statement)} className="text-red-600 hover:text-red-700 text-sm">
+                          Elimina
+                        </button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </CardContent>
+
+      {/* Modal regola */}
+      <Modal
+        isOpen={isRuleModalOpen}
+        onClose={() => setIsRuleModalOpen(false)}
+        title={editingRule ? 'Modifica Regola Provvigionale' : 'Nuova Regola Provvigionale'}
+      >
+        <div className="space-y-4">
+          <Select
+            label="Tipologia corso"
+            value={ruleForm.courseType}
+            onChange={(e) => setRuleForm({ ...ruleForm, courseType: e.target.value })}
+            options={[{ value: '', label: 'Tutte le tipologie' }, ...COURSE_TYPES]}
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <Select
+              label="Tipo"
+              value={ruleForm.commissionType}
+              onChange={(e) => setRuleForm({ ...ruleForm, commissionType: e.target.value as CommissionType })}
+              options={[
+                { value: 'percentage', label: 'Percentuale sul prezzo' },
+                { value: 'fixed', label: 'Importo fisso a iscrizione' },
+              ]}
+            />
+            <Input
+              label={ruleForm.commissionType === 'percentage' ? 'Percentuale (%) *' : 'Importo (€) *'}
+              type="number"
+              min="0"
+              max={ruleForm.commissionType === 'percentage' ? '100' : undefined}
+              step="0.01"
+              value={ruleForm.value}
+              onChange={(e) => setRuleForm({ ...ruleForm, value: e.target.value })}
+            />
+          </div>
+          <Select
+            label="Maturazione"
+            value={ruleForm.accrueOn}
+            onChange={(e) => setRuleForm({ ...ruleForm, accrueOn: e.target.value as CommissionAccrual })}
+            options={Object.entries(COMMISSION_ACCRUAL_LABELS).map(([value, label]) => ({ value, label }))}
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Valida dal *"
+              type="date"
+              value={ruleForm.validFrom}
+              onChange={(e) => setRuleForm({ ...ruleForm, validFrom: e.target.value })}
+            />
+            <Input
+              label="Valida fino al"
+              type="date"
+              value={ruleForm.validTo}
+              onChange={(e) => setRuleForm({ ...ruleForm, validTo: e.target.value })}
+            />
+          </div>
+          <Textarea
+            label="Note"
+            rows={2}
+            value={ruleForm.notes}
+            onChange={(e) => setRuleForm({ ...ruleForm, notes: e.target.value })}
+          />
+          <div className="flex justify-end gap-3 pt-4">
+            <Button variant="secondary" onClick={() => setIsRuleModalOpen(false)}>Annulla</Button>
+            <Button onClick={handleSaveRule} isLoading={isSaving}>Salva Regola</Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Modal dettaglio estratto conto */}
+      <Modal
+        isOpen={detail !== null}
+        onClose={() => setDetail(null)}
+        title={detail ? `Estratto conto ${formatPeriod(detail.period)}` : ''}
+        size="xl"
+      >
+        {detail && (
+          <div className="space-y-4">
+            {detail.lines.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-4">Nessuna provvigione maturata.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {EXPORT_COLUMNS.map(col => <TableHead key={col.key}>{col.label}</TableHead>)}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {detail.lines.map(line => (
+                    <TableRow key={line.id}>
+                      <TableCell>{new Date(line.registrationDate).toLocaleDateString('it-IT')}</TableCell>
+                      <TableCell>{line.studentName}</TableCell>
+                      <TableCell>{line.courseTitle}</TableCell>
+                      <TableCell>{formatPrice(line.priceApplied)}</TableCell>
+                      <TableCell>{INVOICE_STATUS_LABELS[line.invoiceStatus || 'none'] || line.invoiceStatus}</TableCell>
+                      <TableCell className="font-medium">{formatPrice(line.commissionAmount)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            <div className="flex items-center justify-between border-t pt-4">
+              <p className="text-lg font-semibold">Totale: {formatPrice(detail.totalAmount)}</p>
+              {detail.status === 'draft' && can('commissions', 'update') && (
+                <Button onClick={() => handleLiquidate(detail)}>Segna come Liquidato</Button>
+              )}
+            </div>
+          </div>
+        )}
+      </Modal>
+    </Card>
+  );
+}
@@ -0,0 +1,191 @@
+/**
+ * Storico modifiche di un'entità (studente, azienda, edizione)
+ * Mostra chi ha modificato cosa e quando, con il dettaglio campo per campo
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell, EmptyState, Pagination } from './ui/Table';
+import { auditApi } from '../lib/api';
+import type { AuditEntityType, AuditLogEntry } from '../types';
+
+interface Props {
+  studentId?: number;
+  companyId?: number;
+  editionId?: number;
+}
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  company: 'Azienda',
+  student: 'Studente',
+  edition: 'Edizione',
+  registration: 'Iscrizione',
+  attendance: 'Presenza',
+  session: 'Sessione',
+  subscription: 'Abbonamento',
+};
+
+const ACTION_LABELS: Record<AuditLogEntry['action'], { label: string; className: string }> = {
+  create: { label: 'Creazione', className: 'bg-green-100 text-green-800' },
+  update: { label: 'Modifica', className: 'bg-blue-100 text-blue-800' },
+  delete: { label: 'Eliminazione', className: 'bg-red-100 text-red-800' },
+};
+
+// Etichette dei campi più rilevanti per le verifiche 81/08
+const FIELD_LABELS: Record<string, string> = {
+  status: 'Stato',
+  certificateDate: 'Data attestato',
+  attendancePercent: 'Frequenza %',
+  recoverySessionId: 'Sessione di recupero',
+  recoveryStatus: 'Esito recupero',
+  recoveryHours: 'Ore recuperate',
+  hoursAttended: 'Ore frequentate',
+  attendanceDate: 'Data presenza',
+  priceApplied: 'Prezzo',
+  firstName: 'Nome',
+  lastName: 'Cognome',
+  fiscalCode: 'Codice fiscale',
+  companyId: 'Azienda',
+  startDate: 'Data inizio',
+  endDate: 'Data fine',
+  sessionDate: 'Data sessione',
+  instructorId: 'Docente',
+  notes: 'Note',
+};
+
+export function AuditHistory({ studentId, companyId, editionId }: Props) {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [entityType, setEntityType] = useState('');
+  const [pagination, setPagination] = useState({ page: 1, pageSize: 20, total: 0, totalPages: 0 });
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEntries = useCallback(async (page = 1) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await auditApi.getAll({
+        studentId,
+        companyId,
+        editionId,
+        entityType: entityType || undefined,
+        page,
+        pageSize: 20,
+      });
+      setEntries(response.data);
+      setPagination({
+        page: response.page,
+        pageSize: response.pageSize,
+        total: response.total,
+        totalPages: response.totalPages,
+      });
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Errore nel caricamento dello storico');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [studentId, companyId, editionId, entityType]);
+
+  useEffect(() => {
+    fetchEntries(1);
+  }, [fetchEntries]);
+
+  const formatDateTime = (dateString: string) =>
+    new Date(dateString).toLocaleString('it-IT', { dateStyle: 'short', timeStyle: 'medium' });
+
+  const formatValue = (value: unknown) => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  };
+
+  const describeEntity = (entry: AuditLogEntry) => {
+    const label = ENTITY_LABELS[entry.entityType];
+    if (entry.courseTitle && entry.entityType !== 'student' && entry.entityType !== 'company') {
+      return `${label} – ${entry.courseTitle}`;
+    }
+    return `${label} #${entry.entityId}`;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3 px-4 pt-4">
+        <label className="text-sm text-gray-600">Tipo:</label>
+        <select
+          value={entityType}
+          onChange={(e) => setEntityType(e.target.value)}
+          className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm bg-white"
+        >
+          <option value="">Tutti</option>
+          {Object.entries(ENTITY_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="mx-4 p-3 rounded-lg bg-red-50 text-red-700 border border-red-200 text-sm">{error}</div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : entries.length === 0 ? (
+        <EmptyState title="Nessuna modifica registrata" description="Le modifiche ai dati compariranno qui" />
+      ) : (
+        <>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Data</TableHead>
+                <TableHead>Utente</TableHead>
+                <TableHead>Elemento</TableHead>
+                <TableHead>Azione</TableHead>
+                <TableHead>Modifiche</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell className="whitespace-nowrap text-sm">{formatDateTime(entry.createdAt)}</TableCell>
+                  <TableCell className="text-sm">
+                    <div>{entry.userEmail}</div>
+                    {entry.ipAddress && <div className="text-xs text-gray-400">IP {entry.ipAddress}</div>}
+                  </TableCell>
+                  <TableCell className="text-sm">{describeEntity(entry)}</TableCell>
+                  <TableCell>
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${ACTION_LABELS[entry.action].className}`}>
+                      {ACTION_LABELS[entry.action].label}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {entry.action === 'update' ? (
+                      <ul className="space-y-0.5">
+                        {Object.entries(entry.changes).map(([field, change]) => (
+                          <li key={field}>
+                            <span className="text-gray-500">{FIELD_LABELS[field] || field}:</span>{' '}
+                            <span className="line-through text-gray-400">{formatValue(change.from)}</span>{' → '}
+                            <span className="font-medium">{formatValue(change.to)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <span className="text-gray-500">{Object.keys(entry.changes).length} campi</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {pagination.totalPages > 1 && (
+            <Pagination
+              currentPage={pagination.page}
+              totalPages={pagination.totalPages}
+              onPageChange={(page) => fetchEntries(page)}
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+}
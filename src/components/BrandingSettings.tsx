@@ -0,0 +1,174 @@
+/**
+ * Sezione "Carta intestata" delle impostazioni
+ * Dati dell'ente formatore, logo e colori usati su registri, esportazioni, attestati ed email
+ */
+
+import { useState, useEffect } from 'react';
+import { Button } from './ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
+import { Input, Textarea } from './ui/Input';
+import { brandingApi } from '../lib/api';
+import { usePermissions } from '../hooks/usePermissions';
+import type { ClientBranding } from '../lib/branding';
+import toast from 'react-hot-toast';
+
+// Il server accetta data URL fino a ~300 KB di immagine
+const MAX_LOGO_BYTES = 300 * 1024;
+
+type TextField = 'legalName' | 'vatNumber' | 'fiscalCode' | 'address' | 'zipCode' | 'city' | 'province' | 'phone' | 'email' | 'website';
+
+const TEXT_FIELDS: { key: TextField; label: string; className?: string }[] = [
+  { key: 'legalName', label: 'Ragione sociale', className: 'md:col-span-2' },
+  { key: 'vatNumber', label: 'Partita IVA' },
+  { key: 'fiscalCode', label: 'Codice fiscale' },
+  { key: 'address', label: 'Indirizzo', className: 'md:col-span-2' },
+  { key: 'zipCode', label: 'CAP' },
+  { key: 'city', label: 'Città' },
+  { key: 'province', label: 'Provincia' },
+  { key: 'phone', label: 'Telefono' },
+  { key: 'email', label: 'Email' },
+  { key: 'website', label: 'Sito web' },
+];
+
+export function BrandingSettings() {
+  const { can } = usePermissions();
+  const [branding, setBranding] = useState<ClientBranding | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const canEdit = can('settings', 'update');
+
+  useEffect(() => {
+    brandingApi.get()
+      .then(setBranding)
+      .catch(() => toast.error('Errore nel caricamento della carta intestata'));
+  }, []);
+
+  const handleLogoChange = (file: File | undefined) => {
+    if (!file || !branding) return;
+
+    if (!['image/png', 'image/jpeg'].includes(file.type)) {
+      toast.error('Il logo deve essere un\'immagine PNG o JPEG');
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      toast.error('Il logo è troppo grande (massimo 300 KB)');
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => setBranding({ ...branding, logo: reader.result as string });
+    reader.readAsDataURL(file);
+  };
+
+  const handleSave = async () => {
+    if (!branding) return;
+
+    setIsSaving(true);
+    try {
+      const { name, ...data } = branding;
+      const response = await brandingApi.update(data);
+      setBranding(response.data);
+      toast.success('Carta intestata aggiornata');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nel salvataggio');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!branding) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Carta Intestata</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Intestazione di registri presenze, esportazioni, attestati ed email. Senza ragione sociale
+          viene usato il nome dell'account ({branding.name}).
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {TEXT_FIELDS.map(({ key, label, className }) => (
+            <div key={key} className={className}>
+              <Input
+                label={label}
+                value={branding[key] || ''}
+                onChange={(e) => setBranding({ ...branding, [key]: e.target.value })}
+                disabled={!canEdit}
+              />
+            </div>
+          ))}
+          <div className="md:col-span-2">
+            <Textarea
+              label="Accreditamenti"
+              value={branding.accreditationNumbers || ''}
+              onChange={(e) => setBranding({ ...branding, accreditationNumbers: e.target.value })}
+              rows={2}
+              placeholder="es. Regione Lombardia n. 1234 - Fondimpresa"
+              disabled={!canEdit}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-6">
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-1">Logo</p>
+            <div className="flex items-center gap-3">
+              <div className="h-14 w-40 border border-gray-200 rounded-lg flex items-center justify-center bg-white">
+                {branding.logo
+                  ? <img src={branding.logo} alt="Logo" className="max-h-12 max-w-36" />
+                  : <span className="text-xs text-gray-400">Nessun logo</span>}
+              </div>
+              {canEdit && (
+                <div className="flex flex-col gap-1">
+                  <label className="text-sm text-blue-600 cursor-pointer hover:underline">
+                    Carica PNG/JPEG
+                    <input
+                      type="file"
+                      accept="image/png,image/jpeg"
+                      className="hidden"
+                      onChange={(e) => handleLogoChange(e.target.files?.[0])}
+                    />
+                  </label>
+                  {branding.logo && (
+                    <button
+                      type="button"
+                      onClick={() => setBranding({ ...branding, logo: null })}
+                      className="text-sm text-red-600 hover:underline text-left"
+                    >
+                      Rimuovi
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {([
+            ['primaryColor', 'Colore principale'],
+            ['secondaryColor', 'Colore testo intestazione'],
+          ] as const).map(([key, label]) => (
+            <div key={key}>
+              <label htmlFor={`branding-${key}`} className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+              <input
+                id={`branding-${key}`}
+                type="color"
+                value={branding[key]}
+                onChange={(e) => setBranding({ ...branding, [key]: e.target.value })}
+                disabled={!canEdit}
+                className="h-10 w-16 border border-gray-300 rounded-lg bg-white"
+              />
+            </div>
+          ))}
+        </div>
+
+        {canEdit && (
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Salvataggio...' : 'Salva Carta Intestata'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
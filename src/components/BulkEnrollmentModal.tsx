@@ -3,8 +3,12 @@ import { Modal } from './ui/Modal';
 import { Button } from './ui/Button';
 import { Card, CardContent } from './ui/Card';
 import { Checkbox } from './ui/Checkbox';
+import { Textarea } from './ui/Input';
 import { editionsApi, studentsApi, registrationsApi, companiesApi } from '../lib/api';
-import type { CourseEdition, Student, Company } from '../types';
+import { usePermissions } from '../hooks/usePermissions';
+import type { CourseEdition, Student, Company, BulkRegistrationResult } from '../types';
+
+const PREREQUISITE_ERROR_CODE = 'PREREQUISITE_MISSING';
 
 interface BulkEnrollmentModalProps {
   isOpen: boolean;
@@ -22,6 +26,10 @@ export function BulkEnrollmentModal({ isOpen, onClose, onSuccess }: BulkEnrollme
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [message, setMessage] = useState<string | null>(null);
+  const [failures, setFailures] = useState<BulkRegistrationResult[]>([]);
+  const [overrideReason, setOverrideReason] = useState('');
+  const { role } = usePermissions();
+  const isAdmin = role === 'admin';
 
   const fetchDropdownData = useCallback(async () => {
     try {
@@ -52,6 +60,8 @@ export function BulkEnrollmentModal({ isOpen, onClose, onSuccess }: BulkEnrollme
     setSelectedStudentIds([]);
     setError(null);
     setMessage(null);
+    setFailures([]);
+    setOverrideReason('');
   };
 
   const handleCompanyToggle = (companyId: number) => {
@@ -92,14 +102,20 @@ export function BulkEnrollmentModal({ isOpen, onClose, onSuccess }: BulkEnrollme
     setIsLoading(true);
     setError(null);
     setMessage(null);
+    setFailures([]);
 
     try {
       const response = await registrationsApi.bulkCreate({
         courseEditionId: selectedEditionId,
         studentIds: selectedStudentIds,
+        prerequisiteOverrideReason: overrideReason.trim() || undefined,
       });
 
-      setMessage(`✅ Iscrizione massiva completata. ${response.successCount} studenti iscritti, ${response.failedCount} falliti (probabilmente già iscritti).`);
+      const failed = response.results.filter(r => r.error);
+      setMessage(`✅ Iscrizione massiva completata. ${response.successCount} studenti iscritti, ${response.failedCount} non iscritti.`);
+      setFailures(failed);
+      // Restano selezionati solo gli studenti non iscritti, per ripetere l'operazione (es. con deroga)
+      setSelectedStudentIds(failed.map(r => r.studentId));
       onSuccess();
     } catch (err: any) {
       console.error('Error during bulk enrollment:', err);
@@ -109,6 +125,13 @@ export function BulkEnrollmentModal({ isOpen, onClose, onSuccess }: BulkEnrollme
     }
   };
 
+  const studentName = (studentId: number) => {
+    const student = students.find(s => s.id === studentId);
+    return student ? `${student.firstName} ${student.lastName}` : `Studente #${studentId}`;
+  };
+
+  const hasPrerequisiteFailures = failures.some(f => f.code === PREREQUISITE_ERROR_CODE);
+
   const isAllStudentsSelected = filteredStudents.length > 0 && selectedStudentIds.length === filteredStudents.length;
 
   return (
@@ -124,6 +147,18 @@ export function BulkEnrollmentModal({ isOpen, onClose, onSuccess }: BulkEnrollme
             {message}
           </div>
         )}
+        {failures.length > 0 && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm">
+            <p className="font-medium text-yellow-800 mb-2">Studenti non iscritti:</p>
+            <ul className="space-y-1 text-yellow-900 max-h-40 overflow-y-auto">
+              {failures.map(f => (
+                <li key={f.studentId}>
+                  <strong>{studentName(f.studentId)}</strong>: {f.error}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
 
         {/* Step 1: Select Edition */}
         <Card>
@@ -210,6 +245,26 @@ export function BulkEnrollmentModal({ isOpen, onClose, onSuccess }: BulkEnrollme
           </CardContent>
         </Card>
 
+        {/* Deroga prerequisiti (solo admin) */}
+        {isAdmin && (
+          <Card>
+            <CardContent className="p-4">
+              <h3 className="text-lg font-semibold mb-1">Deroga Prerequisiti (Opzionale)</h3>
+              <p className="text-sm text-gray-600 mb-3">
+                {hasPrerequisiteFailures
+                  ? 'Alcuni studenti non hanno i prerequisiti del corso. Indica la motivazione per iscriverli comunque: la deroga resta registrata sull\'iscrizione.'
+                  : 'Compila solo per iscrivere studenti privi dei prerequisiti del corso: la motivazione resta registrata sull\'iscrizione.'}
+              </p>
+              <Textarea
+                value={overrideReason}
+                onChange={(e) => setOverrideReason(e.target.value)}
+                rows={2}
+                placeholder="es. Formazione generale svolta presso altro ente, attestato in verifica"
+              />
+            </CardContent>
+          </Card>
+        )}
+
         {/* Action Buttons */}
         <div className="flex justify-end gap-3 pt-4 border-t">
           <Button type="button" variant="secondary" onClick={onClose} disabled={isLoading}>
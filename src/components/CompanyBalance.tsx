@@ -0,0 +1,117 @@
+/**
+ * Sezione "Saldo da incassare" del dettaglio azienda
+ * Residuo aperto per fasce di anzianità, voci aperte e registrazione degli incassi
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { BanknotesIcon } from '@heroicons/react/24/outline';
+import { Button } from './ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell, EmptyState } from './ui/Table';
+import { PaymentModal } from './PaymentModal';
+import { paymentsApi } from '../lib/api';
+import { AGEING_BUCKETS } from '../lib/payments';
+import type { ReceivableItem, ReceivablesReport } from '../lib/payments';
+import { formatCurrency, formatDate } from '../lib/utils';
+import { usePermissions } from '../hooks/usePermissions';
+import toast from 'react-hot-toast';
+
+interface Props {
+  companyId: number;
+}
+
+export function CompanyBalance({ companyId }: Props) {
+  const { can } = usePermissions();
+  const [report, setReport] = useState<ReceivablesReport | null>(null);
+  const [paying, setPaying] = useState<ReceivableItem | null>(null);
+
+  const fetchBalance = useCallback(async () => {
+    try {
+      setReport(await paymentsApi.getReceivables({ companyId }));
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nel caricamento del saldo');
+    }
+  }, [companyId]);
+
+  useEffect(() => {
+    fetchBalance();
+  }, [fetchBalance]);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <BanknotesIcon className="h-5 w-5 text-emerald-600" />
+          Saldo da incassare
+        </CardTitle>
+        {report && (
+          <span className={`text-xl font-bold ${report.totals.total > 0 ? 'text-red-600' : 'text-green-600'}`}>
+            {formatCurrency(report.totals.total)}
+          </span>
+        )}
+      </CardHeader>
+      <CardContent className="p-0">
+        {report && report.items.length > 0 && (
+          <div className="grid grid-cols-4 gap-4 px-6 pb-4">
+            {AGEING_BUCKETS.map(bucket => (
+              <div key={bucket} className="text-center">
+                <div className={`font-semibold ${bucket === '>90' && report.totals[bucket] > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                  {formatCurrency(report.totals[bucket])}
+                </div>
+                <div className="text-xs text-gray-500">{bucket === '>90' ? 'Oltre 90 gg' : `${bucket} gg`}</div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {!report || report.items.length === 0 ? (
+          <EmptyState title="Nessun importo da incassare" description="Fatture e iscrizioni dell'azienda risultano saldate" />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Voce</TableHead>
+                <TableHead>Data</TableHead>
+                <TableHead>Totale</TableHead>
+                <TableHead>Incassato</TableHead>
+                <TableHead>Residuo</TableHead>
+                <TableHead className="text-right">Azioni</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.items.map(item => (
+                <TableRow key={`${item.kind}-${item.id}`}>
+                  <TableCell className="text-sm">{item.label}</TableCell>
+                  <TableCell className="text-sm">
+                    {formatDate(item.date)}
+                    <div className="text-xs text-gray-400">{item.days} gg</div>
+                  </TableCell>
+                  <TableCell className="text-sm">{formatCurrency(item.totalAmount)}</TableCell>
+                  <TableCell className="text-sm">{formatCurrency(item.paidAmount)}</TableCell>
+                  <TableCell className="text-sm font-medium">{formatCurrency(item.balance)}</TableCell>
+                  <TableCell className="text-right">
+                    {can('payments', 'create') && (
+                      <Button variant="secondary" size="sm" onClick={() => setPaying(item)}>
+                        Registra incasso
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <PaymentModal
+        isOpen={!!paying}
+        onClose={() => setPaying(null)}
+        onSaved={fetchBalance}
+        invoiceId={paying?.kind === 'invoice' ? paying.id : undefined}
+        registrationId={paying?.kind === 'registration' ? paying.id : undefined}
+        label={paying?.label || ''}
+        balance={paying?.balance || 0}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,229 @@
+/**
+ * Componente per gestire i listini per agente in un'edizione
+ * Il prezzo dell'agente si applica alle iscrizioni dei suoi studenti (o delle sue aziende)
+ * quando l'azienda non ha un prezzo proprio
+ */
+
+import { useState, useEffect } from 'react';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Modal } from './ui/Modal';
+import { editionsApi } from '../lib/api';
+import type { EditionAgentPrice } from '../types';
+import toast from 'react-hot-toast';
+
+interface Agent {
+  id: number;
+  name: string;
+}
+
+interface Props {
+  editionId: number;
+  defaultPrice: number; // Prezzo standard dell'edizione in centesimi
+  agents: Agent[];
+  onPriceChange?: () => void;
+}
+
+export function EditionAgentPrices({ editionId, defaultPrice, agents, onPriceChange }: Props) {
+  const [prices, setPrices] = useState<EditionAgentPrice[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingAgentId, setEditingAgentId] = useState<number | null>(null);
+  const [selectedAgentId, setSelectedAgentId] = useState<string>('');
+  const [agentPrice, setAgentPrice] = useState<string>('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchPrices = async () => {
+    setIsLoading(true);
+    try {
+      setPrices(await editionsApi.getAgentPrices(editionId));
+    } catch (error) {
+      console.error('Error fetching agent prices:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (editionId) {
+      fetchPrices();
+    }
+  }, [editionId]);
+
+  const formatPrice = (cents: number) => {
+    return new Intl.NumberFormat('it-IT', {
+      style: 'currency',
+      currency: 'EUR'
+    }).format(cents / 100);
+  };
+
+  const handleAddPrice = () => {
+    setEditingAgentId(null);
+    setSelectedAgentId('');
+    setAgentPrice(String(defaultPrice / 100));
+    setIsModalOpen(true);
+  };
+
+  const handleEditPrice = (price: EditionAgentPrice) => {
+    setEditingAgentId(price.agentId);
+    setSelectedAgentId(String(price.agentId));
+    setAgentPrice(String(price.price / 100));
+    setIsModalOpen(true);
+  };
+
+  const handleSavePrice = async () => {
+    if (!selectedAgentId || agentPrice === '') {
+      toast.error('Seleziona un agente e inserisci il prezzo');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await editionsApi.saveAgentPrice(editionId, {
+        agentId: Number(selectedAgentId),
+        price: Math.round(Number(agentPrice) * 100),
+      });
+      toast.success('Prezzo salvato');
+      setIsModalOpen(false);
+      fetchPrices();
+      onPriceChange?.();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nel salvataggio');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeletePrice = async (agentId: number) => {
+    if (!confirm('Rimuovere il prezzo per questo agente?')) return;
+
+    try {
+      await editionsApi.deleteAgentPrice(editionId, agentId);
+      toast.success('Prezzo rimosso');
+      fetchPrices();
+      onPriceChange?.();
+    } catch (error) {
+      toast.error('Errore nella rimozione');
+    }
+  };
+
+  // Agenti senza prezzo (più quello in modifica)
+  const availableAgents = agents.filter(
+    a => a.id === editingAgentId || !prices.some(p => p.agentId === a.id)
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="font-medium text-gray-900">👤 Prezzi per Agente</h4>
+          <p className="text-sm text-gray-500">
+            Prezzo standard: {formatPrice(defaultPrice)} · il prezzo per azienda ha la precedenza
+          </p>
+        </div>
+        <Button type="button" size="sm" onClick={handleAddPrice}>
+          + Aggiungi Prezzo
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto"></div>
+        </div>
+      ) : prices.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-4 bg-gray-50 rounded-lg">
+          Nessun prezzo per agente. Gli studenti degli agenti pagano il prezzo standard.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {prices.map((price) => (
+            <div
+              key={price.id}
+              className="flex items-center justify-between bg-white p-3 rounded-lg border"
+            >
+              <div className="flex-1">
+                <span className="font-medium text-gray-900">{price.agentName}</span>
+                <div className="flex items-center gap-4 mt-1">
+                  <span className="text-lg font-semibold text-blue-600">
+                    {formatPrice(price.price)}
+                  </span>
+                  {price.price !== defaultPrice && (
+                    <span className="text-sm text-gray-500 line-through">
+                      {formatPrice(defaultPrice)}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => handleEditPrice(price)}
+                  className="p-2 text-gray-400 hover:text-blue-600"
+                  title="Modifica"
+                >
+                  ✏️
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDeletePrice(price.agentId)}
+                  className="p-2 text-gray-400 hover:text-red-600"
+                  title="Rimuovi"
+                >
+                  🗑️
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Modal per aggiungere/modificare prezzo */}
+      <Modal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        title="Prezzo per Agente"
+      >
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Agente *</label>
+            <select
+              value={selectedAgentId}
+              onChange={(e) => setSelectedAgentId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              disabled={editingAgentId !== null}
+            >
+              <option value="">Seleziona un agente</option>
+              {availableAgents.map(agent => (
+                <option key={agent.id} value={agent.id}>{agent.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <Input
+              label="Prezzo (€) *"
+              type="number"
+              min="0"
+              step="0.01"
+              value={agentPrice}
+              onChange={(e) => setAgentPrice(e.target.value)}
+              placeholder={String(defaultPrice / 100)}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Prezzo standard: {formatPrice(defaultPrice)}
+            </p>
+          </div>
+
+          <div className="flex justify-end gap-3 pt-4">
+            <Button type="button" variant="secondary" onClick={() => setIsModalOpen(false)}>
+              Annulla
+            </Button>
+            <Button type="button" onClick={handleSavePrice} isLoading={isSaving}>
+              Salva Prezzo
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+/**
+ * Sezione "Template email" delle impostazioni
+ * Oggetto e corpo HTML di ogni messaggio, con segnaposto tipo {{course.title}} e anteprima su dati di esempio
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { Button } from './ui/Button';
+import { Badge } from './ui/Badge';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
+import { Input, Select, Textarea } from './ui/Input';
+import { Modal } from './ui/Modal';
+import { emailTemplatesApi } from '../lib/api';
+import { usePermissions } from '../hooks/usePermissions';
+import type { EmailTemplate, EmailTemplateKey } from '../types';
+import toast from 'react-hot-toast';
+
+export function EmailTemplatesSettings() {
+  const { can } = usePermissions();
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [selectedKey, setSelectedKey] = useState<EmailTemplateKey | null>(null);
+  const [subject, setSubject] = useState('');
+  const [html, setHtml] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [preview, setPreview] = useState<{ subject: string; html: string } | null>(null);
+  const htmlRef = useRef<HTMLTextAreaElement>(null);
+  const canEdit = can('settings', 'update');
+
+  const selected = templates.find((t) => t.key === selectedKey) || null;
+
+  const selectTemplate = (template: EmailTemplate) => {
+    setSelectedKey(template.key);
+    setSubject(template.subject);
+    setHtml(template.html);
+  };
+
+  const fetchTemplates = async (key?: EmailTemplateKey) => {
+    try {
+      const data = await emailTemplatesApi.getAll();
+      setTemplates(data);
+      const current = data.find((t) => t.key === key) || data[0];
+      if (current) selectTemplate(current);
+    } catch {
+      toast.error('Errore nel caricamento dei template');
+    }
+  };
+
+  useEffect(() => {
+    fetchTemplates();
+  }, []);
+
+  // Inserisce il segnaposto nel punto del cursore
+  const insertPlaceholder = (placeholder: string) => {
+    const textarea = htmlRef.current;
+    if (!textarea) {
+      setHtml(html + placeholder);
+      return;
+    }
+    const { selectionStart, selectionEnd } = textarea;
+    setHtml(html.slice(0, selectionStart) + placeholder + html.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + placeholder.length, selectionStart + placeholder.length);
+    });
+  };
+
+  const handlePreview = async () => {
+    if (!selected) return;
+    try {
+      setPreview(await emailTemplatesApi.preview({ key: selected.key, subject, html }));
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nell\'anteprima');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!selected) return;
+
+    setIsSaving(true);
+    try {
+      await emailTemplatesApi.update(selected.key, { subject, html });
+      toast.success('Template salvato');
+      await fetchTemplates(selected.key);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nel salvataggio');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!selected || !confirm('Ripristinare il template predefinito? Le modifiche andranno perse.')) return;
+
+    try {
+      await emailTemplatesApi.reset(selected.key);
+      toast.success('Template predefinito ripristinato');
+      await fetchTemplates(selected.key);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nel ripristino');
+    }
+  };
+
+  if (!selected) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Template Email</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-end gap-3">
+          <div className="w-80">
+            <Select
+              label="Messaggio"
+              value={selected.key}
+              onChange={(e) => {
+                const template = templates.find((t) => t.key === e.target.value);
+                if (template) selectTemplate(template);
+              }}
+              options={templates.map((t) => ({ value: t.key, label: t.label }))}
+            />
+          </div>
+          <Badge variant={selected.isCustom ? 'info' : 'default'}>
+            {selected.isCustom ? 'Personalizzato' : 'Predefinito'}
+          </Badge>
+        </div>
+        <p className="text-sm text-gray-600">{selected.description}</p>
+
+        <Input
+          label="Oggetto"
+          value={subject}
+          onChange={(e) => setSubject(e.target.value)}
+          disabled={!canEdit}
+        />
+
+        <Textarea
+          ref={htmlRef}
+          label="Corpo (HTML)"
+          value={html}
+          onChange={(e) => setHtml(e.target.value)}
+          rows={14}
+          className="font-mono text-xs"
+          disabled={!canEdit}
+        />
+
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-2">Segnaposto disponibili</p>
+          <div className="flex flex-wrap gap-2">
+            {selected.placeholders.map((placeholder) => (
+              <button
+                key={placeholder}
+                type="button"
+                onClick={() => insertPlaceholder(placeholder)}
+                disabled={!canEdit}
+                className="px-2 py-1 rounded bg-gray-100 text-xs font-mono text-gray-700 hover:bg-gray-200 disabled:cursor-default"
+              >
+                {placeholder}
+              </button>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-gray-500">
+            I valori tra doppie graffe vengono inseriti come testo; quelli tra triple graffe (es. tabelle) come HTML.
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          <Button variant="secondary" onClick={handlePreview}>Anteprima</Button>
+          {canEdit && (
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Salvataggio...' : 'Salva Template'}
+            </Button>
+          )}
+          {canEdit && selected.isCustom && (
+            <Button variant="ghost" onClick={handleReset}>Ripristina predefinito</Button>
+          )}
+        </div>
+      </CardContent>
+
+      <Modal
+        isOpen={!!preview}
+        onClose={() => setPreview(null)}
+        title={preview?.subject}
+        description="Anteprima con dati di esempio"
+        size="xl"
+      >
+        {preview && (
+          <iframe
+            title="Anteprima template"
+            srcDoc={preview.html}
+            sandbox=""
+            className="w-full h-96 border border-gray-200 rounded-lg"
+          />
+        )}
+      </Modal>
+    </Card>
+  );
+}
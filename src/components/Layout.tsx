@@ -17,23 +17,32 @@ import {
   ChartBarIcon,
   Cog6ToothIcon,
   DocumentArrowUpIcon,
+  EnvelopeIcon,
+  DocumentTextIcon,
+  DocumentCheckIcon,
 } from '@heroicons/react/24/outline';
 import { useAuth } from '../contexts/AuthContext';
+import { usePermissions } from '../hooks/usePermissions';
 import { cn } from '../lib/utils';
+import type { Resource } from '../lib/permissions';
 
-const navigation = [
-  { name: 'Dashboard', href: '/', icon: HomeIcon },
-  { name: 'Aziende', href: '/companies', icon: BuildingOfficeIcon },
-  { name: 'Studenti', href: '/students', icon: UserGroupIcon },
-  { name: 'Servizi Offerti', href: '/services', icon: AcademicCapIcon },
-  { name: 'Docenti', href: '/instructors', icon: UserIcon },
-  { name: 'Agenti', href: '/agents', icon: UserPlusIcon },
-  { name: 'Edizioni Corsi', href: '/editions', icon: CalendarDaysIcon },
-  { name: 'Calendario', href: '/calendar', icon: CalendarDaysIcon },
-  { name: 'Importazioni', href: '/imports', icon: DocumentArrowUpIcon },
-  { name: 'Report', href: '/reports', icon: ChartBarIcon },
-  { name: 'Scadenzario', href: '/scadenzario', icon: ClockIcon },
-  { name: 'Impostazioni', href: '/settings', icon: Cog6ToothIcon },
+// Ogni voce è visibile solo se il ruolo può leggere la risorsa associata
+const navigation: { name: string; href: string; icon: typeof HomeIcon; resource: Resource }[] = [
+  { name: 'Dashboard', href: '/', icon: HomeIcon, resource: 'dashboard' },
+  { name: 'Aziende', href: '/companies', icon: BuildingOfficeIcon, resource: 'companies' },
+  { name: 'Studenti', href: '/students', icon: UserGroupIcon, resource: 'students' },
+  { name: 'Servizi Offerti', href: '/services', icon: AcademicCapIcon, resource: 'courses' },
+  { name: 'Docenti', href: '/instructors', icon: UserIcon, resource: 'instructors' },
+  { name: 'Agenti', href: '/agents', icon: UserPlusIcon, resource: 'agents' },
+  { name: 'Edizioni Corsi', href: '/editions', icon: CalendarDaysIcon, resource: 'editions' },
+  { name: 'Calendario', href: '/calendar', icon: CalendarDaysIcon, resource: 'sessions' },
+  { name: 'Importazioni', href: '/imports', icon: DocumentArrowUpIcon, resource: 'imports' },
+  { name: 'Preventivi', href: '/quotes', icon: DocumentCheckIcon, resource: 'quotes' },
+  { name: 'Fatturazione', href: '/invoices', icon: DocumentTextIcon, resource: 'invoices' },
+  { name: 'Report', href: '/reports', icon: ChartBarIcon, resource: 'reports' },
+  { name: 'Scadenzario', href: '/scadenzario', icon: ClockIcon, resource: 'certificates' },
+  { name: 'Email Inviate', href: '/email-outbox', icon: EnvelopeIcon, resource: 'email' },
+  { name: 'Impostazioni', href: '/settings', icon: Cog6ToothIcon, resource: 'settings' },
 ];
 
 interface LayoutProps {
@@ -46,6 +55,8 @@ export function Layout({ children }: LayoutProps) {
   const location = useLocation();
   const navigate = useNavigate();
   const { user, client, logout } = useAuth();
+  const { can } = usePermissions();
+  const visibleNavigation = navigation.filter((item) => can(item.resource, 'read'));
 
   const handleLogout = async () => {
     await logout();
@@ -77,7 +88,7 @@ export function Layout({ children }: LayoutProps) {
         </div>
         <nav className="mt-5 flex flex-1 flex-col">
           <ul className="space-y-1">
-            {navigation.map((item) => (
+            {visibleNavigation.map((item) => (
               <li key={item.name}>
                 <Link
                   to={item.href}
@@ -108,7 +119,7 @@ export function Layout({ children }: LayoutProps) {
           </div>
           <nav className="flex flex-1 flex-col">
             <ul className="space-y-1">
-              {navigation.map((item) => (
+              {visibleNavigation.map((item) => (
                 <li key={item.name}>
                   <Link
                     to={item.href}
@@ -161,9 +172,11 @@ export function Layout({ children }: LayoutProps) {
                 <>
                   <div className="fixed inset-0 z-10" onClick={() => setProfileMenuOpen(false)} />
                   <div className="absolute right-0 z-20 mt-2.5 w-48 origin-top-right rounded-md bg-white py-2 shadow-lg ring-1 ring-gray-900/5 focus:outline-none">
-                    <Link to="/settings" className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-50" onClick={() => setProfileMenuOpen(false)}>
-                      Impostazioni
-                    </Link>
+                    {can('settings', 'read') && (
+                      <Link to="/settings" className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-50" onClick={() => setProfileMenuOpen(false)}>
+                        Impostazioni
+                      </Link>
+                    )}
                     <button onClick={handleLogout} className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50">
                       Esci
                     </button>
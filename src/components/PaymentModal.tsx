@@ -0,0 +1,126 @@
+/**
+ * Modal "Registra incasso" su una fattura o su un'iscrizione non ancora fatturata
+ * L'importo proposto è il residuo; il server rifiuta importi superiori.
+ */
+
+import { useEffect, useState } from 'react';
+import { Button } from './ui/Button';
+import { Modal } from './ui/Modal';
+import { Input, Select, Textarea } from './ui/Input';
+import { paymentsApi } from '../lib/api';
+import { PAYMENT_METHOD_LABELS } from '../lib/payments';
+import type { PaymentMethod } from '../lib/payments';
+import { formatCurrency } from '../lib/utils';
+import toast from 'react-hot-toast';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+  invoiceId?: number;
+  registrationId?: number;
+  label: string; // Fattura o iscrizione, per l'intestazione
+  balance: number; // Residuo in centesimi
+}
+
+export function PaymentModal({ isOpen, onClose, onSaved, invoiceId, registrationId, label, balance }: Props) {
+  const [amount, setAmount] = useState('');
+  const [paymentDate, setPaymentDate] = useState('');
+  const [method, setMethod] = useState<PaymentMethod>('bank_transfer');
+  const [reference, setReference] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setAmount((balance / 100).toFixed(2));
+    setPaymentDate(new Date().toISOString().split('T')[0]);
+    setMethod('bank_transfer');
+    setReference('');
+    setNotes('');
+  }, [isOpen, balance]);
+
+  const handleSave = async () => {
+    const cents = Math.round(Number(amount) * 100);
+    if (!cents || cents <= 0) {
+      toast.error('Inserisci l\'importo incassato');
+      return;
+    }
+    if (cents > balance) {
+      toast.error(`L'importo supera il residuo di ${formatCurrency(balance)}`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await paymentsApi.create({
+        invoiceId,
+        registrationId,
+        amount: cents,
+        paymentDate,
+        method,
+        reference: reference || undefined,
+        notes: notes || undefined,
+      });
+      toast.success(cents === balance ? 'Incasso registrato: saldato' : 'Incasso parziale registrato');
+      onSaved();
+      onClose();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nella registrazione dell\'incasso');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Registra incasso"
+      description={`${label} · residuo ${formatCurrency(balance)}`}
+    >
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <Input
+            label="Importo (€) *"
+            type="number"
+            min="0"
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+          />
+          <Input
+            label="Data *"
+            type="date"
+            value={paymentDate}
+            onChange={(e) => setPaymentDate(e.target.value)}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <Select
+            label="Metodo"
+            value={method}
+            onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+            options={Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => ({ value, label }))}
+          />
+          <Input
+            label="Riferimento"
+            placeholder="CRO, n. assegno..."
+            value={reference}
+            onChange={(e) => setReference(e.target.value)}
+          />
+        </div>
+        <Textarea
+          label="Note"
+          rows={2}
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+        />
+        <div className="flex justify-end gap-3 pt-4">
+          <Button variant="secondary" onClick={onClose}>Annulla</Button>
+          <Button onClick={handleSave} isLoading={isSaving}>Registra</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
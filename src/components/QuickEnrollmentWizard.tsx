@@ -2,8 +2,10 @@ import React, { useState, useEffect } from 'react';
 import { XMarkIcon, CheckCircleIcon, ArrowRightIcon } from '@heroicons/react/24/outline';
 import { Button } from './ui/Button';
 import { Modal } from './ui/Modal';
-import { validaCF, reverseCF } from '../lib/codiceFiscale';
+import { Textarea } from './ui/Input';
+import { validaCF, decodificaLocale, formattaLuogoNascita } from '../lib/codiceFiscale';
 import { studentsApi, companiesApi, registrationsApi, coursesApi } from '../lib/api';
+import { usePermissions } from '../hooks/usePermissions';
 import type { Student, Company, Course } from '../types';
 
 interface QuickEnrollmentWizardProps {
@@ -60,6 +62,9 @@ export function QuickEnrollmentWizard({ isOpen, onClose, onSuccess }: QuickEnrol
   const [cfValidation, setCfValidation] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [prerequisiteMissing, setPrerequisiteMissing] = useState(false);
+  const [overrideReason, setOverrideReason] = useState('');
+  const { role } = usePermissions();
 
   // Fetch companies and courses on mount
   useEffect(() => {
@@ -97,12 +102,14 @@ export function QuickEnrollmentWizard({ isOpen, onClose, onSuccess }: QuickEnrol
 
     // Reverse engineering
     if (validation.isValid) {
-      const reversed = reverseCF(upperCf);
+      const reversed = await studentsApi.decodeFiscalCode(upperCf)
+        .then(response => response.decoded || decodificaLocale(upperCf))
+        .catch(() => decodificaLocale(upperCf));
       setEnrollmentData(prev => ({
         ...prev,
         birthDate: reversed.dataNascita || '',
-        birthPlace: reversed.luogoNascita || '',
-        gender: reversed.genere || '',
+        birthPlace: reversed.placeFound ? formattaLuogoNascita(reversed) : '',
+        gender: reversed.sesso || '',
       }));
     }
 
@@ -209,6 +216,8 @@ export function QuickEnrollmentWizard({ isOpen, onClose, onSuccess }: QuickEnrol
           companyId: enrollmentData.companyId,
         });
         studentId = studentRes.id;
+        // Se l'iscrizione fallisce, un nuovo tentativo non deve ricreare lo studente
+        setEnrollmentData(prev => ({ ...prev, studentId, isNewStudent: false }));
       }
 
       // Create registration
@@ -216,11 +225,13 @@ export function QuickEnrollmentWizard({ isOpen, onClose, onSuccess }: QuickEnrol
         studentId,
         courseEditionId: enrollmentData.courseEditionId!,
         companyId: enrollmentData.companyId,
+        prerequisiteOverrideReason: (prerequisiteMissing && overrideReason.trim()) || undefined,
       });
 
       setCurrentStep('success');
     } catch (err: any) {
       console.error('Error enrolling:', err);
+      setPrerequisiteMissing(err.response?.data?.code === 'PREREQUISITE_MISSING');
       setError(err.response?.data?.error || 'Errore nell\'iscrizione');
     } finally {
       setIsLoading(false);
@@ -245,6 +256,8 @@ export function QuickEnrollmentWizard({ isOpen, onClose, onSuccess }: QuickEnrol
       isNewStudent: true,
     });
     setError(null);
+    setPrerequisiteMissing(false);
+    setOverrideReason('');
     onClose();
   };
 
@@ -496,6 +509,17 @@ export function QuickEnrollmentWizard({ isOpen, onClose, onSuccess }: QuickEnrol
             </div>
           )}
 
+          {currentStep === 'confirmation' && prerequisiteMissing && role === 'admin' && (
+            <Textarea
+              label="Motivazione deroga prerequisiti"
+              value={overrideReason}
+              onChange={(e) => setOverrideReason(e.target.value)}
+              rows={2}
+              placeholder="es. Formazione generale svolta presso altro ente"
+              helperText="Compila per iscrivere comunque lo studente: la deroga resta registrata sull'iscrizione"
+            />
+          )}
+
           {currentStep === 'success' && (
             <div className="text-center space-y-4">
               <div className="flex justify-center">
@@ -0,0 +1,181 @@
+/**
+ * Modal "Converti in iscrizioni" di un preventivo accettato
+ * Per ogni corso si sceglie l'edizione e i lavoratori dell'azienda, fino al numero preventivato
+ */
+
+import { useEffect, useState } from 'react';
+import { Button } from './ui/Button';
+import { Modal } from './ui/Modal';
+import { Select } from './ui/Input';
+import { editionsApi, quotesApi, studentsApi } from '../lib/api';
+import type { QuoteDetail } from '../lib/quotes';
+import { formatCurrency, formatDate } from '../lib/utils';
+import type { CourseEdition, Student } from '../types';
+import toast from 'react-hot-toast';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  onConverted: () => void;
+  quote: QuoteDetail;
+}
+
+interface Assignment {
+  editionId: string;
+  studentIds: Set<number>;
+}
+
+export function QuoteConversionModal({ isOpen, onClose, onConverted, quote }: Props) {
+  const [students, setStudents] = useState<Student[]>([]);
+  const [editions, setEditions] = useState<Record<number, CourseEdition[]>>({});
+  const [assignments, setAssignments] = useState<Record<number, Assignment>>({});
+  const [isConverting, setIsConverting] = useState(false);
+
+  const openLines = quote.lines.filter(line => line.workers > line.convertedCount);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    studentsApi.getAll(1, 500, '', quote.companyId)
+      .then(response => setStudents(response.data || []))
+      .catch(() => toast.error('Errore nel caricamento dei lavoratori'));
+
+    const courseIds = [...new Set(quote.lines.map(line => line.courseId))];
+    Promise.all(courseIds.map(courseId => editionsApi.getAll(1, 100, 'scheduled', courseId)))
+      .then(responses => setEditions(Object.fromEntries(courseIds.map((id, i) => [id, responses[i].data]))))
+      .catch(() => toast.error('Errore nel caricamento delle edizioni'));
+
+    setAssignments(Object.fromEntries(quote.lines.map(line => [
+      line.id,
+      { editionId: line.courseEditionId ? String(line.courseEditionId) : '', studentIds: new Set<number>() },
+    ])));
+  }, [isOpen, quote]);
+
+  const toggleStudent = (lineId: number, studentId: number, limit: number) => {
+    const current = assignments[lineId];
+    const next = new Set(current.studentIds);
+    if (next.has(studentId)) {
+      next.delete(studentId);
+    } else if (next.size < limit) {
+      next.add(studentId);
+    } else {
+      toast.error(`Il preventivo prevede ancora ${limit} lavoratori per questo corso`);
+      return;
+    }
+    setAssignments({ ...assignments, [lineId]: { ...current, studentIds: next } });
+  };
+
+  const handleConvert = async () => {
+    const selected = openLines
+      .map(line => ({ line, assignment: assignments[line.id] }))
+      .filter(({ assignment }) => assignment && assignment.studentIds.size > 0);
+
+    if (selected.length === 0) {
+      toast.error('Seleziona almeno un lavoratore');
+      return;
+    }
+    if (selected.some(({ assignment }) => !assignment.editionId)) {
+      toast.error('Scegli l\'edizione per ogni corso con lavoratori selezionati');
+      return;
+    }
+
+    setIsConverting(true);
+    try {
+      const result = await quotesApi.convert(quote.id, {
+        assignments: selected.map(({ line, assignment }) => ({
+          lineId: line.id,
+          editionId: Number(assignment.editionId),
+          studentIds: [...assignment.studentIds],
+        })),
+      });
+
+      if (result.successCount > 0) {
+        toast.success(`${result.successCount} iscrizioni create al prezzo del preventivo`);
+      }
+      const studentName = (id: number) => {
+        const student = students.find(s => s.id === id);
+        return student ? `${student.firstName} ${student.lastName}` : `#${id}`;
+      };
+      for (const failure of result.results.filter(r => r.error)) {
+        toast.error(`${studentName(failure.studentId)}: ${failure.error}`, { duration: 6000 });
+      }
+
+      onConverted();
+      if (result.failedCount === 0) onClose();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nella conversione del preventivo');
+    } finally {
+      setIsConverting(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Converti il preventivo ${quote.number} in iscrizioni`}
+      description={`${quote.companyName} · i prezzi del preventivo restano bloccati sulle iscrizioni`}
+      size="xl"
+    >
+      <div className="space-y-6">
+        {openLines.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">Tutti i lavoratori del preventivo sono già iscritti.</p>
+        ) : openLines.map(line => {
+          const assignment = assignments[line.id];
+          const remaining = line.workers - line.convertedCount;
+          if (!assignment) return null;
+
+          return (
+            <div key={line.id} className="border rounded-lg p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-medium text-gray-900">{line.courseTitle}</p>
+                  <p className="text-xs text-gray-500">
+                    {formatCurrency(line.unitPrice)} a lavoratore · da iscrivere {remaining} di {line.workers}
+                  </p>
+                </div>
+                <div className="w-64">
+                  <Select
+                    value={assignment.editionId}
+                    onChange={(e) => setAssignments({ ...assignments, [line.id]: { ...assignment, editionId: e.target.value } })}
+                    options={[
+                      { value: '', label: 'Scegli l\'edizione...' },
+                      ...(editions[line.courseId] || []).map(ed => ({
+                        value: ed.id,
+                        label: `${formatDate(ed.startDate)}${ed.location ? ` - ${ed.location}` : ''}`,
+                      })),
+                    ]}
+                  />
+                </div>
+              </div>
+              {students.length === 0 ? (
+                <p className="text-sm text-gray-500">Nessun lavoratore registrato per l'azienda.</p>
+              ) : (
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-2 max-h-48 overflow-y-auto">
+                  {students.map(student => (
+                    <label key={student.id} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={assignment.studentIds.has(student.id)}
+                        onChange={() => toggleStudent(line.id, student.id, remaining)}
+                        className="w-4 h-4"
+                      />
+                      {student.lastName} {student.firstName}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        <div className="flex justify-end gap-3 pt-2">
+          <Button variant="secondary" onClick={onClose}>Chiudi</Button>
+          {openLines.length > 0 && (
+            <Button onClick={handleConvert} isLoading={isConverting}>Crea Iscrizioni</Button>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+}
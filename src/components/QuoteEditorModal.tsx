@@ -0,0 +1,263 @@
+/**
+ * Modal di creazione/modifica di un preventivo in bozza
+ * Il prezzo di ogni riga si propone dal listino azienda dell'edizione o dal prezzo del corso
+ */
+
+import { useEffect, useState } from 'react';
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { Button } from './ui/Button';
+import { Modal } from './ui/Modal';
+import { Input, Select, Textarea } from './ui/Input';
+import { companiesApi, coursesApi, editionsApi, quotesApi } from '../lib/api';
+import { DEFAULT_QUOTE_VALIDITY_DAYS } from '../lib/quotes';
+import type { QuoteDetail } from '../lib/quotes';
+import { formatCurrency, formatDate } from '../lib/utils';
+import type { Company, Course, CourseEdition } from '../types';
+import toast from 'react-hot-toast';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: (quoteId: number) => void;
+  quote?: QuoteDetail | null; // Assente = nuovo preventivo
+  defaultCompanyId?: number;
+}
+
+interface LineForm {
+  courseId: string;
+  courseEditionId: string;
+  description: string;
+  workers: string;
+  unitPrice: string; // Euro, come digitati
+}
+
+const EMPTY_LINE: LineForm = { courseId: '', courseEditionId: '', description: '', workers: '1', unitPrice: '' };
+
+function defaultValidUntil(): string {
+  return new Date(Date.now() + DEFAULT_QUOTE_VALIDITY_DAYS * 86400000).toISOString().split('T')[0];
+}
+
+export function QuoteEditorModal({ isOpen, onClose, onSaved, quote, defaultCompanyId }: Props) {
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [editions, setEditions] = useState<Record<string, CourseEdition[]>>({});
+  const [companyId, setCompanyId] = useState('');
+  const [validUntil, setValidUntil] = useState('');
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<LineForm[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    Promise.all([companiesApi.getAll(1, 1000), coursesApi.getAll(1, 1000)])
+      .then(([companiesResponse, coursesResponse]) => {
+        setCompanies(companiesResponse.data);
+        setCourses(coursesResponse.data.filter(c => c.isActive));
+      })
+      .catch(() => toast.error('Errore nel caricamento di aziende e corsi'));
+
+    setCompanyId(String(quote?.companyId || defaultCompanyId || ''));
+    setValidUntil(quote ? quote.validUntil || '' : defaultValidUntil());
+    setNotes(quote?.notes || '');
+    setLines(quote
+      ? quote.lines.map(line => ({
+          courseId: String(line.courseId),
+          courseEditionId: line.courseEditionId ? String(line.courseEditionId) : '',
+          description: line.description || '',
+          workers: String(line.workers),
+          unitPrice: (line.unitPrice / 100).toFixed(2),
+        }))
+      : [{ ...EMPTY_LINE }]);
+  }, [isOpen, quote, defaultCompanyId]);
+
+  // Edizioni programmate dei corsi scelti, per proporre la data
+  useEffect(() => {
+    for (const courseId of new Set(lines.map(l => l.courseId).filter(Boolean))) {
+      if (editions[courseId]) continue;
+      setEditions(prev => ({ ...prev, [courseId]: [] }));
+      editionsApi.getAll(1, 100, 'scheduled', Number(courseId))
+        .then(response => setEditions(prev => ({ ...prev, [courseId]: response.data })))
+        .catch(() => toast.error('Errore nel caricamento delle edizioni'));
+    }
+  }, [lines, editions]);
+
+  const updateLine = (index: number, changes: Partial<LineForm>) => {
+    setLines(prev => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  // Cambiando corso o edizione si ripropone il prezzo suggerito
+  const changeLineOffer = async (index: number, changes: Pick<LineForm, 'courseId' | 'courseEditionId'>) => {
+    updateLine(index, changes);
+    if (!companyId || !changes.courseId) return;
+
+    try {
+      const suggested = await quotesApi.suggestPrice({
+        companyId: Number(companyId),
+        courseId: Number(changes.courseId),
+        editionId: changes.courseEditionId ? Number(changes.courseEditionId) : null,
+      });
+      updateLine(index, { unitPrice: (suggested.price / 100).toFixed(2) });
+    } catch {
+      // Il prezzo resta da inserire a mano
+    }
+  };
+
+  const total = lines.reduce((sum, line) =>
+    sum + Math.round(Number(line.unitPrice || 0) * 100) * Number(line.workers || 0), 0);
+
+  const handleSave = async () => {
+    if (!companyId) {
+      toast.error('Seleziona l\'azienda');
+      return;
+    }
+    if (lines.length === 0 || lines.some(line => !line.courseId)) {
+      toast.error('Seleziona il corso di ogni riga');
+      return;
+    }
+
+    const data = {
+      validUntil: validUntil || null,
+      notes: notes || null,
+      lines: lines.map(line => ({
+        courseId: Number(line.courseId),
+        courseEditionId: line.courseEditionId ? Number(line.courseEditionId) : null,
+        description: line.description || null,
+        workers: Number(line.workers),
+        // Prezzo vuoto: lo propone il server
+        unitPrice: line.unitPrice === '' ? null : Math.round(Number(line.unitPrice) * 100),
+      })),
+    };
+
+    setIsSaving(true);
+    try {
+      if (quote) {
+        await quotesApi.update(quote.id, data);
+        toast.success('Preventivo salvato');
+        onSaved(quote.id);
+      } else {
+        const created = await quotesApi.create({ ...data, companyId: Number(companyId) });
+        toast.success(`Preventivo ${created.number} creato`);
+        onSaved(created.id);
+      }
+      onClose();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nel salvataggio del preventivo');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={quote ? `Modifica preventivo ${quote.number}` : 'Nuovo preventivo'}
+      size="xl"
+    >
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <Select
+            label="Azienda *"
+            value={companyId}
+            disabled={!!quote}
+            onChange={(e) => setCompanyId(e.target.value)}
+            options={[{ value: '', label: 'Seleziona...' }, ...companies.map(c => ({ value: c.id, label: c.name }))]}
+          />
+          <Input
+            label="Valido fino al"
+            type="date"
+            value={validUntil}
+            onChange={(e) => setValidUntil(e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-3">
+          {lines.map((line, index) => (
+            <div key={index} className="grid grid-cols-12 gap-2 items-end border-b pb-3">
+              <div className="col-span-4">
+                <Select
+                  label={index === 0 ? 'Corso *' : undefined}
+                  value={line.courseId}
+                  onChange={(e) => changeLineOffer(index, { courseId: e.target.value, courseEditionId: '' })}
+                  options={[{ value: '', label: 'Seleziona...' }, ...courses.map(c => ({ value: c.id, label: c.title }))]}
+                />
+              </div>
+              <div className="col-span-3">
+                <Select
+                  label={index === 0 ? 'Edizione' : undefined}
+                  value={line.courseEditionId}
+                  disabled={!line.courseId}
+                  onChange={(e) => changeLineOffer(index, { courseId: line.courseId, courseEditionId: e.target.value })}
+                  options={[
+                    { value: '', label: 'Da definire' },
+                    ...(editions[line.courseId] || []).map(ed => ({
+                      value: ed.id,
+                      label: `${formatDate(ed.startDate)}${ed.location ? ` - ${ed.location}` : ''}`,
+                    })),
+                  ]}
+                />
+              </div>
+              <div className="col-span-2">
+                <Input
+                  label={index === 0 ? 'Lavoratori *' : undefined}
+                  type="number"
+                  min="1"
+                  value={line.workers}
+                  onChange={(e) => updateLine(index, { workers: e.target.value })}
+                />
+              </div>
+              <div className="col-span-2">
+                <Input
+                  label={index === 0 ? 'Prezzo (€)' : undefined}
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={line.unitPrice}
+                  onChange={(e) => updateLine(index, { unitPrice: e.target.value })}
+                />
+              </div>
+              <div className="col-span-1 flex justify-end">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setLines(prev => prev.filter((_, i) => i !== index))}
+                  disabled={lines.length === 1}
+                  title="Rimuovi riga"
+                >
+                  <TrashIcon className="h-4 w-4 text-red-500" />
+                </Button>
+              </div>
+              <div className="col-span-12">
+                <Input
+                  placeholder="Descrizione aggiuntiva (facoltativa)"
+                  value={line.description}
+                  onChange={(e) => updateLine(index, { description: e.target.value })}
+                />
+              </div>
+            </div>
+          ))}
+          <div className="flex items-center justify-between">
+            <Button variant="secondary" size="sm" onClick={() => setLines(prev => [...prev, { ...EMPTY_LINE }])}>
+              <PlusIcon className="h-4 w-4 mr-1" />
+              Aggiungi corso
+            </Button>
+            <p className="text-lg font-semibold">Totale: {formatCurrency(total)} + IVA</p>
+          </div>
+        </div>
+
+        <Textarea
+          label="Note (riportate nel PDF)"
+          rows={3}
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+        />
+
+        <div className="flex justify-end gap-3 pt-4">
+          <Button variant="secondary" onClick={onClose}>Annulla</Button>
+          <Button onClick={handleSave} isLoading={isSaving}>Salva Preventivo</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,154 @@
+/**
+ * Report "Crediti aperti" della pagina Report
+ * Residui da incassare per azienda o per agente, con fasce di anzianità e dettaglio voci
+ */
+
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import { ArrowDownTrayIcon, BanknotesIcon } from '@heroicons/react/24/outline';
+import { Button } from './ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell, EmptyState } from './ui/Table';
+import { paymentsApi } from '../lib/api';
+import { exportToExcel } from '../lib/export';
+import { AGEING_BUCKETS } from '../lib/payments';
+import type { ReceivablesGroup, ReceivablesReport as Report } from '../lib/payments';
+import { formatCurrency, formatDate } from '../lib/utils';
+import toast from 'react-hot-toast';
+
+type GroupBy = 'company' | 'agent';
+
+const BUCKET_LABELS: Record<string, string> = {
+  '0-30': '0-30 gg',
+  '31-60': '31-60 gg',
+  '61-90': '61-90 gg',
+  '>90': 'Oltre 90 gg',
+};
+
+export function ReceivablesReport() {
+  const [report, setReport] = useState<Report | null>(null);
+  const [groupBy, setGroupBy] = useState<GroupBy>('company');
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchReport = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setReport(await paymentsApi.getReceivables());
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nel caricamento dei crediti');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const groups = report ? (groupBy === 'company' ? report.byCompany : report.byAgent) : [];
+
+  const groupItems = (group: ReceivablesGroup) => (report?.items || []).filter(item =>
+    (groupBy === 'company' ? item.companyId : item.agentId) === group.id
+  );
+
+  const handleExport = async () => {
+    if (!report) return;
+    const rows = groups.map(group => ({
+      [groupBy === 'company' ? 'Azienda' : 'Agente']: group.name,
+      ...Object.fromEntries(AGEING_BUCKETS.map(bucket => [BUCKET_LABELS[bucket], group.buckets[bucket] / 100])),
+      'Totale': group.total / 100,
+    }));
+    await exportToExcel(rows, `crediti_per_${groupBy === 'company' ? 'azienda' : 'agente'}`, 'Crediti');
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <BanknotesIcon className="h-5 w-5 text-emerald-600" />
+          Crediti Aperti
+        </CardTitle>
+        <div className="flex gap-2 items-center">
+          <select
+            value={groupBy}
+            onChange={(e) => { setGroupBy(e.target.value as GroupBy); setExpanded(null); }}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+          >
+            <option value="company">Per azienda</option>
+            <option value="agent">Per agente</option>
+          </select>
+          <Button variant="secondary" size="sm" onClick={handleExport} disabled={groups.length === 0}>
+            <ArrowDownTrayIcon className="h-4 w-4 mr-1" />
+            Excel
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        {isLoading && !report ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : !report || groups.length === 0 ? (
+          <EmptyState title="Nessun credito aperto" description="Fatture e iscrizioni risultano tutte incassate" />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{groupBy === 'company' ? 'Azienda' : 'Agente'}</TableHead>
+                {AGEING_BUCKETS.map(bucket => (
+                  <TableHead key={bucket} className="text-right">{BUCKET_LABELS[bucket]}</TableHead>
+                ))}
+                <TableHead className="text-right">Totale</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {groups.map(group => {
+                const key = String(group.id ?? 'none');
+                return (
+                  <Fragment key={key}>
+                    <TableRow
+                      className="cursor-pointer hover:bg-gray-50"
+                      onClick={() => setExpanded(expanded === key ? null : key)}
+                    >
+                      <TableCell className="font-medium">{group.name}</TableCell>
+                      {AGEING_BUCKETS.map(bucket => (
+                        <TableCell
+                          key={bucket}
+                          className={`text-right whitespace-nowrap ${bucket === '>90' && group.buckets[bucket] > 0 ? 'text-red-600 font-medium' : ''}`}
+                        >
+                          {group.buckets[bucket] ? formatCurrency(group.buckets[bucket]) : '-'}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right whitespace-nowrap font-semibold">{formatCurrency(group.total)}</TableCell>
+                    </TableRow>
+                    {expanded === key && groupItems(group).map(item => (
+                      <TableRow key={`${key}-${item.kind}-${item.id}`} className="bg-gray-50">
+                        <TableCell className="text-xs text-gray-600 pl-10">{item.label}</TableCell>
+                        <TableCell className="text-xs text-gray-500 text-right">{formatDate(item.date)}</TableCell>
+                        <TableCell className="text-xs text-gray-500 text-right">{item.days} gg</TableCell>
+                        <TableCell className="text-xs text-gray-500 text-right">
+                          {item.paidAmount > 0 ? `incassati ${formatCurrency(item.paidAmount)}` : ''}
+                        </TableCell>
+                        <TableCell>{null}</TableCell>
+                        <TableCell className="text-xs text-right whitespace-nowrap">{formatCurrency(item.balance)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </Fragment>
+                );
+              })}
+              <TableRow className="bg-gray-100">
+                <TableCell className="font-semibold">Totale</TableCell>
+                {AGEING_BUCKETS.map(bucket => (
+                  <TableCell key={bucket} className="text-right whitespace-nowrap font-semibold">
+                    {formatCurrency(report.totals[bucket])}
+                  </TableCell>
+                ))}
+                <TableCell className="text-right whitespace-nowrap font-bold">{formatCurrency(report.totals.total)}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
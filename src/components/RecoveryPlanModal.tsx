@@ -0,0 +1,269 @@
+/**
+ * Modal "Piano di recupero" di un'iscrizione
+ * Mostra i moduli persi, propone le sessioni di altre edizioni dello stesso corso che li coprono
+ * e registra l'esito dei recuperi: le ore confermate si sommano alla frequenza dell'iscrizione
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from './ui/Button';
+import { Badge } from './ui/Badge';
+import { Modal } from './ui/Modal';
+import { Select } from './ui/Input';
+import { recoveryApi } from '../lib/api';
+import { formatDate } from '../lib/utils';
+import type { RecoveryEnrollment, RecoveryPlan, RecoveryProposal, RecoveryStatus } from '../types';
+import toast from 'react-hot-toast';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  onChanged: () => void;
+  registrationId: number | null;
+  canEdit: boolean;
+}
+
+const STATUS_BADGES: Record<RecoveryStatus, { label: string; variant: 'info' | 'success' | 'danger' }> = {
+  planned: { label: 'Pianificato', variant: 'info' },
+  attended: { label: 'Svolto', variant: 'success' },
+  absent: { label: 'Assente', variant: 'danger' },
+};
+
+function proposalLabel(proposal: RecoveryProposal): string {
+  const where = proposal.deliveryMode === 'fad_sync' ? 'FAD sincrona' : proposal.location || 'Sede da definire';
+  return `${formatDate(proposal.sessionDate)} ${proposal.startTime}-${proposal.endTime} · ${proposal.hours}h · ${where}`;
+}
+
+export function RecoveryPlanModal({ isOpen, onClose, onChanged, registrationId, canEdit }: Props) {
+  const [plan, setPlan] = useState<RecoveryPlan | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [chosen, setChosen] = useState<Record<number, string>>({});
+  const [hours, setHours] = useState<Record<number, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadPlan = useCallback(async () => {
+    if (!registrationId) return;
+    setIsLoading(true);
+    try {
+      setPlan(await recoveryApi.getPlan(registrationId));
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nel caricamento del piano di recupero');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [registrationId]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setPlan(null);
+    setChosen({});
+    setHours({});
+    loadPlan();
+  }, [isOpen, loadPlan]);
+
+  const handleEnroll = async () => {
+    const sessionIds = Object.values(chosen).filter(Boolean).map(Number);
+    if (!registrationId || sessionIds.length === 0) {
+      toast.error('Scegli almeno una sessione di recupero');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await recoveryApi.enroll(registrationId, sessionIds);
+      toast.success(`Allievo iscritto a ${result.data.length} sessioni di recupero`);
+      setChosen({});
+      await loadPlan();
+      onChanged();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nell\'iscrizione al recupero');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleOutcome = async (enrollment: RecoveryEnrollment, status: RecoveryStatus) => {
+    if (!registrationId) return;
+    const typed = hours[enrollment.id];
+
+    setIsSaving(true);
+    try {
+      await recoveryApi.recordOutcome(registrationId, enrollment.id, {
+        status,
+        hoursRecovered: status === 'attended' && typed ? Number(typed) : undefined,
+      });
+      toast.success(status === 'attended' ? 'Ore recuperate registrate' : 'Esito del recupero registrato');
+      await loadPlan();
+      onChanged();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nel salvataggio dell\'esito');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancel = async (enrollment: RecoveryEnrollment) => {
+    if (!registrationId) return;
+
+    setIsSaving(true);
+    try {
+      await recoveryApi.cancel(registrationId, enrollment.id);
+      toast.success('Recupero annullato');
+      await loadPlan();
+      onChanged();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nell\'annullamento del recupero');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const proposalsFor = (module: number) => plan?.proposals.filter(p => p.module === module) || [];
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={plan ? `Piano di recupero - ${plan.studentName}` : 'Piano di recupero'}
+      description="Le sessioni proposte sono quelle nella stessa posizione del calendario nelle prossime edizioni del corso"
+      size="xl"
+    >
+      {isLoading || !plan ? (
+        <p className="text-center text-gray-500 py-8">Caricamento...</p>
+      ) : (
+        <div className="space-y-6">
+          <div className="flex flex-wrap gap-4 text-sm">
+            <span>Corso: <strong>{plan.courseTitle}</strong> ({plan.durationHours}h)</span>
+            <span>
+              Frequenza:{' '}
+              <strong className={plan.attendanceEligible ? 'text-green-700' : 'text-red-600'}>
+                {plan.attendancePercent ?? 0}%
+              </strong>
+            </span>
+            <span>Ore ancora da recuperare: <strong>{plan.missedHours}</strong></span>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 mb-2">Moduli persi</h3>
+            {plan.modules.length === 0 ? (
+              <p className="text-sm text-gray-500">Nessuna ora persa nelle sessioni dell'edizione.</p>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Modulo</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Sessione persa</th>
+                    <th className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase">Ore perse</th>
+                    <th className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase">Recuperate</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Recupero</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {plan.modules.map(module => {
+                    const available = proposalsFor(module.module);
+                    return (
+                      <tr key={module.sessionId}>
+                        <td className="px-3 py-2 font-medium">
+                          {module.module}
+                          {module.topic && <p className="text-xs text-gray-500 font-normal">{module.topic}</p>}
+                        </td>
+                        <td className="px-3 py-2">
+                          {formatDate(module.sessionDate)} {module.startTime}-{module.endTime}
+                        </td>
+                        <td className="px-3 py-2 text-center">{module.missedHours}</td>
+                        <td className="px-3 py-2 text-center">{module.recoveredHours}</td>
+                        <td className="px-3 py-2">
+                          {module.remainingHours === 0 ? (
+                            <Badge variant="success">Recuperato</Badge>
+                          ) : module.hasPlannedRecovery ? (
+                            <Badge variant="info">Pianificato</Badge>
+                          ) : available.length === 0 ? (
+                            <span className="text-xs text-amber-700">Nessuna sessione futura disponibile</span>
+                          ) : (
+                            <Select
+                              value={chosen[module.module] || ''}
+                              onChange={(e) => setChosen({ ...chosen, [module.module]: e.target.value })}
+                              disabled={!canEdit}
+                              options={[
+                                { value: '', label: 'Non pianificare ora' },
+                                ...available.map(p => ({ value: p.sessionId, label: proposalLabel(p) })),
+                              ]}
+                            />
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+            {canEdit && plan.proposals.length > 0 && (
+              <div className="flex justify-end mt-3">
+                <Button onClick={handleEnroll} isLoading={isSaving} disabled={!Object.values(chosen).some(Boolean)}>
+                  Iscrivi al recupero
+                </Button>
+              </div>
+            )}
+          </div>
+
+          {plan.enrollments.length > 0 && (
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">Sessioni di recupero</h3>
+              <ul className="divide-y divide-gray-200 border rounded-lg">
+                {plan.enrollments.map(enrollment => (
+                  <li key={enrollment.id} className="flex flex-wrap items-center justify-between gap-3 px-3 py-2 text-sm">
+                    <div>
+                      <p className="font-medium">
+                        Modulo {enrollment.module} · {formatDate(enrollment.sessionDate)} {enrollment.startTime}-{enrollment.endTime}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {enrollment.location || 'Sede da definire'} · {enrollment.hours}h da recuperare
+                        {enrollment.status === 'attended' && ` · ${enrollment.hoursRecovered}h riconosciute`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={STATUS_BADGES[enrollment.status].variant}>
+                        {STATUS_BADGES[enrollment.status].label}
+                      </Badge>
+                      {canEdit && enrollment.status === 'planned' && (
+                        <>
+                          <input
+                            type="number"
+                            min={0}
+                            max={enrollment.hours}
+                            step={0.5}
+                            value={hours[enrollment.id] ?? enrollment.hours}
+                            onChange={(e) => setHours({ ...hours, [enrollment.id]: e.target.value })}
+                            className="w-16 px-2 py-1 border border-gray-300 rounded text-sm"
+                            title="Ore frequentate nella sessione di recupero"
+                          />
+                          <Button size="sm" onClick={() => handleOutcome(enrollment, 'attended')} disabled={isSaving}>
+                            Presente
+                          </Button>
+                          <Button size="sm" variant="secondary" onClick={() => handleOutcome(enrollment, 'absent')} disabled={isSaving}>
+                            Assente
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => handleCancel(enrollment)} disabled={isSaving}>
+                            Annulla
+                          </Button>
+                        </>
+                      )}
+                      {canEdit && enrollment.status !== 'planned' && (
+                        <Button size="sm" variant="ghost" onClick={() => handleOutcome(enrollment, 'planned')} disabled={isSaving}>
+                          Correggi esito
+                        </Button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex justify-end pt-2">
+            <Button variant="secondary" onClick={onClose}>Chiudi</Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,124 @@
+/**
+ * Sezione "Promemoria scadenze" delle impostazioni
+ * Soglie (giorni alla scadenza) e destinatari dei promemoria inviati ogni giorno in automatico
+ */
+
+import { useState, useEffect } from 'react';
+import { Button } from './ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
+import { Input } from './ui/Input';
+import { Checkbox } from './ui/Checkbox';
+import { reminderSettingsApi } from '../lib/api';
+import { usePermissions } from '../hooks/usePermissions';
+import type { ReminderSettings as ReminderSettingsData } from '../types';
+import toast from 'react-hot-toast';
+
+export function ReminderSettings() {
+  const { can } = usePermissions();
+  const [settings, setSettings] = useState<ReminderSettingsData | null>(null);
+  const [thresholds, setThresholds] = useState('');
+  const [lastSentAt, setLastSentAt] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const canEdit = can('settings', 'update');
+
+  useEffect(() => {
+    reminderSettingsApi.get()
+      .then((response) => {
+        const { lastSentAt, totalSent, ...data } = response;
+        setSettings(data);
+        setThresholds(data.thresholds.join(', '));
+        setLastSentAt(lastSentAt);
+      })
+      .catch(() => toast.error('Errore nel caricamento dei promemoria'));
+  }, []);
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    setIsSaving(true);
+    try {
+      const response = await reminderSettingsApi.update({
+        ...settings,
+        thresholds: thresholds.split(',').map((t) => parseInt(t.trim())).filter((t) => !isNaN(t)),
+      });
+      setSettings(response.data);
+      setThresholds(response.data.thresholds.join(', '));
+      toast.success('Promemoria aggiornati');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nel salvataggio');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!settings) return null;
+
+  const recipients: { key: 'notifyStudents' | 'notifyCompanies' | 'notifyAgents'; label: string }[] = [
+    { key: 'notifyStudents', label: 'Studenti' },
+    { key: 'notifyCompanies', label: 'Aziende' },
+    { key: 'notifyAgents', label: 'Agenti di riferimento' },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Promemoria Automatici Scadenze</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Ogni mattina vengono inviati i promemoria per gli attestati che hanno raggiunto una soglia.
+          Ogni soglia viene notificata una sola volta per destinatario.
+        </p>
+
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="reminders-enabled"
+            checked={settings.enabled}
+            onCheckedChange={(checked) => setSettings({ ...settings, enabled: checked })}
+            disabled={!canEdit}
+          />
+          <label htmlFor="reminders-enabled" className="text-sm font-medium text-gray-700">
+            Invia promemoria automatici
+          </label>
+        </div>
+
+        <div className="max-w-sm">
+          <Input
+            label="Soglie (giorni alla scadenza)"
+            value={thresholds}
+            onChange={(e) => setThresholds(e.target.value)}
+            placeholder="90, 60, 30, 0"
+            helperText="0 = il giorno della scadenza"
+            disabled={!canEdit || !settings.enabled}
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-6">
+          {recipients.map(({ key, label }) => (
+            <div key={key} className="flex items-center gap-2">
+              <Checkbox
+                id={`reminders-${key}`}
+                checked={settings[key]}
+                onCheckedChange={(checked) => setSettings({ ...settings, [key]: checked })}
+                disabled={!canEdit || !settings.enabled}
+              />
+              <label htmlFor={`reminders-${key}`} className="text-sm text-gray-700">{label}</label>
+            </div>
+          ))}
+        </div>
+
+        {lastSentAt && (
+          <p className="text-xs text-gray-500">
+            Ultimo promemoria accodato: {new Date(lastSentAt).toLocaleString('it-IT', { dateStyle: 'short', timeStyle: 'short' })}
+          </p>
+        )}
+
+        {canEdit && (
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Salvataggio...' : 'Salva Promemoria'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,105 @@
+/**
+ * QR di check-in da proiettare in aula
+ * Si aggiorna da solo a ogni rotazione; gli allievi lo inquadrano e registrano entrata e uscita
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import qrcode from 'qrcode-generator';
+import { Button } from './ui/Button';
+import { Modal } from './ui/Modal';
+import { checkInApi } from '../lib/api';
+import type { SessionCheckInQr } from '../types';
+import toast from 'react-hot-toast';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  sessionId: number;
+  sessionLabel: string;
+}
+
+function qrDataUrl(text: string): string {
+  const qr = qrcode(0, 'M');
+  qr.addData(text);
+  qr.make();
+  return qr.createDataURL(10, 2);
+}
+
+export function SessionCheckInQrModal({ isOpen, onClose, sessionId, sessionLabel }: Props) {
+  const [qr, setQr] = useState<SessionCheckInQr | null>(null);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+
+  const fetchQr = useCallback(async () => {
+    try {
+      setQr(await checkInApi.getQr(sessionId));
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nella generazione del QR');
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setQr(null);
+      return;
+    }
+    fetchQr();
+  }, [isOpen, fetchQr]);
+
+  // Nuovo QR a ogni rotazione
+  useEffect(() => {
+    if (!isOpen || !qr) return;
+    const timer = setInterval(fetchQr, qr.rotatesEverySeconds * 1000);
+    return () => clearInterval(timer);
+  }, [isOpen, qr?.rotatesEverySeconds, fetchQr]);
+
+  const handleRegenerate = async () => {
+    setIsRegenerating(true);
+    try {
+      setQr(await checkInApi.regenerateQr(sessionId));
+      toast.success('QR rigenerato: quelli mostrati in precedenza non sono più validi');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nella rigenerazione del QR');
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Check-in con QR code"
+      description={sessionLabel}
+      size="lg"
+    >
+      <div className="space-y-4 text-center">
+        {!qr ? (
+          <div className="flex justify-center py-24">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <>
+            {!qr.isOpen && (
+              <div className="px-4 py-3 rounded-lg text-sm bg-yellow-50 border border-yellow-200 text-yellow-800">
+                Il check-in è aperto solo il giorno della sessione, da 30 minuti prima dell'inizio a 30 minuti dopo la fine.
+              </div>
+            )}
+            <img src={qrDataUrl(qr.url)} alt="QR code di check-in" className="mx-auto w-80 h-80" />
+            <p className="text-sm text-gray-600">
+              Inquadra il QR con il telefono e inserisci il tuo codice fiscale: la prima volta registri
+              l'entrata, a fine lezione l'uscita.
+            </p>
+            <p className="text-xs text-gray-400">Il codice cambia ogni {qr.rotatesEverySeconds} secondi.</p>
+          </>
+        )}
+
+        <div className="flex justify-end gap-3 pt-2">
+          <Button variant="secondary" onClick={handleRegenerate} isLoading={isRegenerating}>
+            Rigenera QR
+          </Button>
+          <Button onClick={onClose}>Chiudi</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,127 @@
+/**
+ * Modal "Iscrivi le lacune" del fabbisogno formativo
+ * Per ogni obbligo da colmare si sceglie un'edizione programmata di un corso che lo copre
+ */
+
+import { useEffect, useState } from 'react';
+import { Button } from './ui/Button';
+import { Modal } from './ui/Modal';
+import { Select } from './ui/Input';
+import { editionsApi, registrationsApi } from '../lib/api';
+import { courseCoversRequirement, TRAINING_REQUIREMENTS } from '../lib/trainingNeeds';
+import type { TrainingRequirementCode } from '../lib/trainingNeeds';
+import { formatDate } from '../lib/utils';
+import type { CourseEdition } from '../types';
+import toast from 'react-hot-toast';
+
+export interface TrainingGap {
+  studentId: number;
+  studentName: string;
+  requirement: TrainingRequirementCode;
+}
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  onEnrolled: () => void;
+  gaps: TrainingGap[];
+}
+
+export function TrainingGapsEnrollmentModal({ isOpen, onClose, onEnrolled, gaps }: Props) {
+  const [editions, setEditions] = useState<CourseEdition[]>([]);
+  const [chosen, setChosen] = useState<Partial<Record<TrainingRequirementCode, string>>>({});
+  const [isEnrolling, setIsEnrolling] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setChosen({});
+    editionsApi.getAll(1, 500, 'scheduled', undefined, 'startDate-asc')
+      .then(response => setEditions(response.data || []))
+      .catch(() => toast.error('Errore nel caricamento delle edizioni'));
+  }, [isOpen]);
+
+  const requirements = [...new Set(gaps.map(g => g.requirement))];
+
+  const editionsFor = (requirement: TrainingRequirementCode) => editions.filter(ed =>
+    courseCoversRequirement({ type: ed.courseType ?? null, durationHours: ed.courseDurationHours || 0 }, requirement));
+
+  const handleEnroll = async () => {
+    const selected = requirements.filter(requirement => chosen[requirement]);
+    if (selected.length === 0) {
+      toast.error('Scegli almeno un\'edizione');
+      return;
+    }
+
+    setIsEnrolling(true);
+    let successCount = 0;
+    try {
+      for (const requirement of selected) {
+        const group = gaps.filter(g => g.requirement === requirement);
+        const result = await registrationsApi.bulkCreate({
+          courseEditionId: Number(chosen[requirement]),
+          // Uno stesso lavoratore può avere due lacune coperte dalla stessa edizione
+          studentIds: [...new Set(group.map(g => g.studentId))],
+        });
+        successCount += result.successCount;
+        for (const failure of result.results.filter(r => r.error)) {
+          const name = group.find(g => g.studentId === failure.studentId)?.studentName || `#${failure.studentId}`;
+          toast.error(`${name}: ${failure.error}`, { duration: 6000 });
+        }
+      }
+
+      if (successCount > 0) toast.success(`${successCount} iscrizioni create`);
+      onEnrolled();
+      onClose();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nella creazione delle iscrizioni');
+    } finally {
+      setIsEnrolling(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Iscrivi le lacune formative"
+      description="Le iscrizioni seguono le regole abituali di posti, prezzi e prerequisiti"
+      size="lg"
+    >
+      <div className="space-y-4">
+        {requirements.map(requirement => {
+          const group = gaps.filter(g => g.requirement === requirement);
+          const available = editionsFor(requirement);
+
+          return (
+            <div key={requirement} className="border rounded-lg p-4 space-y-2">
+              <p className="font-medium text-gray-900">{TRAINING_REQUIREMENTS[requirement].label}</p>
+              <p className="text-xs text-gray-500">{group.map(g => g.studentName).join(', ')}</p>
+              {available.length === 0 ? (
+                <p className="text-sm text-amber-700">
+                  Nessuna edizione programmata di un corso "{TRAINING_REQUIREMENTS[requirement].label}" in catalogo.
+                </p>
+              ) : (
+                <Select
+                  value={chosen[requirement] || ''}
+                  onChange={(e) => setChosen({ ...chosen, [requirement]: e.target.value })}
+                  options={[
+                    { value: '', label: 'Non iscrivere ora' },
+                    ...available.map(ed => ({
+                      value: ed.id,
+                      label: `${ed.courseTitle} - ${formatDate(ed.startDate)}${ed.location ? ` (${ed.location})` : ''}`,
+                    })),
+                  ]}
+                />
+              )}
+            </div>
+          );
+        })}
+
+        <div className="flex justify-end gap-3 pt-2">
+          <Button variant="secondary" onClick={onClose}>Annulla</Button>
+          <Button onClick={handleEnroll} isLoading={isEnrolling}>Crea Iscrizioni</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,175 @@
+/**
+ * Sezione "Fabbisogno formativo" del dettaglio azienda
+ * Obblighi 81/08 di ogni lavoratore (da mansione e rischio) con l'iscrizione delle lacune
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { AcademicCapIcon } from '@heroicons/react/24/outline';
+import { Badge } from './ui/Badge';
+import { Button } from './ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell, EmptyState } from './ui/Table';
+import { TrainingGapsEnrollmentModal } from './TrainingGapsEnrollmentModal';
+import type { TrainingGap } from './TrainingGapsEnrollmentModal';
+import { companiesApi } from '../lib/api';
+import { TRAINING_NEED_STATUS_LABELS } from '../lib/trainingNeeds';
+import type { CompanyTrainingNeeds, RiskLevel, TrainingNeedStatus } from '../lib/trainingNeeds';
+import { formatDate } from '../lib/utils';
+import { usePermissions } from '../hooks/usePermissions';
+import toast from 'react-hot-toast';
+
+interface Props {
+  companyId: number;
+}
+
+const STATUS_VARIANTS: Record<TrainingNeedStatus, 'default' | 'success' | 'warning' | 'danger' | 'info'> = {
+  valid: 'success',
+  expiring: 'warning',
+  expired: 'danger',
+  missing: 'danger',
+  planned: 'info',
+};
+
+const RISK_LABELS: Record<RiskLevel, string> = {
+  low: 'Rischio basso',
+  medium: 'Rischio medio',
+  high: 'Rischio alto',
+};
+
+// Stati che si possono colmare con una nuova iscrizione
+const GAP_STATUSES: TrainingNeedStatus[] = ['missing', 'expired', 'expiring'];
+
+const gapKey = (gap: Pick<TrainingGap, 'studentId' | 'requirement'>) => `${gap.studentId}:${gap.requirement}`;
+
+export function TrainingNeedsReport({ companyId }: Props) {
+  const { can } = usePermissions();
+  const [report, setReport] = useState<CompanyTrainingNeeds | null>(null);
+  const [selected, setSelected] = useState<Map<string, TrainingGap>>(new Map());
+  const [isEnrollOpen, setIsEnrollOpen] = useState(false);
+
+  const fetchNeeds = useCallback(async () => {
+    try {
+      setReport(await companiesApi.getTrainingNeeds(companyId));
+      setSelected(new Map());
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nel calcolo del fabbisogno formativo');
+    }
+  }, [companyId]);
+
+  useEffect(() => {
+    fetchNeeds();
+  }, [fetchNeeds]);
+
+  const canEnroll = can('registrations', 'create');
+
+  const allGaps: TrainingGap[] = (report?.workers || []).flatMap(worker => worker.needs
+    .filter(need => GAP_STATUSES.includes(need.status))
+    .map(need => ({ studentId: worker.studentId, studentName: worker.studentName, requirement: need.requirement })));
+
+  const toggleGap = (gap: TrainingGap) => {
+    const next = new Map(selected);
+    if (next.has(gapKey(gap))) {
+      next.delete(gapKey(gap));
+    } else {
+      next.set(gapKey(gap), gap);
+    }
+    setSelected(next);
+  };
+
+  const toggleAll = () => {
+    setSelected(selected.size === allGaps.length ? new Map() : new Map(allGaps.map(gap => [gapKey(gap), gap])));
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <AcademicCapIcon className="h-5 w-5 text-blue-600" />
+          Fabbisogno formativo
+          {report && <Badge variant="default">{RISK_LABELS[report.riskLevel]}</Badge>}
+        </CardTitle>
+        {canEnroll && allGaps.length > 0 && (
+          <div className="flex gap-2">
+            <Button variant="secondary" size="sm" onClick={toggleAll}>
+              {selected.size === allGaps.length ? 'Deseleziona tutto' : 'Seleziona tutte le lacune'}
+            </Button>
+            <Button size="sm" onClick={() => setIsEnrollOpen(true)} disabled={selected.size === 0}>
+              Iscrivi le lacune{selected.size > 0 ? ` (${selected.size})` : ''}
+            </Button>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="p-0">
+        {report && report.workers.length > 0 && (
+          <div className="grid grid-cols-5 gap-4 px-6 pb-4">
+            {(Object.keys(TRAINING_NEED_STATUS_LABELS) as TrainingNeedStatus[]).map(status => (
+              <div key={status} className="text-center">
+                <div className="font-semibold text-gray-900">{report.totals[status]}</div>
+                <div className="text-xs text-gray-500">{TRAINING_NEED_STATUS_LABELS[status]}</div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {!report || report.workers.length === 0 ? (
+          <EmptyState title="Nessun lavoratore attivo" description="Il fabbisogno si calcola da mansione e rischio dei lavoratori dell'azienda" />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Lavoratore</TableHead>
+                <TableHead>Obblighi formativi</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.workers.map(worker => (
+                <TableRow key={worker.studentId}>
+                  <TableCell className="text-sm align-top">
+                    <div className="font-medium">{worker.studentName}</div>
+                    <div className="text-xs text-gray-400">
+                      {worker.jobRole || 'Mansione non indicata'} · {RISK_LABELS[worker.riskLevel]}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="space-y-1">
+                      {worker.needs.map(need => {
+                        const gap = { studentId: worker.studentId, studentName: worker.studentName, requirement: need.requirement };
+                        const isGap = GAP_STATUSES.includes(need.status);
+                        return (
+                          <div key={need.requirement} className="flex items-center gap-2 text-sm">
+                            {canEnroll && (
+                              <input
+                                type="checkbox"
+                                checked={selected.has(gapKey(gap))}
+                                onChange={() => toggleGap(gap)}
+                                disabled={!isGap}
+                                className="w-4 h-4"
+                              />
+                            )}
+                            <span className="flex-1">{need.label}</span>
+                            <span className="text-xs text-gray-400">
+                              {need.courseTitle || ''}
+                              {need.expiryDate && ` · scade il ${formatDate(need.expiryDate)}`}
+                            </span>
+                            <Badge variant={STATUS_VARIANTS[need.status]}>{TRAINING_NEED_STATUS_LABELS[need.status]}</Badge>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <TrainingGapsEnrollmentModal
+        isOpen={isEnrollOpen}
+        onClose={() => setIsEnrollOpen(false)}
+        onEnrolled={fetchNeeds}
+        gaps={[...selected.values()]}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,281 @@
+/**
+ * Sezione "Utenti" delle impostazioni (solo admin del cliente)
+ * Invito di nuovi utenti, cambio ruolo, disattivazione e reset password tramite link monouso
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from './ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/Card';
+import { Input, Select } from './ui/Input';
+import { Modal, ConfirmDialog } from './ui/Modal';
+import { Badge } from './ui/Badge';
+import { usersApi } from '../lib/api';
+import type { User } from '../types';
+import toast from 'react-hot-toast';
+
+const ROLE_OPTIONS = [
+  { value: 'admin', label: 'Amministratore' },
+  { value: 'user', label: 'Operatore' },
+  { value: 'readonly', label: 'Sola lettura' },
+];
+
+export function UsersSettings() {
+  const [users, setUsers] = useState<User[]>([]);
+  const [maxUsers, setMaxUsers] = useState(0);
+  const [activeUsers, setActiveUsers] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isInviteOpen, setIsInviteOpen] = useState(false);
+  const [inviteForm, setInviteForm] = useState({ name: '', email: '', role: 'user' as User['role'] });
+  const [isSaving, setIsSaving] = useState(false);
+  const [link, setLink] = useState<{ user: string; url: string; expiresAt: string } | null>(null);
+  const [userToDelete, setUserToDelete] = useState<User | null>(null);
+
+  const fetchUsers = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await usersApi.getAll();
+      setUsers(response.data);
+      setMaxUsers(response.maxUsers);
+      setActiveUsers(response.activeUsers);
+    } catch (error) {
+      toast.error('Errore nel caricamento degli utenti');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  const handleInvite = async () => {
+    if (!inviteForm.name || !inviteForm.email) {
+      toast.error('Inserisci nome ed email');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await usersApi.invite(inviteForm);
+      setIsInviteOpen(false);
+      setInviteForm({ name: '', email: '', role: 'user' });
+      setLink({ user: response.data.name, url: response.url, expiresAt: response.expiresAt });
+      fetchUsers();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore durante l\'invito');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUpdate = async (user: User, data: { role?: User['role']; isActive?: boolean }) => {
+    try {
+      await usersApi.update(user.id, data);
+      toast.success('Utente aggiornato');
+      fetchUsers();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore durante l\'aggiornamento');
+    }
+  };
+
+  const handleResetPassword = async (user: User) => {
+    try {
+      const response = await usersApi.resetPassword(user.id);
+      setLink({ user: user.name, url: response.url, expiresAt: response.expiresAt });
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nella generazione del link');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!userToDelete) return;
+    try {
+      await usersApi.delete(userToDelete.id);
+      toast.success('Utente eliminato');
+      setUserToDelete(null);
+      fetchUsers();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore durante l\'eliminazione');
+    }
+  };
+
+  const copyLink = async () => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link.url);
+      toast.success('Link copiato');
+    } catch {
+      toast.error('Impossibile copiare il link');
+    }
+  };
+
+  const formatDate = (dateString?: string | null) => {
+    if (!dateString) return '-';
+    return new Date(dateString).toLocaleString('it-IT', { dateStyle: 'short', timeStyle: 'short' });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Utenti</CardTitle>
+          <div className="flex items-center gap-3">
+            <span className="text-sm text-gray-500">{activeUsers} / {maxUsers} utenti attivi</span>
+            <Button onClick={() => setIsInviteOpen(true)} disabled={activeUsers >= maxUsers}>
+              + Invita Utente
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {activeUsers >= maxUsers && (
+          <div className="mb-4 bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+            Limite utenti del piano raggiunto. Disattiva un utente o passa a un piano superiore per invitarne altri.
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : users.length === 0 ? (
+          <p className="text-sm text-gray-500 py-4 text-center">Nessun utente. Invita i tuoi collaboratori.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Nome</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Email</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Ruolo</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Stato</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Ultimo accesso</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Azioni</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {users.map((user) => (
+                  <tr key={user.id} className={user.isActive ? '' : 'bg-gray-50 text-gray-400'}>
+                    <td className="px-4 py-3 text-sm font-medium">{user.name}</td>
+                    <td className="px-4 py-3 text-sm">{user.email}</td>
+                    <td className="px-4 py-3 text-sm">
+                      <select
+                        value={user.role}
+                        onChange={(e) => handleUpdate(user, { role: e.target.value as User['role'] })}
+                        disabled={!user.isActive}
+                        className="px-2 py-1 border border-gray-300 rounded text-sm bg-white"
+                      >
+                        {ROLE_OPTIONS.map((option) => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      {!user.isActive ? (
+                        <Badge variant="default">Disattivato</Badge>
+                      ) : user.invitationPending ? (
+                        <Badge variant="warning">Invito in attesa</Badge>
+                      ) : (
+                        <Badge variant="success">Attivo</Badge>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm">{formatDate(user.lastLoginAt)}</td>
+                    <td className="px-4 py-3 text-right">
+                      <div className="flex justify-end gap-2">
+                        {user.isActive && (
+                          <button
+                            onClick={() => handleResetPassword(user)}
+                            className="p-1 text-gray-400 hover:text-blue-600"
+                            title={user.invitationPending ? 'Rinnova invito' : 'Reset password'}
+                          >
+                            🔑
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleUpdate(user, { isActive: !user.isActive })}
+                          className="p-1 text-gray-400 hover:text-orange-600"
+                          title={user.isActive ? 'Disattiva' : 'Riattiva'}
+                        >
+                          {user.isActive ? '⏸️' : '▶️'}
+                        </button>
+                        <button
+                          onClick={() => setUserToDelete(user)}
+                          className="p-1 text-gray-400 hover:text-red-600"
+                          title="Elimina"
+                        >
+                          🗑️
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      {/* Modal invito */}
+      <Modal isOpen={isInviteOpen} onClose={() => setIsInviteOpen(false)} title="Invita Utente" size="md">
+        <div className="space-y-4">
+          <Input
+            label="Nome *"
+            value={inviteForm.name}
+            onChange={(e) => setInviteForm({ ...inviteForm, name: e.target.value })}
+          />
+          <Input
+            label="Email *"
+            type="email"
+            value={inviteForm.email}
+            onChange={(e) => setInviteForm({ ...inviteForm, email: e.target.value })}
+          />
+          <Select
+            label="Ruolo"
+            value={inviteForm.role}
+            onChange={(e) => setInviteForm({ ...inviteForm, role: e.target.value as User['role'] })}
+            options={ROLE_OPTIONS}
+          />
+          <div className="flex justify-end gap-3 pt-2">
+            <Button variant="secondary" onClick={() => setIsInviteOpen(false)}>
+              Annulla
+            </Button>
+            <Button onClick={handleInvite} disabled={isSaving}>
+              {isSaving ? 'Invio...' : 'Crea Invito'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Modal link monouso */}
+      <Modal isOpen={!!link} onClose={() => setLink(null)} title="Link per impostare la password" size="md">
+        {link && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Invia questo link a <strong>{link.user}</strong>. Può essere usato una sola volta
+              ed è valido fino al {formatDate(link.expiresAt)}.
+            </p>
+            <Input value={link.url} readOnly onFocus={(e) => e.target.select()} />
+            <div className="flex justify-end gap-3">
+              <Button variant="secondary" onClick={() => setLink(null)}>
+                Chiudi
+              </Button>
+              <Button onClick={copyLink}>
+                📋 Copia Link
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      <ConfirmDialog
+        isOpen={!!userToDelete}
+        onClose={() => setUserToDelete(null)}
+        onConfirm={handleDelete}
+        title="Elimina Utente"
+        message={`Eliminare definitivamente ${userToDelete?.name}? Per sospendere temporaneamente l'accesso usa "Disattiva".`}
+        confirmText="Elimina"
+        variant="danger"
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,22 @@
+import { useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { can as canRole } from '../lib/permissions';
+import type { Action, Resource } from '../lib/permissions';
+
+/**
+ * Hook per verificare i permessi del ruolo corrente (stessa matrice usata dalle API)
+ */
+export function usePermissions(): {
+  role: string | undefined;
+  can: (resource: Resource, action: Action) => boolean;
+} {
+  const { user } = useAuth();
+  const role = user?.role;
+
+  const can = useCallback(
+    (resource: Resource, action: Action) => canRole(role, resource, action),
+    [role]
+  );
+
+  return { role, can };
+}
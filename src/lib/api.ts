@@ -8,10 +8,42 @@ import type {
   CourseEdition, 
   Registration, 
   Attendance,
+  CheckInResult,
+  CheckInSessionInfo,
+  AttendanceOtpCheck,
+  AttendanceOtpInfo,
+  AttendanceOtpResult,
+  AttendanceRegisterStatus,
+  RecoveryEnrollment,
+  RecoveryPlan,
+  RecoveryStatus,
+  SessionCheckInQr,
   Instructor,
   DashboardStats,
-  PaginatedResponse
+  PaginatedResponse,
+  AuditLogEntry,
+  EmailOutboxEntry,
+  EmailOutboxDetail,
+  EmailOutboxKind,
+  EmailOutboxStatus,
+  ReminderSettings,
+  EmailTemplate,
+  EmailTemplateKey,
+  BulkRegistrationResult,
+  EditionAgentPrice,
+  InvoiceCandidate,
+  InvoiceDetail,
+  InvoiceGenerationResult,
+  InvoiceGrouping,
+  InvoiceStatus,
+  InvoiceSummary
 } from '../types';
+import type { ClientBranding } from './branding';
+import type { CFDecodeResponse } from './codiceFiscale';
+import type { CommissionLine, CommissionRule, CommissionStatement } from './commissions';
+import type { Payment, PaymentMethod, ReceivablesReport } from './payments';
+import type { Quote, QuoteConversionResult, QuoteDetail, QuoteLineInput, QuoteStatus } from './quotes';
+import type { CompanyTrainingNeeds } from './trainingNeeds';
 
 // Create axios instance
 const api: AxiosInstance = axios.create({
@@ -186,6 +218,17 @@ export const authApi = {
     }
     return response.data;
   },
+
+  // Link monouso di invito / reset password (route pubbliche)
+  checkPasswordToken: async (token: string): Promise<{ email: string; name: string; purpose: 'invite' | 'reset' }> => {
+    const response = await api.get('/auth/set-password', { params: { token } });
+    return response.data;
+  },
+
+  setPassword: async (token: string, password: string): Promise<{ success: boolean; email: string }> => {
+    const response = await api.post('/auth/set-password', { token, password });
+    return response.data;
+  },
 };
 
 // Dashboard API
@@ -223,6 +266,11 @@ export const companiesApi = {
   delete: async (id: number): Promise<void> => {
     await api.delete(`/companies/${id}`);
   },
+
+  getTrainingNeeds: async (id: number): Promise<CompanyTrainingNeeds> => {
+    const response = await api.get(`/companies/${id}/training-needs`);
+    return response.data;
+  },
 };
 
 // Students API
@@ -253,6 +301,11 @@ export const studentsApi = {
   delete: async (id: number): Promise<void> => {
     await api.delete(`/students/${id}`);
   },
+
+  decodeFiscalCode: async (cf: string): Promise<CFDecodeResponse> => {
+    const response = await api.get(`/students/fiscal-code?cf=${encodeURIComponent(cf)}`);
+    return response.data;
+  },
 };
 
 // Courses API
@@ -313,6 +366,19 @@ export const editionsApi = {
   delete: async (id: number): Promise<void> => {
     await api.delete(`/editions/${id}`);
   },
+
+  getAgentPrices: async (id: number): Promise<EditionAgentPrice[]> => {
+    const response = await api.get(`/editions/${id}/agent-prices`);
+    return response.data.prices;
+  },
+
+  saveAgentPrice: async (id: number, data: { agentId: number; price: number }): Promise<void> => {
+    await api.post(`/editions/${id}/agent-prices`, data);
+  },
+
+  deleteAgentPrice: async (id: number, agentId: number): Promise<void> => {
+    await api.delete(`/editions/${id}/agent-prices?agentId=${agentId}`);
+  },
 };
 
 // Registrations API
@@ -344,7 +410,11 @@ export const registrationsApi = {
     await api.delete(`/registrations/${id}`);
   },
 
-  bulkCreate: async (data: { courseEditionId: number; studentIds: number[] }): Promise<{ successCount: number; failedCount: number }> => {
+  bulkCreate: async (data: { courseEditionId: number; studentIds: number[]; prerequisiteOverrideReason?: string }): Promise<{
+    successCount: number;
+    failedCount: number;
+    results: BulkRegistrationResult[];
+  }> => {
     const response = await api.post('/registrations/bulk', data);
     return response.data;
   },
@@ -459,3 +529,421 @@ export const agentsApi = {
     await api.delete(`/agents/${id}`);
   },
 };
+
+// Provvigioni agenti API (regole ed estratti conto)
+export const agentCommissionsApi = {
+  getRules: async (agentId: number): Promise<CommissionRule[]> => {
+    const response = await api.get(`/agents/${agentId}/commission-rules`);
+    return response.data.rules;
+  },
+
+  createRule: async (agentId: number, data: Omit<CommissionRule, 'id' | 'agentId'>): Promise<CommissionRule> => {
+    const response = await api.post(`/agents/${agentId}/commission-rules`, data);
+    return response.data.data;
+  },
+
+  updateRule: async (agentId: number, ruleId: number, data: Omit<CommissionRule, 'id' | 'agentId'>): Promise<CommissionRule> => {
+    const response = await api.put(`/agents/${agentId}/commission-rules?ruleId=${ruleId}`, data);
+    return response.data.data;
+  },
+
+  deleteRule: async (agentId: number, ruleId: number): Promise<void> => {
+    await api.delete(`/agents/${agentId}/commission-rules?ruleId=${ruleId}`);
+  },
+
+  getStatements: async (agentId: number): Promise<CommissionStatement[]> => {
+    const response = await api.get(`/agents/${agentId}/commission-statements`);
+    return response.data.statements;
+  },
+
+  generateStatement: async (agentId: number, period: string): Promise<{ data: CommissionStatement; pendingCount: number }> => {
+    const response = await api.post(`/agents/${agentId}/commission-statements`, { period });
+    return response.data;
+  },
+
+  getStatement: async (agentId: number, statementId: number): Promise<CommissionStatement & { lines: CommissionLine[] }> => {
+    const response = await api.get(`/agents/${agentId}/commission-statements/${statementId}`);
+    return response.data;
+  },
+
+  liquidateStatement: async (agentId: number, statementId: number): Promise<void> => {
+    await api.put(`/agents/${agentId}/commission-statements/${statementId}`, { status: 'liquidated' });
+  },
+
+  deleteStatement: async (agentId: number, statementId: number): Promise<void> => {
+    await api.delete(`/agents/${agentId}/commission-statements/${statementId}`);
+  },
+};
+
+// Preventivi API (alle aziende, convertibili in iscrizioni)
+export const quotesApi = {
+  getAll: async (params?: {
+    status?: QuoteStatus;
+    companyId?: number;
+    page?: number;
+    pageSize?: number;
+  }): Promise<PaginatedResponse<Quote>> => {
+    const response = await api.get('/quotes', { params });
+    return response.data;
+  },
+
+  getById: async (id: number): Promise<QuoteDetail> => {
+    const response = await api.get(`/quotes/${id}`);
+    return response.data;
+  },
+
+  create: async (data: {
+    companyId: number;
+    validUntil?: string | null;
+    notes?: string | null;
+    lines: QuoteLineInput[];
+  }): Promise<{ id: number; number: string }> => {
+    const response = await api.post('/quotes', data);
+    return response.data;
+  },
+
+  update: async (id: number, data: { validUntil?: string | null; notes?: string | null; lines?: QuoteLineInput[] }): Promise<QuoteDetail> => {
+    const response = await api.put(`/quotes/${id}`, data);
+    return response.data;
+  },
+
+  setStatus: async (id: number, status: QuoteStatus): Promise<QuoteDetail> => {
+    const response = await api.put(`/quotes/${id}`, { status });
+    return response.data;
+  },
+
+  // Il preventivo non si cancella: passa ad annullato e il numero resta occupato
+  cancel: async (id: number): Promise<void> => {
+    await api.delete(`/quotes/${id}`);
+  },
+
+  suggestPrice: async (params: { companyId: number; courseId: number; editionId?: number | null }): Promise<{ price: number; source: 'company' | 'course' }> => {
+    const response = await api.get('/quotes/price-suggestion', {
+      params: { ...params, editionId: params.editionId || undefined },
+    });
+    return response.data;
+  },
+
+  convert: async (id: number, data: {
+    assignments: { lineId: number; editionId: number; studentIds: number[] }[];
+    prerequisiteOverrideReason?: string;
+  }): Promise<{ successCount: number; failedCount: number; results: QuoteConversionResult[] }> => {
+    const response = await api.post(`/quotes/${id}/convert`, data);
+    return response.data;
+  },
+};
+
+// Nome del file allegato dall'header Content-Disposition
+const attachmentFilename = (disposition: string | undefined, fallback: string): string =>
+  disposition?.match(/filename="([^"]+)"/)?.[1] || fallback;
+
+// Fatturazione API (bozze dalle iscrizioni completate)
+export const invoicesApi = {
+  getAll: async (params?: {
+    status?: InvoiceStatus;
+    companyId?: number;
+    page?: number;
+    pageSize?: number;
+  }): Promise<PaginatedResponse<InvoiceSummary>> => {
+    const response = await api.get('/invoices', { params });
+    return response.data;
+  },
+
+  getById: async (id: number): Promise<InvoiceDetail> => {
+    const response = await api.get(`/invoices/${id}`);
+    return response.data;
+  },
+
+  getCandidates: async (params?: { companyId?: number; editionId?: number }): Promise<InvoiceCandidate[]> => {
+    const response = await api.get('/invoices/candidates', { params });
+    return response.data.candidates;
+  },
+
+  generate: async (data: {
+    registrationIds: number[];
+    groupBy: InvoiceGrouping;
+    vatRate?: number;
+  }): Promise<{ success: boolean; created: number; failed: number; skipped: number; results: InvoiceGenerationResult[] }> => {
+    const response = await api.post('/invoices', data);
+    return response.data;
+  },
+
+  cancel: async (id: number): Promise<void> => {
+    await api.delete(`/invoices/${id}`);
+  },
+
+  // XML FatturaPA: il nome del file è quello richiesto dallo SDI
+  downloadXml: async (id: number): Promise<{ blob: Blob; filename: string }> => {
+    const response = await api.get(`/invoices/${id}/xml`, { responseType: 'blob' });
+    return { blob: response.data, filename: attachmentFilename(response.headers['content-disposition'], `fattura-${id}.xml`) };
+  },
+
+  downloadXmlBatch: async (ids: number[]): Promise<{ blob: Blob; filename: string }> => {
+    const response = await api.get('/invoices/xml', { params: { ids: ids.join(',') }, responseType: 'blob' });
+    return { blob: response.data, filename: attachmentFilename(response.headers['content-disposition'], 'FatturePA.zip') };
+  },
+};
+
+// Incassi API (su fatture o iscrizioni non fatturate) e report crediti
+export const paymentsApi = {
+  getAll: async (params?: { invoiceId?: number; registrationId?: number; companyId?: number }): Promise<Payment[]> => {
+    const response = await api.get('/payments', { params });
+    return response.data.payments;
+  },
+
+  create: async (data: {
+    invoiceId?: number;
+    registrationId?: number;
+    amount: number;
+    paymentDate: string;
+    method: PaymentMethod;
+    reference?: string;
+    notes?: string;
+  }): Promise<Payment> => {
+    const response = await api.post('/payments', data);
+    return response.data;
+  },
+
+  delete: async (id: number): Promise<void> => {
+    await api.delete(`/payments/${id}`);
+  },
+
+  getReceivables: async (params?: { companyId?: number; agentId?: number }): Promise<ReceivablesReport> => {
+    const response = await api.get('/reports/receivables', { params });
+    return response.data;
+  },
+};
+
+// Certificates (Attestati) API
+export const certificatesApi = {
+  issue: async (registrationId: number): Promise<{ success: boolean; created: boolean; data: any }> => {
+    const response = await api.post(`/registrations/${registrationId}/certificate`);
+    return response.data;
+  },
+
+  download: async (registrationId: number): Promise<Blob> => {
+    const response = await api.get(`/registrations/${registrationId}/certificate`, { responseType: 'blob' });
+    return response.data;
+  },
+
+  getByEdition: async (editionId: number): Promise<{ certificates: any[] }> => {
+    const response = await api.get(`/editions/${editionId}/certificates`);
+    return response.data;
+  },
+
+  issueForEdition: async (editionId: number): Promise<{ success: boolean; created: number; existing: number; errors?: { registrationId: number; error: string }[] }> => {
+    const response = await api.post(`/editions/${editionId}/certificates`);
+    return response.data;
+  },
+
+  // Verifica pubblica: restituisce anche gli esiti negativi (404 non trovato, 410 revocato)
+  verify: async (code: string): Promise<any> => {
+    const response = await api.get(`/certificates/verify/${encodeURIComponent(code)}`, {
+      validateStatus: (status) => status === 200 || status === 404 || status === 410,
+    });
+    return response.data;
+  },
+};
+
+// Check-in con QR code
+export const checkInApi = {
+  getQr: async (sessionId: number): Promise<SessionCheckInQr> => {
+    const response = await api.get(`/sessions/${sessionId}/check-in`);
+    return response.data;
+  },
+
+  // Nuova chiave: i QR già proiettati non valgono più
+  regenerateQr: async (sessionId: number): Promise<SessionCheckInQr> => {
+    const response = await api.post(`/sessions/${sessionId}/check-in`);
+    return response.data;
+  },
+
+  // Pagina pubblica dell'allievo (non autenticata)
+  getSession: async (token: string): Promise<CheckInSessionInfo> => {
+    const response = await api.get(`/check-in/${encodeURIComponent(token)}`);
+    return response.data;
+  },
+
+  record: async (token: string, fiscalCode: string): Promise<CheckInResult> => {
+    const response = await api.post(`/check-in/${encodeURIComponent(token)}`, { fiscalCode });
+    return response.data;
+  },
+};
+
+// Presenze con OTP (sessioni FAD sincrone)
+export const attendanceOtpApi = {
+  getChecks: async (sessionId: number): Promise<AttendanceOtpCheck[]> => {
+    const response = await api.get(`/sessions/${sessionId}/otp-checks`);
+    return response.data.data;
+  },
+
+  // Pagina pubblica dell'allievo, dal link nell'email (non autenticata)
+  getInfo: async (token: string): Promise<AttendanceOtpInfo> => {
+    const response = await api.get(`/attendance-otp/${encodeURIComponent(token)}`);
+    return response.data;
+  },
+
+  verify: async (token: string, code: string): Promise<AttendanceOtpResult> => {
+    const response = await api.post(`/attendance-otp/${encodeURIComponent(token)}`, { code });
+    return response.data;
+  },
+};
+
+// Chiusura del registro presenze dell'edizione
+export const attendanceRegisterApi = {
+  getStatus: async (editionId: number): Promise<AttendanceRegisterStatus> => {
+    const response = await api.get(`/editions/${editionId}/attendance-register`);
+    return response.data;
+  },
+
+  close: async (editionId: number): Promise<{ hash: string; closedAt: string; attendanceCount: number }> => {
+    const response = await api.post(`/editions/${editionId}/attendance-register`, { action: 'close' });
+    return response.data;
+  },
+
+  reopen: async (editionId: number, reason: string): Promise<{ success: boolean }> => {
+    const response = await api.post(`/editions/${editionId}/attendance-register`, { action: 'reopen', reason });
+    return response.data;
+  },
+};
+
+// Recovery API (recupero ore in sessioni di altre edizioni)
+export const recoveryApi = {
+  getPlan: async (registrationId: number): Promise<RecoveryPlan> => {
+    const response = await api.get(`/registrations/${registrationId}/recovery`);
+    return response.data;
+  },
+
+  enroll: async (registrationId: number, sessionIds: number[]): Promise<{ success: boolean; data: RecoveryEnrollment[] }> => {
+    const response = await api.post(`/registrations/${registrationId}/recovery`, { sessionIds });
+    return response.data;
+  },
+
+  recordOutcome: async (
+    registrationId: number,
+    enrollmentId: number,
+    data: { status: RecoveryStatus; hoursRecovered?: number; notes?: string | null }
+  ): Promise<{ success: boolean; data: RecoveryEnrollment }> => {
+    const response = await api.put(`/registrations/${registrationId}/recovery/${enrollmentId}`, data);
+    return response.data;
+  },
+
+  cancel: async (registrationId: number, enrollmentId: number): Promise<void> => {
+    await api.delete(`/registrations/${registrationId}/recovery/${enrollmentId}`);
+  },
+};
+
+// Users API (gestione utenti, solo admin del cliente)
+export const usersApi = {
+  getAll: async (): Promise<{ data: User[]; maxUsers: number; activeUsers: number }> => {
+    const response = await api.get('/users');
+    return response.data;
+  },
+
+  invite: async (data: { email: string; name: string; role: User['role'] }): Promise<{ success: boolean; data: User; url: string; expiresAt: string }> => {
+    const response = await api.post('/users', data);
+    return response.data;
+  },
+
+  update: async (id: number, data: { name?: string; role?: User['role']; isActive?: boolean }): Promise<{ success: boolean; data: User }> => {
+    const response = await api.put(`/users/${id}`, data);
+    return response.data;
+  },
+
+  delete: async (id: number): Promise<void> => {
+    await api.delete(`/users/${id}`);
+  },
+
+  resetPassword: async (id: number): Promise<{ success: boolean; purpose: 'invite' | 'reset'; url: string; expiresAt: string }> => {
+    const response = await api.post(`/users/${id}/reset-password`);
+    return response.data;
+  },
+};
+
+// Audit Log API (storico modifiche)
+export const emailOutboxApi = {
+  getAll: async (params?: {
+    status?: EmailOutboxStatus;
+    kind?: EmailOutboxKind;
+    search?: string;
+    page?: number;
+    pageSize?: number;
+  }): Promise<PaginatedResponse<EmailOutboxEntry> & { counts: Partial<Record<EmailOutboxStatus, number>> }> => {
+    const response = await api.get('/email/outbox', { params });
+    return response.data;
+  },
+
+  getById: async (id: number): Promise<EmailOutboxDetail> => {
+    const response = await api.get(`/email/outbox/${id}`);
+    return response.data;
+  },
+
+  resend: async (id: number): Promise<{ success: boolean; id: number; status: EmailOutboxStatus; error: string | null }> => {
+    const response = await api.post(`/email/outbox/${id}/resend`);
+    return response.data;
+  },
+};
+
+export const reminderSettingsApi = {
+  get: async (): Promise<ReminderSettings & { lastSentAt: string | null; totalSent: number }> => {
+    const response = await api.get('/email/settings/reminders');
+    return response.data;
+  },
+
+  update: async (data: ReminderSettings): Promise<{ success: boolean; data: ReminderSettings }> => {
+    const response = await api.put('/email/settings/reminders', data);
+    return response.data;
+  },
+};
+
+export const brandingApi = {
+  get: async (): Promise<ClientBranding> => {
+    const response = await api.get('/branding');
+    return response.data;
+  },
+
+  update: async (data: Omit<ClientBranding, 'name'>): Promise<{ success: boolean; data: ClientBranding }> => {
+    const response = await api.put('/branding', data);
+    return response.data;
+  },
+};
+
+export const emailTemplatesApi = {
+  getAll: async (): Promise<EmailTemplate[]> => {
+    const response = await api.get('/email/settings/templates');
+    return response.data.data;
+  },
+
+  update: async (key: EmailTemplateKey, data: { subject: string; html: string }): Promise<{ success: boolean }> => {
+    const response = await api.put(`/email/settings/templates/${key}`, data);
+    return response.data;
+  },
+
+  reset: async (key: EmailTemplateKey): Promise<{ success: boolean }> => {
+    const response = await api.delete(`/email/settings/templates/${key}`);
+    return response.data;
+  },
+
+  preview: async (data: { key: EmailTemplateKey; subject: string; html: string }): Promise<{ subject: string; html: string }> => {
+    const response = await api.post('/email/settings/templates/preview', data);
+    return response.data;
+  },
+};
+
+export const auditApi = {
+  getAll: async (params?: {
+    entityType?: string;
+    entityId?: number;
+    studentId?: number;
+    companyId?: number;
+    editionId?: number;
+    action?: string;
+    from?: string;
+    to?: string;
+    page?: number;
+    pageSize?: number;
+  }): Promise<PaginatedResponse<AuditLogEntry>> => {
+    const response = await api.get('/audit-log', { params });
+    return response.data;
+  },
+};
@@ -0,0 +1,174 @@
+/**
+ * Codici ATECO - Divisioni ATECO 2007 con descrizione e classe di rischio (Accordo Stato-Regioni 21/12/2011)
+ *
+ * L'Accordo assegna la classe di rischio per macro-settore, quindi la tabella contiene solo le
+ * 88 divisioni (prime due cifre) di ATECO 2007 e non l'elenco completo dei codici ISTAT.
+ * Di un codice più dettagliato (es. "43.21.01") si controllano il formato e la divisione:
+ * un codice inesistente con una divisione valida viene accettato.
+ * ATECO 2025 sposta alcune attività tra divisioni (la 45 non esiste più) e cambia le lettere
+ * delle sezioni: per i codici 2025 la classe proposta va verificata e la categoria scelta a mano.
+ * Condiviso tra le Functions (salvataggio e import aziende) e il frontend.
+ */
+
+import type { RiskLevel } from './trainingNeeds';
+
+export interface AtecoDivision {
+  code: string;
+  section: string;
+  description: string;
+  risk: RiskLevel;
+}
+
+export const ATECO_DIVISIONS: AtecoDivision[] = [
+  { code: '01', section: 'A', description: 'Coltivazioni agricole e produzione di prodotti animali, caccia e servizi connessi', risk: 'medium' },
+  { code: '02', section: 'A', description: 'Silvicoltura ed utilizzo di aree forestali', risk: 'medium' },
+  { code: '03', section: 'A', description: 'Pesca e acquacoltura', risk: 'medium' },
+  { code: '05', section: 'B', description: 'Estrazione di carbone (esclusa torba)', risk: 'high' },
+  { code: '06', section: 'B', description: 'Estrazione di petrolio greggio e di gas naturale', risk: 'high' },
+  { code: '07', section: 'B', description: 'Estrazione di minerali metalliferi', risk: 'high' },
+  { code: '08', section: 'B', description: 'Altre attività di estrazione di minerali da cave e miniere', risk: 'high' },
+  { code: '09', section: 'B', description: 'Attività dei servizi di supporto all\'estrazione', risk: 'high' },
+  { code: '10', section: 'C', description: 'Industrie alimentari', risk: 'high' },
+  { code: '11', section: 'C', description: 'Industria delle bevande', risk: 'high' },
+  { code: '12', section: 'C', description: 'Industria del tabacco', risk: 'high' },
+  { code: '13', section: 'C', description: 'Industrie tessili', risk: 'high' },
+  { code: '14', section: 'C', description: 'Confezione di articoli di abbigliamento, in pelle e pelliccia', risk: 'high' },
+  { code: '15', section: 'C', description: 'Fabbricazione di articoli in pelle e simili', risk: 'high' },
+  { code: '16', section: 'C', description: 'Industria del legno e dei prodotti in legno e sughero (esclusi i mobili)', risk: 'high' },
+  { code: '17', section: 'C', description: 'Fabbricazione di carta e di prodotti di carta', risk: 'high' },
+  { code: '18', section: 'C', description: 'Stampa e riproduzione di supporti registrati', risk: 'high' },
+  { code: '19', section: 'C', description: 'Fabbricazione di coke e prodotti derivanti dalla raffinazione del petrolio', risk: 'high' },
+  { code: '20', section: 'C', description: 'Fabbricazione di prodotti chimici', risk: 'high' },
+  { code: '21', section: 'C', description: 'Fabbricazione di prodotti farmaceutici di base e di preparati farmaceutici', risk: 'high' },
+  { code: '22', section: 'C', description: 'Fabbricazione di articoli in gomma e materie plastiche', risk: 'high' },
+  { code: '23', section: 'C', description: 'Fabbricazione di altri prodotti della lavorazione di minerali non metalliferi', risk: 'high' },
+  { code: '24', section: 'C', description: 'Metallurgia', risk: 'high' },
+  { code: '25', section: 'C', description: 'Fabbricazione di prodotti in metallo (esclusi macchinari e attrezzature)', risk: 'high' },
+  { code: '26', section: 'C', description: 'Fabbricazione di computer e prodotti di elettronica e ottica', risk: 'high' },
+  { code: '27', section: 'C', description: 'Fabbricazione di apparecchiature elettriche e per uso domestico', risk: 'high' },
+  { code: '28', section: 'C', description: 'Fabbricazione di macchinari ed apparecchiature nca', risk: 'high' },
+  { code: '29', section: 'C', description: 'Fabbricazione di autoveicoli, rimorchi e semirimorchi', risk: 'high' },
+  { code: '30', section: 'C', description: 'Fabbricazione di altri mezzi di trasporto', risk: 'high' },
+  { code: '31', section: 'C', description: 'Fabbricazione di mobili', risk: 'high' },
+  { code: '32', section: 'C', description: 'Altre industrie manifatturiere', risk: 'high' },
+  { code: '33', section: 'C', description: 'Riparazione, manutenzione ed installazione di macchine ed apparecchiature', risk: 'high' },
+  { code: '35', section: 'D', description: 'Fornitura di energia elettrica, gas, vapore e aria condizionata', risk: 'high' },
+  { code: '36', section: 'E', description: 'Raccolta, trattamento e fornitura di acqua', risk: 'high' },
+  { code: '37', section: 'E', description: 'Gestione delle reti fognarie', risk: 'high' },
+  { code: '38', section: 'E', description: 'Raccolta, trattamento e smaltimento dei rifiuti; recupero dei materiali', risk: 'high' },
+  { code: '39', section: 'E', description: 'Attività di risanamento e altri servizi di gestione dei rifiuti', risk: 'high' },
+  { code: '41', section: 'F', description: 'Costruzione di edifici', risk: 'high' },
+  { code: '42', section: 'F', description: 'Ingegneria civile', risk: 'high' },
+  { code: '43', section: 'F', description: 'Lavori di costruzione specializzati', risk: 'high' },
+  { code: '45', section: 'G', description: 'Commercio all\'ingrosso e al dettaglio e riparazione di autoveicoli e motocicli', risk: 'low' },
+  { code: '46', section: 'G', description: 'Commercio all\'ingrosso (escluso quello di autoveicoli e di motocicli)', risk: 'low' },
+  { code: '47', section: 'G', description: 'Commercio al dettaglio (escluso quello di autoveicoli e di motocicli)', risk: 'low' },
+  { code: '49', section: 'H', description: 'Trasporto terrestre e trasporto mediante condotte', risk: 'medium' },
+  { code: '50', section: 'H', description: 'Trasporto marittimo e per vie d\'acqua', risk: 'medium' },
+  { code: '51', section: 'H', description: 'Trasporto aereo', risk: 'medium' },
+  { code: '52', section: 'H', description: 'Magazzinaggio e attività di supporto ai trasporti', risk: 'medium' },
+  { code: '53', section: 'H', description: 'Servizi postali e attività di corriere', risk: 'medium' },
+  { code: '55', section: 'I', description: 'Alloggio', risk: 'low' },
+  { code: '56', section: 'I', description: 'Attività dei servizi di ristorazione', risk: 'low' },
+  { code: '58', section: 'J', description: 'Attività editoriali', risk: 'low' },
+  { code: '59', section: 'J', description: 'Produzione cinematografica, di video e programmi televisivi, registrazioni musicali', risk: 'low' },
+  { code: '60', section: 'J', description: 'Attività di programmazione e trasmissione', risk: 'low' },
+  { code: '61', section: 'J', description: 'Telecomunicazioni', risk: 'medium' },
+  { code: '62', section: 'J', description: 'Produzione di software, consulenza informatica e attività connesse', risk: 'low' },
+  { code: '63', section: 'J', description: 'Attività dei servizi d\'informazione e altri servizi informatici', risk: 'low' },
+  { code: '64', section: 'K', description: 'Attività di servizi finanziari (escluse le assicurazioni e i fondi pensione)', risk: 'low' },
+  { code: '65', section: 'K', description: 'Assicurazioni, riassicurazioni e fondi pensione', risk: 'low' },
+  { code: '66', section: 'K', description: 'Attività ausiliarie dei servizi finanziari e delle attività assicurative', risk: 'low' },
+  { code: '68', section: 'L', description: 'Attività immobiliari', risk: 'low' },
+  { code: '69', section: 'M', description: 'Attività legali e contabilità', risk: 'low' },
+  { code: '70', section: 'M', description: 'Attività di direzione aziendale e di consulenza gestionale', risk: 'low' },
+  { code: '71', section: 'M', description: 'Attività degli studi di architettura e d\'ingegneria; collaudi ed analisi tecniche', risk: 'low' },
+  { code: '72', section: 'M', description: 'Ricerca scientifica e sviluppo', risk: 'low' },
+  { code: '73', section: 'M', description: 'Pubblicità e ricerche di mercato', risk: 'low' },
+  { code: '74', section: 'M', description: 'Altre attività professionali, scientifiche e tecniche', risk: 'low' },
+  { code: '75', section: 'M', description: 'Servizi veterinari', risk: 'low' },
+  { code: '77', section: 'N', description: 'Attività di noleggio e leasing operativo', risk: 'low' },
+  { code: '78', section: 'N', description: 'Attività di ricerca, selezione, fornitura di personale', risk: 'low' },
+  { code: '79', section: 'N', description: 'Agenzie di viaggio, tour operator e servizi di prenotazione', risk: 'low' },
+  { code: '80', section: 'N', description: 'Servizi di vigilanza e investigazione', risk: 'low' },
+  { code: '81', section: 'N', description: 'Attività di servizi per edifici e paesaggio', risk: 'low' },
+  { code: '82', section: 'N', description: 'Attività di supporto per le funzioni d\'ufficio e altri servizi alle imprese', risk: 'low' },
+  { code: '84', section: 'O', description: 'Amministrazione pubblica e difesa; assicurazione sociale obbligatoria', risk: 'medium' },
+  { code: '85', section: 'P', description: 'Istruzione', risk: 'medium' },
+  { code: '86', section: 'Q', description: 'Assistenza sanitaria', risk: 'high' },
+  { code: '87', section: 'Q', description: 'Servizi di assistenza sociale residenziale', risk: 'high' },
+  { code: '88', section: 'Q', description: 'Assistenza sociale non residenziale', risk: 'medium' },
+  { code: '90', section: 'R', description: 'Attività creative, artistiche e di intrattenimento', risk: 'low' },
+  { code: '91', section: 'R', description: 'Attività di biblioteche, archivi, musei ed altre attività culturali', risk: 'low' },
+  { code: '92', section: 'R', description: 'Attività riguardanti le lotterie, le scommesse, le case da gioco', risk: 'low' },
+  { code: '93', section: 'R', description: 'Attività sportive, di intrattenimento e di divertimento', risk: 'low' },
+  { code: '94', section: 'S', description: 'Attività di organizzazioni associative', risk: 'low' },
+  { code: '95', section: 'S', description: 'Riparazione di computer e di beni per uso personale e per la casa', risk: 'low' },
+  { code: '96', section: 'S', description: 'Altre attività di servizi per la persona', risk: 'low' },
+  { code: '97', section: 'T', description: 'Attività di famiglie e convivenze come datori di lavoro per personale domestico', risk: 'low' },
+  { code: '98', section: 'T', description: 'Produzione di beni e servizi indifferenziati per uso proprio da parte di famiglie', risk: 'low' },
+  { code: '99', section: 'U', description: 'Organizzazioni ed organismi extraterritoriali', risk: 'low' },
+];
+
+export const RISK_LEVEL_LABELS: Record<RiskLevel, string> = {
+  low: 'Basso',
+  medium: 'Medio',
+  high: 'Alto',
+};
+
+const DIVISIONS_BY_CODE = new Map(ATECO_DIVISIONS.map(division => [division.code, division]));
+
+/**
+ * Forma con i punti: "432101" → "43.21.01", " 43.21 " → "43.21"
+ */
+export function normalizeAtecoCode(code: string): string {
+  const trimmed = code.trim();
+  if (/^\d{2,6}$/.test(trimmed)) {
+    return trimmed.match(/\d{1,2}/g)!.join('.');
+  }
+  return trimmed;
+}
+
+/**
+ * Divisione del codice (anche parziale o dettagliato); null se il formato o la divisione non esistono
+ */
+export function lookupAteco(code: string | null | undefined): AtecoDivision | null {
+  if (!code) return null;
+  const normalized = normalizeAtecoCode(code);
+  if (!/^\d{2}(\.\d{1,2}(\.\d{1,2})?)?$/.test(normalized)) return null;
+  return DIVISIONS_BY_CODE.get(normalized.slice(0, 2)) || null;
+}
+
+/**
+ * Formato valido e divisione ATECO 2007 esistente (il codice completo non è verificato)
+ */
+export function hasKnownAtecoDivision(code: string): boolean {
+  return lookupAteco(code) !== null;
+}
+
+/**
+ * Classe di rischio dal codice ATECO; null se il codice non è riconosciuto
+ */
+export function atecoRiskClass(code: string | null | undefined): RiskLevel | null {
+  return lookupAteco(code)?.risk || null;
+}
+
+/**
+ * Divisioni per l'autocompletamento: per codice iniziale o per parola della descrizione
+ */
+export function searchAteco(query: string, limit = 10): AtecoDivision[] {
+  const term = query.trim().toLowerCase();
+  if (!term) return [];
+  const prefix = term.slice(0, 2);
+  return ATECO_DIVISIONS
+    .filter(division => /^\d/.test(term) ? division.code.startsWith(prefix) : division.description.toLowerCase().includes(term))
+    .slice(0, limit);
+}
+
+/**
+ * Categoria di rischio da salvare: quella indicata o, in mancanza, la classe del codice ATECO
+ */
+export function suggestRiskCategory(atecoCode: string | null | undefined, riskCategory?: string | null): RiskLevel {
+  if (riskCategory === 'low' || riskCategory === 'medium' || riskCategory === 'high') return riskCategory;
+  return atecoRiskClass(atecoCode) || 'low';
+}
@@ -0,0 +1,176 @@
+/**
+ * Carta intestata del cliente (ente formatore)
+ *
+ * Condivisa tra il frontend (registri ed esportazioni) e le Functions (attestati,
+ * email, calendari), così che ogni documento riporti la stessa intestazione.
+ */
+
+import type { jsPDF } from 'jspdf';
+
+export interface ClientBranding {
+  name: string; // Ragione sociale o, se non impostata, nome del cliente
+  legalName: string | null;
+  vatNumber: string | null;
+  fiscalCode: string | null;
+  address: string | null;
+  city: string | null;
+  province: string | null;
+  zipCode: string | null;
+  phone: string | null;
+  email: string | null;
+  website: string | null;
+  accreditationNumbers: string | null;
+  logo: string | null; // Data URL (PNG/JPEG)
+  primaryColor: string;
+  secondaryColor: string;
+}
+
+export const DEFAULT_PRIMARY_COLOR = '#2980b9';
+export const DEFAULT_SECONDARY_COLOR = '#1f2937';
+
+export function defaultBranding(name: string): ClientBranding {
+  return {
+    name,
+    legalName: null,
+    vatNumber: null,
+    fiscalCode: null,
+    address: null,
+    city: null,
+    province: null,
+    zipCode: null,
+    phone: null,
+    email: null,
+    website: null,
+    accreditationNumbers: null,
+    logo: null,
+    primaryColor: DEFAULT_PRIMARY_COLOR,
+    secondaryColor: DEFAULT_SECONDARY_COLOR,
+  };
+}
+
+export function isHexColor(value: string): boolean {
+  return /^#[0-9a-fA-F]{6}$/.test(value);
+}
+
+/**
+ * Colore "#rrggbb" nel formato [r, g, b] di jsPDF
+ */
+export function hexToRgb(hex: string, fallback = DEFAULT_PRIMARY_COLOR): [number, number, number] {
+  const value = isHexColor(hex) ? hex : fallback;
+  return [1, 3, 5].map(i => parseInt(value.substring(i, i + 2), 16)) as [number, number, number];
+}
+
+/**
+ * Indirizzo su una riga: "Via Roma 1, 20100 Milano (MI)"
+ */
+export function formatBrandingAddress(branding: ClientBranding): string {
+  const locality = [
+    branding.zipCode,
+    branding.city,
+    branding.province ? `(${branding.province})` : null,
+  ].filter(Boolean).join(' ');
+
+  return [branding.address, locality].filter(Boolean).join(', ');
+}
+
+/**
+ * Righe dell'intestazione sotto la ragione sociale (indirizzo, dati fiscali, contatti, accreditamenti)
+ */
+export function brandingDetails(branding: ClientBranding): string[] {
+  const fiscal = [
+    branding.vatNumber ? `P.IVA ${branding.vatNumber}` : null,
+    branding.fiscalCode && branding.fiscalCode !== branding.vatNumber ? `C.F. ${branding.fiscalCode}` : null,
+  ].filter(Boolean).join(' - ');
+
+  const contacts = [
+    branding.phone ? `Tel. ${branding.phone}` : null,
+    branding.email,
+    branding.website,
+  ].filter(Boolean).join(' - ');
+
+  return [
+    formatBrandingAddress(branding),
+    fiscal,
+    contacts,
+    branding.accreditationNumbers ? `Accreditamento: ${branding.accreditationNumbers}` : '',
+  ].filter(Boolean);
+}
+
+function logoFormat(dataUrl: string): string | null {
+  const match = /^data:image\/(png|jpe?g);base64,/i.exec(dataUrl);
+  if (!match) return null;
+  return match[1].toLowerCase() === 'png' ? 'PNG' : 'JPEG';
+}
+
+/**
+ * Disegna il logo con altezza fissa e larghezza proporzionale. Restituisce la larghezza usata (0 se assente).
+ */
+export function drawPdfLogo(doc: jsPDF, branding: ClientBranding, x: number, y: number, height: number, maxWidth = height * 3): number {
+  const format = branding.logo ? logoFormat(branding.logo) : null;
+  if (!branding.logo || !format) return 0;
+
+  try {
+    const { width: imageWidth, height: imageHeight } = doc.getImageProperties(branding.logo);
+    const width = Math.min(maxWidth, (imageWidth / imageHeight) * height);
+    doc.addImage(branding.logo, format, x, y, width, height);
+    return width;
+  } catch {
+    // Un logo corrotto non deve impedire la generazione del documento
+    return 0;
+  }
+}
+
+/**
+ * Intestazione dei documenti: logo, ragione sociale e dati dell'ente, filetto colorato.
+ * Restituisce la coordinata y da cui continuare a scrivere.
+ */
+export function drawPdfLetterhead(doc: jsPDF, branding: ClientBranding, margin = 10): number {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const logoHeight = 14;
+  const logoWidth = drawPdfLogo(doc, branding, margin, margin, logoHeight);
+  const textX = logoWidth > 0 ? margin + logoWidth + 4 : margin;
+  let y = margin + 5;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.setTextColor(...hexToRgb(branding.primaryColor));
+  doc.text(branding.name, textX, y);
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(7.5);
+  doc.setTextColor(...hexToRgb(branding.secondaryColor, DEFAULT_SECONDARY_COLOR));
+  for (const line of brandingDetails(branding)) {
+    y += 3.5;
+    doc.text(line, textX, y);
+  }
+
+  y = Math.max(y, margin + logoHeight) + 3;
+  doc.setDrawColor(...hexToRgb(branding.primaryColor));
+  doc.setLineWidth(0.6);
+  doc.line(margin, y, pageWidth - margin, y);
+
+  doc.setTextColor(0, 0, 0);
+  doc.setDrawColor(0, 0, 0);
+  doc.setLineWidth(0.2);
+  return y + 7;
+}
+
+/**
+ * Piè di pagina su tutte le pagine: ragione sociale e dati fiscali, numero pagina
+ */
+export function drawPdfFooter(doc: jsPDF, branding: ClientBranding, margin = 10) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const pages = doc.getNumberOfPages();
+  const text = [branding.name, branding.vatNumber ? `P.IVA ${branding.vatNumber}` : null].filter(Boolean).join(' - ');
+
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7);
+    doc.setTextColor(120, 120, 120);
+    doc.text(text, margin, pageHeight - 5);
+    doc.text(`Pagina ${page} di ${pages}`, pageWidth - margin, pageHeight - 5, { align: 'right' });
+  }
+  doc.setTextColor(0, 0, 0);
+}
@@ -100,12 +100,15 @@ export function validateAttendanceHours(
   return null;
 }
 
+// Frequenza minima per ottenere l'attestato (D.Lgs. 81/08, Accordo Stato-Regioni)
+export const MIN_ATTENDANCE_PERCENT = 90;
+
 /**
  * Valida che un certificato non sia emesso per studenti con frequenza insufficiente
  */
 export function validateCertificateEligibility(
   attendancePercentage: number,
-  minimumPercentage = 90
+  minimumPercentage = MIN_ATTENDANCE_PERCENT
 ): BusinessLogicError | null {
   if (attendancePercentage < minimumPercentage) {
     return {
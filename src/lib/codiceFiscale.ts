@@ -40,9 +40,15 @@ const OMOCODIA_CIFRE: Record<string, string> = {
   'R': '5', 'S': '6', 'T': '7', 'U': '8', 'V': '9'
 };
 
-// Database comuni italiani (campione - in produzione usare API o database completo)
-// Formato: codice catastale -> { nome, provincia }
-const COMUNI_CATASTALI: Record<string, { nome: string; provincia: string }> = {
+export interface ComuneCatastale {
+  nome: string;
+  provincia: string | null; // null per gli stati esteri (codici Z)
+}
+
+// Campione di comuni per la decodifica lato client quando il server non risponde:
+// l'elenco completo ISTAT e degli stati esteri è nella tabella belfioreCodes
+// (functions/lib/belfiore.ts, GET /api/students/fiscal-code)
+const COMUNI_CATASTALI: Record<string, ComuneCatastale> = {
   'A001': { nome: 'ABANO TERME', provincia: 'PD' },
   'A004': { nome: 'ABBADIA CERRETO', provincia: 'LO' },
   'A944': { nome: 'BARI', provincia: 'BA' },
@@ -79,6 +85,16 @@ export interface CFReverseResult {
   giornoNascita: number | null;
 }
 
+// Decodifica lato server (GET /api/students/fiscal-code) sull'elenco completo dei codici catastali
+export interface CFDecodedResult extends CFReverseResult {
+  placeFound: boolean; // false = codice catastale assente dall'elenco
+}
+
+export interface CFDecodeResponse {
+  validation: CFValidationResult;
+  decoded: CFDecodedResult | null; // null se il formato non è valido
+}
+
 /**
  * Normalizza il codice fiscale (maiuscolo, rimuove spazi)
  */
@@ -189,9 +205,10 @@ export function validaCF(cf: string): CFValidationResult {
 
 /**
  * Reverse engineering del codice fiscale
- * Estrae data di nascita, luogo di nascita e sesso
+ * Estrae data di nascita, luogo di nascita e sesso. Il comune già risolto dal chiamante
+ * (es. dall'elenco completo lato server) prevale sul campione locale; null = non trovato.
  */
-export function reverseCF(cf: string): CFReverseResult {
+export function reverseCF(cf: string, comune?: ComuneCatastale | null): CFReverseResult {
   const result: CFReverseResult = {
     dataNascita: null,
     luogoNascita: null,
@@ -244,14 +261,14 @@ export function reverseCF(cf: string): CFReverseResult {
       result.dataNascita = `${result.annoNascita}-${mese}-${giornoStr}`;
     }
     
-    // Estrai codice catastale (posizioni 11-14)
-    result.codiceCatastale = cfNorm.substring(11, 15);
+    // Estrai codice catastale (posizioni 11-14, le cifre possono essere omocodiche)
+    result.codiceCatastale = cfDecodificato.substring(11, 15);
     
     // Cerca il comune nel database
-    const comune = COMUNI_CATASTALI[result.codiceCatastale];
-    if (comune) {
-      result.luogoNascita = comune.nome;
-      result.provinciaNascita = comune.provincia;
+    const luogo = comune === undefined ? COMUNI_CATASTALI[result.codiceCatastale] : comune;
+    if (luogo) {
+      result.luogoNascita = luogo.nome;
+      result.provinciaNascita = luogo.provincia;
     } else {
       // Se non trovato, restituisci solo il codice
       result.luogoNascita = `Codice: ${result.codiceCatastale}`;
@@ -273,6 +290,48 @@ export function formattaDataNascita(data: string | null): string {
   return `${giorno}/${mese}/${anno}`;
 }
 
+/**
+ * Luogo di nascita nel formato salvato in anagrafica: "ROMA (RM)", o solo lo stato estero
+ */
+export function formattaLuogoNascita(result: Pick<CFReverseResult, 'luogoNascita' | 'provinciaNascita'>): string {
+  if (!result.luogoNascita) return '';
+  return result.provinciaNascita ? `${result.luogoNascita} (${result.provinciaNascita})` : result.luogoNascita;
+}
+
+/**
+ * Normalizza un nome di comune per il confronto (maiuscolo, senza accenti, apostrofi e provincia)
+ */
+export function normalizzaNomeComune(nome: string): string {
+  return nome
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/\([A-Z]{2}\)\s*$/, '')
+    .replace(/[^A-Z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Decodifica con il solo campione locale, quando la decodifica lato server non è disponibile
+ */
+export function decodificaLocale(cf: string): CFDecodedResult {
+  const result = reverseCF(cf);
+  return { ...result, placeFound: !!result.codiceCatastale && !!COMUNI_CATASTALI[result.codiceCatastale] };
+}
+
+/**
+ * Il luogo di nascita dichiarato ("ROMA (RM)" o "Roma") corrisponde al comune del codice fiscale?
+ * La provincia tra parentesi, se indicata, deve coincidere; senza comune risolto non c'è nulla da verificare.
+ */
+export function verificaLuogoNascita(result: CFDecodedResult, luogo: string): boolean {
+  if (!result.placeFound || !result.luogoNascita) return true;
+
+  const provincia = luogo.trim().toUpperCase().match(/\(([A-Z]{2})\)$/)?.[1];
+  if (provincia && result.provinciaNascita && provincia !== result.provinciaNascita) return false;
+
+  return normalizzaNomeComune(luogo) === normalizzaNomeComune(result.luogoNascita);
+}
+
 /**
  * Genera le prime 6 lettere del CF da cognome e nome
  * Utile per la validazione incrociata
@@ -321,6 +380,10 @@ export default {
   validaChecksum,
   reverseCF,
   formattaDataNascita,
+  formattaLuogoNascita,
+  normalizzaNomeComune,
+  decodificaLocale,
+  verificaLuogoNascita,
   generaConsonantiVocali,
   verificaCorrispondenza,
   calcolaCarattereControllo
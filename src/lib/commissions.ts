@@ -0,0 +1,110 @@
+/**
+ * Provvigioni agenti - Regole e calcolo
+ *
+ * Condiviso tra le Functions (generazione degli estratti conto) e il frontend
+ * (anteprima delle regole). Importi in centesimi, percentuali in centesimi di punto
+ * (1050 = 10,50%).
+ */
+
+export type CommissionType = 'percentage' | 'fixed';
+
+// Quando la provvigione matura: all'iscrizione, a fattura emessa o a fattura incassata
+export type CommissionAccrual = 'registration' | 'invoiced' | 'paid';
+
+export type CommissionStatementStatus = 'draft' | 'liquidated';
+
+export interface CommissionRule {
+  id: number;
+  agentId: number;
+  courseType: string | null; // null = tutte le tipologie
+  commissionType: CommissionType;
+  value: number;
+  accrueOn: CommissionAccrual;
+  validFrom: string;
+  validTo: string | null;
+  notes: string | null;
+}
+
+export interface CommissionStatement {
+  id: number;
+  agentId: number;
+  period: string; // YYYY-MM
+  status: CommissionStatementStatus;
+  totalAmount: number;
+  linesCount: number;
+  liquidatedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CommissionLine {
+  id: number;
+  registrationId: number;
+  ruleId: number | null;
+  studentName: string;
+  courseTitle: string;
+  registrationDate: string;
+  priceApplied: number;
+  invoiceStatus: string | null;
+  commissionAmount: number;
+}
+
+export const COMMISSION_ACCRUAL_LABELS: Record<CommissionAccrual, string> = {
+  registration: 'All\'iscrizione',
+  invoiced: 'A fattura emessa',
+  paid: 'A fattura incassata',
+};
+
+export const COMMISSION_STATUS_LABELS: Record<CommissionStatementStatus, string> = {
+  draft: 'Da liquidare',
+  liquidated: 'Liquidato',
+};
+
+/**
+ * Regola da applicare: valida alla data dell'iscrizione, preferendo quella specifica
+ * per la tipologia del corso e, a parità, la più recente
+ */
+export function findCommissionRule(
+  rules: CommissionRule[],
+  courseType: string | null,
+  date: string
+): CommissionRule | null {
+  const day = date.substring(0, 10);
+  const candidates = rules.filter(rule =>
+    (rule.courseType === null || rule.courseType === courseType) &&
+    rule.validFrom <= day &&
+    (!rule.validTo || rule.validTo >= day)
+  );
+
+  candidates.sort((a, b) =>
+    Number(b.courseType !== null) - Number(a.courseType !== null) || b.validFrom.localeCompare(a.validFrom)
+  );
+
+  return candidates[0] || null;
+}
+
+export function calculateCommission(rule: CommissionRule, priceApplied: number): number {
+  if (rule.commissionType === 'fixed') return rule.value;
+  return Math.round(priceApplied * rule.value / 10000);
+}
+
+/**
+ * La provvigione è maturata in base allo stato di fatturazione dell'iscrizione
+ */
+export function isCommissionMatured(accrueOn: CommissionAccrual, invoiceStatus: string | null): boolean {
+  switch (accrueOn) {
+    case 'invoiced':
+      return invoiceStatus === 'sent' || invoiceStatus === 'partial' || invoiceStatus === 'paid';
+    case 'paid':
+      return invoiceStatus === 'paid';
+    default:
+      return true;
+  }
+}
+
+export function formatCommissionRule(rule: Pick<CommissionRule, 'commissionType' | 'value'>): string {
+  if (rule.commissionType === 'percentage') {
+    return `${(rule.value / 100).toLocaleString('it-IT', { maximumFractionDigits: 2 })}%`;
+  }
+  return `${(rule.value / 100).toLocaleString('it-IT', { style: 'currency', currency: 'EUR' })} a iscrizione`;
+}
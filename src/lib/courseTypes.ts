@@ -0,0 +1,22 @@
+/**
+ * Tipologie di corso (D.Lgs. 81/08) - courses.type
+ */
+
+export const COURSE_TYPES: { value: string; label: string }[] = [
+  { value: 'base', label: 'Formazione Base' },
+  { value: 'specifica', label: 'Formazione Specifica' },
+  { value: 'preposti', label: 'Formazione Preposti' },
+  { value: 'dirigenti', label: 'Formazione Dirigenti' },
+  { value: 'rspp', label: 'RSPP/ASPP' },
+  { value: 'rls', label: 'RLS' },
+  { value: 'antincendio', label: 'Antincendio' },
+  { value: 'primo_soccorso', label: 'Primo Soccorso' },
+  { value: 'attrezzature', label: 'Attrezzature di Lavoro' },
+  { value: 'aggiornamento', label: 'Aggiornamento' },
+  { value: 'altro', label: 'Altro' },
+];
+
+export function courseTypeLabel(type: string | null | undefined): string {
+  if (!type) return '';
+  return COURSE_TYPES.find(t => t.value === type)?.label || type;
+}
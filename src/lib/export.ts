@@ -1,6 +1,29 @@
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import * as XLSX from 'xlsx';
+import { brandingApi } from './api';
+import { brandingDetails, defaultBranding, drawPdfFooter, drawPdfLetterhead, hexToRgb } from './branding';
+import type { ClientBranding } from './branding';
+
+/**
+ * Carta intestata del cliente per i documenti esportati (predefinita se non raggiungibile)
+ */
+export const loadDocumentBranding = async (): Promise<ClientBranding> => {
+  try {
+    return await brandingApi.get();
+  } catch {
+    return defaultBranding('GestionaleSicurezza');
+  }
+};
+
+/**
+ * Righe di intestazione dei fogli Excel: ragione sociale e dati dell'ente
+ */
+export const brandingSheetRows = (branding: ClientBranding): string[][] => [
+  [branding.name],
+  ...brandingDetails(branding).map(line => [line]),
+  [],
+];
 
 /**
  * Esporta dati in formato CSV
@@ -43,24 +66,26 @@ export const exportToCSV = (data: any[], filename: string, columns?: string[]) =
 };
 
 /**
- * Esporta dati in formato Excel
+ * Esporta dati in formato Excel, con l'intestazione dell'ente sopra la tabella
  */
-export const exportToExcel = (data: any[], filename: string, sheetName: string = 'Data') => {
+export const exportToExcel = async (data: any[], filename: string, sheetName: string = 'Data') => {
   if (data.length === 0) {
     alert('Nessun dato da esportare');
     return;
   }
 
-  const worksheet = XLSX.utils.json_to_sheet(data);
+  const header = brandingSheetRows(await loadDocumentBranding());
+  const worksheet = XLSX.utils.aoa_to_sheet(header);
+  XLSX.utils.sheet_add_json(worksheet, data, { origin: header.length });
   const workbook = XLSX.utils.book_new();
   XLSX.utils.book_append_sheet(workbook, worksheet, sheetName);
   XLSX.writeFile(workbook, `${filename}.xlsx`);
 };
 
 /**
- * Esporta dati in formato PDF con tabella
+ * Esporta dati in formato PDF con tabella, su carta intestata dell'ente
  */
-export const exportToPDF = (
+export const exportToPDF = async (
   data: any[],
   filename: string,
   columns: { key: string; label: string }[],
@@ -71,12 +96,15 @@ export const exportToPDF = (
     return;
   }
 
+  const branding = await loadDocumentBranding();
   const doc = new jsPDF();
-  
+  let startY = drawPdfLetterhead(doc, branding);
+
   // Aggiungi titolo
   if (title) {
     doc.setFontSize(16);
-    doc.text(title, 14, 15);
+    doc.text(title, 14, startY);
+    startY += 8;
   }
 
   // Prepara dati per la tabella
@@ -88,14 +116,14 @@ export const exportToPDF = (
   autoTable(doc, {
     head: [columns.map(col => col.label)],
     body: tableData,
-    startY: title ? 25 : 10,
-    margin: 10,
+    startY,
+    margin: { left: 10, right: 10, bottom: 14 },
     styles: {
       fontSize: 10,
       cellPadding: 3,
     },
     headStyles: {
-      fillColor: [41, 128, 185],
+      fillColor: hexToRgb(branding.primaryColor),
       textColor: 255,
       fontStyle: 'bold',
     },
@@ -104,6 +132,8 @@ export const exportToPDF = (
     },
   });
 
+  drawPdfFooter(doc, branding);
+
   // Download
   doc.save(`${filename}.pdf`);
 };
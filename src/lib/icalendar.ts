@@ -126,9 +126,10 @@ export function generateICalEvent(event: CalendarEvent): string {
 }
 
 /**
- * Genera un file iCalendar completo con uno o più eventi
+ * Genera un file iCalendar completo con uno o più eventi.
+ * Il calendario prende il nome dell'ente (ClientBranding.name, vedi brandingApi).
  */
-export function generateICalendar(events: CalendarEvent[], calendarName: string = 'SecurityTools'): string {
+export function generateICalendar(events: CalendarEvent[], calendarName: string): string {
   const lines: string[] = [
     'BEGIN:VCALENDAR',
     'VERSION:2.0',
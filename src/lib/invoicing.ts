@@ -7,13 +7,16 @@
  * SETUP RICHIESTO:
  * 1. Ottenere credenziali API dal provider scelto
  * 2. Configurare variabili ambiente:
- *    - INVOICING_PROVIDER (fattureincloud, aruba, teamsystem, custom)
+ *    - INVOICING_PROVIDER (fattureincloud, aruba, teamsystem, custom, local)
  *    - INVOICING_API_KEY
  *    - INVOICING_API_SECRET (se richiesto)
  *    - INVOICING_COMPANY_ID (se richiesto)
+ *
+ * Con INVOICING_PROVIDER=local (sviluppo e test) nessuna chiamata esce: le fatture
+ * restano bozze nel gestionale. Lato server il servizio si crea da functions/lib/invoicing.ts.
  */
 
-export type InvoicingProvider = 'fattureincloud' | 'aruba' | 'teamsystem' | 'custom';
+export type InvoicingProvider = 'fattureincloud' | 'aruba' | 'teamsystem' | 'custom' | 'local';
 
 export interface InvoicingConfig {
   provider: InvoicingProvider;
@@ -40,6 +43,9 @@ export interface InvoiceData {
   clientCity?: string;
   clientPostalCode?: string;
   clientCountry?: string;
+  clientProvince?: string;
+  clientRecipientCode?: string; // Codice destinatario SDI (7 caratteri)
+  clientPec?: string;
   items: InvoiceItem[];
   paymentMethod?: string;
   paymentTerms?: number; // Giorni
@@ -97,7 +103,7 @@ export class FattureInCloudService implements InvoicingService {
     });
 
     if (!response.ok) {
-      const error = await response.json();
+      const error = await response.json() as { message?: string };
       throw new Error(error.message || 'Fatture in Cloud API error');
     }
 
@@ -116,6 +122,9 @@ export class FattureInCloudService implements InvoicingService {
           address_city: data.clientCity,
           address_postal_code: data.clientPostalCode,
           address_country: data.clientCountry,
+          address_province: data.clientProvince,
+          ei_code: data.clientRecipientCode,
+          certified_email: data.clientPec,
         },
         items_list: data.items.map(item => ({
           product_id: null,
@@ -277,6 +286,81 @@ export class CustomInvoicingService implements InvoicingService {
   }
 }
 
+/**
+ * Provider locale (sviluppo e test)
+ *
+ * Nessuna chiamata esterna: la fattura è una bozza numerata con il riferimento
+ * interno (internalReference) e i totali calcolati localmente.
+ */
+export class LocalInvoicingService implements InvoicingService {
+  private invoices = new Map<string, Invoice>();
+
+  async createInvoice(data: InvoiceData): Promise<Invoice> {
+    const totals = calculateInvoiceTotals(data.items);
+    const date = new Date().toISOString().split('T')[0];
+    const dueDate = new Date(Date.now() + (data.paymentTerms ?? 30) * 86400000).toISOString().split('T')[0];
+
+    const invoice: Invoice = {
+      id: `local-${crypto.randomUUID()}`,
+      number: data.internalReference || '',
+      date,
+      dueDate,
+      status: 'draft',
+      ...totals,
+      clientName: data.clientName,
+    };
+    this.invoices.set(invoice.id, invoice);
+    return invoice;
+  }
+
+  async getInvoice(invoiceId: string): Promise<Invoice> {
+    const invoice = this.invoices.get(invoiceId);
+    if (!invoice) throw new Error('Fattura non trovata');
+    return invoice;
+  }
+
+  async listInvoices(): Promise<Invoice[]> {
+    return [...this.invoices.values()];
+  }
+
+  async sendInvoice(): Promise<boolean> {
+    return true;
+  }
+
+  async downloadPdf(): Promise<Blob> {
+    throw new Error('PDF non disponibile con il provider locale');
+  }
+
+  async markAsPaid(invoiceId: string): Promise<Invoice> {
+    const invoice = { ...await this.getInvoice(invoiceId), status: 'paid' as const };
+    this.invoices.set(invoiceId, invoice);
+    return invoice;
+  }
+
+  async cancelInvoice(invoiceId: string): Promise<Invoice> {
+    const invoice = { ...(this.invoices.get(invoiceId) || { id: invoiceId } as Invoice), status: 'cancelled' as const };
+    this.invoices.set(invoiceId, invoice);
+    return invoice;
+  }
+}
+
+/**
+ * Crea il servizio per la configurazione indicata (null se il provider non è supportato)
+ */
+export function createInvoicingServiceFromConfig(config: InvoicingConfig): InvoicingService | null {
+  switch (config.provider) {
+    case 'fattureincloud':
+      return new FattureInCloudService(config);
+    case 'custom':
+      return new CustomInvoicingService(config);
+    case 'local':
+      return new LocalInvoicingService();
+    default:
+      console.warn(`Invoicing provider '${config.provider}' not supported yet.`);
+      return null;
+  }
+}
+
 /**
  * Factory per creare il servizio di fatturazione appropriato
  */
@@ -287,28 +371,22 @@ export function createInvoicingService(): InvoicingService | null {
   const companyId = import.meta.env.VITE_INVOICING_COMPANY_ID;
   const baseUrl = import.meta.env.VITE_INVOICING_BASE_URL;
 
+  if (provider === 'local') {
+    return new LocalInvoicingService();
+  }
+
   if (!provider || !apiKey) {
     console.warn('Invoicing integration not configured. Set VITE_INVOICING_PROVIDER and VITE_INVOICING_API_KEY.');
     return null;
   }
 
-  const config: InvoicingConfig = {
+  return createInvoicingServiceFromConfig({
     provider,
     apiKey,
     apiSecret,
     companyId,
     baseUrl,
-  };
-
-  switch (provider) {
-    case 'fattureincloud':
-      return new FattureInCloudService(config);
-    case 'custom':
-      return new CustomInvoicingService(config);
-    default:
-      console.warn(`Invoicing provider '${provider}' not supported yet.`);
-      return null;
-  }
+  });
 }
 
 /**
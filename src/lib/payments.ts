@@ -0,0 +1,105 @@
+/**
+ * Incassi e crediti - Metodi di pagamento, ripartizione e fasce di anzianità
+ *
+ * Condiviso tra le Functions (registrazione incassi e report crediti) e il frontend.
+ * Importi in centesimi.
+ */
+
+export type PaymentMethod = 'bank_transfer' | 'cash' | 'card' | 'check' | 'other';
+
+export type AgeingBucket = '0-30' | '31-60' | '61-90' | '>90';
+
+export interface Payment {
+  id: number;
+  invoiceId: number | null;
+  registrationId: number | null;
+  amount: number;
+  paymentDate: string;
+  method: PaymentMethod;
+  reference: string | null;
+  notes: string | null;
+  createdAt: string;
+  // Dati di contesto per gli elenchi
+  invoiceNumber?: string | null;
+  customerName?: string | null;
+  studentName?: string | null;
+  courseTitle?: string | null;
+}
+
+// Voce aperta: fattura con residuo o iscrizione non ancora fatturata e non saldata
+export interface ReceivableItem {
+  kind: 'invoice' | 'registration';
+  id: number;
+  label: string;
+  date: string;
+  companyId: number | null;
+  companyName: string | null;
+  agentId: number | null;
+  agentName: string | null;
+  totalAmount: number;
+  paidAmount: number;
+  balance: number;
+  days: number;
+  bucket: AgeingBucket;
+}
+
+export interface ReceivablesGroup {
+  id: number | null;
+  name: string;
+  buckets: Record<AgeingBucket, number>;
+  total: number;
+}
+
+export interface ReceivablesReport {
+  byCompany: ReceivablesGroup[];
+  byAgent: ReceivablesGroup[];
+  totals: Record<AgeingBucket, number> & { total: number };
+  items: ReceivableItem[];
+}
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  bank_transfer: 'Bonifico',
+  cash: 'Contanti',
+  card: 'Carta',
+  check: 'Assegno',
+  other: 'Altro',
+};
+
+export const AGEING_BUCKETS: AgeingBucket[] = ['0-30', '31-60', '61-90', '>90'];
+
+export function ageingBucket(days: number): AgeingBucket {
+  if (days <= 30) return '0-30';
+  if (days <= 60) return '31-60';
+  if (days <= 90) return '61-90';
+  return '>90';
+}
+
+/**
+ * Giorni trascorsi dalla data del documento a oggi (mai negativi)
+ */
+export function daysSince(date: string, today: Date = new Date()): number {
+  const from = new Date(`${date.substring(0, 10)}T00:00:00Z`).getTime();
+  const to = Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate());
+  return Math.max(0, Math.floor((to - from) / 86400000));
+}
+
+/**
+ * Ripartisce l'incassato sulle righe nell'ordine indicato: ogni riga è saldata
+ * prima di passare alla successiva. Restituisce l'importo coperto per ogni riga.
+ */
+export function allocatePayments(lineAmounts: number[], paidAmount: number): number[] {
+  let remaining = paidAmount;
+  return lineAmounts.map(amount => {
+    const covered = Math.max(0, Math.min(amount, remaining));
+    remaining -= covered;
+    return covered;
+  });
+}
+
+/**
+ * Stato di incasso dato il dovuto e l'incassato ('none' se non è entrato nulla)
+ */
+export function paymentStatus(dueAmount: number, paidAmount: number): 'paid' | 'partial' | 'none' {
+  if (paidAmount <= 0) return 'none';
+  return paidAmount >= dueAmount ? 'paid' : 'partial';
+}
@@ -1,5 +1,10 @@
 import jsPDF from 'jspdf';
 import 'jspdf-autotable';
+import { drawPdfFooter, drawPdfLetterhead, hexToRgb } from './branding';
+import { brandingSheetRows, loadDocumentBranding } from './export';
+import { quoteLineAmount } from './quotes';
+import type { QuoteDetail } from './quotes';
+import type { AttendanceOtpCheck } from '../types';
 
 interface StudentAttendance {
   firstName: string;
@@ -9,6 +14,7 @@ interface StudentAttendance {
   present: boolean;
   hoursAttended: number;
   sessionHours: number;
+  signatureHash?: string | null;
 }
 
 interface ExportData {
@@ -20,14 +26,25 @@ interface ExportData {
   students: StudentAttendance[];
   totalHours: number;
   totalSessionHours: number;
+  // Sessioni FAD sincrone: verifiche con codice OTP inviate agli iscritti
+  otpChecks?: AttendanceOtpCheck[];
+  // Registro chiuso: hash della catena delle presenze, chi e quando l'ha chiuso
+  register?: { closedAt: string; closedBy: string | null; hash: string };
 }
 
-export const exportAttendancePDF = (data: ExportData) => {
+const formatRegisterClosure = (register: NonNullable<ExportData['register']>) =>
+  `Registro chiuso il ${new Date(register.closedAt).toLocaleString('it-IT')}${register.closedBy ? ` da ${register.closedBy}` : ''}`;
+
+const formatOtpTime = (value: string | null) =>
+  value ? new Date(value).toLocaleTimeString('it-IT', { hour: '2-digit', minute: '2-digit', second: '2-digit' }) : '-';
+
+const otpCheckLabel = (check: AttendanceOtpCheck) => check.sequence === 0 ? 'Inizio' : `Casuale ${check.sequence}`;
+
+export const exportAttendancePDF = async (data: ExportData) => {
+  const branding = await loadDocumentBranding();
   const doc = new jsPDF();
-  const pageWidth = doc.internal.pageSize.getWidth();
-  const pageHeight = doc.internal.pageSize.getHeight();
   const margin = 10;
-  let yPosition = margin;
+  let yPosition = drawPdfLetterhead(doc, branding, margin);
 
   // Intestazione
   doc.setFontSize(16);
@@ -60,9 +77,9 @@ export const exportAttendancePDF = (data: ExportData) => {
     head: [['Studente', 'Email', 'Azienda', 'Presente', 'Ore', 'Frequenza']],
     body: tableData,
     startY: yPosition,
-    margin: margin,
+    margin: { left: margin, right: margin, bottom: 14 },
     theme: 'grid',
-    headerStyles: { fillColor: [41, 128, 185], textColor: 255, fontStyle: 'bold' },
+    headerStyles: { fillColor: hexToRgb(branding.primaryColor), textColor: 255, fontStyle: 'bold' },
     alternateRowStyles: { fillColor: [240, 240, 240] },
     columnStyles: {
       3: { halign: 'center' },
@@ -83,12 +100,51 @@ export const exportAttendancePDF = (data: ExportData) => {
   doc.text(`Frequenza media: ${frequencyPercent}%`, margin, yPosition);
   yPosition += 10;
 
+  // Verifiche OTP: orari di invio e conferma con l'hash della prova
+  if (data.otpChecks?.length) {
+    doc.setFontSize(11);
+    doc.text('Verifiche presenza con codice OTP (FAD sincrona)', margin, yPosition);
+    yPosition += 3;
+
+    (doc as any).autoTable({
+      head: [['Studente', 'Verifica', 'Inviato', 'Confermato', 'IP', 'Prova (SHA-256)']],
+      body: data.otpChecks.map(check => [
+        `${check.firstName} ${check.lastName}`,
+        otpCheckLabel(check),
+        formatOtpTime(check.sentAt),
+        check.verifiedAt ? formatOtpTime(check.verifiedAt) : 'Non confermato',
+        check.verifiedIp || '-',
+        check.proofHash ? `${check.proofHash.slice(0, 16)}…` : '-',
+      ]),
+      startY: yPosition,
+      margin: { left: margin, right: margin, bottom: 14 },
+      theme: 'grid',
+      styles: { fontSize: 8 },
+      headerStyles: { fillColor: hexToRgb(branding.primaryColor), textColor: 255, fontStyle: 'bold' },
+    });
+
+    yPosition = (doc as any).lastAutoTable.finalY + 10;
+  }
+
   // Firma
   doc.setFontSize(9);
   doc.text('Firma Docente: ___________________', margin, yPosition);
   yPosition += 5;
   doc.text(`Data: ${new Date().toLocaleDateString('it-IT')}`, margin, yPosition);
 
+  // Sigillo del registro chiuso: l'hash permette di verificare che le presenze non siano cambiate
+  if (data.register) {
+    yPosition += 8;
+    doc.setFont('helvetica', 'bold');
+    doc.text(formatRegisterClosure(data.register), margin, yPosition);
+    doc.setFont('helvetica', 'normal');
+    yPosition += 5;
+    doc.setFontSize(8);
+    doc.text(`Hash SHA-256 del registro: ${data.register.hash}`, margin, yPosition);
+  }
+
+  drawPdfFooter(doc, branding, margin);
+
   // Salva il PDF
   const filename = `Registro_Presenze_${data.courseName.replace(/\s+/g, '_')}_${new Date().toISOString().split('T')[0]}.pdf`;
   doc.save(filename);
@@ -96,8 +152,10 @@ export const exportAttendancePDF = (data: ExportData) => {
 
 export const exportAttendanceExcel = async (data: ExportData) => {
   const { default: XLSX } = await import('xlsx');
+  const branding = await loadDocumentBranding();
 
   const wsData = [
+    ...brandingSheetRows(branding),
     ['REGISTRO PRESENZE'],
     [],
     ['Corso:', data.courseName],
@@ -119,13 +177,127 @@ export const exportAttendanceExcel = async (data: ExportData) => {
     ['Riepilogo'],
     ['Presenti:', `${data.students.filter(s => s.present).length}/${data.students.length}`],
     ['Ore totali:', `${data.totalHours}/${data.totalSessionHours}`],
-    ['Frequenza media:', `${data.totalSessionHours > 0 ? Math.round((data.totalHours / data.totalSessionHours) * 100) : 0}%`]
+    ['Frequenza media:', `${data.totalSessionHours > 0 ? Math.round((data.totalHours / data.totalSessionHours) * 100) : 0}%`],
+    ...(data.register
+      ? [[], [formatRegisterClosure(data.register)], ['Hash SHA-256 del registro:', data.register.hash]]
+      : [])
   ];
 
   const ws = XLSX.utils.aoa_to_sheet(wsData);
   const wb = XLSX.utils.book_new();
   XLSX.utils.book_append_sheet(wb, ws, 'Presenze');
 
+  if (data.otpChecks?.length) {
+    const otpData = [
+      ['VERIFICHE PRESENZA CON CODICE OTP (FAD SINCRONA)'],
+      ['Sessione:', data.sessionInfo],
+      [],
+      ['Studente', 'Verifica', 'Pianificata', 'Inviata', 'Confermata', 'IP', 'Prova (SHA-256)'],
+      ...data.otpChecks.map(check => [
+        `${check.firstName} ${check.lastName}`,
+        otpCheckLabel(check),
+        formatOtpTime(check.scheduledAt),
+        formatOtpTime(check.sentAt),
+        check.verifiedAt ? formatOtpTime(check.verifiedAt) : 'Non confermata',
+        check.verifiedIp || '',
+        check.proofHash || '',
+      ]),
+      [],
+      ['Firma complessiva (hash delle prove)'],
+      ...data.students
+        .filter(s => s.signatureHash)
+        .map(s => [`${s.firstName} ${s.lastName}`, s.signatureHash]),
+    ];
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(otpData), 'Verifiche OTP');
+  }
+
   const filename = `Registro_Presenze_${data.courseName.replace(/\s+/g, '_')}_${new Date().toISOString().split('T')[0]}.xlsx`;
   XLSX.writeFile(wb, filename);
 };
+
+const formatEuro = (cents: number) =>
+  (cents / 100).toLocaleString('it-IT', { style: 'currency', currency: 'EUR' });
+
+const formatDay = (date: string) => new Date(date).toLocaleDateString('it-IT');
+
+/**
+ * Preventivo su carta intestata: destinatario, corsi con lavoratori e prezzi, totale e validità
+ */
+export const exportQuotePDF = async (quote: QuoteDetail) => {
+  const branding = await loadDocumentBranding();
+  const doc = new jsPDF();
+  const margin = 10;
+  const pageWidth = doc.internal.pageSize.getWidth();
+  let yPosition = drawPdfLetterhead(doc, branding, margin);
+
+  doc.setFontSize(16);
+  doc.text(`PREVENTIVO N. ${quote.number}`, margin, yPosition);
+  doc.setFontSize(10);
+  doc.text(`Data: ${formatDay(quote.date)}`, pageWidth - margin, yPosition, { align: 'right' });
+  yPosition += 10;
+
+  // Destinatario
+  doc.setFont('helvetica', 'bold');
+  doc.text('Spett.le', margin, yPosition);
+  doc.setFont('helvetica', 'normal');
+  yPosition += 5;
+  const recipient = [
+    quote.companyName,
+    quote.companyAddress,
+    quote.companyCity,
+    quote.companyVatNumber ? `P.IVA ${quote.companyVatNumber}` : null,
+  ].filter(Boolean) as string[];
+  for (const line of recipient) {
+    doc.text(line, margin, yPosition);
+    yPosition += 5;
+  }
+  yPosition += 4;
+
+  (doc as any).autoTable({
+    head: [['Corso', 'Edizione', 'Lavoratori', 'Prezzo unitario', 'Importo']],
+    body: quote.lines.map(line => [
+      line.description ? `${line.courseTitle}\n${line.description}` : line.courseTitle,
+      line.editionStartDate ? formatDay(line.editionStartDate) : 'Da definire',
+      line.workers,
+      formatEuro(line.unitPrice),
+      formatEuro(quoteLineAmount(line)),
+    ]),
+    startY: yPosition,
+    margin: { left: margin, right: margin, bottom: 14 },
+    theme: 'grid',
+    headerStyles: { fillColor: hexToRgb(branding.primaryColor), textColor: 255, fontStyle: 'bold' },
+    columnStyles: {
+      2: { halign: 'center' },
+      3: { halign: 'right' },
+      4: { halign: 'right' },
+    },
+  });
+
+  yPosition = (doc as any).lastAutoTable.finalY + 8;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.text(`Totale: ${formatEuro(quote.totalAmount)} + IVA`, pageWidth - margin, yPosition, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  yPosition += 8;
+
+  if (quote.validUntil) {
+    doc.text(`Offerta valida fino al ${formatDay(quote.validUntil)}.`, margin, yPosition);
+    yPosition += 6;
+  }
+
+  if (quote.notes) {
+    const notes = doc.splitTextToSize(quote.notes, pageWidth - margin * 2);
+    doc.text(notes, margin, yPosition);
+    yPosition += notes.length * 5 + 4;
+  }
+
+  yPosition += 6;
+  doc.setFontSize(9);
+  doc.text('Per accettazione (timbro e firma): ___________________________', margin, yPosition);
+
+  drawPdfFooter(doc, branding, margin);
+
+  doc.save(`Preventivo_${quote.number.replace(/\//g, '-')}_${quote.companyName.replace(/\s+/g, '_')}.pdf`);
+};
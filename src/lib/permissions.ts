@@ -0,0 +1,80 @@
+/**
+ * Matrice permessi (risorsa × azione × ruolo)
+ *
+ * Unica fonte di verità condivisa tra le Functions (middleware API) e il frontend
+ * (visibilità di menu e pulsanti). Il ruolo 'admin' comprende anche l'admin del cliente.
+ */
+
+export type Role = 'admin' | 'user' | 'readonly';
+
+export type Action = 'read' | 'create' | 'update' | 'delete';
+
+export type Resource =
+  | 'dashboard'
+  | 'reports'
+  | 'companies'
+  | 'students'
+  | 'courses'
+  | 'editions'
+  | 'sessions'
+  | 'registrations'
+  | 'attendances'
+  | 'certificates'
+  | 'instructors'
+  | 'agents'
+  | 'commissions'
+  | 'invoices'
+  | 'payments'
+  | 'quotes'
+  | 'imports'
+  | 'email'
+  | 'settings'
+  | 'users'
+  | 'audit';
+
+const ALL: Role[] = ['admin', 'user', 'readonly'];
+const STAFF: Role[] = ['admin', 'user'];
+const ADMIN: Role[] = ['admin'];
+
+// Dati anagrafici: lo staff crea e modifica, solo l'admin elimina
+const MASTER_DATA = { read: ALL, create: STAFF, update: STAFF, delete: ADMIN };
+// Dati operativi (iscrizioni, presenze, sessioni): lo staff può anche eliminare
+const OPERATIONAL_DATA = { read: ALL, create: STAFF, update: STAFF, delete: STAFF };
+
+export const PERMISSIONS: Record<Resource, Record<Action, Role[]>> = {
+  dashboard: { read: ALL, create: [], update: [], delete: [] },
+  reports: { read: ALL, create: [], update: [], delete: [] },
+  companies: MASTER_DATA,
+  students: MASTER_DATA,
+  courses: MASTER_DATA,
+  editions: MASTER_DATA,
+  instructors: MASTER_DATA,
+  agents: MASTER_DATA,
+  // Provvigioni: lo staff consulta e prepara gli estratti conto, solo l'admin imposta le regole e liquida
+  commissions: { read: STAFF, create: STAFF, update: ADMIN, delete: ADMIN },
+  // Fatturazione: lo staff genera le bozze, solo l'admin le annulla
+  invoices: { read: STAFF, create: STAFF, update: ADMIN, delete: ADMIN },
+  // Incassi e crediti: lo staff registra gli incassi, solo l'admin li elimina
+  payments: { read: STAFF, create: STAFF, update: ADMIN, delete: ADMIN },
+  // Preventivi: lo staff commerciale li prepara e ne aggiorna lo stato, solo l'admin elimina
+  quotes: { read: STAFF, create: STAFF, update: STAFF, delete: ADMIN },
+  sessions: OPERATIONAL_DATA,
+  registrations: OPERATIONAL_DATA,
+  attendances: OPERATIONAL_DATA,
+  certificates: { read: ALL, create: STAFF, update: STAFF, delete: ADMIN },
+  imports: { read: STAFF, create: STAFF, update: STAFF, delete: ADMIN },
+  email: { read: STAFF, create: STAFF, update: [], delete: [] },
+  settings: { read: ADMIN, create: ADMIN, update: ADMIN, delete: ADMIN },
+  // Gli handler /api/users richiedono inoltre l'admin del cliente (isClientAdmin)
+  users: { read: ADMIN, create: ADMIN, update: ADMIN, delete: ADMIN },
+  // Storico modifiche: scritto solo dagli handler, mai via API
+  audit: { read: STAFF, create: [], update: [], delete: [] },
+};
+
+/**
+ * Verifica se un ruolo può eseguire un'azione su una risorsa
+ */
+export function can(role: string | undefined | null, resource: Resource, action: Action): boolean {
+  if (!role) return false;
+  return PERMISSIONS[resource]?.[action]?.includes(role as Role) ?? false;
+}
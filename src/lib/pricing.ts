@@ -0,0 +1,22 @@
+/**
+ * Listino applicato alle iscrizioni
+ *
+ * Condiviso tra le Functions (che calcolano priceApplied) e il frontend (che mostra
+ * quale regola ha prodotto il prezzo).
+ */
+
+// In ordine di priorità: il prezzo manuale vince su tutto, il prezzo del corso è l'ultima risorsa.
+// 'quote' è il prezzo bloccato da un preventivo accettato (vedi functions/lib/quotes.ts)
+export const PRICE_SOURCES = ['manual', 'quote', 'company', 'agent', 'edition_custom', 'edition', 'course'] as const;
+
+export type PriceSource = typeof PRICE_SOURCES[number];
+
+export const PRICE_SOURCE_LABELS: Record<PriceSource, string> = {
+  manual: 'Prezzo manuale',
+  quote: 'Prezzo da preventivo',
+  company: 'Listino azienda',
+  agent: 'Listino agente',
+  edition_custom: 'Prezzo personalizzato edizione',
+  edition: 'Prezzo edizione',
+  course: 'Prezzo di listino del corso',
+};
@@ -0,0 +1,94 @@
+/**
+ * Preventivi - Stati, transizioni e totali
+ *
+ * Condiviso tra le Functions (salvataggio e conversione in iscrizioni) e il frontend.
+ * Importi in centesimi, IVA esclusa.
+ */
+
+export type QuoteStatus = 'draft' | 'sent' | 'accepted' | 'rejected' | 'expired' | 'cancelled';
+
+export interface QuoteLine {
+  id: number;
+  courseId: number;
+  courseTitle: string;
+  courseEditionId: number | null;
+  editionStartDate: string | null;
+  description: string | null;
+  workers: number;
+  unitPrice: number;
+  convertedCount: number; // Iscrizioni già create da questa riga
+}
+
+export interface Quote {
+  id: number;
+  companyId: number;
+  companyName: string;
+  number: string;
+  date: string;
+  validUntil: string | null;
+  status: QuoteStatus;
+  notes: string | null;
+  totalAmount: number;
+  sentAt: string | null;
+  respondedAt: string | null;
+  linesCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface QuoteDetail extends Quote {
+  companyVatNumber: string | null;
+  companyAddress: string | null;
+  companyCity: string | null;
+  companyEmail: string | null;
+  lines: QuoteLine[];
+}
+
+export interface QuoteLineInput {
+  courseId: number;
+  courseEditionId?: number | null;
+  description?: string | null;
+  workers: number;
+  unitPrice?: number | null; // Se assente si usa il prezzo suggerito
+}
+
+export interface QuoteConversionResult {
+  lineId: number;
+  studentId: number;
+  registrationId?: number;
+  error?: string;
+  code?: string;
+}
+
+export const QUOTE_STATUS_LABELS: Record<QuoteStatus, string> = {
+  draft: 'Bozza',
+  sent: 'Inviato',
+  accepted: 'Accettato',
+  rejected: 'Rifiutato',
+  expired: 'Scaduto',
+  cancelled: 'Annullato',
+};
+
+// Cambi di stato consentiti a mano (la scadenza è automatica, l'annullamento passa dalla DELETE)
+export const QUOTE_TRANSITIONS: Record<QuoteStatus, QuoteStatus[]> = {
+  draft: ['sent'],
+  sent: ['accepted', 'rejected', 'draft'],
+  accepted: [],
+  rejected: ['draft'],
+  expired: ['draft'],
+  cancelled: [],
+};
+
+export const DEFAULT_QUOTE_VALIDITY_DAYS = 30;
+
+export function canTransitionQuote(from: QuoteStatus, to: QuoteStatus): boolean {
+  return QUOTE_TRANSITIONS[from].includes(to);
+}
+
+export function quoteLineAmount(line: Pick<QuoteLine, 'workers' | 'unitPrice'>): number {
+  return line.workers * line.unitPrice;
+}
+
+export function quoteTotal(lines: Pick<QuoteLine, 'workers' | 'unitPrice'>[]): number {
+  return lines.reduce((sum, line) => sum + quoteLineAmount(line), 0);
+}
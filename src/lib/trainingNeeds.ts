@@ -0,0 +1,140 @@
+/**
+ * Fabbisogno formativo (D.Lgs. 81/08, Accordo Stato-Regioni 21/12/2011)
+ *
+ * Regole che, da mansione e livello di rischio del lavoratore (o classe di rischio
+ * dell'azienda, anche ricavata dal codice ATECO), determinano i corsi obbligatori.
+ * Un obbligo è coperto da un corso del catalogo della tipologia indicata (courses.type)
+ * e di durata almeno pari alle ore minime. Condiviso tra le Functions e il frontend.
+ */
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export type JobRole = 'operaio' | 'impiegato' | 'dirigente' | 'preposto' | 'altro';
+
+export type TrainingRequirementCode =
+  | 'generale'
+  | 'specifica_low'
+  | 'specifica_medium'
+  | 'specifica_high'
+  | 'preposto'
+  | 'dirigente'
+  | 'antincendio_low'
+  | 'antincendio_medium'
+  | 'antincendio_high'
+  | 'primo_soccorso_ab'
+  | 'primo_soccorso_c';
+
+export type TrainingNeedStatus = 'valid' | 'expiring' | 'expired' | 'missing' | 'planned';
+
+export interface TrainingRequirement {
+  code: TrainingRequirementCode;
+  label: string;
+  courseType: string;     // courses.type che copre l'obbligo
+  minHours: number;
+  validityMonths: number | null; // Periodicità dell'aggiornamento se il corso non la indica; null = permanente
+}
+
+export interface TrainingWorkerProfile {
+  jobRole: string | null;
+  riskLevel: string | null;
+  fireWarden: boolean;
+  firstAider: boolean;
+}
+
+export interface TrainingNeed {
+  requirement: TrainingRequirementCode;
+  label: string;
+  status: TrainingNeedStatus;
+  courseTitle: string | null;   // Corso che copre (o coprirà) l'obbligo
+  expiryDate: string | null;
+  daysUntilExpiration: number | null;
+}
+
+export interface WorkerTrainingNeeds {
+  studentId: number;
+  studentName: string;
+  jobRole: string | null;
+  riskLevel: RiskLevel;
+  needs: TrainingNeed[];
+}
+
+export interface CompanyTrainingNeeds {
+  companyId: number;
+  companyName: string;
+  riskLevel: RiskLevel;             // Classe di rischio dell'azienda (dichiarata o da ATECO)
+  workers: WorkerTrainingNeeds[];
+  totals: Record<TrainingNeedStatus, number>;
+}
+
+export const TRAINING_REQUIREMENTS: Record<TrainingRequirementCode, TrainingRequirement> = {
+  generale: { code: 'generale', label: 'Formazione Generale (4h)', courseType: 'base', minHours: 4, validityMonths: null },
+  specifica_low: { code: 'specifica_low', label: 'Formazione Specifica rischio basso (4h)', courseType: 'specifica', minHours: 4, validityMonths: 60 },
+  specifica_medium: { code: 'specifica_medium', label: 'Formazione Specifica rischio medio (8h)', courseType: 'specifica', minHours: 8, validityMonths: 60 },
+  specifica_high: { code: 'specifica_high', label: 'Formazione Specifica rischio alto (12h)', courseType: 'specifica', minHours: 12, validityMonths: 60 },
+  preposto: { code: 'preposto', label: 'Formazione Preposti (8h)', courseType: 'preposti', minHours: 8, validityMonths: 60 },
+  dirigente: { code: 'dirigente', label: 'Formazione Dirigenti (16h)', courseType: 'dirigenti', minHours: 16, validityMonths: 60 },
+  antincendio_low: { code: 'antincendio_low', label: 'Antincendio livello 1 (4h)', courseType: 'antincendio', minHours: 4, validityMonths: 60 },
+  antincendio_medium: { code: 'antincendio_medium', label: 'Antincendio livello 2 (8h)', courseType: 'antincendio', minHours: 8, validityMonths: 60 },
+  antincendio_high: { code: 'antincendio_high', label: 'Antincendio livello 3 (16h)', courseType: 'antincendio', minHours: 16, validityMonths: 60 },
+  primo_soccorso_ab: { code: 'primo_soccorso_ab', label: 'Primo Soccorso gruppo A (16h)', courseType: 'primo_soccorso', minHours: 16, validityMonths: 36 },
+  primo_soccorso_c: { code: 'primo_soccorso_c', label: 'Primo Soccorso gruppi B/C (12h)', courseType: 'primo_soccorso', minHours: 12, validityMonths: 36 },
+};
+
+export const TRAINING_NEED_STATUS_LABELS: Record<TrainingNeedStatus, string> = {
+  valid: 'In regola',
+  expiring: 'In scadenza',
+  expired: 'Scaduto',
+  missing: 'Mancante',
+  planned: 'Iscritto',
+};
+
+// Giorni prima della scadenza da cui un attestato è "in scadenza"
+export const EXPIRING_WITHIN_DAYS = 90;
+
+const RISK_ORDER: RiskLevel[] = ['low', 'medium', 'high'];
+
+export function highestRisk(...levels: (string | null | undefined)[]): RiskLevel {
+  return levels.reduce<RiskLevel>((max, level) => {
+    const index = RISK_ORDER.indexOf(level as RiskLevel);
+    return index > RISK_ORDER.indexOf(max) ? (level as RiskLevel) : max;
+  }, 'low');
+}
+
+/**
+ * Rischio su cui si calcola la formazione del lavoratore: il più alto tra quello
+ * indicato sul lavoratore e la classe dell'azienda. Gli impiegati seguono solo il
+ * proprio livello, perché in ufficio non sono esposti ai rischi del settore.
+ */
+export function workerRiskLevel(
+  worker: Pick<TrainingWorkerProfile, 'jobRole' | 'riskLevel'>,
+  companyRisk: RiskLevel
+): RiskLevel {
+  if (worker.jobRole === 'impiegato') return highestRisk(worker.riskLevel);
+  return highestRisk(worker.riskLevel, companyRisk);
+}
+
+/**
+ * Obblighi formativi del lavoratore:
+ * - tutti: generale + specifica per il livello di rischio (i dirigenti fanno il corso dirigenti al loro posto)
+ * - preposti: anche il corso preposti
+ * - addetti antincendio e primo soccorso: il corso del livello corrispondente al rischio
+ */
+export function requiredTrainings(worker: TrainingWorkerProfile, risk: RiskLevel): TrainingRequirementCode[] {
+  const required: TrainingRequirementCode[] = worker.jobRole === 'dirigente'
+    ? ['dirigente']
+    : ['generale', `specifica_${risk}`];
+
+  if (worker.jobRole === 'preposto') required.push('preposto');
+  if (worker.fireWarden) required.push(`antincendio_${risk}`);
+  if (worker.firstAider) required.push(risk === 'high' ? 'primo_soccorso_ab' : 'primo_soccorso_c');
+
+  return required;
+}
+
+export function courseCoversRequirement(
+  course: { type: string | null; durationHours: number },
+  requirement: TrainingRequirementCode
+): boolean {
+  const { courseType, minHours } = TRAINING_REQUIREMENTS[requirement];
+  return course.type === courseType && course.durationHours >= minHours;
+}
@@ -7,6 +7,7 @@ import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell, EmptySta
 import { Badge } from '../components/ui/Badge';
 import { Modal } from '../components/ui/Modal';
 import { Input } from '../components/ui/Input';
+import { AgentCommissions } from '../components/AgentCommissions';
 import {
   ArrowLeftIcon,
   UserGroupIcon,
@@ -648,6 +649,9 @@ export default function AgentDetail() {
             )}
           </CardContent>
         </Card>
+
+        {/* Provvigioni */}
+        <AgentCommissions agentId={agent.id} agentName={agent.name} />
       </div>
 
       {/* Modal Modifica Agente */}
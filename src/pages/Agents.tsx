@@ -7,6 +7,7 @@ import { Card, CardContent } from '../components/ui/Card';
 import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell, EmptyState } from '../components/ui/Table';
 import { Modal, ConfirmDialog } from '../components/ui/Modal';
 import { agentsApi } from '../lib/api';
+import { usePermissions } from '../hooks/usePermissions';
 import toast from 'react-hot-toast';
 import {
   PlusIcon,
@@ -52,6 +53,7 @@ interface AgentDetail extends Agent {
 }
 
 export default function Agents() {
+  const { can } = usePermissions();
   const navigate = useNavigate();
   const [agents, setAgents] = useState<Agent[]>([]);
   const [loading, setLoading] = useState(true);
@@ -196,14 +198,16 @@ export default function Agents() {
               <h1 className="text-2xl font-bold text-gray-900">{selectedAgent.name}</h1>
               <p className="text-gray-500">Dettaglio Agente Commerciale</p>
             </div>
-            <Button
-              variant="outline"
-              onClick={() => openEditModal(selectedAgent)}
-              className="flex items-center gap-2"
-            >
-              <PencilIcon className="w-4 h-4" />
-              Modifica
-            </Button>
+            {can('agents', 'update') && (
+              <Button
+                variant="outline"
+                onClick={() => openEditModal(selectedAgent)}
+                className="flex items-center gap-2"
+              >
+                <PencilIcon className="w-4 h-4" />
+                Modifica
+              </Button>
+            )}
           </div>
 
           {/* Stats Cards */}
@@ -455,13 +459,15 @@ export default function Agents() {
               <ArrowDownTrayIcon className="w-4 h-4" />
               Esporta
             </Button>
-            <Button
-              onClick={() => { resetForm(); setShowModal(true); }}
-              className="flex items-center gap-2"
-            >
-              <PlusIcon className="w-4 h-4" />
-              Nuovo Agente
-            </Button>
+            {can('agents', 'create') && (
+              <Button
+                onClick={() => { resetForm(); setShowModal(true); }}
+                className="flex items-center gap-2"
+              >
+                <PlusIcon className="w-4 h-4" />
+                Nuovo Agente
+              </Button>
+            )}
           </div>
         </div>
 
@@ -563,24 +569,28 @@ export default function Agents() {
                         >
                           <EyeIcon className="w-4 h-4" />
                         </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => openEditModal(agent)}
-                          className="text-blue-600 hover:bg-blue-50"
-                          title="Modifica"
-                        >
-                          <PencilIcon className="w-4 h-4" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => openDeleteDialog(agent)}
-                          className="text-red-600 hover:bg-red-50"
-                          title="Elimina"
-                        >
-                          <TrashIcon className="w-4 h-4" />
-                        </Button>
+                        {can('agents', 'update') && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => openEditModal(agent)}
+                            className="text-blue-600 hover:bg-blue-50"
+                            title="Modifica"
+                          >
+                            <PencilIcon className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {can('agents', 'delete') && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => openDeleteDialog(agent)}
+                            className="text-red-600 hover:bg-red-50"
+                            title="Elimina"
+                          >
+                            <TrashIcon className="w-4 h-4" />
+                          </Button>
+                        )}
                       </div>
                     </TableCell>
                   </TableRow>
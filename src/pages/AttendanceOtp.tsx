@@ -0,0 +1,115 @@
+import { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import { attendanceOtpApi } from '../lib/api';
+import type { AttendanceOtpInfo, AttendanceOtpResult } from '../types';
+
+export default function AttendanceOtp() {
+  const { token } = useParams<{ token: string }>();
+  const [info, setInfo] = useState<AttendanceOtpInfo | null>(null);
+  const [code, setCode] = useState('');
+  const [result, setResult] = useState<AttendanceOtpResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!token) return;
+    attendanceOtpApi.getInfo(token)
+      .then(setInfo)
+      .catch((err) => setError(err.response?.data?.error || 'Impossibile aprire la verifica. Riprova più tardi.'))
+      .finally(() => setIsLoading(false));
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+
+    if (!/^\d{6}$/.test(code)) {
+      setError('Il codice è composto da 6 cifre');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      setResult(await attendanceOtpApi.verify(token, code));
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Verifica non riuscita. Riprova.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const formatTime = (value: string) => new Date(value).toLocaleTimeString('it-IT', { hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-6">
+        <div className="text-center">
+          <h2 className="text-2xl font-extrabold text-gray-900">Conferma Presenza</h2>
+          <p className="mt-2 text-sm text-gray-600">
+            Formazione in videoconferenza - D.Lgs. 81/08
+          </p>
+        </div>
+
+        <div className="bg-white py-8 px-4 shadow-lg rounded-xl sm:px-10 space-y-4">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+            </div>
+          ) : !info ? (
+            <div className="px-4 py-3 rounded-lg text-sm bg-red-50 border border-red-200 text-red-800">
+              {error}
+            </div>
+          ) : (
+            <>
+              <div className="text-sm">
+                <p className="font-semibold text-gray-900">{info.courseTitle}</p>
+                <p className="text-gray-500">
+                  {new Date(info.sessionDate).toLocaleDateString('it-IT')} • {info.startTime}-{info.endTime}
+                </p>
+              </div>
+
+              {result || info.verifiedAt ? (
+                <div className="px-4 py-3 rounded-lg text-sm font-medium bg-green-50 border border-green-200 text-green-800">
+                  ✓ Ciao {info.firstName}, presenza confermata alle {formatTime(result?.verifiedAt || info.verifiedAt!)}
+                  {result && ` (${result.verified} verifiche su ${result.planned} per questa sessione)`}
+                </div>
+              ) : (
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Codice ricevuto via email</label>
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      value={code}
+                      onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                      maxLength={6}
+                      autoComplete="one-time-code"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-center text-2xl tracking-widest"
+                    />
+                    {info.expiresAt && (
+                      <p className="text-xs text-gray-500 mt-1">Valido fino alle {formatTime(info.expiresAt)}</p>
+                    )}
+                  </div>
+                  {error && (
+                    <div className="px-4 py-3 rounded-lg text-sm bg-red-50 border border-red-200 text-red-800">
+                      {error}
+                    </div>
+                  )}
+                  <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="w-full py-2 px-4 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {isSubmitting ? 'Verifica...' : 'Conferma presenza'}
+                  </button>
+                </form>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
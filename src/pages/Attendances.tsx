@@ -3,9 +3,11 @@ import { Layout } from '../components/Layout';
 import { Button } from '../components/ui/Button';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/Card';
 import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell, EmptyState } from '../components/ui/Table';
-import { editionsApi, registrationsApi, coursesApi, studentsApi, companiesApi } from '../lib/api';
+import { Modal, ConfirmDialog } from '../components/ui/Modal';
+import { editionsApi, registrationsApi, coursesApi, studentsApi, companiesApi, attendanceOtpApi, attendanceRegisterApi } from '../lib/api';
 import { exportAttendancePDF, exportAttendanceExcel } from '../lib/pdfExport';
-	import type { CourseEdition, Registration, Course, Student, Attendance } from '../types';
+import { SessionCheckInQrModal } from '../components/SessionCheckInQrModal';
+	import type { CourseEdition, Registration, Course, Student, Attendance, AttendanceOtpCheck, AttendanceRegisterStatus, SessionDeliveryMode } from '../types';
 	import { useLocation } from 'react-router-dom';
 
 interface EditionSession {
@@ -17,6 +19,7 @@ interface EditionSession {
   hours: number;
   location?: string;
   notes?: string;
+  deliveryMode?: SessionDeliveryMode;
 }
 
 	interface StudentAttendance {
@@ -33,6 +36,7 @@ interface EditionSession {
 	  signInTime?: string;
 	  signOutTime?: string;
 	  signatureMethod?: 'manual' | 'otp' | 'qr_code';
+	  signatureHash?: string | null;
 	  // Stato iscrizione per bocciatura
 	  registrationStatus: 'confirmed' | 'completed' | 'failed';
 	}
@@ -55,6 +59,12 @@ interface EditionSession {
 	  const [isSaving, setIsSaving] = useState(false);
 	  const [error, setError] = useState<string | null>(null);
 	  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+	  const [isCheckInQrOpen, setIsCheckInQrOpen] = useState(false);
+	  const [registerStatus, setRegisterStatus] = useState<AttendanceRegisterStatus | null>(null);
+	  const [isCloseRegisterOpen, setIsCloseRegisterOpen] = useState(false);
+	  const [isReopenRegisterOpen, setIsReopenRegisterOpen] = useState(false);
+	  const [reopenReason, setReopenReason] = useState('');
+	  const [isRegisterSaving, setIsRegisterSaving] = useState(false);
 	
 	  // Fetch editions and courses
 	  const fetchDropdownData = useCallback(async () => {
@@ -143,6 +153,7 @@ interface EditionSession {
 	          signInTime: existing?.signInTime,
 	          signOutTime: existing?.signOutTime,
 	          signatureMethod: existing?.signatureMethod as 'manual' | 'otp' | 'qr_code',
+	          signatureHash: existing?.signatureHash,
 	          registrationStatus: reg.status as 'confirmed' | 'completed' | 'failed',
 	        };
 	      });
@@ -162,16 +173,28 @@ interface EditionSession {
 	    fetchDropdownData();
 	  }, [fetchDropdownData]);
 	
+	  // Stato di chiusura del registro dell'edizione
+	  const fetchRegisterStatus = useCallback(async (editionId: number) => {
+	    try {
+	      setRegisterStatus(await attendanceRegisterApi.getStatus(editionId));
+	    } catch (err) {
+	      console.error('Error fetching register status:', err);
+	      setRegisterStatus(null);
+	    }
+	  }, []);
+
 	  // Load sessions when edition changes
 	  useEffect(() => {
 	    if (selectedEdition) {
 	      fetchSessions(selectedEdition);
+	      fetchRegisterStatus(selectedEdition);
 	    } else {
+	      setRegisterStatus(null);
 	      setSessions([]);
 	      setSelectedSession(undefined);
 	      setAttendances([]);
 	    }
-	  }, [selectedEdition, fetchSessions]);
+	  }, [selectedEdition, fetchSessions, fetchRegisterStatus]);
 	
 	  // Load attendances when session changes
 	  useEffect(() => {
@@ -372,6 +395,39 @@ interface EditionSession {
 	    }
 	  };
 
+  const handleCloseRegister = async () => {
+    if (!selectedEdition) return;
+    setIsRegisterSaving(true);
+    try {
+      const result = await attendanceRegisterApi.close(selectedEdition);
+      setMessage({ type: 'success', text: `Registro chiuso: ${result.attendanceCount} presenze sigillate` });
+      setTimeout(() => setMessage(null), 4000);
+      setIsCloseRegisterOpen(false);
+      await fetchRegisterStatus(selectedEdition);
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.response?.data?.error || 'Errore nella chiusura del registro' });
+    } finally {
+      setIsRegisterSaving(false);
+    }
+  };
+
+  const handleReopenRegister = async () => {
+    if (!selectedEdition) return;
+    setIsRegisterSaving(true);
+    try {
+      await attendanceRegisterApi.reopen(selectedEdition, reopenReason);
+      setMessage({ type: 'success', text: 'Registro riaperto: le presenze sono di nuovo modificabili' });
+      setTimeout(() => setMessage(null), 4000);
+      setIsReopenRegisterOpen(false);
+      setReopenReason('');
+      await fetchRegisterStatus(selectedEdition);
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.response?.data?.error || 'Errore nella riapertura del registro' });
+    } finally {
+      setIsRegisterSaving(false);
+    }
+  };
+
   const getEditionInfo = (editionId: number) => {
     const edition = editions.find(e => e.id === editionId);
     if (!edition) return 'Edizione';
@@ -386,7 +442,19 @@ interface EditionSession {
     return `${date} • ${session.startTime}-${session.endTime}`;
   };
 
-  const handleExportPDF = () => {
+  // Verifiche OTP della sessione FAD, riportate nel registro esportato
+  const loadOtpChecks = async (): Promise<AttendanceOtpCheck[] | undefined> => {
+    if (!selectedSession || !isFadSession) return undefined;
+    try {
+      return await attendanceOtpApi.getChecks(selectedSession);
+    } catch (err) {
+      console.error('Error fetching OTP checks:', err);
+      setMessage({ type: 'error', text: 'Verifiche OTP non disponibili: il registro viene esportato senza' });
+      return undefined;
+    }
+  };
+
+  const handleExportPDF = async () => {
     if (!selectedEdition || !selectedSession) return;
     const edition = editions.find(e => e.id === selectedEdition);
     const course = courses.find(c => c.id === edition?.courseId);
@@ -395,7 +463,8 @@ interface EditionSession {
     const editionDate = edition.startDate ? new Date(edition.startDate).toLocaleDateString('it-IT') : '';
     const sessionDate = new Date(session.date).toLocaleDateString('it-IT');
     const sessionInfo = `${sessionDate} ${session.startTime}-${session.endTime}`;
-    exportAttendancePDF({
+    const otpChecks = await loadOtpChecks();
+    await exportAttendancePDF({
       courseName: course.title,
       editionDate,
       sessionInfo,
@@ -403,7 +472,9 @@ interface EditionSession {
       location: session.location || edition.location || 'Da compilare',
       students: attendances,
       totalHours,
-      totalSessionHours
+      totalSessionHours,
+      otpChecks,
+      register: registerSeal
     });
   };
 
@@ -416,6 +487,7 @@ interface EditionSession {
     const editionDate = edition.startDate ? new Date(edition.startDate).toLocaleDateString('it-IT') : '';
     const sessionDate = new Date(session.date).toLocaleDateString('it-IT');
     const sessionInfo = `${sessionDate} ${session.startTime}-${session.endTime}`;
+    const otpChecks = await loadOtpChecks();
     await exportAttendanceExcel({
       courseName: course.title,
       editionDate,
@@ -424,10 +496,17 @@ interface EditionSession {
       location: session.location || edition.location || 'Da compilare',
       students: attendances,
       totalHours,
-      totalSessionHours
+      totalSessionHours,
+      otpChecks,
+      register: registerSeal
     });
   };
 
+  const isFadSession = sessions.find(s => s.id === selectedSession)?.deliveryMode === 'fad_sync';
+  const isRegisterClosed = !!registerStatus?.closed;
+  const registerSeal = registerStatus?.closed && registerStatus.closedAt && registerStatus.hash
+    ? { closedAt: registerStatus.closedAt, closedBy: registerStatus.closedBy, hash: registerStatus.hash }
+    : undefined;
   const presentCount = attendances.filter(a => a.present).length;
   const totalCount = attendances.length;
   const totalHours = attendances.reduce((sum, a) => sum + a.hoursAttended, 0);
@@ -516,6 +595,7 @@ interface EditionSession {
                   <CardTitle>{getEditionInfo(selectedEdition)}</CardTitle>
                   <p className="text-sm text-gray-500 mt-1">
                     Sessione: {getSessionInfo(selectedSession)}
+                    {isFadSession && ' • FAD sincrona: presenze confermate con codice OTP via email'}
                   </p>
                   <div className="mt-2 flex gap-4 text-sm">
                     <span>Presenti: <strong>{presentCount}/{totalCount}</strong></span>
@@ -526,12 +606,26 @@ interface EditionSession {
                   </div>
                 </div>
                 <div className="flex gap-2 flex-wrap">
-                  <Button onClick={markAllPresent} variant="secondary" disabled={isSaving || attendances.length === 0}>
+                  {!isFadSession && !isRegisterClosed && (
+                    <Button onClick={() => setIsCheckInQrOpen(true)} variant="secondary">
+                      📱 QR Check-in
+                    </Button>
+                  )}
+                  <Button onClick={markAllPresent} variant="secondary" disabled={isSaving || isRegisterClosed || attendances.length === 0}>
                     ✅ Tutti Presenti
                   </Button>
-                  <Button onClick={markAllAbsent} variant="secondary" disabled={isSaving || attendances.length === 0}>
+                  <Button onClick={markAllAbsent} variant="secondary" disabled={isSaving || isRegisterClosed || attendances.length === 0}>
                     ❌ Tutti Assenti
                   </Button>
+                  {isRegisterClosed ? (
+                    <Button onClick={() => setIsReopenRegisterOpen(true)} variant="secondary">
+                      🔓 Riapri Registro
+                    </Button>
+                  ) : (
+                    <Button onClick={() => setIsCloseRegisterOpen(true)} variant="secondary">
+                      🔒 Chiudi Registro
+                    </Button>
+                  )}
                   <Button onClick={handleExportPDF} variant="secondary" disabled={attendances.length === 0}>
                     📄 Esporta PDF
                   </Button>
@@ -540,6 +634,26 @@ interface EditionSession {
                   </Button>
                 </div>
               </div>
+              {registerStatus?.closed && (
+                <div className={`mt-4 px-4 py-3 rounded-lg text-sm border ${
+                  registerStatus.verification && !registerStatus.verification.valid
+                    ? 'bg-red-50 border-red-200 text-red-800'
+                    : 'bg-blue-50 border-blue-200 text-blue-800'
+                }`}>
+                  <p className="font-medium">
+                    🔒 Registro chiuso il {new Date(registerStatus.closedAt!).toLocaleString('it-IT')}
+                    {registerStatus.closedBy && ` da ${registerStatus.closedBy}`}
+                  </p>
+                  <p className="font-mono text-xs break-all mt-1">SHA-256: {registerStatus.hash}</p>
+                  {registerStatus.verification && !registerStatus.verification.valid && (
+                    <p className="mt-1 font-medium">
+                      ⚠️ Le presenze non corrispondono più a quelle sigillate
+                      ({registerStatus.verification.actualCount}/{registerStatus.verification.expectedCount} righe,
+                      {' '}{registerStatus.verification.tamperedIds.length} alterate)
+                    </p>
+                  )}
+                </div>
+              )}
             </CardHeader>
             <CardContent className="p-0">
               {isLoading ? (
@@ -577,7 +691,7 @@ interface EditionSession {
 	                              ✗ Assente
 	                            </span>
 	                          )}
-	                          {att.signInTime && <div className="text-xs text-gray-500 mt-1">Entrata: {new Date(att.signInTime).toLocaleTimeString('it-IT')}</div>}
+	                          {att.signInTime && <div className="text-xs text-gray-500 mt-1">Entrata: {new Date(att.signInTime).toLocaleTimeString('it-IT')}{att.signatureMethod === 'qr_code' && ' (QR)'}{att.signatureMethod === 'otp' && ' (OTP)'}</div>}
 	                          {att.signOutTime && <div className="text-xs text-gray-500">Uscita: {new Date(att.signOutTime).toLocaleTimeString('it-IT')}</div>}
 	                        </TableCell>
 	                        <TableCell className="text-center">
@@ -603,7 +717,7 @@ interface EditionSession {
 	                            onClick={() => toggleAttendance(att.studentId, att.registrationId, att.sessionHours)}
 	                            variant={att.present ? 'danger' : 'primary'}
 	                            size="sm"
-	                            disabled={isSaving}
+	                            disabled={isSaving || isRegisterClosed}
 	                          >
 	                            {att.present ? 'Segna Assente' : 'Segna Presente'}
 	                          </Button>
@@ -628,6 +742,63 @@ interface EditionSession {
           </Card>
         )}
 
+        {selectedEdition && selectedSession && (
+          <SessionCheckInQrModal
+            isOpen={isCheckInQrOpen}
+            onClose={() => {
+              setIsCheckInQrOpen(false);
+              fetchAttendances(selectedEdition, selectedSession);
+            }}
+            sessionId={selectedSession}
+            sessionLabel={`${getEditionInfo(selectedEdition)} - ${getSessionInfo(selectedSession)}`}
+          />
+        )}
+
+        <ConfirmDialog
+          isOpen={isCloseRegisterOpen}
+          onClose={() => setIsCloseRegisterOpen(false)}
+          onConfirm={handleCloseRegister}
+          title="Chiudi registro presenze"
+          message="Le presenze di tutte le sessioni dell'edizione verranno sigillate con un hash e non saranno più modificabili. Per correggerle servirà riaprire il registro indicando il motivo."
+          confirmText="Chiudi registro"
+          variant="warning"
+          isLoading={isRegisterSaving}
+        />
+
+        <Modal
+          isOpen={isReopenRegisterOpen}
+          onClose={() => setIsReopenRegisterOpen(false)}
+          title="Riapri registro presenze"
+          description="La riapertura e il motivo restano nello storico del registro"
+          size="md"
+        >
+          <div className="space-y-4">
+            <textarea
+              value={reopenReason}
+              onChange={(e) => setReopenReason(e.target.value)}
+              placeholder="Motivo della riapertura (es. correzione ore di un allievo uscito in anticipo)"
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            {registerStatus && registerStatus.events.length > 0 && (
+              <div className="text-xs text-gray-500 space-y-1 max-h-40 overflow-y-auto">
+                {registerStatus.events.map(event => (
+                  <p key={event.id}>
+                    {new Date(event.createdAt).toLocaleString('it-IT')} • {event.action === 'close' ? 'Chiuso' : 'Riaperto'} da {event.userEmail}
+                    {event.reason && ` - ${event.reason}`}
+                  </p>
+                ))}
+              </div>
+            )}
+            <div className="flex justify-end gap-3">
+              <Button variant="secondary" onClick={() => setIsReopenRegisterOpen(false)}>Annulla</Button>
+              <Button onClick={handleReopenRegister} isLoading={isRegisterSaving} disabled={reopenReason.trim().length < 10}>
+                Riapri registro
+              </Button>
+            </div>
+          </div>
+        </Modal>
+
         {/* Empty state */}
         {!selectedEdition && (
           <Card>
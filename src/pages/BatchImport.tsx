@@ -41,10 +41,10 @@ const IMPORT_CONFIGS = {
     icon: '🏢',
     description: 'Importa aziende clienti con dati anagrafici e fiscali',
     requiredFields: ['name'],
-    optionalFields: ['vatNumber', 'taxCode', 'address', 'city', 'province', 'postalCode', 'country', 'phone', 'email', 'pec', 'sdiCode', 'notes'],
+    optionalFields: ['vatNumber', 'taxCode', 'address', 'city', 'province', 'postalCode', 'country', 'phone', 'email', 'pec', 'sdiCode', 'atecoCode', 'riskCategory', 'notes'],
     templateHeaders: [
       'Nome Azienda*', 'P.IVA', 'Codice Fiscale', 'Indirizzo', 'Città', 'Provincia', 
-      'CAP', 'Paese', 'Telefono', 'Email', 'PEC', 'Codice SDI', 'Note'
+      'CAP', 'Paese', 'Telefono', 'Email', 'PEC', 'Codice SDI', 'Codice ATECO', 'Categoria Rischio', 'Note'
     ],
     fieldMapping: {
       'Nome Azienda*': 'name',
@@ -59,6 +59,8 @@ const IMPORT_CONFIGS = {
       'Email': 'email',
       'PEC': 'pec',
       'Codice SDI': 'sdiCode',
+      'Codice ATECO': 'atecoCode',
+      'Categoria Rischio': 'riskCategory',
       'Note': 'notes',
     },
     endpoint: '/api/companies/import-batch',
@@ -10,7 +10,7 @@ import interactionPlugin from '@fullcalendar/interaction';
 import listPlugin from '@fullcalendar/list';
 import itLocale from '@fullcalendar/core/locales/it';
 import { editionsApi, coursesApi } from '../lib/api';
-import type { CourseEdition, Course } from '../types';
+import type { CourseEdition, Course, SessionDeliveryMode } from '../types';
 import { useNavigate } from 'react-router-dom';
 import toast from 'react-hot-toast';
 
@@ -62,7 +62,8 @@ export default function CalendarView() {
     endTime: '13:00',
     hours: 4,
     location: '',
-    notes: ''
+    notes: '',
+    deliveryMode: 'in_person' as SessionDeliveryMode
   });
 
   // Colori per i diversi corsi
@@ -191,7 +192,8 @@ export default function CalendarView() {
       endTime: '13:00',
       hours: 4,
       location: '',
-      notes: ''
+      notes: '',
+      deliveryMode: 'in_person'
     });
   };
 
@@ -216,7 +218,8 @@ export default function CalendarView() {
           endTime: createSessionForm.endTime,
           hours: parseInt(createSessionForm.hours.toString()),
           location: createSessionForm.location,
-          notes: createSessionForm.notes
+          notes: createSessionForm.notes,
+          deliveryMode: createSessionForm.deliveryMode
         })
       });
 
@@ -487,6 +490,23 @@ export default function CalendarView() {
               />
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Modalità</label>
+              <select
+                value={createSessionForm.deliveryMode}
+                onChange={(e) => setCreateSessionForm({ ...createSessionForm, deliveryMode: e.target.value as SessionDeliveryMode })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="in_person">In aula</option>
+                <option value="fad_sync">FAD sincrona (videoconferenza)</option>
+              </select>
+              {createSessionForm.deliveryMode === 'fad_sync' && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Gli iscritti riceveranno via email un codice di presenza all'inizio e a intervalli casuali durante la sessione.
+                </p>
+              )}
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Luogo</label>
               <input
@@ -0,0 +1,102 @@
+import { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import { certificatesApi } from '../lib/api';
+
+interface VerificationResult {
+  valid: boolean;
+  revoked?: boolean;
+  error?: string;
+  certificateNumber?: string;
+  holderName?: string;
+  courseTitle?: string;
+  courseDurationHours?: number;
+  trainingProviderName?: string;
+  issueDate?: string;
+  expiryDate?: string | null;
+  expired?: boolean;
+}
+
+export default function CertificateVerification() {
+  const { code } = useParams<{ code: string }>();
+  const [result, setResult] = useState<VerificationResult | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!code) return;
+    certificatesApi.verify(code)
+      .then(setResult)
+      .catch(() => setResult({ valid: false, error: 'Impossibile completare la verifica. Riprova più tardi.' }))
+      .finally(() => setIsLoading(false));
+  }, [code]);
+
+  const formatDate = (dateString?: string | null) => {
+    if (!dateString) return '-';
+    return new Date(dateString).toLocaleDateString('it-IT');
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-6">
+        <div className="text-center">
+          <h2 className="text-2xl font-extrabold text-gray-900">Verifica Attestato</h2>
+          <p className="mt-2 text-sm text-gray-600">
+            Formazione sicurezza sul lavoro - D.Lgs. 81/08
+          </p>
+        </div>
+
+        <div className="bg-white py-8 px-4 shadow-lg rounded-xl sm:px-10">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+            </div>
+          ) : result?.valid ? (
+            <div className="space-y-4">
+              <div className={`px-4 py-3 rounded-lg text-sm font-medium ${
+                result.expired
+                  ? 'bg-yellow-50 border border-yellow-200 text-yellow-800'
+                  : 'bg-green-50 border border-green-200 text-green-800'
+              }`}>
+                {result.expired ? '⚠️ Attestato autentico ma scaduto' : '✓ Attestato autentico e valido'}
+              </div>
+              <dl className="divide-y divide-gray-100 text-sm">
+                <div className="py-2 flex justify-between gap-4">
+                  <dt className="text-gray-500">Intestatario</dt>
+                  <dd className="font-semibold text-gray-900 text-right">{result.holderName}</dd>
+                </div>
+                <div className="py-2 flex justify-between gap-4">
+                  <dt className="text-gray-500">Corso</dt>
+                  <dd className="text-gray-900 text-right">
+                    {result.courseTitle}
+                    {result.courseDurationHours ? ` (${result.courseDurationHours} ore)` : ''}
+                  </dd>
+                </div>
+                <div className="py-2 flex justify-between gap-4">
+                  <dt className="text-gray-500">Numero attestato</dt>
+                  <dd className="font-mono text-gray-900">{result.certificateNumber}</dd>
+                </div>
+                <div className="py-2 flex justify-between gap-4">
+                  <dt className="text-gray-500">Data di rilascio</dt>
+                  <dd className="text-gray-900">{formatDate(result.issueDate)}</dd>
+                </div>
+                <div className="py-2 flex justify-between gap-4">
+                  <dt className="text-gray-500">Scadenza</dt>
+                  <dd className="text-gray-900">{result.expiryDate ? formatDate(result.expiryDate) : 'Nessuna'}</dd>
+                </div>
+                <div className="py-2 flex justify-between gap-4">
+                  <dt className="text-gray-500">Rilasciato da</dt>
+                  <dd className="text-gray-900 text-right">{result.trainingProviderName}</dd>
+                </div>
+              </dl>
+            </div>
+          ) : (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {result?.revoked
+                ? `L'attestato n. ${result.certificateNumber} è stato revocato dall'ente di formazione.`
+                : result?.error || 'Attestato non trovato'}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import { checkInApi } from '../lib/api';
+import { validaCF, normalizzaCF } from '../lib/codiceFiscale';
+import type { CheckInResult, CheckInSessionInfo } from '../types';
+
+// Il codice fiscale resta sul telefono dell'allievo per l'uscita a fine lezione
+const FISCAL_CODE_STORAGE_KEY = 'checkInFiscalCode';
+
+export default function CheckIn() {
+  const { token } = useParams<{ token: string }>();
+  const [session, setSession] = useState<CheckInSessionInfo | null>(null);
+  const [fiscalCode, setFiscalCode] = useState(() => localStorage.getItem(FISCAL_CODE_STORAGE_KEY) || '');
+  const [result, setResult] = useState<CheckInResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!token) return;
+    checkInApi.getSession(token)
+      .then(setSession)
+      .catch((err) => setError(err.response?.data?.error || 'Impossibile aprire il check-in. Riprova più tardi.'))
+      .finally(() => setIsLoading(false));
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+
+    const cf = normalizzaCF(fiscalCode);
+    if (!validaCF(cf).isValid) {
+      setError('Codice fiscale non valido');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      setResult(await checkInApi.record(token, cf));
+      localStorage.setItem(FISCAL_CODE_STORAGE_KEY, cf);
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Registrazione non riuscita. Riprova.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const formatTime = (value: string) => new Date(value).toLocaleTimeString('it-IT', { hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-6">
+        <div className="text-center">
+          <h2 className="text-2xl font-extrabold text-gray-900">Registro Presenze</h2>
+          <p className="mt-2 text-sm text-gray-600">
+            Formazione sicurezza sul lavoro - D.Lgs. 81/08
+          </p>
+        </div>
+
+        <div className="bg-white py-8 px-4 shadow-lg rounded-xl sm:px-10 space-y-4">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+            </div>
+          ) : !session ? (
+            <div className="px-4 py-3 rounded-lg text-sm bg-red-50 border border-red-200 text-red-800">
+              {error}
+            </div>
+          ) : (
+            <>
+              <div className="text-sm">
+                <p className="font-semibold text-gray-900">{session.courseTitle}</p>
+                <p className="text-gray-500">
+                  {new Date(session.sessionDate).toLocaleDateString('it-IT')} • {session.startTime}-{session.endTime}
+                  {session.location ? ` • ${session.location}` : ''}
+                </p>
+              </div>
+
+              {result ? (
+                <div className={`px-4 py-3 rounded-lg text-sm font-medium ${
+                  result.late
+                    ? 'bg-yellow-50 border border-yellow-200 text-yellow-800'
+                    : 'bg-green-50 border border-green-200 text-green-800'
+                }`}>
+                  {result.action === 'sign_in'
+                    ? `✓ Ciao ${result.firstName}, entrata registrata alle ${formatTime(result.time)}${result.late ? ' (in ritardo)' : ''}`
+                    : `✓ Ciao ${result.firstName}, uscita registrata alle ${formatTime(result.time)}: ${result.hoursAttended} ore di frequenza`}
+                </div>
+              ) : (
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Codice Fiscale</label>
+                    <input
+                      type="text"
+                      value={fiscalCode}
+                      onChange={(e) => setFiscalCode(e.target.value.toUpperCase())}
+                      maxLength={16}
+                      autoComplete="off"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono uppercase"
+                    />
+                  </div>
+                  {error && (
+                    <div className="px-4 py-3 rounded-lg text-sm bg-red-50 border border-red-200 text-red-800">
+                      {error}
+                    </div>
+                  )}
+                  <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="w-full py-2 px-4 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {isSubmitting ? 'Registrazione...' : 'Registra entrata / uscita'}
+                  </button>
+                </form>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
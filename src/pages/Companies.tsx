@@ -7,10 +7,13 @@ import { Card, CardContent } from '../components/ui/Card';
 import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell, EmptyState, Pagination } from '../components/ui/Table';
 import { Modal, ConfirmDialog } from '../components/ui/Modal';
 import { companiesApi } from '../lib/api';
+import { usePermissions } from '../hooks/usePermissions';
 import { validaPIVA, normalizzaPIVA, formattaPIVA } from '../lib/partitaIva';
+import { lookupAteco, normalizeAtecoCode, RISK_LEVEL_LABELS, searchAteco } from '../lib/ateco';
 import type { Company, Agent } from '../types';
 
 export default function Companies() {
+  const { can } = usePermissions();
   const navigate = useNavigate();
   const [companies, setCompanies] = useState<Company[]>([]);
   const [agents, setAgents] = useState<Agent[]>([]);
@@ -33,6 +36,7 @@ export default function Companies() {
     address: '',
     contactPerson: '',
     agentId: '',
+    atecoCode: '',
     riskCategory: 'low' as 'low' | 'medium' | 'high',
   });
 
@@ -160,6 +164,7 @@ export default function Companies() {
       address: '',
       contactPerson: '',
       agentId: '',
+      atecoCode: '',
       riskCategory: 'low',
     });
     setPivaValidation(null);
@@ -182,6 +187,7 @@ export default function Companies() {
       address: company.address || '',
       contactPerson: company.contactPerson || '',
       agentId: company.agentId ? String(company.agentId) : '',
+      atecoCode: company.atecoCode || '',
       riskCategory: (company as any).riskCategory || 'low',
     });
     setPivaValidation(null);
@@ -198,8 +204,22 @@ export default function Companies() {
     navigate(`/companies/${company.id}`);
   };
 
+  // Divisione ATECO riconosciuta: propone la categoria di rischio dell'Accordo Stato-Regioni
+  const handleAtecoChange = (value: string) => {
+    const division = lookupAteco(value);
+    setFormData(prev => ({ ...prev, atecoCode: value, riskCategory: division ? division.risk : prev.riskCategory }));
+  };
+
+  const atecoDivision = lookupAteco(formData.atecoCode);
+  const atecoError = formData.atecoCode.trim() && !atecoDivision ? 'Codice ATECO non valido o divisione non riconosciuta' : undefined;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (atecoError) {
+      setMessage({ type: 'error', text: atecoError });
+      return;
+    }
     
     // Warning if duplicate found
     if (duplicateCompany) {
@@ -216,6 +236,7 @@ export default function Companies() {
         ...formData,
         vatNumber: formData.vatNumber ? normalizzaPIVA(formData.vatNumber) : '',
         agentId: formData.agentId ? parseInt(formData.agentId) : null,
+        atecoCode: formData.atecoCode ? normalizeAtecoCode(formData.atecoCode) : null,
       };
 
       if (selectedCompany) {
@@ -305,9 +326,11 @@ export default function Companies() {
             <Button onClick={handleExport} variant="secondary">
               📥 Esporta
             </Button>
-            <Button onClick={openCreateModal}>
-              + Nuova Azienda
-            </Button>
+            {can('companies', 'create') && (
+              <Button onClick={openCreateModal}>
+                + Nuova Azienda
+              </Button>
+            )}
           </div>
         </div>
 
@@ -353,7 +376,7 @@ export default function Companies() {
                 title="Nessuna azienda trovata"
                 description={search ? 'Prova a modificare i criteri di ricerca' : 'Inizia aggiungendo la prima azienda'}
                 action={
-                  !search && (
+                  !search && can('companies', 'create') && (
                     <Button onClick={openCreateModal}>
                       + Nuova Azienda
                     </Button>
@@ -392,20 +415,24 @@ export default function Companies() {
                             >
                               👁️
                             </button>
-                            <button
-                              onClick={() => openEditModal(company)}
-                              className="p-1 text-gray-400 hover:text-blue-600"
-                              title="Modifica"
-                            >
-                              ✏️
-                            </button>
-                            <button
-                              onClick={() => openDeleteDialog(company)}
-                              className="p-1 text-gray-400 hover:text-red-600"
-                              title="Elimina"
-                            >
-                              🗑️
-                            </button>
+                            {can('companies', 'update') && (
+                              <button
+                                onClick={() => openEditModal(company)}
+                                className="p-1 text-gray-400 hover:text-blue-600"
+                                title="Modifica"
+                              >
+                                ✏️
+                              </button>
+                            )}
+                            {can('companies', 'delete') && (
+                              <button
+                                onClick={() => openDeleteDialog(company)}
+                                className="p-1 text-gray-400 hover:text-red-600"
+                                title="Elimina"
+                              >
+                                🗑️
+                              </button>
+                            )}
                           </div>
                         </TableCell>
                       </TableRow>
@@ -537,6 +564,28 @@ export default function Companies() {
             </select>
           </div>
 
+          <div>
+            <Input
+              label="Codice ATECO"
+              name="atecoCode"
+              list="ateco-divisions"
+              placeholder="es. 43.21.01 oppure cerca per attività"
+              value={formData.atecoCode}
+              onChange={(e) => handleAtecoChange(e.target.value)}
+              error={atecoError}
+            />
+            <datalist id="ateco-divisions">
+              {searchAteco(formData.atecoCode).map(division => (
+                <option key={division.code} value={division.code}>{division.description}</option>
+              ))}
+            </datalist>
+            {atecoDivision && (
+              <p className="mt-1 text-xs text-gray-500">
+                Divisione {atecoDivision.code} (ATECO 2007) · {atecoDivision.description} · rischio {RISK_LEVEL_LABELS[atecoDivision.risk].toLowerCase()}
+              </p>
+            )}
+          </div>
+
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
             <label className="block text-sm font-medium text-blue-900 mb-2">Categoria Rischio (D.Lgs. 81/08)</label>
             <p className="text-xs text-blue-700 mb-3">Seleziona il livello di rischio dell'azienda per la corretta assegnazione dei corsi di sicurezza.</p>
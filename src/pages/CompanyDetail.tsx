@@ -1,10 +1,14 @@
 import React, { useEffect, useState, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Layout } from '../components/Layout';
+import { AuditHistory } from '../components/AuditHistory';
+import { CompanyBalance } from '../components/CompanyBalance';
+import { TrainingNeedsReport } from '../components/TrainingNeedsReport';
 import { Button } from '../components/ui/Button';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/Card';
 import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell, EmptyState } from '../components/ui/Table';
 import { companiesApi, studentsApi } from '../lib/api';
+import { usePermissions } from '../hooks/usePermissions';
 import { validaPIVA } from '../lib/partitaIva';
 import type { Company, Student } from '../types';
 
@@ -30,6 +34,8 @@ export default function CompanyDetail() {
   });
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<'details' | 'history'>('details');
+  const { can } = usePermissions();
 
   // P.IVA validation
   const [pivaValidation, setPivaValidation] = useState<{
@@ -214,171 +220,218 @@ export default function CompanyDetail() {
           </Card>
         </div>
 
-        {/* Main Content */}
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-          {/* Company Details */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Dati Azienda</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                <div>
-                  <label className="text-sm font-medium text-gray-500">Ragione Sociale</label>
-                  <p className="text-gray-900 font-medium">{company.name}</p>
-                </div>
-                <div>
-                  <label className="text-sm font-medium text-gray-500">Partita IVA</label>
-                  <div className="flex items-center gap-2">
-                    <p className="text-gray-900 font-mono">{company.vatNumber || '-'}</p>
-                    {pivaValidation && (
-                      <span className={`text-xs px-2 py-0.5 rounded ${
-                        pivaValidation.isChecksumValid ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'
-                      }`}>
-                        {pivaValidation.isChecksumValid ? '✓ Valida' : '⚠️ Checksum'}
-                      </span>
-                    )}
+        {/* Tabs */}
+        {can('audit', 'read') && (
+          <div className="border-b border-gray-200">
+            <nav className="-mb-px flex gap-6">
+              {([
+                ['details', 'Dettagli'],
+                ['history', 'Storico'],
+              ] as const).map(([tab, label]) => (
+                <button
+                  key={tab}
+                  onClick={() => setActiveTab(tab)}
+                  className={`py-2 px-1 border-b-2 text-sm font-medium ${
+                    activeTab === tab
+                      ? 'border-blue-600 text-blue-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </nav>
+          </div>
+        )}
+
+        {activeTab === 'details' && (
+          <>
+            {/* Main Content */}
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              {/* Company Details */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Dati Azienda</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4">
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Ragione Sociale</label>
+                      <p className="text-gray-900 font-medium">{company.name}</p>
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Partita IVA</label>
+                      <div className="flex items-center gap-2">
+                        <p className="text-gray-900 font-mono">{company.vatNumber || '-'}</p>
+                        {pivaValidation && (
+                          <span className={`text-xs px-2 py-0.5 rounded ${
+                            pivaValidation.isChecksumValid ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'
+                          }`}>
+                            {pivaValidation.isChecksumValid ? '✓ Valida' : '⚠️ Checksum'}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Email</label>
+                      <p className="text-gray-900">
+                        {company.email ? (
+                          <a href={`mailto:${company.email}`} className="text-blue-600 hover:underline">
+                            {company.email}
+                          </a>
+                        ) : '-'}
+                      </p>
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Telefono</label>
+                      <p className="text-gray-900">
+                        {company.phone ? (
+                          <a href={`tel:${company.phone}`} className="text-blue-600 hover:underline">
+                            {company.phone}
+                          </a>
+                        ) : '-'}
+                      </p>
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Indirizzo</label>
+                      <p className="text-gray-900">{company.address || '-'}</p>
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Persona di Contatto</label>
+                      <p className="text-gray-900">{company.contactPerson || '-'}</p>
+                    </div>
                   </div>
-                </div>
-                <div>
-                  <label className="text-sm font-medium text-gray-500">Email</label>
-                  <p className="text-gray-900">
-                    {company.email ? (
-                      <a href={`mailto:${company.email}`} className="text-blue-600 hover:underline">
-                        {company.email}
-                      </a>
-                    ) : '-'}
-                  </p>
-                </div>
-                <div>
-                  <label className="text-sm font-medium text-gray-500">Telefono</label>
-                  <p className="text-gray-900">
-                    {company.phone ? (
-                      <a href={`tel:${company.phone}`} className="text-blue-600 hover:underline">
-                        {company.phone}
-                      </a>
-                    ) : '-'}
-                  </p>
-                </div>
-                <div>
-                  <label className="text-sm font-medium text-gray-500">Indirizzo</label>
-                  <p className="text-gray-900">{company.address || '-'}</p>
-                </div>
-                <div>
-                  <label className="text-sm font-medium text-gray-500">Persona di Contatto</label>
-                  <p className="text-gray-900">{company.contactPerson || '-'}</p>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
+                </CardContent>
+              </Card>
 
-          {/* Students List */}
-          <Card className="lg:col-span-2">
-            <CardHeader className="flex flex-row items-center justify-between">
-              <CardTitle>Dipendenti ({students.length})</CardTitle>
-              <Button 
-                variant="secondary" 
-                size="sm"
-                onClick={() => navigate(`/students?company=${id}`)}
-              >
-                Vedi tutti →
-              </Button>
-            </CardHeader>
-            <CardContent className="p-0">
-              {students.length === 0 ? (
-                <EmptyState
-                  title="Nessun dipendente"
-                  description="Non ci sono ancora dipendenti associati a questa azienda"
-                  action={
-                    <Button onClick={() => navigate('/students')}>
-                      + Aggiungi Studente
-                    </Button>
-                  }
-                />
-              ) : (
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead>Nome</TableHead>
-                      <TableHead>Cognome</TableHead>
-                      <TableHead>Codice Fiscale</TableHead>
-                      <TableHead>Email</TableHead>
-                      <TableHead className="text-right">Azioni</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {students.slice(0, 10).map((student) => (
-                      <TableRow key={student.id}>
-                        <TableCell className="font-medium">{student.firstName}</TableCell>
-                        <TableCell>{student.lastName}</TableCell>
-                        <TableCell className="font-mono text-sm">{student.fiscalCode || '-'}</TableCell>
-                        <TableCell>{student.email || '-'}</TableCell>
-                        <TableCell className="text-right">
-                          <button
-                            onClick={() => viewStudentDetail(student)}
-                            className="p-1 text-gray-400 hover:text-green-600"
-                            title="Visualizza dettaglio"
-                          >
-                            👁️
-                          </button>
-                        </TableCell>
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-              )}
-              {students.length > 10 && (
-                <div className="p-4 text-center border-t">
-                  <button
+              {/* Students List */}
+              <Card className="lg:col-span-2">
+                <CardHeader className="flex flex-row items-center justify-between">
+                  <CardTitle>Dipendenti ({students.length})</CardTitle>
+                  <Button 
+                    variant="secondary" 
+                    size="sm"
                     onClick={() => navigate(`/students?company=${id}`)}
-                    className="text-blue-600 hover:underline text-sm"
                   >
-                    Mostra tutti i {students.length} dipendenti →
-                  </button>
+                    Vedi tutti →
+                  </Button>
+                </CardHeader>
+                <CardContent className="p-0">
+                  {students.length === 0 ? (
+                    <EmptyState
+                      title="Nessun dipendente"
+                      description="Non ci sono ancora dipendenti associati a questa azienda"
+                      action={
+                        <Button onClick={() => navigate('/students')}>
+                          + Aggiungi Studente
+                        </Button>
+                      }
+                    />
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Nome</TableHead>
+                          <TableHead>Cognome</TableHead>
+                          <TableHead>Codice Fiscale</TableHead>
+                          <TableHead>Email</TableHead>
+                          <TableHead className="text-right">Azioni</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {students.slice(0, 10).map((student) => (
+                          <TableRow key={student.id}>
+                            <TableCell className="font-medium">{student.firstName}</TableCell>
+                            <TableCell>{student.lastName}</TableCell>
+                            <TableCell className="font-mono text-sm">{student.fiscalCode || '-'}</TableCell>
+                            <TableCell>{student.email || '-'}</TableCell>
+                            <TableCell className="text-right">
+                              <button
+                                onClick={() => viewStudentDetail(student)}
+                                className="p-1 text-gray-400 hover:text-green-600"
+                                title="Visualizza dettaglio"
+                              >
+                                👁️
+                              </button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                  {students.length > 10 && (
+                    <div className="p-4 text-center border-t">
+                      <button
+                        onClick={() => navigate(`/students?company=${id}`)}
+                        className="text-blue-600 hover:underline text-sm"
+                      >
+                        Mostra tutti i {students.length} dipendenti →
+                      </button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Fabbisogno formativo */}
+            <TrainingNeedsReport companyId={company.id} />
+
+            {/* Saldo da incassare */}
+            {can('payments', 'read') && <CompanyBalance companyId={company.id} />}
+
+            {/* Quick Actions */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Azioni Rapide</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-wrap gap-3">
+                  <Button variant="secondary" onClick={() => navigate(`/registrations?company=${id}`)}>
+                    📋 Iscrizioni Azienda
+                  </Button>
+                  <Button variant="secondary" onClick={() => navigate(`/reports?company=${id}`)}>
+                    📊 Report Formazione
+                  </Button>
+                  {can('quotes', 'read') && (
+                    <Button variant="secondary" onClick={() => navigate(`/quotes?company=${id}`)}>
+                      📝 Preventivi
+                    </Button>
+                  )}
+                  <Button variant="secondary" onClick={() => {
+                    // Export students to CSV
+                    const headers = ['Nome', 'Cognome', 'Codice Fiscale', 'Email', 'Telefono'];
+                    const rows = students.map(s => [
+                      s.firstName || '',
+                      s.lastName || '',
+                      s.fiscalCode || '',
+                      s.email || '',
+                      s.phone || ''
+                    ]);
+                    const csvContent = [
+                      headers.join(','),
+                      ...rows.map(row => row.map(cell => `"${cell}"`).join(','))
+                    ].join('\n');
+                    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+                    const link = document.createElement('a');
+                    link.href = URL.createObjectURL(blob);
+                    link.download = `dipendenti_${company.name.replace(/\s+/g, '_')}_${new Date().toISOString().split('T')[0]}.csv`;
+                    link.click();
+                  }}>
+                    📥 Esporta Dipendenti
+                  </Button>
                 </div>
-              )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        {activeTab === 'history' && (
+          <Card>
+            <CardContent className="p-0">
+              <AuditHistory companyId={parseInt(id!)} />
             </CardContent>
           </Card>
-        </div>
-
-        {/* Quick Actions */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Azioni Rapide</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="flex flex-wrap gap-3">
-              <Button variant="secondary" onClick={() => navigate(`/registrations?company=${id}`)}>
-                📋 Iscrizioni Azienda
-              </Button>
-              <Button variant="secondary" onClick={() => navigate(`/reports?company=${id}`)}>
-                📊 Report Formazione
-              </Button>
-              <Button variant="secondary" onClick={() => {
-                // Export students to CSV
-                const headers = ['Nome', 'Cognome', 'Codice Fiscale', 'Email', 'Telefono'];
-                const rows = students.map(s => [
-                  s.firstName || '',
-                  s.lastName || '',
-                  s.fiscalCode || '',
-                  s.email || '',
-                  s.phone || ''
-                ]);
-                const csvContent = [
-                  headers.join(','),
-                  ...rows.map(row => row.map(cell => `"${cell}"`).join(','))
-                ].join('\n');
-                const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-                const link = document.createElement('a');
-                link.href = URL.createObjectURL(blob);
-                link.download = `dipendenti_${company.name.replace(/\s+/g, '_')}_${new Date().toISOString().split('T')[0]}.csv`;
-                link.click();
-              }}>
-                📥 Esporta Dipendenti
-              </Button>
-            </div>
-          </CardContent>
-        </Card>
+        )}
       </div>
     </Layout>
   );
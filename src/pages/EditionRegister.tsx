@@ -6,7 +6,10 @@ import { Input } from '../components/ui/Input';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/Card';
 import { Modal } from '../components/ui/Modal';
 import { Checkbox } from '../components/ui/Checkbox';
-import { editionsApi, studentsApi, companiesApi, registrationsApi, agentsApi } from '../lib/api';
+import { RecoveryPlanModal } from '../components/RecoveryPlanModal';
+import { editionsApi, studentsApi, companiesApi, registrationsApi, agentsApi, certificatesApi } from '../lib/api';
+import { usePermissions } from '../hooks/usePermissions';
+import { MIN_ATTENDANCE_PERCENT } from '../lib/businessLogicValidation';
 import type { CourseEdition, Student, Company } from '../types';
 import toast from 'react-hot-toast';
 import { MagnifyingGlassIcon, CheckIcon } from '@heroicons/react/24/outline';
@@ -20,7 +23,9 @@ interface Registration {
   status: 'pending' | 'confirmed' | 'completed' | 'failed' | 'cancelled';
   priceApplied: number;
   certificateDate?: string;
-  attendancePercent?: number;
+  attendancePercent?: number | null;
+  attendanceEligible?: boolean;
+  certificateNumber?: string | null;
 }
 
 interface EditionInfo extends CourseEdition {
@@ -32,6 +37,8 @@ interface EditionInfo extends CourseEdition {
 export default function EditionRegister() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const { can } = usePermissions();
+  const canUpdateRegistrations = can('registrations', 'update');
   const [edition, setEdition] = useState<EditionInfo | null>(null);
   const [registrations, setRegistrations] = useState<Registration[]>([]);
   const [companies, setCompanies] = useState<Company[]>([]);
@@ -48,6 +55,9 @@ export default function EditionRegister() {
   const [filteredStudents, setFilteredStudents] = useState<Student[]>([]);
   const [studentSearchTerm, setStudentSearchTerm] = useState('');
   const [studentPrices, setStudentPrices] = useState<Record<number, string>>({});
+
+  // Piano di recupero delle ore perse
+  const [recoveryRegistrationId, setRecoveryRegistrationId] = useState<number | null>(null);
   
   // Statistiche
   const [stats, setStats] = useState({
@@ -257,6 +267,43 @@ export default function EditionRegister() {
     }
   };
 
+  const handleGenerateCertificates = async () => {
+    if (!registrations.some(r => r.status === 'completed')) {
+      toast.error('Nessuno studente promosso per cui generare l\'attestato');
+      return;
+    }
+
+    try {
+      const result = await certificatesApi.issueForEdition(parseInt(id!));
+      if (result.errors?.length) {
+        toast.error(`${result.errors.length} attestati non generati`);
+      }
+      toast.success(`${result.created} attestati generati (${result.existing} già presenti)`);
+      fetchEditionData();
+    } catch (err) {
+      toast.error('Errore nella generazione degli attestati');
+    }
+  };
+
+  const handleDownloadCertificate = async (reg: Registration) => {
+    try {
+      if (!reg.certificateNumber) {
+        await certificatesApi.issue(reg.id);
+      }
+      const blob = await certificatesApi.download(reg.id);
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = `Attestato_${reg.student?.lastName}_${reg.student?.firstName}.pdf`;
+      link.click();
+      URL.revokeObjectURL(link.href);
+      if (!reg.certificateNumber) {
+        fetchEditionData();
+      }
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || 'Errore nel download dell\'attestato');
+    }
+  };
+
   const toggleStudentSelection = (studentId: number) => {
     setSelectedStudents(prev => 
       prev.includes(studentId) 
@@ -356,12 +403,21 @@ export default function EditionRegister() {
             </p>
           </div>
           <div className="flex gap-2">
-            <Button variant="secondary" onClick={() => setIsAddModalOpen(true)}>
-              + Aggiungi Studenti
-            </Button>
-            <Button onClick={handleBulkPass}>
-              ✓ Promuovi Tutti
-            </Button>
+            {can('registrations', 'create') && (
+              <Button variant="secondary" onClick={() => setIsAddModalOpen(true)}>
+                + Aggiungi Studenti
+              </Button>
+            )}
+            {canUpdateRegistrations && (
+              <Button onClick={handleBulkPass}>
+                ✓ Promuovi Tutti
+              </Button>
+            )}
+            {can('certificates', 'create') && (
+              <Button variant="secondary" onClick={handleGenerateCertificates}>
+                📄 Genera Attestati
+              </Button>
+            )}
           </div>
         </div>
 
@@ -442,6 +498,7 @@ export default function EditionRegister() {
                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Codice Fiscale</th>
                     <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">Prezzo Discente</th>
                     <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">Stato</th>
+                    <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">Frequenza</th>
                     <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">Data Attestato</th>
                     <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">Azioni</th>
                   </tr>
@@ -449,7 +506,7 @@ export default function EditionRegister() {
                 <tbody className="bg-white divide-y divide-gray-200">
                   {registrations.length === 0 ? (
                     <tr>
-                      <td colSpan={8} className="px-4 py-8 text-center text-gray-500">
+                      <td colSpan={9} className="px-4 py-8 text-center text-gray-500">
                         Nessuno studente iscritto. Clicca "Aggiungi Studenti" per iniziare.
                       </td>
                     </tr>
@@ -474,19 +531,30 @@ export default function EditionRegister() {
                             {getStatusLabel(reg.status)}
                           </span>
                         </td>
+                        <td className="px-4 py-3 text-center text-sm">
+                          {reg.attendancePercent !== null && reg.attendancePercent !== undefined ? (
+                            <span
+                              className={reg.attendanceEligible ? 'text-green-700' : 'text-red-600 font-medium'}
+                              title={reg.attendanceEligible ? 'Idoneo all\'attestato' : `Frequenza sotto il ${MIN_ATTENDANCE_PERCENT}%: attestato non emettibile`}
+                            >
+                              {reg.attendancePercent}%
+                            </span>
+                          ) : '-'}
+                        </td>
                         <td className="px-4 py-3 text-center text-sm">
                           {reg.status === 'completed' ? (
                             <input
                               type="date"
                               value={reg.certificateDate || ''}
                               onChange={(e) => handleUpdateStatus(reg.id, 'completed', e.target.value)}
+                              disabled={!canUpdateRegistrations}
                               className="px-2 py-1 border border-gray-300 rounded text-sm"
                             />
                           ) : '-'}
                         </td>
                         <td className="px-4 py-3 text-center">
                           <div className="flex items-center justify-center gap-1">
-                            {reg.status !== 'completed' && reg.status !== 'cancelled' && (
+                            {canUpdateRegistrations && reg.status !== 'completed' && reg.status !== 'cancelled' && (
                               <button
                                 onClick={() => handleUpdateStatus(reg.id, 'completed', new Date().toISOString().split('T')[0])}
                                 className="p-1 text-green-600 hover:bg-green-100 rounded"
@@ -495,7 +563,7 @@ export default function EditionRegister() {
                                 ✓
                               </button>
                             )}
-                            {reg.status !== 'failed' && reg.status !== 'cancelled' && (
+                            {canUpdateRegistrations && reg.status !== 'failed' && reg.status !== 'cancelled' && (
                               <button
                                 onClick={() => handleUpdateStatus(reg.id, 'failed')}
                                 className="p-1 text-red-600 hover:bg-red-100 rounded"
@@ -504,10 +572,23 @@ export default function EditionRegister() {
                                 ✗
                               </button>
                             )}
-                            {reg.status === 'failed' && (
-                              <span className="text-xs text-orange-600" title="Consigliato per prossima edizione">
+                            {reg.status === 'completed' && (reg.certificateNumber || can('certificates', 'create')) && (
+                              <button
+                                onClick={() => handleDownloadCertificate(reg)}
+                                className="p-1 text-blue-600 hover:bg-blue-100 rounded"
+                                title={reg.certificateNumber ? `Attestato n. ${reg.certificateNumber}` : 'Genera attestato'}
+                              >
+                                📄
+                              </button>
+                            )}
+                            {reg.status !== 'cancelled' && (reg.status === 'failed' || (reg.attendancePercent !== null && reg.attendancePercent !== undefined && !reg.attendanceEligible)) && (
+                              <button
+                                onClick={() => setRecoveryRegistrationId(reg.id)}
+                                className="text-xs text-orange-600 hover:underline"
+                                title="Pianifica il recupero delle ore perse"
+                              >
                                 ⚠️ Da recuperare
-                              </span>
+                              </button>
                             )}
                           </div>
                         </td>
@@ -521,6 +602,14 @@ export default function EditionRegister() {
         </Card>
       </div>
 
+      <RecoveryPlanModal
+        isOpen={recoveryRegistrationId !== null}
+        onClose={() => setRecoveryRegistrationId(null)}
+        onChanged={fetchEditionData}
+        registrationId={recoveryRegistrationId}
+        canEdit={canUpdateRegistrations}
+      />
+
       {/* Modal Aggiungi Studenti */}
       <Modal
         isOpen={isAddModalOpen}
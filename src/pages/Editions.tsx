@@ -6,6 +6,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/Card'
 import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell, EmptyState, Pagination } from '../components/ui/Table';
 import { Modal, ConfirmDialog } from '../components/ui/Modal';
 import { editionsApi, coursesApi, instructorsApi, companiesApi, agentsApi } from '../lib/api';
+import { EditionAgentPrices } from '../components/EditionAgentPrices';
+import { usePermissions } from '../hooks/usePermissions';
 import { useNavigate } from 'react-router-dom';
 import type { CourseEdition, Course, Instructor, Company } from '../types';
 import toast from 'react-hot-toast';
@@ -36,6 +38,7 @@ interface Session {
 }
 
 export default function EditionsImproved() {
+  const { can } = usePermissions();
   const navigate = useNavigate();
   const [editions, setEditions] = useState<CourseEdition[]>([]);
   const [courses, setCourses] = useState<Course[]>([]);
@@ -406,10 +409,12 @@ export default function EditionsImproved() {
             <h1 className="text-3xl font-bold tracking-tight text-gray-900">📚 Edizioni Corsi</h1>
             <p className="text-gray-600 mt-1">Gestisci le edizioni, sessioni e registrazioni dei corsi</p>
           </div>
-          <Button onClick={openCreateModal} className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700">
-            <SparklesIcon className="w-4 h-4" />
-            Nuova Edizione
-          </Button>
+          {can('editions', 'create') && (
+            <Button onClick={openCreateModal} className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700">
+              <SparklesIcon className="w-4 h-4" />
+              Nuova Edizione
+            </Button>
+          )}
         </div>
 
         {/* Errori */}
@@ -483,7 +488,7 @@ export default function EditionsImproved() {
                 icon="📚"
                 title="Nessuna edizione trovata"
                 description="Crea la tua prima edizione per iniziare"
-                action={<Button onClick={openCreateModal}>Nuova Edizione</Button>}
+                action={can('editions', 'create') && <Button onClick={openCreateModal}>Nuova Edizione</Button>}
               />
             ) : (
               <div className="overflow-x-auto">
@@ -524,20 +529,24 @@ export default function EditionsImproved() {
                             >
                               <UserIcon className="w-4 h-4" />
                             </button>
-                            <button
-                              onClick={() => openEditModal(edition)}
-                              className="text-gray-600 hover:text-gray-700 p-1"
-                              title="Modifica"
-                            >
-                              <PencilIcon className="w-4 h-4" />
-                            </button>
-                            <button
-                              onClick={() => openDeleteDialog(edition)}
-                              className="text-red-600 hover:text-red-700 p-1"
-                              title="Elimina"
-                            >
-                              <TrashIcon className="w-4 h-4" />
-                            </button>
+                            {can('editions', 'update') && (
+                              <button
+                                onClick={() => openEditModal(edition)}
+                                className="text-gray-600 hover:text-gray-700 p-1"
+                                title="Modifica"
+                              >
+                                <PencilIcon className="w-4 h-4" />
+                              </button>
+                            )}
+                            {can('editions', 'delete') && (
+                              <button
+                                onClick={() => openDeleteDialog(edition)}
+                                className="text-red-600 hover:text-red-700 p-1"
+                                title="Elimina"
+                              >
+                                <TrashIcon className="w-4 h-4" />
+                              </button>
+                            )}
                           </div>
                         </TableCell>
                       </TableRow>
@@ -754,7 +763,18 @@ export default function EditionsImproved() {
             </div>
           )}
 
-          {formData.editionType === 'multi' && agents.length > 0 && (
+          {/* In modifica i prezzi per agente si salvano subito, in creazione insieme all'edizione */}
+          {formData.editionType === 'multi' && agents.length > 0 && selectedEdition && (
+            <div className="border-t pt-4">
+              <EditionAgentPrices
+                editionId={selectedEdition.id}
+                defaultPrice={selectedEdition.price || 0}
+                agents={agents}
+              />
+            </div>
+          )}
+
+          {formData.editionType === 'multi' && agents.length > 0 && !selectedEdition && (
             <div className="border-t pt-4">
               <div className="mb-4">
                 <label className="block text-sm font-medium text-gray-700 mb-3">👤 Agenti Partecipanti</label>
@@ -0,0 +1,267 @@
+/**
+ * Email Inviate - Coda di invio (inviti, avvisi attestati, avvisi massivi)
+ * Stato, tentativi e ultimo errore di ogni messaggio, con anteprima e reinvio
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Layout } from '../components/Layout';
+import { Button } from '../components/ui/Button';
+import { Badge } from '../components/ui/Badge';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/Card';
+import { Input } from '../components/ui/Input';
+import { Modal } from '../components/ui/Modal';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell, EmptyState, Pagination } from '../components/ui/Table';
+import { ArrowPathIcon, EyeIcon, ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { emailOutboxApi } from '../lib/api';
+import { usePermissions } from '../hooks/usePermissions';
+import type { EmailOutboxDetail, EmailOutboxEntry, EmailOutboxKind, EmailOutboxStatus } from '../types';
+
+const STATUS_LABELS: Record<EmailOutboxStatus, { label: string; variant: 'success' | 'warning' | 'danger' | 'info' }> = {
+  pending: { label: 'In coda', variant: 'warning' },
+  sending: { label: 'In invio', variant: 'info' },
+  sent: { label: 'Inviata', variant: 'success' },
+  failed: { label: 'Fallita', variant: 'danger' },
+};
+
+const KIND_LABELS: Record<EmailOutboxKind, string> = {
+  calendar_invite: 'Invito calendario',
+  certificate_notice: 'Avviso scadenza',
+  bulk_notice: 'Avviso azienda',
+  expiry_reminder: 'Promemoria automatico',
+  attendance_otp: 'Codice presenza FAD',
+  generic: 'Generica',
+};
+
+export default function EmailOutbox() {
+  const { can } = usePermissions();
+  const [entries, setEntries] = useState<EmailOutboxEntry[]>([]);
+  const [counts, setCounts] = useState<Partial<Record<EmailOutboxStatus, number>>>({});
+  const [status, setStatus] = useState<EmailOutboxStatus | ''>('');
+  const [kind, setKind] = useState<EmailOutboxKind | ''>('');
+  const [search, setSearch] = useState('');
+  const [pagination, setPagination] = useState({ page: 1, pageSize: 20, total: 0, totalPages: 0 });
+  const [isLoading, setIsLoading] = useState(false);
+  const [resendingId, setResendingId] = useState<number | null>(null);
+  const [preview, setPreview] = useState<EmailOutboxDetail | null>(null);
+
+  const fetchEntries = useCallback(async (page = 1) => {
+    setIsLoading(true);
+    try {
+      const response = await emailOutboxApi.getAll({
+        status: status || undefined,
+        kind: kind || undefined,
+        search: search || undefined,
+        page,
+        pageSize: 20,
+      });
+      setEntries(response.data);
+      setCounts(response.counts);
+      setPagination({
+        page: response.page,
+        pageSize: response.pageSize,
+        total: response.total,
+        totalPages: response.totalPages,
+      });
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nel caricamento delle email');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status, kind, search]);
+
+  useEffect(() => {
+    fetchEntries(1);
+  }, [fetchEntries]);
+
+  const handleResend = async (entry: EmailOutboxEntry) => {
+    setResendingId(entry.id);
+    try {
+      const result = await emailOutboxApi.resend(entry.id);
+      if (result.success) {
+        toast.success(`Email reinviata a ${entry.toEmail}`);
+      } else {
+        toast.error(result.error || 'Invio non riuscito, il messaggio resta in coda');
+      }
+      fetchEntries(pagination.page);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nel reinvio');
+    } finally {
+      setResendingId(null);
+    }
+  };
+
+  const handlePreview = async (entry: EmailOutboxEntry) => {
+    try {
+      setPreview(await emailOutboxApi.getById(entry.id));
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nel caricamento del messaggio');
+    }
+  };
+
+  // Il trasporto file salva il messaggio completo: si scarica come .eml
+  const handleDownloadEml = (message: EmailOutboxDetail) => {
+    const blob = new Blob([message.rawMessage!], { type: 'message/rfc822' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `email-${message.id}.eml`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const formatDateTime = (dateString: string | null) =>
+    dateString ? new Date(dateString).toLocaleString('it-IT', { dateStyle: 'short', timeStyle: 'short' }) : '—';
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {(Object.keys(STATUS_LABELS) as EmailOutboxStatus[]).map((value) => (
+            <button
+              key={value}
+              onClick={() => setStatus(status === value ? '' : value)}
+              className={`text-left p-4 rounded-lg border bg-white ${status === value ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-200'}`}
+            >
+              <div className="text-sm text-gray-500">{STATUS_LABELS[value].label}</div>
+              <div className="text-2xl font-semibold text-gray-900">{counts[value] || 0}</div>
+            </button>
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Email Inviate</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <div className="flex flex-wrap items-center gap-3 px-4 pb-4">
+              <div className="w-64">
+                <Input
+                  placeholder="Cerca destinatario o oggetto..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                />
+              </div>
+              <select
+                value={kind}
+                onChange={(e) => setKind(e.target.value as EmailOutboxKind | '')}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+              >
+                <option value="">Tutti i tipi</option>
+                {Object.entries(KIND_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <Button variant="secondary" onClick={() => fetchEntries(pagination.page)}>
+                <ArrowPathIcon className="h-4 w-4 mr-1" />
+                Aggiorna
+              </Button>
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : entries.length === 0 ? (
+              <EmptyState title="Nessuna email" description="Le email inviate dal gestionale compariranno qui" />
+            ) : (
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Data</TableHead>
+                      <TableHead>Destinatario</TableHead>
+                      <TableHead>Oggetto</TableHead>
+                      <TableHead>Tipo</TableHead>
+                      <TableHead>Stato</TableHead>
+                      <TableHead>Tentativi</TableHead>
+                      <TableHead>Ultimo errore</TableHead>
+                      <TableHead>Azioni</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map((entry) => (
+                      <TableRow key={entry.id}>
+                        <TableCell className="whitespace-nowrap text-sm">
+                          <div>{formatDateTime(entry.createdAt)}</div>
+                          {entry.sentAt && <div className="text-xs text-gray-400">Inviata {formatDateTime(entry.sentAt)}</div>}
+                        </TableCell>
+                        <TableCell className="text-sm">{entry.toEmail}</TableCell>
+                        <TableCell className="text-sm max-w-xs truncate">
+                          <span title={entry.subject}>{entry.subject}</span>
+                        </TableCell>
+                        <TableCell className="text-sm">{KIND_LABELS[entry.kind]}</TableCell>
+                        <TableCell>
+                          <Badge variant={STATUS_LABELS[entry.status].variant}>{STATUS_LABELS[entry.status].label}</Badge>
+                          {entry.status === 'pending' && entry.attempts > 0 && (
+                            <div className="text-xs text-gray-400 mt-1">Prossimo {formatDateTime(entry.nextAttemptAt)}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">{entry.attempts}/{entry.maxAttempts}</TableCell>
+                        <TableCell className="text-sm text-red-600 max-w-xs truncate">
+                          <span title={entry.lastError || ''}>{entry.lastError || '—'}</span>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-2 justify-end">
+                            <Button variant="ghost" size="sm" onClick={() => handlePreview(entry)} title="Anteprima">
+                              <EyeIcon className="h-4 w-4" />
+                            </Button>
+                            {can('email', 'create') && entry.status !== 'sending' && (
+                              <Button
+                                variant="secondary"
+                                size="sm"
+                                onClick={() => handleResend(entry)}
+                                disabled={resendingId === entry.id}
+                              >
+                                {resendingId === entry.id ? 'Invio...' : 'Reinvia'}
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {pagination.totalPages > 1 && (
+                  <Pagination
+                    currentPage={pagination.page}
+                    totalPages={pagination.totalPages}
+                    onPageChange={(page) => fetchEntries(page)}
+                  />
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Modal
+        isOpen={!!preview}
+        onClose={() => setPreview(null)}
+        title={preview?.subject}
+        description={preview ? `A: ${preview.toEmail}${preview.transport ? ` · via ${preview.transport}` : ''}` : undefined}
+        size="xl"
+      >
+        {preview && (
+          <div className="space-y-4">
+            {preview.attachments.length > 0 && (
+              <div className="text-sm text-gray-600">Allegati: {preview.attachments.join(', ')}</div>
+            )}
+            <iframe
+              title="Anteprima email"
+              srcDoc={preview.html}
+              sandbox=""
+              className="w-full h-96 border border-gray-200 rounded-lg"
+            />
+            {preview.rawMessage && (
+              <Button variant="secondary" onClick={() => handleDownloadEml(preview)}>
+                <ArrowDownTrayIcon className="h-4 w-4 mr-1" />
+                Scarica .eml
+              </Button>
+            )}
+          </div>
+        )}
+      </Modal>
+    </Layout>
+  );
+}
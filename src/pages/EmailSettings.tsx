@@ -4,8 +4,14 @@ import { Button } from '../components/ui/Button';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/Card';
 import { Input } from '../components/ui/Input';
 import { Toast } from '../components/ui/Toast';
+import { UsersSettings } from '../components/UsersSettings';
+import { ReminderSettings } from '../components/ReminderSettings';
+import { BrandingSettings } from '../components/BrandingSettings';
+import { EmailTemplatesSettings } from '../components/EmailTemplatesSettings';
+import { useAuth } from '../contexts/AuthContext';
 
 export const EmailSettings = () => {
+  const { user } = useAuth();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [twoFactorCode, setTwoFactorCode] = useState('');
@@ -25,7 +31,10 @@ export const EmailSettings = () => {
     try {
       const response = await fetch('/api/email/test', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('accessToken')}`
+        },
         body: JSON.stringify({ email, password, twoFactorCode })
       });
 
@@ -59,7 +68,10 @@ export const EmailSettings = () => {
     try {
       const response = await fetch('/api/email/settings', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('accessToken')}`
+        },
         body: JSON.stringify({ email, password, twoFactorCode })
       });
 
@@ -82,7 +94,7 @@ export const EmailSettings = () => {
 
   return (
     <Layout>
-      <div className="container mx-auto px-4 py-8">
+      <div className="container mx-auto px-4 py-8 space-y-6">
         <Card>
           <CardHeader>
             <CardTitle>Impostazioni Email per Inviti Calendario</CardTitle>
@@ -127,13 +139,13 @@ export const EmailSettings = () => {
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Password Gmail
+                  Password per le app Gmail
                 </label>
                 <Input
                   type="password"
                   value={password}
                   onChange={(e) => setPassword(e.target.value)}
-                  placeholder="La tua password Gmail"
+                  placeholder="Password per le app (16 caratteri)"
                   disabled={isLoading || isTesting}
                 />
               </div>
@@ -177,14 +189,23 @@ export const EmailSettings = () => {
               <h3 className="font-semibold text-gray-900">Come configurare:</h3>
               <ol className="list-decimal list-inside space-y-2 text-sm text-gray-700">
                 <li>Accedi al tuo account Google</li>
-                <li>Se hai la verifica a 2 fattori attiva, avrai bisogno del codice</li>
+                <li>Con la verifica a 2 fattori attiva, crea una "Password per le app" e usala qui</li>
                 <li>Inserisci le credenziali qui sopra</li>
                 <li>Clicca "Test Connessione" per verificare</li>
-                <li>Salva le impostazioni</li>
+                <li>Salva le impostazioni: l'esito di ogni invio è visibile in "Email Inviate"</li>
               </ol>
             </div>
           </CardContent>
         </Card>
+
+        <BrandingSettings />
+
+        <ReminderSettings />
+
+        <EmailTemplatesSettings />
+
+        {/* Gestione utenti: riservata all'admin del cliente */}
+        {user?.isClientAdmin && <UsersSettings />}
       </div>
     </Layout>
   );
@@ -39,6 +39,10 @@ export default function Imports() {
     { key: 'phone', label: 'Telefono' },
     { key: 'birthDate', label: 'Data di Nascita (YYYY-MM-DD)' },
     { key: 'birthPlace', label: 'Luogo di Nascita' },
+    { key: 'address', label: 'Indirizzo' },
+    { key: 'postalCode', label: 'CAP' },
+    { key: 'city', label: 'Comune' },
+    { key: 'province', label: 'Provincia (sigla)' },
     { key: 'jobTitle', label: 'Mansione' },
     { key: 'jobRole', label: 'Ruolo (operaio/impiegato/dirigente/preposto/altro)' },
     { key: 'companyName', label: 'Nome Azienda (deve esistere)' },
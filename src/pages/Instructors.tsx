@@ -8,9 +8,11 @@ import { Modal, ConfirmDialog } from '../components/ui/Modal';
 import { Badge } from '../components/ui/Badge';
 import { useNavigate } from 'react-router-dom';
 import { instructorsApi } from '../lib/api';
+import { usePermissions } from '../hooks/usePermissions';
 import type { Instructor, PaginatedResponse } from '../types';
 
 export default function Instructors() {
+  const { can } = usePermissions();
   const navigate = useNavigate();
   const [instructors, setInstructors] = useState<Instructor[]>([]);
   const [pagination, setPagination] = useState({ page: 1, pageSize: 20, total: 0, totalPages: 0 });
@@ -199,9 +201,11 @@ export default function Instructors() {
             <Button onClick={handleExport} variant="secondary">
               📥 Esporta
             </Button>
-            <Button onClick={openCreateModal}>
-              + Nuovo Docente
-            </Button>
+            {can('instructors', 'create') && (
+              <Button onClick={openCreateModal}>
+                + Nuovo Docente
+              </Button>
+            )}
           </div>
         </div>
 
@@ -243,7 +247,7 @@ export default function Instructors() {
                 title="Nessun docente trovato"
                 description={search ? 'Prova a modificare i criteri di ricerca' : 'Inizia aggiungendo il primo docente'}
                 action={
-                  !search && (
+                  !search && can('instructors', 'create') && (
                     <Button onClick={openCreateModal}>
                       + Nuovo Docente
                     </Button>
@@ -280,20 +284,24 @@ export default function Instructors() {
                             >
                               👁️
                             </button>
-                            <button
-                              onClick={() => openEditModal(instructor)}
-                              className="p-1 text-gray-400 hover:text-blue-600"
-                              title="Modifica"
-                            >
-                              ✏️
-                            </button>
-                            <button
-                              onClick={() => openDeleteDialog(instructor)}
-                              className="p-1 text-gray-400 hover:text-red-600"
-                              title="Elimina"
-                            >
-                              🗑️
-                            </button>
+                            {can('instructors', 'update') && (
+                              <button
+                                onClick={() => openEditModal(instructor)}
+                                className="p-1 text-gray-400 hover:text-blue-600"
+                                title="Modifica"
+                              >
+                                ✏️
+                              </button>
+                            )}
+                            {can('instructors', 'delete') && (
+                              <button
+                                onClick={() => openDeleteDialog(instructor)}
+                                className="p-1 text-gray-400 hover:text-red-600"
+                                title="Elimina"
+                              >
+                                🗑️
+                              </button>
+                            )}
                           </div>
                         </TableCell>
                       </TableRow>
@@ -0,0 +1,580 @@
+/**
+ * Fatturazione - Bozze di fattura dalle iscrizioni completate
+ * Selezione delle iscrizioni da fatturare, generazione per azienda (o edizione) e archivio fatture
+ * con esportazione XML FatturaPA (singola o ZIP) e registrazione degli incassi
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Layout } from '../components/Layout';
+import { Button } from '../components/ui/Button';
+import { Badge } from '../components/ui/Badge';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/Card';
+import { Input } from '../components/ui/Input';
+import { Modal } from '../components/ui/Modal';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell, EmptyState, Pagination } from '../components/ui/Table';
+import { ArrowDownTrayIcon, ArrowPathIcon, BanknotesIcon, DocumentTextIcon, EyeIcon, TrashIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { PaymentModal } from '../components/PaymentModal';
+import { invoicesApi, paymentsApi } from '../lib/api';
+import { PAYMENT_METHOD_LABELS } from '../lib/payments';
+import type { Payment } from '../lib/payments';
+import { formatCurrency, formatDate } from '../lib/utils';
+import { usePermissions } from '../hooks/usePermissions';
+import type { InvoiceCandidate, InvoiceDetail, InvoiceGrouping, InvoiceStatus, InvoiceSummary } from '../types';
+
+const STATUS_LABELS: Record<InvoiceStatus, { label: string; variant: 'default' | 'success' | 'warning' | 'danger' | 'info' }> = {
+  draft: { label: 'Bozza', variant: 'default' },
+  sent: { label: 'Emessa', variant: 'info' },
+  paid: { label: 'Pagata', variant: 'success' },
+  partial: { label: 'Pagata in parte', variant: 'warning' },
+  cancelled: { label: 'Annullata', variant: 'danger' },
+};
+
+// Gli errori dei download arrivano come Blob: si leggono il messaggio e i campi mancanti
+async function xmlErrorMessages(error: any): Promise<string[]> {
+  const data = error.response?.data;
+  if (!(data instanceof Blob)) return ['Errore nella generazione dell\'XML'];
+
+  try {
+    const body = JSON.parse(await data.text());
+    const details: string[] = body.errors
+      || (body.invalid || []).flatMap((item: { invoiceId: number; number: string | null; errors: string[] }) =>
+        item.errors.map(message => `${item.number || `#${item.invoiceId}`}: ${message}`));
+    return [body.error, ...details].filter(Boolean);
+  } catch {
+    return ['Errore nella generazione dell\'XML'];
+  }
+}
+
+function saveBlob(blob: Blob, filename: string) {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(link.href);
+}
+
+export default function Invoices() {
+  const { can } = usePermissions();
+  const [candidates, setCandidates] = useState<InvoiceCandidate[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [groupBy, setGroupBy] = useState<InvoiceGrouping>('company');
+  const [vatRate, setVatRate] = useState('22');
+  const [isLoadingCandidates, setIsLoadingCandidates] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const [invoices, setInvoices] = useState<InvoiceSummary[]>([]);
+  const [status, setStatus] = useState<InvoiceStatus | ''>('');
+  const [pagination, setPagination] = useState({ page: 1, pageSize: 20, total: 0, totalPages: 0 });
+  const [isLoadingInvoices, setIsLoadingInvoices] = useState(false);
+  const [detail, setDetail] = useState<InvoiceDetail | null>(null);
+  const [detailPayments, setDetailPayments] = useState<Payment[]>([]);
+  const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
+  const [selectedInvoices, setSelectedInvoices] = useState<Set<number>>(new Set());
+  const [xmlErrors, setXmlErrors] = useState<string[] | null>(null);
+
+  const fetchCandidates = useCallback(async () => {
+    setIsLoadingCandidates(true);
+    try {
+      const data = await invoicesApi.getCandidates();
+      setCandidates(data);
+      setSelected(new Set());
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nel caricamento delle iscrizioni da fatturare');
+    } finally {
+      setIsLoadingCandidates(false);
+    }
+  }, []);
+
+  const fetchInvoices = useCallback(async (page = 1) => {
+    setIsLoadingInvoices(true);
+    try {
+      const response = await invoicesApi.getAll({ status: status || undefined, page, pageSize: 20 });
+      setInvoices(response.data);
+      setSelectedInvoices(new Set());
+      setPagination({
+        page: response.page,
+        pageSize: response.pageSize,
+        total: response.total,
+        totalPages: response.totalPages,
+      });
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nel caricamento delle fatture');
+    } finally {
+      setIsLoadingInvoices(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchCandidates();
+  }, [fetchCandidates]);
+
+  useEffect(() => {
+    fetchInvoices(1);
+  }, [fetchInvoices]);
+
+  const toggleCandidate = (registrationId: number) => {
+    const next = new Set(selected);
+    if (next.has(registrationId)) {
+      next.delete(registrationId);
+    } else {
+      next.add(registrationId);
+    }
+    setSelected(next);
+  };
+
+  const toggleAll = () => {
+    setSelected(selected.size === candidates.length ? new Set() : new Set(candidates.map(c => c.registrationId)));
+  };
+
+  const selectedTotal = candidates
+    .filter(c => selected.has(c.registrationId))
+    .reduce((sum, c) => sum + c.priceApplied, 0);
+
+  const handleGenerate = async () => {
+    const rate = Number(vatRate);
+    if (!Number.isInteger(rate) || rate < 0 || rate > 100) {
+      toast.error('Aliquota IVA non valida');
+      return;
+    }
+
+    setIsGenerating(true);
+    try {
+      const result = await invoicesApi.generate({ registrationIds: [...selected], groupBy, vatRate: rate });
+
+      if (result.created > 0) {
+        toast.success(`${result.created} ${result.created === 1 ? 'fattura generata' : 'fatture generate'} in bozza`);
+      }
+      for (const failure of result.results.filter(r => r.error)) {
+        toast.error(`${failure.customerName}: ${failure.error}`, { duration: 6000 });
+      }
+      if (result.skipped > 0) {
+        toast(`${result.skipped} iscrizioni non più da fatturare sono state ignorate`);
+      }
+
+      fetchCandidates();
+      fetchInvoices(1);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nella generazione delle fatture');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const exportableInvoices = invoices.filter(i => i.status !== 'cancelled');
+
+  const toggleInvoice = (invoiceId: number) => {
+    const next = new Set(selectedInvoices);
+    if (next.has(invoiceId)) {
+      next.delete(invoiceId);
+    } else {
+      next.add(invoiceId);
+    }
+    setSelectedInvoices(next);
+  };
+
+  const toggleAllInvoices = () => {
+    setSelectedInvoices(selectedInvoices.size === exportableInvoices.length
+      ? new Set()
+      : new Set(exportableInvoices.map(i => i.id)));
+  };
+
+  const handleDownloadXml = async (invoice: InvoiceSummary) => {
+    try {
+      const { blob, filename } = await invoicesApi.downloadXml(invoice.id);
+      saveBlob(blob, filename);
+    } catch (error: any) {
+      setXmlErrors(await xmlErrorMessages(error));
+    }
+  };
+
+  const handleDownloadXmlBatch = async () => {
+    try {
+      const { blob, filename } = await invoicesApi.downloadXmlBatch([...selectedInvoices]);
+      saveBlob(blob, filename);
+    } catch (error: any) {
+      setXmlErrors(await xmlErrorMessages(error));
+    }
+  };
+
+  const handleDetail = async (invoice: InvoiceSummary) => {
+    try {
+      const [data, payments] = await Promise.all([
+        invoicesApi.getById(invoice.id),
+        can('payments', 'read') ? paymentsApi.getAll({ invoiceId: invoice.id }) : Promise.resolve([]),
+      ]);
+      setDetail(data);
+      setDetailPayments(payments);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nel caricamento della fattura');
+    }
+  };
+
+  // Dopo un incasso cambia lo stato della fattura: si ricaricano dettaglio ed elenco
+  const refreshDetail = async () => {
+    if (!detail) return;
+    await handleDetail(detail);
+    fetchInvoices(pagination.page);
+  };
+
+  const handleDeletePayment = async (payment: Payment) => {
+    if (!confirm(`Eliminare l'incasso di ${formatCurrency(payment.amount)} del ${formatDate(payment.paymentDate)}?`)) return;
+
+    try {
+      await paymentsApi.delete(payment.id);
+      toast.success('Incasso eliminato');
+      refreshDetail();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nell\'eliminazione dell\'incasso');
+    }
+  };
+
+  const paidAmount = detailPayments.reduce((sum, p) => sum + p.amount, 0);
+  const balance = detail ? Math.max(0, detail.totalAmount - paidAmount) : 0;
+
+  const handleCancel = async (invoice: InvoiceSummary) => {
+    if (!confirm(`Annullare la bozza ${invoice.number}? Le iscrizioni torneranno da fatturare.`)) return;
+
+    try {
+      await invoicesApi.cancel(invoice.id);
+      toast.success('Bozza annullata');
+      setDetail(null);
+      fetchCandidates();
+      fetchInvoices(pagination.page);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nell\'annullamento della fattura');
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Iscrizioni da fatturare</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <div className="flex flex-wrap items-end gap-3 px-4 pb-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Raggruppa</label>
+                <select
+                  value={groupBy}
+                  onChange={(e) => setGroupBy(e.target.value as InvoiceGrouping)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+                >
+                  <option value="company">Una fattura per azienda</option>
+                  <option value="edition">Una fattura per azienda ed edizione</option>
+                </select>
+              </div>
+              <div className="w-28">
+                <Input
+                  label="IVA %"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={vatRate}
+                  onChange={(e) => setVatRate(e.target.value)}
+                />
+              </div>
+              <Button variant="secondary" onClick={fetchCandidates}>
+                <ArrowPathIcon className="h-4 w-4 mr-1" />
+                Aggiorna
+              </Button>
+              {can('invoices', 'create') && (
+                <Button onClick={handleGenerate} disabled={selected.size === 0} isLoading={isGenerating}>
+                  <DocumentTextIcon className="h-4 w-4 mr-1" />
+                  Genera Fatture{selected.size > 0 ? ` (${selected.size} · ${formatCurrency(selectedTotal)})` : ''}
+                </Button>
+              )}
+            </div>
+
+            {isLoadingCandidates ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : candidates.length === 0 ? (
+              <EmptyState
+                title="Nessuna iscrizione da fatturare"
+                description="Le iscrizioni completate e non ancora fatturate compariranno qui"
+              />
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10">
+                      <input
+                        type="checkbox"
+                        checked={selected.size === candidates.length}
+                        onChange={toggleAll}
+                        className="w-4 h-4"
+                      />
+                    </TableHead>
+                    <TableHead>Intestatario</TableHead>
+                    <TableHead>Studente</TableHead>
+                    <TableHead>Corso</TableHead>
+                    <TableHead>Edizione</TableHead>
+                    <TableHead>Prezzo</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {candidates.map((candidate) => (
+                    <TableRow key={candidate.registrationId}>
+                      <TableCell>
+                        <input
+                          type="checkbox"
+                          checked={selected.has(candidate.registrationId)}
+                          onChange={() => toggleCandidate(candidate.registrationId)}
+                          className="w-4 h-4"
+                        />
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {candidate.companyName || <span className="text-gray-500">Privato</span>}
+                        {candidate.companyVatNumber && (
+                          <div className="text-xs text-gray-400">P.IVA {candidate.companyVatNumber}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">{candidate.studentName}</TableCell>
+                      <TableCell className="text-sm">{candidate.courseTitle}</TableCell>
+                      <TableCell className="text-sm whitespace-nowrap">{formatDate(candidate.editionStartDate)}</TableCell>
+                      <TableCell className="text-sm whitespace-nowrap">{formatCurrency(candidate.priceApplied)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Fatture</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <div className="flex flex-wrap items-center gap-3 px-4 pb-4">
+              <select
+                value={status}
+                onChange={(e) => setStatus(e.target.value as InvoiceStatus | '')}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+              >
+                <option value="">Tutti gli stati</option>
+                {Object.entries(STATUS_LABELS).map(([value, { label }]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <Button variant="secondary" onClick={handleDownloadXmlBatch} disabled={selectedInvoices.size === 0}>
+                <ArrowDownTrayIcon className="h-4 w-4 mr-1" />
+                XML FatturaPA{selectedInvoices.size > 0 ? ` (${selectedInvoices.size})` : ''}
+              </Button>
+            </div>
+
+            {isLoadingInvoices ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : invoices.length === 0 ? (
+              <EmptyState title="Nessuna fattura" description="Le fatture generate dalle iscrizioni compariranno qui" />
+            ) : (
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10">
+                        <input
+                          type="checkbox"
+                          checked={exportableInvoices.length > 0 && selectedInvoices.size === exportableInvoices.length}
+                          onChange={toggleAllInvoices}
+                          className="w-4 h-4"
+                        />
+                      </TableHead>
+                      <TableHead>Numero</TableHead>
+                      <TableHead>Data</TableHead>
+                      <TableHead>Intestatario</TableHead>
+                      <TableHead>Righe</TableHead>
+                      <TableHead>Imponibile</TableHead>
+                      <TableHead>Totale</TableHead>
+                      <TableHead>Stato</TableHead>
+                      <TableHead>Azioni</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {invoices.map((invoice) => (
+                      <TableRow key={invoice.id}>
+                        <TableCell>
+                          {invoice.status !== 'cancelled' && (
+                            <input
+                              type="checkbox"
+                              checked={selectedInvoices.has(invoice.id)}
+                              onChange={() => toggleInvoice(invoice.id)}
+                              className="w-4 h-4"
+                            />
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm font-medium">{invoice.number}</TableCell>
+                        <TableCell className="text-sm whitespace-nowrap">{formatDate(invoice.date)}</TableCell>
+                        <TableCell className="text-sm">{invoice.customerName}</TableCell>
+                        <TableCell className="text-sm">{invoice.linesCount}</TableCell>
+                        <TableCell className="text-sm whitespace-nowrap">{formatCurrency(invoice.netAmount)}</TableCell>
+                        <TableCell className="text-sm whitespace-nowrap font-medium">{formatCurrency(invoice.totalAmount)}</TableCell>
+                        <TableCell>
+                          <Badge variant={STATUS_LABELS[invoice.status].variant}>{STATUS_LABELS[invoice.status].label}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-2 justify-end">
+                            <Button variant="ghost" size="sm" onClick={() => handleDetail(invoice)} title="Dettaglio">
+                              <EyeIcon className="h-4 w-4" />
+                            </Button>
+                            {invoice.status !== 'cancelled' && (
+                              <Button variant="ghost" size="sm" onClick={() => handleDownloadXml(invoice)} title="XML FatturaPA">
+                                <ArrowDownTrayIcon className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {can('invoices', 'delete') && invoice.status === 'draft' && (
+                              <Button variant="secondary" size="sm" onClick={() => handleCancel(invoice)}>
+                                Annulla
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {pagination.totalPages > 1 && (
+                  <Pagination
+                    currentPage={pagination.page}
+                    totalPages={pagination.totalPages}
+                    onPageChange={(page) => fetchInvoices(page)}
+                  />
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Modal
+        isOpen={!!detail}
+        onClose={() => setDetail(null)}
+        title={detail ? `Fattura ${detail.number}` : undefined}
+        description={detail ? `${detail.customerName} · ${formatDate(detail.date)} · provider ${detail.provider}` : undefined}
+        size="lg"
+      >
+        {detail && (
+          <div className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Descrizione</TableHead>
+                  <TableHead>Q.tà</TableHead>
+                  <TableHead>Prezzo</TableHead>
+                  <TableHead>IVA</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {detail.lines.map((line) => (
+                  <TableRow key={line.id}>
+                    <TableCell className="text-sm">{line.description}</TableCell>
+                    <TableCell className="text-sm">{line.quantity}</TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">{formatCurrency(line.unitPrice)}</TableCell>
+                    <TableCell className="text-sm">{line.vatRate}%</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <div className="text-sm text-right space-y-1">
+              <div>Imponibile: {formatCurrency(detail.netAmount)}</div>
+              <div>IVA: {formatCurrency(detail.vatAmount)}</div>
+              <div className="font-semibold">Totale: {formatCurrency(detail.totalAmount)}</div>
+              {detail.dueDate && <div className="text-gray-500">Scadenza: {formatDate(detail.dueDate)}</div>}
+            </div>
+            {detail.pdfUrl && (
+              <a href={detail.pdfUrl} target="_blank" rel="noreferrer" className="text-sm text-blue-600 hover:underline">
+                Apri il PDF presso il provider
+              </a>
+            )}
+
+            {can('payments', 'read') && detail.status !== 'cancelled' && (
+              <div className="border-t pt-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-semibold text-gray-900">
+                    Incassi · incassato {formatCurrency(paidAmount)} · residuo {formatCurrency(balance)}
+                  </h3>
+                  {can('payments', 'create') && balance > 0 && (
+                    <Button size="sm" onClick={() => setIsPaymentModalOpen(true)}>
+                      <BanknotesIcon className="h-4 w-4 mr-1" />
+                      Registra incasso
+                    </Button>
+                  )}
+                </div>
+                {detailPayments.length === 0 ? (
+                  <p className="text-sm text-gray-500">Nessun incasso registrato.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Data</TableHead>
+                        <TableHead>Importo</TableHead>
+                        <TableHead>Metodo</TableHead>
+                        <TableHead>Riferimento</TableHead>
+                        <TableHead>Azioni</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {detailPayments.map((payment) => (
+                        <TableRow key={payment.id}>
+                          <TableCell className="text-sm whitespace-nowrap">{formatDate(payment.paymentDate)}</TableCell>
+                          <TableCell className="text-sm whitespace-nowrap font-medium">{formatCurrency(payment.amount)}</TableCell>
+                          <TableCell className="text-sm">
+                            {PAYMENT_METHOD_LABELS[payment.method]}
+                            {!payment.invoiceId && payment.studentName && (
+                              <div className="text-xs text-gray-400">Acconto di {payment.studentName}</div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm">{payment.reference || '-'}</TableCell>
+                          <TableCell>
+                            {can('payments', 'delete') && (
+                              <Button variant="ghost" size="sm" onClick={() => handleDeletePayment(payment)} title="Elimina">
+                                <TrashIcon className="h-4 w-4 text-red-500" />
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </Modal>
+
+      {detail && (
+        <PaymentModal
+          isOpen={isPaymentModalOpen}
+          onClose={() => setIsPaymentModalOpen(false)}
+          onSaved={refreshDetail}
+          invoiceId={detail.id}
+          label={`Fattura ${detail.number}`}
+          balance={balance}
+        />
+      )}
+
+      <Modal
+        isOpen={!!xmlErrors}
+        onClose={() => setXmlErrors(null)}
+        title="Dati mancanti per la FatturaPA"
+        description="Completa la carta intestata e l'anagrafica degli intestatari, poi riprova"
+        size="md"
+      >
+        {xmlErrors && (
+          <ul className="list-disc pl-5 space-y-1 text-sm text-red-700">
+            {xmlErrors.map((message, index) => (
+              <li key={index}>{message}</li>
+            ))}
+          </ul>
+        )}
+      </Modal>
+    </Layout>
+  );
+}
@@ -0,0 +1,325 @@
+/**
+ * Preventivi - Offerte formative alle aziende
+ * Corsi, lavoratori e prezzi proposti dal listino, PDF con la carta intestata e conversione
+ * dei preventivi accettati in iscrizioni al prezzo concordato
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useLocation } from 'react-router-dom';
+import { Layout } from '../components/Layout';
+import { Button } from '../components/ui/Button';
+import { Badge } from '../components/ui/Badge';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/Card';
+import { Modal } from '../components/ui/Modal';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell, EmptyState, Pagination } from '../components/ui/Table';
+import { ArrowDownTrayIcon, EyeIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { QuoteEditorModal } from '../components/QuoteEditorModal';
+import { QuoteConversionModal } from '../components/QuoteConversionModal';
+import { quotesApi } from '../lib/api';
+import { exportQuotePDF } from '../lib/pdfExport';
+import { QUOTE_STATUS_LABELS, QUOTE_TRANSITIONS, quoteLineAmount } from '../lib/quotes';
+import type { Quote, QuoteDetail, QuoteStatus } from '../lib/quotes';
+import { formatCurrency, formatDate } from '../lib/utils';
+import { usePermissions } from '../hooks/usePermissions';
+
+const STATUS_VARIANTS: Record<QuoteStatus, 'default' | 'success' | 'warning' | 'danger' | 'info'> = {
+  draft: 'default',
+  sent: 'info',
+  accepted: 'success',
+  rejected: 'danger',
+  expired: 'warning',
+  cancelled: 'default',
+};
+
+// Etichette dei pulsanti di cambio stato
+const TRANSITION_LABELS: Record<QuoteStatus, string> = {
+  draft: 'Riporta in bozza',
+  sent: 'Segna come inviato',
+  accepted: 'Accettato dal cliente',
+  rejected: 'Rifiutato dal cliente',
+  expired: 'Scaduto',
+  cancelled: 'Annullato',
+};
+
+export default function Quotes() {
+  const { can } = usePermissions();
+  const location = useLocation();
+  const companyParam = new URLSearchParams(location.search).get('company');
+  const companyId = companyParam ? Number(companyParam) : undefined;
+
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [status, setStatus] = useState<QuoteStatus | ''>('');
+  const [pagination, setPagination] = useState({ page: 1, pageSize: 20, total: 0, totalPages: 0 });
+  const [isLoading, setIsLoading] = useState(false);
+  const [detail, setDetail] = useState<QuoteDetail | null>(null);
+  const [editing, setEditing] = useState<QuoteDetail | null>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [isConversionOpen, setIsConversionOpen] = useState(false);
+
+  const fetchQuotes = useCallback(async (page = 1) => {
+    setIsLoading(true);
+    try {
+      const response = await quotesApi.getAll({ status: status || undefined, companyId, page, pageSize: 20 });
+      setQuotes(response.data);
+      setPagination({
+        page: response.page,
+        pageSize: response.pageSize,
+        total: response.total,
+        totalPages: response.totalPages,
+      });
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nel caricamento dei preventivi');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status, companyId]);
+
+  useEffect(() => {
+    fetchQuotes(1);
+  }, [fetchQuotes]);
+
+  const loadDetail = async (quoteId: number) => {
+    try {
+      setDetail(await quotesApi.getById(quoteId));
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nel caricamento del preventivo');
+    }
+  };
+
+  const handleSaved = (quoteId: number) => {
+    fetchQuotes(pagination.page);
+    loadDetail(quoteId);
+  };
+
+  const handleNew = () => {
+    setEditing(null);
+    setIsEditorOpen(true);
+  };
+
+  const handleEdit = (quote: QuoteDetail) => {
+    setEditing(quote);
+    setIsEditorOpen(true);
+  };
+
+  const handlePdf = async (quoteId: number) => {
+    try {
+      await exportQuotePDF(detail?.id === quoteId ? detail : await quotesApi.getById(quoteId));
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nella generazione del PDF');
+    }
+  };
+
+  const handleStatus = async (quote: QuoteDetail, next: QuoteStatus) => {
+    try {
+      setDetail(await quotesApi.setStatus(quote.id, next));
+      toast.success(`Preventivo ${QUOTE_STATUS_LABELS[next].toLowerCase()}`);
+      fetchQuotes(pagination.page);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nel cambio di stato');
+    }
+  };
+
+  const handleCancel = async (quote: Quote) => {
+    if (!confirm(`Annullare il preventivo ${quote.number}? Il numero resta assegnato.`)) return;
+
+    try {
+      await quotesApi.cancel(quote.id);
+      toast.success('Preventivo annullato');
+      if (detail?.id === quote.id) setDetail(null);
+      fetchQuotes(pagination.page);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Errore nell\'annullamento del preventivo');
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Preventivi</CardTitle>
+            {can('quotes', 'create') && (
+              <Button onClick={handleNew}>
+                <PlusIcon className="h-4 w-4 mr-1" />
+                Nuovo preventivo
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent className="p-0">
+            <div className="flex flex-wrap items-center gap-3 px-4 pb-4">
+              <select
+                value={status}
+                onChange={(e) => setStatus(e.target.value as QuoteStatus | '')}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+              >
+                <option value="">Tutti gli stati</option>
+                {Object.entries(QUOTE_STATUS_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : quotes.length === 0 ? (
+              <EmptyState title="Nessun preventivo" description="I preventivi preparati per le aziende compariranno qui" />
+            ) : (
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Numero</TableHead>
+                      <TableHead>Data</TableHead>
+                      <TableHead>Azienda</TableHead>
+                      <TableHead>Corsi</TableHead>
+                      <TableHead>Totale</TableHead>
+                      <TableHead>Valido fino al</TableHead>
+                      <TableHead>Stato</TableHead>
+                      <TableHead>Azioni</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {quotes.map((quote) => (
+                      <TableRow key={quote.id}>
+                        <TableCell className="text-sm font-medium">{quote.number}</TableCell>
+                        <TableCell className="text-sm whitespace-nowrap">{formatDate(quote.date)}</TableCell>
+                        <TableCell className="text-sm">{quote.companyName}</TableCell>
+                        <TableCell className="text-sm">{quote.linesCount}</TableCell>
+                        <TableCell className="text-sm whitespace-nowrap font-medium">{formatCurrency(quote.totalAmount)}</TableCell>
+                        <TableCell className="text-sm whitespace-nowrap">{quote.validUntil ? formatDate(quote.validUntil) : '-'}</TableCell>
+                        <TableCell>
+                          <Badge variant={STATUS_VARIANTS[quote.status]}>{QUOTE_STATUS_LABELS[quote.status]}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-2 justify-end">
+                            <Button variant="ghost" size="sm" onClick={() => loadDetail(quote.id)} title="Dettaglio">
+                              <EyeIcon className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => handlePdf(quote.id)} title="PDF">
+                              <ArrowDownTrayIcon className="h-4 w-4" />
+                            </Button>
+                            {can('quotes', 'delete') && quote.status !== 'accepted' && quote.status !== 'cancelled' && (
+                              <Button variant="ghost" size="sm" onClick={() => handleCancel(quote)} title="Annulla">
+                                <TrashIcon className="h-4 w-4 text-red-500" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {pagination.totalPages > 1 && (
+                  <Pagination
+                    currentPage={pagination.page}
+                    totalPages={pagination.totalPages}
+                    onPageChange={(page) => fetchQuotes(page)}
+                  />
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Modal
+        isOpen={!!detail}
+        onClose={() => setDetail(null)}
+        title={detail ? `Preventivo ${detail.number}` : undefined}
+        description={detail ? `${detail.companyName} · ${formatDate(detail.date)} · ${QUOTE_STATUS_LABELS[detail.status]}` : undefined}
+        size="lg"
+      >
+        {detail && (
+          <div className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Corso</TableHead>
+                  <TableHead>Edizione</TableHead>
+                  <TableHead>Lavoratori</TableHead>
+                  <TableHead>Prezzo</TableHead>
+                  <TableHead>Importo</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {detail.lines.map((line) => (
+                  <TableRow key={line.id}>
+                    <TableCell className="text-sm">
+                      {line.courseTitle}
+                      {line.description && <div className="text-xs text-gray-400">{line.description}</div>}
+                    </TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {line.editionStartDate ? formatDate(line.editionStartDate) : 'Da definire'}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {line.workers}
+                      {detail.status === 'accepted' && (
+                        <div className="text-xs text-gray-400">{line.convertedCount} iscritti</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">{formatCurrency(line.unitPrice)}</TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">{formatCurrency(quoteLineAmount(line))}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <div className="text-sm text-right space-y-1">
+              <div className="font-semibold">Totale: {formatCurrency(detail.totalAmount)} + IVA</div>
+              {detail.validUntil && <div className="text-gray-500">Valido fino al {formatDate(detail.validUntil)}</div>}
+              {detail.sentAt && <div className="text-gray-500">Inviato il {formatDate(detail.sentAt)}</div>}
+              {detail.respondedAt && <div className="text-gray-500">Risposta del {formatDate(detail.respondedAt)}</div>}
+            </div>
+            {detail.notes && <p className="text-sm text-gray-600 whitespace-pre-line">{detail.notes}</p>}
+
+            <div className="flex flex-wrap justify-end gap-2 border-t pt-4">
+              <Button variant="secondary" size="sm" onClick={() => handlePdf(detail.id)}>
+                <ArrowDownTrayIcon className="h-4 w-4 mr-1" />
+                PDF
+              </Button>
+              {can('quotes', 'update') && detail.status === 'draft' && (
+                <Button variant="secondary" size="sm" onClick={() => handleEdit(detail)}>
+                  Modifica
+                </Button>
+              )}
+              {can('quotes', 'update') && QUOTE_TRANSITIONS[detail.status].map(next => (
+                <Button
+                  key={next}
+                  variant={next === 'rejected' || next === 'draft' ? 'secondary' : 'primary'}
+                  size="sm"
+                  onClick={() => handleStatus(detail, next)}
+                >
+                  {TRANSITION_LABELS[next]}
+                </Button>
+              ))}
+              {can('registrations', 'create') && detail.status === 'accepted' && (
+                <Button size="sm" onClick={() => setIsConversionOpen(true)}>
+                  Converti in iscrizioni
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      <QuoteEditorModal
+        isOpen={isEditorOpen}
+        onClose={() => setIsEditorOpen(false)}
+        onSaved={handleSaved}
+        quote={editing}
+        defaultCompanyId={companyId}
+      />
+
+      {detail && (
+        <QuoteConversionModal
+          isOpen={isConversionOpen}
+          onClose={() => setIsConversionOpen(false)}
+          onConverted={() => loadDetail(detail.id)}
+          quote={detail}
+        />
+      )}
+    </Layout>
+  );
+}
@@ -6,11 +6,14 @@ import { Card, CardContent } from '../components/ui/Card';
 import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell, EmptyState, Pagination } from '../components/ui/Table';
 import { Modal, ConfirmDialog } from '../components/ui/Modal';
 import { registrationsApi, editionsApi, studentsApi, coursesApi } from '../lib/api';
+import { PRICE_SOURCE_LABELS } from '../lib/pricing';
+import { usePermissions } from '../hooks/usePermissions';
 import { BulkEnrollmentModal } from '../components/BulkEnrollmentModal';
 import { useNavigate } from 'react-router-dom';
 import type { Registration, CourseEdition, Student, Course, PaginatedResponse } from '../types';
 
 export default function Registrations() {
+  const { can } = usePermissions();
   const navigate = useNavigate();
   const [registrations, setRegistrations] = useState<Registration[]>([]);
   const [editions, setEditions] = useState<CourseEdition[]>([]);
@@ -204,12 +207,16 @@ export default function Registrations() {
             <p className="text-gray-600 mt-1">Gestione delle iscrizioni ai corsi</p>
           </div>
 	          <div className="flex gap-2">
-	            <Button onClick={openCreateModal}>
-	              + Iscrizione Singola
-	            </Button>
-	            <Button onClick={() => setIsBulkModalOpen(true)} className="bg-blue-600 hover:bg-blue-700">
-	              👥 Iscrizione Massiva
-	            </Button>
+	            {can('registrations', 'create') && (
+	              <>
+	                <Button onClick={openCreateModal}>
+	                  + Iscrizione Singola
+	                </Button>
+	                <Button onClick={() => setIsBulkModalOpen(true)} className="bg-blue-600 hover:bg-blue-700">
+	                  👥 Iscrizione Massiva
+	                </Button>
+	              </>
+	            )}
 	          </div>
         </div>
 
@@ -259,9 +266,11 @@ export default function Registrations() {
                 title="Nessuna iscrizione trovata"
                 description="Inizia creando una nuova iscrizione"
                 action={
-                  <Button onClick={openCreateModal}>
-                    + Nuova Iscrizione
-                  </Button>
+                  can('registrations', 'create') && (
+                    <Button onClick={openCreateModal}>
+                      + Nuova Iscrizione
+                    </Button>
+                  )
                 }
               />
             ) : (
@@ -283,24 +292,33 @@ export default function Registrations() {
                         <TableCell className="font-medium">{getStudentName(registration.studentId)}</TableCell>
                         <TableCell>{getEditionInfo(registration.courseEditionId)}</TableCell>
                         <TableCell>{formatDate(registration.registrationDate)}</TableCell>
-                        <TableCell>€{((registration.price || 0) / 100).toFixed(2)}</TableCell>
+                        <TableCell>
+                          €{((registration.price || 0) / 100).toFixed(2)}
+                          {registration.priceSource && (
+                            <p className="text-xs text-gray-500">{PRICE_SOURCE_LABELS[registration.priceSource]}</p>
+                          )}
+                        </TableCell>
                         <TableCell>{getStatusBadge(registration.status)}</TableCell>
                         <TableCell className="text-right">
                           <div className="flex justify-end gap-2">
-                            <button
-                              onClick={() => openEditModal(registration)}
-                              className="p-1 text-gray-400 hover:text-blue-600"
-                              title="Modifica"
-                            >
-                              ✏️
-                            </button>
-                            <button
-                              onClick={() => openDeleteDialog(registration)}
-                              className="p-1 text-gray-400 hover:text-red-600"
-                              title="Elimina"
-                            >
-                              🗑️
-                            </button>
+                            {can('registrations', 'update') && (
+                              <button
+                                onClick={() => openEditModal(registration)}
+                                className="p-1 text-gray-400 hover:text-blue-600"
+                                title="Modifica"
+                              >
+                                ✏️
+                              </button>
+                            )}
+                            {can('registrations', 'delete') && (
+                              <button
+                                onClick={() => openDeleteDialog(registration)}
+                                className="p-1 text-gray-400 hover:text-red-600"
+                                title="Elimina"
+                              >
+                                🗑️
+                              </button>
+                            )}
                           </div>
                         </TableCell>
                       </TableRow>
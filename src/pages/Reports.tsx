@@ -11,6 +11,8 @@ import {
 import { Layout } from '../components/Layout';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/Card';
 import { Button } from '../components/ui/Button';
+import { ReceivablesReport } from '../components/ReceivablesReport';
+import { usePermissions } from '../hooks/usePermissions';
 	import { exportToExcel } from '../lib/excel';
 	import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from '../components/ui/Table';
 
@@ -82,6 +84,7 @@ async function fetchReportData(year: number): Promise<ReportData> {
 }
 
 	export default function Reports() {
+	  const { can } = usePermissions();
 	  const [data, setData] = useState<ReportData | null>(null);
 	  const [studentsToRecover, setStudentsToRecover] = useState<any[]>([]);
 	  const [expiringCertificates, setExpiringCertificates] = useState<any[]>([]);
@@ -623,6 +626,9 @@ async function fetchReportData(year: number): Promise<ReportData> {
             )}
           </>
         )}
+
+        {/* Crediti aperti (indipendenti dall'anno selezionato) */}
+        {can('payments', 'read') && <ReceivablesReport />}
       </div>
     </Layout>
   );
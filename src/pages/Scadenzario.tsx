@@ -133,7 +133,6 @@ export default function Scadenzario() {
 
     setIsSendingEmails(true);
     try {
-      const selectedScadenze = filteredScadenze.filter(s => selectedIds.has(s.id));
       const token = localStorage.getItem('accessToken');
       
       const response = await fetch('/api/email/send-bulk-certificate-notices', {
@@ -142,12 +141,18 @@ export default function Scadenzario() {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${token}`
         },
-        body: JSON.stringify({ scadenze: selectedScadenze })
+        body: JSON.stringify({ registrationIds: Array.from(selectedIds) })
       });
 
       if (response.ok) {
         const result = await response.json();
-        toast.success(`Inviate ${result.emailsSent} email di avviso alle aziende`);
+        toast.success(`Inviate ${result.sent} email di avviso alle aziende`);
+        if (result.queued > 0 || result.failed > 0) {
+          toast.error(`${result.queued + result.failed} email non inviate: controlla la pagina Email Inviate`);
+        }
+        if (result.skipped > 0) {
+          toast.error(`${result.skipped} aziende senza indirizzo email`);
+        }
         setSelectedIds(new Set());
         fetchScadenze();
       } else {
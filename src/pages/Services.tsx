@@ -7,9 +7,12 @@ import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell, EmptySta
 import { Modal, ConfirmDialog } from '../components/ui/Modal';
 import { Badge } from '../components/ui/Badge';
 import { coursesApi } from '../lib/api';
+import { COURSE_TYPES } from '../lib/courseTypes';
+import { usePermissions } from '../hooks/usePermissions';
 import type { Course, PaginatedResponse } from '../types';
 
 export default function Services() {
+  const { can } = usePermissions();
   const [services, setServices] = useState<Course[]>([]);
   const [pagination, setPagination] = useState({ page: 1, pageSize: 20, total: 0, totalPages: 0 });
   const [search, setSearch] = useState('');
@@ -36,19 +39,7 @@ export default function Services() {
   });
 
   // Course types for D.Lgs. 81/08
-  const courseTypes = [
-    { value: 'base', label: 'Formazione Base' },
-    { value: 'specifica', label: 'Formazione Specifica' },
-    { value: 'preposti', label: 'Formazione Preposti' },
-    { value: 'dirigenti', label: 'Formazione Dirigenti' },
-    { value: 'rspp', label: 'RSPP/ASPP' },
-    { value: 'rls', label: 'RLS' },
-    { value: 'antincendio', label: 'Antincendio' },
-    { value: 'primo_soccorso', label: 'Primo Soccorso' },
-    { value: 'attrezzature', label: 'Attrezzature di Lavoro' },
-    { value: 'aggiornamento', label: 'Aggiornamento' },
-    { value: 'altro', label: 'Altro' },
-  ];
+  const courseTypes = COURSE_TYPES;
 
   // Fetch courses
   const fetchServices = useCallback(async (page = 1, searchTerm = '') => {
@@ -294,9 +285,11 @@ export default function Services() {
             <Button onClick={handleExport} variant="secondary">
               📥 Esporta
             </Button>
-            <Button onClick={openCreateModal}>
-              + Nuovo Corso
-            </Button>
+            {can('courses', 'create') && (
+              <Button onClick={openCreateModal}>
+                + Nuovo Corso
+              </Button>
+            )}
           </div>
         </div>
 
@@ -349,7 +342,7 @@ export default function Services() {
                 title="Nessun corso trovato"
                 description={search ? 'Prova a modificare i criteri di ricerca' : 'Inizia aggiungendo il primo corso'}
                 action={
-                  !search && (
+                  !search && can('courses', 'create') && (
                     <Button onClick={openCreateModal}>
                       + Nuovo Corso
                     </Button>
@@ -392,20 +385,24 @@ export default function Services() {
                             >
                               👁️
                             </button>
-                            <button
-                              onClick={() => openEditModal(course)}
-                              className="p-1 text-gray-400 hover:text-blue-600"
-                              title="Modifica"
-                            >
-                              ✏️
-                            </button>
-                            <button
-                              onClick={() => openDeleteDialog(course)}
-                              className="p-1 text-gray-400 hover:text-red-600"
-                              title="Elimina"
-                            >
-                              🗑️
-                            </button>
+                            {can('courses', 'update') && (
+                              <button
+                                onClick={() => openEditModal(course)}
+                                className="p-1 text-gray-400 hover:text-blue-600"
+                                title="Modifica"
+                              >
+                                ✏️
+                              </button>
+                            )}
+                            {can('courses', 'delete') && (
+                              <button
+                                onClick={() => openDeleteDialog(course)}
+                                className="p-1 text-gray-400 hover:text-red-600"
+                                title="Elimina"
+                              >
+                                🗑️
+                              </button>
+                            )}
                           </div>
                         </TableCell>
                       </TableRow>
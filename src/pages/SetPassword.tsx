@@ -0,0 +1,121 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { authApi } from '../lib/api';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+export default function SetPassword() {
+  const { token } = useParams<{ token: string }>();
+  const [account, setAccount] = useState<{ email: string; name: string; purpose: 'invite' | 'reset' } | null>(null);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isChecking, setIsChecking] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDone, setIsDone] = useState(false);
+
+  useEffect(() => {
+    if (!token) return;
+    authApi.checkPasswordToken(token)
+      .then(setAccount)
+      .catch(() => setError('Il link non è valido o è scaduto. Chiedi all\'amministratore di generarne uno nuovo.'))
+      .finally(() => setIsChecking(false));
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`La password deve contenere almeno ${MIN_PASSWORD_LENGTH} caratteri`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Le password non coincidono');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await authApi.setPassword(token!, password);
+      setIsDone(true);
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Errore durante il salvataggio. Riprova più tardi.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-6">
+        <div className="text-center">
+          <h2 className="text-2xl font-extrabold text-gray-900">
+            {account?.purpose === 'reset' ? 'Reimposta password' : 'Attiva il tuo account'}
+          </h2>
+          {account && (
+            <p className="mt-2 text-sm text-gray-600">
+              {account.name} ({account.email})
+            </p>
+          )}
+        </div>
+
+        <div className="bg-white py-8 px-4 shadow-lg rounded-xl sm:px-10">
+          {isChecking ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+            </div>
+          ) : isDone ? (
+            <div className="space-y-4 text-center">
+              <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-lg text-sm">
+                ✓ Password impostata correttamente
+              </div>
+              <Link to="/login" className="text-sm font-medium text-blue-600 hover:text-blue-700">
+                Vai al login
+              </Link>
+            </div>
+          ) : !account ? (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          ) : (
+            <form className="space-y-6" onSubmit={handleSubmit}>
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+
+              <Input
+                label="Nuova password"
+                type="password"
+                name="password"
+                autoComplete="new-password"
+                required
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                helperText={`Almeno ${MIN_PASSWORD_LENGTH} caratteri`}
+              />
+
+              <Input
+                label="Conferma password"
+                type="password"
+                name="confirmPassword"
+                autoComplete="new-password"
+                required
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+              />
+
+              <Button type="submit" className="w-full" size="lg" isLoading={isLoading}>
+                Salva password
+              </Button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
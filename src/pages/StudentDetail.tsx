@@ -1,11 +1,13 @@
 import React, { useEffect, useState, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Layout } from '../components/Layout';
+import { AuditHistory } from '../components/AuditHistory';
 import { Button } from '../components/ui/Button';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/Card';
 import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell, EmptyState } from '../components/ui/Table';
 import { studentsApi, companiesApi } from '../lib/api';
-import { validaCF, reverseCF, formattaDataNascita } from '../lib/codiceFiscale';
+import { usePermissions } from '../hooks/usePermissions';
+import { validaCF, decodificaLocale, formattaDataNascita, formattaLuogoNascita } from '../lib/codiceFiscale';
 import type { Student, Company } from '../types';
 
 interface CourseHistory {
@@ -28,6 +30,8 @@ export default function StudentDetail() {
   const [courseHistory, setCourseHistory] = useState<CourseHistory[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<'details' | 'history'>('details');
+  const { can } = usePermissions();
 
   // CF reverse engineering data
   const [cfData, setCfData] = useState<{
@@ -52,12 +56,12 @@ export default function StudentDetail() {
       // Reverse engineer CF if present
       if (studentData.fiscalCode) {
         const validation = validaCF(studentData.fiscalCode);
-        const reversed = reverseCF(studentData.fiscalCode);
+        const reversed = await studentsApi.decodeFiscalCode(studentData.fiscalCode)
+          .then(response => response.decoded || decodificaLocale(studentData.fiscalCode!))
+          .catch(() => decodificaLocale(studentData.fiscalCode!));
         setCfData({
           dataNascita: reversed.dataNascita,
-          luogoNascita: reversed.luogoNascita ? 
-            (reversed.provinciaNascita ? `${reversed.luogoNascita} (${reversed.provinciaNascita})` : reversed.luogoNascita) 
-            : null,
+          luogoNascita: formattaLuogoNascita(reversed) || null,
           sesso: reversed.sesso,
           isValid: validation.isValid,
           isChecksumValid: validation.isChecksumValid
@@ -224,223 +228,265 @@ export default function StudentDetail() {
           </Card>
         </div>
 
-        {/* Main Content */}
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-          {/* Anagrafica */}
-          <Card className="lg:col-span-2">
-            <CardHeader>
-              <CardTitle>Dati Anagrafici</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div>
-                  <label className="text-sm font-medium text-gray-500">Nome</label>
-                  <p className="text-gray-900">{student.firstName}</p>
-                </div>
-                <div>
-                  <label className="text-sm font-medium text-gray-500">Cognome</label>
-                  <p className="text-gray-900">{student.lastName}</p>
-                </div>
-                <div className="md:col-span-2">
-                  <label className="text-sm font-medium text-gray-500">Codice Fiscale</label>
-                  <div className="flex items-center gap-2">
-                    <p className="text-gray-900 font-mono">{student.fiscalCode || '-'}</p>
-                    {cfData && (
-                      <span className={`text-xs px-2 py-0.5 rounded ${
-                        cfData.isChecksumValid ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'
-                      }`}>
-                        {cfData.isChecksumValid ? '✓ Valido' : '⚠️ Checksum'}
-                      </span>
-                    )}
-                  </div>
-                </div>
-                <div>
-                  <label className="text-sm font-medium text-gray-500">Data di Nascita</label>
-                  <p className="text-gray-900">
-                    {student.birthDate ? formatDate(student.birthDate) : 
-                      (cfData?.dataNascita ? (
-                        <span className="text-blue-600">
-                          {formattaDataNascita(cfData.dataNascita)} 
-                          <span className="text-xs ml-1">(da CF)</span>
-                        </span>
-                      ) : '-')
-                    }
-                  </p>
-                </div>
-                <div>
-                  <label className="text-sm font-medium text-gray-500">Luogo di Nascita</label>
-                  <p className="text-gray-900">
-                    {student.birthPlace || 
-                      (cfData?.luogoNascita ? (
-                        <span className="text-blue-600">
-                          {cfData.luogoNascita}
-                          <span className="text-xs ml-1">(da CF)</span>
-                        </span>
-                      ) : '-')
-                    }
-                  </p>
-                </div>
-                <div>
-                  <label className="text-sm font-medium text-gray-500">Sesso</label>
-                  <p className="text-gray-900">
-                    {cfData?.sesso ? (cfData.sesso === 'M' ? 'Maschio' : 'Femmina') : '-'}
-                  </p>
-                </div>
-                <div>
-                  <label className="text-sm font-medium text-gray-500">Email</label>
-                  <p className="text-gray-900">
-                    {student.email ? (
-                      <a href={`mailto:${student.email}`} className="text-blue-600 hover:underline">
-                        {student.email}
-                      </a>
-                    ) : '-'}
-                  </p>
-                </div>
-                <div>
-                  <label className="text-sm font-medium text-gray-500">Telefono</label>
-                  <p className="text-gray-900">
-                    {student.phone ? (
-                      <a href={`tel:${student.phone}`} className="text-blue-600 hover:underline">
-                        {student.phone}
-                      </a>
-                    ) : '-'}
-                  </p>
-                </div>
-                <div className="md:col-span-2">
-                  <label className="text-sm font-medium text-gray-500">Indirizzo</label>
-                  <p className="text-gray-900">{student.address || '-'}</p>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
+        {/* Tabs */}
+        {can('audit', 'read') && (
+          <div className="border-b border-gray-200">
+            <nav className="-mb-px flex gap-6">
+              {([
+                ['details', 'Dettagli'],
+                ['history', 'Storico'],
+              ] as const).map(([tab, label]) => (
+                <button
+                  key={tab}
+                  onClick={() => setActiveTab(tab)}
+                  className={`py-2 px-1 border-b-2 text-sm font-medium ${
+                    activeTab === tab
+                      ? 'border-blue-600 text-blue-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </nav>
+          </div>
+        )}
 
-          {/* Azienda */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Azienda</CardTitle>
-            </CardHeader>
-            <CardContent>
-              {company ? (
-                <div className="space-y-3">
-                  <div>
-                    <label className="text-sm font-medium text-gray-500">Ragione Sociale</label>
-                    <p className="text-gray-900 font-medium">{company.name}</p>
-                  </div>
-                  <div>
-                    <label className="text-sm font-medium text-gray-500">P.IVA</label>
-                    <p className="text-gray-900 font-mono text-sm">{company.vatNumber || '-'}</p>
-                  </div>
-                  <div>
-                    <label className="text-sm font-medium text-gray-500">Referente</label>
-                    <p className="text-gray-900">{company.contactPerson || '-'}</p>
+        {activeTab === 'details' && (
+          <>
+            {/* Main Content */}
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              {/* Anagrafica */}
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <CardTitle>Dati Anagrafici</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Nome</label>
+                      <p className="text-gray-900">{student.firstName}</p>
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Cognome</label>
+                      <p className="text-gray-900">{student.lastName}</p>
+                    </div>
+                    <div className="md:col-span-2">
+                      <label className="text-sm font-medium text-gray-500">Codice Fiscale</label>
+                      <div className="flex items-center gap-2">
+                        <p className="text-gray-900 font-mono">{student.fiscalCode || '-'}</p>
+                        {cfData && (
+                          <span className={`text-xs px-2 py-0.5 rounded ${
+                            cfData.isChecksumValid ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'
+                          }`}>
+                            {cfData.isChecksumValid ? '✓ Valido' : '⚠️ Checksum'}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Data di Nascita</label>
+                      <p className="text-gray-900">
+                        {student.birthDate ? formatDate(student.birthDate) : 
+                          (cfData?.dataNascita ? (
+                            <span className="text-blue-600">
+                              {formattaDataNascita(cfData.dataNascita)} 
+                              <span className="text-xs ml-1">(da CF)</span>
+                            </span>
+                          ) : '-')
+                        }
+                      </p>
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Luogo di Nascita</label>
+                      <p className="text-gray-900">
+                        {student.birthPlace || 
+                          (cfData?.luogoNascita ? (
+                            <span className="text-blue-600">
+                              {cfData.luogoNascita}
+                              <span className="text-xs ml-1">(da CF)</span>
+                            </span>
+                          ) : '-')
+                        }
+                      </p>
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Sesso</label>
+                      <p className="text-gray-900">
+                        {cfData?.sesso ? (cfData.sesso === 'M' ? 'Maschio' : 'Femmina') : '-'}
+                      </p>
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Email</label>
+                      <p className="text-gray-900">
+                        {student.email ? (
+                          <a href={`mailto:${student.email}`} className="text-blue-600 hover:underline">
+                            {student.email}
+                          </a>
+                        ) : '-'}
+                      </p>
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-500">Telefono</label>
+                      <p className="text-gray-900">
+                        {student.phone ? (
+                          <a href={`tel:${student.phone}`} className="text-blue-600 hover:underline">
+                            {student.phone}
+                          </a>
+                        ) : '-'}
+                      </p>
+                    </div>
+                    <div className="md:col-span-2">
+                      <label className="text-sm font-medium text-gray-500">Indirizzo</label>
+                      <p className="text-gray-900">
+                        {[
+                          student.address,
+                          [student.postalCode, student.city].filter(Boolean).join(' '),
+                          student.province ? `(${student.province})` : '',
+                        ].filter(Boolean).join(', ') || '-'}
+                      </p>
+                    </div>
                   </div>
-                  <div>
-                    <label className="text-sm font-medium text-gray-500">Email</label>
-                    <p className="text-gray-900">
-                      {company.email ? (
-                        <a href={`mailto:${company.email}`} className="text-blue-600 hover:underline text-sm">
-                          {company.email}
-                        </a>
-                      ) : '-'}
+                </CardContent>
+              </Card>
+
+              {/* Azienda */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Azienda</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {company ? (
+                    <div className="space-y-3">
+                      <div>
+                        <label className="text-sm font-medium text-gray-500">Ragione Sociale</label>
+                        <p className="text-gray-900 font-medium">{company.name}</p>
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium text-gray-500">P.IVA</label>
+                        <p className="text-gray-900 font-mono text-sm">{company.vatNumber || '-'}</p>
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium text-gray-500">Referente</label>
+                        <p className="text-gray-900">{company.contactPerson || '-'}</p>
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium text-gray-500">Email</label>
+                        <p className="text-gray-900">
+                          {company.email ? (
+                            <a href={`mailto:${company.email}`} className="text-blue-600 hover:underline text-sm">
+                              {company.email}
+                            </a>
+                          ) : '-'}
+                        </p>
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium text-gray-500">Telefono</label>
+                        <p className="text-gray-900">{company.phone || '-'}</p>
+                      </div>
+                      <Button 
+                        variant="secondary" 
+                        className="w-full mt-4"
+                        onClick={() => navigate(`/companies/${company.id}`)}
+                      >
+                        Vai all'azienda →
+                      </Button>
+                    </div>
+                  ) : (
+                    <p className="text-gray-500 text-center py-4">
+                      Nessuna azienda associata
                     </p>
-                  </div>
-                  <div>
-                    <label className="text-sm font-medium text-gray-500">Telefono</label>
-                    <p className="text-gray-900">{company.phone || '-'}</p>
-                  </div>
-                  <Button 
-                    variant="secondary" 
-                    className="w-full mt-4"
-                    onClick={() => navigate(`/companies/${company.id}`)}
-                  >
-                    Vai all'azienda →
-                  </Button>
-                </div>
-              ) : (
-                <p className="text-gray-500 text-center py-4">
-                  Nessuna azienda associata
-                </p>
-              )}
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Course History */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Storico Corsi</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                {courseHistory.length === 0 ? (
+                  <EmptyState
+                    title="Nessun corso frequentato"
+                    description="Lo studente non ha ancora partecipato a nessun corso"
+                  />
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Corso</TableHead>
+                        <TableHead>Data</TableHead>
+                        <TableHead>Luogo</TableHead>
+                        <TableHead>Stato</TableHead>
+                        <TableHead>Presenze</TableHead>
+                        <TableHead>Attestato</TableHead>
+                        <TableHead>Scadenza</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {courseHistory.map((course) => (
+                        <TableRow key={course.id}>
+                          <TableCell>
+                            <div>
+                              <div className="font-medium">{course.courseName}</div>
+                              <div className="text-sm text-gray-500">{course.courseCode}</div>
+                            </div>
+                          </TableCell>
+                          <TableCell>{formatDate(course.editionDate)}</TableCell>
+                          <TableCell>{course.location || '-'}</TableCell>
+                          <TableCell>
+                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusBadge(course.status)}`}>
+                              {getStatusLabel(course.status)}
+                            </span>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              <div className="w-16 bg-gray-200 rounded-full h-2">
+                                <div 
+                                  className="bg-blue-600 h-2 rounded-full" 
+                                  style={{ width: `${course.attendancePercentage}%` }}
+                                />
+                              </div>
+                              <span className="text-sm">{course.attendancePercentage}%</span>
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            {course.certificateIssued ? (
+                              <span className="text-green-600">✓ Rilasciato</span>
+                            ) : (
+                              <span className="text-gray-400">-</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {course.certificateExpiry ? (
+                              <span className={
+                                new Date(course.certificateExpiry) < new Date() ? 'text-red-600 font-medium' :
+                                new Date(course.certificateExpiry) < new Date(Date.now() + 90 * 24 * 60 * 60 * 1000) ? 'text-orange-600' :
+                                'text-gray-900'
+                              }>
+                                {formatDate(course.certificateExpiry)}
+                              </span>
+                            ) : '-'}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        {activeTab === 'history' && (
+          <Card>
+            <CardContent className="p-0">
+              <AuditHistory studentId={parseInt(id!)} />
             </CardContent>
           </Card>
-        </div>
-
-        {/* Course History */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Storico Corsi</CardTitle>
-          </CardHeader>
-          <CardContent className="p-0">
-            {courseHistory.length === 0 ? (
-              <EmptyState
-                title="Nessun corso frequentato"
-                description="Lo studente non ha ancora partecipato a nessun corso"
-              />
-            ) : (
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>Corso</TableHead>
-                    <TableHead>Data</TableHead>
-                    <TableHead>Luogo</TableHead>
-                    <TableHead>Stato</TableHead>
-                    <TableHead>Presenze</TableHead>
-                    <TableHead>Attestato</TableHead>
-                    <TableHead>Scadenza</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {courseHistory.map((course) => (
-                    <TableRow key={course.id}>
-                      <TableCell>
-                        <div>
-                          <div className="font-medium">{course.courseName}</div>
-                          <div className="text-sm text-gray-500">{course.courseCode}</div>
-                        </div>
-                      </TableCell>
-                      <TableCell>{formatDate(course.editionDate)}</TableCell>
-                      <TableCell>{course.location || '-'}</TableCell>
-                      <TableCell>
-                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusBadge(course.status)}`}>
-                          {getStatusLabel(course.status)}
-                        </span>
-                      </TableCell>
-                      <TableCell>
-                        <div className="flex items-center gap-2">
-                          <div className="w-16 bg-gray-200 rounded-full h-2">
-                            <div 
-                              className="bg-blue-600 h-2 rounded-full" 
-                              style={{ width: `${course.attendancePercentage}%` }}
-                            />
-                          </div>
-                          <span className="text-sm">{course.attendancePercentage}%</span>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        {course.certificateIssued ? (
-                          <span className="text-green-600">✓ Rilasciato</span>
-                        ) : (
-                          <span className="text-gray-400">-</span>
-                        )}
-                      </TableCell>
-                      <TableCell>
-                        {course.certificateExpiry ? (
-                          <span className={
-                            new Date(course.certificateExpiry) < new Date() ? 'text-red-600 font-medium' :
-                            new Date(course.certificateExpiry) < new Date(Date.now() + 90 * 24 * 60 * 60 * 1000) ? 'text-orange-600' :
-                            'text-gray-900'
-                          }>
-                            {formatDate(course.certificateExpiry)}
-                          </span>
-                        ) : '-'}
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            )}
-          </CardContent>
-        </Card>
+        )}
       </div>
     </Layout>
   );
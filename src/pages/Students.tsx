@@ -7,10 +7,13 @@ import { Card, CardContent } from '../components/ui/Card';
 import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell, EmptyState, Pagination } from '../components/ui/Table';
 import { Modal, ConfirmDialog } from '../components/ui/Modal';
 import { studentsApi, companiesApi } from '../lib/api';
-import { validaCF, reverseCF, formattaDataNascita } from '../lib/codiceFiscale';
+import { usePermissions } from '../hooks/usePermissions';
+import { validaCF, decodificaLocale, formattaDataNascita, formattaLuogoNascita, verificaLuogoNascita } from '../lib/codiceFiscale';
+import type { CFDecodedResult } from '../lib/codiceFiscale';
 import type { Student, Company } from '../types';
 
 export default function Students() {
+  const { can } = usePermissions();
   const navigate = useNavigate();
   const [students, setStudents] = useState<Student[]>([]);
   const [companies, setCompanies] = useState<Company[]>([]);
@@ -35,9 +38,14 @@ export default function Students() {
     birthDate: '',
     birthPlace: '',
     address: '',
+    city: '',
+    province: '',
+    postalCode: '',
     companyId: '',
     jobRole: '',
     riskLevel: '',
+    fireWarden: false,
+    firstAider: false,
   });
 
   // CF validation state
@@ -51,6 +59,7 @@ export default function Students() {
     birthDate: boolean;
     birthPlace: boolean;
   }>({ birthDate: false, birthPlace: false });
+  const [cfDecoded, setCfDecoded] = useState<CFDecodedResult | null>(null);
   const [duplicateStudent, setDuplicateStudent] = useState<{ id: number; name: string } | null>(null);
   const [isCheckingDuplicate, setIsCheckingDuplicate] = useState(false);
 
@@ -105,6 +114,7 @@ export default function Students() {
     if (!formData.fiscalCode || formData.fiscalCode.length < 16) {
       setCfValidation(null);
       setCfAutoFilled({ birthDate: false, birthPlace: false });
+      setCfDecoded(null);
       setDuplicateStudent(null);
       return;
     }
@@ -113,24 +123,30 @@ export default function Students() {
     const validation = validaCF(formData.fiscalCode);
     setCfValidation(validation);
 
-    // Reverse engineering if valid format
+    // Reverse engineering if valid format: elenco completo lato server, campione locale se non risponde
+    let cancelled = false;
+    setCfDecoded(null);
     if (validation.isValid) {
-      const reversed = reverseCF(formData.fiscalCode);
-      
-      // Auto-fill birth date if not already filled
-      if (reversed.dataNascita && !formData.birthDate) {
-        setFormData(prev => ({ ...prev, birthDate: reversed.dataNascita! }));
-        setCfAutoFilled(prev => ({ ...prev, birthDate: true }));
-      }
-      
-      // Auto-fill birth place if not already filled
-      if (reversed.luogoNascita && !formData.birthPlace) {
-        const luogo = reversed.provinciaNascita 
-          ? `${reversed.luogoNascita} (${reversed.provinciaNascita})`
-          : reversed.luogoNascita;
-        setFormData(prev => ({ ...prev, birthPlace: luogo }));
-        setCfAutoFilled(prev => ({ ...prev, birthPlace: true }));
-      }
+      const cf = formData.fiscalCode;
+      studentsApi.decodeFiscalCode(cf)
+        .then(response => response.decoded || decodificaLocale(cf))
+        .catch(() => decodificaLocale(cf))
+        .then(reversed => {
+          if (cancelled) return;
+          setCfDecoded(reversed);
+
+          // Auto-fill birth date if not already filled
+          if (reversed.dataNascita && !formData.birthDate) {
+            setFormData(prev => ({ ...prev, birthDate: reversed.dataNascita! }));
+            setCfAutoFilled(prev => ({ ...prev, birthDate: true }));
+          }
+
+          // Auto-fill birth place if not already filled (solo con comune o stato riconosciuto)
+          if (reversed.placeFound && !formData.birthPlace) {
+            setFormData(prev => ({ ...prev, birthPlace: formattaLuogoNascita(reversed) }));
+            setCfAutoFilled(prev => ({ ...prev, birthPlace: true }));
+          }
+        });
     }
 
     // Check for duplicates (debounced)
@@ -160,7 +176,10 @@ export default function Students() {
     };
 
     const timer = setTimeout(checkDuplicate, 300);
-    return () => clearTimeout(timer);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
   }, [formData.fiscalCode, selectedStudent?.id]);
 
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -186,9 +205,14 @@ export default function Students() {
       birthDate: '',
       birthPlace: '',
       address: '',
+      city: '',
+      province: '',
+      postalCode: '',
       companyId: '',
       jobRole: '',
       riskLevel: '',
+      fireWarden: false,
+      firstAider: false,
     });
     setCfValidation(null);
     setCfAutoFilled({ birthDate: false, birthPlace: false });
@@ -212,9 +236,14 @@ export default function Students() {
       birthDate: student.birthDate ? student.birthDate.split('T')[0] : '',
       birthPlace: student.birthPlace || '',
       address: student.address || '',
+      city: student.city || '',
+      province: student.province || '',
+      postalCode: student.postalCode || '',
       companyId: student.companyId ? String(student.companyId) : '',
       jobRole: (student as any).jobRole || '',
       riskLevel: (student as any).riskLevel || '',
+      fireWarden: !!student.fireWarden,
+      firstAider: !!student.firstAider,
     });
     setCfAutoFilled({ birthDate: false, birthPlace: false });
     setIsModalOpen(true);
@@ -343,9 +372,11 @@ export default function Students() {
             <Button onClick={handleExport} variant="secondary">
               📥 Esporta
             </Button>
-            <Button onClick={openCreateModal}>
-              + Nuovo Studente
-            </Button>
+            {can('students', 'create') && (
+              <Button onClick={openCreateModal}>
+                + Nuovo Studente
+              </Button>
+            )}
           </div>
         </div>
 
@@ -403,7 +434,7 @@ export default function Students() {
                 title="Nessuno studente trovato"
                 description={search || companyFilter ? 'Prova a modificare i criteri di ricerca' : 'Inizia aggiungendo il primo studente'}
                 action={
-                  !search && !companyFilter && (
+                  !search && !companyFilter && can('students', 'create') && (
                     <Button onClick={openCreateModal}>
                       + Nuovo Studente
                     </Button>
@@ -444,20 +475,24 @@ export default function Students() {
                             >
                               👁️
                             </button>
-                            <button
-                              onClick={() => openEditModal(student)}
-                              className="p-1 text-gray-400 hover:text-blue-600"
-                              title="Modifica"
-                            >
-                              ✏️
-                            </button>
-                            <button
-                              onClick={() => openDeleteDialog(student)}
-                              className="p-1 text-gray-400 hover:text-red-600"
-                              title="Elimina"
-                            >
-                              🗑️
-                            </button>
+                            {can('students', 'update') && (
+                              <button
+                                onClick={() => openEditModal(student)}
+                                className="p-1 text-gray-400 hover:text-blue-600"
+                                title="Modifica"
+                              >
+                                ✏️
+                              </button>
+                            )}
+                            {can('students', 'delete') && (
+                              <button
+                                onClick={() => openDeleteDialog(student)}
+                                className="p-1 text-gray-400 hover:text-red-600"
+                                title="Elimina"
+                              >
+                                🗑️
+                              </button>
+                            )}
                           </div>
                         </TableCell>
                       </TableRow>
@@ -599,6 +634,11 @@ export default function Students() {
                 }}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               />
+              {cfDecoded && formData.birthPlace && !verificaLuogoNascita(cfDecoded, formData.birthPlace) && (
+                <div className="mt-1 text-sm text-yellow-600">
+                  ⚠️ Il codice fiscale indica {formattaLuogoNascita(cfDecoded)}
+                </div>
+              )}
             </div>
           </div>
 
@@ -609,6 +649,30 @@ export default function Students() {
             onChange={(e) => setFormData({ ...formData, address: e.target.value })}
           />
 
+          {/* Sede: necessaria per fatturare lo studente come privato */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Input
+              label="CAP"
+              name="postalCode"
+              value={formData.postalCode}
+              onChange={(e) => setFormData({ ...formData, postalCode: e.target.value })}
+              maxLength={5}
+            />
+            <Input
+              label="Comune"
+              name="city"
+              value={formData.city}
+              onChange={(e) => setFormData({ ...formData, city: e.target.value })}
+            />
+            <Input
+              label="Provincia"
+              name="province"
+              value={formData.province}
+              onChange={(e) => setFormData({ ...formData, province: e.target.value.toUpperCase() })}
+              maxLength={2}
+            />
+          </div>
+
           {/* D.Lgs. 81/08 Compliance Fields */}
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 space-y-4">
             <h3 className="font-semibold text-blue-900 text-sm">Dati di Sicurezza (D.Lgs. 81/08)</h3>
@@ -650,6 +714,27 @@ export default function Students() {
                 </select>
               </div>
             </div>
+
+            <div className="flex flex-wrap gap-6">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={formData.fireWarden}
+                  onChange={(e) => setFormData({ ...formData, fireWarden: e.target.checked })}
+                  className="w-4 h-4"
+                />
+                Addetto antincendio
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={formData.firstAider}
+                  onChange={(e) => setFormData({ ...formData, firstAider: e.target.checked })}
+                  className="w-4 h-4"
+                />
+                Addetto primo soccorso
+              </label>
+            </div>
           </div>
 
           <div>
@@ -1,3 +1,5 @@
+import type { PriceSource } from '../lib/pricing';
+
 // User Types
 export interface User {
   id: number;
@@ -9,6 +11,8 @@ export interface User {
   createdAt: string;
   updatedAt: string;
   lastLoginAt?: string;
+  isClientAdmin?: boolean; // Admin del cliente (accesso con le credenziali del cliente)
+  invitationPending?: boolean; // Invito inviato ma password non ancora impostata
 }
 
 export interface Client {
@@ -50,6 +54,8 @@ export interface Company {
   phone?: string;
   address?: string;
   contactPerson?: string;
+  atecoCode?: string | null;
+  riskCategory?: 'low' | 'medium' | 'high';
   agentId?: number;
   agent?: { id: number; name: string } | null;
   createdAt: string;
@@ -68,8 +74,15 @@ export interface Student {
   birthDate?: string;
   birthPlace?: string;
   address?: string;
+  city?: string;
+  province?: string;
+  postalCode?: string;
   companyId?: number;
   company?: Company;
+  jobRole?: string | null;
+  riskLevel?: string | null;
+  fireWarden?: boolean;
+  firstAider?: boolean;
   agentId?: number;
   agent?: { id: number; name: string } | null;
   createdAt: string;
@@ -127,6 +140,10 @@ export interface CourseEdition {
   createdAt: string;
   updatedAt: string;
   registrationsCount?: number;
+  // Dati del corso restituiti dall'elenco edizioni
+  courseTitle?: string;
+  courseType?: string | null;
+  courseDurationHours?: number;
 }
 
 // Registration Types
@@ -142,11 +159,36 @@ export interface Registration {
   registrationDate: string;
   status: 'confirmed' | 'pending' | 'cancelled';
   priceApplied: number;
+  priceSource?: PriceSource | null;
   notes?: string;
+  attendancePercent?: number | null; // Calcolata dalle presenze, non modificabile
+  attendanceEligible?: boolean;
+  prerequisiteOverrideReason?: string | null;
+  prerequisiteOverrideBy?: number | null;
+  prerequisiteOverrideByEmail?: string | null;
+  prerequisiteOverrideAt?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+// Prezzo per agente in un'edizione (centesimi)
+export interface EditionAgentPrice {
+  id: number;
+  agentId: number;
+  agentName: string;
+  price: number;
+  updatedAt: string;
+}
+
+// Esito per studente dell'iscrizione massiva
+export interface BulkRegistrationResult {
+  studentId: number;
+  registrationId?: number;
+  error?: string;
+  code?: string;
+  prerequisiteOverride?: boolean;
+}
+
 // Attendance Types
 export interface Attendance {
   id: number;
@@ -162,11 +204,308 @@ export interface Attendance {
   status: 'present' | 'absent' | 'late' | 'justified';
   present: boolean;
   hoursAttended?: number;
+  sessionId?: number | null;
+  signInTime?: string | null;
+  signOutTime?: string | null;
+  signatureMethod?: 'manual' | 'otp' | 'qr_code' | null;
+  signatureHash?: string | null;
   notes?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+// Check-in con QR code: QR da proiettare (cambia ogni rotatesEverySeconds) e pagina pubblica dell'allievo
+export interface SessionCheckInQr {
+  token: string;
+  url: string;
+  expiresAt: string;
+  rotatesEverySeconds: number;
+  isOpen: boolean;
+}
+
+export interface CheckInSessionInfo {
+  courseTitle: string;
+  sessionDate: string;
+  startTime: string;
+  endTime: string;
+  location: string | null;
+}
+
+export interface CheckInResult {
+  action: 'sign_in' | 'sign_out';
+  time: string;
+  late: boolean;
+  hoursAttended: number;
+  firstName: string;
+}
+
+// Presenze con OTP delle sessioni FAD sincrone (videoconferenza)
+export type SessionDeliveryMode = 'in_person' | 'fad_sync';
+
+export interface AttendanceOtpCheck {
+  id: number;
+  registrationId: number;
+  studentId: number;
+  firstName: string;
+  lastName: string;
+  sequence: number;
+  scheduledAt: string;
+  sentAt: string | null;
+  expiresAt: string | null;
+  verifiedAt: string | null;
+  verifiedIp: string | null;
+  proofHash: string | null;
+}
+
+export interface AttendanceOtpInfo {
+  courseTitle: string;
+  sessionDate: string;
+  startTime: string;
+  endTime: string;
+  firstName: string;
+  expiresAt: string | null;
+  verifiedAt: string | null;
+}
+
+export interface AttendanceOtpResult {
+  verifiedAt: string;
+  sequence: number;
+  verified: number;
+  planned: number;
+  hoursAttended: number;
+}
+
+// Chiusura del registro presenze con catena di hash
+export interface AttendanceRegisterEvent {
+  id: number;
+  action: 'close' | 'reopen';
+  hash: string | null;
+  previousHash: string | null;
+  attendanceCount: number;
+  reason: string | null;
+  userEmail: string;
+  createdAt: string;
+}
+
+export interface AttendanceRegisterStatus {
+  closed: boolean;
+  closedAt: string | null;
+  closedBy: string | null;
+  hash: string | null;
+  events: AttendanceRegisterEvent[];
+  // Presente solo con registro chiuso
+  verification: {
+    valid: boolean;
+    expectedCount: number;
+    actualCount: number;
+    tamperedIds: number[];
+  } | null;
+}
+
+// Recupero ore: moduli persi e sessioni di altre edizioni che li coprono
+export type RecoveryStatus = 'planned' | 'attended' | 'absent';
+
+export interface RecoveryModule {
+  module: number; // Posizione della sessione nel calendario (1 = prima)
+  sessionId: number;
+  sessionDate: string;
+  startTime: string;
+  endTime: string;
+  topic: string | null;
+  plannedHours: number;
+  attendedHours: number;
+  missedHours: number;
+  recoveredHours: number;
+  remainingHours: number;
+  hasPlannedRecovery: boolean;
+}
+
+export interface RecoveryProposal {
+  sessionId: number;
+  editionId: number;
+  module: number;
+  sessionDate: string;
+  startTime: string;
+  endTime: string;
+  hours: number;
+  location: string | null;
+  deliveryMode: SessionDeliveryMode;
+}
+
+export interface RecoveryEnrollment {
+  id: number;
+  registrationId: number;
+  missedSessionId: number | null;
+  sessionId: number;
+  editionId: number;
+  module: number;
+  hours: number;
+  status: RecoveryStatus;
+  hoursRecovered: number;
+  notes: string | null;
+  sessionDate: string;
+  startTime: string;
+  endTime: string;
+  location: string | null;
+  createdAt: string;
+}
+
+export interface RecoveryPlan {
+  registrationId: number;
+  studentId: number;
+  studentName: string;
+  editionId: number;
+  courseId: number;
+  courseTitle: string;
+  durationHours: number;
+  attendancePercent: number | null;
+  attendanceEligible: boolean;
+  missedHours: number;
+  modules: RecoveryModule[];
+  proposals: RecoveryProposal[];
+  enrollments: RecoveryEnrollment[];
+}
+
+// Audit Log Types (storico modifiche)
+export type AuditEntityType = 'company' | 'student' | 'edition' | 'registration' | 'attendance' | 'session' | 'subscription';
+
+export interface AuditLogEntry {
+  id: number;
+  userId: number;
+  userEmail: string;
+  entityType: AuditEntityType;
+  entityId: number;
+  action: 'create' | 'update' | 'delete';
+  changes: Record<string, { from: unknown; to: unknown }>;
+  studentId: number | null;
+  companyId: number | null;
+  editionId: number | null;
+  ipAddress: string | null;
+  createdAt: string;
+  courseTitle: string | null;
+  editionStartDate: string | null;
+}
+
+// Email Outbox Types (coda email)
+export type EmailOutboxKind = 'calendar_invite' | 'certificate_notice' | 'bulk_notice' | 'expiry_reminder' | 'attendance_otp' | 'generic';
+export type EmailOutboxStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+export interface EmailOutboxEntry {
+  id: number;
+  kind: EmailOutboxKind;
+  toEmail: string;
+  fromEmail: string | null;
+  fromName: string | null;
+  subject: string;
+  status: EmailOutboxStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  transport: 'resend' | 'smtp' | 'file' | null;
+  messageId: string | null;
+  nextAttemptAt: string;
+  sentAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface EmailOutboxDetail extends EmailOutboxEntry {
+  html: string;
+  rawMessage: string | null;
+  attachments: string[];
+}
+
+// Promemoria automatici scadenze
+export interface ReminderSettings {
+  enabled: boolean;
+  thresholds: number[];
+  notifyStudents: boolean;
+  notifyCompanies: boolean;
+  notifyAgents: boolean;
+}
+
+// Template email personalizzabili
+export type EmailTemplateKey =
+  | 'edition_invite'
+  | 'session_invite'
+  | 'enrollment_confirmation'
+  | 'certificate_expiration'
+  | 'certificate_expiration_student'
+  | 'bulk_certificate_notice'
+  | 'attendance_otp';
+
+export interface EmailTemplate {
+  key: EmailTemplateKey;
+  label: string;
+  description: string;
+  placeholders: string[];
+  subject: string;
+  html: string;
+  isCustom: boolean;
+  updatedAt: string | null;
+  defaultSubject: string;
+  defaultHtml: string;
+}
+
+// Fatturazione (bozze generate dalle iscrizioni)
+export type InvoiceStatus = 'draft' | 'sent' | 'paid' | 'partial' | 'cancelled';
+export type InvoiceGrouping = 'company' | 'edition';
+
+export interface InvoiceCandidate {
+  registrationId: number;
+  registrationDate: string;
+  priceApplied: number;
+  studentId: number;
+  studentName: string;
+  courseEditionId: number;
+  courseTitle: string;
+  editionStartDate: string;
+  companyId: number | null;
+  companyName: string | null;
+  companyVatNumber: string | null;
+}
+
+export interface InvoiceSummary {
+  id: number;
+  companyId: number | null;
+  courseEditionId: number | null;
+  provider: string;
+  externalId: string | null;
+  number: string;
+  date: string;
+  dueDate: string | null;
+  status: InvoiceStatus;
+  customerName: string;
+  netAmount: number;
+  vatAmount: number;
+  totalAmount: number;
+  pdfUrl: string | null;
+  linesCount: number;
+  createdAt: string;
+}
+
+export interface InvoiceLine {
+  id: number;
+  registrationId: number | null;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  vatRate: number;
+}
+
+export interface InvoiceDetail extends InvoiceSummary {
+  lines: InvoiceLine[];
+}
+
+export interface InvoiceGenerationResult {
+  customerName: string;
+  registrationIds: number[];
+  invoiceId?: number;
+  number?: string;
+  totalAmount?: number;
+  error?: string;
+}
+
 // Dashboard Stats
 export interface DashboardStats {
   totalCompanies: number;
@@ -0,0 +1,51 @@
+/**
+ * Worker schedulato di GestionaleSicurezza
+ *
+ * Cloudflare Pages non supporta i cron trigger: questo worker condivide il database
+ * D1 e le librerie di functions/lib ed esegue i job periodici.
+ * - ogni giorno: promemoria automatici delle scadenze attestati
+ * - ogni 15 minuti: nuovi tentativi delle email rimaste in coda nell'outbox
+ * - ogni 5 minuti: codici OTP di presenza delle sessioni FAD sincrone
+ */
+
+import { runExpiryReminders } from '../../functions/lib/reminders';
+import { processOutbox } from '../../functions/lib/outbox';
+import { runAttendanceOtp } from '../../functions/lib/otpAttendance';
+import type { MailEnv } from '../../functions/lib/mail';
+import type { OtpEnv } from '../../functions/lib/otpAttendance';
+
+// Devono coincidere con [triggers] crons in wrangler.toml
+const DAILY_REMINDERS_CRON = '0 6 * * *';
+const ATTENDANCE_OTP_CRON = '*/5 * * * *';
+
+async function runReminders(env: MailEnv): Promise<void> {
+  const runs = await runExpiryReminders(env);
+  const queued = runs.reduce((sum, r) => sum + r.queued, 0);
+  console.log(`Promemoria scadenze: ${queued} email accodate per ${runs.length} clienti`);
+}
+
+async function retryOutbox(env: MailEnv): Promise<void> {
+  const results = await processOutbox(env);
+  if (results.length > 0) {
+    console.log(`Outbox: ${results.filter(r => r.status === 'sent').length}/${results.length} email inviate`);
+  }
+}
+
+async function sendAttendanceOtp(env: OtpEnv): Promise<void> {
+  const { planned, sent } = await runAttendanceOtp(env);
+  if (planned > 0 || sent > 0) {
+    console.log(`Presenze OTP: ${planned} verifiche pianificate, ${sent} codici inviati`);
+  }
+}
+
+function runJob(cron: string, env: OtpEnv): Promise<void> {
+  if (cron === DAILY_REMINDERS_CRON) return runReminders(env);
+  if (cron === ATTENDANCE_OTP_CRON) return sendAttendanceOtp(env);
+  return retryOutbox(env);
+}
+
+export default {
+  async scheduled(controller, env, ctx) {
+    ctx.waitUntil(runJob(controller.cron, env));
+  },
+} satisfies ExportedHandler<OtpEnv>;